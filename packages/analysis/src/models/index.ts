@@ -225,12 +225,20 @@ export type TimeSeriesAnalysis = z.infer<typeof TimeSeriesAnalysisSchema>;
 
 /**
  * Schema for survival analysis
+ * Survival rates are Kaplan-Meier estimates with a 95% Greenwood confidence
+ * band (lowerBounds, upperBounds); users who have not churned are censored at
+ * their last event. atRisk and hazardRates describe each time interval.
  */
 export const SurvivalAnalysisSchema = z.object({
   timePoints: z.array(z.number()),
   survivalRates: z.array(z.number().min(0).max(1)),
+  lowerBounds: z.array(z.number().min(0).max(1)),
+  upperBounds: z.array(z.number().min(0).max(1)),
+  atRisk: z.array(z.number().int().min(0)),
+  hazardRates: z.array(z.number().min(0).max(1)),
   medianSurvivalTime: z.number().min(0).optional(),
   churnRate: z.number().min(0).max(1),
+  censoredCount: z.number().int().min(0),
   halfLife: z.number().min(0).optional(),
 });
 
@@ -239,6 +247,24 @@ export const SurvivalAnalysisSchema = z.object({
  */
 export type SurvivalAnalysis = z.infer<typeof SurvivalAnalysisSchema>;
 
+/**
+ * Schema for a log-rank test between two cohorts
+ */
+export const LogRankTestSchema = z.object({
+  chiSquare: z.number().min(0),
+  pValue: z.number().min(0).max(1),
+  significant: z.boolean(),
+  observedA: z.number().int().min(0),
+  expectedA: z.number().min(0),
+  observedB: z.number().int().min(0),
+  expectedB: z.number().min(0),
+});
+
+/**
+ * Log-rank test type
+ */
+export type LogRankTest = z.infer<typeof LogRankTestSchema>;
+
 /**
  * Schema for insight
  */
@@ -3,7 +3,31 @@
  */
 
 import { TelemetryEvent } from '@suts/telemetry';
-import { SurvivalAnalysis } from '../models';
+import { LogRankTest, SurvivalAnalysis } from '../models';
+
+/**
+ * Standard normal quantile of a two-sided 95% confidence interval
+ */
+const Z_95 = 1.959964;
+
+/**
+ * Observed survival of one user
+ * Users who have not churned are censored: they survived at least survivalTime.
+ */
+interface UserSurvival {
+  userId: string;
+  survivalTime: number;
+  churned: boolean;
+}
+
+/**
+ * Kaplan-Meier estimate after the churns at one time
+ */
+interface SurvivalStep {
+  time: number;
+  survival: number;
+  variance: number;
+}
 
 /**
  * Performs survival analysis on user cohorts
@@ -12,7 +36,7 @@ export class SurvivalAnalyzer {
   constructor() {} // eslint-disable-line @typescript-eslint/no-unused-vars
 
   /**
-   * Performs survival analysis
+   * Performs Kaplan-Meier survival analysis with right-censoring
    * @param events - Telemetry events to analyze
    * @param timeIntervalMs - Time interval for survival calculation (default: 1 day)
    * @returns Survival analysis results
@@ -22,7 +46,12 @@ export class SurvivalAnalyzer {
       return {
         timePoints: [],
         survivalRates: [],
+        lowerBounds: [],
+        upperBounds: [],
+        atRisk: [],
+        hazardRates: [],
         churnRate: 0,
+        censoredCount: 0,
       };
     }
 
@@ -39,15 +68,33 @@ export class SurvivalAnalyzer {
       timePoints.push(t);
     }
 
-    // Calculate survival rates at each time point
+    // Estimate survival with its Greenwood confidence band at each time point
+    const steps = this.kaplanMeier(userSurvivalData);
     const survivalRates: number[] = [];
+    const lowerBounds: number[] = [];
+    const upperBounds: number[] = [];
     for (const time of timePoints) {
-      const survived = userSurvivalData.filter((d) => d.survivalTime >= time).length;
-      survivalRates.push(survived / userIds.length);
+      const step = this.stepAt(steps, time);
+      const margin = Z_95 * Math.sqrt(step.variance);
+      survivalRates.push(step.survival);
+      lowerBounds.push(Math.max(0, step.survival - margin));
+      upperBounds.push(Math.min(1, step.survival + margin));
     }
 
+    // Calculate users at risk and the churn hazard of each interval
+    const atRisk = timePoints.map(
+      (time) => userSurvivalData.filter((d) => d.survivalTime >= time).length
+    );
+    const hazardRates = timePoints.map((time, i) => {
+      const churned = userSurvivalData.filter(
+        (d) => d.churned && d.survivalTime >= time && d.survivalTime < time + timeIntervalMs
+      ).length;
+      const users = atRisk[i] ?? 0;
+      return users > 0 ? churned / users : 0;
+    });
+
     // Calculate median survival time
-    const medianSurvivalTime = this.calculateMedianSurvivalTime(userSurvivalData);
+    const medianSurvivalTime = this.calculateMedianSurvivalTime(steps);
 
     // Calculate overall churn rate
     const churnedUsers = userSurvivalData.filter((d) => d.churned).length;
@@ -59,8 +106,13 @@ export class SurvivalAnalyzer {
     return {
       timePoints,
       survivalRates,
+      lowerBounds,
+      upperBounds,
+      atRisk,
+      hazardRates,
       medianSurvivalTime,
       churnRate,
+      censoredCount: userIds.length - churnedUsers,
       halfLife,
     };
   }
@@ -68,11 +120,8 @@ export class SurvivalAnalyzer {
   /**
    * Calculates survival data for each user
    */
-  private calculateUserSurvivalData(
-    userIds: string[],
-    events: TelemetryEvent[]
-  ): Array<{ userId: string; survivalTime: number; churned: boolean }> {
-    const survivalData: Array<{ userId: string; survivalTime: number; churned: boolean }> = [];
+  private calculateUserSurvivalData(userIds: string[], events: TelemetryEvent[]): UserSurvival[] {
+    const survivalData: UserSurvival[] = [];
 
     for (const userId of userIds) {
       const userEvents = events
@@ -104,28 +153,51 @@ export class SurvivalAnalyzer {
   }
 
   /**
-   * Calculates median survival time
+   * Calculates the Kaplan-Meier estimate at each churn time
+   * The variance is Greenwood's estimate.
    */
-  private calculateMedianSurvivalTime(
-    survivalData: Array<{ userId: string; survivalTime: number; churned: boolean }>
-  ): number | undefined {
-    if (survivalData.length === 0) {
-      return undefined;
-    }
+  private kaplanMeier(survivalData: UserSurvival[]): SurvivalStep[] {
+    const churnTimes = Array.from(
+      new Set(survivalData.filter((d) => d.churned).map((d) => d.survivalTime))
+    ).sort((a, b) => a - b);
+
+    const steps: SurvivalStep[] = [];
+    let survival = 1;
+    let greenwoodSum = 0;
+    for (const time of churnTimes) {
+      const atRisk = survivalData.filter((d) => d.survivalTime >= time).length;
+      const churned = survivalData.filter((d) => d.churned && d.survivalTime === time).length;
 
-    const sortedTimes = survivalData
-      .map((d) => d.survivalTime)
-      .sort((a, b) => a - b);
+      survival *= 1 - churned / atRisk;
+      if (atRisk > churned) {
+        greenwoodSum += churned / (atRisk * (atRisk - churned));
+      }
+      steps.push({ time, survival, variance: survival * survival * greenwoodSum });
+    }
 
-    const midIndex = Math.floor(sortedTimes.length / 2);
+    return steps;
+  }
 
-    if (sortedTimes.length % 2 === 0) {
-      const mid1 = sortedTimes[midIndex - 1];
-      const mid2 = sortedTimes[midIndex];
-      return mid1 !== undefined && mid2 !== undefined ? (mid1 + mid2) / 2 : undefined;
-    } else {
-      return sortedTimes[midIndex];
+  /**
+   * Finds the Kaplan-Meier estimate in effect at a time
+   */
+  private stepAt(steps: SurvivalStep[], time: number): SurvivalStep {
+    let current: SurvivalStep = { time: 0, survival: 1, variance: 0 };
+    for (const step of steps) {
+      if (step.time > time) {
+        break;
+      }
+      current = step;
     }
+    return current;
+  }
+
+  /**
+   * Calculates median survival time
+   * Undefined while the survival estimate stays above 50%.
+   */
+  private calculateMedianSurvivalTime(steps: SurvivalStep[]): number | undefined {
+    return steps.find((step) => step.survival <= 0.5)?.time;
   }
 
   /**
@@ -142,33 +214,115 @@ export class SurvivalAnalyzer {
     return undefined;
   }
 
+  /**
+   * Tests whether two cohorts churn at different rates with the log-rank test
+   * @param eventsA - Events for cohort A
+   * @param eventsB - Events for cohort B
+   * @param significanceLevel - Largest p-value reported as significant (default: 0.05)
+   * @returns Observed and expected churns per cohort with the test statistic
+   */
+  logRankTest(
+    eventsA: TelemetryEvent[],
+    eventsB: TelemetryEvent[],
+    significanceLevel: number = 0.05
+  ): LogRankTest {
+    const usersA = this.calculateUserSurvivalData(
+      Array.from(new Set(eventsA.map((e) => e.personaId))),
+      eventsA
+    );
+    const usersB = this.calculateUserSurvivalData(
+      Array.from(new Set(eventsB.map((e) => e.personaId))),
+      eventsB
+    );
+
+    const churnTimes = Array.from(
+      new Set([...usersA, ...usersB].filter((d) => d.churned).map((d) => d.survivalTime))
+    ).sort((a, b) => a - b);
+
+    let observedA = 0;
+    let expectedA = 0;
+    let variance = 0;
+    for (const time of churnTimes) {
+      const atRiskA = usersA.filter((d) => d.survivalTime >= time).length;
+      const atRiskB = usersB.filter((d) => d.survivalTime >= time).length;
+      const churnedA = usersA.filter((d) => d.churned && d.survivalTime === time).length;
+      const churnedB = usersB.filter((d) => d.churned && d.survivalTime === time).length;
+      const atRisk = atRiskA + atRiskB;
+      const churned = churnedA + churnedB;
+
+      observedA += churnedA;
+      expectedA += (churned * atRiskA) / atRisk;
+      if (atRisk > 1) {
+        variance +=
+          (atRiskA * atRiskB * churned * (atRisk - churned)) / (atRisk * atRisk * (atRisk - 1));
+      }
+    }
+
+    const observedB = usersB.filter((d) => d.churned).length;
+    const expectedB = observedA + observedB - expectedA;
+    const chiSquare = variance > 0 ? (observedA - expectedA) ** 2 / variance : 0;
+
+    // Chi-square with one degree of freedom is the square of a standard normal
+    const pValue =
+      variance > 0 ? Math.min(Math.max(2 * (1 - this.normalCDF(Math.sqrt(chiSquare))), 0), 1) : 1;
+
+    return {
+      chiSquare,
+      pValue,
+      significant: pValue < significanceLevel,
+      observedA,
+      expectedA,
+      observedB,
+      expectedB,
+    };
+  }
+
   /**
    * Compares survival between two cohorts
    * @param eventsA - Events for cohort A
    * @param eventsB - Events for cohort B
    * @param timeIntervalMs - Time interval for survival calculation
-   * @returns Comparison of survival analyses
+   * @param significanceLevel - Largest log-rank p-value reported as significant (default: 0.05)
+   * @returns Survival analyses, the log-rank hazard ratio of A to B and the log-rank test
    */
   compareCohorts(
     eventsA: TelemetryEvent[],
     eventsB: TelemetryEvent[],
-    timeIntervalMs: number = 86400000
+    timeIntervalMs: number = 86400000,
+    significanceLevel: number = 0.05
   ): {
     cohortA: SurvivalAnalysis;
     cohortB: SurvivalAnalysis;
     hazardRatio: number;
+    logRank: LogRankTest;
   } {
     const cohortA = this.analyze(eventsA, timeIntervalMs);
     const cohortB = this.analyze(eventsB, timeIntervalMs);
+    const logRank = this.logRankTest(eventsA, eventsB, significanceLevel);
 
-    // Calculate hazard ratio (simple approximation)
-    const hazardRatio =
-      cohortB.churnRate !== 0 ? cohortA.churnRate / cohortB.churnRate : 0;
+    // Hazard ratio from observed over expected churns (0 when cohort B never churns)
+    const rateA = logRank.expectedA > 0 ? logRank.observedA / logRank.expectedA : 0;
+    const rateB = logRank.expectedB > 0 ? logRank.observedB / logRank.expectedB : 0;
+    const hazardRatio = rateB !== 0 ? rateA / rateB : 0;
 
     return {
       cohortA,
       cohortB,
       hazardRatio,
+      logRank,
     };
   }
+
+  /**
+   * Cumulative distribution function for standard normal distribution
+   * Using an approximation
+   */
+  private normalCDF(x: number): number {
+    const t = 1 / (1 + 0.2316419 * Math.abs(x));
+    const d = 0.3989423 * Math.exp((-x * x) / 2);
+    const p =
+      d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+
+    return x > 0 ? 1 - p : p;
+  }
 }
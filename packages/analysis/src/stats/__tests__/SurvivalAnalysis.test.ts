@@ -0,0 +1,204 @@
+/**
+ * Tests for SurvivalAnalyzer
+ */
+
+import { TelemetryEvent } from '@suts/telemetry';
+import { SurvivalAnalyzer } from '../SurvivalAnalysis';
+import { createEvent } from '../../test-utils';
+
+const DAY = 86400000;
+const START = new Date('2024-01-01T00:00:00Z').getTime();
+
+/**
+ * Creates a user who installs on day 0 and is last seen after `days` days
+ */
+function createUser(userId: string, days: number, churned: boolean): TelemetryEvent[] {
+  return [
+    createEvent({ personaId: userId, action: 'install', timestamp: new Date(START) }),
+    createEvent({
+      personaId: userId,
+      action: churned ? 'uninstall' : 'use_feature',
+      timestamp: new Date(START + days * DAY),
+    }),
+  ];
+}
+
+describe('SurvivalAnalyzer', () => {
+  describe('analyze', () => {
+    it('should return an empty analysis for no events', () => {
+      const analyzer = new SurvivalAnalyzer();
+      const result = analyzer.analyze([]);
+
+      expect(result.timePoints).toEqual([]);
+      expect(result.survivalRates).toEqual([]);
+      expect(result.churnRate).toBe(0);
+      expect(result.censoredCount).toBe(0);
+    });
+
+    it('should censor users who have not churned', () => {
+      const analyzer = new SurvivalAnalyzer();
+      const events = [
+        ...createUser('user-1', 1, true),
+        ...createUser('user-2', 2, false),
+        ...createUser('user-3', 3, true),
+        ...createUser('user-4', 4, false),
+      ];
+
+      const result = analyzer.analyze(events);
+
+      expect(result.timePoints).toEqual([0, DAY, 2 * DAY, 3 * DAY, 4 * DAY]);
+      expect(result.survivalRates).toEqual([1, 0.75, 0.75, 0.375, 0.375]);
+      expect(result.atRisk).toEqual([4, 4, 3, 2, 1]);
+      expect(result.hazardRates).toEqual([0, 0.25, 0, 0.5, 0]);
+      expect(result.churnRate).toBe(0.5);
+      expect(result.censoredCount).toBe(2);
+      expect(result.medianSurvivalTime).toBe(3 * DAY);
+      expect(result.halfLife).toBe(3 * DAY);
+    });
+
+    it('should calculate Greenwood confidence bands', () => {
+      const analyzer = new SurvivalAnalyzer();
+      const events = [
+        ...createUser('user-1', 1, true),
+        ...createUser('user-2', 2, false),
+        ...createUser('user-3', 3, true),
+        ...createUser('user-4', 4, false),
+      ];
+
+      const result = analyzer.analyze(events);
+
+      // Var(S(1)) = 0.75^2 * 1 / (4 * 3)
+      expect(result.lowerBounds[1]).toBeCloseTo(0.75 - 1.959964 * Math.sqrt(0.5625 / 12), 6);
+      expect(result.upperBounds[1]).toBeCloseTo(1, 6);
+      // Var(S(3)) = 0.375^2 * (1 / 12 + 1 / 2)
+      expect(result.upperBounds[3]).toBeCloseTo(
+        0.375 + 1.959964 * Math.sqrt(0.140625 * (7 / 12)),
+        6
+      );
+      expect(result.lowerBounds[3]).toBe(0);
+      expect(result.lowerBounds[0]).toBe(1);
+      result.timePoints.forEach((_, i) => {
+        expect(result.lowerBounds[i]).toBeLessThanOrEqual(result.survivalRates[i] ?? 0);
+        expect(result.upperBounds[i]).toBeGreaterThanOrEqual(result.survivalRates[i] ?? 1);
+      });
+    });
+
+    it('should keep survival at 1 when nobody churns', () => {
+      const analyzer = new SurvivalAnalyzer();
+      const events = [...createUser('user-1', 2, false), ...createUser('user-2', 3, false)];
+
+      const result = analyzer.analyze(events);
+
+      expect(result.survivalRates.every((rate) => rate === 1)).toBe(true);
+      expect(result.medianSurvivalTime).toBeUndefined();
+      expect(result.censoredCount).toBe(2);
+    });
+
+    it('should treat highly frustrated users as churned', () => {
+      const analyzer = new SurvivalAnalyzer();
+      const events = [
+        createEvent({ personaId: 'user-1', action: 'install', timestamp: new Date(START) }),
+        createEvent({
+          personaId: 'user-1',
+          action: 'configure',
+          emotionalState: { frustration: 0.9 },
+          timestamp: new Date(START + DAY),
+        }),
+      ];
+
+      const result = analyzer.analyze(events);
+
+      expect(result.churnRate).toBe(1);
+      expect(result.survivalRates).toEqual([1, 0]);
+    });
+  });
+
+  describe('logRankTest', () => {
+    it('should find no difference between identical cohorts', () => {
+      const analyzer = new SurvivalAnalyzer();
+      const cohort = (prefix: string): TelemetryEvent[] => [
+        ...createUser(`${prefix}-1`, 1, true),
+        ...createUser(`${prefix}-2`, 3, false),
+        ...createUser(`${prefix}-3`, 5, true),
+      ];
+
+      const result = analyzer.logRankTest(cohort('a'), cohort('b'));
+
+      expect(result.chiSquare).toBeCloseTo(0, 10);
+      expect(result.pValue).toBeCloseTo(1, 6);
+      expect(result.significant).toBe(false);
+      expect(result.observedA).toBe(2);
+      expect(result.expectedA).toBeCloseTo(2, 10);
+    });
+
+    it('should detect a cohort that churns earlier', () => {
+      const analyzer = new SurvivalAnalyzer();
+      const early: TelemetryEvent[] = [];
+      const late: TelemetryEvent[] = [];
+      for (let i = 0; i < 10; i++) {
+        early.push(...createUser(`early-${i}`, 1 + (i % 3), true));
+        late.push(...createUser(`late-${i}`, 10, i < 2));
+      }
+
+      const result = analyzer.logRankTest(early, late);
+
+      expect(result.observedA).toBe(10);
+      expect(result.observedB).toBe(2);
+      expect(result.observedA).toBeGreaterThan(result.expectedA);
+      expect(result.expectedA + result.expectedB).toBeCloseTo(12, 10);
+      expect(result.pValue).toBeLessThan(0.001);
+      expect(result.significant).toBe(true);
+    });
+
+    it('should match a hand-calculated statistic', () => {
+      const analyzer = new SurvivalAnalyzer();
+      const cohortA = [...createUser('a-1', 1, true), ...createUser('a-2', 2, true)];
+      const cohortB = [...createUser('b-1', 2, true), ...createUser('b-2', 3, false)];
+
+      const result = analyzer.logRankTest(cohortA, cohortB);
+
+      // Day 1: 4 at risk, 1 churn (A); day 2: 3 at risk (1 A), 2 churns (1 A)
+      const expectedA = 2 / 4 + (2 * 1) / 3;
+      const variance = (2 * 2 * 1 * 3) / (16 * 3) + (1 * 2 * 2 * 1) / (9 * 2);
+      expect(result.expectedA).toBeCloseTo(expectedA, 10);
+      expect(result.chiSquare).toBeCloseTo((2 - expectedA) ** 2 / variance, 10);
+      expect(result.significant).toBe(false);
+    });
+  });
+
+  describe('compareCohorts', () => {
+    it('should report the log-rank test and hazard ratio', () => {
+      const analyzer = new SurvivalAnalyzer();
+      const early: TelemetryEvent[] = [];
+      const late: TelemetryEvent[] = [];
+      for (let i = 0; i < 10; i++) {
+        early.push(...createUser(`early-${i}`, 1 + (i % 3), true));
+        late.push(...createUser(`late-${i}`, 10, i < 2));
+      }
+
+      const result = analyzer.compareCohorts(early, late);
+
+      expect(result.cohortA.churnRate).toBe(1);
+      expect(result.cohortB.censoredCount).toBe(8);
+      expect(result.logRank.significant).toBe(true);
+      expect(result.hazardRatio).toBeCloseTo(
+        result.logRank.observedA /
+          result.logRank.expectedA /
+          (result.logRank.observedB / result.logRank.expectedB),
+        10
+      );
+      expect(result.hazardRatio).toBeGreaterThan(1);
+    });
+
+    it('should use a hazard ratio of 0 when cohort B never churns', () => {
+      const analyzer = new SurvivalAnalyzer();
+
+      const result = analyzer.compareCohorts(
+        createUser('a-1', 1, true),
+        createUser('b-1', 2, false)
+      );
+
+      expect(result.hazardRatio).toBe(0);
+    });
+  });
+});
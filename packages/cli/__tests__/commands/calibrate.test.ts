@@ -0,0 +1,156 @@
+/**
+ * Tests for calibrate command
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { calibrateCommand } from '../../src/commands/calibrate';
+import { ExitCode } from '../../src/errors';
+
+describe('calibrate command', () => {
+  const testOutputDir = path.join(__dirname, '../test-output/calibrate');
+  const testConfigFile = path.join(__dirname, '../fixtures/run-config.json');
+  const targetsFile = path.join(testOutputDir, 'targets.json');
+  const reportFile = path.join(testOutputDir, 'calibration.json');
+
+  let logSpy: jest.SpyInstance<void, unknown[]>;
+  let errorSpy: jest.SpyInstance<void, unknown[]>;
+  let processExitSpy: jest.SpyInstance;
+
+  const output = (): string => logSpy.mock.calls.map(([line]) => String(line)).join('\n');
+
+  beforeEach(() => {
+    fs.mkdirSync(testOutputDir, { recursive: true });
+    fs.writeFileSync(
+      targetsFile,
+      JSON.stringify({ retention: [{ day: 1, rate: 0.6 }], churnRate: 0.3 })
+    );
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    processExitSpy.mockRestore();
+    fs.rmSync(testOutputDir, { recursive: true, force: true });
+  });
+
+  it('should report calibration error per metric and save the calibrated parameters', async () => {
+    await calibrateCommand({
+      config: testConfigFile,
+      data: targetsFile,
+      maxEvaluations: 4,
+      output: reportFile,
+    });
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    const text = output();
+    expect(text).toContain('Calibration over 3 days, seed 12345, 4 simulations');
+    expect(text).toMatch(/retention\.d1\s+0\.6/);
+    expect(text).toMatch(/churnRate\s+0\.3/);
+    expect(text).toMatch(/Accuracy: \d+\.\d%/);
+
+    const report = JSON.parse(fs.readFileSync(reportFile, 'utf-8')) as {
+      behavior: Record<string, unknown>;
+      calibrated: { parameters: Record<string, unknown> };
+    };
+    expect(report.behavior).toEqual(report.calibrated.parameters);
+    expect(report.behavior).toHaveProperty('frustrationDecayPerDay');
+  });
+
+  it('should derive targets from real telemetry events', async () => {
+    const day = (n: number): string => new Date(Date.UTC(2024, 0, 1 + n)).toISOString();
+    const eventsFile = path.join(testOutputDir, 'events.json');
+    fs.writeFileSync(
+      eventsFile,
+      JSON.stringify([
+        {
+          id: 'e1',
+          personaId: 'u1',
+          timestamp: day(0),
+          eventType: 'action',
+          action: 'install',
+          context: {},
+        },
+        {
+          id: 'e2',
+          personaId: 'u1',
+          timestamp: day(3),
+          eventType: 'action',
+          action: 'use_feature',
+          context: {},
+        },
+        {
+          id: 'e3',
+          personaId: 'u2',
+          timestamp: day(0),
+          eventType: 'action',
+          action: 'install',
+          context: {},
+        },
+      ])
+    );
+
+    await calibrateCommand({
+      config: testConfigFile,
+      events: eventsFile,
+      maxEvaluations: 2,
+      output: reportFile,
+      json: true,
+    });
+
+    const result = JSON.parse(output()) as {
+      targets: { retention: unknown[]; funnel: unknown[]; churnRate: number };
+      evaluations: number;
+    };
+    expect(result.targets).toEqual({
+      retention: [{ day: 1, rate: 0.5 }],
+      funnel: [
+        { action: 'install', rate: 1 },
+        { action: 'use_feature', rate: 0.5 },
+      ],
+      churnRate: 0,
+    });
+    expect(result.evaluations).toBe(2);
+  });
+
+  it('should start from the configured behaviour parameters', async () => {
+    const config = JSON.parse(fs.readFileSync(testConfigFile, 'utf-8')) as {
+      simulation: Record<string, unknown>;
+      personas: { file: string };
+    };
+    config.simulation['behavior'] = { patienceWeight: 0.5 };
+    config.personas.file = path.join(__dirname, '../fixtures/personas.json');
+    const configFile = path.join(testOutputDir, 'behavior-config.json');
+    fs.writeFileSync(configFile, JSON.stringify(config));
+
+    await calibrateCommand({
+      config: configFile,
+      data: targetsFile,
+      maxEvaluations: 1,
+      output: reportFile,
+      json: true,
+    });
+
+    const result = JSON.parse(output()) as { baseline: { parameters: { patienceWeight: number } } };
+    expect(result.baseline.parameters.patienceWeight).toBe(0.5);
+  });
+
+  it('should require exactly one source of targets', async () => {
+    await calibrateCommand({ config: testConfigFile, output: reportFile });
+
+    expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+    expect(fs.existsSync(reportFile)).toBe(false);
+  });
+
+  it('should reject invalid targets', async () => {
+    fs.writeFileSync(targetsFile, JSON.stringify({ retention: [{ day: 7, rate: 70 }] }));
+
+    await calibrateCommand({ config: testConfigFile, data: targetsFile, output: reportFile });
+
+    expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+    expect(logSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for experiment command
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { experimentRunCommand } from '../../src/commands/experiment';
+import { ExitCode } from '../../src/errors';
+
+describe('experiment command', () => {
+  const testOutputDir = path.join(__dirname, '../test-output/experiment');
+  const testConfigFile = path.join(__dirname, '../fixtures/run-config.json');
+  const experimentFile = path.join(testOutputDir, 'experiment.json');
+
+  let logSpy: jest.SpyInstance<void, unknown[]>;
+  let errorSpy: jest.SpyInstance<void, unknown[]>;
+  let processExitSpy: jest.SpyInstance;
+
+  const output = (): string => logSpy.mock.calls.map(([line]) => String(line)).join('\n');
+
+  const writeExperiment = (successCriteria: string[]): void => {
+    fs.writeFileSync(
+      experimentFile,
+      JSON.stringify({
+        id: 'exp-onboarding',
+        name: 'Test: Onboarding',
+        description: 'Guided onboarding',
+        hypothesis: 'Guided onboarding retains users',
+        targetMetric: 'Day 7 Retention Rate',
+        controlGroup: { name: 'Control', size: 0.5, description: 'Current experience' },
+        treatmentGroups: [
+          {
+            name: 'Treatment',
+            size: 0.5,
+            description: 'Guided onboarding',
+            changes: ['Guided onboarding'],
+          },
+        ],
+        minimumSampleSize: 1000,
+        expectedDuration: 3,
+        successCriteria,
+        risks: [],
+        estimatedLift: 0.1,
+      })
+    );
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(testOutputDir, { recursive: true });
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    processExitSpy.mockRestore();
+    fs.rmSync(testOutputDir, { recursive: true, force: true });
+  });
+
+  it('should report arms and criteria of the experiment', async () => {
+    writeExperiment(['Positive user feedback']);
+
+    await experimentRunCommand(experimentFile, { config: testConfigFile, runs: 1 });
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    const text = output();
+    expect(text).toContain('Experiment exp-onboarding: Test: Onboarding');
+    expect(text).toContain('Target Day 7 Retention Rate (retentionRate), 1 runs x 3 days');
+    expect(text).toMatch(/Control\s+2/);
+    expect(text).toMatch(/Positive user feedback.*skipped/);
+  });
+
+  it('should output the report as JSON', async () => {
+    writeExperiment([]);
+
+    await experimentRunCommand(experimentFile, { config: testConfigFile, runs: 2, json: true });
+
+    const report = JSON.parse(output()) as {
+      sampleSize: number;
+      sampleSizeMet: boolean;
+      treatments: unknown[];
+    };
+    expect(report.sampleSize).toBe(3);
+    expect(report.sampleSizeMet).toBe(false);
+    expect(report.treatments).toHaveLength(1);
+  });
+
+  it('should exit with the regression code when a criterion fails', async () => {
+    writeExperiment(['1000% improvement in target metric']);
+
+    await experimentRunCommand(experimentFile, { config: testConfigFile, runs: 1 });
+
+    expect(processExitSpy).toHaveBeenCalledWith(ExitCode.REGRESSION);
+  });
+
+  it('should reject invalid experiments', async () => {
+    fs.writeFileSync(experimentFile, JSON.stringify({ id: 'exp-invalid' }));
+
+    await experimentRunCommand(experimentFile, { config: testConfigFile });
+
+    expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+  });
+
+  it('should reject invalid options', async () => {
+    writeExperiment([]);
+
+    await experimentRunCommand(experimentFile, { config: testConfigFile, runs: 0 });
+
+    expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Tests for personas commands
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PersonaLibrary, type PersonaProfile } from '@suts/persona';
+import {
+  personasDiffCommand,
+  personasGroundCommand,
+  personasImportCommand,
+  personasListCommand,
+  personasRetireCommand,
+  personasShowCommand,
+  personasTagCommand,
+} from '../../src/commands/personas';
+import { ExitCode } from '../../src/errors';
+
+const PERSONAS = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '../fixtures/personas.json'), 'utf-8')
+) as PersonaProfile[];
+
+describe('personas commands', () => {
+  let library: string;
+  let logSpy: jest.SpyInstance<void, unknown[]>;
+  let errorSpy: jest.SpyInstance<void, unknown[]>;
+  let processExitSpy: jest.SpyInstance;
+
+  const output = (): string => logSpy.mock.calls.map(([line]) => String(line)).join('\n');
+
+  beforeEach(async () => {
+    library = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-persona-library-'));
+    const personaLibrary = new PersonaLibrary(library);
+    await personaLibrary.save(PERSONAS, { sources: [] }, ['baseline']);
+    await personaLibrary.save([{ ...PERSONAS[0]!, patienceLevel: 0.1 }], { sources: [] });
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    processExitSpy.mockRestore();
+    fs.rmSync(library, { recursive: true, force: true });
+  });
+
+  describe('list', () => {
+    it('should list the latest version of each persona', async () => {
+      await personasListCommand({ library });
+
+      const lines = output().split('\n');
+      expect(lines[0]).toMatch(/^id\s+archetype\s+version\s+versions\s+hash\s+tags\s+retired$/);
+      expect(lines.find((line) => line.startsWith('test-persona-1'))).toMatch(
+        /\s2\s+2\s+[0-9a-f]{12}\s+baseline$/
+      );
+      expect(lines.filter((line) => line.startsWith('test-persona-'))).toHaveLength(3);
+    });
+
+    it('should show the tagged version when filtering by tag', async () => {
+      await personasListCommand({ library, tag: 'baseline', json: false });
+
+      expect(output()).toMatch(/test-persona-1\s+.+\s1\s+2\s/);
+    });
+
+    it('should hide retired personas unless asked', async () => {
+      await personasRetireCommand('test-persona-3', { library, reason: 'Obsolete' });
+      logSpy.mockClear();
+
+      await personasListCommand({ library, json: true });
+      const active = JSON.parse(output()) as Array<{ id: string }>;
+      logSpy.mockClear();
+      await personasListCommand({ library, all: true, json: true });
+      const all = JSON.parse(output()) as Array<{ id: string }>;
+
+      expect(active.map((entry) => entry.id)).toEqual(['test-persona-1', 'test-persona-2']);
+      expect(all).toHaveLength(3);
+    });
+  });
+
+  describe('show', () => {
+    it('should show a version with its provenance', async () => {
+      await personasShowCommand('test-persona-1@baseline', { library });
+
+      const text = output();
+      expect(text).toContain('Persona:   test-persona-1@1 (2 versions)');
+      expect(text).toContain('Tags:      baseline');
+      expect(text).toContain('Diversity:');
+      expect(text).toContain('"patienceLevel": 0.4');
+    });
+
+    it('should exit with a config error for unknown personas', async () => {
+      await personasShowCommand('missing', { library });
+
+      expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Persona not found: missing'));
+    });
+  });
+
+  describe('diff', () => {
+    it('should list changed fields', async () => {
+      await personasDiffCommand('test-persona-1@1', 'test-persona-1@2', { library });
+
+      const lines = output().split('\n');
+      expect(lines[0]).toBe('test-persona-1@1 -> test-persona-1@2');
+      expect(lines.find((line) => line.startsWith('patienceLevel'))).toMatch(
+        /^patienceLevel\s+0\.400\s+0\.100$/
+      );
+    });
+
+    it('should report identical versions', async () => {
+      await personasDiffCommand('test-persona-2', 'test-persona-2@1', { library });
+
+      expect(output()).toBe('test-persona-2@1 -> test-persona-2@1: no differences');
+    });
+  });
+
+  describe('tag', () => {
+    it('should move a tag to another version', async () => {
+      await personasTagCommand('test-persona-1', 'baseline', { library, json: true });
+
+      expect(JSON.parse(output())).toMatchObject({ version: 2, tags: ['baseline'] });
+      const pinned = await new PersonaLibrary(library).loadPersonas('baseline');
+      expect(pinned[0]?.patienceLevel).toBe(0.1);
+    });
+  });
+
+  describe('import', () => {
+    let workDir: string;
+    let csvFile: string;
+    let mappingFile: string;
+    let outputFile: string;
+
+    beforeEach(() => {
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-persona-import-'));
+      csvFile = path.join(workDir, 'survey.csv');
+      mappingFile = path.join(workDir, 'mapping.json');
+      outputFile = path.join(workDir, 'personas.json');
+      fs.writeFileSync(
+        csvFile,
+        'segment,role,size\nStartups,Developer,1-10\nStartups,Founder,1-10\nEnterprise,Architect,5000+\n'
+      );
+      fs.writeFileSync(
+        mappingFile,
+        JSON.stringify({
+          segmentColumn: 'segment',
+          fields: {
+            role: 'role',
+            companySize: { column: 'size', values: { '1-10': 'Startup', '5000+': 'Enterprise' } },
+          },
+        })
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('should write imported personas and print the segment allocation', async () => {
+      await personasImportCommand(csvFile, { mapping: mappingFile, count: 3, output: outputFile });
+
+      const personas = JSON.parse(fs.readFileSync(outputFile, 'utf-8')) as PersonaProfile[];
+      expect(personas.map((persona) => persona.id)).toEqual([
+        'startups-1',
+        'startups-2',
+        'enterprise-1',
+      ]);
+      expect(personas[2]).toMatchObject({ role: 'Architect', companySize: 'Enterprise' });
+      expect(output()).toMatch(/^name\s+size\s+rows\s+personas$/m);
+      expect(output()).toMatch(/^Startups\s+2\s+2\s+2$/m);
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should save imported personas to a library with their sources', async () => {
+      await personasImportCommand(csvFile, {
+        mapping: mappingFile,
+        count: 1,
+        output: outputFile,
+        library,
+      });
+
+      const { record } = await new PersonaLibrary(library).show('startups-1');
+      expect(record.provenance.sources.map((source) => source.name)).toEqual([
+        'survey.csv',
+        'mapping.json',
+      ]);
+    });
+
+    it('should exit with a validation error for unmapped columns', async () => {
+      fs.writeFileSync(mappingFile, JSON.stringify({ fields: { role: 'job_title' } }));
+
+      await personasImportCommand(csvFile, { mapping: mappingFile, count: 1, output: outputFile });
+
+      expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+      expect(errorSpy.mock.calls.map(([line]) => String(line)).join('\n')).toContain(
+        'CSV is missing mapped columns: job_title'
+      );
+      expect(fs.existsSync(outputFile)).toBe(false);
+    });
+
+    it('should require an API key to fill gaps with --llm', async () => {
+      const apiKey = process.env['ANTHROPIC_API_KEY'];
+      delete process.env['ANTHROPIC_API_KEY'];
+      try {
+        await personasImportCommand(csvFile, {
+          mapping: mappingFile,
+          count: 1,
+          output: outputFile,
+          llm: true,
+        });
+      } finally {
+        if (apiKey !== undefined) {
+          process.env['ANTHROPIC_API_KEY'] = apiKey;
+        }
+      }
+
+      expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+      expect(errorSpy.mock.calls.map(([line]) => String(line)).join('\n')).toContain(
+        'ANTHROPIC_API_KEY is required'
+      );
+    });
+  });
+
+  describe('ground', () => {
+    let workDir: string;
+    let insightFile: string;
+    let signalsFile: string;
+    let outputFile: string;
+
+    beforeEach(() => {
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-persona-ground-'));
+      insightFile = path.join(workDir, 'insight.json');
+      signalsFile = path.join(workDir, 'signals.json');
+      outputFile = path.join(workDir, 'personas.json');
+      fs.writeFileSync(
+        insightFile,
+        JSON.stringify({
+          themes: [
+            { name: 'slow builds', confidence: 0.8, frequency: 2, keywords: ['slow'] },
+            { name: 'offline mode', confidence: 0.6, frequency: 1, keywords: ['offline'] },
+          ],
+          painPoints: ['slow builds'],
+          desires: ['offline mode'],
+          confidence: 0.7,
+        })
+      );
+      fs.writeFileSync(
+        signalsFile,
+        JSON.stringify([
+          { id: 'reddit-1', content: 'CI is painfully slow', sentiment: -0.7 },
+          { id: 'hn-2', content: 'I want an offline mode', sentiment: 0.4 },
+        ])
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('should write personas grounded in the insight signals', async () => {
+      await personasGroundCommand(insightFile, {
+        count: 1,
+        signals: signalsFile,
+        output: outputFile,
+      });
+
+      const personas = JSON.parse(fs.readFileSync(outputFile, 'utf-8')) as PersonaProfile[];
+      expect(personas[0]).toMatchObject({
+        id: 'slow-builds-1',
+        painPoints: ['slow builds'],
+        goals: ['offline mode'],
+        state: { signalIds: ['hn-2', 'reddit-1'] },
+        source: 'rgs',
+      });
+      expect(output()).toMatch(/^slow-builds-1\s+slow builds\s+offline mode\s+2$/m);
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should ground personas in a report and its signals', async () => {
+      fs.writeFileSync(
+        insightFile,
+        JSON.stringify({
+          themes: [
+            {
+              name: 'slow builds',
+              confidence: 0.8,
+              frequency: 1,
+              keywords: ['slow'],
+              category: 'pain',
+              sentiment: -0.7,
+            },
+          ],
+          signals: JSON.parse(fs.readFileSync(signalsFile, 'utf-8')) as unknown[],
+        })
+      );
+
+      await personasGroundCommand(insightFile, { count: 1, output: outputFile, json: true });
+
+      const result = JSON.parse(output()) as { grounding: Record<string, string[]> };
+      expect(result.grounding).toEqual({ 'slow-builds-1': ['reddit-1'] });
+    });
+
+    it('should exit with a validation error for invalid insights', async () => {
+      fs.writeFileSync(insightFile, JSON.stringify({ painPoints: 'slow', desires: [] }));
+
+      await personasGroundCommand(insightFile, { count: 1, output: outputFile });
+
+      expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+      expect(fs.existsSync(outputFile)).toBe(false);
+    });
+  });
+});
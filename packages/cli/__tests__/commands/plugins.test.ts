@@ -0,0 +1,77 @@
+/**
+ * Tests for plugins commands
+ */
+
+import { pluginInfoCommand, pluginsListCommand } from '../../src/commands/plugins';
+
+describe('plugins commands', () => {
+  let logSpy: jest.SpyInstance<void, unknown[]>;
+
+  const output = (): string => logSpy.mock.calls.map(([line]) => String(line)).join('\n');
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  describe('list', () => {
+    it('should list installed plugins as a table', async () => {
+      await pluginsListCommand({});
+
+      const lines = output().split('\n');
+      expect(lines[0]).toMatch(/^name\s+version\s+adapter\s+personas\s+scenarios\s+description$/);
+      expect(lines.find((line) => line.startsWith('vibeatlas'))).toMatch(
+        /^vibeatlas\s+1\.0\.0\s+simple\s+5\s+5\s+SUTS Plugin/
+      );
+    });
+
+    it('should list installed plugins as JSON', async () => {
+      await pluginsListCommand({ json: true });
+
+      const plugins = JSON.parse(output()) as Array<Record<string, unknown>>;
+      expect(plugins).toContainEqual(
+        expect.objectContaining({ name: 'vibeatlas', adapter: 'simple', scenarios: 5 })
+      );
+    });
+  });
+
+  describe('info', () => {
+    it('should show persona templates and scenarios', async () => {
+      await pluginInfoCommand('vibeatlas', {});
+
+      const text = output();
+      expect(text).toContain('Source:      @suts/plugin-vibeatlas');
+      expect(text).toContain('Adapter:     ISimpleProductAdapter');
+      expect(text).toContain('Persona templates (5):');
+      expect(text).toMatch(/skeptical-dev-001\s+Skeptical Developer/);
+      expect(text).toContain('Scenarios (5):');
+      expect(text).toMatch(/happy-path-001\s+Happy Path Onboarding/);
+    });
+
+    it('should output the plugin description as JSON', async () => {
+      await pluginInfoCommand('@suts/plugin-vibeatlas', { json: true });
+
+      const plugin = JSON.parse(output()) as Record<string, unknown>;
+      expect(plugin).toMatchObject({ name: 'vibeatlas', adapterKind: 'simple' });
+      expect(plugin).not.toHaveProperty('adapter');
+    });
+
+    it('should exit with an error for unknown plugins', async () => {
+      const processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      try {
+        await pluginInfoCommand('does-not-exist', {});
+
+        expect(processExitSpy).toHaveBeenCalledWith(expect.any(Number));
+        expect(processExitSpy).not.toHaveBeenCalledWith(0);
+      } finally {
+        processExitSpy.mockRestore();
+        errorSpy.mockRestore();
+      }
+    });
+  });
+});
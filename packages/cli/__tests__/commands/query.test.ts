@@ -0,0 +1,134 @@
+/**
+ * Tests for query command
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { NdjsonStore, SqliteStore } from '@suts/telemetry';
+import { queryCommand } from '../../src/commands/query';
+import { ResultsMapper } from '../../src/runner';
+import type { EventData } from '../../src/output';
+
+describe('query command', () => {
+  const testOutputDir = path.join(__dirname, '../test-output/query');
+  const eventsFile = path.join(testOutputDir, 'events.json');
+  const events: EventData[] = [
+    { persona: 'persona-1', action: 'install', frustration: 0.2, day: 1 },
+    { persona: 'persona-2', action: 'configure', frustration: 0.8, day: 1 },
+    { persona: 'persona-1', action: 'configure', frustration: 0.6, day: 2 },
+  ].map((event, index) => ({
+    id: `event-${index + 1}`,
+    personaId: event.persona,
+    timestamp: new Date(Date.UTC(2024, 0, event.day)).toISOString(),
+    eventType: 'action',
+    action: event.action,
+    context: {
+      day: event.day,
+      emotionalState: { frustration: event.frustration, delight: 1 - event.frustration },
+    },
+  }));
+
+  let logSpy: jest.SpyInstance<void, unknown[]>;
+
+  const output = (): string => logSpy.mock.calls.map(([line]) => String(line)).join('\n');
+
+  beforeEach(() => {
+    fs.rmSync(testOutputDir, { recursive: true, force: true });
+    fs.mkdirSync(testOutputDir, { recursive: true });
+    fs.writeFileSync(eventsFile, JSON.stringify(events));
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    fs.rmSync(testOutputDir, { recursive: true, force: true });
+  });
+
+  it('should print aggregates as a table', () => {
+    queryCommand('count, avg(frustration) group by action order by action', {
+      events: eventsFile,
+    });
+
+    expect(output().split('\n')).toEqual([
+      'action     count  avg_frustration',
+      '---------  -----  ---------------',
+      'configure      2            0.700',
+      'install        1            0.200',
+    ]);
+  });
+
+  it('should print aggregates as JSON', () => {
+    queryCommand('count group by day', { events: eventsFile, json: true });
+
+    expect(JSON.parse(output())).toEqual([
+      { day: 1, count: 2 },
+      { day: 2, count: 1 },
+    ]);
+  });
+
+  it('should print matching events as CSV', () => {
+    queryCommand('where frustration >= 0.5 order by frustration desc', {
+      events: eventsFile,
+      format: 'csv',
+    });
+
+    const lines = output().split('\r\n');
+    expect(lines[0]).toBe('timestamp,personaId,eventType,action,cohort,frustration,delight');
+    expect(lines.slice(1).map((line) => line.split(',')[1])).toEqual(['persona-2', 'persona-1']);
+  });
+
+  it('should query NDJSON and SQLite stores', () => {
+    const telemetry = ResultsMapper.fromEventData(events);
+    const ndjsonFile = path.join(testOutputDir, 'events.ndjson');
+    const sqliteFile = path.join(testOutputDir, 'events.db');
+    new NdjsonStore(ndjsonFile).storeBatch(telemetry);
+    const sqlite = new SqliteStore(sqliteFile);
+    sqlite.storeBatch(telemetry);
+    sqlite.close();
+
+    queryCommand('count where persona = persona-1', { events: ndjsonFile, json: true });
+    queryCommand('count where persona = persona-1', { events: sqliteFile, json: true });
+
+    expect(logSpy.mock.calls.map(([line]) => JSON.parse(String(line)) as unknown)).toEqual([
+      [{ count: 2 }],
+      [{ count: 2 }],
+    ]);
+  });
+
+  describe('errors', () => {
+    let exitSpy: jest.SpyInstance;
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      exitSpy = jest.spyOn(process, 'exit').mockImplementation((code?: string | number | null | undefined): never => {
+        throw new Error(`process.exit: ${code}`);
+      });
+      errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      exitSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it('should report invalid queries', () => {
+      expect(() => queryCommand('sum(frustration)', { events: eventsFile })).toThrow(
+        'process.exit: 2'
+      );
+      expect(errorSpy.mock.calls.flat().join('\n')).toContain('Unknown aggregation "sum"');
+    });
+
+    it('should report missing event files without creating them', () => {
+      const missing = path.join(testOutputDir, 'missing.ndjson');
+
+      expect(() => queryCommand('count', { events: missing })).toThrow('process.exit: 2');
+      expect(fs.existsSync(missing)).toBe(false);
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => queryCommand('count', { events: eventsFile, format: 'xml' })).toThrow(
+        'process.exit: 2'
+      );
+    });
+  });
+});
@@ -4,11 +4,13 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { CheckpointManager } from '@suts/simulation';
+import { SqliteStore } from '@suts/telemetry';
 import { runCommand } from '../../src/commands/run';
 
 describe('run command', () => {
   const testOutputDir = path.join(__dirname, '../test-output/simulation');
-  const testConfigFile = path.join(__dirname, '../fixtures/valid-config.json');
+  const testConfigFile = path.join(__dirname, '../fixtures/run-config.json');
 
   beforeEach(() => {
     // Clean up test output
@@ -45,7 +47,7 @@ describe('run command', () => {
     const options = {
       config: testConfigFile,
       output: testOutputDir,
-      personas: 20,
+      personas: 2,
       verbose: false,
     };
 
@@ -54,7 +56,7 @@ describe('run command', () => {
     const personasFile = path.join(testOutputDir, 'personas.json');
     const personas = JSON.parse(fs.readFileSync(personasFile, 'utf-8')) as unknown[];
 
-    expect(personas.length).toBe(20);
+    expect(personas.length).toBe(2);
   });
 
   it('should override days from command line', async () => {
@@ -77,7 +79,7 @@ describe('run command', () => {
     const options = {
       config: testConfigFile,
       output: testOutputDir,
-      product: 'custom-product',
+      product: '@suts/plugin-vibeatlas',
       verbose: false,
     };
 
@@ -86,7 +88,277 @@ describe('run command', () => {
     const summaryFile = path.join(testOutputDir, 'summary.json');
     const summary = JSON.parse(fs.readFileSync(summaryFile, 'utf-8')) as { productPlugin: string };
 
-    expect(summary.productPlugin).toBe('custom-product');
+    expect(summary.productPlugin).toBe('@suts/plugin-vibeatlas');
+  });
+
+  it('should write events emitted by the simulation engine', async () => {
+    const options = {
+      config: testConfigFile,
+      output: testOutputDir,
+      verbose: false,
+    };
+
+    await runCommand(options);
+
+    const events = JSON.parse(
+      fs.readFileSync(path.join(testOutputDir, 'events.json'), 'utf-8')
+    ) as Array<{ personaId: string }>;
+    const summary = JSON.parse(
+      fs.readFileSync(path.join(testOutputDir, 'summary.json'), 'utf-8')
+    ) as { totalEvents: number; totalPersonas: number };
+
+    expect(events.length).toBeGreaterThan(0);
+    expect(summary.totalEvents).toBe(events.length);
+    expect(summary.totalPersonas).toBe(3);
+    expect(new Set(events.map((e) => e.personaId))).toEqual(
+      new Set(['test-persona-1', 'test-persona-2', 'test-persona-3'])
+    );
+  });
+
+  it('should produce identical event streams for the same seed', async () => {
+    const readActions = (): string[] =>
+      (
+        JSON.parse(
+          fs.readFileSync(path.join(testOutputDir, 'events.json'), 'utf-8')
+        ) as Array<{ personaId: string; action?: string }>
+      ).map((e) => `${e.personaId}:${e.action ?? ''}`);
+
+    await runCommand({ config: testConfigFile, output: testOutputDir, seed: 7 });
+    const first = readActions();
+    await runCommand({ config: testConfigFile, output: testOutputDir, seed: 7 });
+
+    expect(readActions()).toEqual(first);
+  });
+
+  it('should record decisions and replay them on rerun', async () => {
+    const readActions = (): string[] =>
+      (
+        JSON.parse(
+          fs.readFileSync(path.join(testOutputDir, 'events.json'), 'utf-8')
+        ) as Array<{ personaId: string; action?: string }>
+      ).map((e) => `${e.personaId}:${e.action ?? ''}`);
+    const writeConfig = (mode: 'record' | 'replay'): string => {
+      const config = JSON.parse(fs.readFileSync(testConfigFile, 'utf-8')) as {
+        simulation: Record<string, unknown>;
+        personas: { file: string };
+      };
+      config.simulation['decisions'] = { mode, file: './decisions.json' };
+      config.personas.file = path.join(__dirname, '../fixtures/personas.json');
+      const configFile = path.join(testOutputDir, `${mode}-config.json`);
+      fs.writeFileSync(configFile, JSON.stringify(config));
+      return configFile;
+    };
+
+    fs.mkdirSync(testOutputDir, { recursive: true });
+    await runCommand({ config: writeConfig('record'), output: testOutputDir });
+    const recorded = readActions();
+    expect(fs.existsSync(path.join(testOutputDir, 'decisions.json'))).toBe(true);
+
+    await runCommand({ config: writeConfig('replay'), output: testOutputDir });
+
+    expect(readActions()).toEqual(recorded);
+  });
+
+  it('should use rule-based decisions unless LLM decisions are configured', async () => {
+    const originalKey = process.env['ANTHROPIC_API_KEY'];
+    process.env['ANTHROPIC_API_KEY'] = 'sk-ant-invalid';
+
+    try {
+      await runCommand({ config: testConfigFile, output: testOutputDir });
+    } finally {
+      if (originalKey === undefined) {
+        delete process.env['ANTHROPIC_API_KEY'];
+      } else {
+        process.env['ANTHROPIC_API_KEY'] = originalKey;
+      }
+    }
+
+    expect(fs.existsSync(path.join(testOutputDir, 'events.json'))).toBe(true);
+  });
+
+  it('should require ANTHROPIC_API_KEY for LLM decisions', async () => {
+    const originalKey = process.env['ANTHROPIC_API_KEY'];
+    delete process.env['ANTHROPIC_API_KEY'];
+    const processExitSpy = jest.spyOn(process, 'exit').mockImplementation((code?: string | number | null | undefined): never => {
+      throw new Error(`process.exit: ${code}`);
+    });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const config = JSON.parse(fs.readFileSync(testConfigFile, 'utf-8')) as {
+      simulation: Record<string, unknown>;
+      personas: { file: string };
+    };
+    config.simulation['decisionProvider'] = 'llm';
+    config.personas.file = path.join(__dirname, '../fixtures/personas.json');
+    const configFile = path.join(testOutputDir, 'llm-config.json');
+    fs.mkdirSync(testOutputDir, { recursive: true });
+    fs.writeFileSync(configFile, JSON.stringify(config));
+
+    try {
+      await expect(runCommand({ config: configFile, output: testOutputDir })).rejects.toThrow(
+        'process.exit'
+      );
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('ANTHROPIC_API_KEY is required for LLM decisions')
+      );
+    } finally {
+      processExitSpy.mockRestore();
+      errorSpy.mockRestore();
+      if (originalKey !== undefined) {
+        process.env['ANTHROPIC_API_KEY'] = originalKey;
+      }
+    }
+  });
+
+  it('should replay recorded LLM decisions without ANTHROPIC_API_KEY', async () => {
+    const originalKey = process.env['ANTHROPIC_API_KEY'];
+    delete process.env['ANTHROPIC_API_KEY'];
+    const readActions = (): string[] =>
+      (
+        JSON.parse(
+          fs.readFileSync(path.join(testOutputDir, 'events.json'), 'utf-8')
+        ) as Array<{ personaId: string; action?: string }>
+      ).map((e) => `${e.personaId}:${e.action ?? ''}`);
+    const writeConfig = (mode: 'record' | 'replay', decisionProvider: string): string => {
+      const config = JSON.parse(fs.readFileSync(testConfigFile, 'utf-8')) as {
+        simulation: Record<string, unknown>;
+        personas: { file: string };
+      };
+      config.simulation['decisionProvider'] = decisionProvider;
+      config.simulation['decisions'] = { mode, file: './decisions.json' };
+      config.personas.file = path.join(__dirname, '../fixtures/personas.json');
+      const configFile = path.join(testOutputDir, `${mode}-config.json`);
+      fs.writeFileSync(configFile, JSON.stringify(config));
+      return configFile;
+    };
+
+    try {
+      fs.mkdirSync(testOutputDir, { recursive: true });
+      await runCommand({ config: writeConfig('record', 'rules'), output: testOutputDir });
+      const recorded = readActions();
+
+      await runCommand({ config: writeConfig('replay', 'llm'), output: testOutputDir });
+
+      expect(readActions()).toEqual(recorded);
+    } finally {
+      if (originalKey !== undefined) {
+        process.env['ANTHROPIC_API_KEY'] = originalKey;
+      }
+    }
+  });
+
+  it('should resume an interrupted run from a checkpoint', async () => {
+    const readActions = (): string[] =>
+      (
+        JSON.parse(
+          fs.readFileSync(path.join(testOutputDir, 'events.json'), 'utf-8')
+        ) as Array<{ personaId: string; action?: string }>
+      ).map((e) => `${e.personaId}:${e.action ?? ''}`);
+    const config = JSON.parse(fs.readFileSync(testConfigFile, 'utf-8')) as {
+      simulation: Record<string, unknown>;
+      personas: { file: string };
+    };
+    config.simulation['checkpoint'] = { file: './checkpoint.json' };
+    config.personas.file = path.join(__dirname, '../fixtures/personas.json');
+    fs.mkdirSync(testOutputDir, { recursive: true });
+    const configFile = path.join(testOutputDir, 'checkpoint-config.json');
+    fs.writeFileSync(configFile, JSON.stringify(config));
+
+    await runCommand({ config: configFile, output: testOutputDir });
+    const uninterrupted = readActions();
+    fs.rmSync(path.join(testOutputDir, 'events.json'));
+
+    // Crash while saving the day 2 checkpoint, leaving the day 1 checkpoint on disk
+    const processExitSpy = jest.spyOn(process, 'exit').mockImplementation((code?: string | number | null | undefined): never => {
+      throw new Error(`process.exit: ${code}`);
+    });
+    const save = CheckpointManager.save.bind(CheckpointManager);
+    const saveSpy = jest
+      .spyOn(CheckpointManager, 'save')
+      .mockImplementation((file, checkpoint) =>
+        checkpoint.completedDay === 2 ? Promise.reject(new Error('Disk full')) : save(file, checkpoint)
+      );
+
+    await expect(runCommand({ config: configFile, output: testOutputDir })).rejects.toThrow();
+    expect(fs.existsSync(path.join(testOutputDir, 'events.json'))).toBe(false);
+    saveSpy.mockRestore();
+    processExitSpy.mockRestore();
+
+    await runCommand({
+      config: configFile,
+      output: testOutputDir,
+      resume: path.join(testOutputDir, 'checkpoint.json'),
+    });
+
+    expect(readActions()).toEqual(uninterrupted);
+  });
+
+  it('should persist events to the configured event store', async () => {
+    const config = JSON.parse(fs.readFileSync(testConfigFile, 'utf-8')) as Record<
+      string,
+      unknown
+    > & { personas: { file: string } };
+    config['telemetry'] = { store: 'sqlite' };
+    config.personas.file = path.join(__dirname, '../fixtures/personas.json');
+    fs.mkdirSync(testOutputDir, { recursive: true });
+    const configFile = path.join(testOutputDir, 'telemetry-config.json');
+    fs.writeFileSync(configFile, JSON.stringify(config));
+
+    await runCommand({ config: configFile, output: testOutputDir });
+    await runCommand({ config: configFile, output: testOutputDir });
+
+    const events = JSON.parse(
+      fs.readFileSync(path.join(testOutputDir, 'events.json'), 'utf-8')
+    ) as unknown[];
+    const store = new SqliteStore(path.join(testOutputDir, 'events.db'));
+    try {
+      expect(store.count()).toBe(events.length);
+      expect(store.getByPersonaId('test-persona-1').length).toBeGreaterThan(0);
+    } finally {
+      store.close();
+    }
+  });
+
+  it('should load a local product plugin relative to the config file', async () => {
+    const configDir = path.join(testOutputDir, 'project');
+    fs.mkdirSync(configDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(configDir, 'local-plugin.js'),
+      "module.exports = require('@suts/plugin-vibeatlas');"
+    );
+    const config = JSON.parse(fs.readFileSync(testConfigFile, 'utf-8')) as {
+      simulation: Record<string, unknown>;
+      personas: { file: string };
+    };
+    config.simulation['product'] = './local-plugin.js';
+    config.personas.file = path.join(__dirname, '../fixtures/personas.json');
+    const configFile = path.join(configDir, 'config.json');
+    fs.writeFileSync(configFile, JSON.stringify(config));
+
+    await runCommand({ config: configFile, output: testOutputDir });
+
+    const summary = JSON.parse(
+      fs.readFileSync(path.join(testOutputDir, 'summary.json'), 'utf-8')
+    ) as { productPlugin: string };
+    expect(summary.productPlugin).toBe(path.join(configDir, 'local-plugin.js'));
+  });
+
+  it('should fail when the product plugin cannot be found', async () => {
+    const processExitSpy = jest.spyOn(process, 'exit').mockImplementation((code?: string | number | null | undefined): never => {
+      throw new Error(`process.exit: ${code}`);
+    });
+
+    const options = {
+      config: testConfigFile,
+      output: testOutputDir,
+      product: 'does-not-exist',
+      verbose: false,
+    };
+
+    await expect(runCommand(options)).rejects.toThrow();
+    expect(fs.existsSync(path.join(testOutputDir, 'summary.json'))).toBe(false);
+
+    processExitSpy.mockRestore();
   });
 
   it('should handle verbose mode', async () => {
@@ -0,0 +1,95 @@
+/**
+ * Tests for scenario command
+ */
+
+import { scenarioRunCommand } from '../../src/commands/scenario';
+import { ExitCode } from '../../src/errors';
+
+describe('scenario command', () => {
+  let logSpy: jest.SpyInstance<void, unknown[]>;
+  let errorSpy: jest.SpyInstance<void, unknown[]>;
+  let processExitSpy: jest.SpyInstance;
+
+  const output = (): string => logSpy.mock.calls.map(([line]) => String(line)).join('\n');
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    processExitSpy.mockRestore();
+  });
+
+  it('should report metric checks for the scenario personas', async () => {
+    await scenarioRunCommand('churn-001', { product: 'vibeatlas', runs: 2, days: 7 });
+
+    const text = output();
+    expect(text).toContain('Scenario churn-001: Churn Path');
+    expect(text).toMatch(/Budget-Conscious Developer\s+churnProbability\s+0\.900/);
+    expect(text).toMatch(/timeToFirstValue\s+0\s+skipped/);
+    expect(text).toContain('No expected outcome for: Skeptical Developer');
+  });
+
+  it('should pass when metrics are within the tolerance', async () => {
+    await scenarioRunCommand('team-collab-001', {
+      product: 'vibeatlas',
+      runs: 2,
+      days: 7,
+      tolerance: 1,
+    });
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should not pass when a target persona has no expected outcome', async () => {
+    await scenarioRunCommand('churn-001', { product: 'vibeatlas', runs: 2, days: 7, tolerance: 1 });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Scenario churn-001 checked no measured metric for: Skeptical Developer'
+      )
+    );
+    expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+  });
+
+  it('should exit with the regression code when metrics miss their expected values', async () => {
+    await scenarioRunCommand('happy-path-001', {
+      product: 'vibeatlas',
+      runs: 2,
+      days: 7,
+      tolerance: 0,
+      json: true,
+    });
+
+    const report = JSON.parse(output()) as { passed: boolean; scenario: { id: string } };
+    expect(report).toMatchObject({ passed: false, scenario: { id: 'happy-path-001' } });
+    expect(processExitSpy).toHaveBeenCalledWith(ExitCode.REGRESSION);
+  });
+
+  it('should reject invalid options', async () => {
+    await scenarioRunCommand('churn-001', { product: 'vibeatlas', runs: 0 });
+
+    expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+    expect(logSpy).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown decision providers', async () => {
+    await scenarioRunCommand('churn-001', {
+      product: 'vibeatlas',
+      decisionProvider: 'random' as 'rules',
+    });
+
+    expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+    expect(logSpy).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown scenarios', async () => {
+    await scenarioRunCommand('missing-001', { product: 'vibeatlas' });
+
+    expect(processExitSpy).toHaveBeenCalledWith(ExitCode.CONFIG_ERROR);
+  });
+});
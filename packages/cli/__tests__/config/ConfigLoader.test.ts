@@ -53,6 +53,40 @@ describe('ConfigLoader', () => {
     });
   });
 
+  describe('resolvePaths', () => {
+    it('should resolve file paths relative to the configuration file', () => {
+      const configPath = path.join(FIXTURES_DIR, 'valid-config.json');
+      const config = ConfigLoader.load(configPath);
+      config.personas = { diversity: 0.7, file: './personas.json' };
+
+      ConfigLoader.resolvePaths(config, configPath);
+
+      expect(config.personas.file).toBe(path.join(FIXTURES_DIR, 'personas.json'));
+    });
+
+    it('should resolve a local product plugin relative to the configuration file', () => {
+      const configPath = path.join(FIXTURES_DIR, 'valid-config.json');
+      const config = ConfigLoader.load(configPath);
+      config.simulation.product = './plugins/local-product.js';
+
+      ConfigLoader.resolvePaths(config, configPath);
+
+      expect(config.simulation.product).toBe(
+        path.join(FIXTURES_DIR, 'plugins', 'local-product.js')
+      );
+    });
+
+    it('should leave product plugin package names unchanged', () => {
+      const configPath = path.join(FIXTURES_DIR, 'valid-config.json');
+      const config = ConfigLoader.load(configPath);
+      config.simulation.product = '@suts/plugin-vibeatlas';
+
+      ConfigLoader.resolvePaths(config, configPath);
+
+      expect(config.simulation.product).toBe('@suts/plugin-vibeatlas');
+    });
+  });
+
   describe('exists', () => {
     it('should return true for existing file', () => {
       const configPath = path.join(FIXTURES_DIR, 'valid-config.json');
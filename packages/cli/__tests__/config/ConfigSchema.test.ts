@@ -16,6 +16,7 @@ describe('SimulationConfigSchema', () => {
       personas: 100,
       days: 7,
       product: 'vibeatlas',
+      decisionProvider: 'llm' as const,
     };
 
     const result = SimulationConfigSchema.parse(config);
@@ -31,6 +32,13 @@ describe('SimulationConfigSchema', () => {
     expect(result.personas).toBe(100);
     expect(result.days).toBe(7);
     expect(result.product).toBe('vibeatlas');
+    expect(result.decisionProvider).toBe('rules');
+  });
+
+  it('should reject unknown decision providers', () => {
+    expect(() =>
+      SimulationConfigSchema.parse({ product: 'vibeatlas', decisionProvider: 'random' })
+    ).toThrow();
   });
 
   it('should reject negative personas', () => {
@@ -72,6 +80,25 @@ describe('SimulationConfigSchema', () => {
 
     expect(() => SimulationConfigSchema.parse(config)).toThrow();
   });
+
+  it('should accept behaviour parameters', () => {
+    const config = {
+      product: 'vibeatlas',
+      behavior: { frustrationDecayPerDay: 0.1, actionWeights: { uninstall: 2 } },
+    };
+
+    const result = SimulationConfigSchema.parse(config);
+    expect(result.behavior).toEqual(config.behavior);
+  });
+
+  it('should reject out-of-range behaviour parameters', () => {
+    expect(() =>
+      SimulationConfigSchema.parse({ product: 'vibeatlas', behavior: { successBias: 2 } })
+    ).toThrow();
+    expect(() =>
+      SimulationConfigSchema.parse({ product: 'vibeatlas', behavior: { actionWeights: { fly: 1 } } })
+    ).toThrow();
+  });
 });
 
 describe('PersonaConfigSchema', () => {
@@ -211,6 +238,7 @@ describe('SutsConfigSchema', () => {
         personas: 100,
         days: 7,
         product: 'vibeatlas',
+        decisionProvider: 'rules' as const,
       },
       personas: {
         analysisFiles: ['file.md'],
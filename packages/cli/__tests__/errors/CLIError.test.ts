@@ -8,6 +8,7 @@ import {
   FileNotFoundError,
   ValidationError,
   SimulationError,
+  RegressionError,
   ExitCode,
 } from '../../src/errors/CLIError';
 
@@ -79,10 +80,20 @@ describe('SimulationError', () => {
   });
 });
 
+describe('RegressionError', () => {
+  it('should create a RegressionError with its own exit code', () => {
+    const error = new RegressionError('Scenario regressed');
+    expect(error).toBeInstanceOf(CLIError);
+    expect(error.exitCode).toBe(ExitCode.REGRESSION);
+    expect(error.name).toBe('RegressionError');
+  });
+});
+
 describe('ExitCode', () => {
   it('should have correct exit code values', () => {
     expect(ExitCode.SUCCESS).toBe(0);
     expect(ExitCode.ERROR).toBe(1);
     expect(ExitCode.CONFIG_ERROR).toBe(2);
+    expect(ExitCode.REGRESSION).toBe(3);
   });
 });
@@ -0,0 +1,109 @@
+/**
+ * Tests for CsvFormatter
+ */
+
+import { CsvFormatter } from '../../src/output/CsvFormatter';
+
+describe('CsvFormatter', () => {
+  describe('escape', () => {
+    it('should leave plain values untouched', () => {
+      expect(CsvFormatter.escape('plain')).toBe('plain');
+      expect(CsvFormatter.escape(0.5)).toBe('0.5');
+      expect(CsvFormatter.escape(true)).toBe('true');
+    });
+
+    it('should write empty cells for missing values', () => {
+      expect(CsvFormatter.escape(undefined)).toBe('');
+      expect(CsvFormatter.escape(null)).toBe('');
+    });
+
+    it('should quote commas, quotes and newlines', () => {
+      expect(CsvFormatter.escape('a,b')).toBe('"a,b"');
+      expect(CsvFormatter.escape('say "hi"')).toBe('"say ""hi"""');
+      expect(CsvFormatter.escape('line\nbreak')).toBe('"line\nbreak"');
+    });
+
+    it('should join string arrays and JSON encode objects', () => {
+      expect(CsvFormatter.escape(['a', 'b'])).toBe('a;b');
+      expect(CsvFormatter.escape({ day: 1 })).toBe('"{""day"":1}"');
+    });
+  });
+
+  describe('formatEvents', () => {
+    it('should write a header and one row per event', () => {
+      const csv = CsvFormatter.formatEvents([
+        {
+          id: 'event-1',
+          personaId: 'persona-1',
+          timestamp: '2024-01-01T00:00:00.000Z',
+          eventType: 'action',
+          action: 'install',
+          context: { day: 1 },
+        },
+        {
+          id: 'event-2',
+          personaId: 'persona-1',
+          timestamp: '2024-01-01T00:01:00.000Z',
+          eventType: 'observation',
+          context: {},
+        },
+      ]);
+
+      expect(csv.split('\r\n')).toEqual([
+        'id,personaId,timestamp,eventType,action,context',
+        'event-1,persona-1,2024-01-01T00:00:00.000Z,action,install,"{""day"":1}"',
+        'event-2,persona-1,2024-01-01T00:01:00.000Z,observation,,{}',
+        '',
+      ]);
+    });
+  });
+
+  describe('formatFrictionPoints', () => {
+    it('should write header only for empty input', () => {
+      expect(CsvFormatter.formatFrictionPoints([])).toBe(
+        'id,description,severity,frequency,affectedPersonas\r\n'
+      );
+    });
+
+    it('should write friction rows', () => {
+      const csv = CsvFormatter.formatFrictionPoints([
+        {
+          id: 'friction-1',
+          description: 'Slow, confusing setup',
+          severity: 0.7,
+          frequency: 3,
+          affectedPersonas: ['p1', 'p2'],
+        },
+      ]);
+
+      expect(csv).toContain('friction-1,"Slow, confusing setup",0.7,3,p1;p2');
+    });
+  });
+
+  describe('formatValueMoments', () => {
+    it('should write value rows', () => {
+      const csv = CsvFormatter.formatValueMoments([
+        {
+          id: 'value-1',
+          description: 'Instant insight',
+          impact: 0.9,
+          frequency: 2,
+          affectedPersonas: ['p1'],
+        },
+      ]);
+
+      expect(csv).toContain('value-1,Instant insight,0.9,2,p1');
+    });
+  });
+
+  describe('formatRows', () => {
+    it('should use the union of record keys as columns', () => {
+      const csv = CsvFormatter.formatRows([
+        { action: 'install', count: 2 },
+        { action: 'configure, advanced', avg: 0.5 },
+      ]);
+
+      expect(csv).toBe('action,count,avg\r\ninstall,2,\r\n"configure, advanced",,0.5\r\n');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for HtmlReportGenerator
+ */
+
+import { HtmlReportGenerator } from '../../src/output/HtmlReportGenerator';
+import { EventData, SimulationResults } from '../../src/output/ResultsWriter';
+
+function event(
+  id: string,
+  personaId: string,
+  day: number,
+  action: string,
+  frustration: number
+): EventData {
+  return {
+    id,
+    personaId,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    eventType: 'action',
+    action,
+    context: { day, emotionalState: { frustration } },
+  };
+}
+
+function createResults(): SimulationResults {
+  return {
+    summary: {
+      totalPersonas: 2,
+      totalEvents: 4,
+      simulationDays: 3,
+      productPlugin: 'vibeatlas',
+      startTime: '2024-01-01T00:00:00.000Z',
+      endTime: '2024-01-01T00:00:10.000Z',
+      duration: 10000,
+    },
+    personas: [],
+    events: [
+      event('e1', 'p1', 1, 'install', 0.2),
+      event('e2', 'p2', 1, 'install', 0.6),
+      event('e3', 'p1', 2, 'configure', 0.9),
+      event('e4', 'p1', 2, 'install', 0.1),
+    ],
+    frictionPoints: [
+      {
+        id: 'friction-1',
+        description: 'Config <script>alert(1)</script>',
+        severity: 0.8,
+        frequency: 1,
+        affectedPersonas: ['p1'],
+      },
+    ],
+    valueMoments: [],
+    goNoGo: {
+      decision: 'no-go',
+      confidence: 0.7,
+      reasoning: 'Retention below target',
+      metrics: { positioning: 0.6, retention: 0.5, viral: 0.1 },
+    },
+  };
+}
+
+describe('HtmlReportGenerator', () => {
+  describe('calculateRetentionCurve', () => {
+    it('should report the share of personas active each day', () => {
+      const curve = HtmlReportGenerator.calculateRetentionCurve(createResults());
+
+      expect(curve).toEqual([
+        { day: 1, activePersonas: 2, rate: 1 },
+        { day: 2, activePersonas: 1, rate: 0.5 },
+        { day: 3, activePersonas: 0, rate: 0 },
+      ]);
+    });
+  });
+
+  describe('calculateFrictionHeatmap', () => {
+    it('should average frustration per action and day', () => {
+      const heatmap = HtmlReportGenerator.calculateFrictionHeatmap(createResults());
+
+      expect(heatmap.days).toEqual([1, 2, 3]);
+      expect(heatmap.actions).toEqual(['install', 'configure']);
+      expect(heatmap.cells[0]?.[0]).toBeCloseTo(0.4);
+      expect(heatmap.cells[0]?.[1]).toBeCloseTo(0.1);
+      expect(heatmap.cells[0]?.[2]).toBeNull();
+      expect(heatmap.cells[1]).toEqual([null, 0.9, null]);
+    });
+
+    it('should skip events without emotional state', () => {
+      const results = createResults();
+      results.events = [
+        { id: 'e1', personaId: 'p1', timestamp: '', eventType: 'action', action: 'install', context: { day: 1 } },
+      ];
+
+      expect(HtmlReportGenerator.calculateFrictionHeatmap(results).actions).toEqual([]);
+    });
+  });
+
+  describe('generate', () => {
+    it('should produce a self-contained document', () => {
+      const html = HtmlReportGenerator.generate(createResults());
+
+      expect(html).toContain('<!DOCTYPE html>');
+      expect(html).toContain('<style>');
+      expect(html).toContain('<script>');
+      expect(html).toContain('<svg');
+      expect(html).not.toMatch(/<(link|script)[^>]+(href|src)=/);
+    });
+
+    it('should include verdict, retention and heatmap sections', () => {
+      const html = HtmlReportGenerator.generate(createResults());
+
+      expect(html).toContain('NO-GO');
+      expect(html).toContain('Retention below target');
+      expect(html).toContain('id="retention"');
+      expect(html).toContain('id="friction-heatmap"');
+      expect(html).toContain('configure');
+    });
+
+    it('should escape user-provided text', () => {
+      const html = HtmlReportGenerator.generate(createResults());
+
+      expect(html).not.toContain('<script>alert(1)</script>');
+      expect(html).toContain('Config &lt;script&gt;alert(1)&lt;/script&gt;');
+    });
+  });
+
+  describe('escape', () => {
+    it('should escape HTML special characters', () => {
+      expect(HtmlReportGenerator.escape(`<a href="x">'&'</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;'
+      );
+    });
+  });
+});
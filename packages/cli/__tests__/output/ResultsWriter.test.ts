@@ -208,4 +208,75 @@ describe('ResultsWriter', () => {
       expect(fs.existsSync(path.join(nestedDir, 'summary.json'))).toBe(true);
     });
   });
+
+  describe('formats', () => {
+    const results: SimulationResults = {
+      summary: {
+        totalPersonas: 1,
+        totalEvents: 1,
+        simulationDays: 1,
+        productPlugin: 'test',
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        duration: 100,
+      },
+      personas: [
+        { id: 'persona-1', name: 'User 1', background: 'Developer', goals: ['Ship', 'Learn'] },
+      ],
+      events: [
+        {
+          id: 'event-1',
+          personaId: 'persona-1',
+          timestamp: new Date().toISOString(),
+          eventType: 'action',
+          action: 'install',
+          context: { day: 1, emotionalState: { frustration: 0.4 } },
+        },
+      ],
+      frictionPoints: [],
+      valueMoments: [],
+      goNoGo: {
+        decision: 'go',
+        confidence: 0.9,
+        reasoning: 'Test',
+        metrics: { positioning: 0.8, retention: 0.9, viral: 0.4 },
+      },
+    };
+
+    it('should write CSV detail files for csv format', () => {
+      const writer = new ResultsWriter(testOutputDir, { format: 'csv' });
+
+      writer.writeResults(results);
+
+      for (const file of ['personas.csv', 'events.csv', 'friction-points.csv', 'value-moments.csv']) {
+        expect(fs.existsSync(path.join(testOutputDir, file))).toBe(true);
+      }
+      expect(fs.existsSync(path.join(testOutputDir, 'summary.json'))).toBe(true);
+      expect(fs.existsSync(path.join(testOutputDir, 'go-no-go.json'))).toBe(true);
+      expect(fs.existsSync(path.join(testOutputDir, 'events.json'))).toBe(false);
+      expect(fs.existsSync(path.join(testOutputDir, 'report.html'))).toBe(false);
+
+      const personas = fs.readFileSync(path.join(testOutputDir, 'personas.csv'), 'utf-8');
+      expect(personas).toBe('id,name,background,goals\r\npersona-1,User 1,Developer,Ship;Learn\r\n');
+    });
+
+    it('should write JSON and report.html for html format', () => {
+      const writer = new ResultsWriter(testOutputDir, { format: 'html' });
+
+      writer.writeResults(results);
+
+      expect(fs.existsSync(path.join(testOutputDir, 'events.json'))).toBe(true);
+      const report = fs.readFileSync(path.join(testOutputDir, 'report.html'), 'utf-8');
+      expect(report).toContain('<!DOCTYPE html>');
+    });
+
+    it('should write report.html alongside any format when generateReport is set', () => {
+      const writer = new ResultsWriter(testOutputDir, { format: 'csv', generateReport: true });
+
+      writer.writeResults(results);
+
+      expect(fs.existsSync(path.join(testOutputDir, 'events.csv'))).toBe(true);
+      expect(fs.existsSync(path.join(testOutputDir, 'report.html'))).toBe(true);
+    });
+  });
 });
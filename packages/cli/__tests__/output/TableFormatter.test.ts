@@ -0,0 +1,37 @@
+/**
+ * Tests for TableFormatter
+ */
+
+import { TableFormatter } from '../../src/output/TableFormatter';
+
+describe('TableFormatter', () => {
+  describe('format', () => {
+    it('should align text left and numbers right', () => {
+      const table = TableFormatter.format([
+        { action: 'install', count: 12, avg: 0.25 },
+        { action: 'use_feature', count: 3, avg: null },
+      ]);
+
+      expect(table.split('\n')).toEqual([
+        'action       count    avg',
+        '-----------  -----  -----',
+        'install         12  0.250',
+        'use_feature      3',
+      ]);
+    });
+
+    it('should report empty results', () => {
+      expect(TableFormatter.format([])).toBe('(no results)');
+    });
+  });
+
+  describe('cell', () => {
+    it('should render dates, objects and missing values', () => {
+      expect(TableFormatter.cell(new Date('2024-01-01T00:00:00Z'))).toBe(
+        '2024-01-01T00:00:00.000Z'
+      );
+      expect(TableFormatter.cell({ a: 1 })).toBe('{"a":1}');
+      expect(TableFormatter.cell(undefined)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Tests for Calibrator
+ */
+
+import { ActionType, type ISimpleProductAdapter, type PersonaProfile } from '@suts/core';
+import { DEFAULT_BEHAVIOR_PARAMETERS, resolveBehaviorParameters } from '@suts/simulation';
+import type { TelemetryEvent } from '@suts/telemetry';
+import { Calibrator, type CalibrationTargets } from '../../src/runner/Calibrator';
+import { ValidationError } from '../../src/errors';
+
+describe('Calibrator', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const persona = (id: string, patienceLevel: number): PersonaProfile => ({
+    id,
+    archetype: 'Tester',
+    role: 'QA Engineer',
+    experienceLevel: 'Intermediate',
+    companySize: 'Startup',
+    techStack: ['TypeScript'],
+    painPoints: [],
+    goals: [],
+    fears: [],
+    values: [],
+    riskTolerance: 0.5,
+    patienceLevel,
+    techAdoption: 'Early adopter',
+    learningStyle: 'Trial-error',
+    evaluationCriteria: [],
+    dealBreakers: [],
+    delightTriggers: [],
+    referralTriggers: [],
+    typicalWorkflow: 'Agile',
+    timeAvailability: '2 hours/day',
+    collaborationStyle: 'Team',
+    state: {},
+    history: [],
+    confidenceScore: 0.7,
+    lastUpdated: '2024-01-01',
+    source: 'test',
+  });
+
+  const adapter: ISimpleProductAdapter = {
+    getInitialState: () => ({
+      version: '1.0.0',
+      features: { search: true },
+      uiElements: {},
+      config: {},
+      userData: {},
+      environment: 'development',
+      metadata: {},
+    }),
+    getAvailableActions: () => [
+      {
+        type: ActionType.USE_FEATURE,
+        feature: 'search',
+        description: 'Search the catalog',
+        expectedOutcome: 'Results listed',
+      },
+    ],
+    applyAction: (state) => state,
+  };
+
+  const personas = [persona('tester-001', 0.2), persona('tester-002', 0.8)];
+  const options = { personas, adapter, days: 3, seed: 7 };
+
+  const targets: CalibrationTargets = {
+    retention: [{ day: 1, rate: 0.5 }],
+    funnel: [{ action: ActionType.USE_FEATURE, rate: 1 }],
+    churnRate: 0.5,
+  };
+
+  describe('parseTargets', () => {
+    it('should apply defaults to missing target lists', () => {
+      expect(Calibrator.parseTargets({ churnRate: 0.3 })).toEqual({
+        retention: [],
+        funnel: [],
+        churnRate: 0.3,
+      });
+    });
+
+    it('should reject targets without any metric', () => {
+      expect(() => Calibrator.parseTargets({})).toThrow(ValidationError);
+    });
+
+    it('should report invalid rates and actions', () => {
+      try {
+        Calibrator.parseTargets({
+          retention: [{ day: 7, rate: 40 }],
+          funnel: [{ action: 'fly', rate: 0.5 }],
+        });
+        fail('Expected a validation error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        const { errors } = error as ValidationError;
+        expect(errors.some((message) => message.startsWith('retention.0.rate'))).toBe(true);
+        expect(errors.some((message) => message.startsWith('funnel.0.action'))).toBe(true);
+      }
+    });
+  });
+
+  describe('targetsFromEvents', () => {
+    const start = new Date('2024-01-01T09:00:00Z').getTime();
+    const event = (
+      personaId: string,
+      action: ActionType,
+      day: number,
+      success = true
+    ): TelemetryEvent => ({
+      id: `${personaId}-${action}-${day}`,
+      personaId,
+      eventType: 'action',
+      action,
+      emotionalState: { frustration: 0.2 },
+      metadata: { success },
+      timestamp: new Date(start + day * DAY_MS),
+    });
+
+    const events = [
+      event('u1', ActionType.INSTALL, 0),
+      event('u1', ActionType.USE_FEATURE, 0),
+      event('u1', ActionType.USE_FEATURE, 8),
+      event('u2', ActionType.INSTALL, 0),
+      event('u2', ActionType.USE_FEATURE, 2, false),
+      event('u3', ActionType.INSTALL, 0),
+      event('u3', ActionType.UNINSTALL, 1),
+      event('u4', ActionType.INSTALL, 0),
+    ];
+
+    it('should measure retention, funnel and churn of real users', () => {
+      expect(Calibrator.targetsFromEvents(events)).toEqual({
+        retention: [
+          { day: 1, rate: 0.75 },
+          { day: 7, rate: 0.25 },
+        ],
+        funnel: [
+          { action: ActionType.INSTALL, rate: 1 },
+          { action: ActionType.USE_FEATURE, rate: 0.25 },
+          { action: ActionType.UNINSTALL, rate: 0.25 },
+        ],
+        churnRate: 0.25,
+      });
+    });
+
+    it('should measure the requested retention days', () => {
+      expect(Calibrator.targetsFromEvents(events, [2]).retention).toEqual([{ day: 2, rate: 0.5 }]);
+    });
+
+    it('should reject an empty event set', () => {
+      expect(() => Calibrator.targetsFromEvents([])).toThrow(ValidationError);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should report the error of every target metric', async () => {
+      const evaluation = await Calibrator.evaluate(targets, resolveBehaviorParameters(), options);
+
+      expect(evaluation.metrics.map((metric) => metric.metric)).toEqual([
+        'retention.d1',
+        'funnel.use_feature',
+        'churnRate',
+      ]);
+      for (const metric of evaluation.metrics) {
+        expect(metric.simulated).toBeGreaterThanOrEqual(0);
+        expect(metric.simulated).toBeLessThanOrEqual(1);
+        expect(metric.error).toBeCloseTo(Math.abs(metric.simulated - metric.target));
+      }
+      const total = evaluation.metrics.reduce((sum, metric) => sum + metric.error, 0);
+      expect(evaluation.meanAbsoluteError).toBeCloseTo(total / 3);
+    });
+
+    it('should be deterministic for a seed', async () => {
+      const parameters = resolveBehaviorParameters({ successBias: -0.2 });
+
+      const first = await Calibrator.evaluate(targets, parameters, options);
+      const second = await Calibrator.evaluate(targets, parameters, options);
+
+      expect(second).toEqual(first);
+    });
+  });
+
+  describe('calibrate', () => {
+    it('should never be worse than the starting parameters', async () => {
+      const result = await Calibrator.calibrate(targets, { ...options, maxEvaluations: 8 });
+
+      expect(result.baseline.parameters).toEqual(DEFAULT_BEHAVIOR_PARAMETERS);
+      expect(result.calibrated.meanAbsoluteError).toBeLessThanOrEqual(
+        result.baseline.meanAbsoluteError
+      );
+      expect(result.evaluations).toBeLessThanOrEqual(8);
+    });
+
+    it('should stop at the evaluation limit', async () => {
+      const onEvaluation = jest.fn();
+
+      const result = await Calibrator.calibrate(targets, {
+        ...options,
+        maxEvaluations: 3,
+        onEvaluation,
+      });
+
+      expect(result.evaluations).toBe(3);
+      expect(onEvaluation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should start from the initial parameters and tune only the given space', async () => {
+      const result = await Calibrator.calibrate(targets, {
+        ...options,
+        maxEvaluations: 10,
+        initial: { patienceWeight: 1.5 },
+        space: [{ name: `actionWeights.${ActionType.UNINSTALL}`, values: [0, 1, 4] }],
+      });
+
+      expect(result.baseline.parameters.patienceWeight).toBe(1.5);
+      expect(result.calibrated.parameters.patienceWeight).toBe(1.5);
+      expect(result.evaluations).toBeLessThanOrEqual(4);
+      expect(Object.keys(result.calibrated.parameters.actionWeights)).toEqual(
+        result.calibrated === result.baseline ? [] : [ActionType.UNINSTALL]
+      );
+    });
+
+    it('should simulate past the latest retention target', async () => {
+      const result = await Calibrator.calibrate(
+        { retention: [{ day: 5, rate: 0.5 }], funnel: [] },
+        { ...options, maxEvaluations: 1 }
+      );
+
+      expect(result.days).toBe(6);
+      expect(result.evaluations).toBe(1);
+    });
+  });
+
+  describe('toBehaviorParameters', () => {
+    it('should drop parameters that are not configured', () => {
+      expect(
+        Calibrator.toBehaviorParameters({ patienceWeight: 2, successBias: undefined })
+      ).toEqual({ patienceWeight: 2 });
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Tests for DecisionProviderLoader
+ */
+
+import { LLMDecisionProvider, RuleBasedDecisionProvider } from '@suts/simulation';
+import { DecisionProviderLoader } from '../../src/runner/DecisionProviderLoader';
+import { ConfigError } from '../../src/errors';
+
+describe('DecisionProviderLoader', () => {
+  const originalKey = process.env['ANTHROPIC_API_KEY'];
+
+  afterEach(() => {
+    if (originalKey === undefined) {
+      delete process.env['ANTHROPIC_API_KEY'];
+    } else {
+      process.env['ANTHROPIC_API_KEY'] = originalKey;
+    }
+  });
+
+  describe('load', () => {
+    it('should create the rule-based provider even when an API key is set', () => {
+      process.env['ANTHROPIC_API_KEY'] = 'sk-ant-test';
+
+      expect(DecisionProviderLoader.load('rules', 42)).toBeInstanceOf(RuleBasedDecisionProvider);
+    });
+
+    it('should create the LLM provider when configured', () => {
+      process.env['ANTHROPIC_API_KEY'] = 'sk-ant-test';
+
+      expect(DecisionProviderLoader.load('llm', 42)).toBeInstanceOf(LLMDecisionProvider);
+    });
+
+    it('should throw ConfigError for LLM decisions without an API key', () => {
+      delete process.env['ANTHROPIC_API_KEY'];
+
+      expect(() => DecisionProviderLoader.load('llm', 42)).toThrow(ConfigError);
+      expect(() => DecisionProviderLoader.load('llm', 42)).toThrow(/ANTHROPIC_API_KEY/);
+    });
+  });
+});
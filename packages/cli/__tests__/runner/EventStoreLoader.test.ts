@@ -0,0 +1,107 @@
+/**
+ * Tests for EventStoreLoader
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryStore, NdjsonStore, SqliteStore } from '@suts/telemetry';
+import { EventStoreLoader } from '../../src/runner/EventStoreLoader';
+import { ConfigError, FileNotFoundError, ValidationError } from '../../src/errors';
+
+describe('EventStoreLoader', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-event-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  describe('open', () => {
+    it('should default to an in-memory store', () => {
+      expect(EventStoreLoader.open(undefined, outputDir)).toBeInstanceOf(InMemoryStore);
+      expect(EventStoreLoader.open({ store: 'memory' }, outputDir)).toBeInstanceOf(
+        InMemoryStore
+      );
+    });
+
+    it('should open an NDJSON store in the output directory', () => {
+      const store = EventStoreLoader.open({ store: 'ndjson' }, outputDir);
+
+      expect(store).toBeInstanceOf(NdjsonStore);
+      expect(fs.existsSync(path.join(outputDir, 'events.ndjson'))).toBe(true);
+    });
+
+    it('should open a SQLite store at the configured file', () => {
+      const file = path.join(outputDir, 'telemetry', 'run.db');
+      const store = EventStoreLoader.open({ store: 'sqlite', file }, outputDir);
+
+      expect(store).toBeInstanceOf(SqliteStore);
+      store.close?.();
+      expect(fs.existsSync(file)).toBe(true);
+    });
+  });
+
+  describe('openFile', () => {
+    it('should open stores by file extension', () => {
+      const ndjson = path.join(outputDir, 'events.jsonl');
+      new NdjsonStore(ndjson);
+      const sqlite = path.join(outputDir, 'events.sqlite');
+      new SqliteStore(sqlite).close();
+
+      expect(EventStoreLoader.openFile(ndjson)).toBeInstanceOf(NdjsonStore);
+      const store = EventStoreLoader.openFile(sqlite);
+      expect(store).toBeInstanceOf(SqliteStore);
+      store.close?.();
+    });
+
+    it('should load events.json from a run', () => {
+      const file = path.join(outputDir, 'events.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify([
+          {
+            id: 'event-1',
+            personaId: 'persona-1',
+            timestamp: '2024-01-01T00:00:00.000Z',
+            eventType: 'action',
+            action: 'install',
+            context: { emotionalState: { frustration: 0.3 } },
+          },
+        ])
+      );
+
+      const store = EventStoreLoader.openFile(file);
+
+      expect(store.getAll()[0]?.emotionalState).toEqual({ frustration: 0.3 });
+    });
+
+    it('should throw for missing, unknown and invalid files', () => {
+      const text = path.join(outputDir, 'events.txt');
+      const invalid = path.join(outputDir, 'invalid.json');
+      fs.writeFileSync(text, '');
+      fs.writeFileSync(invalid, '{}');
+
+      expect(() => EventStoreLoader.openFile(path.join(outputDir, 'missing.db'))).toThrow(
+        FileNotFoundError
+      );
+      expect(() => EventStoreLoader.openFile(text)).toThrow(ConfigError);
+      expect(() => EventStoreLoader.openFile(invalid)).toThrow(ValidationError);
+    });
+  });
+
+  describe('resolveFile', () => {
+    it('should not resolve a file for the in-memory store', () => {
+      expect(EventStoreLoader.resolveFile({ store: 'memory' }, outputDir)).toBeUndefined();
+    });
+
+    it('should default file-backed stores to the output directory', () => {
+      expect(EventStoreLoader.resolveFile({ store: 'sqlite' }, outputDir)).toBe(
+        path.join(outputDir, 'events.db')
+      );
+    });
+  });
+});
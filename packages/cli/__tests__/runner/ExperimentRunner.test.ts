@@ -0,0 +1,257 @@
+/**
+ * Tests for ExperimentRunner
+ */
+
+import {
+  ActionType,
+  type ISimpleProductAdapter,
+  type PersonaProfile,
+  type ProductState,
+} from '@suts/core';
+import { ConfidenceCalculator, type Experiment } from '@suts/decision';
+import { ValidationError } from '../../src/errors';
+import { ExperimentRunner } from '../../src/runner/ExperimentRunner';
+
+describe('ExperimentRunner', () => {
+  const persona = (id: string): PersonaProfile => ({
+    id,
+    archetype: 'Tester',
+    role: 'QA Engineer',
+    experienceLevel: 'Intermediate',
+    companySize: 'Startup',
+    techStack: ['TypeScript'],
+    painPoints: [],
+    goals: [],
+    fears: [],
+    values: [],
+    riskTolerance: 0.5,
+    patienceLevel: 0.6,
+    techAdoption: 'Early adopter',
+    learningStyle: 'Trial-error',
+    evaluationCriteria: [],
+    dealBreakers: [],
+    delightTriggers: [],
+    referralTriggers: [],
+    typicalWorkflow: 'Agile',
+    timeAvailability: '2 hours/day',
+    collaborationStyle: 'Team',
+    state: {},
+    history: [],
+    confidenceScore: 0.7,
+    lastUpdated: '2024-01-01',
+    source: 'test',
+  });
+
+  const personas = Array.from({ length: 10 }, (_, i) =>
+    persona(`tester-${String(i + 1).padStart(3, '0')}`)
+  );
+
+  const initialState: ProductState = {
+    version: '1.0.0',
+    features: {},
+    uiElements: {},
+    config: {},
+    userData: {},
+    environment: 'development',
+    metadata: {},
+  };
+
+  /**
+   * Product whose only feature is offered when the search flag is on
+   */
+  const adapter: ISimpleProductAdapter = {
+    getInitialState: () => initialState,
+    getAvailableActions: (state) =>
+      state.features['search'] === true
+        ? [
+            {
+              type: ActionType.USE_FEATURE,
+              feature: 'search',
+              description: 'Search the catalog',
+              expectedOutcome: 'Results listed',
+            },
+          ]
+        : [],
+    applyAction: (state) => state,
+  };
+
+  const createExperiment = (overrides: Partial<Experiment> = {}): Experiment => ({
+    id: 'exp-search',
+    name: 'Test: Search',
+    description: 'Enable search',
+    hypothesis: 'Search lets users complete tasks',
+    targetMetric: 'Task Completion Rate',
+    controlGroup: { name: 'Control', size: 0.5, description: 'No search' },
+    treatmentGroups: [
+      { name: 'Treatment', size: 0.5, description: 'Search', changes: ['Enable search'] },
+    ],
+    minimumSampleSize: 1000,
+    expectedDuration: 14,
+    successCriteria: ['10% improvement in target metric'],
+    risks: [],
+    estimatedLift: 0.1,
+    ...overrides,
+  });
+
+  describe('assignGroups', () => {
+    it('should split personas in proportion to the group sizes', () => {
+      const experiment = createExperiment({
+        controlGroup: { name: 'Control', size: 0.5, description: '' },
+        treatmentGroups: [
+          { name: 'A', size: 0.3, description: '', changes: [] },
+          { name: 'B', size: 0.2, description: '', changes: [] },
+        ],
+      });
+
+      const groups = ExperimentRunner.assignGroups(experiment, personas, 7);
+
+      expect(groups.map((group) => group.length)).toEqual([5, 3, 2]);
+      expect(new Set(groups.flat().map((p) => p.id)).size).toBe(10);
+      expect(ExperimentRunner.assignGroups(experiment, personas, 7)).toEqual(groups);
+    });
+
+    it('should give every group at least one persona', () => {
+      const experiment = createExperiment({
+        controlGroup: { name: 'Control', size: 0.95, description: '' },
+        treatmentGroups: [{ name: 'A', size: 0.05, description: '', changes: [] }],
+      });
+
+      const groups = ExperimentRunner.assignGroups(experiment, personas.slice(0, 4), 1);
+
+      expect(groups.map((group) => group.length)).toEqual([3, 1]);
+    });
+
+    it('should reject fewer personas than groups', () => {
+      expect(() =>
+        ExperimentRunner.assignGroups(createExperiment(), personas.slice(0, 1), 1)
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('resolveMetric', () => {
+    it('should map designed target metrics to simulation metrics', () => {
+      expect(ExperimentRunner.resolveMetric('Day 7 Retention Rate')).toBe('retentionRate');
+      expect(ExperimentRunner.resolveMetric('Monthly Churn Rate')).toBe('churnRate');
+      expect(ExperimentRunner.resolveMetric('userSatisfaction')).toBe('userSatisfaction');
+    });
+
+    it('should reject metrics the simulation does not measure', () => {
+      expect(() => ExperimentRunner.resolveMetric('Revenue Per User')).toThrow(/not simulated/);
+    });
+  });
+
+  describe('applyChanges', () => {
+    it('should merge state changes and enable flags for other changes', () => {
+      const state = ExperimentRunner.applyChanges(initialState, ['Guided tour', 'Dark mode'], {
+        'Guided tour': { features: { onboarding: true }, config: { steps: 3 } },
+      });
+
+      expect(state.features).toEqual({ onboarding: true, 'Dark mode': true });
+      expect(state.config).toEqual({ steps: 3 });
+      expect(initialState.features).toEqual({});
+    });
+  });
+
+  describe('checkCriteria', () => {
+    const criteria = [
+      '10% improvement in target metric',
+      'Statistical significance (p < 0.05)',
+      'Confidence level > 80%',
+      'No significant degradation in secondary metrics',
+      'Positive user feedback',
+    ];
+
+    it('should evaluate the designed criteria', () => {
+      const checks = ExperimentRunner.checkCriteria(criteria, 0.25, 0.01, true, []);
+
+      expect(checks.map((check) => check.status)).toEqual([
+        'pass',
+        'pass',
+        'pass',
+        'pass',
+        'skipped',
+      ]);
+      expect(checks[0]).toMatchObject({ threshold: 0.1, actual: 0.25 });
+      expect(checks[2]).toMatchObject({ threshold: 0.8, actual: 0.99 });
+    });
+
+    it('should fail criteria the treatment misses', () => {
+      const checks = ExperimentRunner.checkCriteria(criteria, 0.25, 0.05, false, [
+        'userSatisfaction',
+      ]);
+
+      expect(checks.map((check) => check.status)).toEqual([
+        'fail',
+        'fail',
+        'fail',
+        'fail',
+        'skipped',
+      ]);
+      expect(checks[0]?.actual).toBe(-0.25);
+      expect(checks[3]?.actual).toBe(1);
+    });
+  });
+
+  describe('run', () => {
+    it('should compare treatment and control on the target metric', async () => {
+      const report = await ExperimentRunner.run(createExperiment(), {
+        personas,
+        adapter,
+        days: 3,
+        runs: 2,
+        seed: 11,
+        stateChanges: { 'Enable search': { features: { search: true } } },
+      });
+
+      expect(report.metric).toBe('conversionRate');
+      expect(report.control.sampleSize).toBe(5);
+      expect(report.treatments[0]?.arm.sampleSize).toBe(5);
+      expect(report.control.metrics.conversionRate).toBe(0);
+      expect(report.treatments[0]?.treatment).toBeGreaterThan(0);
+      expect(report.treatments[0]?.criteria[0]?.status).toBe('pass');
+      expect(report.sampleSize).toBe(10);
+      expect(report.sampleSizeMet).toBe(false);
+      expect(report.passed).toBe(true);
+    });
+
+    it('should not gain significance from repeated runs of the same personas', async () => {
+      const runWith = (runs: number): ReturnType<typeof ExperimentRunner.run> =>
+        ExperimentRunner.run(createExperiment({ minimumSampleSize: 10 }), {
+          personas,
+          adapter,
+          days: 3,
+          runs,
+          seed: 11,
+          stateChanges: { 'Enable search': { features: { search: true } } },
+        });
+
+      const once = await runWith(1);
+      const often = await runWith(5);
+
+      expect(often.sampleSize).toBe(once.sampleSize);
+      expect(often.sampleSizeMet).toBe(true);
+      expect(often.treatments[0]?.arm.metrics.sampleSize).toBe(5);
+      expect(often.treatments[0]?.pValue).toBeCloseTo(
+        new ConfidenceCalculator().calculateSignificance(
+          often.treatments[0]?.control ?? 0,
+          often.treatments[0]?.treatment ?? 0,
+          5
+        )
+      );
+    });
+
+    it('should fail when the treatment does not improve the target metric', async () => {
+      const report = await ExperimentRunner.run(createExperiment(), {
+        personas,
+        adapter,
+        days: 3,
+        runs: 1,
+        seed: 11,
+      });
+
+      expect(report.treatments[0]?.lift).toBe(0);
+      expect(report.treatments[0]?.criteria[0]?.status).toBe('fail');
+      expect(report.passed).toBe(false);
+    });
+  });
+});
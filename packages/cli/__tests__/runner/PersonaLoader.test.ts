@@ -0,0 +1,164 @@
+/**
+ * Tests for PersonaLoader
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PersonaLibrary, type PersonaProfile } from '@suts/persona';
+import { PersonaLoader } from '../../src/runner/PersonaLoader';
+import { SutsConfig } from '../../src/config';
+import {
+  ConfigError,
+  FileNotFoundError,
+  ValidationError,
+} from '../../src/errors';
+import { Logger } from '../../src/progress';
+
+const PERSONAS_FILE = path.join(__dirname, '../fixtures/personas.json');
+
+function createConfig(personas: SutsConfig['personas'], count = 3): SutsConfig {
+  return {
+    simulation: { personas: count, days: 1, product: 'vibeatlas', decisionProvider: 'rules' },
+    personas,
+  };
+}
+
+describe('PersonaLoader', () => {
+  let tempDir: string;
+  const logger = new Logger(false);
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-personas-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('load', () => {
+    it('should load personas from the configured file', async () => {
+      const personas = await PersonaLoader.load(
+        createConfig({ file: PERSONAS_FILE, diversity: 0.8 }),
+        logger
+      );
+
+      expect(personas.map((p) => p.id)).toEqual([
+        'test-persona-1',
+        'test-persona-2',
+        'test-persona-3',
+      ]);
+    });
+
+    it('should limit loaded personas to the requested count', async () => {
+      const personas = await PersonaLoader.load(
+        createConfig({ file: PERSONAS_FILE, diversity: 0.8 }, 2),
+        logger
+      );
+
+      expect(personas).toHaveLength(2);
+    });
+
+    it('should warn when the file has fewer personas than requested', async () => {
+      const warnSpy = jest.spyOn(logger, 'warn').mockImplementation();
+
+      const personas = await PersonaLoader.load(
+        createConfig({ file: PERSONAS_FILE, diversity: 0.8 }, 10),
+        logger
+      );
+
+      expect(personas).toHaveLength(3);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('fewer than the 10'));
+    });
+
+    it('should throw ConfigError when no persona source is configured', async () => {
+      await expect(PersonaLoader.load(createConfig(undefined), logger)).rejects.toThrow(
+        ConfigError
+      );
+    });
+
+    it('should require an API key to generate from analysis files', async () => {
+      const previous = process.env['ANTHROPIC_API_KEY'];
+      delete process.env['ANTHROPIC_API_KEY'];
+
+      try {
+        await expect(
+          PersonaLoader.load(
+            createConfig({ analysisFiles: ['./analysis.md'], diversity: 0.8 }),
+            logger
+          )
+        ).rejects.toThrow(/ANTHROPIC_API_KEY/);
+      } finally {
+        if (previous !== undefined) {
+          process.env['ANTHROPIC_API_KEY'] = previous;
+        }
+      }
+    });
+  });
+
+  describe('persona library', () => {
+    const personas = JSON.parse(fs.readFileSync(PERSONAS_FILE, 'utf-8')) as PersonaProfile[];
+
+    beforeEach(async () => {
+      const library = new PersonaLibrary(tempDir);
+      await library.save(personas, { sources: [] }, ['v1']);
+      await library.save([{ ...personas[0]!, patienceLevel: 0.1 }], { sources: [] });
+      await library.retire('test-persona-3');
+    });
+
+    it('should load the latest active personas', async () => {
+      const loaded = await PersonaLoader.load(
+        createConfig({ library: tempDir, diversity: 0.8 }, 2),
+        logger
+      );
+
+      expect(loaded.map((p) => [p.id, p.patienceLevel])).toEqual([
+        ['test-persona-1', 0.1],
+        ['test-persona-2', 0.8],
+      ]);
+    });
+
+    it('should load the tagged persona set', async () => {
+      const loaded = await PersonaLoader.load(
+        createConfig({ library: tempDir, tag: 'v1', diversity: 0.8 }),
+        logger
+      );
+
+      expect(loaded).toEqual(personas);
+    });
+
+    it('should throw ConfigError for an unknown tag', async () => {
+      await expect(
+        PersonaLoader.load(createConfig({ library: tempDir, tag: 'v9', diversity: 0.8 }), logger)
+      ).rejects.toThrow('No personas tagged v9');
+    });
+
+    it('should require a library for a tag', async () => {
+      await expect(
+        PersonaLoader.load(createConfig({ tag: 'v1', diversity: 0.8 }), logger)
+      ).rejects.toThrow('personas.tag requires personas.library');
+    });
+  });
+
+  describe('loadFromFile', () => {
+    it('should throw FileNotFoundError for missing files', () => {
+      expect(() => PersonaLoader.loadFromFile(path.join(tempDir, 'missing.json'))).toThrow(
+        FileNotFoundError
+      );
+    });
+
+    it('should throw ConfigError when the file is not an array', () => {
+      const filePath = path.join(tempDir, 'object.json');
+      fs.writeFileSync(filePath, '{"id": "persona-1"}', 'utf-8');
+
+      expect(() => PersonaLoader.loadFromFile(filePath)).toThrow(ConfigError);
+    });
+
+    it('should throw ValidationError for invalid personas', () => {
+      const filePath = path.join(tempDir, 'invalid.json');
+      fs.writeFileSync(filePath, JSON.stringify([{ id: 'broken' }]), 'utf-8');
+
+      expect(() => PersonaLoader.loadFromFile(filePath)).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Tests for PluginRegistry
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PluginRegistry } from '../../src/runner/PluginRegistry';
+import { ConfigError } from '../../src/errors';
+
+/**
+ * Source of a local plugin exporting an IProductAdapter and one scenario
+ */
+const FULL_ADAPTER_PLUGIN = `
+const methods = ['initialize', 'getProductState', 'executeAction', 'simulateAction', 'reset',
+  'validateState', 'getAvailableActions', 'cleanup', 'healthCheck'];
+exports.adapter = Object.fromEntries(methods.map((method) => [method, async () => undefined]));
+exports.scenarios = [{ id: 'smoke', name: 'Smoke test', actions: [] }];
+`;
+
+describe('PluginRegistry', () => {
+  const testOutputDir = path.join(__dirname, '../test-output/plugins');
+
+  beforeEach(() => {
+    fs.rmSync(testOutputDir, { recursive: true, force: true });
+    fs.mkdirSync(testOutputDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testOutputDir, { recursive: true, force: true });
+  });
+
+  const writePlugin = (name: string, source: string): string => {
+    const file = path.join(testOutputDir, `${name}.js`);
+    fs.writeFileSync(file, source);
+    return file;
+  };
+
+  describe('load', () => {
+    it('should describe an installed plugin package', async () => {
+      const plugin = await PluginRegistry.load('vibeatlas');
+
+      expect(plugin).toMatchObject({
+        name: 'vibeatlas',
+        source: '@suts/plugin-vibeatlas',
+        version: '1.0.0',
+        adapterKind: 'simple',
+      });
+      expect(plugin.description).toBeDefined();
+      expect(plugin.personaTemplates.map((persona) => persona.archetype)).toContain(
+        'Early Adopter'
+      );
+      expect(plugin.scenarios.map((scenario) => scenario.id)).toContain('happy-path-001');
+      expect(plugin.expectedOutcomes).toContainEqual(
+        expect.objectContaining({
+          scenario: 'happy-path-001',
+          persona: 'Early Adopter',
+          redFlags: expect.arrayContaining(['No sharing']) as string[],
+        })
+      );
+      expect(plugin.identifyRedFlags).toBeInstanceOf(Function);
+    });
+
+    it('should load a local plugin exporting an IProductAdapter', async () => {
+      const file = writePlugin('local-product', FULL_ADAPTER_PLUGIN);
+
+      const plugin = await PluginRegistry.load(file);
+
+      expect(plugin).toMatchObject({ name: 'local-product', source: file, adapterKind: 'full' });
+      expect(PluginRegistry.isFullAdapter(plugin.adapter)).toBe(true);
+      expect(plugin.personaTemplates).toEqual([]);
+      expect(plugin.scenarios).toEqual([{ id: 'smoke', name: 'Smoke test', actions: [] }]);
+      expect(plugin.expectedOutcomes).toEqual([]);
+    });
+
+    it('should read persona templates from a getter function', async () => {
+      const file = writePlugin(
+        'templates',
+        `${FULL_ADAPTER_PLUGIN}
+exports.getAllPersonaTemplates = () => [{ id: 'p-1', archetype: 'Tester' }];`
+      );
+
+      const plugin = await PluginRegistry.load(file);
+
+      expect(plugin.personaTemplates).toEqual([{ id: 'p-1', archetype: 'Tester' }]);
+    });
+
+    it('should reject invalid scenarios', async () => {
+      const file = writePlugin(
+        'invalid-scenarios',
+        `${FULL_ADAPTER_PLUGIN}
+exports.scenarios = [{ id: 'missing-actions', name: 'Broken' }];`
+      );
+
+      await expect(PluginRegistry.load(file)).rejects.toThrow(ConfigError);
+      await expect(PluginRegistry.load(file)).rejects.toThrow(/exports invalid scenarios/);
+    });
+
+    it('should reject expected outcomes with non-numeric metrics', async () => {
+      const file = writePlugin(
+        'invalid-outcomes',
+        `${FULL_ADAPTER_PLUGIN}
+exports.expectedOutcomes = [{ scenario: 'smoke', persona: 'Tester', expectedMetrics: { churn: 'low' } }];`
+      );
+
+      await expect(PluginRegistry.load(file)).rejects.toThrow(/exports invalid expected outcomes/);
+    });
+
+    it('should reject expected outcomes with non-string red flags', async () => {
+      const file = writePlugin(
+        'invalid-red-flags',
+        `${FULL_ADAPTER_PLUGIN}
+exports.expectedOutcomes = [{ scenario: 'smoke', persona: 'Tester', expectedMetrics: {}, redFlags: [1] }];`
+      );
+
+      await expect(PluginRegistry.load(file)).rejects.toThrow(/exports invalid expected outcomes/);
+    });
+
+    it('should throw ConfigError for unknown plugins', async () => {
+      await expect(PluginRegistry.load('does-not-exist')).rejects.toThrow(
+        /Product plugin not found/
+      );
+    });
+  });
+
+  describe('discover', () => {
+    it('should find @suts/plugin-* packages once across search directories', () => {
+      const first = path.join(testOutputDir, 'a', 'node_modules');
+      const second = path.join(testOutputDir, 'b', 'node_modules');
+      for (const dir of [
+        path.join(first, '@suts', 'plugin-zeta'),
+        path.join(first, '@suts', 'core'),
+        path.join(second, '@suts', 'plugin-alpha'),
+        path.join(second, '@suts', 'plugin-zeta'),
+      ]) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      expect(PluginRegistry.discover([first, second, path.join(testOutputDir, 'none')])).toEqual([
+        path.join(second, '@suts', 'plugin-alpha'),
+        path.join(first, '@suts', 'plugin-zeta'),
+      ]);
+    });
+
+    it('should find installed workspace plugins by default', () => {
+      expect(PluginRegistry.discover().map((dir) => path.basename(dir))).toContain(
+        'plugin-vibeatlas'
+      );
+    });
+  });
+
+  describe('adapter checks', () => {
+    it('should tell simple adapters from full adapters', () => {
+      const simple = {
+        getInitialState: (): unknown => ({}),
+        applyAction: (): unknown => ({}),
+        getAvailableActions: (): unknown[] => [],
+      };
+
+      expect(PluginRegistry.isSimpleAdapter(simple)).toBe(true);
+      expect(PluginRegistry.isFullAdapter(simple)).toBe(false);
+      expect(PluginRegistry.isFullAdapter(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for ProductLoader
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProductLoader } from '../../src/runner/ProductLoader';
+import { ConfigError } from '../../src/errors';
+
+describe('ProductLoader', () => {
+  describe('load', () => {
+    it('should resolve a short plugin name to its @suts/plugin package', async () => {
+      const adapter = await ProductLoader.load('vibeatlas');
+      const state = adapter.getInitialState();
+
+      expect(state.version).toBeDefined();
+      expect(state.features).toBeDefined();
+    });
+
+    it('should resolve a full package name', async () => {
+      const adapter = await ProductLoader.load('@suts/plugin-vibeatlas');
+
+      expect(ProductLoader.isProductAdapter(adapter)).toBe(true);
+    });
+
+    it('should throw ConfigError for unknown plugins', async () => {
+      await expect(ProductLoader.load('does-not-exist')).rejects.toThrow(ConfigError);
+      await expect(ProductLoader.load('does-not-exist')).rejects.toThrow(
+        /Product plugin not found/
+      );
+    });
+
+    it('should throw ConfigError when a module exports no adapter', async () => {
+      await expect(ProductLoader.load('zod')).rejects.toThrow(
+        /does not export a product adapter/
+      );
+    });
+
+    it('should reject plugins that only provide an IProductAdapter', async () => {
+      const dir = path.join(__dirname, '../test-output/product-loader');
+      const file = path.join(dir, 'full-adapter.js');
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(
+        file,
+        `exports.adapter = Object.fromEntries(['initialize', 'getProductState', 'executeAction',
+          'simulateAction', 'reset', 'validateState', 'getAvailableActions', 'cleanup',
+          'healthCheck'].map((method) => [method, async () => undefined]));`
+      );
+
+      try {
+        await expect(ProductLoader.load(file)).rejects.toThrow(
+          /simulations require an ISimpleProductAdapter/
+        );
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('isProductAdapter', () => {
+    it('should accept objects implementing the adapter methods', () => {
+      const adapter = {
+        getInitialState: (): unknown => ({}),
+        applyAction: (): unknown => ({}),
+        getAvailableActions: (): unknown[] => [],
+      };
+
+      expect(ProductLoader.isProductAdapter(adapter)).toBe(true);
+    });
+
+    it('should reject incomplete adapters', () => {
+      expect(ProductLoader.isProductAdapter({ getInitialState: () => ({}) })).toBe(false);
+      expect(ProductLoader.isProductAdapter(null)).toBe(false);
+      expect(ProductLoader.isProductAdapter('vibeatlas')).toBe(false);
+    });
+  });
+});
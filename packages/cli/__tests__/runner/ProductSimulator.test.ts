@@ -0,0 +1,117 @@
+/**
+ * Tests for ProductSimulator
+ */
+
+import {
+  ActionType,
+  type ISimpleProductAdapter,
+  type PersonaProfile,
+  type ProductState,
+} from '@suts/core';
+import { DecisionSystem, type ProductChange } from '@suts/decision';
+import { ProductSimulator } from '../../src/runner/ProductSimulator';
+
+describe('ProductSimulator', () => {
+  const persona = (id: string, patienceLevel: number): PersonaProfile => ({
+    id,
+    archetype: 'Tester',
+    role: 'QA Engineer',
+    experienceLevel: 'Intermediate',
+    companySize: 'Startup',
+    techStack: ['TypeScript'],
+    painPoints: [],
+    goals: [],
+    fears: [],
+    values: [],
+    riskTolerance: 0.5,
+    patienceLevel,
+    techAdoption: 'Early adopter',
+    learningStyle: 'Trial-error',
+    evaluationCriteria: [],
+    dealBreakers: [],
+    delightTriggers: [],
+    referralTriggers: [],
+    typicalWorkflow: 'Agile',
+    timeAvailability: '2 hours/day',
+    collaborationStyle: 'Team',
+    state: {},
+    history: [],
+    confidenceScore: 0.7,
+    lastUpdated: '2024-01-01',
+    source: 'test',
+  });
+
+  const state = (search: boolean): ProductState => ({
+    version: '1.0.0',
+    features: { search },
+    uiElements: {},
+    config: {},
+    userData: {},
+    environment: 'development',
+    metadata: {},
+  });
+
+  const adapter: ISimpleProductAdapter = {
+    getInitialState: () => state(true),
+    getAvailableActions: (productState) =>
+      productState.features['search'] === true
+        ? [
+            {
+              type: ActionType.USE_FEATURE,
+              feature: 'search',
+              description: 'Search the catalog',
+              expectedOutcome: 'Results listed',
+            },
+          ]
+        : [],
+    applyAction: (productState) => productState,
+  };
+
+  const personas = [persona('tester-001', 0.3), persona('tester-002', 0.7)];
+
+  it('should simulate a product state into go/no-go metrics', async () => {
+    const simulator = new ProductSimulator({ personas, adapter, days: 3 });
+
+    const metrics = await simulator.simulate(state(true), 11);
+
+    expect(metrics.sampleSize).toBe(2);
+    expect(metrics.retentionRate + metrics.churnRate).toBeCloseTo(1);
+  });
+
+  it('should reproduce a run for the same state and seed', async () => {
+    const simulator = new ProductSimulator({ personas, adapter, days: 3 });
+
+    const first = await simulator.simulate(state(true), 11);
+    const second = await simulator.simulate(state(true), 11);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should back simulation-based impact predictions', async () => {
+    const change: ProductChange = {
+      id: 'change-search',
+      name: 'Remove search',
+      description: 'Retire the search feature',
+      type: 'experiment',
+      estimatedEffort: 2,
+      targetMetrics: ['retention'],
+      expectedReach: 100,
+    };
+
+    const prediction = await new DecisionSystem().predictImpact(change, undefined, {
+      simulator: new ProductSimulator({ personas, adapter, days: 3 }),
+      baselineState: state(true),
+      modifiedState: state(false),
+      runs: 3,
+      bootstrapSamples: 200,
+    });
+
+    expect(prediction.simulation?.runs).toBe(3);
+    expect(prediction.predictedRetentionChange).toBeCloseTo(
+      prediction.simulation?.retention.delta ?? NaN
+    );
+    expect(prediction.simulation?.retention.lower).toBeLessThanOrEqual(
+      prediction.simulation?.retention.upper ?? NaN
+    );
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for ResultsMapper
+ */
+
+import type { TelemetryEvent as SimulationEvent } from '@suts/core';
+import { PersonaState, type SimulationState } from '@suts/simulation';
+import type { GoNoGoResult } from '@suts/decision';
+import { ResultsMapper } from '../../src/runner/ResultsMapper';
+
+function createEvent(
+  personaId: string,
+  action: string,
+  frustration: number,
+  success: boolean
+): SimulationEvent {
+  return {
+    id: `${personaId}-${action}`,
+    personaId,
+    simulationId: 'session-1',
+    sessionNumber: 1,
+    timestamp: '2025-01-10T10:00:00.000Z',
+    eventType: 'action',
+    action,
+    context: { success, duration: 10 },
+    emotionalState: { frustration, delight: 0.2, confidence: 0.6, confusion: 0 },
+    metadata: {},
+    tags: [],
+  };
+}
+
+function createState(finalStates: PersonaState[]): SimulationState {
+  return {
+    personas: finalStates.map((finalState, index) => ({
+      personaId: `persona-${index + 1}`,
+      finalState,
+      totalActions: 3,
+      frustrationLevel: 0.2,
+      delightLevel: 0.8,
+      confidenceLevel: 0.6,
+      confusionLevel: 0,
+      productState: {
+        version: '1.0.0',
+        features: {},
+        uiElements: {},
+        config: {},
+        userData: {},
+        environment: 'development',
+        metadata: {},
+      },
+      events: [],
+    })),
+    events: [],
+    metadata: {
+      totalDays: 1,
+      totalPersonas: finalStates.length,
+      totalEvents: 0,
+      startedAt: new Date(),
+      completedAt: new Date(),
+      seed: 1,
+    },
+  };
+}
+
+describe('ResultsMapper', () => {
+  describe('toTelemetryEvents', () => {
+    it('should convert timestamps and flatten context into metadata', () => {
+      const [event] = ResultsMapper.toTelemetryEvents([
+        createEvent('persona-1', 'install', 0.1, true),
+      ]);
+
+      expect(event?.timestamp).toBeInstanceOf(Date);
+      expect(event?.metadata['success']).toBe(true);
+      expect(event?.emotionalState['frustration']).toBe(0.1);
+    });
+
+    it('should fall back to the event type when there is no action', () => {
+      const { action: _action, ...event } = createEvent('persona-1', 'install', 0, true);
+
+      expect(ResultsMapper.toTelemetryEvents([event])[0]?.action).toBe('action');
+    });
+  });
+
+  describe('toEventData', () => {
+    it('should keep the emotional state in the event context', () => {
+      const [event] = ResultsMapper.toEventData([
+        createEvent('persona-1', 'install', 0.4, true),
+      ]);
+
+      expect(event?.action).toBe('install');
+      expect(event?.context['emotionalState']).toEqual(
+        expect.objectContaining({ frustration: 0.4 })
+      );
+    });
+  });
+
+  describe('fromEventData', () => {
+    it('should round-trip events written by toEventData', () => {
+      const simulated = [createEvent('persona-1', 'install', 0.4, true)];
+      const [event] = ResultsMapper.fromEventData(ResultsMapper.toEventData(simulated));
+
+      expect(event).toEqual(ResultsMapper.toTelemetryEvents(simulated)[0]);
+    });
+
+    it('should default a missing emotional state to empty', () => {
+      const [event] = ResultsMapper.fromEventData([
+        {
+          id: 'event-1',
+          personaId: 'persona-1',
+          timestamp: '2025-01-10T10:00:00.000Z',
+          eventType: 'action',
+          context: {},
+        },
+      ]);
+
+      expect(event?.emotionalState).toEqual({});
+      expect(event?.action).toBe('action');
+    });
+  });
+
+  describe('toFrictionPoints', () => {
+    it('should attach the personas that hit each friction point', () => {
+      const events = ResultsMapper.toTelemetryEvents([
+        createEvent('persona-1', 'configure', 0.9, false),
+        createEvent('persona-2', 'configure', 0.8, false),
+        createEvent('persona-3', 'install', 0.1, true),
+      ]);
+
+      const [friction] = ResultsMapper.toFrictionPoints(
+        [
+          {
+            location: { action: 'configure', eventType: 'action' },
+            severity: 0.8,
+            frequency: 2,
+            affectedUsers: 2,
+            avgFrustration: 0.85,
+            avgTimeSpent: 0,
+            abandonmentRate: 0,
+            priority: 0.7,
+            confidence: 0.6,
+            description: 'Configuration is frustrating',
+          },
+        ],
+        events
+      );
+
+      expect(friction?.id).toBe('friction-1');
+      expect(friction?.affectedPersonas).toEqual(['persona-1', 'persona-2']);
+    });
+  });
+
+  describe('calculateMetrics', () => {
+    it('should derive retention from final persona states', () => {
+      const metrics = ResultsMapper.calculateMetrics(
+        createState([PersonaState.ACTIVE, PersonaState.RETAINED, PersonaState.CHURNED, PersonaState.ACTIVE]),
+        []
+      );
+
+      expect(metrics.sampleSize).toBe(4);
+      expect(metrics.retentionRate).toBe(0.75);
+      expect(metrics.churnRate).toBe(0.25);
+      expect(metrics.userSatisfaction).toBeCloseTo(0.8);
+    });
+
+    it('should count personas with a successful feature use as converted', () => {
+      const events = ResultsMapper.toTelemetryEvents([
+        createEvent('persona-1', 'use_feature', 0.1, true),
+        createEvent('persona-2', 'use_feature', 0.1, false),
+      ]);
+
+      const metrics = ResultsMapper.calculateMetrics(
+        createState([PersonaState.ACTIVE, PersonaState.ACTIVE]),
+        events
+      );
+
+      expect(metrics.conversionRate).toBe(0.5);
+      expect(metrics.avgSessionDuration).toBe(10);
+    });
+
+    it('should return zeroed metrics for an empty run', () => {
+      expect(ResultsMapper.calculateMetrics(createState([]), []).sampleSize).toBe(0);
+    });
+  });
+
+  describe('toGoNoGoDecision', () => {
+    const result: GoNoGoResult = {
+      decision: 'GO',
+      confidence: 0.9,
+      reasoning: 'Decision: GO',
+      passedCriteria: [],
+      failedCriteria: [],
+      warnings: [],
+      recommendations: [],
+      thresholds: {},
+    };
+    const metrics = ResultsMapper.calculateMetrics(
+      createState([PersonaState.ACTIVE, PersonaState.RETAINED]),
+      []
+    );
+
+    it('should return go when the engine and thresholds agree', () => {
+      const decision = ResultsMapper.toGoNoGoDecision(result, metrics, 0.3, {
+        positioning: 0.6,
+        retention: 0.8,
+        viral: 0.25,
+      });
+
+      expect(decision.decision).toBe('go');
+      expect(decision.confidence).toBe(0.9);
+    });
+
+    it('should return no-go when a configured threshold fails', () => {
+      const decision = ResultsMapper.toGoNoGoDecision(result, metrics, 0.1, {
+        positioning: 0.6,
+        retention: 0.8,
+        viral: 0.25,
+      });
+
+      expect(decision.decision).toBe('no-go');
+      expect(decision.reasoning).toContain('viral');
+    });
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Tests for ScenarioRunner
+ */
+
+import { ActionType, type ISimpleProductAdapter, type PersonaProfile } from '@suts/core';
+import { PersonaState, type PersonaStateSnapshot } from '@suts/simulation';
+import { ScenarioRunner, type ScenarioMetrics } from '../../src/runner/ScenarioRunner';
+import type { LoadedPlugin, PluginScenario } from '../../src/runner/PluginRegistry';
+import { ConfigError, ValidationError } from '../../src/errors';
+
+describe('ScenarioRunner', () => {
+  const persona: PersonaProfile = {
+    id: 'tester-001',
+    archetype: 'Tester',
+    role: 'QA Engineer',
+    experienceLevel: 'Intermediate',
+    companySize: 'Startup',
+    techStack: ['TypeScript'],
+    painPoints: [],
+    goals: [],
+    fears: [],
+    values: [],
+    riskTolerance: 0.5,
+    patienceLevel: 0.6,
+    techAdoption: 'Early adopter',
+    learningStyle: 'Trial-error',
+    evaluationCriteria: [],
+    dealBreakers: [],
+    delightTriggers: [],
+    referralTriggers: [],
+    typicalWorkflow: 'Agile',
+    timeAvailability: '2 hours/day',
+    collaborationStyle: 'Team',
+    state: {},
+    history: [],
+    confidenceScore: 0.7,
+    lastUpdated: '2024-01-01',
+    source: 'test',
+  };
+
+  const scenario: PluginScenario = {
+    id: 'search-001',
+    name: 'Search',
+    targetPersonas: ['Tester'],
+    actions: [
+      {
+        type: ActionType.INSTALL,
+        feature: 'app',
+        description: 'Install',
+        expectedOutcome: 'Installed',
+      },
+      {
+        type: ActionType.USE_FEATURE,
+        feature: 'search',
+        description: 'Search the catalog',
+        expectedOutcome: 'Results listed',
+      },
+    ],
+  };
+
+  const adapter: ISimpleProductAdapter = {
+    getInitialState: () => ({
+      version: '1.0.0',
+      features: { search: true },
+      uiElements: {},
+      config: {},
+      userData: {},
+      environment: 'development',
+      metadata: {},
+    }),
+    getAvailableActions: () => [scenario.actions[1]!],
+    applyAction: (state) => state,
+  };
+
+  const plugin = (overrides: Partial<LoadedPlugin> = {}): LoadedPlugin => ({
+    name: 'search',
+    source: 'search',
+    adapterKind: 'simple',
+    adapter,
+    personaTemplates: [persona],
+    scenarios: [scenario],
+    expectedOutcomes: [],
+    ...overrides,
+  });
+
+  const snapshot = (
+    overrides: Partial<PersonaStateSnapshot>,
+    actions: Array<{ action: ActionType; target?: string; success: boolean }> = []
+  ): PersonaStateSnapshot => ({
+    personaId: 'tester-001-run-1',
+    finalState: PersonaState.ACTIVE,
+    totalActions: actions.length,
+    frustrationLevel: 0,
+    delightLevel: 0,
+    confidenceLevel: 0.5,
+    confusionLevel: 0,
+    productState: adapter.getInitialState(),
+    events: actions.map((event, index) => ({
+      id: `event-${index}`,
+      personaId: 'tester-001-run-1',
+      simulationId: 'session-1',
+      sessionNumber: 1,
+      timestamp: '2024-01-01T00:00:00.000Z',
+      eventType: 'action',
+      action: event.action,
+      context: { target: event.target, success: event.success },
+      emotionalState: { frustration: 0, delight: 0, confidence: 0.5, confusion: 0 },
+      metadata: {},
+      tags: [],
+    })),
+    ...overrides,
+  });
+
+  const options = {
+    days: 3,
+    runs: 2,
+    seed: 42,
+    tolerance: 0.2,
+    decisionProvider: 'rules' as const,
+  };
+
+  describe('computeMetrics', () => {
+    it('should average metrics over runs', () => {
+      const metrics = ScenarioRunner.computeMetrics(scenario, [
+        snapshot({ frustrationLevel: 0.2, delightLevel: 0.8 }, [
+          { action: ActionType.INSTALL, success: true },
+          { action: ActionType.USE_FEATURE, target: 'search', success: true },
+          { action: ActionType.SHARE, target: 'search', success: true },
+        ]),
+        snapshot({ frustrationLevel: 0.6, delightLevel: 0.2, finalState: PersonaState.CHURNED }, [
+          { action: ActionType.INSTALL, success: true },
+          { action: ActionType.USE_FEATURE, target: 'search', success: false },
+          { action: ActionType.USE_FEATURE, target: 'export', success: true },
+        ]),
+      ]);
+
+      expect(metrics.onboardingCompletion).toBeCloseTo(0.75);
+      expect(metrics.frustrationScore).toBeCloseTo(0.4);
+      expect(metrics.delightScore).toBeCloseTo(0.5);
+      expect(metrics.churnProbability).toBe(0.5);
+      expect(metrics.referralProbability).toBe(0.5);
+    });
+
+    it('should return zero metrics without runs', () => {
+      expect(Object.values(ScenarioRunner.computeMetrics(scenario, []))).toEqual([0, 0, 0, 0, 0]);
+    });
+  });
+
+  describe('checkMetrics', () => {
+    const metrics: ScenarioMetrics = {
+      onboardingCompletion: 0.9,
+      frustrationScore: 0.5,
+      delightScore: 0.4,
+      churnProbability: 0.1,
+      referralProbability: 0.3,
+    };
+
+    it('should pass metrics within the tolerance and fail the rest', () => {
+      const checks = ScenarioRunner.checkMetrics(
+        metrics,
+        { onboardingCompletion: 0.95, frustrationScore: 0.1 },
+        0.2
+      );
+
+      expect(checks).toEqual([
+        expect.objectContaining({ metric: 'onboardingCompletion', status: 'pass' }),
+        expect.objectContaining({ metric: 'frustrationScore', actual: 0.5, status: 'fail' }),
+      ]);
+      expect(checks[1]?.deviation).toBeCloseTo(0.4);
+    });
+
+    it('should skip metrics the runner does not measure', () => {
+      expect(ScenarioRunner.checkMetrics(metrics, { timeToFirstValue: 180 }, 0.2)).toEqual([
+        { metric: 'timeToFirstValue', expected: 180, status: 'skipped' },
+      ]);
+    });
+  });
+
+  describe('observeBehavior', () => {
+    it('should describe behaviour from metrics in red flag terms', () => {
+      expect(
+        ScenarioRunner.observeBehavior({
+          onboardingCompletion: 0.2,
+          frustrationScore: 0.7,
+          delightScore: 0.1,
+          churnProbability: 0.6,
+          referralProbability: 0,
+        })
+      ).toEqual(['Slow adoption', 'High friction', 'No sharing', 'Early churn']);
+    });
+
+    it('should observe nothing for healthy metrics', () => {
+      expect(
+        ScenarioRunner.observeBehavior({
+          onboardingCompletion: 0.9,
+          frustrationScore: 0.1,
+          delightScore: 0.8,
+          churnProbability: 0,
+          referralProbability: 0.5,
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe('run', () => {
+    it('should simulate each target persona once per run', async () => {
+      const getAvailableActions = jest.spyOn(adapter, 'getAvailableActions');
+
+      const report = await ScenarioRunner.run(plugin(), 'search-001', options);
+
+      const personaIds = new Set(getAvailableActions.mock.calls.map(([, p]) => p.id));
+      expect([...personaIds].sort()).toEqual(['tester-001-run-1', 'tester-001-run-2']);
+      expect(report).toMatchObject({
+        plugin: 'search',
+        scenario: { id: 'search-001', name: 'Search' },
+        options,
+        status: 'unchecked',
+        passed: false,
+      });
+      expect(report.personas).toEqual([
+        expect.objectContaining({
+          persona: 'Tester',
+          templateId: 'tester-001',
+          checks: [],
+          status: 'unchecked',
+        }),
+      ]);
+      getAvailableActions.mockRestore();
+    });
+
+    it('should fail when metrics miss their expected values', async () => {
+      const report = await ScenarioRunner.run(
+        plugin({
+          expectedOutcomes: [
+            { scenario: 'search-001', persona: 'Tester', expectedMetrics: { churnProbability: 2 } },
+          ],
+        }),
+        'search-001',
+        options
+      );
+
+      expect(report.passed).toBe(false);
+      expect(report.personas[0]?.checks).toEqual([
+        expect.objectContaining({ metric: 'churnProbability', status: 'fail' }),
+      ]);
+    });
+
+    it('should pass when measured metrics are within the tolerance', async () => {
+      const report = await ScenarioRunner.run(
+        plugin({
+          expectedOutcomes: [
+            { scenario: 'search-001', persona: 'Tester', expectedMetrics: { churnProbability: 0 } },
+          ],
+        }),
+        'search-001',
+        { ...options, tolerance: 1 }
+      );
+
+      expect(report).toMatchObject({ status: 'pass', passed: true });
+    });
+
+    it('should not pass when every expected metric is unmeasured', async () => {
+      const report = await ScenarioRunner.run(
+        plugin({
+          expectedOutcomes: [
+            {
+              scenario: 'search-001',
+              persona: 'Tester',
+              expectedMetrics: { timeToFirstValue: 180 },
+            },
+          ],
+        }),
+        'search-001',
+        options
+      );
+
+      expect(report).toMatchObject({ status: 'unchecked', passed: false });
+      expect(report.personas[0]?.checks).toEqual([
+        expect.objectContaining({ metric: 'timeToFirstValue', status: 'skipped' }),
+      ]);
+    });
+
+    it('should fail when a red flag is observed', async () => {
+      const report = await ScenarioRunner.run(
+        plugin({
+          expectedOutcomes: [
+            {
+              scenario: 'search-001',
+              persona: 'Tester',
+              expectedMetrics: { churnProbability: 0 },
+              redFlags: ['No sharing', 'Hidden costs'],
+            },
+          ],
+        }),
+        'search-001',
+        { ...options, tolerance: 1 }
+      );
+
+      expect(report.personas[0]).toMatchObject({
+        behavior: expect.arrayContaining(['No sharing']) as string[],
+        redFlags: ['No sharing'],
+        status: 'fail',
+      });
+      expect(report).toMatchObject({ status: 'fail', passed: false });
+    });
+
+    it("should use the plugin's red flag matching when it exports one", async () => {
+      const identifyRedFlags = jest.fn(() => ({ flags: ['Custom flag'] }));
+      const expected = {
+        scenario: 'search-001',
+        persona: 'Tester',
+        expectedMetrics: { churnProbability: 0 },
+        redFlags: ['Custom flag'],
+      };
+
+      const report = await ScenarioRunner.run(
+        plugin({ expectedOutcomes: [expected], identifyRedFlags }),
+        'search-001',
+        { ...options, tolerance: 1 }
+      );
+
+      expect(identifyRedFlags).toHaveBeenCalledWith(report.personas[0]?.behavior, expected);
+      expect(report.personas[0]?.redFlags).toEqual(['Custom flag']);
+      expect(report.status).toBe('fail');
+    });
+
+    it('should be deterministic for a seed', async () => {
+      const first = await ScenarioRunner.run(plugin(), 'search-001', options);
+      const second = await ScenarioRunner.run(plugin(), 'search-001', options);
+
+      expect(second.personas).toEqual(first.personas);
+    });
+
+    it('should use rule-based decisions regardless of ANTHROPIC_API_KEY', async () => {
+      const originalKey = process.env['ANTHROPIC_API_KEY'];
+      const first = await ScenarioRunner.run(plugin(), 'search-001', options);
+
+      process.env['ANTHROPIC_API_KEY'] = 'sk-ant-invalid';
+      try {
+        const second = await ScenarioRunner.run(plugin(), 'search-001', options);
+        expect(second.personas).toEqual(first.personas);
+      } finally {
+        if (originalKey === undefined) {
+          delete process.env['ANTHROPIC_API_KEY'];
+        } else {
+          process.env['ANTHROPIC_API_KEY'] = originalKey;
+        }
+      }
+    });
+
+    it('should require ANTHROPIC_API_KEY for LLM decisions', async () => {
+      const originalKey = process.env['ANTHROPIC_API_KEY'];
+      delete process.env['ANTHROPIC_API_KEY'];
+      try {
+        await expect(
+          ScenarioRunner.run(plugin(), 'search-001', { ...options, decisionProvider: 'llm' })
+        ).rejects.toThrow(ConfigError);
+      } finally {
+        if (originalKey !== undefined) {
+          process.env['ANTHROPIC_API_KEY'] = originalKey;
+        }
+      }
+    });
+
+    it('should reject unknown scenarios', async () => {
+      await expect(ScenarioRunner.run(plugin(), 'missing', options)).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    it('should reject scenarios without matching persona templates', async () => {
+      await expect(
+        ScenarioRunner.run(plugin({ personaTemplates: [] }), 'search-001', options)
+      ).rejects.toThrow('Scenario search-001 has no persona templates to run');
+    });
+
+    it('should reject plugins without a simple adapter', async () => {
+      await expect(
+        ScenarioRunner.run(plugin({ adapter: {} as ISimpleProductAdapter }), 'search-001', options)
+      ).rejects.toThrow(ConfigError);
+    });
+  });
+});
@@ -1,6 +1,9 @@
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.test.json' }]
+  },
   roots: ['<rootDir>/src', '<rootDir>/__tests__'],
   testMatch: ['**/__tests__/**/*.test.ts', '**/*.test.ts'],
   collectCoverageFrom: [
@@ -29,7 +32,10 @@ module.exports = {
     '/__tests__/',
     '\\.d\\.ts$'
   ],
+  // Workspace packages resolve to their sources, so tests never run stale builds
   moduleNameMapper: {
+    '^@suts/(core|persona|simulation|telemetry|analysis|decision|network)$': '<rootDir>/../$1/src',
+    '^@suts/plugin-vibeatlas$': '<rootDir>/../../plugins/vibeatlas/src',
     '^@core/(.*)$': '<rootDir>/../core/src/$1',
     '^@persona/(.*)$': '<rootDir>/../persona/src/$1',
     '^@simulation/(.*)$': '<rootDir>/../simulation/src/$1',
@@ -10,6 +10,12 @@ import {
   registerRunCommand,
   registerGeneratePersonasCommand,
   registerAnalyzeCommand,
+  registerQueryCommand,
+  registerPluginsCommand,
+  registerScenarioCommand,
+  registerPersonasCommand,
+  registerCalibrateCommand,
+  registerExperimentCommand,
 } from './commands';
 
 /**
@@ -50,6 +56,12 @@ export function main(): void {
   registerRunCommand(program);
   registerGeneratePersonasCommand(program);
   registerAnalyzeCommand(program);
+  registerQueryCommand(program);
+  registerPluginsCommand(program);
+  registerScenarioCommand(program);
+  registerPersonasCommand(program);
+  registerCalibrateCommand(program);
+  registerExperimentCommand(program);
 
   // Add help command
   program
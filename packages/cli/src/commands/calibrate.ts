@@ -0,0 +1,202 @@
+/**
+ * Calibrate command - Tune simulation behaviour against real user data
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { IEventStore } from '@suts/telemetry';
+import { ConfigLoader } from '../config';
+import { ConfigError, ErrorHandler, FileNotFoundError, ValidationError } from '../errors';
+import { Logger } from '../progress';
+import { TableFormatter } from '../output';
+import {
+  Calibrator,
+  EventStoreLoader,
+  PersonaLoader,
+  ProductLoader,
+  type CalibrationResult,
+  type CalibrationTargets,
+} from '../runner';
+
+/**
+ * Defaults of the calibrate options
+ */
+const CALIBRATE_DEFAULTS = {
+  maxEvaluations: 40,
+  seed: 42,
+  output: './calibration.json',
+};
+
+/**
+ * Options for calibrate command
+ */
+export interface CalibrateOptions {
+  config: string;
+  data?: string;
+  events?: string;
+  maxEvaluations?: number;
+  seed?: number;
+  output?: string;
+  verbose?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Calibrate command handler
+ * Writes the calibration report, including a `behavior` block to copy into
+ * the configuration's `simulation.behavior`.
+ * @param options - Command options
+ */
+export async function calibrateCommand(options: CalibrateOptions): Promise<void> {
+  try {
+    const logger = new Logger(Boolean(options.verbose));
+    const maxEvaluations = options.maxEvaluations ?? CALIBRATE_DEFAULTS.maxEvaluations;
+    if (!Number.isInteger(maxEvaluations) || maxEvaluations <= 0) {
+      throw new ValidationError('Invalid calibrate options', [
+        'max-evaluations must be a positive integer',
+      ]);
+    }
+
+    const targets = loadTargets(options, logger);
+
+    const config = ConfigLoader.load(options.config);
+    ConfigLoader.resolvePaths(config, options.config);
+    const seed = options.seed ?? config.simulation.seed ?? CALIBRATE_DEFAULTS.seed;
+    const personas = await PersonaLoader.load(config, logger);
+    const adapter = await ProductLoader.load(config.simulation.product);
+
+    logger.debug(
+      `Calibrating ${personas.length} personas over ${config.simulation.days} days (seed ${seed}, up to ${maxEvaluations} simulations)`
+    );
+    const result = await Calibrator.calibrate(targets, {
+      personas,
+      adapter,
+      days: config.simulation.days,
+      seed,
+      maxEvaluations,
+      ...(config.simulation.behavior !== undefined && {
+        initial: Calibrator.toBehaviorParameters(config.simulation.behavior),
+      }),
+      onEvaluation: (evaluation, count) =>
+        logger.debug(
+          `Simulation ${count}: mean absolute error ${evaluation.meanAbsoluteError.toFixed(4)}`
+        ),
+    });
+
+    const outputPath = path.resolve(options.output ?? CALIBRATE_DEFAULTS.output);
+    fs.writeFileSync(
+      outputPath,
+      JSON.stringify({ ...result, behavior: result.calibrated.parameters }, null, 2),
+      'utf-8'
+    );
+
+    if (options.json ?? false) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(formatResult(result));
+    logger.success(`Calibration report saved to: ${outputPath}`);
+    logger.info(
+      'Copy its "behavior" block into simulation.behavior to use the calibrated parameters'
+    );
+  } catch (error) {
+    ErrorHandler.handle(error, Boolean(options.verbose));
+  }
+}
+
+/**
+ * Load calibration targets from a targets file or real telemetry events
+ * @throws {ConfigError} If neither or both sources are given
+ */
+function loadTargets(options: CalibrateOptions, logger: Logger): CalibrationTargets {
+  if ((options.data === undefined) === (options.events === undefined)) {
+    throw new ConfigError('Specify exactly one of --data or --events');
+  }
+
+  if (options.data !== undefined) {
+    const absolutePath = path.resolve(options.data);
+    if (!fs.existsSync(absolutePath)) {
+      throw new FileNotFoundError(absolutePath);
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(absolutePath, 'utf-8'));
+    } catch (error) {
+      throw new ValidationError('Invalid calibration targets', [
+        error instanceof Error ? error.message : String(error),
+      ]);
+    }
+    return Calibrator.parseTargets(data);
+  }
+
+  let store: IEventStore | undefined;
+  try {
+    store = EventStoreLoader.openFile(options.events!);
+    logger.debug(`Loaded ${store.count()} events from ${options.events}`);
+    return Calibrator.targetsFromEvents(store.getAll());
+  } finally {
+    store?.close?.();
+  }
+}
+
+/**
+ * Render a calibration result
+ * @param result - Calibration result
+ * @returns One table row per metric, followed by the overall error
+ */
+function formatResult(result: CalibrationResult): string {
+  const { baseline, calibrated } = result;
+  const rows = calibrated.metrics.map((metric, index) => ({
+    metric: metric.metric,
+    target: round(metric.target),
+    baseline: round(baseline.metrics[index]!.simulated),
+    calibrated: round(metric.simulated),
+    error: round(metric.error),
+  }));
+
+  return [
+    `Calibration over ${result.days} days, seed ${result.seed}, ${result.evaluations} simulations`,
+    '',
+    TableFormatter.format(rows),
+    '',
+    `Mean absolute error: ${round(baseline.meanAbsoluteError)} -> ${round(calibrated.meanAbsoluteError)}`,
+    `Accuracy: ${((1 - calibrated.meanAbsoluteError) * 100).toFixed(1)}%`,
+  ].join('\n');
+}
+
+/**
+ * Round a rate for display
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Register calibrate command with Commander
+ * @param program - Commander program
+ */
+export function registerCalibrateCommand(program: Command): void {
+  program
+    .command('calibrate')
+    .description('Tune simulation behaviour parameters against real user data')
+    .requiredOption('-c, --config <path>', 'Path to configuration file')
+    .option('-d, --data <file>', 'Calibration targets: retention, funnel and churn rates (JSON)')
+    .option(
+      '--events <file>',
+      'Real telemetry events to derive targets from: events.json, an NDJSON store or a SQLite store'
+    )
+    .option(
+      '-e, --max-evaluations <number>',
+      'Largest number of simulations (default: 40)',
+      parseInt
+    )
+    .option('-s, --seed <number>', 'Random seed (default: simulation.seed or 42)', parseInt)
+    .option('-o, --output <file>', 'Calibration report (default: ./calibration.json)')
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(calibrateCommand);
+}
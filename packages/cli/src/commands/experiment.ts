@@ -0,0 +1,219 @@
+/**
+ * Experiment command - Run designed experiments as synthetic A/B tests
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigLoader } from '../config';
+import { ErrorHandler, FileNotFoundError, RegressionError, ValidationError } from '../errors';
+import { Logger } from '../progress';
+import { TableFormatter } from '../output';
+import {
+  Calibrator,
+  ExperimentRunner,
+  PersonaLoader,
+  ProductLoader,
+  type ExperimentFile,
+  type ExperimentReport,
+} from '../runner';
+
+/**
+ * Defaults of the experiment run options
+ */
+const EXPERIMENT_DEFAULTS = {
+  runs: 3,
+  seed: 42,
+};
+
+/**
+ * Options for experiment run command
+ */
+export interface ExperimentRunCommandOptions {
+  config: string;
+  days?: number;
+  runs?: number;
+  seed?: number;
+  verbose?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Experiment run command handler
+ * Simulates the experiment's duration unless --days is given, and exits with
+ * the regression exit code when a treatment fails a success criterion.
+ * @param file - Experiment JSON file
+ * @param options - Command options
+ */
+export async function experimentRunCommand(
+  file: string,
+  options: ExperimentRunCommandOptions
+): Promise<void> {
+  try {
+    const logger = new Logger(Boolean(options.verbose));
+    const experiment = loadExperiment(file);
+
+    const config = ConfigLoader.load(options.config);
+    ConfigLoader.resolvePaths(config, options.config);
+    const runOptions = {
+      days:
+        options.days ??
+        (experiment.expectedDuration > 0
+          ? Math.ceil(experiment.expectedDuration)
+          : config.simulation.days),
+      runs: options.runs ?? EXPERIMENT_DEFAULTS.runs,
+      seed: options.seed ?? config.simulation.seed ?? EXPERIMENT_DEFAULTS.seed,
+    };
+    validateOptions(runOptions);
+
+    const personas = await PersonaLoader.load(config, logger);
+    const adapter = await ProductLoader.load(config.simulation.product);
+    logger.debug(
+      `Running ${experiment.id} with ${personas.length} personas: ${runOptions.runs} runs of ${runOptions.days} days per arm (seed ${runOptions.seed})`
+    );
+    const report = await ExperimentRunner.run(experiment, {
+      ...runOptions,
+      personas,
+      adapter,
+      stateChanges: experiment.stateChanges,
+      ...(config.simulation.behavior !== undefined && {
+        behavior: Calibrator.toBehaviorParameters(config.simulation.behavior),
+      }),
+    });
+
+    // eslint-disable-next-line no-console
+    console.log((options.json ?? false) ? JSON.stringify(report, null, 2) : formatReport(report));
+
+    if (!report.sampleSizeMet && !(options.json ?? false)) {
+      logger.warn(
+        `${report.sampleSize} simulated users are below the minimum sample size of ${experiment.minimumSampleSize}; add personas, as more runs simulate the same users`
+      );
+    }
+    const failed = report.treatments.filter((result) => !result.passed);
+    if (failed.length > 0) {
+      throw new RegressionError(
+        `Experiment ${report.experiment.id} failed: ${failed.map((result) => result.arm.name).join(', ')} missed its success criteria`
+      );
+    }
+    if (!(options.json ?? false)) {
+      logger.success(`Experiment ${report.experiment.id} passed`);
+    }
+  } catch (error) {
+    ErrorHandler.handle(error, Boolean(options.verbose));
+  }
+}
+
+/**
+ * Load an experiment file
+ * @throws {FileNotFoundError} If the file does not exist
+ * @throws {ValidationError} If the file is not a valid experiment
+ */
+function loadExperiment(file: string): ExperimentFile {
+  const absolutePath = path.resolve(file);
+  if (!fs.existsSync(absolutePath)) {
+    throw new FileNotFoundError(absolutePath);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(absolutePath, 'utf-8'));
+  } catch (error) {
+    throw new ValidationError('Invalid experiment', [
+      error instanceof Error ? error.message : String(error),
+    ]);
+  }
+  return ExperimentRunner.parseExperiment(data);
+}
+
+/**
+ * Check run options
+ * @throws {ValidationError} If an option is out of range
+ */
+function validateOptions(options: ExperimentReport['options']): void {
+  const errors: string[] = [];
+  if (!Number.isInteger(options.days) || options.days <= 0) {
+    errors.push('days must be a positive integer');
+  }
+  if (!Number.isInteger(options.runs) || options.runs <= 0) {
+    errors.push('runs must be a positive integer');
+  }
+  if (!Number.isInteger(options.seed)) {
+    errors.push('seed must be an integer');
+  }
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid experiment options', errors);
+  }
+}
+
+/**
+ * Render an experiment report
+ * @param report - Experiment report
+ * @returns Header, one row per arm and one row per treatment criterion
+ */
+function formatReport(report: ExperimentReport): string {
+  const { options } = report;
+  const lines = [
+    `Experiment ${report.experiment.id}: ${report.experiment.name}`,
+    `Target ${report.experiment.targetMetric} (${report.metric}), ${options.runs} runs x ${options.days} days, seed ${options.seed}`,
+    '',
+  ];
+
+  lines.push(
+    TableFormatter.format([
+      {
+        arm: report.control.name,
+        users: report.control.sampleSize,
+        value: report.control.metrics[report.metric],
+        lift: null,
+        pValue: null,
+      },
+      ...report.treatments.map((result) => ({
+        arm: result.arm.name,
+        users: result.arm.sampleSize,
+        value: result.treatment,
+        lift: result.lift,
+        pValue: result.pValue,
+      })),
+    ])
+  );
+
+  const rows = report.treatments.flatMap((result) =>
+    result.criteria.map((check) => ({
+      arm: result.arm.name,
+      criterion: check.criterion,
+      threshold: check.threshold ?? null,
+      actual: check.actual ?? null,
+      result: check.status,
+    }))
+  );
+  if (rows.length > 0) {
+    lines.push('', TableFormatter.format(rows));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Register experiment commands with Commander
+ * @param program - Commander program
+ */
+export function registerExperimentCommand(program: Command): void {
+  const experiment = program
+    .command('experiment')
+    .description('Run designed experiments as synthetic A/B tests');
+
+  experiment
+    .command('run <file>')
+    .description('Simulate an experiment and check its success criteria')
+    .requiredOption('-c, --config <path>', 'Configuration file providing personas and product')
+    .option(
+      '-d, --days <number>',
+      "Simulated days per run (default: the experiment's expected duration)",
+      parseInt
+    )
+    .option('-r, --runs <number>', 'Simulated runs per arm (default: 3)', parseInt)
+    .option('-s, --seed <number>', 'Random seed (default: configuration seed or 42)', parseInt)
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(experimentRunCommand);
+}
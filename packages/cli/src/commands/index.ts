@@ -13,3 +13,36 @@ export {
   registerAnalyzeCommand,
   AnalyzeOptions,
 } from './analyze';
+export { queryCommand, registerQueryCommand, QueryOptions } from './query';
+export {
+  pluginsListCommand,
+  pluginInfoCommand,
+  registerPluginsCommand,
+  PluginsOptions,
+} from './plugins';
+export {
+  scenarioRunCommand,
+  registerScenarioCommand,
+  ScenarioRunCommandOptions,
+} from './scenario';
+export {
+  personasListCommand,
+  personasShowCommand,
+  personasDiffCommand,
+  personasRetireCommand,
+  personasTagCommand,
+  personasImportCommand,
+  personasGroundCommand,
+  registerPersonasCommand,
+  PersonasOptions,
+  PersonasListOptions,
+  PersonasRetireOptions,
+  PersonasImportOptions,
+  PersonasGroundOptions,
+} from './personas';
+export { calibrateCommand, registerCalibrateCommand, CalibrateOptions } from './calibrate';
+export {
+  experimentRunCommand,
+  registerExperimentCommand,
+  ExperimentRunCommandOptions,
+} from './experiment';
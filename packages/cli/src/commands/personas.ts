@@ -0,0 +1,617 @@
+/**
+ * Personas command - Inspect and curate a persona library
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  PersonaGenerator,
+  PersonaGrounder,
+  PersonaGroundingError,
+  PersonaImporter,
+  PersonaImportError,
+  PersonaLibrary,
+  PersonaLibraryError,
+  describeSource,
+  type PersonaGroundingResult,
+  type PersonaImportMappingInput,
+  type PersonaImportResult,
+} from '@suts/persona';
+import {
+  ConfigError,
+  ErrorHandler,
+  FileNotFoundError,
+  SimulationError,
+  ValidationError,
+} from '../errors';
+import { Logger } from '../progress';
+import { TableFormatter } from '../output';
+
+/**
+ * Default persona library directory
+ */
+const DEFAULT_LIBRARY = './persona-library';
+
+/**
+ * Options shared by personas commands
+ */
+export interface PersonasOptions {
+  library?: string;
+  verbose?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Options for personas list command
+ */
+export interface PersonasListOptions extends PersonasOptions {
+  tag?: string;
+  all?: boolean;
+}
+
+/**
+ * Options for personas retire command
+ */
+export interface PersonasRetireOptions extends PersonasOptions {
+  reason?: string;
+}
+
+/**
+ * Options for personas import command
+ */
+export interface PersonasImportOptions {
+  mapping: string;
+  count: number;
+  output?: string;
+  library?: string;
+  llm?: boolean;
+  verbose?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Options for personas ground command
+ */
+export interface PersonasGroundOptions {
+  count: number;
+  signals?: string;
+  output?: string;
+  library?: string;
+  llm?: boolean;
+  verbose?: boolean;
+  json?: boolean;
+}
+
+/**
+ * List library personas
+ * @param options - Command options
+ */
+export async function personasListCommand(options: PersonasListOptions): Promise<void> {
+  try {
+    const { tag } = options;
+    const entries = await openLibrary(options).list({
+      ...(tag !== undefined && { tag }),
+      includeRetired: options.all ?? false,
+    });
+
+    if (options.json ?? false) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+
+    const rows = entries.map((entry) => {
+      const latest = entry.versions[entry.versions.length - 1];
+      const tagged =
+        tag === undefined
+          ? undefined
+          : entry.versions.find((version) => version.tags.includes(tag));
+      return {
+        id: entry.id,
+        archetype: entry.archetype,
+        version: (tagged ?? latest)?.version,
+        versions: entry.versions.length,
+        hash: (tagged ?? latest)?.hash.slice(0, 12),
+        tags: [...new Set(entry.versions.flatMap((version) => version.tags))].join(', '),
+        retired: entry.retired?.at,
+      };
+    });
+
+    // eslint-disable-next-line no-console
+    console.log(TableFormatter.format(rows));
+  } catch (error) {
+    ErrorHandler.handle(toCLIError(error), Boolean(options.verbose));
+  }
+}
+
+/**
+ * Show a persona version with its provenance
+ * @param ref - Persona reference: `<id>`, `<id>@<version>`, `<id>@<tag>` or a hash prefix
+ * @param options - Command options
+ */
+export async function personasShowCommand(ref: string, options: PersonasOptions): Promise<void> {
+  try {
+    const { entry, version, record } = await openLibrary(options).show(ref);
+
+    if (options.json ?? false) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify({ entry, version, record }, null, 2));
+      return;
+    }
+
+    const { provenance } = record;
+    const lines = [
+      `Persona:   ${entry.id}@${version.version} (${entry.versions.length} versions)`,
+      `Archetype: ${record.persona.archetype}`,
+      `Hash:      ${version.hash}`,
+      `Created:   ${version.createdAt}`,
+      `Tags:      ${version.tags.length > 0 ? version.tags.join(', ') : '-'}`,
+    ];
+    if (entry.retired !== undefined) {
+      lines.push(
+        `Retired:   ${entry.retired.at}${entry.retired.reason !== undefined ? ` (${entry.retired.reason})` : ''}`
+      );
+    }
+    if (provenance.generator !== undefined) {
+      lines.push(
+        `Model:     ${provenance.generator.model}`,
+        `Prompt:    ${provenance.generator.promptSha256.slice(0, 12)}`
+      );
+    }
+    if (provenance.diversity !== undefined) {
+      lines.push(`Diversity: ${(provenance.diversity.diversityScore * 100).toFixed(1)}%`);
+    }
+    lines.push(
+      '',
+      `Sources (${provenance.sources.length}):`,
+      TableFormatter.format(
+        provenance.sources.map((source) => ({
+          name: source.name,
+          sha256: source.sha256.slice(0, 12),
+        }))
+      ),
+      '',
+      JSON.stringify(record.persona, null, 2)
+    );
+
+    // eslint-disable-next-line no-console
+    console.log(lines.join('\n'));
+  } catch (error) {
+    ErrorHandler.handle(toCLIError(error), Boolean(options.verbose));
+  }
+}
+
+/**
+ * Show the fields that differ between two persona versions
+ * @param fromRef - Reference of the older version
+ * @param toRef - Reference of the newer version
+ * @param options - Command options
+ */
+export async function personasDiffCommand(
+  fromRef: string,
+  toRef: string,
+  options: PersonasOptions
+): Promise<void> {
+  try {
+    const diff = await openLibrary(options).diff(fromRef, toRef);
+
+    if (options.json ?? false) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(diff, null, 2));
+      return;
+    }
+
+    const header = `${diff.from.id}@${diff.from.version} -> ${diff.to.id}@${diff.to.version}`;
+    // eslint-disable-next-line no-console
+    console.log(
+      diff.changes.length === 0
+        ? `${header}: no differences`
+        : [
+            header,
+            '',
+            TableFormatter.format(
+              diff.changes.map((change) => ({
+                field: change.field,
+                before: TableFormatter.cell(change.before),
+                after: TableFormatter.cell(change.after),
+              }))
+            ),
+          ].join('\n')
+    );
+  } catch (error) {
+    ErrorHandler.handle(toCLIError(error), Boolean(options.verbose));
+  }
+}
+
+/**
+ * Retire a persona so simulations stop using it
+ * @param id - Persona ID
+ * @param options - Command options
+ */
+export async function personasRetireCommand(
+  id: string,
+  options: PersonasRetireOptions
+): Promise<void> {
+  try {
+    const logger = new Logger(Boolean(options.verbose));
+    const entry = await openLibrary(options).retire(id, options.reason);
+
+    if (options.json ?? false) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(entry, null, 2));
+    } else {
+      logger.success(`Retired ${entry.id}`);
+    }
+  } catch (error) {
+    ErrorHandler.handle(toCLIError(error), Boolean(options.verbose));
+  }
+}
+
+/**
+ * Tag a persona version, e.g. to pin the set a simulation uses
+ * @param ref - Persona reference
+ * @param tag - Tag name
+ * @param options - Command options
+ */
+export async function personasTagCommand(
+  ref: string,
+  tag: string,
+  options: PersonasOptions
+): Promise<void> {
+  try {
+    const logger = new Logger(Boolean(options.verbose));
+    const version = await openLibrary(options).tag(ref, tag);
+
+    if (options.json ?? false) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(version, null, 2));
+    } else {
+      logger.success(`Tagged ${ref} (version ${version.version}) as ${tag}`);
+    }
+  } catch (error) {
+    ErrorHandler.handle(toCLIError(error), Boolean(options.verbose));
+  }
+}
+
+/**
+ * Build personas from a CSV survey or analytics segment export
+ * @param csvFile - CSV file with one row per respondent or segment
+ * @param options - Command options
+ */
+export async function personasImportCommand(
+  csvFile: string,
+  options: PersonasImportOptions
+): Promise<void> {
+  try {
+    const logger = new Logger(Boolean(options.verbose));
+    const csv = readInput(csvFile);
+    const mappingText = readInput(options.mapping);
+
+    let mapping: PersonaImportMappingInput;
+    try {
+      mapping = JSON.parse(mappingText) as PersonaImportMappingInput;
+    } catch (error) {
+      throw new ConfigError(
+        `Invalid JSON in mapping file: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    const importer = new PersonaImporter(mapping);
+
+    let generator: PersonaGenerator | undefined;
+    if (options.llm ?? false) {
+      const apiKey = process.env['ANTHROPIC_API_KEY'] ?? '';
+      if (apiKey.length === 0) {
+        throw new ConfigError('ANTHROPIC_API_KEY is required to fill persona gaps with --llm');
+      }
+      generator = new PersonaGenerator(apiKey);
+    }
+
+    logger.info(`Importing ${options.count} personas from ${csvFile}...`);
+    let result: PersonaImportResult;
+    try {
+      result = await importer.importCsv(csv, options.count, {
+        ...(generator !== undefined && { generator }),
+        sourceName: path.basename(csvFile),
+      });
+    } catch (error) {
+      if (error instanceof PersonaImportError) {
+        throw error;
+      }
+      throw new SimulationError(
+        `Persona gap filling failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const outputPath = path.resolve(options.output ?? './personas.json');
+    try {
+      fs.writeFileSync(outputPath, JSON.stringify(result.personas, null, 2), 'utf-8');
+    } catch (error) {
+      throw new SimulationError(
+        `Failed to write personas file: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (options.library !== undefined) {
+      const saved = await new PersonaLibrary(options.library).save(result.personas, {
+        sources: [
+          describeSource(path.basename(csvFile), csv),
+          describeSource(path.basename(options.mapping), mappingText),
+        ],
+        ...(generator !== undefined && {
+          generator: generator.getGenerationInfo(result.personas.length),
+        }),
+      });
+      logger.debug(
+        `Saved ${saved.filter((entry) => entry.created).length} new persona versions to ${options.library}`
+      );
+    }
+
+    if (options.json ?? false) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(TableFormatter.format(result.segments.map((segment) => ({ ...segment }))));
+    result.warnings.forEach((warning) => logger.warn(warning));
+    logger.success(
+      `Imported ${result.personas.length} personas (gaps filled with ${result.gapFill === 'llm' ? 'LLM' : 'defaults'})`
+    );
+    logger.info(`Saved to: ${outputPath}`);
+  } catch (error) {
+    ErrorHandler.handle(toCLIError(error), Boolean(options.verbose));
+  }
+}
+
+/**
+ * Build personas from RGS web-signal insights
+ * The input is an RGS insight (`rgs analyze` output), an array of insights or
+ * an RGS report with its signals. Signals are read from --signals when given.
+ * @param inputFile - RGS insight or report JSON file
+ * @param options - Command options
+ */
+export async function personasGroundCommand(
+  inputFile: string,
+  options: PersonasGroundOptions
+): Promise<void> {
+  try {
+    const logger = new Logger(Boolean(options.verbose));
+    const inputText = readInput(inputFile);
+    const signalsText = options.signals !== undefined ? readInput(options.signals) : undefined;
+    const input = parseJson(inputText, inputFile);
+    const signals =
+      signalsText !== undefined ? parseJson(signalsText, options.signals!) : undefined;
+    if (signals !== undefined && !Array.isArray(signals)) {
+      throw new ValidationError('Invalid RGS signals', [
+        `${options.signals!} must contain an array`,
+      ]);
+    }
+
+    let generator: PersonaGenerator | undefined;
+    if (options.llm ?? false) {
+      const apiKey = process.env['ANTHROPIC_API_KEY'] ?? '';
+      if (apiKey.length === 0) {
+        throw new ConfigError('ANTHROPIC_API_KEY is required to fill persona gaps with --llm');
+      }
+      generator = new PersonaGenerator(apiKey);
+    }
+
+    const json = options.json ?? false;
+    if (!json) {
+      logger.info(`Grounding ${options.count} personas in ${inputFile}...`);
+    }
+    const grounder = new PersonaGrounder();
+    const groundingOptions = { ...(generator !== undefined && { generator }) };
+    let result: PersonaGroundingResult;
+    try {
+      if (Array.isArray(input) || isInsight(input)) {
+        if (signals === undefined && !json) {
+          logger.warn('No --signals given; personas will not record supporting signals');
+        }
+        result = await grounder.fromInsights(
+          Array.isArray(input) ? input : [input],
+          signals ?? [],
+          options.count,
+          groundingOptions
+        );
+      } else {
+        result = await grounder.fromReport(
+          signals !== undefined ? { ...(input as object), signals } : input,
+          options.count,
+          groundingOptions
+        );
+      }
+    } catch (error) {
+      if (error instanceof PersonaGroundingError) {
+        throw error;
+      }
+      throw new SimulationError(
+        `Persona gap filling failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const outputPath = path.resolve(options.output ?? './personas.json');
+    try {
+      fs.writeFileSync(outputPath, JSON.stringify(result.personas, null, 2), 'utf-8');
+    } catch (error) {
+      throw new SimulationError(
+        `Failed to write personas file: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (options.library !== undefined) {
+      const saved = await new PersonaLibrary(options.library).save(result.personas, {
+        sources: [
+          describeSource(path.basename(inputFile), inputText),
+          ...(signalsText !== undefined
+            ? [describeSource(path.basename(options.signals!), signalsText)]
+            : []),
+        ],
+        ...(generator !== undefined && {
+          generator: generator.getGenerationInfo(result.personas.length),
+        }),
+      });
+      logger.debug(
+        `Saved ${saved.filter((entry) => entry.created).length} new persona versions to ${options.library}`
+      );
+    }
+
+    if (json) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(
+      TableFormatter.format(
+        result.personas.map((persona) => ({
+          id: persona.id,
+          painPoints: persona.painPoints.join(', '),
+          goals: persona.goals.join(', '),
+          signals: result.grounding[persona.id]?.length ?? 0,
+        }))
+      )
+    );
+    result.warnings.forEach((warning) => logger.warn(warning));
+    logger.success(
+      `Grounded ${result.personas.length} personas in ${result.needs.length} pain points and desires (gaps filled with ${result.gapFill === 'llm' ? 'LLM' : 'defaults'})`
+    );
+    logger.info(`Saved to: ${outputPath}`);
+  } catch (error) {
+    ErrorHandler.handle(toCLIError(error), Boolean(options.verbose));
+  }
+}
+
+/**
+ * Parse an input file of the ground command
+ * @throws {ValidationError} If the file is not valid JSON
+ */
+function parseJson(text: string, file: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch (error) {
+    throw new ValidationError(`Invalid JSON in ${file}`, [
+      error instanceof Error ? error.message : String(error),
+    ]);
+  }
+}
+
+/**
+ * Check whether parsed RGS data is a single insight rather than a report
+ */
+function isInsight(data: unknown): boolean {
+  return typeof data === 'object' && data !== null && 'painPoints' in data && 'desires' in data;
+}
+
+/**
+ * Read an input file of the import and ground commands
+ */
+function readInput(file: string): string {
+  const absolutePath = path.resolve(file);
+  if (!fs.existsSync(absolutePath)) {
+    throw new FileNotFoundError(absolutePath);
+  }
+  return fs.readFileSync(absolutePath, 'utf-8');
+}
+
+/**
+ * Open the library selected by the command options
+ */
+function openLibrary(options: PersonasOptions): PersonaLibrary {
+  return new PersonaLibrary(options.library ?? DEFAULT_LIBRARY);
+}
+
+/**
+ * Report persona library errors as configuration errors and import errors as validation errors
+ */
+function toCLIError(error: unknown): unknown {
+  if (error instanceof PersonaLibraryError) {
+    return new ConfigError(error.message);
+  }
+  if (error instanceof PersonaImportError || error instanceof PersonaGroundingError) {
+    return new ValidationError(error.message, []);
+  }
+  return error;
+}
+
+/**
+ * Register personas commands with Commander
+ * @param program - Commander program
+ */
+export function registerPersonasCommand(program: Command): void {
+  const personas = program.command('personas').description('Inspect and curate a persona library');
+  const libraryOption = [
+    '-l, --library <dir>',
+    `Persona library (default: ${DEFAULT_LIBRARY})`,
+  ] as const;
+
+  personas
+    .command('list')
+    .description('List library personas')
+    .option(...libraryOption)
+    .option('-t, --tag <tag>', 'Only personas with a version carrying this tag')
+    .option('-a, --all', 'Include retired personas')
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(personasListCommand);
+
+  personas
+    .command('show <ref>')
+    .description('Show a persona version and its provenance (<id>, <id>@<version|tag> or hash)')
+    .option(...libraryOption)
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(personasShowCommand);
+
+  personas
+    .command('diff <from> <to>')
+    .description('Show the fields that differ between two persona versions')
+    .option(...libraryOption)
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(personasDiffCommand);
+
+  personas
+    .command('retire <id>')
+    .description('Retire a persona so simulations stop using it')
+    .option(...libraryOption)
+    .option('-r, --reason <text>', 'Reason for retiring')
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(personasRetireCommand);
+
+  personas
+    .command('tag <ref> <tag>')
+    .description('Tag a persona version')
+    .option(...libraryOption)
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(personasTagCommand);
+
+  personas
+    .command('import <csv>')
+    .description('Build personas from a CSV survey or analytics segment export')
+    .requiredOption('-m, --mapping <file>', 'JSON mapping from CSV columns to persona fields')
+    .requiredOption('-n, --count <number>', 'Number of personas to build', parseInt)
+    .option('-o, --output <file>', 'Output file (default: ./personas.json)')
+    .option('-l, --library <dir>', 'Also save the personas to this persona library')
+    .option('--llm', 'Fill fields the data does not provide with Claude instead of defaults')
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(personasImportCommand);
+
+  personas
+    .command('ground <file>')
+    .description('Build personas from RGS web-signal insights or reports')
+    .requiredOption('-n, --count <number>', 'Number of personas to build', parseInt)
+    .option('-s, --signals <file>', 'RGS signals the insights were drawn from (JSON array)')
+    .option('-o, --output <file>', 'Output file (default: ./personas.json)')
+    .option('-l, --library <dir>', 'Also save the personas to this persona library')
+    .option('--llm', 'Fill fields the signals do not provide with Claude instead of defaults')
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(personasGroundCommand);
+}
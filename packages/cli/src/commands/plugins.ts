@@ -0,0 +1,145 @@
+/**
+ * Plugins command - List and inspect product plugins
+ */
+
+import { Command } from 'commander';
+import { ErrorHandler } from '../errors';
+import { Logger } from '../progress';
+import { TableFormatter } from '../output';
+import { PluginRegistry, type LoadedPlugin, type PluginInfo } from '../runner';
+
+/**
+ * Options for plugins commands
+ */
+export interface PluginsOptions {
+  verbose?: boolean;
+  json?: boolean;
+}
+
+/**
+ * List installed @suts/plugin-* packages
+ * Plugins that fail to load are skipped with a warning.
+ * @param options - Command options
+ */
+export async function pluginsListCommand(options: PluginsOptions): Promise<void> {
+  try {
+    const logger = new Logger(Boolean(options.verbose));
+
+    const plugins: PluginInfo[] = [];
+    for (const directory of PluginRegistry.discover()) {
+      logger.debug(`Loading plugin from ${directory}`);
+      try {
+        plugins.push(toInfo(await PluginRegistry.load(directory)));
+      } catch (error) {
+        logger.warn(
+          `Skipping ${directory}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    const rows = plugins.map((plugin) => ({
+      name: plugin.name,
+      version: plugin.version,
+      adapter: plugin.adapterKind,
+      personas: plugin.personaTemplates.length,
+      scenarios: plugin.scenarios.length,
+      description: plugin.description,
+    }));
+
+    // eslint-disable-next-line no-console
+    console.log(
+      (options.json ?? false) ? JSON.stringify(rows, null, 2) : TableFormatter.format(rows)
+    );
+  } catch (error) {
+    ErrorHandler.handle(error, Boolean(options.verbose));
+  }
+}
+
+/**
+ * Show a plugin's adapter, persona templates and scenarios
+ * @param product - Short plugin name, package name or local path
+ * @param options - Command options
+ */
+export async function pluginInfoCommand(product: string, options: PluginsOptions): Promise<void> {
+  try {
+    const plugin = toInfo(await PluginRegistry.load(product));
+
+    if (options.json ?? false) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(plugin, null, 2));
+      return;
+    }
+
+    const lines = [
+      `Plugin:      ${plugin.name}`,
+      `Source:      ${plugin.source}`,
+      `Version:     ${plugin.version ?? 'unknown'}`,
+      `Adapter:     ${plugin.adapterKind === 'simple' ? 'ISimpleProductAdapter' : 'IProductAdapter'}`,
+    ];
+    if (plugin.description !== undefined) {
+      lines.push(`Description: ${plugin.description}`);
+    }
+    lines.push(
+      '',
+      `Persona templates (${plugin.personaTemplates.length}):`,
+      TableFormatter.format(
+        plugin.personaTemplates.map((persona) => ({
+          id: persona.id,
+          archetype: persona.archetype,
+          role: persona.role,
+          experience: persona.experienceLevel,
+        }))
+      ),
+      '',
+      `Scenarios (${plugin.scenarios.length}):`,
+      TableFormatter.format(
+        plugin.scenarios.map((scenario) => ({
+          id: scenario.id,
+          name: scenario.name,
+          actions: scenario.actions.length,
+          outcomes: plugin.expectedOutcomes.filter((outcome) => outcome.scenario === scenario.id)
+            .length,
+          personas: scenario.targetPersonas?.join(', '),
+        }))
+      )
+    );
+
+    // eslint-disable-next-line no-console
+    console.log(lines.join('\n'));
+  } catch (error) {
+    ErrorHandler.handle(error, Boolean(options.verbose));
+  }
+}
+
+/**
+ * Drop the adapter instance and red flag function from a loaded plugin
+ */
+function toInfo({
+  adapter: _adapter,
+  identifyRedFlags: _identifyRedFlags,
+  ...info
+}: LoadedPlugin): PluginInfo {
+  return info;
+}
+
+/**
+ * Register plugins commands with Commander
+ * @param program - Commander program
+ */
+export function registerPluginsCommand(program: Command): void {
+  const plugins = program.command('plugins').description('List and inspect product plugins');
+
+  plugins
+    .command('list')
+    .description('List installed @suts/plugin-* packages')
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(pluginsListCommand);
+
+  plugins
+    .command('info <plugin>')
+    .description('Show the adapter, persona templates and scenarios a plugin provides')
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(pluginInfoCommand);
+}
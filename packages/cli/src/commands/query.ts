@@ -0,0 +1,135 @@
+/**
+ * Query command - Filter and aggregate telemetry events
+ */
+
+import { Command } from 'commander';
+import {
+  QueryParser,
+  QuerySyntaxError,
+  type AggregateRow,
+  type IEventStore,
+  type TelemetryEvent,
+} from '@suts/telemetry';
+import { ErrorHandler, ValidationError } from '../errors';
+import { Logger } from '../progress';
+import { CsvFormatter, TableFormatter } from '../output';
+import { EventStoreLoader } from '../runner';
+
+/**
+ * Output formats of the query command
+ */
+const QUERY_FORMATS = ['table', 'json', 'csv'] as const;
+
+/**
+ * Options for query command
+ */
+export interface QueryOptions {
+  events: string;
+  format?: string;
+  verbose?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Query command handler
+ * @param query - Query text, e.g. "avg(frustration) group by action"
+ * @param options - Command options
+ */
+export function queryCommand(query: string, options: QueryOptions): void {
+  let store: IEventStore | undefined;
+  try {
+    const logger = new Logger(Boolean(options.verbose));
+    const format = (options.json ?? false) ? 'json' : (options.format ?? 'table');
+    if (!(QUERY_FORMATS as readonly string[]).includes(format)) {
+      throw new ValidationError(`Invalid format: ${format}`, [
+        `Use one of: ${QUERY_FORMATS.join(', ')}`,
+      ]);
+    }
+
+    store = EventStoreLoader.openFile(options.events);
+    logger.debug(`Loaded ${store.count()} events from ${options.events}`);
+
+    const rows = runQuery(query, store);
+    logger.debug(`Query returned ${rows.length} rows`);
+
+    // eslint-disable-next-line no-console
+    console.log(formatRows(rows, format));
+  } catch (error) {
+    ErrorHandler.handle(error, Boolean(options.verbose));
+  } finally {
+    store?.close?.();
+  }
+}
+
+/**
+ * Parse and execute a query
+ * @param query - Query text
+ * @param store - Event store to query
+ * @returns Aggregate rows, or matching events
+ */
+function runQuery(query: string, store: IEventStore): Array<AggregateRow | TelemetryEvent> {
+  try {
+    const builder = QueryParser.parse(query, store);
+    return builder.isAggregate() ? builder.executeAggregate() : builder.execute();
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      throw new ValidationError('Invalid query', [error.message]);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Render query results
+ * Events are flattened to one column per emotional metric for table and CSV output.
+ * @param rows - Aggregate rows or events
+ * @param format - Output format
+ * @returns Rendered results
+ */
+function formatRows(rows: Array<AggregateRow | TelemetryEvent>, format: string): string {
+  if (format === 'json') {
+    return JSON.stringify(rows, null, 2);
+  }
+
+  const flat = rows.map((row) => (isEvent(row) ? flattenEvent(row) : row));
+  return format === 'csv' ? CsvFormatter.formatRows(flat).trimEnd() : TableFormatter.format(flat);
+}
+
+/**
+ * Check whether a result row is a raw event
+ */
+function isEvent(row: AggregateRow | TelemetryEvent): row is TelemetryEvent {
+  return row['timestamp'] instanceof Date;
+}
+
+/**
+ * Flatten an event into table columns
+ */
+function flattenEvent(event: TelemetryEvent): Record<string, unknown> {
+  return {
+    timestamp: event.timestamp.toISOString(),
+    personaId: event.personaId,
+    eventType: event.eventType,
+    action: event.action,
+    cohort: event.cohort,
+    ...event.emotionalState,
+  };
+}
+
+/**
+ * Register query command with Commander
+ * @param program - Commander program
+ */
+export function registerQueryCommand(program: Command): void {
+  program
+    .command('query <query>')
+    .description('Filter and aggregate telemetry events')
+    .requiredOption(
+      '-e, --events <file>',
+      'Events file: events.json, an NDJSON store or a SQLite store'
+    )
+    .option('-f, --format <format>', 'Output format: table, json or csv (default: table)')
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON (same as --format json)')
+    .action(queryCommand);
+}
@@ -3,18 +3,40 @@
  */
 
 import { Command } from 'commander';
-import { ConfigLoader, SutsConfig } from '../config';
+import type { ISimpleProductAdapter, PersonaProfile } from '@suts/core';
+import {
+  CheckpointManager,
+  SimulationEngine,
+  type SimulationCheckpoint,
+  type SimulationEngineConfig,
+  type SimulationState,
+} from '@suts/simulation';
+import { MetricsCalculator, type TelemetryEvent } from '@suts/telemetry';
+import { AnalysisEngine } from '@suts/analysis';
+import { GoNoGoEngine } from '@suts/decision';
+import { ConfigLoader, SutsConfig, ThresholdConfigSchema } from '../config';
 import { StatusReporter } from '../progress';
 import {
   ResultsWriter,
   SummaryGenerator,
   SimulationResults,
-  PersonaData,
-  EventData,
   FrictionPoint,
   ValueMoment,
 } from '../output';
-import { ErrorHandler } from '../errors';
+import { ErrorHandler, SimulationError } from '../errors';
+import {
+  Calibrator,
+  DecisionProviderLoader,
+  EventStoreLoader,
+  PersonaLoader,
+  ProductLoader,
+  ResultsMapper,
+} from '../runner';
+
+/**
+ * Seed used when the configuration does not specify one
+ */
+const DEFAULT_SEED = 42;
 
 /**
  * Options for run command
@@ -25,8 +47,10 @@ export interface RunOptions {
   personas?: number;
   days?: number;
   product?: string;
+  seed?: number;
   verbose?: boolean;
   json?: boolean;
+  resume?: string;
 }
 
 /**
@@ -49,11 +73,14 @@ export async function runCommand(options: RunOptions): Promise<void> {
     reporter.getLogger().debug(`Configuration: ${JSON.stringify(config)}`);
 
     // Execute simulation phases
-    const results = await executeSimulation(config, reporter);
+    const results = await executeSimulation(config, reporter, options.resume);
 
     // Write results
     const outputDir = options.output ?? config.output?.directory ?? './suts-output';
-    const writer = new ResultsWriter(outputDir);
+    const writer = new ResultsWriter(outputDir, {
+      format: config.output?.format ?? 'json',
+      generateReport: config.output?.generateReport ?? false,
+    });
     writer.writeResults(results);
 
     // Display summary
@@ -86,8 +113,8 @@ function loadConfiguration(options: RunOptions): SutsConfig {
   if (options.days !== undefined) {
     config.simulation.days = options.days;
   }
-  if (options.product !== undefined) {
-    config.simulation.product = options.product;
+  if (options.seed !== undefined) {
+    config.simulation.seed = options.seed;
   }
   if (options.output !== undefined) {
     if (config.output === undefined) {
@@ -97,6 +124,14 @@ function loadConfiguration(options: RunOptions): SutsConfig {
     }
   }
 
+  // File paths are relative to the configuration file
+  ConfigLoader.resolvePaths(config, options.config);
+
+  // A product given on the command line is relative to the working directory
+  if (options.product !== undefined) {
+    config.simulation.product = options.product;
+  }
+
   return config;
 }
 
@@ -104,38 +139,62 @@ function loadConfiguration(options: RunOptions): SutsConfig {
  * Execute the complete simulation
  * @param config - Simulation configuration
  * @param reporter - Status reporter
+ * @param resumePath - Checkpoint to continue from instead of starting a new run
  * @returns Simulation results
  */
 async function executeSimulation(
   config: SutsConfig,
-  reporter: StatusReporter
+  reporter: StatusReporter,
+  resumePath?: string
 ): Promise<SimulationResults> {
   const startTime = new Date();
 
-  // Phase 1: Generate personas
+  // Phase 1: Load product plugin and personas, or the checkpoint holding them
   reporter.startOperation(4, 'Simulation');
-  reporter.updateProgress(1, 'Generating personas...');
-  const personas = await generatePersonas(config, reporter);
-
-  // Phase 2: Run simulation
-  reporter.updateProgress(2, 'Running simulation...');
-  const events = await runSimulation(config, personas, reporter);
+  let personas: PersonaProfile[];
+  let state: SimulationState;
+  if (resumePath !== undefined) {
+    reporter.updateProgress(1, 'Loading checkpoint...');
+    const adapter = await ProductLoader.load(config.simulation.product);
+    const checkpoint = await loadCheckpoint(resumePath);
+    personas = checkpoint.personas;
+    config.simulation.days = checkpoint.totalDays;
+    reporter
+      .getLogger()
+      .debug(`Resuming after day ${checkpoint.completedDay} of ${checkpoint.totalDays}`);
+
+    // Phase 2: Run the remaining days
+    reporter.updateProgress(2, 'Resuming simulation...');
+    state = await runSimulation(
+      config,
+      reporter,
+      adapter,
+      (engine) => engine.resume(resumePath),
+      checkpoint
+    );
+  } else {
+    reporter.updateProgress(1, 'Generating personas...');
+    const adapter = await ProductLoader.load(config.simulation.product);
+    personas = await PersonaLoader.load(config, reporter.getLogger());
+    reporter.getLogger().debug(`Loaded ${personas.length} personas`);
+
+    // Phase 2: Run simulation
+    reporter.updateProgress(2, 'Running simulation...');
+    const product = adapter.getInitialState();
+    state = await runSimulation(config, reporter, adapter, (engine) =>
+      engine.run(personas, product, config.simulation.days)
+    );
+  }
+  const telemetry = ResultsMapper.toTelemetryEvents(state.events);
+  storeEvents(config, telemetry, reporter);
 
   // Phase 3: Analyze results
   reporter.updateProgress(3, 'Analyzing results...');
-  const { frictionPoints, valueMoments } = await analyzeResults(
-    events,
-    reporter
-  );
+  const { frictionPoints, valueMoments } = analyzeResults(telemetry, reporter);
 
   // Phase 4: Generate decision
   reporter.updateProgress(4, 'Generating go/no-go decision...');
-  const goNoGo = await generateDecision(
-    frictionPoints,
-    valueMoments,
-    config,
-    reporter
-  );
+  const goNoGo = generateDecision(state, telemetry, config, reporter);
 
   reporter.completeOperation('Simulation completed successfully');
 
@@ -144,15 +203,15 @@ async function executeSimulation(
     startTime,
     endTime,
     personas.length,
-    events.length,
+    state.events.length,
     config.simulation.days,
     config.simulation.product
   );
 
   return {
     summary,
-    personas,
-    events,
+    personas: ResultsMapper.toPersonaData(personas),
+    events: ResultsMapper.toEventData(state.events),
     frictionPoints,
     valueMoments,
     goNoGo,
@@ -160,110 +219,138 @@ async function executeSimulation(
 }
 
 /**
- * Generate personas (mocked for now)
- * @param config - Configuration
- * @param reporter - Status reporter
- * @returns Generated personas
+ * Load a checkpoint to resume from
+ * @param checkpointPath - Checkpoint file
+ * @returns Parsed checkpoint
  */
-async function generatePersonas(
-  config: SutsConfig,
-  reporter: StatusReporter
-): Promise<PersonaData[]> {
-  reporter.getLogger().debug(`Generating ${config.simulation.personas} personas`);
-
-  // Mock persona generation
-  const personas: PersonaData[] = [];
-  for (let i = 0; i < config.simulation.personas; i++) {
-    personas.push({
-      id: `persona-${i + 1}`,
-      name: `User ${i + 1}`,
-      background: `Background for user ${i + 1}`,
-      goals: ['Goal 1', 'Goal 2'],
-    });
+async function loadCheckpoint(checkpointPath: string): Promise<SimulationCheckpoint> {
+  try {
+    return await CheckpointManager.load(checkpointPath);
+  } catch (error) {
+    throw new SimulationError(
+      `Cannot resume: ${error instanceof Error ? error.message : String(error)}`
+    );
   }
-
-  // Simulate processing time
-  await new Promise((resolve) => setTimeout(resolve, 100));
-
-  reporter.getLogger().debug(`Generated ${personas.length} personas`);
-  return personas;
 }
 
 /**
- * Run simulation (mocked for now)
+ * Run the simulation engine
  * @param config - Configuration
- * @param personas - Personas to simulate
  * @param reporter - Status reporter
- * @returns Simulation events
+ * @param adapter - Product adapter driving the simulated product
+ * @param execute - Starts or resumes the run on the configured engine
+ * @param checkpoint - Checkpoint being resumed, whose seed applies unless one is configured
+ * @returns Final simulation state
  */
 async function runSimulation(
   config: SutsConfig,
-  personas: PersonaData[],
-  reporter: StatusReporter
-): Promise<EventData[]> {
+  reporter: StatusReporter,
+  adapter: ISimpleProductAdapter,
+  execute: (engine: SimulationEngine) => Promise<SimulationState>,
+  checkpoint?: SimulationCheckpoint
+): Promise<SimulationState> {
+  const seed = config.simulation.seed ?? checkpoint?.seed ?? DEFAULT_SEED;
   reporter
     .getLogger()
-    .debug(`Running simulation for ${config.simulation.days} days`);
-
-  // Mock simulation
-  const events: EventData[] = [];
-  const eventsPerPersona = config.simulation.days * 5; // 5 events per day
-
-  for (const persona of personas) {
-    for (let i = 0; i < eventsPerPersona; i++) {
-      events.push({
-        id: `event-${persona.id}-${i + 1}`,
-        personaId: persona.id,
-        timestamp: new Date(Date.now() + i * 1000).toISOString(),
-        eventType: 'action',
-        action: 'use_feature',
-        context: { feature: 'main' },
-      });
-    }
+    .debug(`Running simulation for ${config.simulation.days} days (seed ${seed})`);
+
+  const behavior =
+    config.simulation.behavior !== undefined
+      ? Calibrator.toBehaviorParameters(config.simulation.behavior)
+      : undefined;
+  const engineConfig: SimulationEngineConfig = {
+    seed,
+    productAdapter: adapter,
+  };
+  if (behavior !== undefined) {
+    engineConfig.behavior = behavior;
+  }
+  const decisions = config.simulation.decisions;
+  // Replay never calls the configured provider, so recorded LLM runs replay offline
+  if (decisions?.mode !== 'replay') {
+    reporter.getLogger().debug(`Decision provider: ${config.simulation.decisionProvider}`);
+    engineConfig.decisionProvider = DecisionProviderLoader.load(
+      config.simulation.decisionProvider,
+      seed,
+      behavior
+    );
+  }
+  if (decisions !== undefined) {
+    reporter.getLogger().debug(`Decision ${decisions.mode}: ${decisions.file}`);
+    engineConfig.decisionRecording = { mode: decisions.mode, path: decisions.file };
   }
+  const checkpointConfig = config.simulation.checkpoint;
+  if (checkpointConfig !== undefined) {
+    reporter
+      .getLogger()
+      .debug(`Checkpointing every ${checkpointConfig.interval} days: ${checkpointConfig.file}`);
+    engineConfig.checkpoint = {
+      path: checkpointConfig.file,
+      interval: checkpointConfig.interval,
+    };
+  }
+  const engine = new SimulationEngine(engineConfig);
+
+  try {
+    const state = await execute(engine);
+    reporter.getLogger().debug(`Generated ${state.events.length} events`);
+    return state;
+  } catch (error) {
+    throw new SimulationError(
+      `Simulation failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
 
-  // Simulate processing time
-  await new Promise((resolve) => setTimeout(resolve, 200));
+/**
+ * Persist telemetry events to the configured event store
+ * File-backed stores are replaced on each run, like the other output files.
+ * @param config - Configuration with the telemetry store
+ * @param events - Telemetry events
+ * @param reporter - Status reporter
+ */
+function storeEvents(
+  config: SutsConfig,
+  events: TelemetryEvent[],
+  reporter: StatusReporter
+): void {
+  const outputDir = config.output?.directory ?? './suts-output';
+  const file = EventStoreLoader.resolveFile(config.telemetry, outputDir);
+  if (file === undefined) {
+    return;
+  }
 
-  reporter.getLogger().debug(`Generated ${events.length} events`);
-  return events;
+  const store = EventStoreLoader.open(config.telemetry, outputDir);
+  try {
+    store.clear();
+    store.storeBatch(events);
+  } finally {
+    store.close?.();
+  }
+  reporter.getLogger().debug(`Stored ${events.length} events in ${file}`);
 }
 
 /**
- * Analyze results (mocked for now)
- * @param events - Simulation events
+ * Analyze simulation telemetry
+ * @param events - Telemetry events
  * @param reporter - Status reporter
  * @returns Friction points and value moments
  */
-async function analyzeResults(
-  events: EventData[],
+function analyzeResults(
+  events: TelemetryEvent[],
   reporter: StatusReporter
-): Promise<{ frictionPoints: FrictionPoint[]; valueMoments: ValueMoment[] }> {
+): { frictionPoints: FrictionPoint[]; valueMoments: ValueMoment[] } {
   reporter.getLogger().debug(`Analyzing ${events.length} events`);
 
-  // Mock analysis
-  const frictionPoints: FrictionPoint[] = [
-    {
-      id: 'friction-1',
-      description: 'Complex onboarding process',
-      severity: 0.7,
-      frequency: 0.3,
-      affectedPersonas: ['persona-1', 'persona-2'],
-    },
-  ];
-
-  const valueMoments: ValueMoment[] = [
-    {
-      id: 'value-1',
-      description: 'Successful feature usage',
-      impact: 0.8,
-      frequency: 0.6,
-      affectedPersonas: ['persona-1', 'persona-2', 'persona-3'],
-    },
-  ];
-
-  // Simulate processing time
-  await new Promise((resolve) => setTimeout(resolve, 150));
+  const engine = new AnalysisEngine();
+  const frictionPoints = ResultsMapper.toFrictionPoints(
+    engine.analyzeFriction(events),
+    events
+  );
+  const valueMoments = ResultsMapper.toValueMoments(
+    engine.analyzeValue(events),
+    events
+  );
 
   reporter
     .getLogger()
@@ -274,35 +361,39 @@ async function analyzeResults(
 }
 
 /**
- * Generate go/no-go decision (mocked for now)
- * @param frictionPoints - Detected friction points
- * @param valueMoments - Detected value moments
+ * Generate go/no-go decision
+ * @param state - Final simulation state
+ * @param events - Telemetry events
  * @param config - Configuration with thresholds
  * @param reporter - Status reporter
  * @returns Go/No-Go decision
  */
-async function generateDecision(
-  _frictionPoints: FrictionPoint[],
-  _valueMoments: ValueMoment[],
-  _config: SutsConfig,
+function generateDecision(
+  state: SimulationState,
+  events: TelemetryEvent[],
+  config: SutsConfig,
   reporter: StatusReporter
-): Promise<SimulationResults['goNoGo']> {
+): SimulationResults['goNoGo'] {
   reporter.getLogger().debug('Generating go/no-go decision');
 
-  // Mock decision based on thresholds (TODO: use actual analysis data)
-  const positioningScore = Math.max(0.65, Math.random() * 0.4 + 0.5);
-  const retentionScore = Math.max(0.75, Math.random() * 0.3 + 0.6);
-  const viralScore = Math.max(0.2, Math.random() * 0.4 + 0.15);
+  const thresholds = config.thresholds ?? ThresholdConfigSchema.parse({});
+  const metrics = ResultsMapper.calculateMetrics(state, events);
+  const engine = new GoNoGoEngine({
+    thresholds: {
+      minRetentionRate: thresholds.retention,
+      maxChurnRate: 1 - thresholds.retention,
+      minConfidence: 0.8,
+      minSampleSize: 100,
+    },
+  });
 
-  const decision = SummaryGenerator.generateGoNoGoDecision(
-    positioningScore,
-    retentionScore,
-    viralScore
+  const decision = ResultsMapper.toGoNoGoDecision(
+    engine.decide(metrics),
+    metrics,
+    new MetricsCalculator().calculateViralCoefficient(events),
+    thresholds
   );
 
-  // Simulate processing time
-  await new Promise((resolve) => setTimeout(resolve, 100));
-
   reporter.getLogger().debug(`Decision: ${decision.decision}`);
   return decision;
 }
@@ -320,6 +411,8 @@ export function registerRunCommand(program: Command): void {
     .option('-p, --personas <number>', 'Number of personas to generate', parseInt)
     .option('-d, --days <number>', 'Number of simulation days', parseInt)
     .option('--product <plugin>', 'Product plugin to use')
+    .option('-s, --seed <number>', 'Random seed for a reproducible run', parseInt)
+    .option('--resume <checkpoint>', 'Resume an interrupted run from a checkpoint file')
     .option('-v, --verbose', 'Verbose logging')
     .option('-j, --json', 'Output JSON only (no progress bars)')
     .action(runCommand);
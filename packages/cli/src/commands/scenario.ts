@@ -0,0 +1,207 @@
+/**
+ * Scenario command - Run plugin scenarios as product regression gates
+ */
+
+import { Command } from 'commander';
+import { ConfigError, ErrorHandler, RegressionError, ValidationError } from '../errors';
+import { Logger } from '../progress';
+import { TableFormatter } from '../output';
+import {
+  PluginRegistry,
+  ScenarioRunner,
+  type DecisionProviderKind,
+  type ScenarioReport,
+} from '../runner';
+
+/**
+ * Defaults of the scenario run options
+ */
+const SCENARIO_DEFAULTS = {
+  days: 14,
+  runs: 5,
+  seed: 42,
+  tolerance: 0.2,
+  decisionProvider: 'rules' as DecisionProviderKind,
+};
+
+/**
+ * Decision providers a scenario can run with
+ */
+const DECISION_PROVIDERS: readonly DecisionProviderKind[] = ['rules', 'llm'];
+
+/**
+ * Options for scenario run command
+ */
+export interface ScenarioRunCommandOptions {
+  product: string;
+  days?: number;
+  runs?: number;
+  seed?: number;
+  tolerance?: number;
+  decisionProvider?: DecisionProviderKind;
+  verbose?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Scenario run command handler
+ * Exits with the regression exit code when a measured metric misses its
+ * expected value by more than the tolerance or a red flag is observed, and
+ * with the config error exit code when a persona had no metric to check.
+ * @param scenarioId - Scenario ID from the plugin's scenario library
+ * @param options - Command options
+ */
+export async function scenarioRunCommand(
+  scenarioId: string,
+  options: ScenarioRunCommandOptions
+): Promise<void> {
+  try {
+    const logger = new Logger(Boolean(options.verbose));
+    const runOptions = {
+      days: options.days ?? SCENARIO_DEFAULTS.days,
+      runs: options.runs ?? SCENARIO_DEFAULTS.runs,
+      seed: options.seed ?? SCENARIO_DEFAULTS.seed,
+      tolerance: options.tolerance ?? SCENARIO_DEFAULTS.tolerance,
+      decisionProvider: options.decisionProvider ?? SCENARIO_DEFAULTS.decisionProvider,
+    };
+    validateOptions(runOptions);
+
+    const plugin = await PluginRegistry.load(options.product);
+    logger.debug(
+      `Running ${scenarioId} from ${plugin.source}: ${runOptions.runs} runs of ${runOptions.days} days (seed ${runOptions.seed}, ${runOptions.decisionProvider} decisions)`
+    );
+    const report = await ScenarioRunner.run(plugin, scenarioId, runOptions);
+
+    // eslint-disable-next-line no-console
+    console.log((options.json ?? false) ? JSON.stringify(report, null, 2) : formatReport(report));
+
+    if (report.status === 'fail') {
+      const failed = report.personas.flatMap((result) =>
+        result.checks.filter((check) => check.status === 'fail')
+      );
+      const redFlags = report.personas.flatMap((result) => result.redFlags);
+      const reasons = [
+        `${failed.length} metric${failed.length === 1 ? '' : 's'} outside tolerance ${runOptions.tolerance}`,
+      ];
+      if (redFlags.length > 0) {
+        reasons.push(`red flag${redFlags.length === 1 ? '' : 's'} ${redFlags.join(', ')}`);
+      }
+      throw new RegressionError(`Scenario ${report.scenario.id} regressed: ${reasons.join('; ')}`);
+    }
+    if (report.status === 'unchecked') {
+      const unchecked = report.personas
+        .filter((result) => result.status === 'unchecked')
+        .map((result) => result.persona);
+      throw new ConfigError(
+        `Scenario ${report.scenario.id} checked no measured metric for: ${unchecked.join(', ')}`
+      );
+    }
+    if (!(options.json ?? false)) {
+      logger.success(`Scenario ${report.scenario.id} passed`);
+    }
+  } catch (error) {
+    ErrorHandler.handle(error, Boolean(options.verbose));
+  }
+}
+
+/**
+ * Check run options
+ * @throws {ValidationError} If an option is out of range
+ */
+function validateOptions(options: ScenarioReport['options']): void {
+  const errors: string[] = [];
+  if (!Number.isInteger(options.days) || options.days <= 0) {
+    errors.push('days must be a positive integer');
+  }
+  if (!Number.isInteger(options.runs) || options.runs <= 0) {
+    errors.push('runs must be a positive integer');
+  }
+  if (!Number.isInteger(options.seed)) {
+    errors.push('seed must be an integer');
+  }
+  if (Number.isNaN(options.tolerance) || options.tolerance < 0) {
+    errors.push('tolerance must be a non-negative number');
+  }
+  if (!DECISION_PROVIDERS.includes(options.decisionProvider)) {
+    errors.push(`decision provider must be one of: ${DECISION_PROVIDERS.join(', ')}`);
+  }
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid scenario options', errors);
+  }
+}
+
+/**
+ * Render a scenario report
+ * @param report - Scenario report
+ * @returns Header and one table row per metric check
+ */
+function formatReport(report: ScenarioReport): string {
+  const { options } = report;
+  const lines = [
+    `Scenario ${report.scenario.id}: ${report.scenario.name}`,
+    `Plugin ${report.plugin}, ${options.runs} runs x ${options.days} days, seed ${options.seed}, tolerance ${options.tolerance}`,
+    '',
+  ];
+
+  const rows = report.personas.flatMap((result) =>
+    result.checks.map((check) => ({
+      persona: result.persona,
+      metric: check.metric,
+      expected: check.expected,
+      actual: check.actual ?? null,
+      deviation: check.deviation ?? null,
+      result: check.status,
+    }))
+  );
+  lines.push(TableFormatter.format(rows));
+
+  const unexpected = report.personas.filter((result) => result.checks.length === 0);
+  if (unexpected.length > 0) {
+    lines.push(
+      '',
+      `No expected outcome for: ${unexpected.map((result) => result.persona).join(', ')}`
+    );
+  }
+  const unmeasured = report.personas.filter(
+    (result) => result.checks.length > 0 && result.status === 'unchecked'
+  );
+  if (unmeasured.length > 0) {
+    lines.push(
+      '',
+      `No expected metric measured for: ${unmeasured.map((result) => result.persona).join(', ')}`
+    );
+  }
+  for (const result of report.personas.filter((r) => r.redFlags.length > 0)) {
+    lines.push('', `Red flags for ${result.persona}: ${result.redFlags.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Register scenario commands with Commander
+ * @param program - Commander program
+ */
+export function registerScenarioCommand(program: Command): void {
+  const scenario = program.command('scenario').description('Run product plugin scenarios');
+
+  scenario
+    .command('run <id>')
+    .description('Simulate a plugin scenario and check its expected outcomes')
+    .requiredOption('--product <plugin>', 'Product plugin providing the scenario')
+    .option('-d, --days <number>', 'Simulated days per run (default: 14)', parseInt)
+    .option('-r, --runs <number>', 'Simulated runs per persona (default: 5)', parseInt)
+    .option('-s, --seed <number>', 'Random seed (default: 42)', parseInt)
+    .option(
+      '-t, --tolerance <number>',
+      'Largest accepted difference from an expected metric (default: 0.2)',
+      parseFloat
+    )
+    .option(
+      '--decision-provider <provider>',
+      'Where persona decisions come from: rules or llm (default: rules)'
+    )
+    .option('-v, --verbose', 'Verbose logging')
+    .option('-j, --json', 'Output JSON')
+    .action(scenarioRunCommand);
+}
@@ -66,6 +66,44 @@ export class ConfigLoader {
     }
   }
 
+  /**
+   * Resolve the file paths of a configuration relative to its file
+   * Covers local product plugins, persona sources, the persona library,
+   * decision recordings, checkpoints and the telemetry store. Products named
+   * by package rather than path are left as they are.
+   * @param config - Configuration loaded from configPath, updated in place
+   * @param configPath - Path of the configuration file
+   */
+  public static resolvePaths(config: SutsConfig, configPath: string): void {
+    const configDir = path.dirname(path.resolve(configPath));
+    if (config.simulation.product.startsWith('.')) {
+      config.simulation.product = path.resolve(configDir, config.simulation.product);
+    }
+    if (config.personas?.file !== undefined) {
+      config.personas.file = path.resolve(configDir, config.personas.file);
+    }
+    if (config.personas?.library !== undefined) {
+      config.personas.library = path.resolve(configDir, config.personas.library);
+    }
+    if (config.personas?.analysisFiles !== undefined) {
+      config.personas.analysisFiles = config.personas.analysisFiles.map((file) =>
+        path.resolve(configDir, file)
+      );
+    }
+    if (config.simulation.decisions !== undefined) {
+      config.simulation.decisions.file = path.resolve(configDir, config.simulation.decisions.file);
+    }
+    if (config.telemetry?.file !== undefined) {
+      config.telemetry.file = path.resolve(configDir, config.telemetry.file);
+    }
+    if (config.simulation.checkpoint !== undefined) {
+      config.simulation.checkpoint.file = path.resolve(
+        configDir,
+        config.simulation.checkpoint.file
+      );
+    }
+  }
+
   /**
    * Check if a file exists
    * @param filePath - Path to check
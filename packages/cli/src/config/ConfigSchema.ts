@@ -3,6 +3,18 @@
  */
 
 import { z } from 'zod';
+import { ActionType } from '@suts/core';
+
+/**
+ * Behaviour parameters schema, e.g. as tuned by `suts calibrate`
+ */
+export const BehaviorConfigSchema = z.object({
+  frustrationDecayPerDay: z.number().min(0).max(1).optional(),
+  patienceWeight: z.number().nonnegative().optional(),
+  successBias: z.number().min(-1).max(1).optional(),
+  explorationRate: z.number().min(0).max(1).optional(),
+  actionWeights: z.record(z.nativeEnum(ActionType), z.number().nonnegative()).optional(),
+});
 
 /**
  * Simulation configuration schema
@@ -11,14 +23,32 @@ export const SimulationConfigSchema = z.object({
   personas: z.number().int().positive().default(100),
   days: z.number().int().positive().default(7),
   product: z.string().min(1),
+  seed: z.number().int().nonnegative().optional(),
+  decisionProvider: z.enum(['rules', 'llm']).default('rules'),
+  decisions: z
+    .object({
+      mode: z.enum(['record', 'replay']),
+      file: z.string().min(1),
+    })
+    .optional(),
+  checkpoint: z
+    .object({
+      file: z.string().min(1),
+      interval: z.number().int().positive().default(1),
+    })
+    .optional(),
+  behavior: BehaviorConfigSchema.optional(),
 });
 
 /**
  * Persona generation configuration schema
  */
 export const PersonaConfigSchema = z.object({
+  file: z.string().optional(),
   analysisFiles: z.array(z.string()).optional(),
   diversity: z.number().min(0).max(1).default(0.8),
+  library: z.string().min(1).optional(),
+  tag: z.string().min(1).optional(),
 });
 
 /**
@@ -30,6 +60,14 @@ export const OutputConfigSchema = z.object({
   generateReport: z.boolean().default(true),
 });
 
+/**
+ * Telemetry storage configuration schema
+ */
+export const TelemetryConfigSchema = z.object({
+  store: z.enum(['memory', 'ndjson', 'sqlite']).default('memory'),
+  file: z.string().min(1).optional(),
+});
+
 /**
  * Threshold configuration schema
  */
@@ -46,6 +84,7 @@ export const SutsConfigSchema = z.object({
   simulation: SimulationConfigSchema,
   personas: PersonaConfigSchema.optional(),
   output: OutputConfigSchema.optional(),
+  telemetry: TelemetryConfigSchema.optional(),
   thresholds: ThresholdConfigSchema.optional(),
 });
 
@@ -54,6 +93,8 @@ export const SutsConfigSchema = z.object({
  */
 export type SutsConfig = z.infer<typeof SutsConfigSchema>;
 export type SimulationConfig = z.infer<typeof SimulationConfigSchema>;
+export type BehaviorConfig = z.infer<typeof BehaviorConfigSchema>;
 export type PersonaConfig = z.infer<typeof PersonaConfigSchema>;
 export type OutputConfig = z.infer<typeof OutputConfigSchema>;
+export type TelemetryConfig = z.infer<typeof TelemetryConfigSchema>;
 export type ThresholdConfig = z.infer<typeof ThresholdConfigSchema>;
@@ -6,12 +6,16 @@ export { ConfigLoader } from './ConfigLoader';
 export {
   SutsConfig,
   SimulationConfig,
+  BehaviorConfig,
   PersonaConfig,
   OutputConfig,
+  TelemetryConfig,
   ThresholdConfig,
   SutsConfigSchema,
   SimulationConfigSchema,
+  BehaviorConfigSchema,
   PersonaConfigSchema,
   OutputConfigSchema,
+  TelemetryConfigSchema,
   ThresholdConfigSchema,
 } from './ConfigSchema';
@@ -9,6 +9,7 @@ export enum ExitCode {
   SUCCESS = 0,
   ERROR = 1,
   CONFIG_ERROR = 2,
+  REGRESSION = 3,
 }
 
 /**
@@ -67,3 +68,14 @@ export class SimulationError extends CLIError {
     this.name = 'SimulationError';
   }
 }
+
+/**
+ * Scenario regressions and failed experiments: the run completed but missed its
+ * expected outcomes or success criteria
+ */
+export class RegressionError extends CLIError {
+  constructor(message: string) {
+    super(message, ExitCode.REGRESSION);
+    this.name = 'RegressionError';
+  }
+}
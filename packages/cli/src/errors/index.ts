@@ -8,6 +8,7 @@ export {
   FileNotFoundError,
   ValidationError,
   SimulationError,
+  RegressionError,
   ExitCode,
 } from './CLIError';
 
@@ -7,4 +7,5 @@ export * from './config';
 export * from './errors';
 export * from './output';
 export * from './progress';
+export * from './runner';
 export { main } from './cli';
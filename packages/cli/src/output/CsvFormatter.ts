@@ -0,0 +1,136 @@
+/**
+ * CSV formatter for simulation results
+ */
+
+import {
+  EventData,
+  FrictionPoint,
+  PersonaData,
+  ValueMoment,
+} from './ResultsWriter';
+
+/**
+ * Column definition for a CSV export
+ */
+interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+/**
+ * Format simulation results as RFC 4180 CSV
+ */
+export class CsvFormatter {
+  /**
+   * Format events as CSV
+   * @param events - Events to format
+   * @returns CSV document
+   */
+  public static formatEvents(events: EventData[]): string {
+    return CsvFormatter.format(events, [
+      { header: 'id', value: (e) => e.id },
+      { header: 'personaId', value: (e) => e.personaId },
+      { header: 'timestamp', value: (e) => e.timestamp },
+      { header: 'eventType', value: (e) => e.eventType },
+      { header: 'action', value: (e) => e.action },
+      { header: 'context', value: (e) => e.context },
+    ]);
+  }
+
+  /**
+   * Format personas as CSV
+   * @param personas - Personas to format
+   * @returns CSV document
+   */
+  public static formatPersonas(personas: PersonaData[]): string {
+    return CsvFormatter.format(personas, [
+      { header: 'id', value: (p) => p.id },
+      { header: 'name', value: (p) => p.name },
+      { header: 'background', value: (p) => p.background },
+      { header: 'goals', value: (p) => p.goals },
+    ]);
+  }
+
+  /**
+   * Format friction points as CSV
+   * @param frictionPoints - Friction points to format
+   * @returns CSV document
+   */
+  public static formatFrictionPoints(frictionPoints: FrictionPoint[]): string {
+    return CsvFormatter.format(frictionPoints, [
+      { header: 'id', value: (f) => f.id },
+      { header: 'description', value: (f) => f.description },
+      { header: 'severity', value: (f) => f.severity },
+      { header: 'frequency', value: (f) => f.frequency },
+      { header: 'affectedPersonas', value: (f) => f.affectedPersonas },
+    ]);
+  }
+
+  /**
+   * Format value moments as CSV
+   * @param valueMoments - Value moments to format
+   * @returns CSV document
+   */
+  public static formatValueMoments(valueMoments: ValueMoment[]): string {
+    return CsvFormatter.format(valueMoments, [
+      { header: 'id', value: (v) => v.id },
+      { header: 'description', value: (v) => v.description },
+      { header: 'impact', value: (v) => v.impact },
+      { header: 'frequency', value: (v) => v.frequency },
+      { header: 'affectedPersonas', value: (v) => v.affectedPersonas },
+    ]);
+  }
+
+  /**
+   * Format arbitrary records as CSV
+   * Columns are the union of record keys in first-seen order.
+   * @param rows - Records to format
+   * @returns CSV document
+   */
+  public static formatRows(rows: Array<Record<string, unknown>>): string {
+    const headers = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    return CsvFormatter.format(
+      rows,
+      headers.map((header) => ({ header, value: (row) => row[header] }))
+    );
+  }
+
+  /**
+   * Escape a single value for CSV
+   * Arrays of strings are joined with ";", other objects are JSON encoded.
+   * @param value - Value to escape
+   * @returns Escaped cell
+   */
+  public static escape(value: unknown): string {
+    let text: string;
+    if (value === undefined || value === null) {
+      text = '';
+    } else if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+      text = value.join(';');
+    } else if (typeof value === 'object') {
+      text = JSON.stringify(value);
+    } else {
+      text = String(value);
+    }
+
+    if (/[",\r\n]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  }
+
+  /**
+   * Format rows with the given columns
+   */
+  private static format<T>(rows: T[], columns: CsvColumn<T>[]): string {
+    const lines = [columns.map((column) => column.header).join(',')];
+
+    for (const row of rows) {
+      lines.push(
+        columns.map((column) => CsvFormatter.escape(column.value(row))).join(',')
+      );
+    }
+
+    return `${lines.join('\r\n')}\r\n`;
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * HTML report generator for simulation results
+ */
+
+import { EventData, SimulationResults } from './ResultsWriter';
+
+/**
+ * Point on the retention curve
+ */
+export interface RetentionPoint {
+  day: number;
+  activePersonas: number;
+  rate: number;
+}
+
+/**
+ * Friction heatmap of average frustration per action and day
+ */
+export interface FrictionHeatmap {
+  days: number[];
+  actions: string[];
+  /** cells[actionIndex][dayIndex], null where the action did not occur */
+  cells: Array<Array<number | null>>;
+}
+
+/**
+ * Maximum number of actions shown as heatmap rows
+ */
+const MAX_HEATMAP_ACTIONS = 15;
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = 40;
+
+const STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; background: #f5f6f8; color: #1f2933; }
+  header { background: #1f2933; color: #fff; padding: 24px 32px; }
+  header h1 { margin: 0 0 4px; font-size: 24px; }
+  header p { margin: 0; color: #cbd2d9; }
+  main { max-width: 1040px; margin: 0 auto; padding: 24px 32px 48px; }
+  section { background: #fff; border-radius: 8px; padding: 20px 24px; margin-bottom: 20px; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
+  h2 { font-size: 18px; margin: 0 0 16px; }
+  .verdict { display: flex; align-items: center; gap: 24px; flex-wrap: wrap; }
+  .badge { font-size: 28px; font-weight: 700; padding: 12px 24px; border-radius: 8px; color: #fff; }
+  .badge.go { background: #2f9e44; }
+  .badge.no-go { background: #c92a2a; }
+  .metric { margin: 6px 0; }
+  .metric-label { display: inline-block; width: 160px; }
+  .bar { display: inline-block; vertical-align: middle; width: 240px; height: 12px; background: #e4e7eb; border-radius: 6px; overflow: hidden; }
+  .bar span { display: block; height: 100%; background: #3b5bdb; }
+  .muted { color: #7b8794; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e4e7eb; }
+  th { cursor: pointer; user-select: none; background: #f5f6f8; }
+  td.cell { text-align: center; font-size: 12px; min-width: 36px; }
+  svg text { font-size: 11px; fill: #52606d; }
+`;
+
+const SCRIPT = `
+  document.querySelectorAll('table.sortable').forEach(function (table) {
+    table.querySelectorAll('th').forEach(function (header, index) {
+      header.addEventListener('click', function () {
+        var body = table.tBodies[0];
+        var ascending = header.getAttribute('data-order') !== 'asc';
+        header.setAttribute('data-order', ascending ? 'asc' : 'desc');
+        Array.prototype.slice.call(body.rows).sort(function (a, b) {
+          var x = a.cells[index].textContent, y = b.cells[index].textContent;
+          var nx = parseFloat(x), ny = parseFloat(y);
+          var result = isNaN(nx) || isNaN(ny) ? x.localeCompare(y) : nx - ny;
+          return ascending ? result : -result;
+        }).forEach(function (row) { body.appendChild(row); });
+      });
+    });
+  });
+`;
+
+/**
+ * Generate a single-file offline HTML report
+ */
+export class HtmlReportGenerator {
+  /**
+   * Generate the HTML report
+   * All styles, scripts and charts are inlined so the file opens without network access.
+   * @param results - Simulation results
+   * @returns HTML document
+   */
+  public static generate(results: SimulationResults): string {
+    const { summary } = results;
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>SUTS Report - ${HtmlReportGenerator.escape(summary.productPlugin)}</title>`,
+      `<style>${STYLES}</style>`,
+      '</head>',
+      '<body>',
+      '<header>',
+      '<h1>SUTS Simulation Report</h1>',
+      `<p>${HtmlReportGenerator.escape(summary.productPlugin)} &middot; ${summary.totalPersonas} personas &middot; ${summary.simulationDays} days &middot; ${summary.totalEvents} events &middot; ${HtmlReportGenerator.escape(summary.endTime)}</p>`,
+      '</header>',
+      '<main>',
+      HtmlReportGenerator.renderVerdict(results),
+      HtmlReportGenerator.renderRetention(results),
+      HtmlReportGenerator.renderHeatmap(results),
+      HtmlReportGenerator.renderFindings(results),
+      '</main>',
+      `<script>${SCRIPT}</script>`,
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Calculate the share of personas active on each simulated day
+   * @param results - Simulation results
+   * @returns Retention point per day
+   */
+  public static calculateRetentionCurve(results: SimulationResults): RetentionPoint[] {
+    const total = results.summary.totalPersonas;
+    const activeByDay = new Map<number, Set<string>>();
+
+    for (const event of results.events) {
+      const day = HtmlReportGenerator.getDay(event);
+      if (day === undefined) {
+        continue;
+      }
+      const active = activeByDay.get(day) ?? new Set<string>();
+      active.add(event.personaId);
+      activeByDay.set(day, active);
+    }
+
+    const points: RetentionPoint[] = [];
+    for (let day = 1; day <= results.summary.simulationDays; day++) {
+      const activePersonas = activeByDay.get(day)?.size ?? 0;
+      points.push({
+        day,
+        activePersonas,
+        rate: total > 0 ? activePersonas / total : 0,
+      });
+    }
+    return points;
+  }
+
+  /**
+   * Calculate average frustration per action and day
+   * Rows are limited to the most frequent actions.
+   * @param results - Simulation results
+   * @returns Friction heatmap
+   */
+  public static calculateFrictionHeatmap(results: SimulationResults): FrictionHeatmap {
+    const totals = new Map<string, Map<number, { sum: number; count: number }>>();
+    const frequency = new Map<string, number>();
+
+    for (const event of results.events) {
+      const day = HtmlReportGenerator.getDay(event);
+      const frustration = HtmlReportGenerator.getFrustration(event);
+      if (event.action === undefined || day === undefined || frustration === undefined) {
+        continue;
+      }
+
+      frequency.set(event.action, (frequency.get(event.action) ?? 0) + 1);
+      const byDay = totals.get(event.action) ?? new Map<number, { sum: number; count: number }>();
+      const cell = byDay.get(day) ?? { sum: 0, count: 0 };
+      cell.sum += frustration;
+      cell.count += 1;
+      byDay.set(day, cell);
+      totals.set(event.action, byDay);
+    }
+
+    const actions = Array.from(frequency.entries())
+      .sort((a, b) => (b[1] !== a[1] ? b[1] - a[1] : a[0].localeCompare(b[0])))
+      .slice(0, MAX_HEATMAP_ACTIONS)
+      .map(([action]) => action);
+
+    const days: number[] = [];
+    for (let day = 1; day <= results.summary.simulationDays; day++) {
+      days.push(day);
+    }
+
+    const cells = actions.map((action) =>
+      days.map((day) => {
+        const cell = totals.get(action)?.get(day);
+        return cell !== undefined ? cell.sum / cell.count : null;
+      })
+    );
+
+    return { days, actions, cells };
+  }
+
+  /**
+   * Escape text for safe inclusion in HTML
+   * @param text - Text to escape
+   * @returns Escaped text
+   */
+  public static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Render the go/no-go verdict section
+   */
+  private static renderVerdict(results: SimulationResults): string {
+    const { goNoGo } = results;
+    const isGo = goNoGo.decision === 'go';
+    const metrics: Array<[string, number]> = [
+      ['Positioning', goNoGo.metrics.positioning],
+      ['Retention', goNoGo.metrics.retention],
+      ['Viral coefficient', goNoGo.metrics.viral],
+      ['Confidence', goNoGo.confidence],
+    ];
+
+    const bars = metrics
+      .map(
+        ([label, value]) =>
+          `<div class="metric"><span class="metric-label">${label}</span>` +
+          `<span class="bar"><span style="width:${HtmlReportGenerator.percent(value)}"></span></span> ` +
+          `${HtmlReportGenerator.percent(value)}</div>`
+      )
+      .join('\n');
+
+    return [
+      '<section id="verdict">',
+      '<h2>Go/No-Go Verdict</h2>',
+      '<div class="verdict">',
+      `<div class="badge ${isGo ? 'go' : 'no-go'}">${isGo ? 'GO' : 'NO-GO'}</div>`,
+      `<div>${bars}</div>`,
+      '</div>',
+      `<p>${HtmlReportGenerator.escape(goNoGo.reasoning)}</p>`,
+      '</section>',
+    ].join('\n');
+  }
+
+  /**
+   * Render the retention curve as an inline SVG line chart
+   */
+  private static renderRetention(results: SimulationResults): string {
+    const points = HtmlReportGenerator.calculateRetentionCurve(results);
+    if (points.length === 0) {
+      return '<section id="retention"><h2>Retention Curve</h2><p class="muted">No simulated days.</p></section>';
+    }
+
+    const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+    const step = points.length > 1 ? plotWidth / (points.length - 1) : 0;
+    const toX = (index: number): number => CHART_PADDING + index * step;
+    const toY = (rate: number): number => CHART_PADDING + (1 - rate) * plotHeight;
+
+    const polyline = points
+      .map((point, index) => `${toX(index).toFixed(1)},${toY(point.rate).toFixed(1)}`)
+      .join(' ');
+
+    const gridLines = [0, 0.25, 0.5, 0.75, 1]
+      .map((rate) => {
+        const y = toY(rate).toFixed(1);
+        return (
+          `<line x1="${CHART_PADDING}" y1="${y}" x2="${CHART_WIDTH - CHART_PADDING}" y2="${y}" stroke="#e4e7eb"/>` +
+          `<text x="${CHART_PADDING - 6}" y="${y}" text-anchor="end" dominant-baseline="middle">${rate * 100}%</text>`
+        );
+      })
+      .join('');
+
+    const markers = points
+      .map((point, index) => {
+        const x = toX(index).toFixed(1);
+        const y = toY(point.rate).toFixed(1);
+        return (
+          `<circle cx="${x}" cy="${y}" r="3" fill="#3b5bdb"><title>Day ${point.day}: ${point.activePersonas} active (${HtmlReportGenerator.percent(point.rate)})</title></circle>` +
+          `<text x="${x}" y="${CHART_HEIGHT - CHART_PADDING + 16}" text-anchor="middle">${point.day}</text>`
+        );
+      })
+      .join('');
+
+    return [
+      '<section id="retention">',
+      '<h2>Retention Curve</h2>',
+      `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="100%" role="img" aria-label="Share of personas active per day">`,
+      gridLines,
+      `<polyline points="${polyline}" fill="none" stroke="#3b5bdb" stroke-width="2"/>`,
+      markers,
+      '</svg>',
+      '<p class="muted">Share of personas with at least one event on each simulated day.</p>',
+      '</section>',
+    ].join('\n');
+  }
+
+  /**
+   * Render the friction heatmap as a colour-coded table
+   */
+  private static renderHeatmap(results: SimulationResults): string {
+    const heatmap = HtmlReportGenerator.calculateFrictionHeatmap(results);
+    if (heatmap.actions.length === 0) {
+      return '<section id="friction-heatmap"><h2>Friction Heatmap</h2><p class="muted">No emotional state recorded on events.</p></section>';
+    }
+
+    const header = heatmap.days.map((day) => `<th>Day ${day}</th>`).join('');
+    const rows = heatmap.actions
+      .map((action, actionIndex) => {
+        const cells = (heatmap.cells[actionIndex] ?? [])
+          .map((value) =>
+            value === null
+              ? '<td class="cell muted">&ndash;</td>'
+              : `<td class="cell" style="background:${HtmlReportGenerator.heatColor(value)}">${value.toFixed(2)}</td>`
+          )
+          .join('');
+        return `<tr><td>${HtmlReportGenerator.escape(action)}</td>${cells}</tr>`;
+      })
+      .join('\n');
+
+    return [
+      '<section id="friction-heatmap">',
+      '<h2>Friction Heatmap</h2>',
+      `<table><thead><tr><th>Action</th>${header}</tr></thead><tbody>`,
+      rows,
+      '</tbody></table>',
+      '<p class="muted">Average frustration (0&ndash;1) of each action per day.</p>',
+      '</section>',
+    ].join('\n');
+  }
+
+  /**
+   * Render friction point and value moment tables
+   */
+  private static renderFindings(results: SimulationResults): string {
+    const frictionRows = results.frictionPoints
+      .map(
+        (friction) =>
+          `<tr><td>${HtmlReportGenerator.escape(friction.description)}</td><td>${friction.severity.toFixed(2)}</td>` +
+          `<td>${friction.frequency}</td><td>${friction.affectedPersonas.length}</td></tr>`
+      )
+      .join('\n');
+    const valueRows = results.valueMoments
+      .map(
+        (value) =>
+          `<tr><td>${HtmlReportGenerator.escape(value.description)}</td><td>${value.impact.toFixed(2)}</td>` +
+          `<td>${value.frequency}</td><td>${value.affectedPersonas.length}</td></tr>`
+      )
+      .join('\n');
+
+    return [
+      '<section id="friction-points">',
+      `<h2>Friction Points (${results.frictionPoints.length})</h2>`,
+      '<table class="sortable"><thead><tr><th>Description</th><th>Severity</th><th>Frequency</th><th>Personas</th></tr></thead><tbody>',
+      frictionRows,
+      '</tbody></table>',
+      '</section>',
+      '<section id="value-moments">',
+      `<h2>Value Moments (${results.valueMoments.length})</h2>`,
+      '<table class="sortable"><thead><tr><th>Description</th><th>Impact</th><th>Frequency</th><th>Personas</th></tr></thead><tbody>',
+      valueRows,
+      '</tbody></table>',
+      '</section>',
+    ].join('\n');
+  }
+
+  /**
+   * Get the simulated day of an event
+   */
+  private static getDay(event: EventData): number | undefined {
+    const day = event.context['day'];
+    return typeof day === 'number' ? day : undefined;
+  }
+
+  /**
+   * Get the frustration level recorded on an event
+   */
+  private static getFrustration(event: EventData): number | undefined {
+    const emotionalState = event.context['emotionalState'];
+    if (typeof emotionalState !== 'object' || emotionalState === null) {
+      return undefined;
+    }
+    const frustration = (emotionalState as Record<string, unknown>)['frustration'];
+    return typeof frustration === 'number' ? frustration : undefined;
+  }
+
+  /**
+   * Map a 0-1 value to a green-to-red background colour
+   */
+  private static heatColor(value: number): string {
+    const clamped = Math.min(1, Math.max(0, value));
+    const hue = Math.round((1 - clamped) * 120);
+    return `hsl(${hue}, 70%, 80%)`;
+  }
+
+  /**
+   * Format a 0-1 value as a percentage
+   */
+  private static percent(value: number): string {
+    return `${(Math.min(1, Math.max(0, value)) * 100).toFixed(1)}%`;
+  }
+}
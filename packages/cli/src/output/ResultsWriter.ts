@@ -5,6 +5,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { SimulationError } from '../errors';
+import { OutputConfig } from '../config';
+import { CsvFormatter } from './CsvFormatter';
+import { HtmlReportGenerator } from './HtmlReportGenerator';
 
 /**
  * Result data types
@@ -71,14 +74,28 @@ export interface GoNoGoDecision {
   };
 }
 
+/**
+ * Options controlling which files are written
+ */
+export interface ResultsWriterOptions {
+  /** Format of the detail files (default: json) */
+  format?: OutputConfig['format'];
+  /** Also write a standalone report.html (default: false) */
+  generateReport?: boolean;
+}
+
 /**
  * Writer for simulation results
  */
 export class ResultsWriter {
   private outputDir: string;
+  private format: OutputConfig['format'];
+  private generateReport: boolean;
 
-  constructor(outputDir: string) {
+  constructor(outputDir: string, options: ResultsWriterOptions = {}) {
     this.outputDir = path.resolve(outputDir);
+    this.format = options.format ?? 'json';
+    this.generateReport = options.generateReport ?? false;
   }
 
   /**
@@ -102,9 +119,18 @@ export class ResultsWriter {
    * @param data - Data to write
    */
   private writeJSON(filename: string, data: unknown): void {
+    this.writeFile(filename, JSON.stringify(data, null, 2));
+  }
+
+  /**
+   * Write a text file
+   * @param filename - Name of the file
+   * @param content - File content
+   */
+  private writeFile(filename: string, content: string): void {
     const filePath = path.join(this.outputDir, filename);
     try {
-      fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+      fs.writeFileSync(filePath, content, 'utf-8');
     } catch (error) {
       throw new SimulationError(
         `Failed to write ${filename}: ${error instanceof Error ? error.message : String(error)}`
@@ -114,17 +140,38 @@ export class ResultsWriter {
 
   /**
    * Write all simulation results
+   * Summary and decision are always JSON; personas, events, friction points
+   * and value moments follow the configured format. The html format writes
+   * JSON details plus report.html.
    * @param results - Simulation results to write
    */
   public writeResults(results: SimulationResults): void {
     this.ensureDirectory();
 
     this.writeJSON('summary.json', results.summary);
-    this.writeJSON('personas.json', results.personas);
-    this.writeJSON('events.json', results.events);
-    this.writeJSON('friction-points.json', results.frictionPoints);
-    this.writeJSON('value-moments.json', results.valueMoments);
     this.writeJSON('go-no-go.json', results.goNoGo);
+
+    if (this.format === 'csv') {
+      this.writeFile('personas.csv', CsvFormatter.formatPersonas(results.personas));
+      this.writeFile('events.csv', CsvFormatter.formatEvents(results.events));
+      this.writeFile(
+        'friction-points.csv',
+        CsvFormatter.formatFrictionPoints(results.frictionPoints)
+      );
+      this.writeFile(
+        'value-moments.csv',
+        CsvFormatter.formatValueMoments(results.valueMoments)
+      );
+    } else {
+      this.writeJSON('personas.json', results.personas);
+      this.writeJSON('events.json', results.events);
+      this.writeJSON('friction-points.json', results.frictionPoints);
+      this.writeJSON('value-moments.json', results.valueMoments);
+    }
+
+    if (this.format === 'html' || this.generateReport) {
+      this.writeFile('report.html', HtmlReportGenerator.generate(results));
+    }
   }
 
   /**
@@ -0,0 +1,72 @@
+/**
+ * Plain-text table formatter for terminal output
+ */
+
+/**
+ * Decimal places shown for fractional numbers
+ */
+const DECIMAL_PLACES = 3;
+
+/**
+ * Format records as an aligned text table
+ */
+export class TableFormatter {
+  /**
+   * Format records as a table
+   * Columns are the union of record keys in first-seen order; numbers are
+   * right-aligned.
+   * @param rows - Records to format
+   * @returns Table text, or a notice when there are no rows
+   */
+  public static format(rows: Array<Record<string, unknown>>): string {
+    if (rows.length === 0) {
+      return '(no results)';
+    }
+
+    const headers = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    const cells = rows.map((row) => headers.map((header) => TableFormatter.cell(row[header])));
+    const numeric = headers.map((header) =>
+      rows.every((row) => row[header] === null || typeof row[header] === 'number')
+    );
+    const widths = headers.map((header, column) =>
+      Math.max(header.length, ...cells.map((line) => line[column]!.length))
+    );
+
+    const render = (line: string[]): string =>
+      line
+        .map((cell, column) =>
+          numeric[column] === true
+            ? cell.padStart(widths[column]!)
+            : cell.padEnd(widths[column]!)
+        )
+        .join('  ')
+        .trimEnd();
+
+    return [
+      render(headers),
+      widths.map((width) => '-'.repeat(width)).join('  '),
+      ...cells.map(render),
+    ].join('\n');
+  }
+
+  /**
+   * Render a single value
+   * @param value - Value to render
+   * @returns Cell text
+   */
+  public static cell(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? String(value) : value.toFixed(DECIMAL_PLACES);
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+}
@@ -4,6 +4,7 @@
 
 export {
   ResultsWriter,
+  ResultsWriterOptions,
   SimulationResults,
   SummaryData,
   PersonaData,
@@ -14,3 +15,10 @@ export {
 } from './ResultsWriter';
 
 export { SummaryGenerator } from './SummaryGenerator';
+export { CsvFormatter } from './CsvFormatter';
+export { TableFormatter } from './TableFormatter';
+export {
+  HtmlReportGenerator,
+  RetentionPoint,
+  FrictionHeatmap,
+} from './HtmlReportGenerator';
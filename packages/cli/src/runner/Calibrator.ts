@@ -0,0 +1,416 @@
+/**
+ * Calibrator - Tune simulation behaviour parameters against real user data
+ */
+
+import { z, ZodError } from 'zod';
+import {
+  ActionType,
+  type ISimpleProductAdapter,
+  type PersonaProfile,
+  type TelemetryEvent as SimulationEvent,
+} from '@suts/core';
+import {
+  RuleBasedDecisionProvider,
+  SimulationEngine,
+  resolveBehaviorParameters,
+  type BehaviorParameters,
+} from '@suts/simulation';
+import { MetricsCalculator, type TelemetryEvent } from '@suts/telemetry';
+import { SurvivalAnalyzer } from '@suts/analysis';
+import type { BehaviorConfig } from '../config';
+import { SimulationError, ValidationError } from '../errors';
+import { ResultsMapper } from './ResultsMapper';
+
+/**
+ * Milliseconds per simulated day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cohort labels given to events before measuring them
+ */
+const REAL_COHORT = 'real';
+const SIMULATED_COHORT = 'simulated';
+
+/**
+ * Smallest decrease in mean absolute error that counts as an improvement
+ */
+const MIN_IMPROVEMENT = 1e-6;
+
+/**
+ * Retention days measured when deriving targets from real events
+ */
+export const DEFAULT_RETENTION_DAYS = [1, 7, 14, 30];
+
+/**
+ * Real user metrics the simulation is calibrated against
+ * - retention: share of users active again `day` days after their first event
+ * - funnel: share of users who completed an action at least once
+ * - churnRate: share of users whose last event is an uninstall or highly frustrated
+ */
+export const CalibrationTargetsSchema = z
+  .object({
+    retention: z
+      .array(z.object({ day: z.number().int().positive(), rate: z.number().min(0).max(1) }))
+      .default([]),
+    funnel: z
+      .array(z.object({ action: z.nativeEnum(ActionType), rate: z.number().min(0).max(1) }))
+      .default([]),
+    churnRate: z.number().min(0).max(1).optional(),
+  })
+  .refine(
+    (targets) =>
+      targets.retention.length > 0 || targets.funnel.length > 0 || targets.churnRate !== undefined,
+    { message: 'At least one retention, funnel or churn target is required' }
+  );
+
+/**
+ * Calibration targets
+ */
+export type CalibrationTargets = z.infer<typeof CalibrationTargetsSchema>;
+
+/**
+ * Name of a tunable behaviour parameter
+ */
+export type CalibrationParameterName =
+  Exclude<keyof BehaviorParameters, 'actionWeights'> | `actionWeights.${ActionType}`;
+
+/**
+ * A behaviour parameter and the values the search tries for it
+ */
+export interface CalibrationParameter {
+  name: CalibrationParameterName;
+  values: number[];
+}
+
+/**
+ * Parameters tuned by default: frustration decay, patience weighting and
+ * action probabilities
+ */
+export const DEFAULT_PARAMETER_SPACE: CalibrationParameter[] = [
+  { name: 'frustrationDecayPerDay', values: [0.05, 0.1, 0.2, 0.3, 0.5] },
+  { name: 'patienceWeight', values: [0.25, 0.5, 1, 1.5, 2] },
+  { name: 'successBias', values: [-0.3, -0.15, 0, 0.15, 0.3] },
+  { name: 'explorationRate', values: [0.2, 0.35, 0.5, 0.65, 0.8] },
+  { name: `actionWeights.${ActionType.UNINSTALL}`, values: [0.5, 1, 2, 4] },
+  { name: `actionWeights.${ActionType.SHARE}`, values: [0.5, 1, 2] },
+];
+
+/**
+ * Options for a calibration run
+ */
+export interface CalibrationOptions {
+  personas: PersonaProfile[];
+  adapter: ISimpleProductAdapter;
+  /** Simulated days, extended to cover the latest retention target */
+  days: number;
+  /** Seed shared by every simulation so parameter sets are compared on the same draws */
+  seed: number;
+  /** Largest number of simulations, including the starting point */
+  maxEvaluations: number;
+  /** Starting parameters (default: the uncalibrated simulation) */
+  initial?: Partial<BehaviorParameters>;
+  /** Parameters to tune (default: DEFAULT_PARAMETER_SPACE) */
+  space?: CalibrationParameter[];
+  /** Called after each simulation */
+  onEvaluation?: (evaluation: CalibrationEvaluation, count: number) => void;
+}
+
+/**
+ * Simulated value of a target metric
+ */
+export interface MetricError {
+  /** `retention.d<day>`, `funnel.<action>` or `churnRate` */
+  metric: string;
+  target: number;
+  simulated: number;
+  /** Absolute difference between simulated and target value */
+  error: number;
+}
+
+/**
+ * Simulation of one parameter set compared with the targets
+ */
+export interface CalibrationEvaluation {
+  parameters: BehaviorParameters;
+  metrics: MetricError[];
+  meanAbsoluteError: number;
+}
+
+/**
+ * Outcome of a calibration run
+ */
+export interface CalibrationResult {
+  targets: CalibrationTargets;
+  days: number;
+  seed: number;
+  /** The starting parameters */
+  baseline: CalibrationEvaluation;
+  /** The parameters with the lowest mean absolute error */
+  calibrated: CalibrationEvaluation;
+  evaluations: number;
+}
+
+/**
+ * Calibrate the simulation's behaviour parameters against real user data
+ *
+ * Each parameter set is simulated with the rule-based decision provider and
+ * measured the same way as the real data: retention with
+ * MetricsCalculator.calculateRetention, churn with SurvivalAnalyzer and funnel
+ * steps as the share of users completing an action. The search is a
+ * coordinate descent over the candidate values of each parameter, keeping a
+ * change only when it lowers the mean absolute error.
+ */
+export class Calibrator {
+  /**
+   * Validate calibration targets
+   * @param data - Parsed targets file
+   * @returns Calibration targets
+   * @throws {ValidationError} If the targets are invalid
+   */
+  public static parseTargets(data: unknown): CalibrationTargets {
+    try {
+      return CalibrationTargetsSchema.parse(data);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new ValidationError(
+          'Invalid calibration targets',
+          error.errors.map((err) =>
+            err.path.length > 0 ? `${err.path.join('.')}: ${err.message}` : err.message
+          )
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Derive calibration targets from real telemetry events
+   * Retention days beyond the time the events span are left out.
+   * @param events - Real user events
+   * @param retentionDays - Retention days to measure
+   * @returns Calibration targets
+   * @throws {ValidationError} If there are no events
+   */
+  public static targetsFromEvents(
+    events: TelemetryEvent[],
+    retentionDays: number[] = DEFAULT_RETENTION_DAYS
+  ): CalibrationTargets {
+    if (events.length === 0) {
+      throw new ValidationError('Cannot derive calibration targets', ['No events found']);
+    }
+
+    const real = events.map((event) => ({ ...event, cohort: REAL_COHORT }));
+    const times = real.map((event) => event.timestamp.getTime());
+    const spanDays = (Math.max(...times) - Math.min(...times)) / DAY_MS;
+    const seen = new Set(real.map((event) => event.action));
+    const funnelActions = Object.values(ActionType).filter((action) => seen.has(action));
+
+    return Calibrator.measure(
+      real,
+      REAL_COHORT,
+      retentionDays.filter((day) => day <= spanDays),
+      funnelActions,
+      true
+    );
+  }
+
+  /**
+   * Search for the behaviour parameters that best reproduce the targets
+   * @param targets - Real user metrics
+   * @param options - Calibration options
+   * @returns Baseline and calibrated evaluations
+   * @throws {SimulationError} If a simulation fails
+   */
+  public static async calibrate(
+    targets: CalibrationTargets,
+    options: CalibrationOptions
+  ): Promise<CalibrationResult> {
+    const days = Math.max(options.days, ...targets.retention.map((target) => target.day + 1));
+    const seen = new Set<string>();
+    const evaluate = async (parameters: BehaviorParameters): Promise<CalibrationEvaluation> => {
+      seen.add(JSON.stringify(parameters));
+      const evaluation = await Calibrator.evaluate(targets, parameters, { ...options, days });
+      options.onEvaluation?.(evaluation, seen.size);
+      return evaluation;
+    };
+
+    const baseline = await evaluate(resolveBehaviorParameters(options.initial));
+    let best = baseline;
+    let improved = true;
+
+    search: while (improved) {
+      improved = false;
+      for (const parameter of options.space ?? DEFAULT_PARAMETER_SPACE) {
+        for (const value of parameter.values) {
+          const candidate = Calibrator.withParameter(best.parameters, parameter.name, value);
+          if (seen.has(JSON.stringify(candidate))) {
+            continue;
+          }
+          if (seen.size >= options.maxEvaluations) {
+            break search;
+          }
+
+          const evaluation = await evaluate(candidate);
+          if (evaluation.meanAbsoluteError < best.meanAbsoluteError - MIN_IMPROVEMENT) {
+            best = evaluation;
+            improved = true;
+          }
+        }
+      }
+    }
+
+    return {
+      targets,
+      days,
+      seed: options.seed,
+      baseline,
+      calibrated: best,
+      evaluations: seen.size,
+    };
+  }
+
+  /**
+   * Simulate one parameter set and compare it with the targets
+   * @param targets - Real user metrics
+   * @param parameters - Behaviour parameters
+   * @param options - Personas, product, days and seed to simulate
+   * @returns Per-metric errors
+   * @throws {SimulationError} If the simulation fails
+   */
+  public static async evaluate(
+    targets: CalibrationTargets,
+    parameters: BehaviorParameters,
+    options: Pick<CalibrationOptions, 'personas' | 'adapter' | 'days' | 'seed'>
+  ): Promise<CalibrationEvaluation> {
+    const engine = new SimulationEngine({
+      seed: options.seed,
+      productAdapter: options.adapter,
+      decisionProvider: new RuleBasedDecisionProvider(options.seed, parameters),
+      behavior: parameters,
+    });
+
+    let events: SimulationEvent[];
+    try {
+      events = (await engine.run(options.personas, options.adapter.getInitialState(), options.days))
+        .events;
+    } catch (error) {
+      throw new SimulationError(
+        `Calibration simulation failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const simulated = Calibrator.measure(
+      Calibrator.toTelemetryEvents(events),
+      SIMULATED_COHORT,
+      targets.retention.map((target) => target.day),
+      targets.funnel.map((target) => target.action),
+      targets.churnRate !== undefined
+    );
+
+    const metrics: MetricError[] = [
+      ...targets.retention.map((target, index) =>
+        Calibrator.compare(
+          `retention.d${target.day}`,
+          target.rate,
+          simulated.retention[index]!.rate
+        )
+      ),
+      ...targets.funnel.map((target, index) =>
+        Calibrator.compare(`funnel.${target.action}`, target.rate, simulated.funnel[index]!.rate)
+      ),
+    ];
+    if (targets.churnRate !== undefined) {
+      metrics.push(Calibrator.compare('churnRate', targets.churnRate, simulated.churnRate!));
+    }
+
+    return {
+      parameters,
+      metrics,
+      meanAbsoluteError:
+        metrics.length > 0
+          ? metrics.reduce((sum, metric) => sum + metric.error, 0) / metrics.length
+          : 0,
+    };
+  }
+
+  /**
+   * Convert behaviour parameters from the configuration file
+   * @param config - `simulation.behavior` configuration
+   * @returns Parameters to override
+   */
+  public static toBehaviorParameters(config: BehaviorConfig): Partial<BehaviorParameters> {
+    return Object.fromEntries(
+      Object.entries(config).filter(([, value]) => value !== undefined)
+    ) as Partial<BehaviorParameters>;
+  }
+
+  /**
+   * Measure target metrics on events of one cohort
+   */
+  private static measure(
+    events: TelemetryEvent[],
+    cohort: string,
+    retentionDays: number[],
+    funnelActions: ActionType[],
+    includeChurn: boolean
+  ): CalibrationTargets {
+    const calculator = new MetricsCalculator();
+    const users = new Set(events.map((event) => event.personaId));
+    const completed = (action: ActionType): number =>
+      users.size === 0
+        ? 0
+        : new Set(
+            events
+              .filter(
+                (event) =>
+                  event.action === (action as string) && event.metadata['success'] !== false
+              )
+              .map((event) => event.personaId)
+          ).size / users.size;
+
+    return {
+      retention: retentionDays.map((day) => ({
+        day,
+        rate: calculator.calculateRetention(events, cohort, day) / 100,
+      })),
+      funnel: funnelActions.map((action) => ({ action, rate: completed(action) })),
+      ...(includeChurn && { churnRate: new SurvivalAnalyzer().analyze(events).churnRate }),
+    };
+  }
+
+  /**
+   * Convert simulation events to telemetry events timed by simulated day
+   * Simulation events carry wall-clock timestamps, so each is placed on its
+   * simulated day, keeping the order of events within a day.
+   */
+  private static toTelemetryEvents(events: SimulationEvent[]): TelemetryEvent[] {
+    return ResultsMapper.toTelemetryEvents(events).map((event, index) => ({
+      ...event,
+      timestamp: new Date((events[index]!.sessionNumber - 1) * DAY_MS + index),
+      cohort: SIMULATED_COHORT,
+    }));
+  }
+
+  /**
+   * Compare a simulated metric with its target
+   */
+  private static compare(metric: string, target: number, simulated: number): MetricError {
+    return { metric, target, simulated, error: Math.abs(simulated - target) };
+  }
+
+  /**
+   * Copy parameters with one parameter changed
+   */
+  private static withParameter(
+    parameters: BehaviorParameters,
+    name: CalibrationParameterName,
+    value: number
+  ): BehaviorParameters {
+    if (name.startsWith('actionWeights.')) {
+      const action = name.slice('actionWeights.'.length) as ActionType;
+      return { ...parameters, actionWeights: { ...parameters.actionWeights, [action]: value } };
+    }
+    return { ...parameters, [name]: value };
+  }
+}
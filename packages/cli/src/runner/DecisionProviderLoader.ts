@@ -0,0 +1,53 @@
+/**
+ * Decision provider loader
+ */
+
+import {
+  LLMDecisionProvider,
+  RuleBasedDecisionProvider,
+  resolveBehaviorParameters,
+  type BehaviorParameters,
+  type DecisionProvider,
+} from '@suts/simulation';
+import { ConfigError } from '../errors';
+
+/**
+ * Where persona decisions come from
+ * - `rules`: the seeded, trait-aware rule-based provider (reproducible, offline)
+ * - `llm`: Claude, which requires `ANTHROPIC_API_KEY`
+ */
+export type DecisionProviderKind = 'rules' | 'llm';
+
+/**
+ * Model used for LLM decisions
+ */
+const LLM_MODEL = 'claude-sonnet-4-20250514';
+
+/**
+ * Create the decision provider a simulation is configured with
+ */
+export class DecisionProviderLoader {
+  /**
+   * Create a decision provider
+   * @param kind - Configured provider
+   * @param seed - Random seed for rule-based decisions
+   * @param behavior - Behaviour parameters for rule-based decisions
+   * @returns Decision provider
+   * @throws {ConfigError} If LLM decisions are configured without ANTHROPIC_API_KEY
+   */
+  public static load(
+    kind: DecisionProviderKind,
+    seed: number,
+    behavior?: Partial<BehaviorParameters>
+  ): DecisionProvider {
+    if (kind === 'rules') {
+      return new RuleBasedDecisionProvider(seed, resolveBehaviorParameters(behavior));
+    }
+
+    const apiKey = process.env['ANTHROPIC_API_KEY'] ?? '';
+    if (apiKey.length === 0) {
+      throw new ConfigError('ANTHROPIC_API_KEY is required for LLM decisions');
+    }
+    return new LLMDecisionProvider({ apiKey, model: LLM_MODEL, temperature: 0.7, maxTokens: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Event store loader - opens the telemetry store selected in the configuration
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  InMemoryStore,
+  NdjsonStore,
+  SqliteStore,
+  type IEventStore,
+} from '@suts/telemetry';
+import { TelemetryConfig } from '../config';
+import { ConfigError, FileNotFoundError, ValidationError } from '../errors';
+import { EventData } from '../output';
+import { ResultsMapper } from './ResultsMapper';
+
+/**
+ * Default file names of the file-backed stores, inside the output directory
+ */
+const DEFAULT_FILES: Record<Exclude<TelemetryConfig['store'], 'memory'>, string> = {
+  ndjson: 'events.ndjson',
+  sqlite: 'events.db',
+};
+
+/**
+ * Open telemetry event stores
+ */
+export class EventStoreLoader {
+  /**
+   * Open the configured event store
+   * @param config - Telemetry configuration (default: in-memory store)
+   * @param outputDir - Output directory holding file-backed stores without an explicit file
+   * @returns Event store; callers close it when done
+   */
+  public static open(config: TelemetryConfig | undefined, outputDir: string): IEventStore {
+    const file = EventStoreLoader.resolveFile(config, outputDir);
+    if (file === undefined) {
+      return new InMemoryStore();
+    }
+    return config?.store === 'sqlite' ? new SqliteStore(file) : new NdjsonStore(file);
+  }
+
+  /**
+   * Open an existing event file for reading
+   * `.ndjson`/`.jsonl` files open as NDJSON stores, `.db`/`.sqlite` files as
+   * SQLite stores, and `.json` files are read as `events.json` from `suts run`.
+   * @param filePath - Event file
+   * @returns Event store; callers close it when done
+   * @throws {FileNotFoundError} If the file does not exist
+   * @throws {ConfigError} If the file type is not recognized
+   */
+  public static openFile(filePath: string): IEventStore {
+    const absolutePath = path.resolve(filePath);
+    if (!fs.existsSync(absolutePath)) {
+      throw new FileNotFoundError(absolutePath);
+    }
+
+    switch (path.extname(absolutePath).toLowerCase()) {
+      case '.ndjson':
+      case '.jsonl':
+        return new NdjsonStore(absolutePath);
+      case '.db':
+      case '.sqlite':
+      case '.sqlite3':
+        return new SqliteStore(absolutePath);
+      case '.json': {
+        const store = new InMemoryStore();
+        store.storeBatch(ResultsMapper.fromEventData(EventStoreLoader.readEventData(absolutePath)));
+        return store;
+      }
+      default:
+        throw new ConfigError(
+          `Unsupported event file ${absolutePath}; use .json, .ndjson, .jsonl, .db or .sqlite`
+        );
+    }
+  }
+
+  /**
+   * Read an events.json file
+   */
+  private static readEventData(filePath: string): EventData[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new ValidationError(`Invalid events file: ${filePath}`, [
+        error instanceof Error ? error.message : String(error),
+      ]);
+    }
+    if (!Array.isArray(data)) {
+      throw new ValidationError(`Invalid events file: ${filePath}`, [
+        'Events file must contain an array',
+      ]);
+    }
+    return data as EventData[];
+  }
+
+  /**
+   * Resolve the file backing the configured store
+   * @param config - Telemetry configuration
+   * @param outputDir - Output directory used when no file is configured
+   * @returns Store file path, or undefined for the in-memory store
+   */
+  public static resolveFile(
+    config: TelemetryConfig | undefined,
+    outputDir: string
+  ): string | undefined {
+    if (config === undefined || config.store === 'memory') {
+      return undefined;
+    }
+    return path.resolve(config.file ?? path.join(outputDir, DEFAULT_FILES[config.store]));
+  }
+}
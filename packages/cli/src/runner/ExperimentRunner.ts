@@ -0,0 +1,524 @@
+/**
+ * Experiment runner - Run designed experiments as synthetic A/B tests
+ */
+
+import { z, ZodError } from 'zod';
+import {
+  ProductStateSchema,
+  type ISimpleProductAdapter,
+  type PersonaProfile,
+  type ProductState,
+} from '@suts/core';
+import type { BehaviorParameters } from '@suts/simulation';
+import {
+  ConfidenceCalculator,
+  ExperimentSchema,
+  type Experiment,
+  type SimulationMetrics,
+} from '@suts/decision';
+import { ValidationError } from '../errors';
+import { ProductSimulator } from './ProductSimulator';
+
+/**
+ * Largest p-value of a significant degradation in a secondary metric
+ */
+const DEGRADATION_SIGNIFICANCE = 0.05;
+
+/**
+ * Simulation metrics an experiment can target
+ */
+export type ExperimentMetric =
+  'retentionRate' | 'churnRate' | 'userSatisfaction' | 'conversionRate';
+
+/**
+ * Simulation metric measuring each target metric ExperimentDesigner chooses
+ * Weekly active users are measured as the share of users still active at the end.
+ */
+const TARGET_METRICS: Record<string, ExperimentMetric> = {
+  'Day 7 Retention Rate': 'retentionRate',
+  'Monthly Churn Rate': 'churnRate',
+  'Weekly Active Users': 'retentionRate',
+  'User Satisfaction Score': 'userSatisfaction',
+  'Task Completion Rate': 'conversionRate',
+  'Primary Success Metric': 'retentionRate',
+};
+
+/**
+ * Metrics checked for degradation next to the target metric
+ * Churn is left out as it mirrors retention.
+ */
+const SECONDARY_METRICS: ExperimentMetric[] = [
+  'retentionRate',
+  'userSatisfaction',
+  'conversionRate',
+];
+
+/**
+ * Product state changes made by one experiment change
+ * Features, UI elements and config entries are merged into the arm's state.
+ */
+export const StateChangeSchema = ProductStateSchema.pick({
+  features: true,
+  uiElements: true,
+  config: true,
+}).partial();
+
+export type StateChange = z.infer<typeof StateChangeSchema>;
+
+/**
+ * Experiment file: an ExperimentDesigner experiment with the state changes
+ * its treatment `changes` make, keyed by change
+ */
+export const ExperimentFileSchema = ExperimentSchema.extend({
+  stateChanges: z.record(StateChangeSchema).default({}),
+});
+
+export type ExperimentFile = z.infer<typeof ExperimentFileSchema>;
+
+/**
+ * Options for an experiment run
+ */
+export interface ExperimentRunOptions {
+  personas: PersonaProfile[];
+  adapter: ISimpleProductAdapter;
+  /** Simulated days per run */
+  days: number;
+  /**
+   * Simulations per arm; run i uses seed + i in every arm. Runs average out
+   * simulation noise but simulate the same users, so they add no samples.
+   */
+  runs: number;
+  seed: number;
+  behavior?: Partial<BehaviorParameters>;
+  /**
+   * State changes by experiment change; changes without one enable the
+   * feature flag named after the change
+   */
+  stateChanges?: Record<string, StateChange>;
+}
+
+/**
+ * Outcome of one experiment arm
+ * - sampleSize: simulated users, one per persona in the arm
+ * - metrics: go/no-go metrics averaged over the runs
+ */
+export interface ExperimentArmResult {
+  name: string;
+  personas: string[];
+  sampleSize: number;
+  metrics: SimulationMetrics;
+}
+
+/**
+ * Evaluation of one success criterion
+ * Criteria the runner cannot interpret are skipped.
+ * - improvement: lift in the better direction against the required share
+ * - significance: p-value against the required bound
+ * - confidence: 1 - p-value against the required level
+ * - degradation: secondary metrics significantly worse, none allowed
+ */
+export interface CriterionCheck {
+  criterion: string;
+  threshold?: number;
+  actual?: number;
+  status: 'pass' | 'fail' | 'skipped';
+}
+
+/**
+ * Comparison of a treatment arm with the control arm
+ * Lift is relative to the control value, or the absolute difference when the
+ * control value is 0.
+ */
+export interface TreatmentResult {
+  arm: ExperimentArmResult;
+  changes: string[];
+  control: number;
+  treatment: number;
+  lift: number;
+  pValue: number;
+  criteria: CriterionCheck[];
+  /** False if any criterion fails */
+  passed: boolean;
+}
+
+/**
+ * Outcome of an experiment run
+ */
+export interface ExperimentReport {
+  experiment: { id: string; name: string; targetMetric: string };
+  /** Simulation metric measuring the target metric */
+  metric: ExperimentMetric;
+  options: { days: number; runs: number; seed: number };
+  control: ExperimentArmResult;
+  treatments: TreatmentResult[];
+  /** Simulated users over all arms */
+  sampleSize: number;
+  /** Whether the simulated users reach the experiment's minimum sample size */
+  sampleSizeMet: boolean;
+  /** False if any treatment fails a criterion */
+  passed: boolean;
+}
+
+/**
+ * Run ExperimentDesigner experiments through the simulation engine
+ */
+export class ExperimentRunner {
+  /**
+   * Parse and validate an experiment file
+   * @param data - Parsed JSON
+   * @returns Experiment with its state changes
+   * @throws {ValidationError} If the data is not a valid experiment
+   */
+  public static parseExperiment(data: unknown): ExperimentFile {
+    try {
+      return ExperimentFileSchema.parse(data);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new ValidationError(
+          'Invalid experiment',
+          error.errors.map((err) =>
+            err.path.length > 0 ? `${err.path.join('.')}: ${err.message}` : err.message
+          )
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run an experiment as a synthetic A/B test
+   * Personas are split into the designed groups and each arm is simulated
+   * `runs` times with its changes applied to the adapter's initial state. Each
+   * treatment is compared with the control on the target metric and checked
+   * against the success criteria.
+   * @param experiment - Experiment to run
+   * @param options - Personas, product adapter and run options
+   * @returns Experiment report
+   * @throws {ValidationError} If the target metric is not simulated or the personas cannot fill every arm
+   * @throws {SimulationError} If a simulation fails
+   */
+  public static async run(
+    experiment: Experiment,
+    options: ExperimentRunOptions
+  ): Promise<ExperimentReport> {
+    const metric = ExperimentRunner.resolveMetric(experiment.targetMetric);
+    const groups = ExperimentRunner.assignGroups(experiment, options.personas, options.seed);
+    const initialState = options.adapter.getInitialState();
+
+    const simulateArm = async (
+      index: number,
+      name: string,
+      changes: string[]
+    ): Promise<ExperimentArmResult> => {
+      const personas = groups[index] ?? [];
+      const state = ExperimentRunner.applyChanges(
+        initialState,
+        changes,
+        options.stateChanges ?? {}
+      );
+      const simulator = new ProductSimulator({
+        personas,
+        adapter: options.adapter,
+        days: options.days,
+        ...(options.behavior !== undefined && { behavior: options.behavior }),
+      });
+
+      const runs: SimulationMetrics[] = [];
+      for (let run = 0; run < options.runs; run++) {
+        runs.push(await simulator.simulate(state, options.seed + run));
+      }
+      const metrics = ExperimentRunner.averageMetrics(runs);
+      return {
+        name,
+        personas: personas.map((persona) => persona.id),
+        sampleSize: personas.length,
+        metrics,
+      };
+    };
+
+    const control = await simulateArm(0, experiment.controlGroup.name, []);
+    const treatments: TreatmentResult[] = [];
+    for (const [i, group] of experiment.treatmentGroups.entries()) {
+      const arm = await simulateArm(i + 1, group.name, group.changes);
+      treatments.push(ExperimentRunner.compare(experiment, metric, control, arm, group.changes));
+    }
+
+    const sampleSize =
+      control.sampleSize + treatments.reduce((sum, result) => sum + result.arm.sampleSize, 0);
+    return {
+      experiment: {
+        id: experiment.id,
+        name: experiment.name,
+        targetMetric: experiment.targetMetric,
+      },
+      metric,
+      options: { days: options.days, runs: options.runs, seed: options.seed },
+      control,
+      treatments,
+      sampleSize,
+      sampleSizeMet: sampleSize >= experiment.minimumSampleSize,
+      passed: treatments.every((result) => result.passed),
+    };
+  }
+
+  /**
+   * Find the simulation metric measuring a target metric
+   * @param targetMetric - ExperimentDesigner target metric or simulation metric name
+   * @returns Simulation metric
+   * @throws {ValidationError} If the simulation does not measure the metric
+   */
+  public static resolveMetric(targetMetric: string): ExperimentMetric {
+    const metric =
+      TARGET_METRICS[targetMetric] ??
+      [...SECONDARY_METRICS, 'churnRate'].find((name) => name === targetMetric);
+    if (metric === undefined) {
+      throw new ValidationError(`Target metric is not simulated: ${targetMetric}`, [
+        `Supported target metrics: ${Object.keys(TARGET_METRICS).join(', ')}`,
+      ]);
+    }
+    return metric as ExperimentMetric;
+  }
+
+  /**
+   * Split personas into the experiment's groups
+   * Personas are shuffled with the seed and shared out in proportion to the
+   * group sizes by largest remainder; every group gets at least one persona.
+   * @param experiment - Experiment whose groups to fill
+   * @param personas - Personas to split
+   * @param seed - Random seed of the shuffle
+   * @returns Personas per group, control first, then treatments in order
+   * @throws {ValidationError} If there are fewer personas than groups or no group has a size
+   */
+  public static assignGroups(
+    experiment: Experiment,
+    personas: PersonaProfile[],
+    seed: number
+  ): PersonaProfile[][] {
+    const sizes = [
+      experiment.controlGroup.size,
+      ...experiment.treatmentGroups.map((group) => group.size),
+    ];
+    const total = sizes.reduce((sum, size) => sum + size, 0);
+
+    const errors: string[] = [];
+    if (experiment.treatmentGroups.length === 0) {
+      errors.push('Experiment has no treatment groups');
+    }
+    if (total <= 0) {
+      errors.push('Group sizes must not all be 0');
+    }
+    if (personas.length < sizes.length) {
+      errors.push(
+        `${sizes.length} groups need at least ${sizes.length} personas, got ${personas.length}`
+      );
+    }
+    if (errors.length > 0) {
+      throw new ValidationError(`Cannot split personas for experiment ${experiment.id}`, errors);
+    }
+
+    const quotas = sizes.map((size) => (size / total) * personas.length);
+    const counts = quotas.map((quota) => Math.floor(quota));
+    const byRemainder = quotas
+      .map((quota, i) => ({ i, remainder: quota - Math.floor(quota) }))
+      .sort((a, b) => b.remainder - a.remainder);
+    let unassigned = personas.length - counts.reduce((sum, count) => sum + count, 0);
+    for (const { i } of byRemainder) {
+      if (unassigned === 0) {
+        break;
+      }
+      counts[i] = (counts[i] ?? 0) + 1;
+      unassigned--;
+    }
+
+    for (let i = 0; i < counts.length; i++) {
+      if (counts[i] === 0) {
+        const largest = counts.indexOf(Math.max(...counts));
+        counts[largest] = (counts[largest] ?? 0) - 1;
+        counts[i] = 1;
+      }
+    }
+
+    const shuffled = ExperimentRunner.shuffle(personas, seed);
+    let start = 0;
+    return counts.map((count) => {
+      const group = shuffled.slice(start, start + count);
+      start += count;
+      return group;
+    });
+  }
+
+  /**
+   * Apply experiment changes to a product state
+   * @param state - State without the changes
+   * @param changes - Changes of a treatment
+   * @param stateChanges - State changes by change
+   * @returns New state with every change applied in order
+   */
+  public static applyChanges(
+    state: ProductState,
+    changes: string[],
+    stateChanges: Record<string, StateChange>
+  ): ProductState {
+    return changes.reduce((current, change): ProductState => {
+      const stateChange = stateChanges[change];
+      if (stateChange === undefined) {
+        return { ...current, features: { ...current.features, [change]: true } };
+      }
+      return {
+        ...current,
+        features: { ...current.features, ...stateChange.features },
+        uiElements: { ...current.uiElements, ...stateChange.uiElements },
+        config: { ...current.config, ...stateChange.config },
+      };
+    }, state);
+  }
+
+  /**
+   * Evaluate success criteria
+   * @param criteria - Success criteria of the experiment
+   * @param lift - Lift of the target metric
+   * @param pValue - P-value of the target metric difference
+   * @param improves - Whether the treatment moves the target metric in the better direction
+   * @param degraded - Secondary metrics the treatment makes significantly worse
+   * @returns One check per criterion
+   */
+  public static checkCriteria(
+    criteria: string[],
+    lift: number,
+    pValue: number,
+    improves: boolean,
+    degraded: ExperimentMetric[]
+  ): CriterionCheck[] {
+    return criteria.map((criterion): CriterionCheck => {
+      const improvement = /(\d+(?:\.\d+)?)%\s+improvement/i.exec(criterion);
+      if (improvement !== null) {
+        const threshold = Number(improvement[1]) / 100;
+        const actual = improves ? Math.abs(lift) : -Math.abs(lift);
+        return { criterion, threshold, actual, status: actual >= threshold ? 'pass' : 'fail' };
+      }
+
+      const significance = /p\s*<\s*(\d*\.?\d+)/i.exec(criterion);
+      if (significance !== null) {
+        const threshold = Number(significance[1]);
+        return {
+          criterion,
+          threshold,
+          actual: pValue,
+          status: improves && pValue < threshold ? 'pass' : 'fail',
+        };
+      }
+
+      const confidence = /confidence level\s*>\s*(\d+(?:\.\d+)?)%/i.exec(criterion);
+      if (confidence !== null) {
+        const threshold = Number(confidence[1]) / 100;
+        return {
+          criterion,
+          threshold,
+          actual: 1 - pValue,
+          status: improves && 1 - pValue > threshold ? 'pass' : 'fail',
+        };
+      }
+
+      if (/no significant degradation/i.test(criterion)) {
+        return {
+          criterion,
+          threshold: 0,
+          actual: degraded.length,
+          status: degraded.length === 0 ? 'pass' : 'fail',
+        };
+      }
+
+      return { criterion, status: 'skipped' };
+    });
+  }
+
+  /**
+   * Compare a treatment arm with the control arm
+   * Significance is tested on the users of the smaller arm.
+   */
+  private static compare(
+    experiment: Experiment,
+    metric: ExperimentMetric,
+    control: ExperimentArmResult,
+    arm: ExperimentArmResult,
+    changes: string[]
+  ): TreatmentResult {
+    const calculator = new ConfidenceCalculator();
+    const sampleSize = Math.min(control.sampleSize, arm.sampleSize);
+    const significance = (name: ExperimentMetric): number =>
+      calculator.calculateSignificance(control.metrics[name], arm.metrics[name], sampleSize);
+
+    const controlValue = control.metrics[metric];
+    const treatmentValue = arm.metrics[metric];
+    const difference = treatmentValue - controlValue;
+    const lift = controlValue !== 0 ? difference / Math.abs(controlValue) : difference;
+    const pValue = significance(metric);
+    const improves = metric === 'churnRate' ? difference < 0 : difference > 0;
+
+    const mirrored = metric === 'churnRate' ? 'retentionRate' : metric;
+    const degraded = SECONDARY_METRICS.filter(
+      (name) =>
+        name !== mirrored &&
+        arm.metrics[name] < control.metrics[name] &&
+        significance(name) < DEGRADATION_SIGNIFICANCE
+    );
+    const criteria = ExperimentRunner.checkCriteria(
+      experiment.successCriteria,
+      lift,
+      pValue,
+      improves,
+      degraded
+    );
+
+    return {
+      arm,
+      changes,
+      control: controlValue,
+      treatment: treatmentValue,
+      lift,
+      pValue,
+      criteria,
+      passed: criteria.every((check) => check.status !== 'fail'),
+    };
+  }
+
+  /**
+   * Average the metrics of an arm's runs
+   * Every run simulates the same users, so the sample size is averaged too.
+   */
+  private static averageMetrics(runs: SimulationMetrics[]): SimulationMetrics {
+    const mean = (name: keyof SimulationMetrics): number =>
+      runs.reduce((sum, metrics) => sum + metrics[name], 0) / runs.length;
+
+    return {
+      retentionRate: mean('retentionRate'),
+      churnRate: mean('churnRate'),
+      growthRate: mean('growthRate'),
+      avgSessionDuration: mean('avgSessionDuration'),
+      userSatisfaction: mean('userSatisfaction'),
+      conversionRate: mean('conversionRate'),
+      revenuePerUser: mean('revenuePerUser'),
+      npsScore: mean('npsScore'),
+      confidenceLevel: mean('confidenceLevel'),
+      sampleSize: mean('sampleSize'),
+    };
+  }
+
+  /**
+   * Shuffle personas with a seeded generator (Fisher-Yates, linear congruential)
+   */
+  private static shuffle(personas: PersonaProfile[], seed: number): PersonaProfile[] {
+    let state = seed >>> 0;
+    const random = (): number => {
+      state = (Math.imul(1664525, state) + 1013904223) >>> 0;
+      return state / 2 ** 32;
+    };
+
+    const shuffled = [...personas];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+    }
+    return shuffled;
+  }
+}
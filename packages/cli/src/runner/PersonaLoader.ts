@@ -0,0 +1,259 @@
+/**
+ * Persona loader - loads or generates personas for a simulation run
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  PersonaGenerator,
+  PersonaLibrary,
+  describeSource,
+  validatePersonas,
+  type PersonaProfile,
+} from '@suts/persona';
+import {
+  ConfigError,
+  FileNotFoundError,
+  SimulationError,
+  ValidationError,
+} from '../errors';
+import { SutsConfig } from '../config';
+import { Logger } from '../progress';
+
+/**
+ * Load personas from disk or generate them with the LLM
+ */
+export class PersonaLoader {
+  /**
+   * Resolve personas for a run
+   * Uses `personas.file` when set, then the `personas.tag` set of `personas.library`,
+   * then generates from `personas.analysisFiles` (saving them to the library if one
+   * is configured), and finally the library's latest active personas.
+   * @param config - Simulation configuration
+   * @param logger - Logger for progress messages
+   * @returns Personas to simulate
+   * @throws {ConfigError} If no persona source is configured
+   */
+  public static async load(
+    config: SutsConfig,
+    logger: Logger
+  ): Promise<PersonaProfile[]> {
+    const count = config.simulation.personas;
+    const personaFile = config.personas?.file;
+    const libraryDir = config.personas?.library;
+    const tag = config.personas?.tag;
+
+    if (personaFile !== undefined) {
+      const personas = PersonaLoader.loadFromFile(personaFile);
+      return PersonaLoader.limit(personas, count, 'Persona file', logger);
+    }
+
+    if (tag !== undefined && libraryDir === undefined) {
+      throw new ConfigError('personas.tag requires personas.library');
+    }
+
+    if (libraryDir !== undefined && tag !== undefined) {
+      const personas = await PersonaLoader.loadFromLibrary(libraryDir, tag);
+      if (personas.length === 0) {
+        throw new ConfigError(`No personas tagged ${tag} in persona library ${libraryDir}`);
+      }
+      return PersonaLoader.limit(personas, count, `Persona set ${tag}`, logger);
+    }
+
+    const analysisFiles = config.personas?.analysisFiles ?? [];
+    if (analysisFiles.length > 0) {
+      return PersonaLoader.generate(analysisFiles, count, logger, libraryDir);
+    }
+
+    if (libraryDir !== undefined) {
+      const personas = await PersonaLoader.loadFromLibrary(libraryDir);
+      if (personas.length === 0) {
+        throw new ConfigError(`Persona library ${libraryDir} has no active personas`);
+      }
+      return PersonaLoader.limit(personas, count, 'Persona library', logger);
+    }
+
+    throw new ConfigError(
+      'No persona source configured: set personas.file, personas.library or personas.analysisFiles'
+    );
+  }
+
+  /**
+   * Load personas from a persona library
+   * @param directory - Library directory
+   * @param tag - Optional tag pinning the persona set
+   * @returns Latest active personas, or the tagged versions
+   * @throws {ConfigError} If the library cannot be read
+   */
+  public static async loadFromLibrary(
+    directory: string,
+    tag?: string
+  ): Promise<PersonaProfile[]> {
+    try {
+      return await new PersonaLibrary(directory).loadPersonas(tag);
+    } catch (error) {
+      throw new ConfigError(
+        `Failed to load persona library: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Load and validate personas from a JSON file
+   * @param filePath - Path to personas JSON file
+   * @returns Validated personas
+   * @throws {FileNotFoundError} If file doesn't exist
+   * @throws {ValidationError} If any persona is invalid
+   */
+  public static loadFromFile(filePath: string): PersonaProfile[] {
+    const absolutePath = path.resolve(filePath);
+
+    if (!fs.existsSync(absolutePath)) {
+      throw new FileNotFoundError(absolutePath);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(absolutePath, 'utf-8'));
+    } catch (error) {
+      throw new ConfigError(
+        `Failed to read personas file: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!Array.isArray(data)) {
+      throw new ConfigError('Personas file must contain an array');
+    }
+
+    const errors: string[] = [];
+    for (const [id, result] of validatePersonas(data).entries()) {
+      if (!result.valid) {
+        errors.push(`${id}: ${result.errors.join(', ')}`);
+      }
+    }
+    if (errors.length > 0) {
+      throw new ValidationError('Persona validation failed', errors);
+    }
+
+    return data as PersonaProfile[];
+  }
+
+  /**
+   * Generate personas from analysis documents via PersonaGenerator
+   * @param patterns - Analysis file paths (a `*` wildcard is allowed in the file name)
+   * @param count - Number of personas to generate
+   * @param logger - Logger for progress messages
+   * @param libraryDir - Persona library to save the generated personas to
+   * @returns Generated personas
+   */
+  private static async generate(
+    patterns: string[],
+    count: number,
+    logger: Logger,
+    libraryDir?: string
+  ): Promise<PersonaProfile[]> {
+    const apiKey = process.env['ANTHROPIC_API_KEY'] ?? '';
+    if (apiKey.length === 0) {
+      throw new ConfigError(
+        'ANTHROPIC_API_KEY is required to generate personas from analysis files'
+      );
+    }
+
+    const files = patterns.flatMap((pattern) => PersonaLoader.expandPattern(pattern));
+    if (files.length === 0) {
+      throw new ConfigError(
+        `No analysis files matched: ${patterns.join(', ')}`
+      );
+    }
+
+    logger.debug(`Generating personas from ${files.length} analysis files`);
+    const docs = files.map((file) => fs.readFileSync(file, 'utf-8'));
+
+    const generator = new PersonaGenerator(apiKey);
+    let personas: PersonaProfile[];
+    try {
+      personas = await generator.generateFromAnalysis(docs, count);
+    } catch (error) {
+      throw new SimulationError(
+        `Persona generation failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (libraryDir !== undefined) {
+      try {
+        const results = await new PersonaLibrary(libraryDir).save(personas, {
+          sources: files.map((file, index) =>
+            describeSource(path.basename(file), docs[index] ?? '')
+          ),
+          generator: generator.getGenerationInfo(count),
+        });
+        logger.debug(
+          `Saved ${results.filter((result) => result.created).length} new persona versions to ${libraryDir}`
+        );
+      } catch (error) {
+        throw new SimulationError(
+          `Failed to save personas to library: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return personas;
+  }
+
+  /**
+   * Cap personas at the requested count, warning when there are fewer
+   * @param personas - Loaded personas
+   * @param count - Requested count
+   * @param source - Source label for the warning
+   * @param logger - Logger for the warning
+   * @returns At most `count` personas
+   */
+  private static limit(
+    personas: PersonaProfile[],
+    count: number,
+    source: string,
+    logger: Logger
+  ): PersonaProfile[] {
+    if (personas.length < count) {
+      logger.warn(
+        `${source} contains ${personas.length} personas, fewer than the ${count} requested`
+      );
+    }
+    return personas.slice(0, count);
+  }
+
+  /**
+   * Expand a file pattern with an optional `*` wildcard in the file name
+   * @param pattern - File path or pattern
+   * @returns Matching absolute file paths
+   */
+  private static expandPattern(pattern: string): string[] {
+    const absolutePattern = path.resolve(pattern);
+    const baseName = path.basename(absolutePattern);
+
+    if (!baseName.includes('*')) {
+      if (!fs.existsSync(absolutePattern)) {
+        throw new FileNotFoundError(absolutePattern);
+      }
+      return [absolutePattern];
+    }
+
+    const directory = path.dirname(absolutePattern);
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+
+    const matcher = new RegExp(
+      `^${baseName
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`
+    );
+
+    return fs
+      .readdirSync(directory)
+      .filter((entry) => matcher.test(entry))
+      .sort()
+      .map((entry) => path.join(directory, entry));
+  }
+}
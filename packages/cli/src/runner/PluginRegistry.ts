@@ -0,0 +1,454 @@
+/**
+ * Product plugin registry
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  IProductAdapter,
+  ISimpleProductAdapter,
+  PersonaProfile,
+  UserAction,
+} from '@suts/core';
+import { ConfigError } from '../errors';
+
+/**
+ * Prefix used by published SUTS product plugins
+ */
+export const PLUGIN_PACKAGE_PREFIX = '@suts/plugin-';
+
+/**
+ * Adapter contract a plugin implements
+ * - simple: ISimpleProductAdapter, which the simulation engine drives
+ * - full: IProductAdapter, for integrations with a real product
+ */
+export type ProductAdapterKind = 'simple' | 'full';
+
+/**
+ * Scenario provided by a product plugin
+ */
+export interface PluginScenario {
+  id: string;
+  name: string;
+  description?: string;
+  /** Archetypes of the personas the scenario is meant for */
+  targetPersonas?: string[];
+  actions: UserAction[];
+}
+
+/**
+ * Metrics a plugin expects a persona archetype to reach in a scenario
+ */
+export interface PluginExpectedOutcome {
+  /** Scenario ID */
+  scenario: string;
+  /** Persona archetype */
+  persona: string;
+  expectedMetrics: Record<string, number>;
+  /** Behaviours that fail the scenario when observed */
+  redFlags?: string[];
+}
+
+/**
+ * Find the red flags of an expected outcome among observed behaviours
+ * @param behavior - Behaviours observed in the simulation
+ * @param expected - Expected outcome whose red flags are looked for
+ * @returns Red flags that were observed
+ */
+export type RedFlagIdentifier = (
+  behavior: string[],
+  expected: PluginExpectedOutcome
+) => { flags: string[] };
+
+/**
+ * Description of a product plugin
+ */
+export interface PluginInfo {
+  /** Short name, e.g. "vibeatlas" for @suts/plugin-vibeatlas */
+  name: string;
+  /** Package name or path the plugin was loaded from */
+  source: string;
+  version?: string;
+  description?: string;
+  adapterKind: ProductAdapterKind;
+  personaTemplates: PersonaProfile[];
+  scenarios: PluginScenario[];
+  expectedOutcomes: PluginExpectedOutcome[];
+}
+
+/**
+ * Product plugin with its instantiated adapter
+ */
+export interface LoadedPlugin extends PluginInfo {
+  adapter: ISimpleProductAdapter | IProductAdapter;
+  /** Plugin's own red flag matching, if it exports `identifyRedFlags` */
+  identifyRedFlags?: RedFlagIdentifier;
+}
+
+/**
+ * Fields read from a plugin's package.json
+ */
+interface PackageManifest {
+  name?: string;
+  version?: string;
+  description?: string;
+}
+
+/**
+ * Methods an IProductAdapter must implement
+ */
+const FULL_ADAPTER_METHODS = [
+  'initialize',
+  'getProductState',
+  'executeAction',
+  'simulateAction',
+  'reset',
+  'validateState',
+  'getAvailableActions',
+  'cleanup',
+  'healthCheck',
+];
+
+/**
+ * Check whether a value looks like a persona template
+ */
+function isPersonaTemplate(value: unknown): value is PersonaProfile {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate['id'] === 'string' && typeof candidate['archetype'] === 'string';
+}
+
+/**
+ * Check whether a value looks like a plugin scenario
+ */
+function isScenario(value: unknown): value is PluginScenario {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate['id'] === 'string' &&
+    typeof candidate['name'] === 'string' &&
+    Array.isArray(candidate['actions'])
+  );
+}
+
+/**
+ * Check whether a value looks like a plugin expected outcome
+ */
+function isExpectedOutcome(value: unknown): value is PluginExpectedOutcome {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  const metrics = candidate['expectedMetrics'];
+  const redFlags = candidate['redFlags'];
+  return (
+    typeof candidate['scenario'] === 'string' &&
+    typeof candidate['persona'] === 'string' &&
+    typeof metrics === 'object' &&
+    metrics !== null &&
+    Object.values(metrics).every((metric) => typeof metric === 'number') &&
+    (redFlags === undefined ||
+      (Array.isArray(redFlags) && redFlags.every((flag) => typeof flag === 'string')))
+  );
+}
+
+/**
+ * Resolve product plugins by name or path and describe what they provide
+ *
+ * A plugin is a module exporting an adapter instance or zero-argument adapter
+ * class. It may also export persona templates, scenarios and the outcomes
+ * expected from them, either as `personaTemplates`/`scenarios`/`expectedOutcomes`
+ * arrays or `getAllPersonaTemplates()`/`getAllScenarios()`/`getAllExpectedOutcomes()`
+ * functions, and an `identifyRedFlags(behavior, expectedOutcome)` function.
+ */
+export class PluginRegistry {
+  /**
+   * Load a plugin
+   * @param product - Short plugin name (e.g. "vibeatlas"), package name or local path
+   * @returns Plugin with its adapter, persona templates and scenarios
+   * @throws {ConfigError} If the plugin cannot be resolved or exports no valid adapter
+   */
+  public static async load(product: string): Promise<LoadedPlugin> {
+    for (const specifier of PluginRegistry.getCandidates(product)) {
+      let moduleExports: Record<string, unknown>;
+      try {
+        moduleExports = (await import(specifier)) as Record<string, unknown>;
+      } catch (error) {
+        if (PluginRegistry.isModuleNotFound(error, specifier)) {
+          continue;
+        }
+        throw new ConfigError(
+          `Failed to load product plugin ${specifier}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      return PluginRegistry.describe(specifier, moduleExports);
+    }
+
+    throw new ConfigError(`Product plugin not found: ${product}`);
+  }
+
+  /**
+   * Find installed @suts/plugin-* packages
+   * @param searchDirs - node_modules directories to search (default: those
+   *   visible from the working directory and from the CLI itself)
+   * @returns Plugin package directories, sorted by package name
+   */
+  public static discover(searchDirs: string[] = PluginRegistry.getSearchDirs()): string[] {
+    const [scope, prefix] = PLUGIN_PACKAGE_PREFIX.split('/') as [string, string];
+    const found = new Map<string, string>();
+
+    for (const searchDir of searchDirs) {
+      const scopeDir = path.join(searchDir, scope);
+      let entries: string[];
+      try {
+        entries = fs.readdirSync(scopeDir);
+      } catch {
+        continue;
+      }
+
+      for (const entry of entries.sort()) {
+        const packageName = `${scope}/${entry}`;
+        if (entry.startsWith(prefix) && !found.has(packageName)) {
+          found.set(packageName, path.join(scopeDir, entry));
+        }
+      }
+    }
+
+    return [...found.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, directory]) => directory);
+  }
+
+  /**
+   * Check whether a value satisfies ISimpleProductAdapter
+   * @param value - Value to check
+   * @returns True if value implements ISimpleProductAdapter
+   */
+  public static isSimpleAdapter(value: unknown): value is ISimpleProductAdapter {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const candidate = value as Record<string, unknown>;
+    return (
+      typeof candidate['getInitialState'] === 'function' &&
+      typeof candidate['applyAction'] === 'function' &&
+      typeof candidate['getAvailableActions'] === 'function'
+    );
+  }
+
+  /**
+   * Check whether a value satisfies IProductAdapter
+   * @param value - Value to check
+   * @returns True if value implements IProductAdapter
+   */
+  public static isFullAdapter(value: unknown): value is IProductAdapter {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const candidate = value as Record<string, unknown>;
+    return FULL_ADAPTER_METHODS.every((method) => typeof candidate[method] === 'function');
+  }
+
+  /**
+   * Build the description of a loaded plugin module
+   * @param specifier - Specifier the module was loaded from
+   * @param moduleExports - Module exports
+   * @returns Loaded plugin
+   * @throws {ConfigError} If the module exports no adapter or invalid templates, scenarios
+   *   or expected outcomes
+   */
+  private static describe(specifier: string, moduleExports: Record<string, unknown>): LoadedPlugin {
+    const adapter = PluginRegistry.findAdapter(moduleExports);
+    if (adapter === undefined) {
+      throw new ConfigError(`Product plugin ${specifier} does not export a product adapter`);
+    }
+
+    const manifest = PluginRegistry.readManifest(specifier);
+    const source = manifest?.name ?? specifier;
+    const plugin: LoadedPlugin = {
+      name: PluginRegistry.getShortName(source),
+      source,
+      adapterKind: PluginRegistry.isSimpleAdapter(adapter) ? 'simple' : 'full',
+      adapter,
+      personaTemplates: PluginRegistry.getExportedList(
+        moduleExports,
+        'personaTemplates',
+        'getAllPersonaTemplates',
+        isPersonaTemplate,
+        `Product plugin ${specifier} exports invalid persona templates`
+      ),
+      scenarios: PluginRegistry.getExportedList(
+        moduleExports,
+        'scenarios',
+        'getAllScenarios',
+        isScenario,
+        `Product plugin ${specifier} exports invalid scenarios`
+      ),
+      expectedOutcomes: PluginRegistry.getExportedList(
+        moduleExports,
+        'expectedOutcomes',
+        'getAllExpectedOutcomes',
+        isExpectedOutcome,
+        `Product plugin ${specifier} exports invalid expected outcomes`
+      ),
+    };
+    const identifyRedFlags = moduleExports['identifyRedFlags'];
+    if (typeof identifyRedFlags === 'function') {
+      plugin.identifyRedFlags = identifyRedFlags as RedFlagIdentifier;
+    }
+    if (manifest?.version !== undefined) {
+      plugin.version = manifest.version;
+    }
+    if (manifest?.description !== undefined) {
+      plugin.description = manifest.description;
+    }
+    return plugin;
+  }
+
+  /**
+   * Get module specifiers to try for a product name
+   * @param product - Product name or path
+   * @returns Ordered list of specifiers
+   */
+  private static getCandidates(product: string): string[] {
+    if (product.startsWith('.') || path.isAbsolute(product)) {
+      return [path.resolve(product)];
+    }
+    if (product.startsWith('@')) {
+      return [product];
+    }
+    return [`${PLUGIN_PACKAGE_PREFIX}${product}`, product];
+  }
+
+  /**
+   * Get node_modules directories visible from the working directory and the CLI
+   * @returns Existing directories, nearest first
+   */
+  private static getSearchDirs(): string[] {
+    const dirs: string[] = [];
+    let current = process.cwd();
+    for (;;) {
+      dirs.push(path.join(current, 'node_modules'));
+      const parent = path.dirname(current);
+      if (parent === current) {
+        break;
+      }
+      current = parent;
+    }
+    dirs.push(...(require.resolve.paths(PLUGIN_PACKAGE_PREFIX) ?? []));
+
+    return [...new Set(dirs)].filter((dir) => fs.existsSync(dir));
+  }
+
+  /**
+   * Derive a plugin's short name from its package name or path
+   * @param source - Package name or path
+   * @returns Short name
+   */
+  private static getShortName(source: string): string {
+    if (source.startsWith(PLUGIN_PACKAGE_PREFIX)) {
+      return source.slice(PLUGIN_PACKAGE_PREFIX.length);
+    }
+    if (path.isAbsolute(source)) {
+      return path.basename(source, path.extname(source));
+    }
+    return source;
+  }
+
+  /**
+   * Read the package.json of a plugin package or directory
+   * @param specifier - Package name or path
+   * @returns Manifest, or undefined if the plugin has none
+   */
+  private static readManifest(specifier: string): PackageManifest | undefined {
+    try {
+      const file = require.resolve(`${specifier}/package.json`);
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as PackageManifest;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Find an adapter among a module's exports
+   * Accepts adapter instances and zero-argument adapter classes, preferring
+   * ISimpleProductAdapter.
+   * @param moduleExports - Loaded module exports
+   * @returns Adapter instance or undefined if none found
+   */
+  private static findAdapter(
+    moduleExports: Record<string, unknown>
+  ): ISimpleProductAdapter | IProductAdapter | undefined {
+    const adapters: Array<ISimpleProductAdapter | IProductAdapter> = [];
+
+    for (const value of Object.values(moduleExports)) {
+      if (PluginRegistry.isSimpleAdapter(value) || PluginRegistry.isFullAdapter(value)) {
+        adapters.push(value);
+        continue;
+      }
+
+      if (typeof value === 'function') {
+        const prototype = (value as { prototype?: unknown }).prototype;
+        if (PluginRegistry.isSimpleAdapter(prototype) || PluginRegistry.isFullAdapter(prototype)) {
+          const AdapterClass = value as new () => ISimpleProductAdapter | IProductAdapter;
+          adapters.push(new AdapterClass());
+        }
+      }
+    }
+
+    return adapters.find((adapter) => PluginRegistry.isSimpleAdapter(adapter)) ?? adapters[0];
+  }
+
+  /**
+   * Read a list a plugin exports as an array or a function returning one
+   * @param moduleExports - Loaded module exports
+   * @param arrayName - Name of the array export
+   * @param functionName - Name of the function export
+   * @param isItem - Validates each item
+   * @param invalidMessage - Error message for invalid lists
+   * @returns Validated items, or an empty list if the plugin exports neither
+   * @throws {ConfigError} If the export is not a list of valid items
+   */
+  private static getExportedList<T>(
+    moduleExports: Record<string, unknown>,
+    arrayName: string,
+    functionName: string,
+    isItem: (value: unknown) => value is T,
+    invalidMessage: string
+  ): T[] {
+    let value = moduleExports[arrayName];
+    const getter = moduleExports[functionName];
+    if (value === undefined && typeof getter === 'function') {
+      value = (getter as () => unknown)();
+    }
+    if (value === undefined) {
+      return [];
+    }
+
+    if (!Array.isArray(value) || !value.every(isItem)) {
+      throw new ConfigError(invalidMessage);
+    }
+    return value;
+  }
+
+  /**
+   * Check if an import error means the specifier itself was not found
+   * @param error - Error thrown by import
+   * @param specifier - Specifier that was imported
+   * @returns True if the module does not exist
+   */
+  private static isModuleNotFound(error: unknown, specifier: string): boolean {
+    if (typeof error !== 'object' || error === null) {
+      return false;
+    }
+    const { code, message } = error as { code?: unknown; message?: unknown };
+    return (
+      code === 'MODULE_NOT_FOUND' && typeof message === 'string' && message.includes(specifier)
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Product plugin loader
+ */
+
+import type { ISimpleProductAdapter } from '@suts/core';
+import { ConfigError } from '../errors';
+import { PluginRegistry } from './PluginRegistry';
+
+/**
+ * Resolve product plugins and instantiate their adapters
+ */
+export class ProductLoader {
+  /**
+   * Load the product adapter for a plugin
+   * @param product - Short plugin name (e.g. "vibeatlas"), package name or local path
+   * @returns Instantiated product adapter
+   * @throws {ConfigError} If the plugin cannot be resolved or exports no adapter the
+   *   simulation engine can drive
+   */
+  public static async load(product: string): Promise<ISimpleProductAdapter> {
+    const plugin = await PluginRegistry.load(product);
+    if (!PluginRegistry.isSimpleAdapter(plugin.adapter)) {
+      throw new ConfigError(
+        `Product plugin ${plugin.source} only provides an IProductAdapter; simulations require an ISimpleProductAdapter`
+      );
+    }
+    return plugin.adapter;
+  }
+
+  /**
+   * Check whether a value satisfies the product adapter contract
+   * @param value - Value to check
+   * @returns True if value implements ISimpleProductAdapter
+   */
+  public static isProductAdapter(value: unknown): value is ISimpleProductAdapter {
+    return PluginRegistry.isSimpleAdapter(value);
+  }
+}
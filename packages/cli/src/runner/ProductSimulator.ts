@@ -0,0 +1,67 @@
+/**
+ * Product simulator - Simulates product states for counterfactual predictions
+ */
+
+import type { ISimpleProductAdapter, PersonaProfile, ProductState } from '@suts/core';
+import {
+  RuleBasedDecisionProvider,
+  SimulationEngine,
+  resolveBehaviorParameters,
+  type BehaviorParameters,
+} from '@suts/simulation';
+import type { ImpactSimulator, SimulationMetrics } from '@suts/decision';
+import { SimulationError } from '../errors';
+import { ResultsMapper } from './ResultsMapper';
+
+/**
+ * Options for a product simulator
+ */
+export interface ProductSimulatorOptions {
+  personas: PersonaProfile[];
+  adapter: ISimpleProductAdapter;
+  days: number;
+  behavior?: Partial<BehaviorParameters>;
+}
+
+/**
+ * Simulate product states with the rule-based decision provider
+ *
+ * Every decision is drawn from the seed, so two product states simulated with
+ * the same seed share their random numbers and differ only through the product.
+ */
+export class ProductSimulator implements ImpactSimulator {
+  private readonly behavior: BehaviorParameters;
+
+  /**
+   * Create a product simulator
+   * @param options - Personas, product adapter, days and behaviour parameters
+   */
+  constructor(private readonly options: ProductSimulatorOptions) {
+    this.behavior = resolveBehaviorParameters(options.behavior);
+  }
+
+  /**
+   * Simulate a product state
+   * @param state - Product state to simulate
+   * @param seed - Random seed
+   * @returns Go/no-go metrics of the run
+   * @throws {SimulationError} If the simulation fails
+   */
+  public async simulate(state: ProductState, seed: number): Promise<SimulationMetrics> {
+    const engine = new SimulationEngine({
+      seed,
+      productAdapter: this.options.adapter,
+      decisionProvider: new RuleBasedDecisionProvider(seed, this.behavior),
+      behavior: this.behavior,
+    });
+
+    try {
+      const result = await engine.run(this.options.personas, state, this.options.days);
+      return ResultsMapper.calculateMetrics(result, ResultsMapper.toTelemetryEvents(result.events));
+    } catch (error) {
+      throw new SimulationError(
+        `Product simulation failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
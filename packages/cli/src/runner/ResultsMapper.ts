@@ -0,0 +1,273 @@
+/**
+ * Results mapper - converts engine outputs into CLI result types
+ */
+
+import type { PersonaProfile, TelemetryEvent as SimulationEvent } from '@suts/core';
+import { PersonaState, type SimulationState } from '@suts/simulation';
+import { MetricsCalculator, type TelemetryEvent } from '@suts/telemetry';
+import type {
+  FrictionPoint as DetectedFriction,
+  ValueMoment as DetectedValue,
+} from '@suts/analysis';
+import type { GoNoGoResult, SimulationMetrics } from '@suts/decision';
+import { ThresholdConfig } from '../config';
+import {
+  EventData,
+  FrictionPoint,
+  GoNoGoDecision,
+  PersonaData,
+  ValueMoment,
+} from '../output';
+
+/**
+ * Clamp a value into a range
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Map simulation, analysis and decision outputs to CLI results
+ */
+export class ResultsMapper {
+  /**
+   * Convert persona profiles to output persona records
+   * @param personas - Simulated personas
+   * @returns Persona output records
+   */
+  public static toPersonaData(personas: PersonaProfile[]): PersonaData[] {
+    return personas.map((persona) => ({
+      id: persona.id,
+      name: persona.archetype,
+      background: `${persona.role} (${persona.experienceLevel}, ${persona.companySize})`,
+      goals: [...persona.goals],
+    }));
+  }
+
+  /**
+   * Convert simulation events to output event records
+   * @param events - Events emitted by the simulation
+   * @returns Event output records
+   */
+  public static toEventData(events: SimulationEvent[]): EventData[] {
+    return events.map((event) => {
+      const data: EventData = {
+        id: event.id,
+        personaId: event.personaId,
+        timestamp: event.timestamp,
+        eventType: event.eventType,
+        context: { ...event.context },
+      };
+      if (event.action !== undefined) {
+        data.action = event.action;
+      }
+      if (event.emotionalState !== undefined) {
+        data.context['emotionalState'] = event.emotionalState;
+      }
+      return data;
+    });
+  }
+
+  /**
+   * Convert simulation events into telemetry events for analysis
+   * @param events - Events emitted by the simulation
+   * @returns Telemetry events
+   */
+  public static toTelemetryEvents(events: SimulationEvent[]): TelemetryEvent[] {
+    return events.map((event) => ({
+      id: event.id,
+      personaId: event.personaId,
+      eventType: event.eventType,
+      action: event.action ?? event.eventType,
+      emotionalState: { ...(event.emotionalState ?? {}) },
+      metadata: { ...event.metadata, ...event.context },
+      timestamp: new Date(event.timestamp),
+    }));
+  }
+
+  /**
+   * Convert output event records back into telemetry events
+   * Reverses toEventData: the emotional state moves out of the context.
+   * @param events - Event records from an events.json file
+   * @returns Telemetry events
+   */
+  public static fromEventData(events: EventData[]): TelemetryEvent[] {
+    return events.map((event) => {
+      const { emotionalState, ...metadata } = event.context;
+      return {
+        id: event.id,
+        personaId: event.personaId,
+        eventType: event.eventType,
+        action: event.action ?? event.eventType,
+        emotionalState: { ...((emotionalState as Record<string, number> | undefined) ?? {}) },
+        metadata,
+        timestamp: new Date(event.timestamp),
+      };
+    });
+  }
+
+  /**
+   * Convert detected friction into output friction points
+   * @param detected - Friction detected by the analysis engine
+   * @param events - Telemetry events the friction was detected in
+   * @returns Friction point output records
+   */
+  public static toFrictionPoints(
+    detected: DetectedFriction[],
+    events: TelemetryEvent[]
+  ): FrictionPoint[] {
+    return detected.map((friction, index) => ({
+      id: `friction-${index + 1}`,
+      description: friction.description,
+      severity: friction.severity,
+      frequency: friction.frequency,
+      affectedPersonas: ResultsMapper.findPersonas(
+        events,
+        friction.location.action,
+        friction.location.eventType
+      ),
+    }));
+  }
+
+  /**
+   * Convert detected value into output value moments
+   * @param detected - Value moments detected by the analysis engine
+   * @param events - Telemetry events the value was detected in
+   * @returns Value moment output records
+   */
+  public static toValueMoments(
+    detected: DetectedValue[],
+    events: TelemetryEvent[]
+  ): ValueMoment[] {
+    return detected.map((value, index) => ({
+      id: `value-${index + 1}`,
+      description: value.description,
+      impact: value.delightScore,
+      frequency: value.frequency,
+      affectedPersonas: ResultsMapper.findPersonas(events, value.action, value.eventType),
+    }));
+  }
+
+  /**
+   * Derive go/no-go metrics from a completed simulation
+   * @param state - Simulation state
+   * @param events - Telemetry events from the simulation
+   * @returns Metrics for the decision engine
+   */
+  public static calculateMetrics(
+    state: SimulationState,
+    events: TelemetryEvent[]
+  ): SimulationMetrics {
+    const sampleSize = state.personas.length;
+    if (sampleSize === 0) {
+      return {
+        retentionRate: 0,
+        churnRate: 0,
+        growthRate: 0,
+        avgSessionDuration: 0,
+        userSatisfaction: 0,
+        conversionRate: 0,
+        revenuePerUser: 0,
+        npsScore: 0,
+        confidenceLevel: 0,
+        sampleSize: 0,
+      };
+    }
+
+    const retained = state.personas.filter(
+      (persona) => persona.finalState !== PersonaState.CHURNED
+    ).length;
+    const retentionRate = retained / sampleSize;
+    const churnRate = 1 - retentionRate;
+    const viral = new MetricsCalculator().calculateViralCoefficient(events);
+
+    const satisfaction = state.personas.map((persona) =>
+      clamp((persona.delightLevel + (1 - persona.frustrationLevel)) / 2, 0, 1)
+    );
+    const promoters = satisfaction.filter((score) => score >= 0.8).length;
+    const detractors = satisfaction.filter((score) => score < 0.6).length;
+
+    const actionEvents = events.filter((event) => event.eventType === 'action');
+    const durations = actionEvents
+      .map((event) => event.metadata['duration'])
+      .filter((duration): duration is number => typeof duration === 'number');
+    const converted = new Set(
+      actionEvents
+        .filter((event) => event.action === 'use_feature' && event.metadata['success'] === true)
+        .map((event) => event.personaId)
+    );
+
+    return {
+      retentionRate,
+      churnRate,
+      growthRate: clamp(viral - churnRate, -1, 1),
+      avgSessionDuration:
+        durations.length > 0
+          ? durations.reduce((sum, duration) => sum + duration, 0) / durations.length
+          : 0,
+      userSatisfaction: satisfaction.reduce((sum, score) => sum + score, 0) / sampleSize,
+      conversionRate: converted.size / sampleSize,
+      revenuePerUser: 0,
+      npsScore: ((promoters - detractors) / sampleSize) * 100,
+      confidenceLevel:
+        state.personas.reduce((sum, persona) => sum + persona.confidenceLevel, 0) / sampleSize,
+      sampleSize,
+    };
+  }
+
+  /**
+   * Combine the decision engine verdict with the configured CLI thresholds
+   * Positioning is measured as user satisfaction; GO requires the engine to
+   * return GO and every configured threshold to pass.
+   * @param result - Decision engine result
+   * @param metrics - Metrics the decision was made on
+   * @param viral - Viral coefficient of the run
+   * @param thresholds - Configured thresholds
+   * @returns CLI go/no-go decision
+   */
+  public static toGoNoGoDecision(
+    result: GoNoGoResult,
+    metrics: SimulationMetrics,
+    viral: number,
+    thresholds: ThresholdConfig
+  ): GoNoGoDecision {
+    const scores = {
+      positioning: metrics.userSatisfaction,
+      retention: metrics.retentionRate,
+      viral: clamp(viral, 0, 1),
+    };
+
+    const failed = (Object.keys(scores) as Array<keyof typeof scores>).filter(
+      (metric) => scores[metric] < thresholds[metric]
+    );
+
+    const reasoning =
+      failed.length > 0
+        ? `${result.reasoning} Below configured thresholds: ${failed.join(', ')}.`
+        : result.reasoning;
+
+    return {
+      decision: result.decision === 'GO' && failed.length === 0 ? 'go' : 'no-go',
+      confidence: result.confidence,
+      reasoning,
+      metrics: scores,
+    };
+  }
+
+  /**
+   * Find personas that emitted events matching an action and event type
+   */
+  private static findPersonas(
+    events: TelemetryEvent[],
+    action: string,
+    eventType: string
+  ): string[] {
+    return Array.from(
+      new Set(
+        events
+          .filter((event) => event.action === action && event.eventType === eventType)
+          .map((event) => event.personaId)
+      )
+    );
+  }
+}
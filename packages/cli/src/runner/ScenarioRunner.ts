@@ -0,0 +1,429 @@
+/**
+ * Scenario runner - Simulate a plugin scenario and check its expected outcomes
+ */
+
+import {
+  ActionType,
+  type ISimpleProductAdapter,
+  type PersonaProfile,
+  type UserAction,
+} from '@suts/core';
+import { PersonaState, SimulationEngine, type PersonaStateSnapshot } from '@suts/simulation';
+import { ConfigError, SimulationError, ValidationError } from '../errors';
+import {
+  PluginRegistry,
+  type LoadedPlugin,
+  type PluginExpectedOutcome,
+  type PluginScenario,
+} from './PluginRegistry';
+import { DecisionProviderLoader, type DecisionProviderKind } from './DecisionProviderLoader';
+
+/**
+ * Priority multiplier for adapter actions that are steps of the scenario
+ */
+const SCENARIO_STEP_BOOST = 3;
+
+/**
+ * Priority of adapter actions without one (matches the simulation loop default)
+ */
+const DEFAULT_ACTION_PRIORITY = 0.5;
+
+/**
+ * Behaviours read from scenario metrics, matched against plugin red flags
+ */
+const OBSERVED_BEHAVIORS: ReadonlyArray<{
+  behavior: string;
+  observed: (metrics: ScenarioMetrics) => boolean;
+}> = [
+  { behavior: 'Slow adoption', observed: (metrics) => metrics.onboardingCompletion < 0.5 },
+  { behavior: 'High friction', observed: (metrics) => metrics.frustrationScore >= 0.5 },
+  { behavior: 'No sharing', observed: (metrics) => metrics.referralProbability === 0 },
+  { behavior: 'Early churn', observed: (metrics) => metrics.churnProbability >= 0.5 },
+];
+
+/**
+ * Options for a scenario run
+ */
+export interface ScenarioRunOptions {
+  /** Simulated days per run */
+  days: number;
+  /** Simulated copies of each persona */
+  runs: number;
+  seed: number;
+  /** Largest accepted absolute difference between actual and expected metrics */
+  tolerance: number;
+  /** Where persona decisions come from */
+  decisionProvider: DecisionProviderKind;
+}
+
+/**
+ * Metrics measured for one persona archetype across its runs
+ * - onboardingCompletion: share of scenario steps completed, averaged over runs
+ * - frustrationScore, delightScore: mean final frustration and delight
+ * - churnProbability: share of runs ending churned
+ * - referralProbability: share of runs with a successful share
+ */
+export type ScenarioMetrics = Record<
+  | 'onboardingCompletion'
+  | 'frustrationScore'
+  | 'delightScore'
+  | 'churnProbability'
+  | 'referralProbability',
+  number
+>;
+
+/**
+ * Comparison of one metric with its expected value
+ * Metrics the runner does not measure are skipped.
+ */
+export interface MetricCheck {
+  metric: string;
+  expected: number;
+  actual?: number;
+  deviation?: number;
+  status: 'pass' | 'fail' | 'skipped';
+}
+
+/**
+ * Verdict of a scenario or one of its personas
+ * - pass: every measured metric is within the tolerance and no red flag was observed
+ * - fail: a measured metric is outside the tolerance or a red flag was observed
+ * - unchecked: nothing failed, but no expected metric was measured
+ */
+export type ScenarioStatus = 'pass' | 'fail' | 'unchecked';
+
+/**
+ * Outcome of a scenario for one persona archetype
+ */
+export interface ScenarioPersonaResult {
+  persona: string;
+  templateId: string;
+  metrics: ScenarioMetrics;
+  /** Empty when the plugin expects no outcome for this persona */
+  checks: MetricCheck[];
+  /** Behaviours observed in the metrics */
+  behavior: string[];
+  /** Red flags of the expected outcome that were observed */
+  redFlags: string[];
+  status: ScenarioStatus;
+}
+
+/**
+ * Outcome of a scenario run
+ */
+export interface ScenarioReport {
+  plugin: string;
+  scenario: { id: string; name: string };
+  options: ScenarioRunOptions;
+  personas: ScenarioPersonaResult[];
+  /** Failed if any persona failed, unchecked if any persona had nothing measured */
+  status: ScenarioStatus;
+  /** True only if every persona passed */
+  passed: boolean;
+}
+
+/**
+ * Run plugin scenarios through the simulation engine
+ */
+export class ScenarioRunner {
+  /**
+   * Simulate a scenario and check the outcomes the plugin expects
+   * Each persona template the scenario targets is simulated `runs` times with
+   * the scenario's steps favoured among the actions the adapter offers.
+   * @param plugin - Loaded product plugin
+   * @param scenarioId - Scenario ID
+   * @param options - Run options
+   * @returns Scenario report
+   * @throws {ConfigError} If the plugin cannot drive a simulation or LLM decisions lack an API key
+   * @throws {ValidationError} If the scenario or its personas are not found
+   * @throws {SimulationError} If the simulation fails
+   */
+  public static async run(
+    plugin: LoadedPlugin,
+    scenarioId: string,
+    options: ScenarioRunOptions
+  ): Promise<ScenarioReport> {
+    if (!PluginRegistry.isSimpleAdapter(plugin.adapter)) {
+      throw new ConfigError(
+        `Product plugin ${plugin.source} only provides an IProductAdapter; scenarios require an ISimpleProductAdapter`
+      );
+    }
+
+    const scenario = plugin.scenarios.find((candidate) => candidate.id === scenarioId);
+    if (scenario === undefined) {
+      const available = plugin.scenarios.map((candidate) => candidate.id);
+      throw new ValidationError(`Scenario not found: ${scenarioId}`, [
+        `Plugin ${plugin.name} provides: ${available.length > 0 ? available.join(', ') : 'no scenarios'}`,
+      ]);
+    }
+
+    const templates = ScenarioRunner.getTargetPersonas(plugin, scenario);
+    const personas = templates.flatMap((template) =>
+      Array.from({ length: options.runs }, (_, run) => ({
+        ...template,
+        id: ScenarioRunner.runPersonaId(template, run),
+      }))
+    );
+
+    const adapter = ScenarioRunner.focusAdapter(plugin.adapter, scenario);
+    const engine = new SimulationEngine({
+      seed: options.seed,
+      productAdapter: adapter,
+      decisionProvider: DecisionProviderLoader.load(options.decisionProvider, options.seed),
+    });
+    let snapshots: PersonaStateSnapshot[];
+    try {
+      snapshots = (await engine.run(personas, adapter.getInitialState(), options.days)).personas;
+    } catch (error) {
+      throw new SimulationError(
+        `Scenario ${scenario.id} failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const results = templates.map((template): ScenarioPersonaResult => {
+      const runIds = new Set(
+        Array.from({ length: options.runs }, (_, run) => ScenarioRunner.runPersonaId(template, run))
+      );
+      const metrics = ScenarioRunner.computeMetrics(
+        scenario,
+        snapshots.filter((snapshot) => runIds.has(snapshot.personaId))
+      );
+      const expected = plugin.expectedOutcomes.find(
+        (outcome) => outcome.scenario === scenario.id && outcome.persona === template.archetype
+      );
+      const checks =
+        expected === undefined
+          ? []
+          : ScenarioRunner.checkMetrics(metrics, expected.expectedMetrics, options.tolerance);
+      const behavior = ScenarioRunner.observeBehavior(metrics);
+      const redFlags =
+        expected === undefined
+          ? []
+          : (plugin.identifyRedFlags ?? ScenarioRunner.identifyRedFlags)(behavior, expected).flags;
+
+      return {
+        persona: template.archetype,
+        templateId: template.id,
+        metrics,
+        checks,
+        behavior,
+        redFlags,
+        status: ScenarioRunner.getStatus(checks, redFlags),
+      };
+    });
+
+    const status: ScenarioStatus = results.some((result) => result.status === 'fail')
+      ? 'fail'
+      : results.some((result) => result.status === 'unchecked')
+        ? 'unchecked'
+        : 'pass';
+    return {
+      plugin: plugin.name,
+      scenario: { id: scenario.id, name: scenario.name },
+      options,
+      personas: results,
+      status,
+      passed: status === 'pass',
+    };
+  }
+
+  /**
+   * Measure scenario metrics over the runs of one persona
+   * @param scenario - Scenario whose steps count towards onboarding
+   * @param snapshots - Final persona states of the runs
+   * @returns Metrics, all zero without runs
+   */
+  public static computeMetrics(
+    scenario: PluginScenario,
+    snapshots: PersonaStateSnapshot[]
+  ): ScenarioMetrics {
+    if (snapshots.length === 0) {
+      return {
+        onboardingCompletion: 0,
+        frustrationScore: 0,
+        delightScore: 0,
+        churnProbability: 0,
+        referralProbability: 0,
+      };
+    }
+
+    const mean = (values: number[]): number =>
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    return {
+      onboardingCompletion: mean(
+        snapshots.map((snapshot) =>
+          scenario.actions.length === 0
+            ? 1
+            : scenario.actions.filter((step) => ScenarioRunner.completedStep(snapshot, step))
+                .length / scenario.actions.length
+        )
+      ),
+      frustrationScore: mean(snapshots.map((snapshot) => snapshot.frustrationLevel)),
+      delightScore: mean(snapshots.map((snapshot) => snapshot.delightLevel)),
+      churnProbability: mean(
+        snapshots.map((snapshot) => (snapshot.finalState === PersonaState.CHURNED ? 1 : 0))
+      ),
+      referralProbability: mean(
+        snapshots.map((snapshot) =>
+          ScenarioRunner.successfulActions(snapshot).some(
+            (event) => event.action === ActionType.SHARE
+          )
+            ? 1
+            : 0
+        )
+      ),
+    };
+  }
+
+  /**
+   * Compare measured metrics with expected values
+   * @param metrics - Measured metrics
+   * @param expected - Expected values by metric name
+   * @param tolerance - Largest accepted absolute difference
+   * @returns One check per expected metric
+   */
+  public static checkMetrics(
+    metrics: ScenarioMetrics,
+    expected: Record<string, number>,
+    tolerance: number
+  ): MetricCheck[] {
+    return Object.entries(expected).map(([metric, expectedValue]): MetricCheck => {
+      const actual = (metrics as Record<string, number>)[metric];
+      if (actual === undefined) {
+        return { metric, expected: expectedValue, status: 'skipped' };
+      }
+
+      const deviation = Math.abs(actual - expectedValue);
+      return {
+        metric,
+        expected: expectedValue,
+        actual,
+        deviation,
+        status: deviation <= tolerance ? 'pass' : 'fail',
+      };
+    });
+  }
+
+  /**
+   * Describe the behaviour scenario metrics show, in the terms plugins use for red flags
+   * @param metrics - Measured metrics
+   * @returns Observed behaviours
+   */
+  public static observeBehavior(metrics: ScenarioMetrics): string[] {
+    return OBSERVED_BEHAVIORS.filter(({ observed }) => observed(metrics)).map(
+      ({ behavior }) => behavior
+    );
+  }
+
+  /**
+   * Find the red flags of an expected outcome among observed behaviours
+   * Used for plugins that do not export their own `identifyRedFlags`; a flag
+   * is observed when a behaviour contains it, ignoring case.
+   * @param behavior - Observed behaviours
+   * @param expected - Expected outcome
+   * @returns Observed red flags
+   */
+  public static identifyRedFlags(
+    behavior: string[],
+    expected: PluginExpectedOutcome
+  ): { flags: string[] } {
+    return {
+      flags: (expected.redFlags ?? []).filter((flag) =>
+        behavior.some((observed) => observed.toLowerCase().includes(flag.toLowerCase()))
+      ),
+    };
+  }
+
+  /**
+   * Decide the verdict for one persona
+   * A persona whose expected metrics were all skipped, or who has no expected
+   * outcome, is unchecked rather than passed.
+   */
+  private static getStatus(checks: MetricCheck[], redFlags: string[]): ScenarioStatus {
+    if (redFlags.length > 0 || checks.some((check) => check.status === 'fail')) {
+      return 'fail';
+    }
+    return checks.some((check) => check.status === 'pass') ? 'pass' : 'unchecked';
+  }
+
+  /**
+   * Find the persona templates a scenario targets
+   * Scenarios without target personas use every template.
+   * @throws {ValidationError} If the plugin has no matching template
+   */
+  private static getTargetPersonas(
+    plugin: LoadedPlugin,
+    scenario: PluginScenario
+  ): PersonaProfile[] {
+    const targets = scenario.targetPersonas;
+    const templates =
+      targets === undefined || targets.length === 0
+        ? plugin.personaTemplates
+        : plugin.personaTemplates.filter((template) => targets.includes(template.archetype));
+
+    if (templates.length === 0) {
+      throw new ValidationError(`Scenario ${scenario.id} has no persona templates to run`, [
+        `Plugin ${plugin.name} has no persona template for: ${targets?.join(', ') ?? 'any persona'}`,
+      ]);
+    }
+    return templates;
+  }
+
+  /**
+   * Wrap an adapter so scenario steps are more likely to be chosen
+   */
+  private static focusAdapter(
+    adapter: ISimpleProductAdapter,
+    scenario: PluginScenario
+  ): ISimpleProductAdapter {
+    const isStep = (action: UserAction): boolean =>
+      scenario.actions.some((step) => step.type === action.type && step.feature === action.feature);
+
+    return {
+      getInitialState: () => adapter.getInitialState(),
+      applyAction: (state, action) => adapter.applyAction(state, action),
+      getAvailableActions: (state, persona) =>
+        adapter.getAvailableActions(state, persona).map((action) => {
+          if (!isStep(action)) {
+            return action;
+          }
+          const priority = action.metadata?.['priority'];
+          const base =
+            typeof priority === 'number' && priority > 0 ? priority : DEFAULT_ACTION_PRIORITY;
+          return {
+            ...action,
+            metadata: { ...action.metadata, priority: base * SCENARIO_STEP_BOOST },
+          };
+        }),
+    };
+  }
+
+  /**
+   * Check whether a run completed a scenario step
+   * Actions without a target, such as the initial install, match any feature.
+   */
+  private static completedStep(snapshot: PersonaStateSnapshot, step: UserAction): boolean {
+    return ScenarioRunner.successfulActions(snapshot).some(
+      (event) =>
+        event.action === step.type &&
+        (event.context['target'] === undefined || event.context['target'] === step.feature)
+    );
+  }
+
+  /**
+   * Get a run's successful action events
+   */
+  private static successfulActions(snapshot: PersonaStateSnapshot): PersonaStateSnapshot['events'] {
+    return snapshot.events.filter(
+      (event) => event.eventType === 'action' && event.context['success'] === true
+    );
+  }
+
+  /**
+   * ID of one simulated copy of a persona template
+   */
+  private static runPersonaId(template: PersonaProfile, run: number): string {
+    return `${template.id}-run-${run + 1}`;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Simulation runner exports
+ */
+
+export { ProductLoader } from './ProductLoader';
+export { PersonaLoader } from './PersonaLoader';
+export { ResultsMapper } from './ResultsMapper';
+export { EventStoreLoader } from './EventStoreLoader';
+export { DecisionProviderLoader, type DecisionProviderKind } from './DecisionProviderLoader';
+export {
+  PluginRegistry,
+  PLUGIN_PACKAGE_PREFIX,
+  type ProductAdapterKind,
+  type PluginScenario,
+  type PluginExpectedOutcome,
+  type RedFlagIdentifier,
+  type PluginInfo,
+  type LoadedPlugin,
+} from './PluginRegistry';
+export {
+  ScenarioRunner,
+  type ScenarioRunOptions,
+  type ScenarioMetrics,
+  type MetricCheck,
+  type ScenarioPersonaResult,
+  type ScenarioReport,
+  type ScenarioStatus,
+} from './ScenarioRunner';
+export {
+  Calibrator,
+  CalibrationTargetsSchema,
+  DEFAULT_PARAMETER_SPACE,
+  DEFAULT_RETENTION_DAYS,
+  type CalibrationTargets,
+  type CalibrationParameterName,
+  type CalibrationParameter,
+  type CalibrationOptions,
+  type MetricError,
+  type CalibrationEvaluation,
+  type CalibrationResult,
+} from './Calibrator';
+export { ProductSimulator, type ProductSimulatorOptions } from './ProductSimulator';
+export {
+  ExperimentRunner,
+  ExperimentFileSchema,
+  StateChangeSchema,
+  type ExperimentFile,
+  type StateChange,
+  type ExperimentMetric,
+  type ExperimentRunOptions,
+  type ExperimentArmResult,
+  type CriterionCheck,
+  type TreatmentResult,
+  type ExperimentReport,
+} from './ExperimentRunner';
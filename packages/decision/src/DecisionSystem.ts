@@ -10,6 +10,7 @@ import {
   GoNoGoResult,
   ProductChange,
   SimulationMetrics,
+  SimulatedImpact,
   DecisionConfig,
 } from './models';
 
@@ -21,6 +22,10 @@ import { RICEScorer } from './prioritization/RICEScorer';
 import { RetentionPredictor } from './prediction/RetentionPredictor';
 import { ChurnPredictor } from './prediction/ChurnPredictor';
 import { GrowthPredictor } from './prediction/GrowthPredictor';
+import {
+  CounterfactualPredictor,
+  CounterfactualOptions,
+} from './prediction/CounterfactualPredictor';
 import {
   RevenuePredictor,
   RevenuePredictorConfig,
@@ -31,6 +36,15 @@ import { RiskAssessor } from './recommendation/RiskAssessor';
 
 import { GoNoGoEngine } from './logic/GoNoGoEngine';
 
+/**
+ * Current metrics heuristic impact predictions start from
+ */
+export interface BaselineMetrics {
+  retention: number;
+  churn: number;
+  growth: number;
+}
+
 /**
  * Main decision system for prioritization and recommendations
  */
@@ -48,6 +62,7 @@ export class DecisionSystem {
   private readonly churnPredictor: ChurnPredictor;
   private readonly growthPredictor: GrowthPredictor;
   private readonly revenuePredictor: RevenuePredictor;
+  private readonly counterfactualPredictor: CounterfactualPredictor;
 
   // Recommendation components
   private readonly experimentDesigner: ExperimentDesigner;
@@ -80,6 +95,7 @@ export class DecisionSystem {
       currentUserBase: 10000,
     };
     this.revenuePredictor = new RevenuePredictor(revenueConfig);
+    this.counterfactualPredictor = new CounterfactualPredictor();
 
     // Initialize recommendation components
     this.experimentDesigner = new ExperimentDesigner();
@@ -160,18 +176,30 @@ export class DecisionSystem {
 
   /**
    * Predict impact of a product change
+   * With counterfactual options, the retention, churn and growth changes are
+   * measured by paired simulations of the baseline and modified product states
+   * and reported with bootstrap confidence intervals. Without them, they are
+   * estimated from the change type, effort and reach.
    * @param change - Proposed product change
-   * @param baselineMetrics - Current baseline metrics
-   * @returns Impact prediction
+   * @param baselineMetrics - Current baseline metrics (heuristic estimates only)
+   * @param counterfactual - Simulator and product states to measure the change with
+   * @returns Impact prediction, resolved after the simulations when simulating
    */
+  public predictImpact(change: ProductChange, baselineMetrics?: BaselineMetrics): ImpactPrediction;
+  public predictImpact(
+    change: ProductChange,
+    baselineMetrics: BaselineMetrics | undefined,
+    counterfactual: CounterfactualOptions
+  ): Promise<ImpactPrediction>;
   public predictImpact(
     change: ProductChange,
-    baselineMetrics?: {
-      retention: number;
-      churn: number;
-      growth: number;
+    baselineMetrics?: BaselineMetrics,
+    counterfactual?: CounterfactualOptions
+  ): ImpactPrediction | Promise<ImpactPrediction> {
+    if (counterfactual !== undefined) {
+      return this.predictSimulatedImpact(change, counterfactual);
     }
-  ): ImpactPrediction {
+
     const baseline = baselineMetrics ?? {
       retention: 0.7,
       churn: 0.3,
@@ -188,11 +216,6 @@ export class DecisionSystem {
       change,
       baseline.growth
     );
-    const revenueChange = this.revenuePredictor.predict(
-      change,
-      retentionChange,
-      growthChange
-    );
 
     // Calculate confidence
     const retentionConfidence =
@@ -208,6 +231,79 @@ export class DecisionSystem {
         revenueConfidence) /
       4;
 
+    return this.createPrediction(
+      change,
+      retentionChange,
+      churnChange,
+      growthChange,
+      avgConfidence
+    );
+  }
+
+  /**
+   * Make GO/NO-GO decision
+   * @param metrics - Simulation metrics
+   * @returns GO/NO-GO decision result
+   */
+  public goNoGoDecision(metrics: SimulationMetrics): GoNoGoResult {
+    return this.goNoGoEngine.decide(metrics);
+  }
+
+  /**
+   * Predict impact from paired baseline and modified simulations
+   * Confidence falls as the confidence intervals widen.
+   * @param change - Proposed product change
+   * @param counterfactual - Simulator and product states
+   * @returns Impact prediction with the measured changes
+   */
+  private async predictSimulatedImpact(
+    change: ProductChange,
+    counterfactual: CounterfactualOptions
+  ): Promise<ImpactPrediction> {
+    const simulation = await this.counterfactualPredictor.predict(counterfactual);
+    const { retention, churn, growth } = simulation;
+
+    const avgWidth =
+      (retention.upper -
+        retention.lower +
+        (churn.upper - churn.lower) +
+        (growth.upper - growth.lower)) /
+      3;
+
+    return this.createPrediction(
+      change,
+      this.clampChange(retention.delta),
+      this.clampChange(churn.delta),
+      this.clampChange(growth.delta),
+      Math.max(0, Math.min(1, 1 - avgWidth)),
+      simulation
+    );
+  }
+
+  /**
+   * Create an impact prediction from metric changes
+   * @param change - Product change
+   * @param retentionChange - Retention change
+   * @param churnChange - Churn change
+   * @param growthChange - Growth change
+   * @param confidenceLevel - Confidence of the prediction
+   * @param simulation - Simulation the changes were measured by
+   * @returns Impact prediction with risks and opportunities
+   */
+  private createPrediction(
+    change: ProductChange,
+    retentionChange: number,
+    churnChange: number,
+    growthChange: number,
+    confidenceLevel: number,
+    simulation?: SimulatedImpact
+  ): ImpactPrediction {
+    const revenueChange = this.revenuePredictor.predict(
+      change,
+      retentionChange,
+      growthChange
+    );
+
     // Create prediction
     const prediction: ImpactPrediction = {
       changeId: change.id,
@@ -215,11 +311,12 @@ export class DecisionSystem {
       predictedChurnChange: churnChange,
       predictedGrowthChange: growthChange,
       predictedRevenueChange: revenueChange,
-      confidenceLevel: avgConfidence,
+      confidenceLevel,
       affectedUserCount: change.expectedReach,
       timeToImpact: this.estimateTimeToImpact(change),
       risks: [],
       opportunities: [],
+      ...(simulation !== undefined && { simulation }),
     };
 
     // Assess risks
@@ -237,12 +334,12 @@ export class DecisionSystem {
   }
 
   /**
-   * Make GO/NO-GO decision
-   * @param metrics - Simulation metrics
-   * @returns GO/NO-GO decision result
+   * Clamp a metric change to the prediction range
+   * @param value - Metric change
+   * @returns Change between -1 and 1
    */
-  public goNoGoDecision(metrics: SimulationMetrics): GoNoGoResult {
-    return this.goNoGoEngine.decide(metrics);
+  private clampChange(value: number): number {
+    return Math.max(-1, Math.min(1, value));
   }
 
   /**
@@ -2,8 +2,10 @@
  * Tests for DecisionSystem
  */
 
+import type { ProductState } from '@suts/core';
 import { DecisionSystem } from '../DecisionSystem';
 import { AnalysisResult, ProductChange, SimulationMetrics } from '../models';
+import { ImpactSimulator } from '../prediction/CounterfactualPredictor';
 
 describe('DecisionSystem', () => {
   let system: DecisionSystem;
@@ -173,6 +175,53 @@ describe('DecisionSystem', () => {
       const prediction = system.predictImpact(change);
       expect(Array.isArray(prediction.risks)).toBe(true);
     });
+
+    it('should measure impact by paired simulations when a simulator is given', async () => {
+      const state = (onboarding: boolean): ProductState => ({
+        version: '1.0.0',
+        features: { onboarding },
+        uiElements: {},
+        config: {},
+        userData: {},
+        environment: 'development',
+        metadata: {},
+      });
+      const simulator: ImpactSimulator = {
+        simulate: (productState, seed) => {
+          const lift = productState.features['onboarding'] === true ? 0.1 : 0;
+          const noise = (seed % 3) / 20;
+          return Promise.resolve(
+            createMetrics({
+              retentionRate: 0.6 + noise + lift,
+              churnRate: 0.4 - noise - lift,
+              growthRate: 0.05,
+            })
+          );
+        },
+      };
+
+      const prediction = await system.predictImpact(createChange(), undefined, {
+        simulator,
+        baselineState: state(false),
+        modifiedState: state(true),
+        runs: 4,
+      });
+
+      expect(prediction.simulation?.runs).toBe(4);
+      expect(prediction.predictedRetentionChange).toBeCloseTo(0.1, 10);
+      expect(prediction.predictedChurnChange).toBeCloseTo(-0.1, 10);
+      expect(prediction.predictedGrowthChange).toBeCloseTo(0, 10);
+      expect(prediction.confidenceLevel).toBeCloseTo(1, 10);
+      expect(prediction.opportunities.map((o) => o.type)).toEqual(
+        expect.arrayContaining(['retention', 'churn'])
+      );
+    });
+
+    it('should fall back to heuristic estimates without a simulator', () => {
+      const prediction = system.predictImpact(createChange());
+
+      expect(prediction.simulation).toBeUndefined();
+    });
   });
 
   describe('goNoGoDecision', () => {
@@ -0,0 +1,135 @@
+/**
+ * Tests for CounterfactualPredictor
+ */
+
+import type { ProductState } from '@suts/core';
+import { CounterfactualPredictor, ImpactSimulator } from '../../prediction/CounterfactualPredictor';
+import { SimulationMetrics } from '../../models';
+
+describe('CounterfactualPredictor', () => {
+  let predictor: CounterfactualPredictor;
+
+  beforeEach(() => {
+    predictor = new CounterfactualPredictor();
+  });
+
+  const createState = (features: Record<string, boolean> = {}): ProductState => ({
+    version: '1.0.0',
+    features,
+    uiElements: {},
+    config: {},
+    userData: {},
+    environment: 'development',
+    metadata: {},
+  });
+
+  const createMetrics = (retentionRate: number, growthRate: number): SimulationMetrics => ({
+    retentionRate,
+    churnRate: 1 - retentionRate,
+    growthRate,
+    avgSessionDuration: 300,
+    userSatisfaction: 0.8,
+    conversionRate: 0.15,
+    revenuePerUser: 0,
+    npsScore: 0,
+    confidenceLevel: 0.9,
+    sampleSize: 100,
+  });
+
+  /**
+   * Simulator whose noise depends only on the seed, and where the
+   * onboarding feature adds a fixed retention lift
+   */
+  const createSimulator = (lift: number): ImpactSimulator & { seeds: number[] } => {
+    const seeds: number[] = [];
+    return {
+      seeds,
+      simulate: (state, seed) => {
+        seeds.push(seed);
+        const noise = ((seed * 37) % 20) / 100;
+        const onboarding = state.features['onboarding'] === true;
+        return Promise.resolve(createMetrics(0.5 + noise + (onboarding ? lift : 0), noise / 2));
+      },
+    };
+  };
+
+  describe('predict', () => {
+    it('should simulate both states with common random numbers', async () => {
+      const simulator = createSimulator(0.1);
+
+      const result = await predictor.predict({
+        simulator,
+        baselineState: createState(),
+        modifiedState: createState({ onboarding: true }),
+        runs: 3,
+        seed: 7,
+      });
+
+      expect(simulator.seeds).toEqual([7, 7, 8, 8, 9, 9]);
+      expect(result.runs).toBe(3);
+      expect(result.retention.delta).toBeCloseTo(0.1, 10);
+      expect(result.churn.delta).toBeCloseTo(-0.1, 10);
+      expect(result.growth.delta).toBeCloseTo(0, 10);
+    });
+
+    it('should report a tight interval when paired differences agree', async () => {
+      const result = await predictor.predict({
+        simulator: createSimulator(0.1),
+        baselineState: createState(),
+        modifiedState: createState({ onboarding: true }),
+        runs: 5,
+      });
+
+      expect(result.retention.lower).toBeCloseTo(0.1, 10);
+      expect(result.retention.upper).toBeCloseTo(0.1, 10);
+      expect(result.retention.modified - result.retention.baseline).toBeCloseTo(0.1, 10);
+    });
+
+    it('should bootstrap a confidence interval around noisy differences', async () => {
+      const simulator: ImpactSimulator = {
+        simulate: (state, seed) =>
+          Promise.resolve(
+            createMetrics(state.features['onboarding'] === true ? 0.5 + (seed % 5) / 20 : 0.5, 0)
+          ),
+      };
+
+      const result = await predictor.predict({
+        simulator,
+        baselineState: createState(),
+        modifiedState: createState({ onboarding: true }),
+        runs: 10,
+        seed: 0,
+      });
+
+      expect(result.confidence).toBe(0.95);
+      expect(result.retention.delta).toBeCloseTo(0.1, 10);
+      expect(result.retention.lower).toBeLessThan(result.retention.delta);
+      expect(result.retention.upper).toBeGreaterThan(result.retention.delta);
+      expect(result.retention.lower).toBeGreaterThanOrEqual(0);
+      expect(result.retention.upper).toBeLessThanOrEqual(0.2);
+    });
+
+    it('should be deterministic for a seed', async () => {
+      const options = {
+        simulator: createSimulator(0.05),
+        baselineState: createState(),
+        modifiedState: createState({ onboarding: true }),
+        runs: 4,
+        seed: 3,
+      };
+
+      expect(await predictor.predict(options)).toEqual(await predictor.predict(options));
+    });
+
+    it('should reject invalid options', async () => {
+      const options = {
+        simulator: createSimulator(0.1),
+        baselineState: createState(),
+        modifiedState: createState(),
+      };
+
+      await expect(predictor.predict({ ...options, runs: 0 })).rejects.toThrow(/runs/);
+      await expect(predictor.predict({ ...options, confidence: 1 })).rejects.toThrow(/confidence/);
+    });
+  });
+});
@@ -4,7 +4,7 @@
  */
 
 // Main system
-export { DecisionSystem } from './DecisionSystem';
+export { DecisionSystem, BaselineMetrics } from './DecisionSystem';
 
 // Models
 export * from './models';
@@ -20,6 +20,11 @@ export { RetentionPredictor } from './prediction/RetentionPredictor';
 export { ChurnPredictor } from './prediction/ChurnPredictor';
 export { GrowthPredictor } from './prediction/GrowthPredictor';
 export { RevenuePredictor, RevenuePredictorConfig } from './prediction/RevenuePredictor';
+export {
+  CounterfactualPredictor,
+  CounterfactualOptions,
+  ImpactSimulator,
+} from './prediction/CounterfactualPredictor';
 
 // Recommendation
 export { ExperimentDesigner, ExperimentDesignerConfig } from './recommendation/ExperimentDesigner';
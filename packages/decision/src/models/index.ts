@@ -103,6 +103,32 @@ export const ExperimentSchema = z.object({
 
 export type Experiment = z.infer<typeof ExperimentSchema>;
 
+/**
+ * Paired simulation estimate of a metric change
+ */
+export const SimulatedDeltaSchema = z.object({
+  baseline: z.number(),
+  modified: z.number(),
+  delta: z.number(),
+  lower: z.number(),
+  upper: z.number(),
+});
+
+export type SimulatedDelta = z.infer<typeof SimulatedDeltaSchema>;
+
+/**
+ * Impact measured by paired baseline and modified simulations
+ */
+export const SimulatedImpactSchema = z.object({
+  runs: z.number().int().min(1),
+  confidence: z.number().min(0).max(1),
+  retention: SimulatedDeltaSchema,
+  churn: SimulatedDeltaSchema,
+  growth: SimulatedDeltaSchema,
+});
+
+export type SimulatedImpact = z.infer<typeof SimulatedImpactSchema>;
+
 /**
  * Impact prediction for a change
  */
@@ -131,6 +157,7 @@ export const ImpactPredictionSchema = z.object({
       description: z.string(),
     })
   ),
+  simulation: SimulatedImpactSchema.optional(),
 });
 
 export type ImpactPrediction = z.infer<typeof ImpactPredictionSchema>;
@@ -0,0 +1,168 @@
+/**
+ * Predicts the impact of product changes from paired simulations
+ */
+
+import type { ProductState } from '@suts/core';
+import { SimulatedDelta, SimulatedImpact, SimulationMetrics } from '../models';
+
+/**
+ * Runs one simulation of a product state
+ */
+export interface ImpactSimulator {
+  /**
+   * Simulate a product state
+   * Runs with the same seed must draw the same random numbers, so baseline
+   * and modified states are compared on common random numbers.
+   * @param state - Product state to simulate
+   * @param seed - Random seed of the run
+   * @returns Metrics of the run
+   */
+  simulate(state: ProductState, seed: number): Promise<SimulationMetrics>;
+}
+
+/**
+ * Options for a counterfactual prediction
+ */
+export interface CounterfactualOptions {
+  /**
+   * Simulator running both product states
+   */
+  simulator: ImpactSimulator;
+  /**
+   * Product state without the change
+   */
+  baselineState: ProductState;
+  /**
+   * Product state with the change applied
+   */
+  modifiedState: ProductState;
+  /**
+   * Paired runs per state (default: 10)
+   */
+  runs?: number;
+  /**
+   * Seed of the first run; run i uses seed + i (default: 42)
+   */
+  seed?: number;
+  /**
+   * Confidence level of the intervals (default: 0.95)
+   */
+  confidence?: number;
+  /**
+   * Bootstrap resamples per interval (default: 1000)
+   */
+  bootstrapSamples?: number;
+}
+
+/**
+ * Predicts impact by simulating a product with and without a change
+ */
+export class CounterfactualPredictor {
+  /**
+   * Measure metric changes over paired simulations
+   * Each run simulates both states with the same seed. The reported delta is
+   * the mean paired difference and its interval a percentile bootstrap of
+   * the paired differences.
+   * @param options - Simulator, product states and sampling options
+   * @returns Measured retention, churn and growth changes
+   */
+  public async predict(options: CounterfactualOptions): Promise<SimulatedImpact> {
+    const runs = options.runs ?? 10;
+    const seed = options.seed ?? 42;
+    const confidence = options.confidence ?? 0.95;
+    const bootstrapSamples = options.bootstrapSamples ?? 1000;
+
+    if (!Number.isInteger(runs) || runs < 1) {
+      throw new Error('Counterfactual runs must be a positive integer');
+    }
+    if (confidence <= 0 || confidence >= 1) {
+      throw new Error('Counterfactual confidence must be between 0 and 1');
+    }
+
+    const baseline: SimulationMetrics[] = [];
+    const modified: SimulationMetrics[] = [];
+    for (let i = 0; i < runs; i++) {
+      baseline.push(await options.simulator.simulate(options.baselineState, seed + i));
+      modified.push(await options.simulator.simulate(options.modifiedState, seed + i));
+    }
+
+    const measure = (metric: 'retentionRate' | 'churnRate' | 'growthRate'): SimulatedDelta =>
+      this.measureDelta(
+        baseline.map((m) => m[metric]),
+        modified.map((m) => m[metric]),
+        confidence,
+        bootstrapSamples,
+        seed
+      );
+
+    return {
+      runs,
+      confidence,
+      retention: measure('retentionRate'),
+      churn: measure('churnRate'),
+      growth: measure('growthRate'),
+    };
+  }
+
+  /**
+   * Calculate the mean paired difference with its bootstrap interval
+   * @param baseline - Baseline values per run
+   * @param modified - Modified values per run
+   * @param confidence - Confidence level
+   * @param samples - Bootstrap resamples
+   * @param seed - Seed of the resampling
+   * @returns Metric change
+   */
+  private measureDelta(
+    baseline: number[],
+    modified: number[],
+    confidence: number,
+    samples: number,
+    seed: number
+  ): SimulatedDelta {
+    const differences = modified.map((value, i) => value - (baseline[i] ?? 0));
+    const delta = this.mean(differences);
+
+    const random = this.createRandom(seed);
+    const means: number[] = [];
+    for (let s = 0; s < samples; s++) {
+      let sum = 0;
+      for (let i = 0; i < differences.length; i++) {
+        sum += differences[Math.floor(random() * differences.length)] ?? 0;
+      }
+      means.push(sum / differences.length);
+    }
+    means.sort((a, b) => a - b);
+
+    const tail = (1 - confidence) / 2;
+    return {
+      baseline: this.mean(baseline),
+      modified: this.mean(modified),
+      delta,
+      lower: means[Math.floor(tail * (means.length - 1))] ?? delta,
+      upper: means[Math.ceil((1 - tail) * (means.length - 1))] ?? delta,
+    };
+  }
+
+  /**
+   * Calculate the mean of values
+   * @param values - Values
+   * @returns Mean, or 0 for no values
+   */
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  }
+
+  /**
+   * Create a seeded random number generator (linear congruential)
+   * @param seed - Random seed
+   * @returns Generator of numbers in [0, 1)
+   */
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (Math.imul(1664525, state) + 1013904223) >>> 0;
+      return state / 2 ** 32;
+    };
+  }
+}
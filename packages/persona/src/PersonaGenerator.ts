@@ -4,13 +4,20 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import type { IPersonaGenerator, PersonaProfile } from '@suts/core';
-import { getPersonaGenerationPrompt, personaGenerationTool } from './templates/persona-generation';
+import { PersonaProfileSchema, type IPersonaGenerator, type PersonaProfile } from '@suts/core';
+import {
+  getDiversityRepairInstructions,
+  getPersonaCompletionInstructions,
+  getPersonaGenerationPrompt,
+  personaGenerationTool,
+} from './templates/persona-generation';
+import { sha256, type PersonaGenerationInfo } from './PersonaLibrary';
 import {
   analyzeDiversity,
   validatePersonas,
   checkDuplicates,
   validatePersona as validatePersonaSchema,
+  type DiversityResult,
 } from './validation';
 
 /**
@@ -29,6 +36,8 @@ export interface PersonaGeneratorConfig {
   retryDelay?: number;
   /** Target diversity score (0-1) */
   diversityTarget?: number;
+  /** Maximum rounds of regenerating similar personas to reach the diversity target */
+  maxDiversityRepairs?: number;
 }
 
 /**
@@ -41,8 +50,19 @@ const DEFAULT_CONFIG: Required<PersonaGeneratorConfig> = {
   maxRetries: 3,
   retryDelay: 1000,
   diversityTarget: 0.7,
+  maxDiversityRepairs: 3,
 };
 
+/**
+ * Lowest diversity score accepted once the repair budget is spent
+ */
+const MIN_DIVERSITY_SCORE = 0.65;
+
+/**
+ * Persona fields whose values diversity repair spreads across the set
+ */
+const COVERAGE_FIELDS = ['experienceLevel', 'companySize', 'techAdoption'] as const;
+
 /**
  * Error class for persona generation errors
  */
@@ -127,26 +147,51 @@ export class PersonaGenerator implements IPersonaGenerator {
     }
 
     // Ensure diversity
-    personas = this.ensureDiversity(personas);
+    personas = await this.ensureDiversity(personas, analysisText);
 
     return personas;
   }
 
+  /**
+   * Fill the missing fields of partial personas
+   * Fields present in a partial persona are kept as given.
+   * @param partials - Partial personas, e.g. imported from survey data
+   * @param context - Description of the data the partial personas came from
+   * @returns Completed personas in input order, not yet validated
+   */
+  async completePersonas(
+    partials: Array<Partial<PersonaProfile>>,
+    context: string
+  ): Promise<PersonaProfile[]> {
+    if (partials.length === 0) {
+      return [];
+    }
+
+    const generated = await this.generatePersonasWithRetry(
+      context,
+      partials.length,
+      getPersonaCompletionInstructions(partials)
+    );
+    return partials.map((partial, index) => ({ ...generated[index]!, ...partial }));
+  }
+
   /**
    * Generate personas with retry logic
    * @param analysisText - Combined analysis text
    * @param count - Number of personas to generate
+   * @param instructions - Optional extra instructions appended to the request
    * @returns Promise resolving to personas
    */
   private async generatePersonasWithRetry(
     analysisText: string,
-    count: number
+    count: number,
+    instructions?: string
   ): Promise<PersonaProfile[]> {
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt < this.config.maxRetries; attempt++) {
       try {
-        return await this.generatePersonasFromAPI(analysisText, count);
+        return await this.generatePersonasFromAPI(analysisText, count, instructions);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
@@ -176,11 +221,13 @@ export class PersonaGenerator implements IPersonaGenerator {
    * Generate personas from API
    * @param analysisText - Combined analysis text
    * @param count - Number of personas to generate
+   * @param instructions - Optional extra instructions appended to the request
    * @returns Promise resolving to personas
    */
   private async generatePersonasFromAPI(
     analysisText: string,
-    count: number
+    count: number,
+    instructions?: string
   ): Promise<PersonaProfile[]> {
     const systemPrompt = getPersonaGenerationPrompt(count);
 
@@ -193,7 +240,7 @@ export class PersonaGenerator implements IPersonaGenerator {
       messages: [
         {
           role: 'user',
-          content: `Please analyze the following stakeholder analysis documents and generate ${count} diverse, realistic user personas.\n\n# Analysis Documents\n\n${analysisText}`,
+          content: `Please analyze the following stakeholder analysis documents and generate ${count} diverse, realistic user personas.\n\n# Analysis Documents\n\n${analysisText}${instructions !== undefined ? `\n\n${instructions}` : ''}`,
         },
       ],
       tools: [personaGenerationTool],
@@ -225,29 +272,126 @@ export class PersonaGenerator implements IPersonaGenerator {
 
   /**
    * Ensure diversity meets target threshold
+   * While below the target and within the repair budget, the redundant member
+   * of each similar pair is regenerated with instructions steering away from
+   * the kept archetypes and toward under-covered trait values. A round is kept
+   * only if it raises the diversity score.
    * @param personas - Initial personas
+   * @param analysisText - Combined analysis text
    * @returns Diverse personas
+   * @throws {PersonaGenerationError} If diversity stays below 65% after the repair budget
    */
-  private ensureDiversity(personas: PersonaProfile[]): PersonaProfile[] {
+  private async ensureDiversity(
+    personas: PersonaProfile[],
+    analysisText: string
+  ): Promise<PersonaProfile[]> {
     if (personas.length < 2) {
       return personas; // No diversity check needed for single persona
     }
 
-    const diversity = analyzeDiversity(personas);
+    let current = personas;
+    let diversity = analyzeDiversity(current);
+
+    for (
+      let round = 0;
+      round < this.config.maxDiversityRepairs &&
+      diversity.diversityScore < this.config.diversityTarget;
+      round++
+    ) {
+      const redundant = this.selectRedundantPersonas(diversity);
+      if (redundant.size === 0) {
+        break; // Nothing specific to replace
+      }
+
+      const kept = current.filter((persona) => !redundant.has(persona.id));
+      const instructions = getDiversityRepairInstructions(
+        redundant.size,
+        [...new Set(current.map((persona) => persona.archetype))],
+        this.findUnderCoveredTraits(kept, current.length)
+      );
+      const replacements = await this.generatePersonasWithRetry(
+        analysisText,
+        redundant.size,
+        instructions
+      );
+
+      const candidate = [...kept, ...replacements];
+      const valid = Array.from(validatePersonas(replacements).values()).every(
+        (result) => result.valid
+      );
+      if (!valid || checkDuplicates(candidate).length > 0) {
+        continue; // Unusable replacements spend the round
+      }
 
-    if (diversity.diversityScore >= this.config.diversityTarget) {
-      return personas; // Diversity target met
+      const candidateDiversity = analyzeDiversity(candidate);
+      if (candidateDiversity.diversityScore > diversity.diversityScore) {
+        current = candidate;
+        diversity = candidateDiversity;
+      }
     }
 
-    // If diversity is too low, try to regenerate with stronger diversity prompts
-    // For now, we'll accept personas that are at least 65% diverse
-    if (diversity.diversityScore < 0.65) {
+    if (diversity.diversityScore < MIN_DIVERSITY_SCORE) {
       throw new PersonaGenerationError(
         `Personas are too similar (diversity: ${(diversity.diversityScore * 100).toFixed(1)}%, target: ${(this.config.diversityTarget * 100).toFixed(1)}%)`
       );
     }
 
-    return personas;
+    return current;
+  }
+
+  /**
+   * Pick one persona from each similar pair to regenerate
+   * Pairs are resolved most similar first; the persona in more similar pairs
+   * is dropped, or the second one on a tie.
+   * @param diversity - Diversity analysis of the current set
+   * @returns IDs of redundant personas
+   */
+  private selectRedundantPersonas(diversity: DiversityResult): Set<string> {
+    const pairCounts = new Map<string, number>();
+    for (const pair of diversity.similarPairs) {
+      pairCounts.set(pair.personaId1, (pairCounts.get(pair.personaId1) ?? 0) + 1);
+      pairCounts.set(pair.personaId2, (pairCounts.get(pair.personaId2) ?? 0) + 1);
+    }
+
+    const redundant = new Set<string>();
+    const pairs = [...diversity.similarPairs].sort((a, b) => b.similarity - a.similarity);
+    for (const { personaId1, personaId2 } of pairs) {
+      if (redundant.has(personaId1) || redundant.has(personaId2)) {
+        continue;
+      }
+      const count1 = pairCounts.get(personaId1) ?? 0;
+      const count2 = pairCounts.get(personaId2) ?? 0;
+      redundant.add(count1 > count2 ? personaId1 : personaId2);
+    }
+    return redundant;
+  }
+
+  /**
+   * Find trait values with fewer personas than an even spread
+   * @param personas - Personas that are kept
+   * @param total - Size of the full persona set
+   * @returns Under-covered values by field, least covered first
+   */
+  private findUnderCoveredTraits(
+    personas: PersonaProfile[],
+    total: number
+  ): Record<string, string[]> {
+    const underCovered: Record<string, string[]> = {};
+
+    for (const field of COVERAGE_FIELDS) {
+      const values: readonly string[] = PersonaProfileSchema.shape[field].options;
+      const evenShare = total / values.length;
+      const counts = values.map((value) => ({
+        value,
+        count: personas.filter((persona) => persona[field] === value).length,
+      }));
+      underCovered[field] = counts
+        .filter(({ count }) => count < evenShare)
+        .sort((a, b) => a.count - b.count)
+        .map(({ value }) => value);
+    }
+
+    return underCovered;
   }
 
   /**
@@ -313,6 +457,20 @@ export class PersonaGenerator implements IPersonaGenerator {
     return { ...this.config };
   }
 
+  /**
+   * Describe the model, prompt and settings used for a generation
+   * Recorded as provenance when generated personas are saved to a PersonaLibrary.
+   * @param count - Number of personas requested
+   * @returns Generation info
+   */
+  getGenerationInfo(count: number): PersonaGenerationInfo {
+    return {
+      model: this.model,
+      promptSha256: sha256(getPersonaGenerationPrompt(count)),
+      config: { ...this.config },
+    };
+  }
+
   // ============================================================
   // IPersonaGenerator interface implementation
   // ============================================================
@@ -0,0 +1,445 @@
+/**
+ * PersonaGrounder - Persona generation from RGS web-signal insights
+ * Turns the pain points and desires real developers express online into
+ * persona needs, and records the signals behind each persona.
+ */
+
+import type { PersonaProfile } from '@suts/core';
+import { z, ZodError } from 'zod';
+import type { PersonaGenerator } from './PersonaGenerator';
+import { DEFAULT_PERSONA_FIELDS, slugify } from './PersonaImporter';
+import { validatePersonas } from './validation';
+
+/**
+ * Schema of an RGS web signal, as scraped or exported with a report
+ */
+export const RgsSignalSchema = z.object({
+  id: z.string().min(1),
+  source: z.string().optional(),
+  content: z.string(),
+  url: z.string().optional(),
+  sentiment: z.number().min(-1).max(1).optional(),
+  themes: z.array(z.string()).optional(),
+});
+
+export type RgsSignal = z.infer<typeof RgsSignalSchema>;
+
+/**
+ * Schema of an RGS theme; report themes carry a category and sentiment
+ */
+export const RgsThemeSchema = z.object({
+  name: z.string().min(1),
+  confidence: z.number().min(0).max(1),
+  frequency: z.number().min(0),
+  keywords: z.array(z.string()),
+  category: z.enum(['pain', 'desire', 'neutral']).optional(),
+  sentiment: z.number().min(-1).max(1).optional(),
+});
+
+export type RgsTheme = z.infer<typeof RgsThemeSchema>;
+
+/**
+ * Schema of an RGS insight (`rgs analyze` output)
+ */
+export const RgsInsightSchema = z.object({
+  themes: z.array(RgsThemeSchema),
+  painPoints: z.array(z.string()),
+  desires: z.array(z.string()),
+  language: z
+    .object({
+      commonPhrases: z.array(z.string()),
+      tone: z.string(),
+      emotionalIndicators: z.array(z.string()),
+    })
+    .optional(),
+  confidence: z.number().min(0).max(1),
+});
+
+export type RgsInsight = z.infer<typeof RgsInsightSchema>;
+
+/**
+ * Schema of an RGS report (`ReportData` or the JSON report)
+ */
+export const RgsReportSchema = z.object({
+  themes: z.array(RgsThemeSchema),
+  signals: z.array(RgsSignalSchema).default([]),
+});
+
+export type RgsReport = z.infer<typeof RgsReportSchema>;
+
+/**
+ * Grounding options
+ */
+export interface PersonaGroundingOptions {
+  /** Fill fields the signals do not provide with this generator instead of defaults */
+  generator?: PersonaGenerator;
+  /** Most pain points and desires kept per persona (default: 5) */
+  maxListItems?: number;
+  /**
+   * Smallest absolute sentiment that makes a pain point a deal breaker or a
+   * desire a delight trigger (default: 0.5)
+   */
+  sentimentThreshold?: number;
+}
+
+/**
+ * Pain point or desire with the signals that support it
+ */
+export interface GroundedNeed {
+  name: string;
+  kind: 'pain' | 'desire';
+  confidence: number;
+  /** Theme sentiment, or the mean sentiment of its signals */
+  sentiment?: number;
+  signalIds: string[];
+}
+
+/**
+ * Result of grounding personas in web signals
+ */
+export interface PersonaGroundingResult {
+  personas: PersonaProfile[];
+  /** Every need, most supported first */
+  needs: GroundedNeed[];
+  /** Signal IDs behind each persona, by persona ID */
+  grounding: Record<string, string[]>;
+  /** How fields the signals do not provide were filled */
+  gapFill: 'defaults' | 'llm';
+  /** Needs no signal supports */
+  warnings: string[];
+}
+
+/**
+ * Pain point or desire before its signals are matched
+ */
+interface NeedSource {
+  name: string;
+  kind: 'pain' | 'desire';
+  confidence: number;
+  keywords: string[];
+  sentiment?: number;
+}
+
+/**
+ * Error class for persona grounding errors
+ */
+export class PersonaGroundingError extends Error {
+  public readonly errors: string[];
+
+  constructor(message: string, errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'PersonaGroundingError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Parse data with a schema, reporting issues as grounding errors
+ */
+function parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, message: string): T {
+  try {
+    return schema.parse(data);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new PersonaGroundingError(
+        message,
+        error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Ground personas in RGS insights
+ */
+export class PersonaGrounder {
+  /**
+   * Build personas from RGS insights and the signals they were drawn from
+   * Pain points and desires are matched to the signals that mention their
+   * theme, ranked by support and dealt round-robin across `count` personas.
+   * Pain points become pain points, and deal breakers when strongly negative;
+   * desires become goals, and delight triggers when strongly positive. A
+   * persona's top need is used when none passes the threshold.
+   * @param insights - RGS insights
+   * @param signals - Signals the insights were drawn from
+   * @param count - Number of personas to create
+   * @param options - Grounding options
+   * @returns Validated personas with their needs and signal IDs
+   * @throws {PersonaGroundingError} If the data is invalid, has no needs or personas are invalid
+   */
+  async fromInsights(
+    insights: unknown[],
+    signals: unknown[],
+    count: number,
+    options: PersonaGroundingOptions = {}
+  ): Promise<PersonaGroundingResult> {
+    const parsed = insights.map((insight, index) =>
+      parse(RgsInsightSchema, insight, `Invalid RGS insight ${index + 1}`)
+    );
+
+    const sources = parsed.flatMap((insight) => {
+      const theme = (name: string): RgsTheme | undefined =>
+        insight.themes.find((candidate) => candidate.name.toLowerCase() === name.toLowerCase());
+      const need = (name: string, kind: NeedSource['kind']): NeedSource => {
+        const matched = theme(name);
+        return {
+          name,
+          kind,
+          confidence: matched?.confidence ?? insight.confidence,
+          keywords: matched?.keywords ?? [],
+          ...(matched?.sentiment !== undefined && { sentiment: matched.sentiment }),
+        };
+      };
+      return [
+        ...insight.painPoints.map((name) => need(name, 'pain')),
+        ...insight.desires.map((name) => need(name, 'desire')),
+      ];
+    });
+
+    const tones = [...new Set(parsed.flatMap((insight) => insight.language?.tone ?? []))];
+    const phrases = [
+      ...new Set(parsed.flatMap((insight) => insight.language?.commonPhrases ?? [])),
+    ].slice(0, 10);
+    const context = [
+      tones.length > 0 ? `Tone: ${tones.join(', ')}` : '',
+      phrases.length > 0 ? `Common phrases: ${phrases.join('; ')}` : '',
+    ].filter((line) => line !== '');
+
+    return this.ground(
+      sources,
+      parse(z.array(RgsSignalSchema), signals, 'Invalid RGS signals'),
+      count,
+      options,
+      context
+    );
+  }
+
+  /**
+   * Build personas from an RGS report
+   * Pain and desire themes are grounded as in `fromInsights`; neutral themes
+   * are ignored.
+   * @param report - `ReportData` or JSON report, with its signals
+   * @param count - Number of personas to create
+   * @param options - Grounding options
+   * @returns Validated personas with their needs and signal IDs
+   * @throws {PersonaGroundingError} If the report is invalid, has no needs or personas are invalid
+   */
+  async fromReport(
+    report: unknown,
+    count: number,
+    options: PersonaGroundingOptions = {}
+  ): Promise<PersonaGroundingResult> {
+    const parsed = parse(RgsReportSchema, report, 'Invalid RGS report');
+    const sources = parsed.themes.flatMap((theme): NeedSource[] =>
+      theme.category === 'pain' || theme.category === 'desire'
+        ? [
+            {
+              name: theme.name,
+              kind: theme.category,
+              confidence: theme.confidence,
+              keywords: theme.keywords,
+              ...(theme.sentiment !== undefined && { sentiment: theme.sentiment }),
+            },
+          ]
+        : []
+    );
+
+    return this.ground(sources, parsed.signals, count, options, []);
+  }
+
+  // ============================================================
+  // Private helper methods
+  // ============================================================
+
+  /**
+   * Match needs to signals and build personas from them
+   */
+  private async ground(
+    sources: NeedSource[],
+    signals: RgsSignal[],
+    count: number,
+    options: PersonaGroundingOptions,
+    context: string[]
+  ): Promise<PersonaGroundingResult> {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new PersonaGroundingError('Count must be a positive integer');
+    }
+    const maxListItems = options.maxListItems ?? 5;
+    const threshold = options.sentimentThreshold ?? 0.5;
+
+    const needs = PersonaGrounder.matchSignals(PersonaGrounder.mergeNeeds(sources), signals);
+    if (needs.length === 0) {
+      throw new PersonaGroundingError('RGS data has no pain points or desires');
+    }
+    const warnings = needs
+      .filter((need) => need.signalIds.length === 0)
+      .map(
+        (need) =>
+          `${need.kind === 'pain' ? 'Pain point' : 'Desire'} "${need.name}" has no supporting signal`
+      );
+
+    const pains = needs.filter((need) => need.kind === 'pain');
+    const desires = needs.filter((need) => need.kind === 'desire');
+    const drafts = Array.from({ length: count }, (_, n) => {
+      const own = PersonaGrounder.deal(pains, count, n, maxListItems);
+      const wanted = PersonaGrounder.deal(desires, count, n, maxListItems);
+      const assigned = [...own, ...wanted];
+      const top = (own[0] ?? wanted[0])!;
+
+      const strong = (list: GroundedNeed[], sign: 1 | -1): string[] => {
+        const matched = list.filter(
+          (need) => need.sentiment !== undefined && need.sentiment * sign >= threshold
+        );
+        return (matched.length > 0 ? matched : list.slice(0, 1)).map((need) => need.name);
+      };
+
+      const partial: Partial<PersonaProfile> = {
+        id: `${slugify(top.name)}-${n + 1}`,
+        painPoints: own.map((need) => need.name),
+        dealBreakers: strong(own, -1),
+        goals: wanted.map((need) => need.name),
+        delightTriggers: strong(wanted, 1),
+      };
+      return {
+        partial,
+        archetype: `Developer (${top.name})`,
+        signalIds: [...new Set(assigned.flatMap((need) => need.signalIds))].sort(),
+        confidence:
+          Math.round(
+            (assigned.reduce((sum, need) => sum + need.confidence, 0) / assigned.length) * 100
+          ) / 100,
+      };
+    });
+
+    const partials = drafts.map((draft) => draft.partial);
+    const list = (items: GroundedNeed[]): string =>
+      items.length > 0 ? items.map((need) => need.name).join(', ') : 'none';
+    const completed =
+      options.generator === undefined
+        ? partials
+        : await options.generator.completePersonas(
+            partials,
+            [
+              `Web signals from developer communities (${signals.length} signals)`,
+              `Pain points: ${list(pains)}`,
+              `Desires: ${list(desires)}`,
+              ...context,
+            ].join('\n')
+          );
+
+    const now = new Date().toISOString();
+    // Validated below, as LLM output may still break the schema
+    const personas = completed.map((persona, index) => {
+      const { partial, archetype, signalIds, confidence } = drafts[index]!;
+      return {
+        ...DEFAULT_PERSONA_FIELDS,
+        archetype,
+        ...persona,
+        id: partial.id!,
+        state: { signalIds },
+        history: [],
+        confidenceScore: confidence,
+        lastUpdated: now,
+        source: options.generator === undefined ? 'rgs' : 'rgs+llm',
+      } as PersonaProfile;
+    });
+
+    const errors = Array.from(validatePersonas(personas).entries())
+      .filter(([, result]) => !result.valid)
+      .map(([id, result]) => `${id}: ${result.errors.join(', ')}`);
+    if (errors.length > 0) {
+      throw new PersonaGroundingError('Grounded personas failed validation', errors);
+    }
+
+    return {
+      personas,
+      needs,
+      grounding: Object.fromEntries(
+        personas.map((persona, index) => [persona.id, drafts[index]!.signalIds])
+      ),
+      gapFill: options.generator === undefined ? 'defaults' : 'llm',
+      warnings,
+    };
+  }
+
+  /**
+   * Merge needs with the same name and kind across insights
+   * Keywords are combined and the highest confidence kept.
+   */
+  private static mergeNeeds(sources: NeedSource[]): NeedSource[] {
+    const merged = new Map<string, NeedSource>();
+    for (const source of sources) {
+      const key = `${source.kind}:${source.name.toLowerCase()}`;
+      const existing = merged.get(key);
+      if (existing === undefined) {
+        merged.set(key, { ...source, keywords: [...source.keywords] });
+        continue;
+      }
+      existing.keywords = [...new Set([...existing.keywords, ...source.keywords])];
+      existing.confidence = Math.max(existing.confidence, source.confidence);
+      if (existing.sentiment === undefined && source.sentiment !== undefined) {
+        existing.sentiment = source.sentiment;
+      }
+    }
+    return [...merged.values()];
+  }
+
+  /**
+   * Find the signals supporting each need
+   * A signal supports a need when it is tagged with the need's theme, or its
+   * content mentions the need's name or one of its keywords.
+   * @returns Needs ranked by supporting signals, then confidence
+   */
+  private static matchSignals(sources: NeedSource[], signals: RgsSignal[]): GroundedNeed[] {
+    return sources
+      .map((source): GroundedNeed => {
+        const terms = [source.name, ...source.keywords]
+          .map((term) => term.toLowerCase())
+          .filter((term) => term !== '');
+        const supporting = signals.filter((signal) => {
+          const content = signal.content.toLowerCase();
+          return (
+            (signal.themes ?? []).some((theme) => theme.toLowerCase() === terms[0]) ||
+            terms.some((term) => content.includes(term))
+          );
+        });
+
+        const scored = supporting.flatMap((signal) =>
+          signal.sentiment === undefined ? [] : [signal.sentiment]
+        );
+        const sentiment =
+          source.sentiment ??
+          (scored.length > 0
+            ? scored.reduce((sum, value) => sum + value, 0) / scored.length
+            : undefined);
+
+        return {
+          name: source.name,
+          kind: source.kind,
+          confidence: source.confidence,
+          ...(sentiment !== undefined && { sentiment }),
+          signalIds: supporting.map((signal) => signal.id),
+        };
+      })
+      .sort((a, b) =>
+        b.signalIds.length !== a.signalIds.length
+          ? b.signalIds.length - a.signalIds.length
+          : b.confidence - a.confidence
+      );
+  }
+
+  /**
+   * Needs dealt to the n-th of `count` personas
+   * Needs are dealt round-robin; a persona left without any reuses one.
+   */
+  private static deal(
+    needs: GroundedNeed[],
+    count: number,
+    n: number,
+    maxListItems: number
+  ): GroundedNeed[] {
+    const dealt = needs.filter((_, index) => index % count === n).slice(0, maxListItems);
+    return dealt.length > 0 || needs.length === 0 ? dealt : [needs[n % needs.length]!];
+  }
+}
@@ -0,0 +1,634 @@
+/**
+ * PersonaImporter - Persona generation from structured research data
+ * Maps survey CSV exports and analytics segment exports to personas through a
+ * column mapping, weighting persona counts by segment size.
+ */
+
+import { PersonaProfileSchema, type PersonaProfile } from '@suts/core';
+import { z, ZodError } from 'zod';
+import type { PersonaGenerator } from './PersonaGenerator';
+import { validatePersonas } from './validation';
+
+/**
+ * Free-text persona fields; rows are aggregated by the most common value
+ */
+const TEXT_FIELDS = ['archetype', 'role', 'typicalWorkflow', 'timeAvailability'] as const;
+
+/**
+ * Enumerated persona fields; rows are aggregated by the most common value
+ */
+const ENUM_FIELDS = [
+  'experienceLevel',
+  'companySize',
+  'techAdoption',
+  'learningStyle',
+  'collaborationStyle',
+] as const;
+
+/**
+ * 0-1 persona fields; rows are aggregated by the mean
+ */
+const NUMBER_FIELDS = ['riskTolerance', 'patienceLevel'] as const;
+
+/**
+ * List persona fields; rows are aggregated by the most frequent items
+ */
+const LIST_FIELDS = [
+  'techStack',
+  'painPoints',
+  'goals',
+  'fears',
+  'values',
+  'evaluationCriteria',
+  'dealBreakers',
+  'delightTriggers',
+  'referralTriggers',
+] as const;
+
+/**
+ * Persona fields a mapping can fill from columns
+ */
+export const MAPPABLE_PERSONA_FIELDS = [
+  ...TEXT_FIELDS,
+  ...ENUM_FIELDS,
+  ...NUMBER_FIELDS,
+  ...LIST_FIELDS,
+] as const;
+
+type MappableField = (typeof MAPPABLE_PERSONA_FIELDS)[number];
+type EnumField = (typeof ENUM_FIELDS)[number];
+
+/**
+ * Values for fields the data does not provide when the LLM is not used
+ */
+export const DEFAULT_PERSONA_FIELDS: Omit<Pick<PersonaProfile, MappableField>, 'archetype'> = {
+  role: 'User',
+  experienceLevel: 'Intermediate',
+  companySize: 'SMB',
+  techStack: ['Unspecified'],
+  painPoints: [],
+  goals: [],
+  fears: [],
+  values: [],
+  riskTolerance: 0.5,
+  patienceLevel: 0.5,
+  techAdoption: 'Early majority',
+  learningStyle: 'Documentation',
+  evaluationCriteria: [],
+  dealBreakers: [],
+  delightTriggers: [],
+  referralTriggers: [],
+  typicalWorkflow: 'Not specified',
+  timeAvailability: 'Not specified',
+  collaborationStyle: 'Team',
+};
+
+/**
+ * Segment name when the mapping has no segment column
+ */
+const DEFAULT_SEGMENT = 'respondents';
+
+/**
+ * Column mapping of one persona field
+ * `values` translates cell values (or list items), `scale` normalizes numbers
+ * such as 1-5 Likert answers to 0-1.
+ */
+const FieldMappingSchema = z.union([
+  z.string().min(1),
+  z.object({
+    column: z.string().min(1),
+    values: z.record(z.string()).optional(),
+    scale: z
+      .tuple([z.number(), z.number()])
+      .refine(([min, max]) => min !== max, 'scale bounds must differ')
+      .optional(),
+  }),
+]);
+
+/**
+ * Schema of a persona import mapping
+ */
+export const PersonaImportMappingSchema = z.object({
+  /** Column whose value groups rows into segments */
+  segmentColumn: z.string().min(1).optional(),
+  /** Column with the segment size; defaults to the number of rows in the segment */
+  sizeColumn: z.string().min(1).optional(),
+  /** Separator of list items within a cell */
+  listSeparator: z.string().min(1).default(';'),
+  /** Most frequent items kept per list field */
+  maxListItems: z.number().int().positive().default(5),
+  fields: z.record(z.enum(MAPPABLE_PERSONA_FIELDS), FieldMappingSchema),
+  /** Values for fields the data does not provide, instead of the built-in defaults */
+  defaults: PersonaProfileSchema.pick({
+    role: true,
+    experienceLevel: true,
+    companySize: true,
+    techStack: true,
+    painPoints: true,
+    goals: true,
+    fears: true,
+    values: true,
+    riskTolerance: true,
+    patienceLevel: true,
+    techAdoption: true,
+    learningStyle: true,
+    evaluationCriteria: true,
+    dealBreakers: true,
+    delightTriggers: true,
+    referralTriggers: true,
+    typicalWorkflow: true,
+    timeAvailability: true,
+    collaborationStyle: true,
+  })
+    .partial()
+    .optional(),
+});
+
+/**
+ * Persona import mapping as written in a mapping file
+ */
+export type PersonaImportMappingInput = z.input<typeof PersonaImportMappingSchema>;
+
+/**
+ * Persona import mapping with defaults applied
+ */
+export type PersonaImportMapping = z.output<typeof PersonaImportMappingSchema>;
+
+/**
+ * Import options
+ */
+export interface PersonaImportOptions {
+  /** Fill fields the data does not provide with this generator instead of defaults */
+  generator?: PersonaGenerator;
+  /** Data source label given to the generator (default: "csv") */
+  sourceName?: string;
+}
+
+/**
+ * Segment of the imported data
+ */
+export interface ImportedSegment {
+  name: string;
+  /** Segment size from the size column, or its row count */
+  size: number;
+  rows: number;
+  /** Personas allocated to the segment */
+  personas: number;
+}
+
+/**
+ * Result of a persona import
+ */
+export interface PersonaImportResult {
+  personas: PersonaProfile[];
+  segments: ImportedSegment[];
+  /** Fields not provided by the data, by persona ID */
+  gaps: Record<string, string[]>;
+  /** How the gaps were filled */
+  gapFill: 'defaults' | 'llm';
+  /** Cells that could not be mapped and were ignored */
+  warnings: string[];
+}
+
+/**
+ * CSV row with its line number for warnings
+ */
+interface SegmentRow {
+  row: Record<string, string>;
+  line: number;
+}
+
+/**
+ * Rows of one segment
+ */
+interface Segment {
+  name: string;
+  size: number;
+  rows: SegmentRow[];
+}
+
+/**
+ * Error class for persona import errors
+ */
+export class PersonaImportError extends Error {
+  public readonly errors: string[];
+
+  constructor(message: string, errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'PersonaImportError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Parse CSV text into records keyed by the header row
+ * Supports quoted fields with commas, escaped quotes ("") and line breaks.
+ * @param text - CSV text
+ * @returns One record per non-empty data row, with trimmed values
+ * @throws {PersonaImportError} If a quoted field is not terminated
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim().length === 0) {
+      field = '';
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new PersonaImportError('Unterminated quoted field in CSV');
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+  if (header === undefined) {
+    return [];
+  }
+  const columns = header.map((column) => column.trim());
+  return records.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? '').trim()]))
+  );
+}
+
+/**
+ * Allocate a persona count across segments proportionally to their size
+ * Uses the largest remainder method, so the allocation sums to `count`;
+ * earlier segments win ties.
+ * @param sizes - Segment sizes
+ * @param count - Personas to allocate
+ * @returns Personas per segment, in input order
+ */
+export function allocateBySize(sizes: number[], count: number): number[] {
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  if (total <= 0) {
+    return sizes.map(() => 0);
+  }
+
+  const quotas = sizes.map((size) => (size / total) * count);
+  const allocation = quotas.map((quota) => Math.floor(quota));
+  let remaining = count - allocation.reduce((sum, value) => sum + value, 0);
+
+  const byRemainder = quotas
+    .map((quota, index) => ({ index, remainder: quota - Math.floor(quota) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining === 0) {
+      break;
+    }
+    allocation[index] = allocation[index]! + 1;
+    remaining--;
+  }
+  return allocation;
+}
+
+/**
+ * Turn a name into an ID fragment
+ * @param value - Name such as a segment or theme
+ * @returns Lowercase, hyphen-separated fragment
+ */
+export function slugify(value: string): string {
+  const slug = value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug.length > 0 ? slug : 'segment';
+}
+
+/**
+ * Slugify names, suffixing repeats so names that only differ in case or
+ * punctuation ("Small Biz", "small-biz") still get distinct slugs
+ */
+function uniqueSlugs(names: readonly string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const base = slugify(name);
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) {
+      slug = `${base}-${n}`;
+    }
+    used.add(slug);
+    return slug;
+  });
+}
+
+/**
+ * Most common value, the first seen on a tie
+ */
+function mode(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  let best: string | undefined;
+  for (const [value, count] of counts) {
+    if (best === undefined || count > counts.get(best)!) {
+      best = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Import personas from structured data
+ */
+export class PersonaImporter {
+  private readonly mapping: PersonaImportMapping;
+
+  /**
+   * Create an importer
+   * @param mapping - Column mapping
+   * @throws {PersonaImportError} If the mapping is invalid
+   */
+  constructor(mapping: PersonaImportMappingInput) {
+    try {
+      this.mapping = PersonaImportMappingSchema.parse(mapping);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new PersonaImportError(
+          'Invalid persona import mapping',
+          error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Import personas from CSV text
+   * Rows are grouped by the segment column, and `count` personas are split
+   * across segments by size. A segment with several personas has its rows
+   * divided into contiguous groups, one per persona. Fields the data does not
+   * provide are filled by the generator when given, otherwise by defaults.
+   * @param csv - CSV text with a header row
+   * @param count - Number of personas to create
+   * @param options - Import options
+   * @returns Validated personas with segment allocation, gaps and warnings
+   * @throws {PersonaImportError} If the data does not match the mapping or personas are invalid
+   */
+  async importCsv(
+    csv: string,
+    count: number,
+    options: PersonaImportOptions = {}
+  ): Promise<PersonaImportResult> {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new PersonaImportError('Count must be a positive integer');
+    }
+
+    const rows = parseCsv(csv);
+    if (rows.length === 0) {
+      throw new PersonaImportError('CSV has no data rows');
+    }
+    this.checkColumns(Object.keys(rows[0]!));
+
+    const warnings: string[] = [];
+    const segments = this.groupSegments(rows, warnings);
+    const allocation = allocateBySize(
+      segments.map((segment) => segment.size),
+      count
+    );
+
+    const drafts: Array<{ segment: string; partial: Partial<PersonaProfile> }> = [];
+    const gaps: Record<string, string[]> = {};
+    const slugs = uniqueSlugs(segments.map((segment) => segment.name));
+    segments.forEach((segment, segmentIndex) => {
+      const personaCount = allocation[segmentIndex] ?? 0;
+      for (let n = 0; n < personaCount; n++) {
+        const partial = this.aggregate(
+          PersonaImporter.groupRows(segment.rows, personaCount, n),
+          warnings
+        );
+        const id = `${slugs[segmentIndex]!}-${n + 1}`;
+        gaps[id] = MAPPABLE_PERSONA_FIELDS.filter((field) => partial[field] === undefined);
+        drafts.push({ segment: segment.name, partial: { id, ...partial } });
+      }
+    });
+    const partials = drafts.map((draft) => draft.partial);
+
+    const now = new Date().toISOString();
+    const mappableCount = MAPPABLE_PERSONA_FIELDS.length;
+    const completed =
+      options.generator === undefined
+        ? partials
+        : await options.generator.completePersonas(
+            partials,
+            `Structured research data from ${options.sourceName ?? 'csv'}: ${segments
+              .map((segment) => `segment "${segment.name}" (size ${segment.size})`)
+              .join(', ')}`
+          );
+
+    // Validated below, as data and LLM output may still break the schema
+    const personas = completed.map((persona, index) => {
+      const { segment, partial } = drafts[index]!;
+      const id = partial.id!;
+      return {
+        ...DEFAULT_PERSONA_FIELDS,
+        ...this.mapping.defaults,
+        archetype: segment,
+        ...persona,
+        id,
+        state: {},
+        history: [],
+        confidenceScore:
+          Math.round(((mappableCount - (gaps[id]?.length ?? 0)) / mappableCount) * 100) / 100,
+        lastUpdated: now,
+        source: options.generator === undefined ? 'csv-import' : 'csv-import+llm',
+      } as PersonaProfile;
+    });
+
+    const errors = Array.from(validatePersonas(personas).entries())
+      .filter(([, result]) => !result.valid)
+      .map(([id, result]) => `${id}: ${result.errors.join(', ')}`);
+    if (errors.length > 0) {
+      throw new PersonaImportError('Imported personas failed validation', errors);
+    }
+
+    return {
+      personas,
+      segments: segments.map((segment, index) => ({
+        name: segment.name,
+        size: segment.size,
+        rows: segment.rows.length,
+        personas: allocation[index] ?? 0,
+      })),
+      gaps,
+      gapFill: options.generator === undefined ? 'defaults' : 'llm',
+      warnings,
+    };
+  }
+
+  // ============================================================
+  // Private helper methods
+  // ============================================================
+
+  /**
+   * Check that every mapped column exists
+   * @throws {PersonaImportError} If columns are missing
+   */
+  private checkColumns(columns: string[]): void {
+    const referenced = [
+      this.mapping.segmentColumn,
+      this.mapping.sizeColumn,
+      ...Object.values(this.mapping.fields).map((mapping) =>
+        typeof mapping === 'string' ? mapping : mapping?.column
+      ),
+    ].filter((column): column is string => column !== undefined);
+
+    const missing = [...new Set(referenced)].filter((column) => !columns.includes(column));
+    if (missing.length > 0) {
+      throw new PersonaImportError('CSV is missing mapped columns', missing);
+    }
+  }
+
+  /**
+   * Group rows into segments, largest first
+   */
+  private groupSegments(rows: Array<Record<string, string>>, warnings: string[]): Segment[] {
+    const { segmentColumn, sizeColumn } = this.mapping;
+    const segments = new Map<string, Segment>();
+
+    rows.forEach((row, index) => {
+      const line = index + 2; // Header is line 1
+      const name =
+        segmentColumn === undefined || (row[segmentColumn] ?? '') === ''
+          ? DEFAULT_SEGMENT
+          : row[segmentColumn]!;
+      const segment = segments.get(name) ?? { name, size: 0, rows: [] };
+      segments.set(name, segment);
+      segment.rows.push({ row, line });
+
+      if (sizeColumn === undefined) {
+        segment.size += 1;
+        return;
+      }
+      const size = Number(row[sizeColumn]);
+      if (Number.isFinite(size) && size >= 0) {
+        segment.size += size;
+      } else {
+        warnings.push(`Line ${line}: invalid ${sizeColumn} "${row[sizeColumn] ?? ''}"`);
+      }
+    });
+
+    return [...segments.values()].sort((a, b) => b.size - a.size);
+  }
+
+  /**
+   * Rows of the n-th of `count` personas of a segment
+   * Rows are split into contiguous groups; with fewer rows than personas,
+   * rows are reused.
+   */
+  private static groupRows(rows: SegmentRow[], count: number, n: number): SegmentRow[] {
+    if (rows.length <= count) {
+      return [rows[n % rows.length]!];
+    }
+    const start = Math.floor((n * rows.length) / count);
+    const end = Math.floor(((n + 1) * rows.length) / count);
+    return rows.slice(start, end);
+  }
+
+  /**
+   * Aggregate a group of rows into the persona fields the data provides
+   */
+  private aggregate(rows: SegmentRow[], warnings: string[]): Partial<PersonaProfile> {
+    const partial: Record<string, unknown> = {};
+
+    for (const [field, fieldMapping] of Object.entries(this.mapping.fields) as Array<
+      [MappableField, z.infer<typeof FieldMappingSchema>]
+    >) {
+      const { column, values, scale } =
+        typeof fieldMapping === 'string' ? { column: fieldMapping } : fieldMapping;
+      const translate = (value: string): string => values?.[value] ?? value;
+      const cells = rows
+        .map(({ row, line }) => ({ cell: row[column] ?? '', line }))
+        .filter(({ cell }) => cell !== '');
+
+      if ((LIST_FIELDS as readonly string[]).includes(field)) {
+        const items = cells.flatMap(({ cell }) =>
+          cell
+            .split(this.mapping.listSeparator)
+            .map((item) => translate(item.trim()))
+            .filter((item) => item !== '')
+        );
+        const counts = new Map<string, number>();
+        for (const item of items) {
+          counts.set(item, (counts.get(item) ?? 0) + 1);
+        }
+        const ranked = [...counts.keys()]
+          .sort((a, b) => counts.get(b)! - counts.get(a)!)
+          .slice(0, this.mapping.maxListItems);
+        if (ranked.length > 0) {
+          partial[field] = ranked;
+        }
+      } else if ((NUMBER_FIELDS as readonly string[]).includes(field)) {
+        const numbers = cells.flatMap(({ cell, line }) => {
+          const raw = Number(cell);
+          const value = scale === undefined ? raw : (raw - scale[0]) / (scale[1] - scale[0]);
+          if (!Number.isFinite(value) || value < 0 || value > 1) {
+            warnings.push(
+              `Line ${line}: ${field} value "${cell}" is not between 0 and 1${scale === undefined ? ' (set a scale)' : ''}`
+            );
+            return [];
+          }
+          return [value];
+        });
+        if (numbers.length > 0) {
+          const mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+          partial[field] = Math.round(mean * 100) / 100;
+        }
+      } else if ((ENUM_FIELDS as readonly string[]).includes(field)) {
+        const options: readonly string[] = PersonaProfileSchema.shape[field as EnumField].options;
+        const matched = cells.flatMap(({ cell, line }) => {
+          const value = translate(cell).toLowerCase();
+          const option = options.find((candidate) => candidate.toLowerCase() === value);
+          if (option === undefined) {
+            warnings.push(`Line ${line}: unknown ${field} value "${cell}"`);
+            return [];
+          }
+          return [option];
+        });
+        const value = mode(matched);
+        if (value !== undefined) {
+          partial[field] = value;
+        }
+      } else {
+        const value = mode(cells.map(({ cell }) => translate(cell)));
+        if (value !== undefined) {
+          partial[field] = value;
+        }
+      }
+    }
+
+    return partial as Partial<PersonaProfile>;
+  }
+}
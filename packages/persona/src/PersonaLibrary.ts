@@ -0,0 +1,544 @@
+/**
+ * PersonaLibrary - Versioned on-disk persona store
+ * Keeps every persona version by content hash together with the analysis
+ * documents, generator settings and diversity report that produced it.
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { PersonaProfile } from '@suts/core';
+import {
+  analyzeDiversity,
+  checkDuplicates,
+  validatePersonas,
+  type DiversityResult,
+} from './validation';
+
+/**
+ * Current library index format version
+ */
+export const PERSONA_LIBRARY_VERSION = 1;
+
+/**
+ * Analysis document a persona was generated from
+ */
+export interface PersonaSource {
+  /** File name or label of the document */
+  name: string;
+  /** SHA-256 of the document content */
+  sha256: string;
+}
+
+/**
+ * Generator settings behind a persona
+ */
+export interface PersonaGenerationInfo {
+  model: string;
+  /** SHA-256 of the system prompt */
+  promptSha256: string;
+  config: Record<string, unknown>;
+}
+
+/**
+ * Where a persona version came from
+ */
+export interface PersonaProvenance {
+  sources: PersonaSource[];
+  /** Absent for personas that were not generated, such as imported files */
+  generator?: PersonaGenerationInfo;
+  /** Diversity of the persona set the version was saved with */
+  diversity?: DiversityResult;
+}
+
+/**
+ * One version of a persona in the library index
+ */
+export interface PersonaVersionSummary {
+  /** Starts at 1 for each persona */
+  version: number;
+  hash: string;
+  createdAt: string;
+  tags: string[];
+}
+
+/**
+ * Library index entry of a persona
+ */
+export interface PersonaLibraryEntry {
+  id: string;
+  archetype: string;
+  /** Oldest first */
+  versions: PersonaVersionSummary[];
+  retired?: { at: string; reason?: string };
+}
+
+/**
+ * Stored persona content
+ */
+export interface PersonaLibraryRecord {
+  hash: string;
+  persona: PersonaProfile;
+  provenance: PersonaProvenance;
+  createdAt: string;
+}
+
+/**
+ * Persona version with its stored content
+ */
+export interface ResolvedPersonaVersion {
+  entry: PersonaLibraryEntry;
+  version: PersonaVersionSummary;
+  record: PersonaLibraryRecord;
+}
+
+/**
+ * Outcome of saving one persona
+ */
+export interface PersonaSaveResult {
+  id: string;
+  version: number;
+  hash: string;
+  /** False when the content matched the latest version */
+  created: boolean;
+}
+
+/**
+ * Field that differs between two persona versions
+ */
+export interface PersonaFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Difference between two persona versions
+ */
+export interface PersonaDiff {
+  from: { id: string; version: number; hash: string };
+  to: { id: string; version: number; hash: string };
+  changes: PersonaFieldChange[];
+}
+
+/**
+ * Options for listing library personas
+ */
+export interface PersonaListOptions {
+  /** Only personas with a version carrying this tag */
+  tag?: string;
+  /** Include retired personas (default: false) */
+  includeRetired?: boolean;
+}
+
+/**
+ * On-disk library index
+ */
+interface PersonaLibraryIndex {
+  version: number;
+  personas: Record<string, PersonaLibraryEntry>;
+}
+
+/**
+ * Error class for persona library errors
+ */
+export class PersonaLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersonaLibraryError';
+  }
+}
+
+/**
+ * Shortest hash prefix accepted as a reference
+ */
+const MIN_HASH_PREFIX = 6;
+
+/**
+ * Hash text content
+ * @param content - Text to hash
+ * @returns Hex SHA-256 digest
+ */
+export function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Describe an analysis document for persona provenance
+ * @param name - File name or label
+ * @param content - Document content
+ * @returns Source with the content hash
+ */
+export function describeSource(name: string, content: string): PersonaSource {
+  return { name, sha256: sha256(content) };
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal content hashes equally
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Content hash of a persona
+ * @param persona - Persona profile
+ * @returns Hex SHA-256 of the persona's canonical JSON
+ */
+export function hashPersona(persona: PersonaProfile): string {
+  return sha256(canonicalJson(persona));
+}
+
+/**
+ * Persona library stored in a directory
+ * Layout: `library.json` holds the index of personas, versions, tags and
+ * retirements; `objects/<hash>.json` holds each persona version with its
+ * provenance. Persona versions are never deleted, so a tag keeps resolving to
+ * the same content after the persona changes or is retired.
+ */
+export class PersonaLibrary {
+  private readonly directory: string;
+
+  /**
+   * Open a persona library
+   * The directory is created on the first save.
+   * @param directory - Library directory
+   */
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Get the library directory
+   * @returns Absolute library directory
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Save personas as new versions
+   * A persona whose content matches its latest version is left unchanged.
+   * Saving a retired persona adds the version but keeps it retired.
+   * @param personas - Personas to save
+   * @param provenance - Where the personas came from; the diversity report is computed when absent
+   * @param tags - Tags to attach to the saved versions
+   * @returns One result per persona, in input order
+   * @throws {PersonaLibraryError} If a persona is invalid or an ID is duplicated
+   */
+  async save(
+    personas: PersonaProfile[],
+    provenance: PersonaProvenance,
+    tags: string[] = []
+  ): Promise<PersonaSaveResult[]> {
+    const errors = Array.from(validatePersonas(personas).entries())
+      .filter(([, result]) => !result.valid)
+      .map(([id, result]) => `${id}: ${result.errors.join(', ')}`);
+    if (errors.length > 0) {
+      throw new PersonaLibraryError(`Personas failed validation: ${errors.join('; ')}`);
+    }
+    const duplicates = checkDuplicates(personas);
+    if (duplicates.length > 0) {
+      throw new PersonaLibraryError(`Duplicate persona IDs: ${duplicates.join(', ')}`);
+    }
+
+    const index = await this.readIndex();
+    const createdAt = new Date().toISOString();
+    const recordProvenance: PersonaProvenance = {
+      ...provenance,
+      diversity: provenance.diversity ?? analyzeDiversity(personas),
+    };
+
+    const results: PersonaSaveResult[] = [];
+    for (const persona of personas) {
+      const hash = hashPersona(persona);
+      const entry = index.personas[persona.id] ?? {
+        id: persona.id,
+        archetype: persona.archetype,
+        versions: [],
+      };
+      index.personas[persona.id] = entry;
+
+      let latest = entry.versions[entry.versions.length - 1];
+      const created = latest?.hash !== hash;
+      if (latest === undefined || created) {
+        if (!fs.existsSync(this.objectPath(hash))) {
+          const record: PersonaLibraryRecord = {
+            hash,
+            persona,
+            provenance: recordProvenance,
+            createdAt,
+          };
+          await this.writeJson(this.objectPath(hash), record);
+        }
+        latest = { version: entry.versions.length + 1, hash, createdAt, tags: [] };
+        entry.versions.push(latest);
+        entry.archetype = persona.archetype;
+      }
+
+      for (const tag of tags) {
+        PersonaLibrary.moveTag(entry, latest, tag);
+      }
+      results.push({ id: persona.id, version: latest.version, hash, created });
+    }
+
+    await this.writeJson(this.indexPath(), index);
+    return results;
+  }
+
+  /**
+   * List library personas
+   * @param options - Tag and retirement filters
+   * @returns Entries sorted by persona ID
+   */
+  async list(options: PersonaListOptions = {}): Promise<PersonaLibraryEntry[]> {
+    const { tag } = options;
+    const index = await this.readIndex();
+
+    return Object.values(index.personas)
+      .filter((entry) => (options.includeRetired ?? false) || entry.retired === undefined)
+      .filter(
+        (entry) => tag === undefined || entry.versions.some((version) => version.tags.includes(tag))
+      )
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
+  /**
+   * Load the personas a simulation should use
+   * Without a tag, the latest version of each active persona. With a tag, the
+   * tagged version of each persona, retired or not, so pinned sets stay stable.
+   * @param tag - Optional tag pinning the persona set
+   * @returns Personas sorted by ID
+   */
+  async loadPersonas(tag?: string): Promise<PersonaProfile[]> {
+    const entries = await this.list(tag === undefined ? {} : { tag, includeRetired: true });
+
+    const personas: PersonaProfile[] = [];
+    for (const entry of entries) {
+      const version =
+        tag === undefined
+          ? entry.versions[entry.versions.length - 1]
+          : entry.versions.find((candidate) => candidate.tags.includes(tag));
+      if (version !== undefined) {
+        personas.push((await this.readRecord(version.hash)).persona);
+      }
+    }
+    return personas;
+  }
+
+  /**
+   * Resolve a reference to a persona version
+   * References: `<id>` (latest version), `<id>@<version>`, `<id>@<tag>`, or a
+   * content hash prefix of at least 6 characters.
+   * @param ref - Persona reference
+   * @returns Version with its stored content
+   * @throws {PersonaLibraryError} If the reference matches no version or several
+   */
+  async show(ref: string): Promise<ResolvedPersonaVersion> {
+    const index = await this.readIndex();
+    const { entry, version } = PersonaLibrary.resolve(index, ref);
+    return { entry, version, record: await this.readRecord(version.hash) };
+  }
+
+  /**
+   * Compare two persona versions field by field
+   * @param fromRef - Reference of the older version
+   * @param toRef - Reference of the newer version
+   * @returns Changed fields in persona field order
+   */
+  async diff(fromRef: string, toRef: string): Promise<PersonaDiff> {
+    const from = await this.show(fromRef);
+    const to = await this.show(toRef);
+    const before = from.record.persona as unknown as Record<string, unknown>;
+    const after = to.record.persona as unknown as Record<string, unknown>;
+
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return {
+      from: { id: from.entry.id, version: from.version.version, hash: from.version.hash },
+      to: { id: to.entry.id, version: to.version.version, hash: to.version.hash },
+      changes: fields
+        .filter((field) => canonicalJson(before[field]) !== canonicalJson(after[field]))
+        .map((field) => ({ field, before: before[field], after: after[field] })),
+    };
+  }
+
+  /**
+   * Retire a persona so simulations stop using it
+   * Its versions and tags are kept. Retiring twice keeps the first retirement.
+   * @param id - Persona ID
+   * @param reason - Optional reason
+   * @returns Updated entry
+   * @throws {PersonaLibraryError} If the persona is not in the library
+   */
+  async retire(id: string, reason?: string): Promise<PersonaLibraryEntry> {
+    const index = await this.readIndex();
+    const entry = index.personas[id];
+    if (entry === undefined) {
+      throw new PersonaLibraryError(`Persona not found: ${id}`);
+    }
+
+    if (entry.retired === undefined) {
+      entry.retired = { at: new Date().toISOString(), ...(reason !== undefined && { reason }) };
+      await this.writeJson(this.indexPath(), index);
+    }
+    return entry;
+  }
+
+  /**
+   * Tag a persona version
+   * A tag names at most one version of each persona, so it moves off any
+   * other version of the same persona.
+   * @param ref - Persona reference (see `show`)
+   * @param tag - Tag name
+   * @returns Tagged version
+   * @throws {PersonaLibraryError} If the reference or tag is invalid
+   */
+  async tag(ref: string, tag: string): Promise<PersonaVersionSummary> {
+    const index = await this.readIndex();
+    const { entry, version } = PersonaLibrary.resolve(index, ref);
+    PersonaLibrary.moveTag(entry, version, tag);
+    await this.writeJson(this.indexPath(), index);
+    return version;
+  }
+
+  // ============================================================
+  // Private helper methods
+  // ============================================================
+
+  /**
+   * Find the version a reference points to
+   */
+  private static resolve(
+    index: PersonaLibraryIndex,
+    ref: string
+  ): { entry: PersonaLibraryEntry; version: PersonaVersionSummary } {
+    const separator = ref.lastIndexOf('@');
+    const id = separator === -1 ? ref : ref.slice(0, separator);
+    const selector = separator === -1 ? undefined : ref.slice(separator + 1);
+
+    const entry = index.personas[id];
+    if (entry !== undefined) {
+      const version =
+        selector === undefined
+          ? entry.versions[entry.versions.length - 1]
+          : /^\d+$/.test(selector)
+            ? entry.versions.find((candidate) => candidate.version === Number(selector))
+            : entry.versions.find((candidate) => candidate.tags.includes(selector));
+      if (version === undefined) {
+        throw new PersonaLibraryError(`Persona version not found: ${ref}`);
+      }
+      return { entry, version };
+    }
+
+    if (selector === undefined && /^[0-9a-f]+$/.test(ref) && ref.length >= MIN_HASH_PREFIX) {
+      const matches = Object.values(index.personas).flatMap((candidate) =>
+        candidate.versions
+          .filter((version) => version.hash.startsWith(ref))
+          .map((version) => ({ entry: candidate, version }))
+      );
+      if (matches.length > 1) {
+        throw new PersonaLibraryError(`Ambiguous persona reference: ${ref}`);
+      }
+      if (matches[0] !== undefined) {
+        return matches[0];
+      }
+    }
+
+    throw new PersonaLibraryError(`Persona not found: ${ref}`);
+  }
+
+  /**
+   * Attach a tag to one version of a persona
+   */
+  private static moveTag(
+    entry: PersonaLibraryEntry,
+    target: PersonaVersionSummary,
+    tag: string
+  ): void {
+    if (tag.length === 0 || tag.includes('@') || /^\d+$/.test(tag)) {
+      throw new PersonaLibraryError(
+        `Invalid tag "${tag}": tags must be non-empty, without "@" and not a number`
+      );
+    }
+
+    for (const version of entry.versions) {
+      version.tags = version.tags.filter((existing) => existing !== tag);
+    }
+    target.tags.push(tag);
+  }
+
+  /**
+   * Read the index, or an empty one for a new library
+   */
+  private async readIndex(): Promise<PersonaLibraryIndex> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.indexPath(), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: PERSONA_LIBRARY_VERSION, personas: {} };
+      }
+      throw new PersonaLibraryError(
+        `Failed to read persona library ${this.directory}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    let index: Partial<PersonaLibraryIndex>;
+    try {
+      index = JSON.parse(content) as Partial<PersonaLibraryIndex>;
+    } catch (error) {
+      throw new PersonaLibraryError(
+        `Invalid persona library index ${this.indexPath()}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (index.version !== PERSONA_LIBRARY_VERSION || index.personas === undefined) {
+      throw new PersonaLibraryError(
+        `Unsupported persona library version ${String(index.version)} in ${this.indexPath()}`
+      );
+    }
+    return index as PersonaLibraryIndex;
+  }
+
+  /**
+   * Read a stored persona version
+   */
+  private async readRecord(hash: string): Promise<PersonaLibraryRecord> {
+    try {
+      return JSON.parse(
+        await fs.promises.readFile(this.objectPath(hash), 'utf-8')
+      ) as PersonaLibraryRecord;
+    } catch (error) {
+      throw new PersonaLibraryError(
+        `Failed to read persona version ${hash}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Write JSON atomically through a temporary sibling file
+   */
+  private async writeJson(filePath: string, data: unknown): Promise<void> {
+    const temporary = `${filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(temporary, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.promises.rename(temporary, filePath);
+  }
+
+  private indexPath(): string {
+    return path.join(this.directory, 'library.json');
+  }
+
+  private objectPath(hash: string): string {
+    return path.join(this.directory, 'objects', `${hash}.json`);
+  }
+}
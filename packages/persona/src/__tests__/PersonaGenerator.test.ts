@@ -226,19 +226,95 @@ describe('PersonaGenerator', () => {
 
     it('should throw error when diversity too low', async () => {
       const persona2 = { ...validPersona, id: 'persona-2' };
-
-      mockCreate.mockResolvedValue({
-        content: [
-          {
-            type: 'tool_use',
-            name: 'generate_personas',
-            input: { personas: [validPersona, persona2] },
-          },
-        ],
+      const toolResponse = (personas: PersonaProfile[]): unknown => ({
+        content: [{ type: 'tool_use', name: 'generate_personas', input: { personas } }],
       });
 
+      mockCreate
+        .mockResolvedValueOnce(toolResponse([validPersona, persona2]))
+        .mockResolvedValue(toolResponse([{ ...validPersona, id: 'persona-3' }]));
+
       const generator = new PersonaGenerator('test-api-key');
       await expect(generator.generateFromAnalysis(['Analysis'], 2)).rejects.toThrow('too similar');
+      expect(mockCreate).toHaveBeenCalledTimes(4); // Initial request and 3 repair rounds
+    });
+
+    describe('diversity repair', () => {
+      const toolResponse = (personas: unknown[]): unknown => ({
+        content: [{ type: 'tool_use', name: 'generate_personas', input: { personas } }],
+      });
+      const distinctPersona: PersonaProfile = {
+        ...validPersona,
+        id: 'persona-3',
+        archetype: 'Curious Student Hacker',
+        role: 'Computer Science Student',
+        experienceLevel: 'Novice',
+        companySize: 'Startup',
+        techStack: ['Python', 'Rust', 'Linux'],
+        painPoints: ['No budget', 'Sparse tutorials', 'Slow laptop'],
+        goals: ['Land an internship', 'Build side projects', 'Learn systems programming'],
+        fears: ['Looking inexperienced', 'Wasting time'],
+        values: ['Openness', 'Curiosity'],
+        riskTolerance: 0.9,
+        patienceLevel: 0.2,
+        techAdoption: 'Early adopter',
+        learningStyle: 'Video',
+        evaluationCriteria: ['Free tier', 'Community size', 'Tutorial quality'],
+        dealBreakers: ['Paywalled basics', 'Closed source'],
+        delightTriggers: ['Fast setup', 'Helpful errors'],
+        referralTriggers: ['Impresses classmates', 'Student discount'],
+        typicalWorkflow: 'Hacks on side projects in the evening between classes',
+        timeAvailability: '10 hours per week on weekends',
+        collaborationStyle: 'Community-driven',
+      };
+
+      it('should replace the redundant persona of a similar pair', async () => {
+        mockCreate
+          .mockResolvedValueOnce(toolResponse([validPersona, { ...validPersona, id: 'persona-2' }]))
+          .mockResolvedValueOnce(toolResponse([distinctPersona]));
+
+        const generator = new PersonaGenerator('test-api-key');
+        const result = await generator.generateFromAnalysis(['Analysis'], 2);
+
+        expect(result.map((persona) => persona.id)).toEqual(['persona-1', 'persona-3']);
+        expect(mockCreate).toHaveBeenCalledTimes(2);
+
+        const calls = mockCreate.mock.calls as Array<[{ messages: Array<{ content: string }> }]>;
+        const content = calls[1]?.[0].messages[0]?.content ?? '';
+        expect(content).toContain('exactly 1 replacement persona');
+        expect(content).toContain('- Cautious Enterprise Architect');
+        expect(content).toContain('- experienceLevel: Novice, Intermediate');
+        expect(content).toContain('- companySize: Startup, SMB');
+      });
+
+      it('should discard invalid replacements', async () => {
+        mockCreate
+          .mockResolvedValueOnce(toolResponse([validPersona, { ...validPersona, id: 'persona-2' }]))
+          .mockResolvedValueOnce(toolResponse([{ ...distinctPersona, riskTolerance: 5 }]))
+          .mockResolvedValueOnce(toolResponse([{ ...distinctPersona, id: 'persona-1' }]))
+          .mockResolvedValueOnce(toolResponse([distinctPersona]));
+
+        const generator = new PersonaGenerator('test-api-key');
+        const result = await generator.generateFromAnalysis(['Analysis'], 2);
+
+        expect(result.map((persona) => persona.id)).toEqual(['persona-1', 'persona-3']);
+        expect(mockCreate).toHaveBeenCalledTimes(4);
+      });
+
+      it('should not repair without a budget', async () => {
+        mockCreate.mockResolvedValue(
+          toolResponse([validPersona, { ...validPersona, id: 'persona-2' }])
+        );
+
+        const generator = new PersonaGenerator('test-api-key', undefined, {
+          maxDiversityRepairs: 0,
+        });
+
+        await expect(generator.generateFromAnalysis(['Analysis'], 2)).rejects.toThrow(
+          'too similar'
+        );
+        expect(mockCreate).toHaveBeenCalledTimes(1);
+      });
     });
 
     it('should accept personas with diversity between 0.65 and 0.70', async () => {
@@ -639,6 +715,43 @@ describe('PersonaGenerator', () => {
     });
   });
 
+  describe('completePersonas', () => {
+    it('should fill missing fields while keeping the given ones', async () => {
+      mockCreate.mockResolvedValue({
+        content: [
+          {
+            type: 'tool_use',
+            name: 'generate_personas',
+            input: { personas: [{ ...validPersona, id: 'generated-1', role: 'Generated role' }] },
+          },
+        ],
+      });
+
+      const generator = new PersonaGenerator('test-api-key');
+      const [persona] = await generator.completePersonas(
+        [{ id: 'survey-1', role: 'Platform Engineer' }],
+        'Survey export'
+      );
+
+      expect(persona).toMatchObject({
+        id: 'survey-1',
+        role: 'Platform Engineer',
+        archetype: validPersona.archetype,
+      });
+      const calls = mockCreate.mock.calls as Array<[{ messages: Array<{ content: string }> }]>;
+      const content = calls[0]?.[0].messages[0]?.content;
+      expect(content).toContain('Survey export');
+      expect(content).toContain('"role": "Platform Engineer"');
+    });
+
+    it('should not call the API without partial personas', async () => {
+      const generator = new PersonaGenerator('test-api-key');
+
+      await expect(generator.completePersonas([], 'Survey export')).resolves.toEqual([]);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getConfig', () => {
     it('should return current configuration', () => {
       const generator = new PersonaGenerator('test-api-key', 'claude-sonnet-4-20250514', {
@@ -652,6 +765,21 @@ describe('PersonaGenerator', () => {
     });
   });
 
+  describe('getGenerationInfo', () => {
+    it('should describe the model, prompt and configuration', () => {
+      const generator = new PersonaGenerator('test-api-key', 'claude-opus-4-20250514', {
+        temperature: 0.5,
+      });
+
+      const info = generator.getGenerationInfo(5);
+
+      expect(info.model).toBe('claude-opus-4-20250514');
+      expect(info.promptSha256).toMatch(/^[0-9a-f]{64}$/);
+      expect(info.promptSha256).not.toBe(generator.getGenerationInfo(10).promptSha256);
+      expect(info.config).toEqual(generator.getConfig());
+    });
+  });
+
   describe('IPersonaGenerator interface methods', () => {
     describe('generatePersonas', () => {
       it('should generate personas with metadata', async () => {
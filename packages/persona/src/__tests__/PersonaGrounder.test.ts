@@ -0,0 +1,239 @@
+/**
+ * Tests for PersonaGrounder
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { PersonaProfile } from '@suts/core';
+import { PersonaGenerator } from '../PersonaGenerator';
+import { PersonaGrounder, PersonaGroundingError, type RgsSignal } from '../PersonaGrounder';
+
+jest.mock('@anthropic-ai/sdk');
+
+const MockedAnthropic = Anthropic as jest.MockedClass<typeof Anthropic>;
+
+describe('PersonaGrounder', () => {
+  const signals: RgsSignal[] = [
+    { id: 's1', content: 'The build is so slow, waiting for CI forever', sentiment: -0.8 },
+    { id: 's2', content: 'Slow CI again', sentiment: -0.6 },
+    { id: 's3', content: 'Wish it had better docs', sentiment: 0.2 },
+    {
+      id: 's4',
+      content: 'Would love to work on a plane',
+      sentiment: 0.7,
+      themes: ['Offline mode'],
+    },
+    { id: 's5', content: 'Flaky tests everywhere', sentiment: -0.3 },
+  ];
+
+  const insight = {
+    themes: [
+      { name: 'slow builds', confidence: 0.8, frequency: 2, keywords: ['slow', 'ci'] },
+      { name: 'flaky tests', confidence: 0.6, frequency: 1, keywords: ['flaky'] },
+      { name: 'documentation', confidence: 0.7, frequency: 1, keywords: ['docs'] },
+      { name: 'offline mode', confidence: 0.5, frequency: 1, keywords: [] },
+    ],
+    sentiment: { overall: -0.1 },
+    painPoints: ['slow builds', 'flaky tests'],
+    desires: ['documentation', 'offline mode'],
+    language: {
+      commonPhrases: ['waiting for CI'],
+      tone: 'casual',
+      frequentTerms: { ci: 2 },
+      emotionalIndicators: ['hate'],
+    },
+    confidence: 0.7,
+  };
+
+  describe('fromInsights', () => {
+    it('should map pain points and desires onto personas with their signals', async () => {
+      const result = await new PersonaGrounder().fromInsights([insight], signals, 2);
+
+      expect(result.gapFill).toBe('defaults');
+      expect(result.personas[0]).toMatchObject({
+        id: 'slow-builds-1',
+        archetype: 'Developer (slow builds)',
+        painPoints: ['slow builds'],
+        dealBreakers: ['slow builds'],
+        goals: ['documentation'],
+        delightTriggers: ['documentation'],
+        state: { signalIds: ['s1', 's2', 's3'] },
+        confidenceScore: 0.75,
+        source: 'rgs',
+      });
+      expect(result.personas[1]).toMatchObject({
+        id: 'flaky-tests-2',
+        painPoints: ['flaky tests'],
+        dealBreakers: ['flaky tests'],
+        goals: ['offline mode'],
+        delightTriggers: ['offline mode'],
+      });
+      expect(result.grounding).toEqual({
+        'slow-builds-1': ['s1', 's2', 's3'],
+        'flaky-tests-2': ['s4', 's5'],
+      });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should rank needs by supporting signals and use signal sentiment', async () => {
+      const result = await new PersonaGrounder().fromInsights([insight], signals, 1);
+
+      expect(result.needs.map((need) => need.name)).toEqual([
+        'slow builds',
+        'documentation',
+        'flaky tests',
+        'offline mode',
+      ]);
+      expect(result.needs[0]?.sentiment).toBeCloseTo(-0.7);
+      expect(result.personas[0]?.painPoints).toEqual(['slow builds', 'flaky tests']);
+      expect(result.personas[0]?.dealBreakers).toEqual(['slow builds']);
+      expect(result.personas[0]?.delightTriggers).toEqual(['offline mode']);
+    });
+
+    it('should merge needs repeated across insights and reuse needs for extra personas', async () => {
+      const result = await new PersonaGrounder().fromInsights(
+        [insight, { ...insight, desires: [] }],
+        signals,
+        3
+      );
+
+      expect(result.needs).toHaveLength(4);
+      expect(result.personas[2]).toMatchObject({
+        id: 'slow-builds-3',
+        painPoints: ['slow builds'],
+        goals: ['documentation'],
+      });
+    });
+
+    it('should warn about needs no signal supports', async () => {
+      const result = await new PersonaGrounder().fromInsights(
+        [{ ...insight, desires: ['dark mode'] }],
+        signals,
+        1
+      );
+
+      expect(result.warnings).toEqual(['Desire "dark mode" has no supporting signal']);
+    });
+
+    it('should reject invalid insights, counts and insights without needs', async () => {
+      const grounder = new PersonaGrounder();
+
+      await expect(grounder.fromInsights([{ themes: [] }], signals, 1)).rejects.toThrow(
+        PersonaGroundingError
+      );
+      await expect(grounder.fromInsights([insight], signals, 0)).rejects.toThrow(/Count/);
+      await expect(
+        grounder.fromInsights([{ ...insight, painPoints: [], desires: [] }], signals, 1)
+      ).rejects.toThrow(/no pain points or desires/);
+    });
+
+    it('should fill gaps with the generator while keeping grounded fields', async () => {
+      const llmPersona = {
+        archetype: 'Impatient Platform Engineer',
+        role: 'Platform Engineer',
+        experienceLevel: 'Expert',
+        companySize: 'SMB',
+        techStack: ['Kubernetes'],
+        painPoints: ['Invented'],
+        goals: ['Invented'],
+        fears: ['Outages'],
+        values: ['Speed'],
+        riskTolerance: 0.4,
+        patienceLevel: 0.2,
+        techAdoption: 'Early adopter',
+        learningStyle: 'Trial-error',
+        evaluationCriteria: ['Build time'],
+        dealBreakers: ['Invented'],
+        delightTriggers: ['Invented'],
+        referralTriggers: ['Faster pipelines'],
+        typicalWorkflow: 'Maintains CI pipelines',
+        timeAvailability: '1 hour per day',
+        collaborationStyle: 'Team',
+      } as Partial<PersonaProfile>;
+      const create = jest.fn().mockResolvedValue({
+        content: [
+          {
+            type: 'tool_use',
+            name: 'generate_personas',
+            input: { personas: [{ ...llmPersona, id: 'llm-1' }] },
+          },
+        ],
+      });
+      MockedAnthropic.prototype.messages = { create } as never;
+
+      const result = await new PersonaGrounder().fromInsights([insight], signals, 1, {
+        generator: new PersonaGenerator('test-api-key'),
+        maxListItems: 1,
+      });
+
+      expect(result.gapFill).toBe('llm');
+      expect(result.personas[0]).toMatchObject({
+        id: 'slow-builds-1',
+        archetype: 'Impatient Platform Engineer',
+        role: 'Platform Engineer',
+        painPoints: ['slow builds'],
+        goals: ['documentation'],
+        state: { signalIds: ['s1', 's2', 's3'] },
+        source: 'rgs+llm',
+      });
+      const request = (
+        create.mock.calls as Array<[{ messages: Array<{ content: string }> }]>
+      )[0]?.[0];
+      expect(request?.messages[0]?.content).toContain('Pain points: slow builds, flaky tests');
+      expect(request?.messages[0]?.content).toContain('Tone: casual');
+    });
+  });
+
+  describe('fromReport', () => {
+    it('should ground pain and desire themes of a report', async () => {
+      const report = {
+        themes: [
+          {
+            name: 'slow builds',
+            confidence: 0.8,
+            frequency: 2,
+            keywords: ['slow'],
+            category: 'pain',
+            sentiment: -0.4,
+          },
+          {
+            name: 'Offline mode',
+            confidence: 0.6,
+            frequency: 1,
+            keywords: [],
+            category: 'desire',
+            sentiment: 0.6,
+          },
+          {
+            name: 'pricing',
+            confidence: 0.9,
+            frequency: 5,
+            keywords: ['price'],
+            category: 'neutral',
+            sentiment: 0,
+          },
+        ],
+        signals,
+        metadata: { totalSignals: 5 },
+      };
+
+      const result = await new PersonaGrounder().fromReport(report, 1, {
+        sentimentThreshold: 0.3,
+      });
+
+      expect(result.needs.map((need) => need.name)).toEqual(['slow builds', 'Offline mode']);
+      expect(result.personas[0]).toMatchObject({
+        painPoints: ['slow builds'],
+        dealBreakers: ['slow builds'],
+        goals: ['Offline mode'],
+        delightTriggers: ['Offline mode'],
+        state: { signalIds: ['s1', 's2', 's4'] },
+      });
+    });
+
+    it('should reject invalid reports', async () => {
+      await expect(new PersonaGrounder().fromReport({ signals: [] }, 1)).rejects.toThrow(
+        /Invalid RGS report/
+      );
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Tests for PersonaImporter
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { PersonaProfile } from '@suts/core';
+import { PersonaGenerator } from '../PersonaGenerator';
+import {
+  PersonaImporter,
+  PersonaImportError,
+  allocateBySize,
+  parseCsv,
+  type PersonaImportMappingInput,
+} from '../PersonaImporter';
+
+jest.mock('@anthropic-ai/sdk');
+
+const MockedAnthropic = Anthropic as jest.MockedClass<typeof Anthropic>;
+
+describe('PersonaImporter', () => {
+  const survey = [
+    'segment,role,years,company,adoption,tools,pains,patience',
+    'Startup devs,Developer,junior,1-10,early,TypeScript;React,Slow CI;Flaky tests,2',
+    'Startup devs,Developer,junior,1-10,early,TypeScript;Go,Slow CI,3',
+    'Startup devs,Tech Lead,senior,11-50,early,TypeScript,Slow CI;Hiring,4',
+    '"Enterprise, regulated",Architect,senior,5000+,late,Java;Spring,"Compliance; audits",5',
+  ].join('\n');
+
+  const mapping: PersonaImportMappingInput = {
+    segmentColumn: 'segment',
+    fields: {
+      role: 'role',
+      experienceLevel: { column: 'years', values: { junior: 'Novice', senior: 'Expert' } },
+      companySize: {
+        column: 'company',
+        values: { '1-10': 'Startup', '11-50': 'SMB', '5000+': 'Enterprise' },
+      },
+      techAdoption: {
+        column: 'adoption',
+        values: { early: 'Early adopter', late: 'Late majority' },
+      },
+      techStack: 'tools',
+      painPoints: 'pains',
+      patienceLevel: { column: 'patience', scale: [1, 5] },
+    },
+  };
+
+  describe('parseCsv', () => {
+    it('should parse quoted fields, escaped quotes and line breaks', () => {
+      const rows = parseCsv('name,notes\r\n"Doe, J","said ""hi""\nthen left"\r\n\r\nSmith,\n');
+
+      expect(rows).toEqual([
+        { name: 'Doe, J', notes: 'said "hi"\nthen left' },
+        { name: 'Smith', notes: '' },
+      ]);
+    });
+
+    it('should reject unterminated quotes', () => {
+      expect(() => parseCsv('name\n"open')).toThrow(PersonaImportError);
+    });
+  });
+
+  describe('allocateBySize', () => {
+    it('should split the count proportionally and sum to it', () => {
+      expect(allocateBySize([60, 30, 10], 10)).toEqual([6, 3, 1]);
+      expect(allocateBySize([50, 30, 20], 4)).toEqual([2, 1, 1]);
+      expect(allocateBySize([1, 1, 1], 2)).toEqual([1, 1, 0]);
+      expect(allocateBySize([0, 0], 3)).toEqual([0, 0]);
+    });
+  });
+
+  describe('importCsv', () => {
+    it('should weight personas by segment size and aggregate each group', async () => {
+      const result = await new PersonaImporter(mapping).importCsv(survey, 4);
+
+      expect(result.segments).toEqual([
+        { name: 'Startup devs', size: 3, rows: 3, personas: 3 },
+        { name: 'Enterprise, regulated', size: 1, rows: 1, personas: 1 },
+      ]);
+      expect(result.personas.map((persona) => persona.id)).toEqual([
+        'startup-devs-1',
+        'startup-devs-2',
+        'startup-devs-3',
+        'enterprise-regulated-1',
+      ]);
+
+      const enterprise = result.personas[3]!;
+      expect(enterprise).toMatchObject({
+        archetype: 'Enterprise, regulated',
+        role: 'Architect',
+        experienceLevel: 'Expert',
+        companySize: 'Enterprise',
+        techAdoption: 'Late majority',
+        techStack: ['Java', 'Spring'],
+        painPoints: ['Compliance', 'audits'],
+        patienceLevel: 1,
+        source: 'csv-import',
+      });
+      expect(result.gapFill).toBe('defaults');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should aggregate rows by mode, mean and item frequency', async () => {
+      const result = await new PersonaImporter(mapping).importCsv(survey, 1);
+      const startup = result.personas.find((persona) => persona.id === 'startup-devs-1')!;
+
+      expect(startup).toMatchObject({
+        role: 'Developer',
+        experienceLevel: 'Novice',
+        companySize: 'Startup',
+        techStack: ['TypeScript', 'React', 'Go'],
+        painPoints: ['Slow CI', 'Flaky tests', 'Hiring'],
+        patienceLevel: 0.5,
+      });
+    });
+
+    it('should fill unmapped fields with defaults and report them', async () => {
+      const result = await new PersonaImporter({
+        ...mapping,
+        defaults: { learningStyle: 'Video' },
+      }).importCsv(survey, 1);
+
+      const [persona] = result.personas;
+      expect(persona).toMatchObject({
+        learningStyle: 'Video',
+        collaborationStyle: 'Team',
+        typicalWorkflow: 'Not specified',
+      });
+      expect(result.gaps['startup-devs-1']).toContain('learningStyle');
+      expect(result.gaps['startup-devs-1']).not.toContain('role');
+      expect(persona?.confidenceScore).toBeCloseTo(7 / 20);
+    });
+
+    it('should use the size column of analytics segment exports', async () => {
+      const segments = 'segment,users,role\nPower users,200,Analyst\nCasual,800,Marketer\n';
+
+      const result = await new PersonaImporter({
+        segmentColumn: 'segment',
+        sizeColumn: 'users',
+        fields: { role: 'role' },
+      }).importCsv(segments, 5);
+
+      expect(result.segments.map((segment) => [segment.name, segment.personas])).toEqual([
+        ['Casual', 4],
+        ['Power users', 1],
+      ]);
+      expect(result.personas.filter((persona) => persona.role === 'Marketer')).toHaveLength(4);
+    });
+
+    it('should keep persona IDs unique when segment names share a slug', async () => {
+      const csv = 'segment,role\nSmall Biz,Owner\nsmall-biz,Owner\nSmall  biz!,Owner\n';
+
+      const result = await new PersonaImporter({
+        segmentColumn: 'segment',
+        fields: { role: 'role' },
+      }).importCsv(csv, 3);
+
+      expect(result.personas.map((persona) => [persona.archetype, persona.id])).toEqual([
+        ['Small Biz', 'small-biz-1'],
+        ['small-biz', 'small-biz-2-1'],
+        ['Small  biz!', 'small-biz-3-1'],
+      ]);
+      expect(Object.keys(result.gaps)).toHaveLength(3);
+    });
+
+    it('should warn about unmappable cells and skip them', async () => {
+      const csv = 'role,company,risk\nDeveloper,huge,7\nDeveloper,SMB,0.4\n';
+
+      const result = await new PersonaImporter({
+        fields: { role: 'role', companySize: 'company', riskTolerance: 'risk' },
+      }).importCsv(csv, 1);
+
+      expect(result.warnings).toEqual([
+        'Line 2: unknown companySize value "huge"',
+        'Line 2: riskTolerance value "7" is not between 0 and 1 (set a scale)',
+      ]);
+      expect(result.personas[0]).toMatchObject({
+        archetype: 'respondents',
+        companySize: 'SMB',
+        riskTolerance: 0.4,
+      });
+    });
+
+    it('should reject mappings with missing columns', async () => {
+      await expect(
+        new PersonaImporter({ fields: { role: 'job_title' } }).importCsv(survey, 1)
+      ).rejects.toThrow('CSV is missing mapped columns: job_title');
+    });
+
+    it('should reject invalid mappings', () => {
+      expect(() => new PersonaImporter({ fields: { favouriteColour: 'colour' } } as never)).toThrow(
+        PersonaImportError
+      );
+      expect(
+        () =>
+          new PersonaImporter({ fields: { patienceLevel: { column: 'patience', scale: [3, 3] } } })
+      ).toThrow('scale bounds must differ');
+    });
+
+    it('should fill gaps with the generator while keeping imported fields', async () => {
+      const llmPersona = {
+        archetype: 'Compliance-First Architect',
+        role: 'Invented role',
+        experienceLevel: 'Intermediate',
+        companySize: 'SMB',
+        techStack: ['Invented'],
+        painPoints: ['Invented'],
+        goals: ['Pass audits', 'Standardize tooling', 'Reduce risk'],
+        fears: ['Fines'],
+        values: ['Security'],
+        riskTolerance: 0.2,
+        patienceLevel: 0.1,
+        techAdoption: 'Laggard',
+        learningStyle: 'Documentation',
+        evaluationCriteria: ['Certifications'],
+        dealBreakers: ['No SSO'],
+        delightTriggers: ['Audit reports'],
+        referralTriggers: ['Passed audit'],
+        typicalWorkflow: 'Reviews architecture decisions',
+        timeAvailability: '2 hours per week',
+        collaborationStyle: 'Team',
+      } as Partial<PersonaProfile>;
+      const create = jest.fn().mockResolvedValue({
+        content: [
+          {
+            type: 'tool_use',
+            name: 'generate_personas',
+            input: { personas: [{ ...llmPersona, id: 'llm-1' }] },
+          },
+        ],
+      });
+      MockedAnthropic.prototype.messages = { create } as never;
+
+      const csv = 'segment,role\nRegulated,Architect\n';
+      const result = await new PersonaImporter({
+        segmentColumn: 'segment',
+        fields: { role: 'role' },
+      }).importCsv(csv, 1, {
+        generator: new PersonaGenerator('test-api-key'),
+        sourceName: 'survey.csv',
+      });
+
+      expect(result.gapFill).toBe('llm');
+      expect(result.personas[0]).toMatchObject({
+        id: 'regulated-1',
+        archetype: 'Compliance-First Architect',
+        role: 'Architect',
+        goals: ['Pass audits', 'Standardize tooling', 'Reduce risk'],
+        source: 'csv-import+llm',
+      });
+      const request = (
+        create.mock.calls as Array<[{ messages: Array<{ content: string }> }]>
+      )[0]?.[0];
+      expect(request?.messages[0]?.content).toContain('segment "Regulated" (size 1)');
+      expect(request?.messages[0]?.content).toContain('"role": "Architect"');
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for PersonaLibrary
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { PersonaProfile } from '@suts/core';
+import {
+  PersonaLibrary,
+  PersonaLibraryError,
+  describeSource,
+  hashPersona,
+  type PersonaProvenance,
+} from '../PersonaLibrary';
+import { analyzeDiversity } from '../validation';
+
+describe('PersonaLibrary', () => {
+  const basePersona: PersonaProfile = {
+    id: 'persona-1',
+    archetype: 'Cautious Enterprise Architect',
+    role: 'Senior Solutions Architect',
+    experienceLevel: 'Expert',
+    companySize: 'Enterprise',
+    techStack: ['Java', 'Spring', 'AWS', 'Kubernetes'],
+    painPoints: ['Legacy system integration', 'Compliance requirements', 'Vendor lock-in concerns'],
+    goals: ['Modernize infrastructure', 'Reduce operational costs', 'Improve scalability'],
+    fears: ['Security breaches', 'Downtime'],
+    values: ['Reliability', 'Security'],
+    riskTolerance: 0.3,
+    patienceLevel: 0.8,
+    techAdoption: 'Late majority',
+    learningStyle: 'Documentation',
+    evaluationCriteria: ['Security track record', 'Enterprise support'],
+    dealBreakers: ['No enterprise support'],
+    delightTriggers: ['Excellent documentation'],
+    referralTriggers: ['Proven ROI'],
+    typicalWorkflow: 'Reviews vendor proposals, conducts POCs, presents to leadership',
+    timeAvailability: '5-10 hours per week for evaluation',
+    collaborationStyle: 'Team',
+    state: {},
+    history: [],
+    confidenceScore: 0.85,
+    lastUpdated: '2024-01-01T00:00:00Z',
+    source: 'llm-generated',
+  };
+
+  const secondPersona: PersonaProfile = {
+    ...basePersona,
+    id: 'persona-2',
+    archetype: 'Scrappy Startup Developer',
+    role: 'Full-stack Developer',
+    experienceLevel: 'Intermediate',
+    companySize: 'Startup',
+    riskTolerance: 0.8,
+  };
+
+  const provenance: PersonaProvenance = {
+    sources: [describeSource('analysis.md', '# Stakeholders')],
+    generator: { model: 'test-model', promptSha256: 'abc', config: { temperature: 0.7 } },
+  };
+
+  let directory: string;
+  let library: PersonaLibrary;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'persona-library-'));
+    library = new PersonaLibrary(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('hashPersona', () => {
+    it('should not depend on key order', () => {
+      const reordered = Object.fromEntries(
+        Object.entries(basePersona).reverse()
+      ) as unknown as PersonaProfile;
+
+      expect(hashPersona(reordered)).toBe(hashPersona(basePersona));
+      expect(hashPersona({ ...basePersona, riskTolerance: 0.4 })).not.toBe(
+        hashPersona(basePersona)
+      );
+    });
+  });
+
+  describe('save', () => {
+    it('should store personas with provenance and a diversity report', async () => {
+      const results = await library.save([basePersona, secondPersona], provenance);
+
+      expect(results).toEqual([
+        { id: 'persona-1', version: 1, hash: hashPersona(basePersona), created: true },
+        { id: 'persona-2', version: 1, hash: hashPersona(secondPersona), created: true },
+      ]);
+
+      const { record } = await library.show('persona-1');
+      expect(record.persona).toEqual(basePersona);
+      expect(record.provenance.sources).toEqual(provenance.sources);
+      expect(record.provenance.generator?.model).toBe('test-model');
+      expect(record.provenance.diversity).toEqual(analyzeDiversity([basePersona, secondPersona]));
+      expect(fs.existsSync(path.join(directory, 'objects', `${results[0]?.hash}.json`))).toBe(true);
+    });
+
+    it('should add a version only when content changes', async () => {
+      await library.save([basePersona], provenance);
+      const unchanged = await library.save([basePersona], provenance);
+      const changed = await library.save([{ ...basePersona, patienceLevel: 0.2 }], provenance);
+
+      expect(unchanged[0]).toMatchObject({ version: 1, created: false });
+      expect(changed[0]).toMatchObject({ version: 2, created: true });
+      const [entry] = await library.list();
+      expect(entry?.versions.map((version) => version.version)).toEqual([1, 2]);
+    });
+
+    it('should reject invalid and duplicate personas', async () => {
+      await expect(
+        library.save([{ ...basePersona, riskTolerance: 2 }], provenance)
+      ).rejects.toThrow(PersonaLibraryError);
+      await expect(library.save([basePersona, basePersona], provenance)).rejects.toThrow(
+        'Duplicate persona IDs: persona-1'
+      );
+    });
+  });
+
+  describe('references', () => {
+    beforeEach(async () => {
+      await library.save([basePersona], provenance, ['baseline']);
+      await library.save([{ ...basePersona, patienceLevel: 0.2 }], provenance);
+    });
+
+    it('should resolve IDs, versions, tags and hash prefixes', async () => {
+      expect((await library.show('persona-1')).version.version).toBe(2);
+      expect((await library.show('persona-1@1')).record.persona.patienceLevel).toBe(0.8);
+      expect((await library.show('persona-1@baseline')).version.version).toBe(1);
+      expect((await library.show(hashPersona(basePersona).slice(0, 8))).version.version).toBe(1);
+    });
+
+    it('should reject unknown references', async () => {
+      await expect(library.show('persona-9')).rejects.toThrow('Persona not found: persona-9');
+      await expect(library.show('persona-1@3')).rejects.toThrow(
+        'Persona version not found: persona-1@3'
+      );
+    });
+
+    it('should diff two versions', async () => {
+      const diff = await library.diff('persona-1@1', 'persona-1');
+
+      expect(diff.from).toMatchObject({ id: 'persona-1', version: 1 });
+      expect(diff.to).toMatchObject({ id: 'persona-1', version: 2 });
+      expect(diff.changes).toEqual([{ field: 'patienceLevel', before: 0.8, after: 0.2 }]);
+    });
+
+    it('should move a tag between versions of a persona', async () => {
+      await library.tag('persona-1', 'baseline');
+
+      const [entry] = await library.list();
+      expect(entry?.versions.map((version) => version.tags)).toEqual([[], ['baseline']]);
+      await expect(library.tag('persona-1', '7')).rejects.toThrow('Invalid tag "7"');
+    });
+  });
+
+  describe('loadPersonas', () => {
+    it('should load the latest active personas', async () => {
+      await library.save([basePersona, secondPersona], provenance, ['v1']);
+      await library.save([{ ...basePersona, patienceLevel: 0.2 }], provenance);
+      await library.retire('persona-2', 'Out of market');
+
+      const personas = await library.loadPersonas();
+
+      expect(personas.map((persona) => [persona.id, persona.patienceLevel])).toEqual([
+        ['persona-1', 0.2],
+      ]);
+    });
+
+    it('should load a pinned set by tag, including retired personas', async () => {
+      await library.save([basePersona, secondPersona], provenance, ['v1']);
+      await library.save([{ ...basePersona, patienceLevel: 0.2 }], provenance);
+      await library.retire('persona-2');
+
+      const personas = await library.loadPersonas('v1');
+
+      expect(personas).toEqual([basePersona, secondPersona]);
+    });
+
+    it('should return no personas from a new library', async () => {
+      expect(await library.loadPersonas()).toEqual([]);
+    });
+  });
+
+  describe('retire', () => {
+    it('should hide retired personas from the default listing', async () => {
+      await library.save([basePersona, secondPersona], provenance);
+
+      const entry = await library.retire('persona-2', 'Out of market');
+
+      expect(entry.retired).toMatchObject({ reason: 'Out of market' });
+      expect((await library.list()).map((candidate) => candidate.id)).toEqual(['persona-1']);
+      expect(await library.list({ includeRetired: true })).toHaveLength(2);
+    });
+
+    it('should reject unknown personas', async () => {
+      await expect(library.retire('persona-9')).rejects.toThrow('Persona not found: persona-9');
+    });
+  });
+
+  it('should reject an unsupported index version', async () => {
+    fs.writeFileSync(path.join(directory, 'library.json'), JSON.stringify({ version: 99 }));
+
+    await expect(library.list()).rejects.toThrow('Unsupported persona library version 99');
+  });
+});
@@ -28,6 +28,27 @@ describe('persona package exports', () => {
     expect(personaExports.diversityAnalysisTool).toBeDefined();
   });
 
+  it('should export PersonaLibrary', () => {
+    expect(personaExports.PersonaLibrary).toBeDefined();
+    expect(personaExports.PersonaLibraryError).toBeDefined();
+    expect(personaExports.hashPersona).toBeDefined();
+    expect(personaExports.describeSource).toBeDefined();
+  });
+
+  it('should export PersonaImporter', () => {
+    expect(personaExports.PersonaImporter).toBeDefined();
+    expect(personaExports.PersonaImportError).toBeDefined();
+    expect(personaExports.PersonaImportMappingSchema).toBeDefined();
+    expect(personaExports.parseCsv).toBeDefined();
+  });
+
+  it('should export PersonaGrounder', () => {
+    expect(personaExports.PersonaGrounder).toBeDefined();
+    expect(personaExports.PersonaGroundingError).toBeDefined();
+    expect(personaExports.RgsInsightSchema).toBeDefined();
+    expect(personaExports.RgsReportSchema).toBeDefined();
+  });
+
   it('should export PersonaProfileSchema', () => {
     expect(personaExports.PersonaProfileSchema).toBeDefined();
   });
@@ -3,6 +3,8 @@
  */
 
 import {
+  getDiversityRepairInstructions,
+  getPersonaCompletionInstructions,
   getPersonaGenerationPrompt,
   personaGenerationTool,
 } from '../templates/persona-generation';
@@ -92,6 +94,41 @@ describe('templates', () => {
     });
   });
 
+  describe('diversity-repair', () => {
+    it('should list archetypes to avoid and under-covered traits', () => {
+      const instructions = getDiversityRepairInstructions(2, ['Scrappy Startup Developer'], {
+        experienceLevel: ['Novice', 'Expert'],
+        companySize: [],
+      });
+
+      expect(instructions).toContain('exactly 2 replacement personas');
+      expect(instructions).toContain('- Scrappy Startup Developer');
+      expect(instructions).toContain('- experienceLevel: Novice, Expert');
+      expect(instructions).not.toContain('companySize');
+    });
+
+    it('should omit the trait section when every value is covered', () => {
+      const instructions = getDiversityRepairInstructions(1, ['Architect'], {});
+
+      expect(instructions).toContain('exactly 1 replacement persona ');
+      expect(instructions).not.toContain('under-represented');
+    });
+  });
+
+  describe('persona-completion', () => {
+    it('should list each partial persona in order', () => {
+      const instructions = getPersonaCompletionInstructions([
+        { id: 'startups-1', role: 'Developer' },
+        { id: 'enterprise-1', companySize: 'Enterprise' },
+      ]);
+
+      expect(instructions).toContain('Complete exactly 2 personas');
+      expect(instructions).toContain('Persona 1:\n{\n  "id": "startups-1"');
+      expect(instructions).toContain('"companySize": "Enterprise"');
+      expect(instructions.indexOf('startups-1')).toBeLessThan(instructions.indexOf('enterprise-1'));
+    });
+  });
+
   describe('diversity-analysis', () => {
     it('should generate diversity analysis prompt', () => {
       const prompt = getDiversityAnalysisPrompt();
@@ -5,6 +5,9 @@
 
 export * from './types';
 export * from './PersonaGenerator';
+export * from './PersonaLibrary';
+export * from './PersonaImporter';
+export * from './PersonaGrounder';
 export * from './validation';
 export * from './templates/persona-generation';
 export * from './templates/diversity-analysis';
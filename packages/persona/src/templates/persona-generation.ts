@@ -75,6 +75,55 @@ You MUST use the tool "generate_personas" to output the personas. The tool accep
 Remember: Quality over quantity. Each persona should be well-researched, internally consistent, and clearly differentiated from others.`;
 }
 
+/**
+ * Get instructions for replacement personas during diversity repair
+ * Appended to the generation request so the replacements differ from the
+ * personas that are kept and fill the trait values the set lacks.
+ * @param count - Number of replacement personas
+ * @param existingArchetypes - Archetypes the replacements must not repeat
+ * @param underCovered - Under-represented trait values by persona field
+ * @returns Repair instructions
+ */
+export function getDiversityRepairInstructions(
+  count: number,
+  existingArchetypes: string[],
+  underCovered: Record<string, string[]>
+): string {
+  const traits = Object.entries(underCovered)
+    .filter(([, values]) => values.length > 0)
+    .map(([field, values]) => `- ${field}: ${values.join(', ')}`);
+
+  return `# Diversity Repair
+The existing persona set is too homogeneous. Generate exactly ${count} replacement persona${count === 1 ? '' : 's'} that differ clearly from the existing ones.
+
+Do not reuse or closely paraphrase these existing archetypes:
+${existingArchetypes.map((archetype) => `- ${archetype}`).join('\n')}
+${
+  traits.length > 0
+    ? `
+Prefer these under-represented trait values:
+${traits.join('\n')}
+`
+    : ''
+}
+Use new persona IDs and vary tech stacks, pain points and goals from the existing personas.`;
+}
+
+/**
+ * Get instructions for completing partial personas
+ * Appended to the generation request so the model fills only the fields the
+ * source data did not provide.
+ * @param partials - Partial personas in output order
+ * @returns Completion instructions
+ */
+export function getPersonaCompletionInstructions(partials: Array<Record<string, unknown>>): string {
+  return `# Persona Completion
+Complete exactly ${partials.length} persona${partials.length === 1 ? '' : 's'}. Each persona below was imported from structured research data and lists only the fields known from that data.
+Output the personas in the same order. Keep every given field exactly as provided and fill in all missing fields so they are consistent with the given ones and with the analysis above.
+
+${partials.map((partial, index) => `Persona ${index + 1}:\n${JSON.stringify(partial, null, 2)}`).join('\n\n')}`;
+}
+
 /**
  * Tool definition for structured persona generation
  */
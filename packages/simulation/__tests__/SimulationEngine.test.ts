@@ -2,9 +2,15 @@
  * Tests for SimulationEngine
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { SimulationEngine } from '../src/engine';
+import { RuleBasedDecisionProvider } from '../src/behavior/RuleBasedDecisionProvider';
+import type { DecisionProvider } from '../src/behavior/DecisionProvider';
 import type { PersonaProfile } from '@suts/persona';
-import type { ProductState, SimulationEngineConfig } from '../src/types';
+import { ActionType, type ISimpleProductAdapter, type UserAction } from '@suts/core';
+import type { ProductState, SimulationEngineConfig, SimulationState } from '../src/types';
 
 describe('SimulationEngine', () => {
   let mockPersonas: PersonaProfile[];
@@ -120,12 +126,34 @@ describe('SimulationEngine', () => {
     const result1 = await engine1.run(mockPersonas, mockProduct, 3);
     const result2 = await engine2.run(mockPersonas, mockProduct, 3);
 
-    // Results should differ
-    const isDifferent: boolean =
-      result1.events.length !== result2.events.length ||
-      result1.personas[0]!.totalActions !== result2.personas[0]!.totalActions;
+    // Action streams should differ
+    const actionStream = (events: typeof result1.events): string[] =>
+      events
+        .filter((event) => event.eventType === 'action')
+        .map((event) => `${event.action ?? ''}:${String(event.context['success'])}`);
 
-    expect(isDifferent).toBe(true);
+    expect(actionStream(result1.events)).not.toEqual(actionStream(result2.events));
+  });
+
+  it('should apply behaviour parameters', async () => {
+    const run = (behavior: SimulationEngineConfig['behavior']): Promise<SimulationState> =>
+      new SimulationEngine({
+        seed: 12345,
+        maxActionsPerDay: 5,
+        ...(behavior !== undefined && { behavior }),
+      }).run(mockPersonas, mockProduct, 5);
+    const successRate = (state: SimulationState): number => {
+      const actions = state.events.filter((event) => event.eventType === 'action');
+      return actions.filter((event) => event.context['success'] === true).length / actions.length;
+    };
+
+    const baseline = await run(undefined);
+    const failing = await run({ successBias: -1 });
+
+    expect(successRate(failing)).toBeLessThan(successRate(baseline));
+    await expect(run({ frustrationDecayPerDay: 2 })).rejects.toThrow(
+      'frustrationDecayPerDay must be between 0 and 1'
+    );
   });
 
   it('should handle progress callback', async () => {
@@ -223,7 +251,7 @@ describe('SimulationEngine', () => {
     expect(result.personas).toBeDefined();
   });
 
-  it('should create engine with apiKey', async () => {
+  it('should create engine with apiKey', () => {
     const engine = new SimulationEngine({
       seed: 12345,
       batchSize: 10,
@@ -231,8 +259,7 @@ describe('SimulationEngine', () => {
       apiKey: 'test-api-key',
     });
 
-    const result = await engine.run(mockPersonas, mockProduct, 1);
-    expect(result).toBeDefined();
+    expect(engine.getConfig().apiKey).toBe('test-api-key');
   });
 
   it('should create engine with model', async () => {
@@ -247,7 +274,7 @@ describe('SimulationEngine', () => {
     expect(result).toBeDefined();
   });
 
-  it('should create engine with both apiKey and model', async () => {
+  it('should create engine with both apiKey and model', () => {
     const engine = new SimulationEngine({
       seed: 12345,
       batchSize: 10,
@@ -256,7 +283,323 @@ describe('SimulationEngine', () => {
       model: 'claude-3-opus-20240229',
     });
 
-    const result = await engine.run(mockPersonas, mockProduct, 1);
-    expect(result).toBeDefined();
+    expect(engine.getConfig()).toMatchObject({
+      apiKey: 'test-api-key',
+      model: 'claude-3-opus-20240229',
+    });
+  });
+
+  it('should surface decision provider failures', async () => {
+    const engine = new SimulationEngine({
+      seed: 12345,
+      decisionProvider: {
+        name: 'failing',
+        decide: () => Promise.reject(new Error('API unavailable')),
+      },
+    });
+
+    await expect(engine.run(mockPersonas, mockProduct, 1)).rejects.toThrow('API unavailable');
+  });
+
+  it('should reproduce a run from recorded decisions', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-engine-decisions-'));
+    const file = path.join(dir, 'decisions.json');
+    const actions = (events: SimulationState['events']): Array<string | undefined> =>
+      events.map((event) => event.action);
+
+    try {
+      const recorded = await new SimulationEngine({
+        seed: 12345,
+        decisionRecording: { mode: 'record', path: file },
+      }).run(mockPersonas, mockProduct, 3);
+      const replayed = await new SimulationEngine({
+        seed: 12345,
+        decisionRecording: { mode: 'replay', path: file },
+      }).run(mockPersonas, mockProduct, 3);
+
+      expect(fs.existsSync(file)).toBe(true);
+      expect(actions(replayed.events)).toEqual(actions(recorded.events));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should replay decisions recorded from a provider with variable latency', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-engine-decisions-'));
+    const file = path.join(dir, 'decisions.json');
+    const personas = ['persona-1', 'persona-2', 'persona-3', 'persona-4'].map((id) => ({
+      ...mockPersonas[0]!,
+      id,
+    }));
+    const actions = (result: SimulationState): Record<string, Array<string | undefined>> =>
+      Object.fromEntries(
+        result.personas.map((persona) => [
+          persona.personaId,
+          result.events
+            .filter((event) => event.personaId === persona.personaId)
+            .map((event) => event.action),
+        ])
+      );
+
+    // Responses arrive out of request order, as they would from a remote model
+    // (timers are faked, so latency is simulated with microtask ticks)
+    const inner = new RuleBasedDecisionProvider(12345);
+    let calls = 0;
+    const slow: DecisionProvider = {
+      name: 'slow',
+      decide: async (context) => {
+        const delay = (calls++ * 7) % 5;
+        for (let tick = 0; tick < delay; tick++) {
+          await Promise.resolve();
+        }
+        return inner.decide(context);
+      },
+    };
+
+    try {
+      const recorded = await new SimulationEngine({
+        seed: 12345,
+        batchSize: 4,
+        decisionProvider: slow,
+        decisionRecording: { mode: 'record', path: file },
+      }).run(personas, mockProduct, 3);
+      const replayed = await new SimulationEngine({
+        seed: 12345,
+        batchSize: 4,
+        decisionRecording: { mode: 'replay', path: file },
+      }).run(personas, mockProduct, 3);
+
+      expect(actions(replayed)).toEqual(actions(recorded));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should resume from a checkpoint and match an uninterrupted run', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-engine-checkpoint-'));
+    const file = path.join(dir, 'checkpoint.json');
+    const midRun = path.join(dir, 'day-2.json');
+    const actions = (events: SimulationState['events']): string[] =>
+      events.map((event) => `${event.personaId}:${String(event.action)}`);
+
+    try {
+      const uninterrupted = await new SimulationEngine({ seed: 12345 }).run(
+        mockPersonas,
+        mockProduct,
+        4
+      );
+
+      // The day 2 checkpoint is on disk when day 3 reports progress
+      await new SimulationEngine({ seed: 12345, checkpoint: { path: file } }).run(
+        mockPersonas,
+        mockProduct,
+        4,
+        (progress) => {
+          if (progress.currentDay === 3) {
+            fs.copyFileSync(file, midRun);
+          }
+        }
+      );
+
+      const dayTwoEvents = (
+        JSON.parse(fs.readFileSync(midRun, 'utf-8')) as { events: SimulationState['events'] }
+      ).events;
+      const resumed = await new SimulationEngine({ seed: 12345 }).resume(midRun);
+
+      expect(actions(resumed.events)).toEqual(actions(uninterrupted.events));
+      expect(resumed.personas.map(({ events: _events, ...persona }) => persona)).toEqual(
+        uninterrupted.personas.map(({ events: _events, ...persona }) => persona)
+      );
+      expect(resumed.metadata.totalDays).toBe(4);
+
+      // Restored events keep the ISO timestamps events are created with
+      const isIsoTimestamp = (event: SimulationState['events'][number]): boolean =>
+        new Date(event.timestamp).toISOString() === event.timestamp;
+      expect(resumed.events.every(isIsoTimestamp)).toBe(true);
+      expect(resumed.personas.every((persona) => persona.events.every(isIsoTimestamp))).toBe(true);
+      expect(resumed.events.slice(0, dayTwoEvents.length)).toEqual(dayTwoEvents);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject a checkpoint created with a different seed', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-engine-checkpoint-'));
+    const file = path.join(dir, 'checkpoint.json');
+
+    try {
+      await new SimulationEngine({ seed: 12345, checkpoint: { path: file } }).run(
+        mockPersonas,
+        mockProduct,
+        2
+      );
+
+      await expect(new SimulationEngine({ seed: 999 }).resume(file)).rejects.toThrow(
+        'Checkpoint was created with seed 12345'
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('product adapter', () => {
+    /**
+     * Adapter offering two features whose uses are counted in the product state
+     */
+    const counterAdapter = (
+      overrides: Partial<ISimpleProductAdapter> = {}
+    ): ISimpleProductAdapter => ({
+      getInitialState: () => mockProduct,
+      getAvailableActions: (): UserAction[] => [
+        {
+          type: ActionType.USE_FEATURE,
+          feature: 'search',
+          description: 'Search the catalog',
+          expectedOutcome: 'Results listed',
+          metadata: { priority: 1 },
+        },
+        {
+          type: ActionType.USE_FEATURE,
+          feature: 'export',
+          description: 'Export the results',
+          expectedOutcome: 'Results exported',
+        },
+      ],
+      applyAction: (state, action) => ({
+        ...state,
+        userData: {
+          ...state.userData,
+          [action.feature]: Number(state.userData[action.feature] ?? 0) + 1,
+        },
+      }),
+      ...overrides,
+    });
+
+    const actionEvents = (events: SimulationState['events']): SimulationState['events'] =>
+      events.filter((event) => event.eventType === 'action');
+
+    it('should only offer the adapter actions besides docs, help and uninstalling', async () => {
+      const result = await new SimulationEngine({
+        seed: 12345,
+        productAdapter: counterAdapter(),
+      }).run(mockPersonas, mockProduct, 5);
+
+      const allowed: Array<string | undefined> = [
+        ActionType.INSTALL,
+        ActionType.USE_FEATURE,
+        ActionType.READ_DOCS,
+        ActionType.SEEK_HELP,
+        ActionType.UNINSTALL,
+      ];
+      expect(actionEvents(result.events).every((event) => allowed.includes(event.action))).toBe(
+        true
+      );
+    });
+
+    it('should apply successful feature actions to the persona product state', async () => {
+      const result = await new SimulationEngine({
+        seed: 12345,
+        productAdapter: counterAdapter(),
+      }).run(mockPersonas, mockProduct, 5);
+
+      const features = actionEvents(result.events).filter(
+        (event) => event.action === ActionType.USE_FEATURE
+      );
+      expect(features.length).toBeGreaterThan(0);
+      expect(features[0]?.context['parameters']).toHaveProperty('expectedOutcome');
+
+      const uses: Record<string, number> = {};
+      for (const event of features) {
+        const target = String(event.context['target']);
+        expect(['search', 'export']).toContain(target);
+        if (event.context['success'] === true) {
+          uses[target] = (uses[target] ?? 0) + 1;
+        }
+      }
+      expect(result.personas[0]!.productState.userData).toEqual(uses);
+      expect(mockProduct.userData).toEqual({});
+    });
+
+    it('should evolve a separate product state for each persona', async () => {
+      const adapter = counterAdapter();
+      const getAvailableActions = jest.spyOn(adapter, 'getAvailableActions');
+      const personas = [mockPersonas[0]!, { ...mockPersonas[0]!, id: 'persona-2' }];
+
+      await new SimulationEngine({ seed: 12345, productAdapter: adapter }).run(
+        personas,
+        mockProduct,
+        3
+      );
+
+      for (const [state, persona] of getAvailableActions.mock.calls) {
+        expect(['persona-1', 'persona-2']).toContain(persona.id);
+        expect(state).not.toBe(mockProduct);
+      }
+    });
+
+    it('should fail actions the adapter rejects', async () => {
+      const result = await new SimulationEngine({
+        seed: 12345,
+        productAdapter: counterAdapter({
+          applyAction: () => {
+            throw new Error('Catalog is offline');
+          },
+        }),
+      }).run(
+        ['persona-1', 'persona-2', 'persona-3'].map((id) => ({ ...mockPersonas[0]!, id })),
+        mockProduct,
+        5
+      );
+
+      const features = actionEvents(result.events).filter(
+        (event) => event.action === ActionType.USE_FEATURE
+      );
+      expect(features.length).toBeGreaterThan(0);
+      expect(features.every((event) => event.context['success'] === false)).toBe(true);
+      expect(
+        result.events.some(
+          (event) =>
+            event.eventType === 'observation' &&
+            /^(Search the catalog|Export the results) failed: Catalog is offline$/.test(
+              String(event.context['observation'])
+            )
+        )
+      ).toBe(true);
+      expect(result.personas[0]!.productState).toEqual(mockProduct);
+    });
+
+    it('should restore product states when resuming', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-engine-checkpoint-'));
+      const file = path.join(dir, 'checkpoint.json');
+      const midRun = path.join(dir, 'day-2.json');
+
+      try {
+        const uninterrupted = await new SimulationEngine({
+          seed: 12345,
+          productAdapter: counterAdapter(),
+        }).run(mockPersonas, mockProduct, 4);
+
+        await new SimulationEngine({
+          seed: 12345,
+          productAdapter: counterAdapter(),
+          checkpoint: { path: file },
+        }).run(mockPersonas, mockProduct, 4, (progress) => {
+          if (progress.currentDay === 3) {
+            fs.copyFileSync(file, midRun);
+          }
+        });
+
+        const resumed = await new SimulationEngine({
+          seed: 12345,
+          productAdapter: counterAdapter(),
+        }).resume(midRun);
+
+        expect(resumed.personas[0]!.productState).toEqual(
+          uninterrupted.personas[0]!.productState
+        );
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 });
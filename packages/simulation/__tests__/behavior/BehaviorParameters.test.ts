@@ -0,0 +1,47 @@
+/**
+ * Tests for behaviour parameters
+ */
+
+import { ActionType } from '@suts/core';
+import type { PersonaProfile } from '@suts/core';
+import {
+  DEFAULT_BEHAVIOR_PARAMETERS,
+  resolveBehaviorParameters,
+  weightedPatience,
+} from '../../src/behavior/BehaviorParameters';
+
+describe('BehaviorParameters', () => {
+  it('should fill in defaults', () => {
+    expect(resolveBehaviorParameters()).toEqual(DEFAULT_BEHAVIOR_PARAMETERS);
+    expect(
+      resolveBehaviorParameters({
+        successBias: 0.1,
+        actionWeights: { [ActionType.UNINSTALL]: 2 },
+      })
+    ).toEqual({
+      ...DEFAULT_BEHAVIOR_PARAMETERS,
+      successBias: 0.1,
+      actionWeights: { [ActionType.UNINSTALL]: 2 },
+    });
+  });
+
+  it('should reject out-of-range parameters', () => {
+    expect(() =>
+      resolveBehaviorParameters({
+        explorationRate: 1.5,
+        actionWeights: { [ActionType.SHARE]: -1 },
+      })
+    ).toThrow(
+      'Invalid behavior parameters: explorationRate must be between 0 and 1; actionWeights.share must be between 0 and'
+    );
+    expect(() => resolveBehaviorParameters({ successBias: Number.NaN })).toThrow('successBias');
+  });
+
+  it('should weigh patience and cap it at 1', () => {
+    const persona = { patienceLevel: 0.6 } as PersonaProfile;
+
+    expect(weightedPatience(persona, DEFAULT_BEHAVIOR_PARAMETERS)).toBe(0.6);
+    expect(weightedPatience(persona, resolveBehaviorParameters({ patienceWeight: 0.5 }))).toBe(0.3);
+    expect(weightedPatience(persona, resolveBehaviorParameters({ patienceWeight: 2 }))).toBe(1);
+  });
+});
@@ -2,7 +2,15 @@
  * Tests for DecisionMaker
  */
 
-import { DecisionMaker } from '../../src/behavior/DecisionMaker';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DecisionMaker,
+  type DecisionContext,
+  type DecisionProvider,
+} from '../../src/behavior/DecisionMaker';
+import { RuleBasedDecisionProvider } from '../../src/behavior/RuleBasedDecisionProvider';
 import { ActionType } from '@suts/core';
 import type { PersonaProfile } from '@suts/core';
 import type { ProductState } from '../../src/types';
@@ -142,8 +150,10 @@ describe('DecisionMaker', () => {
     });
 
     it('should use features when conditions are good', async () => {
+      const cautiousPersona = { ...mockPersona, riskTolerance: 0 };
+
       const decision = await decisionMaker.decide({
-        persona: mockPersona,
+        persona: cautiousPersona,
         productState: mockProduct,
         emotionalState: {
           frustration: 0.1,
@@ -233,6 +243,73 @@ describe('DecisionMaker', () => {
     });
   });
 
+  describe('Providers', () => {
+    const context = (): DecisionContext => ({
+      persona: mockPersona,
+      productState: mockProduct,
+      emotionalState: { frustration: 0.2, confidence: 0.7, delight: 0.5, confusion: 0.3 },
+      currentDay: 1,
+      previousActions: [],
+      availableActions: [ActionType.USE_FEATURE, ActionType.CUSTOMIZE],
+    });
+
+    it('should use the rule-based provider without an API key', () => {
+      const decisionMaker = new DecisionMaker({ apiKey: '' });
+      expect(decisionMaker.getProviderName()).toBe('rule-based');
+    });
+
+    it('should use the LLM provider with an API key', () => {
+      const decisionMaker = new DecisionMaker({ apiKey: 'test-key' });
+      expect(decisionMaker.getProviderName()).toBe('llm');
+    });
+
+    it('should delegate to a custom provider', async () => {
+      const decide = jest.fn().mockResolvedValue({
+        action: ActionType.CUSTOMIZE,
+        reasoning: 'custom',
+        confidence: 0.9,
+      });
+      const decisionMaker = new DecisionMaker({ provider: { name: 'custom', decide } });
+
+      const decision = await decisionMaker.decide(context());
+
+      expect(decisionMaker.getProviderName()).toBe('custom');
+      expect(decision.action).toBe(ActionType.CUSTOMIZE);
+      expect(decide).toHaveBeenCalledTimes(1);
+    });
+
+    it('should propagate provider errors instead of falling back', async () => {
+      const provider: DecisionProvider = {
+        name: 'failing',
+        decide: jest.fn().mockRejectedValue(new Error('API unavailable')),
+      };
+      const decisionMaker = new DecisionMaker({ provider });
+
+      await expect(decisionMaker.decide(context())).rejects.toThrow('API unavailable');
+    });
+
+    it('should record and replay decisions', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-decisions-'));
+      const file = path.join(dir, 'decisions.json');
+
+      try {
+        const recorder = new DecisionMaker({
+          seed: 7,
+          provider: new RuleBasedDecisionProvider(7),
+          recording: { mode: 'record', path: file },
+        });
+        const recorded = await recorder.decide(context());
+        await recorder.flush();
+
+        const replayer = new DecisionMaker({ recording: { mode: 'replay', path: file } });
+        expect(replayer.getProviderName()).toBe('replay(rule-based)');
+        expect(await replayer.decide(context())).toEqual(recorded);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('Configuration', () => {
     it('should use default configuration', () => {
       const decisionMaker = new DecisionMaker();
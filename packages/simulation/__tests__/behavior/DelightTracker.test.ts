@@ -389,4 +389,25 @@ describe('DelightTracker', () => {
     const level = tracker.getDelightLevel(mockPersona.id);
     expect(level).toBeLessThanOrEqual(1.0);
   });
+
+  it('should restore exported states', () => {
+    tracker.initializePersona(mockPersona.id, mockPersona);
+    tracker.recordDelight(
+      mockPersona.id,
+      0.7,
+      'Great',
+      'feature',
+      new Date('2024-01-02'),
+      mockPersona
+    );
+
+    const restored = new DelightTracker();
+    restored.importStates(
+      JSON.parse(JSON.stringify(tracker.exportStates())) as ReturnType<
+        DelightTracker['exportStates']
+      >
+    );
+
+    expect(restored.getState(mockPersona.id)).toEqual(tracker.getState(mockPersona.id));
+  });
 });
@@ -3,6 +3,7 @@
  */
 
 import { FrustrationTracker } from '../../src/behavior/FrustrationTracker';
+import { resolveBehaviorParameters } from '../../src/behavior/BehaviorParameters';
 import type { PersonaProfile } from '@suts/persona';
 
 describe('FrustrationTracker', () => {
@@ -115,6 +116,20 @@ describe('FrustrationTracker', () => {
     expect(levelAfter).toBeLessThan(levelBefore);
   });
 
+  it('should decay frustration at the configured daily rate', () => {
+    const slow = new FrustrationTracker(resolveBehaviorParameters({ frustrationDecayPerDay: 0.05 }));
+    slow.initializePersona(mockPersona.id, mockPersona);
+    tracker.initializePersona(mockPersona.id, mockPersona);
+    slow.recordFrustration(mockPersona.id, 0.5, 'Test', true, new Date());
+    tracker.recordFrustration(mockPersona.id, 0.5, 'Test', true, new Date());
+
+    slow.updateOverTime(mockPersona.id, 24 * 60);
+    tracker.updateOverTime(mockPersona.id, 24 * 60);
+
+    expect(slow.getFrustrationLevel(mockPersona.id)).toBeCloseTo(0.5);
+    expect(tracker.getFrustrationLevel(mockPersona.id)).toBeCloseTo(0.35);
+  });
+
   it('should check frustration threshold', () => {
     tracker.initializePersona(mockPersona.id, mockPersona);
 
@@ -200,4 +215,19 @@ describe('FrustrationTracker', () => {
 
     expect(patientState.recoveryRate).toBeGreaterThan(impatientState.recoveryRate);
   });
+
+  it('should restore exported states', () => {
+    tracker.initializePersona(mockPersona.id, mockPersona);
+    tracker.recordFrustration(mockPersona.id, 0.6, 'Failed', true, new Date('2024-01-02'));
+
+    const restored = new FrustrationTracker();
+    restored.importStates(
+      JSON.parse(JSON.stringify(tracker.exportStates())) as ReturnType<
+        FrustrationTracker['exportStates']
+      >
+    );
+
+    expect(restored.getState(mockPersona.id)).toEqual(tracker.getState(mockPersona.id));
+    expect(restored.getState(mockPersona.id).events[0]!.timestamp).toBeInstanceOf(Date);
+  });
 });
@@ -0,0 +1,81 @@
+/**
+ * Tests for LLMDecisionProvider
+ */
+
+import { LLMDecisionProvider } from '../../src/behavior/LLMDecisionProvider';
+import type { DecisionContext } from '../../src/behavior/DecisionProvider';
+import { ActionType } from '@suts/core';
+import type { PersonaProfile } from '@suts/core';
+
+describe('LLMDecisionProvider', () => {
+  const context = {
+    persona: {
+      id: 'persona-1',
+      role: 'Backend Engineer',
+      experienceLevel: 'Intermediate',
+      techStack: ['Node.js'],
+      painPoints: ['Slow deployment'],
+      goals: ['Faster development'],
+      patienceLevel: 0.6,
+      learningStyle: 'Trial-error',
+    } as PersonaProfile,
+    productState: {
+      version: '1.0.0',
+      features: {},
+      uiElements: {},
+      config: {},
+      userData: {},
+      environment: 'development' as const,
+      metadata: {},
+    },
+    emotionalState: { frustration: 0.2, confidence: 0.7, delight: 0.5, confusion: 0.3 },
+    currentDay: 2,
+    previousActions: ['install'],
+    availableActions: [ActionType.USE_FEATURE, ActionType.READ_DOCS],
+  } satisfies DecisionContext;
+
+  it('should require an API key', () => {
+    expect(
+      () => new LLMDecisionProvider({ apiKey: '', model: 'm', temperature: 0, maxTokens: 10 })
+    ).toThrow('API key is required');
+  });
+
+  describe('buildPrompt', () => {
+    it('should describe persona, state and available actions', () => {
+      const prompt = LLMDecisionProvider.buildPrompt(context);
+
+      expect(prompt).toContain('Role: Backend Engineer');
+      expect(prompt).toContain('Frustration: 0.20');
+      expect(prompt).toContain('Previous Actions: install');
+      expect(prompt).toContain('use_feature, read_docs');
+    });
+  });
+
+  describe('parseDecision', () => {
+    it('should parse a JSON decision embedded in text', () => {
+      const decision = LLMDecisionProvider.parseDecision(
+        'Sure: {"action": "READ_DOCS", "reasoning": "Needs guidance", "confidence": 0.6, "target": "setup"}',
+        context
+      );
+
+      expect(decision).toEqual({
+        action: ActionType.READ_DOCS,
+        reasoning: 'Needs guidance',
+        confidence: 0.6,
+        target: 'setup',
+      });
+    });
+
+    it('should reject responses without JSON', () => {
+      expect(() => LLMDecisionProvider.parseDecision('no idea', context)).toThrow(
+        'No JSON found'
+      );
+    });
+
+    it('should reject unavailable actions', () => {
+      expect(() =>
+        LLMDecisionProvider.parseDecision('{"action": "uninstall"}', context)
+      ).toThrow('unavailable action: uninstall');
+    });
+  });
+});
@@ -54,6 +54,19 @@ describe('SeededRandom', () => {
       expect(val).toBeLessThan(5.5);
     }
   });
+
+  it('should continue the same sequence after restoring state', () => {
+    const rng = new SeededRandom(12345);
+    rng.next();
+    rng.next();
+
+    const restored = new SeededRandom(1);
+    restored.setState(rng.getState());
+
+    for (let i = 0; i < 10; i++) {
+      expect(restored.next()).toBe(rng.next());
+    }
+  });
 });
 
 describe('ProbabilityEngine', () => {
@@ -0,0 +1,168 @@
+/**
+ * Tests for RecordReplayDecisionProvider
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RecordReplayDecisionProvider } from '../../src/behavior/RecordReplayDecisionProvider';
+import type {
+  Decision,
+  DecisionContext,
+  DecisionProvider,
+} from '../../src/behavior/DecisionProvider';
+import { ActionType } from '@suts/core';
+import type { PersonaProfile } from '@suts/core';
+
+/**
+ * Provider returning a new decision on every call, like a sampling LLM
+ */
+class CountingProvider implements DecisionProvider {
+  public readonly name = 'counting';
+  public calls = 0;
+
+  decide(context: DecisionContext): Promise<Decision> {
+    this.calls++;
+    return Promise.resolve({
+      action: context.availableActions[this.calls % context.availableActions.length]!,
+      reasoning: `call ${this.calls}`,
+      confidence: 0.5,
+    });
+  }
+}
+
+describe('RecordReplayDecisionProvider', () => {
+  let tempDir: string;
+  let file: string;
+
+  const context = (day: number, personaId = 'persona-1'): DecisionContext => ({
+    persona: { id: personaId } as PersonaProfile,
+    productState: {
+      version: '1.0.0',
+      features: {},
+      uiElements: {},
+      config: {},
+      userData: {},
+      environment: 'development' as const,
+      metadata: {},
+    },
+    emotionalState: { frustration: 0.2, confidence: 0.7, delight: 0.5, confusion: 0.3 },
+    currentDay: day,
+    previousActions: [],
+    availableActions: [ActionType.USE_FEATURE, ActionType.READ_DOCS, ActionType.SHARE],
+  });
+
+  const record = async (contexts: DecisionContext[]): Promise<Decision[]> => {
+    const recorder = new RecordReplayDecisionProvider(
+      { mode: 'record', path: file },
+      new CountingProvider()
+    );
+    const decisions = [];
+    for (const ctx of contexts) {
+      decisions.push(await recorder.decide(ctx));
+    }
+    await recorder.flush();
+    return decisions;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-recording-'));
+    file = path.join(tempDir, 'nested', 'decisions.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should require a provider to record', () => {
+    expect(() => new RecordReplayDecisionProvider({ mode: 'record', path: file })).toThrow(
+      'provider is required'
+    );
+  });
+
+  it('should fail when the replay file is missing', () => {
+    expect(() => new RecordReplayDecisionProvider({ mode: 'replay', path: file })).toThrow(
+      'Decision recording not found'
+    );
+  });
+
+  it('should replay recorded decisions without calling a provider', async () => {
+    const contexts = [context(1), context(1), context(2), context(1, 'persona-2')];
+    const recorded = await record(contexts);
+
+    const replayer = new RecordReplayDecisionProvider({ mode: 'replay', path: file });
+    const replayed = [];
+    for (const ctx of contexts) {
+      replayed.push(await replayer.decide(ctx));
+    }
+
+    expect(replayer.name).toBe('replay(counting)');
+    expect(replayed).toEqual(recorded);
+  });
+
+  it('should replay repeated identical contexts in call order', async () => {
+    const recorded = await record([context(1), context(1)]);
+
+    expect(recorded[0]).not.toEqual(recorded[1]);
+
+    const replayer = new RecordReplayDecisionProvider({ mode: 'replay', path: file });
+    expect(await replayer.decide(context(1))).toEqual(recorded[0]);
+    expect(await replayer.decide(context(1))).toEqual(recorded[1]);
+  });
+
+  it('should fail loudly on unrecorded contexts', async () => {
+    await record([context(1)]);
+
+    const replayer = new RecordReplayDecisionProvider({ mode: 'replay', path: file });
+
+    await expect(replayer.decide(context(5))).rejects.toThrow(
+      'No recorded decision for persona persona-1 on day 5'
+    );
+  });
+
+  it('should write byte-identical recordings regardless of call interleaving', async () => {
+    const provider: DecisionProvider = {
+      name: 'stable',
+      decide: (ctx) =>
+        Promise.resolve({
+          action: ActionType.USE_FEATURE,
+          reasoning: `${ctx.persona.id} on day ${ctx.currentDay}`,
+          confidence: 0.5,
+        }),
+    };
+    const recordInOrder = async (contexts: DecisionContext[]): Promise<Buffer> => {
+      const recorder = new RecordReplayDecisionProvider({ mode: 'record', path: file }, provider);
+      for (const ctx of contexts) {
+        await recorder.decide(ctx);
+      }
+      await recorder.flush();
+      return fs.readFileSync(file);
+    };
+
+    const first = await recordInOrder([context(1), context(1, 'persona-2')]);
+    const second = await recordInOrder([context(1, 'persona-2'), context(1)]);
+
+    expect(second.equals(first)).toBe(true);
+  });
+
+  it('should ignore volatile product fields when keying contexts', () => {
+    const ctx = context(1);
+    const later = {
+      ...ctx,
+      productState: { ...ctx.productState, releaseDate: new Date().toISOString(), metadata: { run: 2 } },
+    };
+
+    expect(RecordReplayDecisionProvider.contextKey(later)).toBe(
+      RecordReplayDecisionProvider.contextKey(ctx)
+    );
+  });
+
+  it('should key contexts independently of property order', () => {
+    const ctx = context(1);
+    const reordered = Object.fromEntries(Object.entries(ctx).reverse()) as unknown as DecisionContext;
+
+    expect(RecordReplayDecisionProvider.contextKey(reordered)).toBe(
+      RecordReplayDecisionProvider.contextKey(ctx)
+    );
+  });
+});
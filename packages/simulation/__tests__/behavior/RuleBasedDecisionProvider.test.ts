@@ -0,0 +1,226 @@
+/**
+ * Tests for RuleBasedDecisionProvider
+ */
+
+import { RuleBasedDecisionProvider } from '../../src/behavior/RuleBasedDecisionProvider';
+import { resolveBehaviorParameters } from '../../src/behavior/BehaviorParameters';
+import type { DecisionContext } from '../../src/behavior/DecisionProvider';
+import { ActionType } from '@suts/core';
+import type { PersonaProfile } from '@suts/core';
+import type { ProductState } from '../../src/types';
+
+describe('RuleBasedDecisionProvider', () => {
+  let persona: PersonaProfile;
+  let product: ProductState;
+
+  const context = (overrides: Partial<DecisionContext> = {}): DecisionContext => ({
+    persona,
+    productState: product,
+    emotionalState: { frustration: 0.1, confidence: 0.8, delight: 0.6, confusion: 0.1 },
+    currentDay: 1,
+    previousActions: [],
+    availableActions: [
+      ActionType.USE_FEATURE,
+      ActionType.CUSTOMIZE,
+      ActionType.SHARE,
+      ActionType.READ_DOCS,
+    ],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    persona = {
+      id: 'persona-1',
+      archetype: 'Developer',
+      role: 'Backend Engineer',
+      experienceLevel: 'Intermediate',
+      companySize: 'Startup',
+      techStack: ['Node.js'],
+      painPoints: ['Slow deployment'],
+      goals: ['Faster development'],
+      fears: ['Breaking production'],
+      values: ['Reliability'],
+      riskTolerance: 0.5,
+      patienceLevel: 0.5,
+      techAdoption: 'Early adopter',
+      learningStyle: 'Trial-error',
+      evaluationCriteria: ['Performance'],
+      dealBreakers: ['No offline mode'],
+      delightTriggers: ['Fast setup'],
+      referralTriggers: ['Great DX'],
+      typicalWorkflow: 'Agile',
+      timeAvailability: '2 hours/day',
+      collaborationStyle: 'Team',
+      state: {},
+      history: [],
+      confidenceScore: 0.7,
+      lastUpdated: '2024-01-01T00:00:00.000Z',
+      source: 'test',
+    };
+
+    product = {
+      version: '1.0.0',
+      features: { offlineMode: false, sync: true },
+      uiElements: {},
+      config: {},
+      userData: {},
+      environment: 'development' as const,
+      metadata: {},
+    };
+  });
+
+  it('should produce the same decisions for the same seed', async () => {
+    const first = new RuleBasedDecisionProvider(42);
+    const second = new RuleBasedDecisionProvider(42);
+
+    const a = [];
+    const b = [];
+    for (let i = 0; i < 20; i++) {
+      a.push((await first.decide(context())).action);
+      b.push((await second.decide(context())).action);
+    }
+
+    expect(a).toEqual(b);
+  });
+
+  it('should only choose available actions', async () => {
+    const provider = new RuleBasedDecisionProvider(1);
+    const available = [ActionType.CUSTOMIZE, ActionType.SHARE];
+
+    for (let i = 0; i < 20; i++) {
+      const decision = await provider.decide(context({ availableActions: available }));
+      expect(available).toContain(decision.action);
+    }
+  });
+
+  it('should never explore with zero risk tolerance', async () => {
+    persona.riskTolerance = 0;
+    const provider = new RuleBasedDecisionProvider(3);
+
+    for (let i = 0; i < 20; i++) {
+      expect((await provider.decide(context())).action).toBe(ActionType.USE_FEATURE);
+    }
+  });
+
+  it('should explore more with higher risk tolerance', async () => {
+    const countExploration = async (riskTolerance: number): Promise<number> => {
+      persona.riskTolerance = riskTolerance;
+      const provider = new RuleBasedDecisionProvider(5);
+      let explored = 0;
+      for (let i = 0; i < 200; i++) {
+        if ((await provider.decide(context())).action !== ActionType.USE_FEATURE) {
+          explored++;
+        }
+      }
+      return explored;
+    };
+
+    expect(await countExploration(1)).toBeGreaterThan(await countExploration(0.2));
+  });
+
+  it('should tolerate more frustration with higher patience', async () => {
+    const frustrated = context({
+      emotionalState: { frustration: 0.7, confidence: 0.5, delight: 0.2, confusion: 0.2 },
+      availableActions: [ActionType.USE_FEATURE, ActionType.SEEK_HELP],
+    });
+
+    persona.riskTolerance = 0;
+    persona.patienceLevel = 0.1;
+    const impatient = await new RuleBasedDecisionProvider(1).decide(frustrated);
+    persona.patienceLevel = 0.9;
+    const patient = await new RuleBasedDecisionProvider(1).decide(frustrated);
+
+    expect(impatient.action).toBe(ActionType.SEEK_HELP);
+    expect(patient.action).toBe(ActionType.USE_FEATURE);
+  });
+
+  it('should abandon when a deal breaker is hit at maximum frustration', async () => {
+    const decision = await new RuleBasedDecisionProvider(1).decide(
+      context({
+        emotionalState: { frustration: 1, confidence: 0.2, delight: 0, confusion: 0.3 },
+        availableActions: [ActionType.SEEK_HELP, ActionType.UNINSTALL],
+      })
+    );
+
+    expect(decision.action).toBe(ActionType.UNINSTALL);
+    expect(decision.reasoning).toContain('No offline mode');
+  });
+
+  it('should weigh patience by the patience weight', async () => {
+    const frustrated = context({
+      emotionalState: { frustration: 0.7, confidence: 0.5, delight: 0.2, confusion: 0.2 },
+      availableActions: [ActionType.USE_FEATURE, ActionType.SEEK_HELP],
+    });
+    persona.riskTolerance = 0;
+    persona.patienceLevel = 0.9;
+
+    const provider = new RuleBasedDecisionProvider(
+      1,
+      resolveBehaviorParameters({ patienceWeight: 0.2 })
+    );
+
+    expect((await provider.decide(frustrated)).action).toBe(ActionType.SEEK_HELP);
+  });
+
+  it('should scale exploration and action weights', async () => {
+    const explore = new RuleBasedDecisionProvider(
+      3,
+      resolveBehaviorParameters({ explorationRate: 0 })
+    );
+    for (let i = 0; i < 20; i++) {
+      expect((await explore.decide(context())).action).toBe(ActionType.USE_FEATURE);
+    }
+
+    const noSharing = new RuleBasedDecisionProvider(
+      3,
+      resolveBehaviorParameters({
+        explorationRate: 1,
+        actionWeights: { [ActionType.SHARE]: 0, [ActionType.USE_FEATURE]: 0 },
+      })
+    );
+    persona.riskTolerance = 1;
+    for (let i = 0; i < 50; i++) {
+      expect((await noSharing.decide(context())).action).not.toBe(ActionType.SHARE);
+    }
+  });
+
+  it('should not give up when uninstalling has no weight', async () => {
+    const decision = await new RuleBasedDecisionProvider(
+      1,
+      resolveBehaviorParameters({ actionWeights: { [ActionType.UNINSTALL]: 0 } })
+    ).decide(
+      context({
+        emotionalState: { frustration: 1, confidence: 0.2, delight: 0, confusion: 0.3 },
+        availableActions: [ActionType.SEEK_HELP, ActionType.UNINSTALL],
+      })
+    );
+
+    expect(decision.action).toBe(ActionType.SEEK_HELP);
+  });
+
+  it('should read docs earlier for documentation learners', async () => {
+    const confused = context({
+      emotionalState: { frustration: 0.1, confidence: 0.6, delight: 0.3, confusion: 0.5 },
+    });
+
+    persona.learningStyle = 'Documentation';
+    expect((await new RuleBasedDecisionProvider(1).decide(confused)).action).toBe(
+      ActionType.READ_DOCS
+    );
+
+    persona.learningStyle = 'Trial-error';
+    persona.riskTolerance = 0;
+    expect((await new RuleBasedDecisionProvider(1).decide(confused)).action).toBe(
+      ActionType.USE_FEATURE
+    );
+  });
+
+  it('should fall back to the first available action', async () => {
+    const decision = await new RuleBasedDecisionProvider(1).decide(
+      context({ availableActions: [ActionType.INSTALL] })
+    );
+
+    expect(decision.action).toBe(ActionType.INSTALL);
+    expect(decision.confidence).toBeGreaterThan(0);
+  });
+});
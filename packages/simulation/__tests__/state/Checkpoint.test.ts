@@ -0,0 +1,113 @@
+/**
+ * Tests for CheckpointManager
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CheckpointManager,
+  CHECKPOINT_VERSION,
+  type SimulationCheckpoint,
+} from '../../src/state/Checkpoint';
+import { PersonaState } from '../../src/state/StateTransitions';
+import type { ProductState } from '../../src/types';
+
+describe('CheckpointManager', () => {
+  let dir: string;
+  let checkpoint: SimulationCheckpoint;
+
+  const product: ProductState = {
+    version: '1.0.0',
+    features: { feature1: true },
+    uiElements: {},
+    config: {},
+    userData: {},
+    environment: 'development',
+    metadata: {},
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-checkpoint-'));
+    checkpoint = {
+      version: CHECKPOINT_VERSION,
+      createdAt: '2024-01-02T00:00:00.000Z',
+      startedAt: '2024-01-01T00:00:00.000Z',
+      seed: 12345,
+      batchSize: 10,
+      maxActionsPerDay: 5,
+      totalDays: 7,
+      completedDay: 3,
+      personas: [],
+      product,
+      personaStates: [
+        {
+          personaId: 'persona-1',
+          currentState: PersonaState.ACTIVE,
+          emotionalState: { frustration: 0.2, confidence: 0.6, delight: 0.4, confusion: 0.1 },
+          productState: { ...product, userData: { saved: true } },
+          daysSinceLastAction: 0,
+          totalActions: 9,
+          consecutiveActions: 3,
+          lastActionDay: 3,
+        },
+      ],
+      events: [],
+      rngStates: { 'persona-1': 42 },
+      decisionState: { ruleBased: 7 },
+      frustration: {},
+      delight: {},
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save and load a checkpoint', async () => {
+    const file = path.join(dir, 'nested', 'checkpoint.json');
+
+    await CheckpointManager.save(file, checkpoint);
+
+    expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+    await expect(CheckpointManager.load(file)).resolves.toEqual(checkpoint);
+  });
+
+  it('should overwrite the previous checkpoint', async () => {
+    const file = path.join(dir, 'checkpoint.json');
+
+    await CheckpointManager.save(file, checkpoint);
+    await CheckpointManager.save(file, { ...checkpoint, completedDay: 4 });
+
+    const loaded = await CheckpointManager.load(file);
+    expect(loaded.completedDay).toBe(4);
+  });
+
+  it('should throw for a missing checkpoint', async () => {
+    await expect(CheckpointManager.load(path.join(dir, 'missing.json'))).rejects.toThrow(
+      'Checkpoint not found'
+    );
+  });
+
+  it('should throw for invalid JSON', async () => {
+    const file = path.join(dir, 'checkpoint.json');
+    fs.writeFileSync(file, '{ not json');
+
+    await expect(CheckpointManager.load(file)).rejects.toThrow('Invalid checkpoint');
+  });
+
+  it('should throw for an unsupported version', async () => {
+    const file = path.join(dir, 'checkpoint.json');
+    fs.writeFileSync(file, JSON.stringify({ ...checkpoint, version: 99 }));
+
+    await expect(CheckpointManager.load(file)).rejects.toThrow('Unsupported checkpoint version 99');
+  });
+
+  it('should throw when required fields are missing', async () => {
+    const file = path.join(dir, 'checkpoint.json');
+    const { rngStates: _rngStates, events: _events, ...partial } = checkpoint;
+    fs.writeFileSync(file, JSON.stringify(partial));
+
+    await expect(CheckpointManager.load(file)).rejects.toThrow('missing: events, rngStates');
+  });
+});
@@ -3,7 +3,13 @@
  * Time-step simulation loop with parallel persona processing
  */
 
-import type { PersonaProfile, TelemetryEvent, EmotionalState } from '@suts/core';
+import type {
+  PersonaProfile,
+  TelemetryEvent,
+  EmotionalState,
+  ISimpleProductAdapter,
+  UserAction,
+} from '@suts/core';
 import { ActionType } from '@suts/core';
 import type { ProductState } from './types';
 import { PersonaState, StateTransitionMachine } from './state/StateTransitions';
@@ -12,9 +18,50 @@ import { EventGenerator, type EventContext } from './state/EventGenerator';
 import { ProbabilityEngine } from './behavior/ProbabilityEngine';
 import { FrustrationTracker } from './behavior/FrustrationTracker';
 import { DelightTracker } from './behavior/DelightTracker';
-import { DecisionMaker } from './behavior/DecisionMaker';
+import { DecisionMaker, type DecisionMakerConfig } from './behavior/DecisionMaker';
+import type { DecisionProvider } from './behavior/DecisionProvider';
+import type { DecisionRecordingConfig } from './behavior/RecordReplayDecisionProvider';
+import {
+  resolveBehaviorParameters,
+  weightedPatience,
+  type BehaviorParameters,
+} from './behavior/BehaviorParameters';
+import {
+  CheckpointManager,
+  CHECKPOINT_VERSION,
+  type CheckpointConfig,
+  type SimulationCheckpoint,
+} from './state/Checkpoint';
 import { randomUUID } from 'node:crypto';
 
+/**
+ * Actions that stay available alongside those a product adapter offers
+ */
+const SUPPORT_ACTIONS: readonly ActionType[] = [
+  ActionType.READ_DOCS,
+  ActionType.SEEK_HELP,
+  ActionType.UNINSTALL,
+];
+
+/**
+ * Selection weight for adapter actions without a numeric priority
+ */
+const DEFAULT_ACTION_PRIORITY = 0.5;
+
+/**
+ * Derive the seed of a persona's random stream from the simulation seed
+ * Hashing the persona id (FNV-1a) keeps each stream independent of persona
+ * order and of how persona work interleaves within a batch.
+ */
+function personaSeed(seed: number, personaId: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < personaId.length; i++) {
+    hash ^= personaId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
 /**
  * Progress callback for monitoring simulation
  */
@@ -38,6 +85,8 @@ export interface PersonaSimulationState {
   personaId: string;
   currentState: PersonaState;
   emotionalState: EmotionalState;
+  /** This persona's copy of the product, evolved by the product adapter */
+  productState: ProductState;
   events: TelemetryEvent[];
   daysSinceLastAction: number;
   totalActions: number;
@@ -54,6 +103,20 @@ export interface SimulationLoopConfig {
   maxActionsPerDay: number;
   apiKey?: string;
   model?: string;
+  decisionProvider?: DecisionProvider;
+  decisionRecording?: DecisionRecordingConfig;
+  checkpoint?: CheckpointConfig;
+  productAdapter?: ISimpleProductAdapter;
+  behavior?: Partial<BehaviorParameters>;
+}
+
+/**
+ * Outcome of applying an adapter action to a persona's product state
+ */
+interface ProductActionOutcome {
+  success: boolean;
+  changedKeys: string[];
+  observation: string;
 }
 
 /**
@@ -63,6 +126,19 @@ export interface SimulationLoopResult {
   personaStates: Map<string, PersonaSimulationState>;
   allEvents: TelemetryEvent[];
   finalDay: number;
+  startedAt: Date;
+}
+
+/**
+ * State of an in-progress run
+ */
+interface RunContext {
+  startedAt: Date;
+  personas: PersonaProfile[];
+  product: ProductState;
+  totalDays: number;
+  personaStates: Map<string, PersonaSimulationState>;
+  allEvents: TelemetryEvent[];
 }
 
 /**
@@ -70,34 +146,45 @@ export interface SimulationLoopResult {
  */
 export class SimulationLoop {
   private config: SimulationLoopConfig;
-  private probabilityEngine: ProbabilityEngine;
+  /** One random stream per persona, so parallel personas never share draws */
+  private probabilityEngines = new Map<string, ProbabilityEngine>();
   private stateTransitionMachine: StateTransitionMachine;
   private actionProcessor: ActionProcessor;
   private eventGenerator: EventGenerator;
   private frustrationTracker: FrustrationTracker;
   private delightTracker: DelightTracker;
   private decisionMaker: DecisionMaker;
+  private behavior: BehaviorParameters;
 
   private paused = false;
   private stopped = false;
 
   constructor(config: SimulationLoopConfig) {
     this.config = config;
-    this.probabilityEngine = new ProbabilityEngine(config.seed);
+    this.behavior = resolveBehaviorParameters(config.behavior);
     this.stateTransitionMachine = new StateTransitionMachine();
     this.actionProcessor = new ActionProcessor();
     this.eventGenerator = new EventGenerator();
-    this.frustrationTracker = new FrustrationTracker();
+    this.frustrationTracker = new FrustrationTracker(this.behavior);
     this.delightTracker = new DelightTracker();
 
-    const decisionConfig: Partial<{ apiKey: string; model: string }> = {};
+    const decisionConfig: Partial<DecisionMakerConfig> = {
+      seed: config.seed,
+      behavior: this.behavior,
+    };
     if (config.apiKey !== undefined) {
       decisionConfig.apiKey = config.apiKey;
     }
     if (config.model !== undefined) {
       decisionConfig.model = config.model;
     }
-    this.decisionMaker = new DecisionMaker(Object.keys(decisionConfig).length > 0 ? decisionConfig : undefined);
+    if (config.decisionProvider !== undefined) {
+      decisionConfig.provider = config.decisionProvider;
+    }
+    if (config.decisionRecording !== undefined) {
+      decisionConfig.recording = config.decisionRecording;
+    }
+    this.decisionMaker = new DecisionMaker(decisionConfig);
   }
 
   /**
@@ -109,12 +196,52 @@ export class SimulationLoop {
     days: number,
     onProgress?: ProgressCallback
   ): Promise<SimulationLoopResult> {
-    // Initialize persona states
-    const personaStates = this.initializePersonaStates(personas);
-    const allEvents: TelemetryEvent[] = [];
+    const context: RunContext = {
+      startedAt: new Date(),
+      personas,
+      product,
+      totalDays: days,
+      personaStates: this.initializePersonaStates(personas, product),
+      allEvents: [],
+    };
+
+    return this.runDays(context, 1, onProgress);
+  }
+
+  /**
+   * Continue a simulation from a checkpoint
+   * Restores persona, emotional, tracker, RNG and decision state and runs the
+   * remaining days. New checkpoints go to the configured path, or back to
+   * the checkpoint being resumed.
+   * @param checkpointPath - Checkpoint written by a previous run
+   * @param onProgress - Optional progress callback for the remaining days
+   */
+  async resumeFromCheckpoint(
+    checkpointPath: string,
+    onProgress?: ProgressCallback
+  ): Promise<SimulationLoopResult> {
+    const checkpoint = await CheckpointManager.load(checkpointPath);
+
+    if (this.config.checkpoint === undefined) {
+      this.config.checkpoint = { path: checkpointPath };
+    }
+
+    const context = this.restoreCheckpoint(checkpoint);
+    return this.runDays(context, checkpoint.completedDay + 1, onProgress);
+  }
+
+  /**
+   * Run days from startDay through the last day
+   */
+  private async runDays(
+    context: RunContext,
+    startDay: number,
+    onProgress?: ProgressCallback
+  ): Promise<SimulationLoopResult> {
+    const { personas, personaStates, allEvents, totalDays: days } = context;
 
     // Time-step iteration
-    for (let day = 1; day <= days; day++) {
+    for (let day = startDay; day <= days; day++) {
       if (this.stopped) {
         break;
       }
@@ -127,13 +254,7 @@ export class SimulationLoop {
       }
 
       // Process personas in batches
-      await this.processDayInBatches(
-        day,
-        personas,
-        personaStates,
-        product,
-        allEvents
-      );
+      await this.processDayInBatches(day, personas, personaStates, allEvents);
 
       // Report progress
       if (onProgress) {
@@ -145,12 +266,117 @@ export class SimulationLoop {
           eventsGenerated: allEvents.length,
         });
       }
+
+      await this.checkpointIfDue(context, day);
     }
 
+    // Persist recorded decisions
+    await this.decisionMaker.flush();
+
     return {
       personaStates,
       allEvents,
       finalDay: days,
+      startedAt: context.startedAt,
+    };
+  }
+
+  /**
+   * Write a checkpoint when the configured interval has elapsed
+   */
+  private async checkpointIfDue(context: RunContext, day: number): Promise<void> {
+    const checkpoint = this.config.checkpoint;
+    if (checkpoint === undefined) {
+      return;
+    }
+
+    const interval = Math.max(1, checkpoint.interval ?? 1);
+    if (day % interval !== 0 && day !== context.totalDays) {
+      return;
+    }
+
+    await CheckpointManager.save(checkpoint.path, this.createCheckpoint(context, day));
+  }
+
+  /**
+   * Capture the state of a run after a completed day
+   */
+  private createCheckpoint(context: RunContext, completedDay: number): SimulationCheckpoint {
+    return {
+      version: CHECKPOINT_VERSION,
+      createdAt: new Date().toISOString(),
+      startedAt: context.startedAt.toISOString(),
+      seed: this.config.seed,
+      batchSize: this.config.batchSize,
+      maxActionsPerDay: this.config.maxActionsPerDay,
+      totalDays: context.totalDays,
+      completedDay,
+      personas: context.personas,
+      product: context.product,
+      personaStates: Array.from(context.personaStates.values()).map(
+        ({ events: _events, ...state }) => state
+      ),
+      events: context.allEvents,
+      rngStates: Object.fromEntries(
+        Array.from(this.probabilityEngines.entries()).map(([personaId, engine]) => [
+          personaId,
+          engine.getRNG().getState(),
+        ])
+      ),
+      decisionState: this.decisionMaker.getState(),
+      frustration: this.frustrationTracker.exportStates(),
+      delight: this.delightTracker.exportStates(),
+    };
+  }
+
+  /**
+   * Restore loop state from a checkpoint
+   */
+  private restoreCheckpoint(checkpoint: SimulationCheckpoint): RunContext {
+    if (checkpoint.seed !== this.config.seed) {
+      throw new Error(
+        `Checkpoint was created with seed ${checkpoint.seed}, but the simulation uses seed ${this.config.seed}`
+      );
+    }
+
+    this.config.batchSize = checkpoint.batchSize;
+    this.config.maxActionsPerDay = checkpoint.maxActionsPerDay;
+    for (const [personaId, rngState] of Object.entries(checkpoint.rngStates)) {
+      this.getProbabilityEngine(personaId).getRNG().setState(rngState);
+    }
+    this.decisionMaker.setState(checkpoint.decisionState);
+    this.frustrationTracker.importStates(checkpoint.frustration);
+    this.delightTracker.importStates(checkpoint.delight);
+
+    const eventsByPersona = new Map<string, TelemetryEvent[]>();
+    for (const event of checkpoint.events) {
+      const events = eventsByPersona.get(event.personaId) ?? [];
+      events.push(event);
+      eventsByPersona.set(event.personaId, events);
+    }
+
+    const personaStates = new Map<string, PersonaSimulationState>();
+    for (const state of checkpoint.personaStates) {
+      personaStates.set(state.personaId, {
+        ...state,
+        events: eventsByPersona.get(state.personaId) ?? [],
+      });
+    }
+
+    const missing = checkpoint.personas.filter((persona) => !personaStates.has(persona.id));
+    if (missing.length > 0) {
+      throw new Error(
+        `Checkpoint has no state for personas: ${missing.map((persona) => persona.id).join(', ')}`
+      );
+    }
+
+    return {
+      startedAt: new Date(checkpoint.startedAt),
+      personas: checkpoint.personas,
+      product: checkpoint.product,
+      totalDays: checkpoint.totalDays,
+      personaStates,
+      allEvents: checkpoint.events,
     };
   }
 
@@ -161,7 +387,6 @@ export class SimulationLoop {
     day: number,
     personas: PersonaProfile[],
     personaStates: Map<string, PersonaSimulationState>,
-    product: ProductState,
     allEvents: TelemetryEvent[]
   ): Promise<void> {
     const batchSize = this.config.batchSize;
@@ -172,7 +397,7 @@ export class SimulationLoop {
       // Process batch in parallel
       await Promise.all(
         batch.map((persona) =>
-          this.processPersonaDay(day, persona, personaStates, product, allEvents)
+          this.processPersonaDay(day, persona, personaStates, allEvents)
         )
       );
     }
@@ -185,7 +410,6 @@ export class SimulationLoop {
     day: number,
     persona: PersonaProfile,
     personaStates: Map<string, PersonaSimulationState>,
-    product: ProductState,
     allEvents: TelemetryEvent[]
   ): Promise<void> {
     const state = personaStates.get(persona.id)!;
@@ -211,7 +435,7 @@ export class SimulationLoop {
         break;
       }
 
-      await this.processAction(day, persona, state, product, allEvents);
+      await this.processAction(day, persona, state, allEvents);
     }
   }
 
@@ -222,34 +446,54 @@ export class SimulationLoop {
     day: number,
     persona: PersonaProfile,
     state: PersonaSimulationState,
-    product: ProductState,
     allEvents: TelemetryEvent[]
   ): Promise<void> {
     const sessionId = randomUUID();
+    const offeredActions = this.getOfferedActions(state, persona);
 
     // Decide next action
     const decision = await this.decisionMaker.decide({
       persona,
-      productState: product,
+      productState: state.productState,
       emotionalState: state.emotionalState,
       currentDay: day,
       previousActions: this.getPreviousActions(state),
-      availableActions: this.getAvailableActions(state.currentState),
+      availableActions: this.getAvailableActions(state.currentState, offeredActions),
     });
+    const random = this.getProbabilityEngine(persona.id);
+    const userAction = this.selectUserAction(decision, offeredActions, random);
 
     // Create action
     const baseAction: PersonaAction = {
       type: decision.action,
       timestamp: new Date(),
       personaId: persona.id,
-      success: this.determineActionSuccess(decision, persona, product),
-      duration: this.probabilityEngine.getRNG().nextInt(1, 30),
+      success: this.determineActionSuccess(decision, persona, random),
+      duration: random.getRNG().nextInt(1, 30),
     };
 
+    // A successful attempt only lands if the product accepts it
+    const outcome =
+      userAction !== undefined && baseAction.success
+        ? this.applyProductAction(state, userAction)
+        : undefined;
+    if (outcome !== undefined) {
+      baseAction.success = outcome.success;
+    }
+
+    const target = userAction?.feature ?? decision.target;
+    const parameters =
+      userAction !== undefined
+        ? {
+            description: userAction.description,
+            expectedOutcome: userAction.expectedOutcome,
+            ...decision.parameters,
+          }
+        : decision.parameters;
     const action: PersonaAction = {
       ...baseAction,
-      ...(decision.target !== undefined && { target: decision.target }),
-      ...(decision.parameters !== undefined && { parameters: decision.parameters }),
+      ...(target !== undefined && { target }),
+      ...(parameters !== undefined && { parameters }),
       ...(decision.reasoning !== undefined && { reasoning: decision.reasoning }),
     };
 
@@ -257,9 +501,13 @@ export class SimulationLoop {
     const result = this.actionProcessor.processAction(
       action,
       persona,
-      product,
+      state.productState,
       state.emotionalState
     );
+    if (outcome !== undefined) {
+      result.stateChanges['productChanges'] = outcome.changedKeys;
+      result.observations.push(outcome.observation);
+    }
 
     // Update trackers
     if (result.action.success) {
@@ -332,11 +580,24 @@ export class SimulationLoop {
     this.checkActionBasedTransitions(state, persona, day);
   }
 
+  /**
+   * Get a persona's random stream, seeding it on first use
+   */
+  private getProbabilityEngine(personaId: string): ProbabilityEngine {
+    let engine = this.probabilityEngines.get(personaId);
+    if (engine === undefined) {
+      engine = new ProbabilityEngine(personaSeed(this.config.seed, personaId));
+      this.probabilityEngines.set(personaId, engine);
+    }
+    return engine;
+  }
+
   /**
    * Initialize persona states
    */
   private initializePersonaStates(
-    personas: PersonaProfile[]
+    personas: PersonaProfile[],
+    product: ProductState
   ): Map<string, PersonaSimulationState> {
     const states = new Map<string, PersonaSimulationState>();
 
@@ -353,6 +614,7 @@ export class SimulationLoop {
           delight: 0,
           confusion: 0,
         },
+        productState: structuredClone(product),
         events: [],
         daysSinceLastAction: 0,
         totalActions: 0,
@@ -434,7 +696,8 @@ export class SimulationLoop {
 
     // Base on persona patience and current emotional state
     const baseActions = this.config.maxActionsPerDay;
-    const multiplier = persona.patienceLevel * (1 - state.emotionalState.frustration);
+    const multiplier =
+      weightedPatience(persona, this.behavior) * (1 - state.emotionalState.frustration);
 
     return Math.max(1, Math.floor(baseActions * multiplier));
   }
@@ -445,9 +708,9 @@ export class SimulationLoop {
   private determineActionSuccess(
     decision: { action: ActionType; confidence: number },
     persona: PersonaProfile,
-    _product: ProductState
+    random: ProbabilityEngine
   ): boolean {
-    let probability = decision.confidence;
+    let probability = decision.confidence + this.behavior.successBias;
 
     // Adjust based on experience
     if (persona.experienceLevel === 'Expert') {
@@ -456,7 +719,7 @@ export class SimulationLoop {
       probability -= 0.1;
     }
 
-    return this.probabilityEngine.occurs(Math.max(0.1, Math.min(0.95, probability)));
+    return random.occurs(Math.max(0.1, Math.min(0.95, probability)));
   }
 
   /**
@@ -469,10 +732,93 @@ export class SimulationLoop {
       .map((e) => e.action || 'unknown');
   }
 
+  /**
+   * Get the actions the product adapter offers a persona in its current product state
+   */
+  private getOfferedActions(state: PersonaSimulationState, persona: PersonaProfile): UserAction[] {
+    const adapter = this.config.productAdapter;
+    if (adapter === undefined) {
+      return [];
+    }
+
+    return adapter.getAvailableActions(state.productState, persona);
+  }
+
+  /**
+   * Pick the offered action that carries out a decision
+   * Prefers the decision's target feature, otherwise weights candidates by
+   * their `priority` metadata.
+   * @returns The chosen action, or undefined if none matches the decided type
+   */
+  private selectUserAction(
+    decision: { action: ActionType; target?: string },
+    offeredActions: UserAction[],
+    random: ProbabilityEngine
+  ): UserAction | undefined {
+    const candidates = offeredActions.filter((action) => action.type === decision.action);
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const targeted = candidates.find((action) => action.feature === decision.target);
+    if (targeted !== undefined) {
+      return targeted;
+    }
+
+    return random.weightedChoice(
+      candidates.map((action) => {
+        const priority = action.metadata?.['priority'];
+        return {
+          value: action,
+          weight:
+            typeof priority === 'number' && priority > 0 ? priority : DEFAULT_ACTION_PRIORITY,
+        };
+      })
+    );
+  }
+
+  /**
+   * Apply an adapter action to a persona's product state
+   * An adapter rejects an action by throwing; the product state is then left unchanged.
+   */
+  private applyProductAction(
+    state: PersonaSimulationState,
+    userAction: UserAction
+  ): ProductActionOutcome {
+    const adapter = this.config.productAdapter!;
+    const before = state.productState;
+
+    let after: ProductState;
+    try {
+      after = adapter.applyAction(structuredClone(before), userAction);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        changedKeys: [],
+        observation: `${userAction.description} failed: ${reason}`,
+      };
+    }
+
+    state.productState = after;
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return {
+      success: true,
+      changedKeys: Array.from(keys).filter(
+        (key) =>
+          JSON.stringify((before as Record<string, unknown>)[key]) !==
+          JSON.stringify((after as Record<string, unknown>)[key])
+      ),
+      observation: userAction.expectedOutcome,
+    };
+  }
+
   /**
    * Get available actions based on state
+   * With a product adapter, only the action types it offers remain available
+   * besides documentation, help and uninstalling.
    */
-  private getAvailableActions(state: PersonaState): ActionType[] {
+  private getAvailableActions(state: PersonaState, offeredActions: UserAction[]): ActionType[] {
     const allActions: ActionType[] = [
       ActionType.INSTALL,
       ActionType.CONFIGURE,
@@ -488,7 +834,14 @@ export class SimulationLoop {
       return [ActionType.INSTALL, ActionType.READ_DOCS];
     }
 
-    return allActions;
+    if (this.config.productAdapter === undefined) {
+      return allActions;
+    }
+
+    const offeredTypes = new Set(offeredActions.map((action) => action.type));
+    return allActions.filter(
+      (action) => offeredTypes.has(action) || SUPPORT_ACTIONS.includes(action)
+    );
   }
 
   /**
@@ -0,0 +1,80 @@
+/**
+ * Tunable behaviour parameters shared by the simulation loop and its trackers
+ */
+
+import type { ActionType, PersonaProfile } from '@suts/core';
+
+/**
+ * Behaviour parameters
+ *
+ * The defaults reproduce the uncalibrated simulation; calibration against
+ * real user data tunes them.
+ */
+export interface BehaviorParameters {
+  /** Frustration that wears off per simulated day (0-1) */
+  frustrationDecayPerDay: number;
+  /** Multiplier on a persona's patienceLevel wherever behaviour reads it */
+  patienceWeight: number;
+  /** Added to the probability that an attempted action succeeds (-1 to 1) */
+  successBias: number;
+  /** Probability scale for rule-based personas exploring beyond core features (0-1) */
+  explorationRate: number;
+  /**
+   * Multipliers on the rule-based weight of each action (default 1)
+   * The uninstall multiplier also scales the probability of giving up.
+   */
+  actionWeights: Partial<Record<ActionType, number>>;
+}
+
+/**
+ * Parameters of the uncalibrated simulation
+ */
+export const DEFAULT_BEHAVIOR_PARAMETERS: Readonly<BehaviorParameters> = Object.freeze({
+  frustrationDecayPerDay: 0.2,
+  patienceWeight: 1,
+  successBias: 0,
+  explorationRate: 0.5,
+  actionWeights: {},
+});
+
+/**
+ * Fill in defaults for parameters that are not given
+ * @param overrides - Parameters to change
+ * @returns Complete parameters
+ * @throws {Error} If a parameter is out of range
+ */
+export function resolveBehaviorParameters(
+  overrides: Partial<BehaviorParameters> = {}
+): BehaviorParameters {
+  const parameters: BehaviorParameters = {
+    ...DEFAULT_BEHAVIOR_PARAMETERS,
+    ...overrides,
+    actionWeights: { ...overrides.actionWeights },
+  };
+
+  const errors: string[] = [];
+  const check = (name: string, value: number, min: number, max: number): void => {
+    if (!Number.isFinite(value) || value < min || value > max) {
+      errors.push(`${name} must be between ${min} and ${max}`);
+    }
+  };
+  check('frustrationDecayPerDay', parameters.frustrationDecayPerDay, 0, 1);
+  check('patienceWeight', parameters.patienceWeight, 0, Number.MAX_VALUE);
+  check('successBias', parameters.successBias, -1, 1);
+  check('explorationRate', parameters.explorationRate, 0, 1);
+  for (const [action, weight] of Object.entries(parameters.actionWeights)) {
+    check(`actionWeights.${action}`, weight, 0, Number.MAX_VALUE);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid behavior parameters: ${errors.join('; ')}`);
+  }
+  return parameters;
+}
+
+/**
+ * A persona's patience level weighted by the behaviour parameters, capped at 1
+ */
+export function weightedPatience(persona: PersonaProfile, parameters: BehaviorParameters): number {
+  return Math.min(1, persona.patienceLevel * parameters.patienceWeight);
+}
@@ -1,35 +1,17 @@
-/* eslint-disable @typescript-eslint/strict-boolean-expressions, @typescript-eslint/prefer-nullish-coalescing, @typescript-eslint/prefer-optional-chain */
 /**
- * LLM-based decision making for persona actions
+ * Decision making for persona actions
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import type { PersonaProfile, EmotionalState } from '@suts/core';
-import { ActionType } from '@suts/core';
-import type { ProductState } from '../types';
+import type { Decision, DecisionContext, DecisionProvider } from './DecisionProvider';
+import { LLMDecisionProvider } from './LLMDecisionProvider';
+import { RuleBasedDecisionProvider } from './RuleBasedDecisionProvider';
+import {
+  RecordReplayDecisionProvider,
+  type DecisionRecordingConfig,
+} from './RecordReplayDecisionProvider';
+import type { BehaviorParameters } from './BehaviorParameters';
 
-/**
- * Decision context for the LLM
- */
-export interface DecisionContext {
-  persona: PersonaProfile;
-  productState: ProductState;
-  emotionalState: EmotionalState;
-  currentDay: number;
-  previousActions: string[];
-  availableActions: ActionType[];
-}
-
-/**
- * Decision result from the LLM
- */
-export interface Decision {
-  action: ActionType;
-  reasoning: string;
-  confidence: number;
-  target?: string;
-  parameters?: Record<string, unknown>;
-}
+export type { Decision, DecisionContext, DecisionProvider } from './DecisionProvider';
 
 /**
  * Configuration for DecisionMaker
@@ -39,35 +21,65 @@ export interface DecisionMakerConfig {
   model: string;
   temperature: number;
   maxTokens: number;
+  /** Seed for the rule-based provider */
+  seed: number;
+  /** Behaviour parameters for the rule-based provider */
+  behavior: BehaviorParameters;
+  /** Explicit provider; overrides the LLM/rule-based default */
+  provider: DecisionProvider;
+  /** Record decisions to, or replay them from, a file */
+  recording: DecisionRecordingConfig;
 }
 
 /**
- * Makes decisions for personas using LLM
+ * Checkpoint state of a DecisionMaker
+ */
+export interface DecisionMakerState {
+  ruleBased: number;
+  provider?: unknown;
+}
+
+/**
+ * Makes decisions for personas through a pluggable provider
+ *
+ * Without an explicit provider, decisions come from the LLM when an API key
+ * is available and from the trait-aware rule-based provider otherwise.
+ * Provider errors propagate to the caller.
  */
 export class DecisionMaker {
-  private client: Anthropic | null = null;
-  private config: DecisionMakerConfig;
+  private provider: DecisionProvider;
+  private ruleBased: RuleBasedDecisionProvider;
   private useMock: boolean;
 
   constructor(config: Partial<DecisionMakerConfig> = {}) {
     const envApiKey =
-      typeof process !== 'undefined' && process.env
-        ? process.env['ANTHROPIC_API_KEY']
-        : undefined;
-
-    this.config = {
-      apiKey: config.apiKey ?? envApiKey ?? '',
-      model: config.model ?? 'claude-sonnet-4-20250514',
-      temperature: config.temperature ?? 0.7,
-      maxTokens: config.maxTokens ?? 500,
-    };
-
-    // Use mock mode if no API key provided
-    this.useMock = this.config.apiKey.length === 0;
-
-    if (!this.useMock) {
-      this.client = new Anthropic({ apiKey: this.config.apiKey });
+      typeof process !== 'undefined' ? process.env['ANTHROPIC_API_KEY'] : undefined;
+    const apiKey = config.apiKey ?? envApiKey ?? '';
+
+    this.ruleBased = new RuleBasedDecisionProvider(config.seed ?? 0, config.behavior);
+
+    if (config.recording?.mode === 'replay') {
+      this.provider = new RecordReplayDecisionProvider(config.recording);
+    } else {
+      let provider: DecisionProvider = this.ruleBased;
+      if (config.provider !== undefined) {
+        provider = config.provider;
+      } else if (apiKey.length > 0) {
+        provider = new LLMDecisionProvider({
+          apiKey,
+          model: config.model ?? 'claude-sonnet-4-20250514',
+          temperature: config.temperature ?? 0.7,
+          maxTokens: config.maxTokens ?? 500,
+        });
+      }
+      this.provider =
+        config.recording !== undefined
+          ? new RecordReplayDecisionProvider(config.recording, provider)
+          : provider;
     }
+
+    // Use mock mode if only the rule-based provider is available
+    this.useMock = this.provider === this.ruleBased;
   }
 
   /**
@@ -75,151 +87,47 @@ export class DecisionMaker {
    */
   async decide(context: DecisionContext): Promise<Decision> {
     if (this.useMock) {
-      return this.mockDecision(context);
-    }
-
-    const prompt = this.buildPrompt(context);
-
-    try {
-      const response = await this.client!.messages.create({
-        model: this.config.model,
-        max_tokens: this.config.maxTokens,
-        temperature: this.config.temperature,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      });
-
-      const content = response.content[0];
-      if (content === undefined) {
-        throw new Error('No content in response');
-      }
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type from LLM');
-      }
-
-      return this.parseDecision('text' in content ? content.text : '', context);
-    } catch (_error) {
-      // Fallback to mock on error
-      return this.mockDecision(context);
+      return this.ruleBased.decide(context);
     }
+    return this.provider.decide(context);
   }
 
   /**
-   * Build prompt for LLM decision making
+   * Persist provider state such as recorded decisions
    */
-  private buildPrompt(context: DecisionContext): string {
-    const { persona, emotionalState, currentDay, previousActions } = context;
-
-    return `You are simulating a user persona. Based on the persona's characteristics and current state, decide what action they should take next.
-
-Persona Profile:
-- Role: ${persona.role}
-- Experience Level: ${persona.experienceLevel}
-- Tech Stack: ${persona.techStack.join(', ')}
-- Pain Points: ${persona.painPoints.join(', ')}
-- Goals: ${persona.goals.join(', ')}
-- Patience Level: ${persona.patienceLevel}
-- Learning Style: ${persona.learningStyle}
-
-Current Emotional State:
-- Frustration: ${emotionalState.frustration.toFixed(2)}
-- Confidence: ${emotionalState.confidence.toFixed(2)}
-- Delight: ${emotionalState.delight.toFixed(2)}
-- Confusion: ${emotionalState.confusion.toFixed(2)}
-
-Simulation Day: ${currentDay}
-Previous Actions: ${previousActions.join(', ') || 'None'}
-
-Available Actions:
-${context.availableActions.join(', ')}
-
-Respond in JSON format:
-{
-  "action": "action_name",
-  "reasoning": "why this action makes sense",
-  "confidence": 0.8,
-  "target": "optional feature or element",
-  "parameters": {}
-}`;
+  async flush(): Promise<void> {
+    await this.provider.flush?.();
   }
 
   /**
-   * Parse LLM response into a Decision
+   * Capture provider state for checkpoints
    */
-  private parseDecision(
-    response: string,
-    context: DecisionContext
-  ): Decision {
-    try {
-      // Extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch === null) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]) as { action: string; reasoning?: string; confidence?: number; target?: string; parameters?: Record<string, unknown> };
-
-      // Validate action is available
-      const action = parsed.action.toUpperCase();
-      if (!context.availableActions.includes(action as ActionType)) {
-        throw new Error(`Invalid action: ${action}`);
-      }
-
-      const result: Decision = {
-        action: action as ActionType,
-        reasoning: parsed.reasoning || 'No reasoning provided',
-        confidence: parsed.confidence || 0.5,
-      };
-
-      if (parsed.target !== undefined) {
-        result.target = parsed.target;
+  getState(): DecisionMakerState {
+    const state: DecisionMakerState = { ruleBased: this.ruleBased.getState() };
+    if (this.provider !== this.ruleBased) {
+      const providerState = this.provider.getState?.();
+      if (providerState !== undefined) {
+        state.provider = providerState;
       }
-      if (parsed.parameters !== undefined) {
-        result.parameters = parsed.parameters;
-      }
-
-      return result;
-    } catch (_error) {
-      return this.mockDecision(context);
     }
+    return state;
   }
 
   /**
-   * Mock decision for testing without LLM
+   * Restore provider state captured with getState
    */
-  private mockDecision(context: DecisionContext): Decision {
-    const { persona, emotionalState, availableActions } = context;
-
-    // Simple rule-based decision
-    let selectedAction: ActionType;
-    let reasoning: string;
-
-    if (emotionalState.frustration > 0.7) {
-      selectedAction = ActionType.SEEK_HELP;
-      reasoning = 'High frustration level, seeking help';
-    } else if (emotionalState.confusion > 0.6) {
-      selectedAction = ActionType.READ_DOCS;
-      reasoning = 'Confused, reading documentation';
-    } else if (persona.experienceLevel === 'Novice' && emotionalState.confidence < 0.3) {
-      selectedAction = ActionType.READ_DOCS;
-      reasoning = 'Low confidence, reading documentation';
-    } else if (availableActions.includes(ActionType.USE_FEATURE)) {
-      selectedAction = ActionType.USE_FEATURE;
-      reasoning = 'Attempting to use a feature';
-    } else {
-      selectedAction = availableActions[0] || ActionType.INSTALL;
-      reasoning = 'Default action';
+  setState(state: DecisionMakerState): void {
+    this.ruleBased.setState(state.ruleBased);
+    if (state.provider !== undefined && this.provider !== this.ruleBased) {
+      this.provider.setState?.(state.provider);
     }
+  }
 
-    return {
-      action: selectedAction,
-      reasoning,
-      confidence: 0.7,
-    };
+  /**
+   * Get the name of the provider currently making decisions
+   */
+  getProviderName(): string {
+    return this.useMock ? this.ruleBased.name : this.provider.name;
   }
 
   /**
@@ -233,7 +141,7 @@ Respond in JSON format:
    * Disable mock mode
    */
   disableMockMode(): void {
-    if (this.config.apiKey) {
+    if (this.provider !== this.ruleBased) {
       this.useMock = false;
     }
   }
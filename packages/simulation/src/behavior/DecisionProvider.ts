@@ -0,0 +1,59 @@
+/**
+ * Decision provider contract for persona action selection
+ */
+
+import type { PersonaProfile, EmotionalState, ActionType } from '@suts/core';
+import type { ProductState } from '../types';
+
+/**
+ * Decision context passed to providers
+ */
+export interface DecisionContext {
+  persona: PersonaProfile;
+  productState: ProductState;
+  emotionalState: EmotionalState;
+  currentDay: number;
+  previousActions: string[];
+  availableActions: ActionType[];
+}
+
+/**
+ * Decision returned by a provider
+ */
+export interface Decision {
+  action: ActionType;
+  reasoning: string;
+  confidence: number;
+  target?: string;
+  parameters?: Record<string, unknown>;
+}
+
+/**
+ * Source of persona decisions
+ */
+export interface DecisionProvider {
+  /** Provider name used in logs and recordings */
+  readonly name: string;
+
+  /**
+   * Decide the persona's next action
+   * @throws Error if no valid decision can be produced
+   */
+  decide(context: DecisionContext): Promise<Decision>;
+
+  /**
+   * Persist any buffered state (e.g. recorded decisions)
+   */
+  flush?(): Promise<void>;
+
+  /**
+   * Capture internal state (e.g. RNG position) for checkpoints
+   * @returns JSON-serializable state
+   */
+  getState?(): unknown;
+
+  /**
+   * Restore state captured with getState
+   */
+  setState?(state: unknown): void;
+}
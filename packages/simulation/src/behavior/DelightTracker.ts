@@ -212,4 +212,30 @@ export class DelightTracker {
     state.sustainedDelightDays = 0;
     state.referralLikelihood = 0;
   }
+
+  /**
+   * Export all persona states (for checkpoints)
+   */
+  exportStates(): Record<string, DelightState> {
+    return Object.fromEntries(this.states.entries());
+  }
+
+  /**
+   * Replace all persona states with previously exported ones
+   * Accepts states parsed from JSON, reviving moment timestamps.
+   */
+  importStates(states: Record<string, DelightState>): void {
+    this.states = new Map(
+      Object.entries(states).map(([personaId, state]) => [
+        personaId,
+        {
+          ...state,
+          moments: state.moments.map((moment) => ({
+            ...moment,
+            timestamp: new Date(moment.timestamp),
+          })),
+        },
+      ])
+    );
+  }
 }
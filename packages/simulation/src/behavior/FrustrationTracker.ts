@@ -5,6 +5,11 @@
 
 import type { EmotionalState } from '@suts/core';
 import type { PersonaProfile } from '@suts/persona';
+import {
+  DEFAULT_BEHAVIOR_PARAMETERS,
+  weightedPatience,
+  type BehaviorParameters,
+} from './BehaviorParameters';
 
 /**
  * Frustration event that contributes to overall frustration
@@ -34,7 +39,14 @@ export class FrustrationTracker {
   private states: Map<string, FrustrationState> = new Map();
   private readonly baseRecoveryRate = 0.1;
   private readonly maxFrustration = 1.0;
-  private readonly frustrationDecayPerDay = 0.2;
+  private readonly behavior: BehaviorParameters;
+
+  /**
+   * @param behavior - Behaviour parameters setting decay and patience weighting
+   */
+  constructor(behavior: BehaviorParameters = DEFAULT_BEHAVIOR_PARAMETERS) {
+    this.behavior = behavior;
+  }
 
   /**
    * Initialize frustration state for a persona
@@ -101,7 +113,7 @@ export class FrustrationTracker {
     state.timeSinceLastSuccess += deltaMinutes;
 
     // Natural decay of frustration
-    const decay = (deltaMinutes / (24 * 60)) * this.frustrationDecayPerDay;
+    const decay = (deltaMinutes / (24 * 60)) * this.behavior.frustrationDecayPerDay;
     state.level = Math.max(0, state.level - decay);
   }
 
@@ -145,7 +157,7 @@ export class FrustrationTracker {
     let rate = this.baseRecoveryRate;
 
     // Patient personas recover faster
-    rate += persona.patienceLevel * 0.1;
+    rate += weightedPatience(persona, this.behavior) * 0.1;
 
     // Expert personas recover faster (less frustrated by setbacks)
     if (persona.experienceLevel === 'Expert') {
@@ -182,4 +194,30 @@ export class FrustrationTracker {
     state.consecutiveFailures = 0;
     state.timeSinceLastSuccess = 0;
   }
+
+  /**
+   * Export all persona states (for checkpoints)
+   */
+  exportStates(): Record<string, FrustrationState> {
+    return Object.fromEntries(this.states.entries());
+  }
+
+  /**
+   * Replace all persona states with previously exported ones
+   * Accepts states parsed from JSON, reviving event timestamps.
+   */
+  importStates(states: Record<string, FrustrationState>): void {
+    this.states = new Map(
+      Object.entries(states).map(([personaId, state]) => [
+        personaId,
+        {
+          ...state,
+          events: state.events.map((event) => ({
+            ...event,
+            timestamp: new Date(event.timestamp),
+          })),
+        },
+      ])
+    );
+  }
 }
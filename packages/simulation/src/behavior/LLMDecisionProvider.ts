@@ -0,0 +1,157 @@
+/**
+ * LLM-backed decision provider
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { Decision, DecisionContext, DecisionProvider } from './DecisionProvider';
+
+/**
+ * Configuration for LLMDecisionProvider
+ */
+export interface LLMDecisionProviderConfig {
+  apiKey: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * Decision provider that asks Claude for each persona action
+ *
+ * Failures (API errors, malformed or unavailable actions) are raised rather
+ * than replaced with a fallback, so a flaky API cannot silently change
+ * simulation results. Wrap in RecordReplayDecisionProvider for reproducible
+ * reruns.
+ */
+export class LLMDecisionProvider implements DecisionProvider {
+  public readonly name = 'llm';
+  private client: Anthropic;
+  private config: LLMDecisionProviderConfig;
+
+  constructor(config: LLMDecisionProviderConfig) {
+    if (config.apiKey.length === 0) {
+      throw new Error('API key is required for LLM decisions');
+    }
+    this.config = config;
+    this.client = new Anthropic({ apiKey: config.apiKey });
+  }
+
+  /**
+   * Ask the LLM for the persona's next action
+   * @throws Error if the request fails or the response is not a valid decision
+   */
+  async decide(context: DecisionContext): Promise<Decision> {
+    const response = await this.client.messages.create({
+      model: this.config.model,
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      messages: [
+        {
+          role: 'user',
+          content: LLMDecisionProvider.buildPrompt(context),
+        },
+      ],
+    });
+
+    const content = response.content[0];
+    if (content === undefined) {
+      throw new Error('No content in LLM decision response');
+    }
+    if (content.type !== 'text') {
+      throw new Error('Unexpected response type from LLM');
+    }
+
+    return LLMDecisionProvider.parseDecision(content.text, context);
+  }
+
+  /**
+   * Build prompt for LLM decision making
+   */
+  static buildPrompt(context: DecisionContext): string {
+    const { persona, emotionalState, currentDay, previousActions } = context;
+
+    return `You are simulating a user persona. Based on the persona's characteristics and current state, decide what action they should take next.
+
+Persona Profile:
+- Role: ${persona.role}
+- Experience Level: ${persona.experienceLevel}
+- Tech Stack: ${persona.techStack.join(', ')}
+- Pain Points: ${persona.painPoints.join(', ')}
+- Goals: ${persona.goals.join(', ')}
+- Patience Level: ${persona.patienceLevel}
+- Learning Style: ${persona.learningStyle}
+
+Current Emotional State:
+- Frustration: ${emotionalState.frustration.toFixed(2)}
+- Confidence: ${emotionalState.confidence.toFixed(2)}
+- Delight: ${emotionalState.delight.toFixed(2)}
+- Confusion: ${emotionalState.confusion.toFixed(2)}
+
+Simulation Day: ${currentDay}
+Previous Actions: ${previousActions.length > 0 ? previousActions.join(', ') : 'None'}
+
+Available Actions:
+${context.availableActions.join(', ')}
+
+Respond in JSON format:
+{
+  "action": "action_name",
+  "reasoning": "why this action makes sense",
+  "confidence": 0.8,
+  "target": "optional feature or element",
+  "parameters": {}
+}`;
+  }
+
+  /**
+   * Parse LLM response into a Decision
+   * @throws Error if the response holds no JSON or names an unavailable action
+   */
+  static parseDecision(response: string, context: DecisionContext): Decision {
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (jsonMatch === null) {
+      throw new Error('No JSON found in LLM decision response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]) as {
+      action?: unknown;
+      reasoning?: unknown;
+      confidence?: unknown;
+      target?: unknown;
+      parameters?: unknown;
+    };
+
+    const requested = parsed.action;
+    if (typeof requested !== 'string') {
+      throw new Error('LLM decision response has no action');
+    }
+
+    const action = context.availableActions.find(
+      (available) => available.toLowerCase() === requested.toLowerCase()
+    );
+    if (action === undefined) {
+      throw new Error(`LLM chose unavailable action: ${requested}`);
+    }
+
+    const result: Decision = {
+      action,
+      reasoning:
+        typeof parsed.reasoning === 'string' && parsed.reasoning.length > 0
+          ? parsed.reasoning
+          : 'No reasoning provided',
+      confidence:
+        typeof parsed.confidence === 'number' && parsed.confidence > 0
+          ? Math.min(1, parsed.confidence)
+          : 0.5,
+    };
+
+    if (typeof parsed.target === 'string') {
+      result.target = parsed.target;
+    }
+    if (typeof parsed.parameters === 'object' && parsed.parameters !== null) {
+      result.parameters = parsed.parameters as Record<string, unknown>;
+    }
+
+    return result;
+  }
+}
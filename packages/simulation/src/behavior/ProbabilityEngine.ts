@@ -36,6 +36,20 @@ export class SeededRandom {
   nextFloat(min: number, max: number): number {
     return this.next() * (max - min) + min;
   }
+
+  /**
+   * Get the current generator state (for checkpoints)
+   */
+  getState(): number {
+    return this.seed;
+  }
+
+  /**
+   * Restore a generator state captured with getState
+   */
+  setState(state: number): void {
+    this.seed = state;
+  }
 }
 
 /**
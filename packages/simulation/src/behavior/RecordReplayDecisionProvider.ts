@@ -0,0 +1,233 @@
+/**
+ * Record/replay decision provider for reproducible LLM-backed runs
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Decision, DecisionContext, DecisionProvider } from './DecisionProvider';
+
+/**
+ * Current decision recording file format version
+ */
+export const DECISION_RECORDING_VERSION = 1;
+
+/**
+ * Whether decisions are captured or played back
+ */
+export type RecordReplayMode = 'record' | 'replay';
+
+/**
+ * Decision recording options
+ */
+export interface DecisionRecordingConfig {
+  mode: RecordReplayMode;
+  /** Path of the recording file */
+  path: string;
+}
+
+/**
+ * On-disk decision recording
+ * Decisions are keyed by a hash of their context; repeated identical
+ * contexts are stored in call order.
+ */
+export interface DecisionRecording {
+  version: number;
+  provider: string;
+  decisions: Record<string, Decision[]>;
+}
+
+/**
+ * Checkpoint state of a RecordReplayDecisionProvider
+ */
+export interface RecordReplayState {
+  occurrences: Record<string, number>;
+  decisions?: Record<string, Decision[]>;
+  inner?: unknown;
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) => {
+    if (typeof nested !== 'object' || nested === null || Array.isArray(nested)) {
+      return nested;
+    }
+    return Object.fromEntries(
+      Object.entries(nested as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+    );
+  });
+}
+
+/**
+ * Decision provider that records another provider's decisions to disk or
+ * replays a previous recording without calling it
+ *
+ * Replaying a recording returns exactly the recorded decisions, and
+ * re-recording the same run writes a byte-identical file. Replay fails
+ * loudly when a context has no recorded decision instead of improvising.
+ */
+export class RecordReplayDecisionProvider implements DecisionProvider {
+  public readonly name: string;
+  private mode: RecordReplayMode;
+  private filePath: string;
+  private inner: DecisionProvider | undefined;
+  private decisions: Map<string, Decision[]>;
+  private occurrences = new Map<string, number>();
+  private dirty = false;
+
+  /**
+   * @param config - Recording mode and file path
+   * @param inner - Provider to record (required in record mode)
+   * @throws Error if recording without a provider or the replay file is missing or invalid
+   */
+  constructor(config: DecisionRecordingConfig, inner?: DecisionProvider) {
+    this.mode = config.mode;
+    this.filePath = path.resolve(config.path);
+    this.inner = inner;
+
+    if (this.mode === 'record') {
+      if (inner === undefined) {
+        throw new Error('A decision provider is required to record decisions');
+      }
+      this.name = `record(${inner.name})`;
+      this.decisions = new Map();
+    } else {
+      const recording = RecordReplayDecisionProvider.load(this.filePath);
+      this.name = `replay(${recording.provider})`;
+      this.decisions = new Map(Object.entries(recording.decisions));
+    }
+  }
+
+  /**
+   * Record or replay the decision for a context
+   * @throws Error in replay mode if the context was not recorded
+   */
+  async decide(context: DecisionContext): Promise<Decision> {
+    const key = RecordReplayDecisionProvider.contextKey(context);
+    const occurrence = this.occurrences.get(key) ?? 0;
+    this.occurrences.set(key, occurrence + 1);
+
+    if (this.mode === 'replay') {
+      const recorded = this.decisions.get(key)?.[occurrence];
+      if (recorded === undefined) {
+        throw new Error(
+          `No recorded decision for persona ${context.persona.id} on day ${context.currentDay} in ${this.filePath}`
+        );
+      }
+      return structuredClone(recorded);
+    }
+
+    const decision = await this.inner!.decide(context);
+    const recorded = this.decisions.get(key) ?? [];
+    recorded[occurrence] = structuredClone(decision);
+    this.decisions.set(key, recorded);
+    this.dirty = true;
+    return decision;
+  }
+
+  /**
+   * Write recorded decisions to disk (no-op in replay mode)
+   */
+  async flush(): Promise<void> {
+    if (this.mode !== 'record' || !this.dirty) {
+      return;
+    }
+
+    const recording: DecisionRecording = {
+      version: DECISION_RECORDING_VERSION,
+      provider: this.inner!.name,
+      decisions: Object.fromEntries(
+        Array.from(this.decisions.entries()).sort(([a], [b]) => a.localeCompare(b))
+      ),
+    };
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(this.filePath, `${JSON.stringify(recording, null, 2)}\n`, 'utf-8');
+    this.dirty = false;
+  }
+
+  /**
+   * Capture replay positions, decisions recorded so far and the wrapped
+   * provider's state
+   */
+  getState(): RecordReplayState {
+    const state: RecordReplayState = {
+      occurrences: Object.fromEntries(this.occurrences.entries()),
+    };
+    if (this.mode === 'record') {
+      state.decisions = Object.fromEntries(this.decisions.entries());
+    }
+    const innerState = this.inner?.getState?.();
+    if (innerState !== undefined) {
+      state.inner = innerState;
+    }
+    return state;
+  }
+
+  /**
+   * Restore state captured with getState
+   */
+  setState(state: unknown): void {
+    const restored = state as Partial<RecordReplayState> | null;
+    if (typeof restored?.occurrences !== 'object' || restored.occurrences === null) {
+      throw new Error('Invalid record/replay decision provider state');
+    }
+    this.occurrences = new Map(Object.entries(restored.occurrences));
+    if (this.mode === 'record' && restored.decisions !== undefined) {
+      this.decisions = new Map(Object.entries(restored.decisions));
+      this.dirty = true;
+    }
+    if (restored.inner !== undefined) {
+      this.inner?.setState?.(restored.inner);
+    }
+  }
+
+  /**
+   * Compute the recording key for a decision context
+   * Only decision inputs are hashed; volatile product fields such as release
+   * dates and metadata are left out so reruns resolve to the same keys.
+   * @param context - Decision context
+   * @returns SHA-256 hex digest of the canonical context
+   */
+  static contextKey(context: DecisionContext): string {
+    const inputs = {
+      persona: context.persona,
+      product: {
+        version: context.productState.version,
+        features: context.productState.features,
+      },
+      emotionalState: context.emotionalState,
+      currentDay: context.currentDay,
+      previousActions: context.previousActions,
+      availableActions: context.availableActions,
+    };
+    return createHash('sha256').update(stableStringify(inputs)).digest('hex');
+  }
+
+  /**
+   * Load and validate a recording file
+   */
+  private static load(filePath: string): DecisionRecording {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Decision recording not found: ${filePath}`);
+    }
+
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<DecisionRecording>;
+    if (data.version !== DECISION_RECORDING_VERSION) {
+      throw new Error(
+        `Unsupported decision recording version ${String(data.version)} in ${filePath}`
+      );
+    }
+    if (typeof data.decisions !== 'object' || data.decisions === null) {
+      throw new Error(`Decision recording has no decisions: ${filePath}`);
+    }
+
+    return {
+      version: data.version,
+      provider: typeof data.provider === 'string' ? data.provider : 'unknown',
+      decisions: data.decisions,
+    };
+  }
+}
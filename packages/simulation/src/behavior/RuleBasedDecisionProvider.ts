@@ -0,0 +1,255 @@
+/**
+ * Trait-aware rule-based decision provider
+ */
+
+import type { PersonaProfile } from '@suts/core';
+import { ActionType } from '@suts/core';
+import { ProbabilityEngine, type WeightedChoice } from './ProbabilityEngine';
+import type { Decision, DecisionContext, DecisionProvider } from './DecisionProvider';
+import {
+  DEFAULT_BEHAVIOR_PARAMETERS,
+  weightedPatience,
+  type BehaviorParameters,
+} from './BehaviorParameters';
+
+/**
+ * Offset applied to the simulation seed so decision draws do not mirror
+ * the simulation loop's own random stream
+ */
+const DECISION_SEED_OFFSET = 0x9e3779b9;
+
+/**
+ * How readily each adoption profile explores beyond core features
+ */
+const ADOPTION_CURIOSITY: Record<PersonaProfile['techAdoption'], number> = {
+  'Early adopter': 1,
+  'Early majority': 0.75,
+  'Late majority': 0.5,
+  Laggard: 0.25,
+};
+
+/**
+ * Clamp a value into [min, max]
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Deterministic decision provider driven by persona traits
+ *
+ * Frustration is weighed against `patienceLevel`, abandonment against
+ * `dealBreakers`, and exploration against `riskTolerance` and
+ * `techAdoption`. Random draws come from a seeded ProbabilityEngine so a
+ * given seed always yields the same decisions. Behaviour parameters scale
+ * patience, exploration and the weight of each action.
+ */
+export class RuleBasedDecisionProvider implements DecisionProvider {
+  public readonly name = 'rule-based';
+  private probabilityEngine: ProbabilityEngine;
+  private behavior: BehaviorParameters;
+
+  constructor(seed: number, behavior: BehaviorParameters = DEFAULT_BEHAVIOR_PARAMETERS) {
+    this.probabilityEngine = new ProbabilityEngine((seed + DECISION_SEED_OFFSET) % 2 ** 32);
+    this.behavior = behavior;
+  }
+
+  decide(context: DecisionContext): Promise<Decision> {
+    return Promise.resolve(this.choose(context));
+  }
+
+  /**
+   * Get the random generator state
+   */
+  getState(): number {
+    return this.probabilityEngine.getRNG().getState();
+  }
+
+  /**
+   * Restore the random generator state
+   */
+  setState(state: unknown): void {
+    if (typeof state !== 'number') {
+      throw new Error('Invalid rule-based decision provider state');
+    }
+    this.probabilityEngine.getRNG().setState(state);
+  }
+
+  /**
+   * Apply the decision rules in priority order
+   */
+  private choose(context: DecisionContext): Decision {
+    const { persona, emotionalState, availableActions } = context;
+    const available = (action: ActionType): boolean => availableActions.includes(action);
+    const confidence = this.calculateConfidence(context);
+    const patience = weightedPatience(persona, this.behavior);
+
+    // Frustration beyond what the persona's patience tolerates
+    const tolerance = 0.5 + 0.3 * patience;
+    if (emotionalState.frustration > tolerance) {
+      const dealBreaker = this.findDealBreaker(context);
+      if (available(ActionType.UNINSTALL)) {
+        const overshoot = (emotionalState.frustration - tolerance) / (1 - tolerance);
+        const abandonProbability = clamp(
+          overshoot * (dealBreaker !== undefined ? 1 : 0.5) * this.actionWeight(ActionType.UNINSTALL),
+          0,
+          1
+        );
+        if (this.probabilityEngine.occurs(abandonProbability)) {
+          return {
+            action: ActionType.UNINSTALL,
+            reasoning:
+              dealBreaker !== undefined
+                ? `Hit deal breaker "${dealBreaker}", giving up`
+                : 'Frustration exceeded patience, giving up',
+            confidence,
+          };
+        }
+      }
+      if (available(ActionType.SEEK_HELP)) {
+        return {
+          action: ActionType.SEEK_HELP,
+          reasoning: 'High frustration level, seeking help',
+          confidence,
+        };
+      }
+    }
+
+    // Documentation learners reach for the docs sooner
+    const confusionThreshold = persona.learningStyle === 'Documentation' ? 0.45 : 0.6;
+    if (emotionalState.confusion > confusionThreshold && available(ActionType.READ_DOCS)) {
+      return {
+        action: ActionType.READ_DOCS,
+        reasoning: 'Confused, reading documentation',
+        confidence,
+      };
+    }
+
+    if (
+      persona.experienceLevel === 'Novice' &&
+      emotionalState.confidence < 0.3 &&
+      available(ActionType.READ_DOCS)
+    ) {
+      return {
+        action: ActionType.READ_DOCS,
+        reasoning: 'Low confidence, reading documentation',
+        confidence,
+      };
+    }
+
+    // Stick to core features unless the persona is inclined to explore
+    const explorationRate =
+      this.behavior.explorationRate *
+      persona.riskTolerance *
+      ADOPTION_CURIOSITY[persona.techAdoption];
+    if (
+      available(ActionType.USE_FEATURE) &&
+      !this.probabilityEngine.occurs(clamp(explorationRate, 0, 1))
+    ) {
+      return {
+        action: ActionType.USE_FEATURE,
+        reasoning: 'Attempting to use a feature',
+        confidence,
+      };
+    }
+
+    const choices = this.weighActions(context).filter((choice) => choice.weight > 0);
+    if (choices.length === 0) {
+      return {
+        action: availableActions[0] ?? ActionType.INSTALL,
+        reasoning: 'Default action',
+        confidence,
+      };
+    }
+
+    const action = this.probabilityEngine.weightedChoice(choices);
+    return {
+      action,
+      reasoning: `Exploring: chose ${action} based on persona traits`,
+      confidence,
+    };
+  }
+
+  /**
+   * Weight each available action by persona traits and emotional state
+   */
+  private weighActions(context: DecisionContext): WeightedChoice<ActionType>[] {
+    const { persona, emotionalState } = context;
+    const social = persona.collaborationStyle === 'Solo' ? 0.5 : 1;
+    const patience = weightedPatience(persona, this.behavior);
+
+    return context.availableActions.map((action) => {
+      let weight: number;
+      switch (action) {
+        case ActionType.USE_FEATURE:
+          weight = 0.5 + emotionalState.confidence;
+          break;
+        case ActionType.INSTALL:
+        case ActionType.CONFIGURE:
+          weight = 0.6;
+          break;
+        case ActionType.CUSTOMIZE:
+          weight = persona.riskTolerance * ADOPTION_CURIOSITY[persona.techAdoption];
+          break;
+        case ActionType.SHARE:
+          weight =
+            emotionalState.delight * social * (persona.referralTriggers.length > 0 ? 1 : 0.5);
+          break;
+        case ActionType.READ_DOCS:
+          weight =
+            emotionalState.confusion + (persona.learningStyle === 'Documentation' ? 0.3 : 0);
+          break;
+        case ActionType.SEEK_HELP:
+          weight = emotionalState.frustration * social;
+          break;
+        case ActionType.UNINSTALL:
+          weight = 0.2 * emotionalState.frustration * (1 - patience);
+          break;
+        default:
+          weight = 0.1;
+      }
+      return { value: action, weight: weight * this.actionWeight(action) };
+    });
+  }
+
+  /**
+   * Multiplier the behaviour parameters apply to an action
+   */
+  private actionWeight(action: ActionType): number {
+    return this.behavior.actionWeights[action] ?? 1;
+  }
+
+  /**
+   * Estimate how confident the persona is in its chosen action
+   */
+  private calculateConfidence(context: DecisionContext): number {
+    const { persona, emotionalState } = context;
+    const experience =
+      persona.experienceLevel === 'Expert' ? 0.1 : persona.experienceLevel === 'Novice' ? -0.1 : 0;
+    return clamp(
+      0.5 + 0.4 * emotionalState.confidence - 0.2 * emotionalState.confusion + experience,
+      0.1,
+      0.95
+    );
+  }
+
+  /**
+   * Find a deal breaker the product currently triggers
+   * A deal breaker matches when it mentions a feature the product has disabled.
+   */
+  private findDealBreaker(context: DecisionContext): string | undefined {
+    const disabled = Object.entries(context.productState.features)
+      .filter(([, flag]) => (typeof flag === 'boolean' ? !flag : !flag.enabled))
+      .map(([feature]) =>
+        feature
+          .replace(/([a-z])([A-Z])/g, '$1 $2')
+          .replace(/[_-]/g, ' ')
+          .toLowerCase()
+      );
+
+    return context.persona.dealBreakers.find((dealBreaker) => {
+      const text = dealBreaker.toLowerCase();
+      return disabled.some((feature) => feature.length > 0 && text.includes(feature));
+    });
+  }
+}
@@ -12,6 +12,8 @@ import type {
 import {
   SimulationLoop,
   type ProgressCallback,
+  type SimulationLoopConfig,
+  type SimulationLoopResult,
 } from './SimulationLoop';
 
 /**
@@ -56,10 +58,33 @@ export class SimulationEngine {
       throw new Error('Days must be positive');
     }
 
-    const startedAt = new Date();
+    const loop = this.createLoop();
+    const result = await loop.run(personas, product, days, onProgress);
+
+    return this.toSimulationState(result);
+  }
+
+  /**
+   * Resume a simulation from a checkpoint
+   * @param checkpointPath - Checkpoint written by a run with `checkpoint` configured
+   * @param onProgress - Optional progress callback for the remaining days
+   * @returns Complete simulation state, including events from before the checkpoint
+   */
+  async resume(
+    checkpointPath: string,
+    onProgress?: ProgressCallback
+  ): Promise<SimulationState> {
+    const loop = this.createLoop();
+    const result = await loop.resumeFromCheckpoint(checkpointPath, onProgress);
+
+    return this.toSimulationState(result);
+  }
 
-    // Create and run simulation loop
-    const loopConfig: { seed: number; batchSize: number; maxActionsPerDay: number; apiKey?: string; model?: string } = {
+  /**
+   * Create a simulation loop from the engine configuration
+   */
+  private createLoop(): SimulationLoop {
+    const loopConfig: SimulationLoopConfig = {
       seed: this.config.seed,
       batchSize: this.config.batchSize!,
       maxActionsPerDay: this.config.maxActionsPerDay!,
@@ -70,13 +95,28 @@ export class SimulationEngine {
     if (this.config.model !== undefined) {
       loopConfig.model = this.config.model;
     }
-    const loop = new SimulationLoop(loopConfig);
-
-    const result = await loop.run(personas, product, days, onProgress);
-
-    const completedAt = new Date();
+    if (this.config.decisionProvider !== undefined) {
+      loopConfig.decisionProvider = this.config.decisionProvider;
+    }
+    if (this.config.decisionRecording !== undefined) {
+      loopConfig.decisionRecording = this.config.decisionRecording;
+    }
+    if (this.config.checkpoint !== undefined) {
+      loopConfig.checkpoint = { ...this.config.checkpoint };
+    }
+    if (this.config.productAdapter !== undefined) {
+      loopConfig.productAdapter = this.config.productAdapter;
+    }
+    if (this.config.behavior !== undefined) {
+      loopConfig.behavior = this.config.behavior;
+    }
+    return new SimulationLoop(loopConfig);
+  }
 
-    // Convert to SimulationState
+  /**
+   * Convert a loop result to SimulationState
+   */
+  private toSimulationState(result: SimulationLoopResult): SimulationState {
     const personaSnapshots: PersonaStateSnapshot[] = [];
 
     for (const [personaId, state] of result.personaStates.entries()) {
@@ -88,6 +128,7 @@ export class SimulationEngine {
         delightLevel: state.emotionalState.delight,
         confidenceLevel: state.emotionalState.confidence,
         confusionLevel: state.emotionalState.confusion,
+        productState: state.productState,
         events: state.events,
       });
     }
@@ -96,11 +137,11 @@ export class SimulationEngine {
       personas: personaSnapshots,
       events: result.allEvents,
       metadata: {
-        totalDays: days,
-        totalPersonas: personas.length,
+        totalDays: result.finalDay,
+        totalPersonas: result.personaStates.size,
         totalEvents: result.allEvents.length,
-        startedAt,
-        completedAt,
+        startedAt: result.startedAt,
+        completedAt: new Date(),
         seed: this.config.seed,
       },
     };
@@ -26,7 +26,22 @@ export {
   type EventContext,
 } from './state/EventGenerator';
 
+export {
+  CheckpointManager,
+  CHECKPOINT_VERSION,
+  type CheckpointConfig,
+  type SimulationCheckpoint,
+  type PersonaCheckpointState,
+} from './state/Checkpoint';
+
 // Behavior
+export {
+  DEFAULT_BEHAVIOR_PARAMETERS,
+  resolveBehaviorParameters,
+  weightedPatience,
+  type BehaviorParameters,
+} from './behavior/BehaviorParameters';
+
 export {
   ProbabilityEngine,
   SeededRandom,
@@ -50,8 +65,27 @@ export {
   type DecisionContext,
   type Decision,
   type DecisionMakerConfig,
+  type DecisionMakerState,
 } from './behavior/DecisionMaker';
 
+export type { DecisionProvider } from './behavior/DecisionProvider';
+
+export { RuleBasedDecisionProvider } from './behavior/RuleBasedDecisionProvider';
+
+export {
+  LLMDecisionProvider,
+  type LLMDecisionProviderConfig,
+} from './behavior/LLMDecisionProvider';
+
+export {
+  RecordReplayDecisionProvider,
+  DECISION_RECORDING_VERSION,
+  type RecordReplayMode,
+  type DecisionRecordingConfig,
+  type DecisionRecording,
+  type RecordReplayState,
+} from './behavior/RecordReplayDecisionProvider';
+
 // Types
 export type {
   SimulationSession,
@@ -0,0 +1,136 @@
+/**
+ * Simulation checkpoints for crash recovery
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { PersonaProfile, TelemetryEvent, EmotionalState } from '@suts/core';
+import type { ProductState } from '../types';
+import type { PersonaState } from './StateTransitions';
+import type { FrustrationState } from '../behavior/FrustrationTracker';
+import type { DelightState } from '../behavior/DelightTracker';
+import type { DecisionMakerState } from '../behavior/DecisionMaker';
+
+/**
+ * Current checkpoint file format version
+ */
+export const CHECKPOINT_VERSION = 3;
+
+/**
+ * Checkpoint options
+ */
+export interface CheckpointConfig {
+  /** Path of the checkpoint file */
+  path: string;
+  /** Write a checkpoint every N completed days (default: 1) */
+  interval?: number;
+}
+
+/**
+ * Persona counters stored in a checkpoint
+ * Events are stored once at the checkpoint level and reattached on resume.
+ */
+export interface PersonaCheckpointState {
+  personaId: string;
+  currentState: PersonaState;
+  emotionalState: EmotionalState;
+  productState: ProductState;
+  daysSinceLastAction: number;
+  totalActions: number;
+  consecutiveActions: number;
+  lastActionDay: number;
+}
+
+/**
+ * Everything needed to continue a simulation after the last completed day
+ */
+export interface SimulationCheckpoint {
+  version: number;
+  createdAt: string;
+  startedAt: string;
+  seed: number;
+  batchSize: number;
+  maxActionsPerDay: number;
+  totalDays: number;
+  completedDay: number;
+  personas: PersonaProfile[];
+  product: ProductState;
+  personaStates: PersonaCheckpointState[];
+  events: TelemetryEvent[];
+  /** Random stream state of each persona that has acted */
+  rngStates: Record<string, number>;
+  decisionState: DecisionMakerState;
+  frustration: Record<string, FrustrationState>;
+  delight: Record<string, DelightState>;
+}
+
+/**
+ * Reads and writes simulation checkpoints
+ */
+export class CheckpointManager {
+  /**
+   * Write a checkpoint atomically
+   * The file is written to a temporary sibling and renamed over the target,
+   * so a crash mid-write leaves the previous checkpoint intact.
+   * @param filePath - Checkpoint path
+   * @param checkpoint - Checkpoint to write
+   */
+  static async save(filePath: string, checkpoint: SimulationCheckpoint): Promise<void> {
+    const target = path.resolve(filePath);
+    const temporary = `${target}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(temporary, JSON.stringify(checkpoint), 'utf-8');
+    await fs.promises.rename(temporary, target);
+  }
+
+  /**
+   * Read and validate a checkpoint
+   * @param filePath - Checkpoint path
+   * @returns Parsed checkpoint
+   * @throws Error if the file is missing, unreadable or not a supported checkpoint
+   */
+  static async load(filePath: string): Promise<SimulationCheckpoint> {
+    const target = path.resolve(filePath);
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(target, 'utf-8');
+    } catch {
+      throw new Error(`Checkpoint not found: ${target}`);
+    }
+
+    let data: Partial<SimulationCheckpoint>;
+    try {
+      data = JSON.parse(content) as Partial<SimulationCheckpoint>;
+    } catch (error) {
+      throw new Error(
+        `Invalid checkpoint ${target}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (data.version !== CHECKPOINT_VERSION) {
+      throw new Error(`Unsupported checkpoint version ${String(data.version)} in ${target}`);
+    }
+
+    const required: Array<keyof SimulationCheckpoint> = [
+      'seed',
+      'totalDays',
+      'completedDay',
+      'personas',
+      'product',
+      'personaStates',
+      'events',
+      'rngStates',
+      'decisionState',
+      'frustration',
+      'delight',
+    ];
+    const missing = required.filter((key) => data[key] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Checkpoint ${target} is missing: ${missing.join(', ')}`);
+    }
+
+    return data as SimulationCheckpoint;
+  }
+}
@@ -2,8 +2,12 @@
  * Simulation-related types
  */
 
-import type { TelemetryEvent, ProductState } from '@suts/core';
+import type { TelemetryEvent, ProductState, ISimpleProductAdapter } from '@suts/core';
 import type { PersonaState } from './state/StateTransitions';
+import type { DecisionProvider } from './behavior/DecisionProvider';
+import type { DecisionRecordingConfig } from './behavior/RecordReplayDecisionProvider';
+import type { CheckpointConfig } from './state/Checkpoint';
+import type { BehaviorParameters } from './behavior/BehaviorParameters';
 
 export type { ProductState };
 
@@ -30,6 +34,16 @@ export interface SimulationEngineConfig {
   maxActionsPerDay?: number;
   apiKey?: string;
   model?: string;
+  /** Custom decision provider (defaults to LLM with an API key, rule-based otherwise) */
+  decisionProvider?: DecisionProvider;
+  /** Record decisions to, or replay them from, a file */
+  decisionRecording?: DecisionRecordingConfig;
+  /** Periodically checkpoint the run so it can be resumed */
+  checkpoint?: CheckpointConfig;
+  /** Product plugin that offers actions and evolves each persona's product state */
+  productAdapter?: ISimpleProductAdapter;
+  /** Behaviour parameters, e.g. from calibration against real user data */
+  behavior?: Partial<BehaviorParameters>;
 }
 
 /**
@@ -59,5 +73,7 @@ export interface PersonaStateSnapshot {
   delightLevel: number;
   confidenceLevel: number;
   confusionLevel: number;
+  /** Product state as this persona left it */
+  productState: ProductState;
   events: TelemetryEvent[];
 }
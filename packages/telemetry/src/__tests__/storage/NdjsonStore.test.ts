@@ -0,0 +1,164 @@
+/**
+ * Tests for NdjsonStore
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NdjsonStore } from '../../storage/NdjsonStore';
+import type { TelemetryEvent } from '../../types';
+
+describe('NdjsonStore', () => {
+  let dir: string;
+  let filePath: string;
+  let store: NdjsonStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-ndjson-'));
+    filePath = path.join(dir, 'events.ndjson');
+    store = new NdjsonStore(filePath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createEvent = (overrides?: Partial<TelemetryEvent>): TelemetryEvent => ({
+    id: `event-${Math.random()}`,
+    personaId: 'persona-1',
+    eventType: 'action',
+    action: 'install',
+    emotionalState: {
+      frustration: 0.2,
+      delight: 0.8,
+      confidence: 0.7,
+      confusion: 0.1,
+    },
+    metadata: {},
+    timestamp: new Date('2024-01-01T10:00:00Z'),
+    ...overrides,
+  });
+
+  describe('store', () => {
+    it('should append one line per event', () => {
+      store.storeBatch([createEvent(), createEvent()]);
+      store.store(createEvent());
+
+      const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n');
+      expect(lines).toHaveLength(3);
+      expect(store.count()).toBe(3);
+    });
+
+    it('should prevent duplicate events by ID', () => {
+      const event = createEvent({ id: 'duplicate-id' });
+      store.store(event);
+      store.storeBatch([event, event]);
+
+      expect(store.count()).toBe(1);
+    });
+
+    it('should round-trip events including timestamps', () => {
+      const event = createEvent({ cohort: 'early', metadata: { note: 'naïve ✓' } });
+      store.store(event);
+
+      expect(store.getAll()).toEqual([event]);
+      expect(store.getAll()[0]!.timestamp).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should read events written by a previous instance', () => {
+      const event = createEvent({ id: 'persisted' });
+      store.store(event);
+
+      const reopened = new NdjsonStore(filePath);
+
+      expect(reopened.count()).toBe(1);
+      expect(reopened.getAll()).toEqual([event]);
+    });
+
+    it('should keep deduplicating after reopening', () => {
+      store.store(createEvent({ id: 'persisted' }));
+
+      const reopened = new NdjsonStore(filePath);
+      reopened.store(createEvent({ id: 'persisted' }));
+
+      expect(reopened.count()).toBe(1);
+    });
+
+    it('should read files larger than one read chunk', () => {
+      const events = Array.from({ length: 2000 }, (_, i) =>
+        createEvent({ id: `event-${i}`, metadata: { padding: 'x'.repeat(50) } })
+      );
+      store.storeBatch(events);
+
+      const reopened = new NdjsonStore(filePath);
+
+      expect(reopened.count()).toBe(2000);
+      expect(reopened.getAll().map((e) => e.id)).toEqual(events.map((e) => e.id));
+    });
+
+    it('should report the line of invalid JSON', () => {
+      fs.writeFileSync(filePath, `${JSON.stringify(createEvent())}\n{ broken\n`);
+
+      expect(() => new NdjsonStore(filePath)).toThrow(/line 2/);
+    });
+  });
+
+  describe('query', () => {
+    beforeEach(() => {
+      store.storeBatch([
+        createEvent({
+          id: 'e1',
+          personaId: 'persona-1',
+          action: 'install',
+          timestamp: new Date('2024-01-01T10:00:00Z'),
+        }),
+        createEvent({
+          id: 'e2',
+          personaId: 'persona-2',
+          action: 'configure',
+          emotionalState: { frustration: 0.9, delight: 0.1 },
+          timestamp: new Date('2024-01-02T10:00:00Z'),
+        }),
+        createEvent({
+          id: 'e3',
+          personaId: 'persona-1',
+          action: 'configure',
+          timestamp: new Date('2024-01-03T10:00:00Z'),
+        }),
+      ]);
+    });
+
+    it('should filter by multiple criteria', () => {
+      const results = store.query({ personaId: 'persona-1', action: 'configure' });
+      expect(results.map((e) => e.id)).toEqual(['e3']);
+    });
+
+    it('should filter by emotional state', () => {
+      expect(store.query({ minFrustration: 0.5 }).map((e) => e.id)).toEqual(['e2']);
+    });
+
+    it('should get events by persona ID', () => {
+      expect(store.getByPersonaId('persona-1').map((e) => e.id)).toEqual(['e1', 'e3']);
+    });
+
+    it('should get events by time range', () => {
+      const results = store.getByTimeRange(
+        new Date('2024-01-01T12:00:00Z'),
+        new Date('2024-01-03T10:00:00Z')
+      );
+      expect(results.map((e) => e.id)).toEqual(['e2', 'e3']);
+    });
+  });
+
+  describe('clear', () => {
+    it('should truncate the file', () => {
+      store.store(createEvent());
+      store.clear();
+
+      expect(store.count()).toBe(0);
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe('');
+    });
+  });
+});
@@ -221,4 +221,137 @@ describe('QueryBuilder', () => {
       expect(store.count()).toBe(3);
     });
   });
+
+  describe('since and until', () => {
+    it('should filter by a single time bound', () => {
+      expect(builder.since(new Date('2024-01-02')).execute().map((e) => e.id)).toEqual([
+        'event-2',
+        'event-3',
+      ]);
+      builder.reset();
+      expect(builder.until(new Date('2024-01-01')).execute().map((e) => e.id)).toEqual([
+        'event-1',
+      ]);
+    });
+  });
+
+  describe('orderBy and limit', () => {
+    it('should order events by a metric', () => {
+      const results = builder.orderBy('frustration', 'desc').execute();
+      expect(results.map((e) => e.id)).toEqual(['event-2', 'event-1', 'event-3']);
+    });
+
+    it('should limit events', () => {
+      const results = builder.orderBy('timestamp', 'desc').limit(2).execute();
+      expect(results.map((e) => e.id)).toEqual(['event-3', 'event-2']);
+    });
+
+    it('should reject unknown event columns', () => {
+      expect(() => builder.orderBy('missing').execute()).toThrow('unknown column: missing');
+    });
+
+    it('should reject invalid limits', () => {
+      expect(() => builder.limit(-1)).toThrow('non-negative integer');
+      expect(() => builder.limit(1.5)).toThrow('non-negative integer');
+    });
+  });
+
+  describe('executeAggregate', () => {
+    it('should aggregate all matching events into one row without groupBy', () => {
+      const rows = builder.count().avg('frustration').max('delight').executeAggregate();
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0]!['count']).toBe(3);
+      expect(rows[0]!['avg_frustration']).toBeCloseTo(1 / 3);
+      expect(rows[0]!['max_delight']).toBe(0.9);
+    });
+
+    it('should return a zero count when nothing matches', () => {
+      const rows = builder.forPersona('nobody').count().avg('delight').executeAggregate();
+      expect(rows).toEqual([{ count: 0, avg_delight: null }]);
+    });
+
+    it('should count each group when no aggregation is given', () => {
+      const rows = builder.groupBy('personaId').executeAggregate();
+      expect(rows).toEqual([
+        { personaId: 'persona-1', count: 2 },
+        { personaId: 'persona-2', count: 1 },
+      ]);
+    });
+
+    it('should group by multiple fields', () => {
+      const rows = builder.groupBy('cohort', 'personaId').count().executeAggregate();
+      expect(rows).toEqual([
+        { cohort: 'cohort-a', personaId: 'persona-1', count: 2 },
+        { cohort: 'cohort-b', personaId: 'persona-2', count: 1 },
+      ]);
+    });
+
+    it('should group by simulation day from metadata, falling back to the date', () => {
+      store.store({
+        id: 'event-4',
+        personaId: 'persona-3',
+        eventType: 'action',
+        action: 'install',
+        emotionalState: { frustration: 0.5 },
+        metadata: { day: 2 },
+        timestamp: new Date('2024-01-01'),
+      });
+
+      const rows = builder.groupBy('day').count().executeAggregate();
+      expect(rows.map((row) => row['day'])).toEqual(['2024-01-01', '2024-01-02', '2024-01-03', 2]);
+    });
+
+    it('should compute interpolated percentiles', () => {
+      const rows = builder
+        .percentile('frustration', 50)
+        .percentile('frustration', 90, 'p90')
+        .executeAggregate();
+
+      expect(rows[0]!['p50_frustration']).toBeCloseTo(0.2);
+      expect(rows[0]!['p90']).toBeCloseTo(0.6);
+    });
+
+    it('should skip events missing a metric', () => {
+      store.store({
+        id: 'event-4',
+        personaId: 'persona-1',
+        eventType: 'action',
+        action: 'install',
+        emotionalState: {},
+        metadata: {},
+        timestamp: new Date('2024-01-04'),
+      });
+
+      const rows = builder.forPersona('persona-1').count().min('frustration').executeAggregate();
+      expect(rows).toEqual([{ count: 3, min_frustration: 0.1 }]);
+    });
+
+    it('should order and limit groups', () => {
+      const rows = builder
+        .groupBy('action')
+        .avg('frustration')
+        .orderBy('avg_frustration', 'desc')
+        .limit(2)
+        .executeAggregate();
+
+      expect(rows.map((row) => row['action'])).toEqual(['configure', 'install']);
+    });
+
+    it('should reject ordering by a column the rows do not have', () => {
+      expect(() => builder.groupBy('action').orderBy('delight').executeAggregate()).toThrow(
+        'available columns: action, count'
+      );
+    });
+
+    it('should reject percentiles outside 0-100', () => {
+      expect(() => builder.percentile('delight', 101)).toThrow('between 0 and 100');
+    });
+
+    it('should report whether the query aggregates', () => {
+      expect(builder.isAggregate()).toBe(false);
+      expect(builder.groupBy('action').isAggregate()).toBe(true);
+      expect(builder.reset().isAggregate()).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,158 @@
+/**
+ * Tests for QueryParser
+ */
+
+import { QueryParser, QuerySyntaxError } from '../../storage/QueryParser';
+import { InMemoryStore } from '../../storage/InMemoryStore';
+import type { TelemetryEvent } from '../../types';
+
+describe('QueryParser', () => {
+  let store: InMemoryStore;
+
+  beforeEach(() => {
+    store = new InMemoryStore();
+
+    const event = (
+      id: string,
+      personaId: string,
+      action: string,
+      frustration: number,
+      delight: number,
+      day: number
+    ): TelemetryEvent => ({
+      id,
+      personaId,
+      eventType: 'action',
+      action,
+      emotionalState: { frustration, delight },
+      metadata: { day },
+      timestamp: new Date(Date.UTC(2024, 0, day)),
+      cohort: personaId === 'persona-1' ? 'early' : 'late',
+    });
+
+    store.storeBatch([
+      event('e1', 'persona-1', 'install', 0.2, 0.8, 1),
+      event('e2', 'persona-2', 'configure', 0.7, 0.3, 1),
+      event('e3', 'persona-1', 'configure', 0.9, 0.1, 2),
+      event('e4', 'persona-2', 'use_feature', 0.1, 0.9, 3),
+    ]);
+  });
+
+  const ids = (query: string): string[] =>
+    QueryParser.parse(query, store)
+      .execute()
+      .map((e) => e.id);
+
+  describe('raw event queries', () => {
+    it('should return every event for an empty query', () => {
+      const builder = QueryParser.parse('', store);
+
+      expect(builder.isAggregate()).toBe(false);
+      expect(builder.execute()).toHaveLength(4);
+    });
+
+    it('should filter with equality conditions', () => {
+      expect(ids('where persona = persona-1 and action = configure')).toEqual(['e3']);
+      expect(ids("WHERE cohort = 'late' AND type = \"action\"")).toEqual(['e2', 'e4']);
+    });
+
+    it('should filter by metric and time bounds', () => {
+      expect(ids('where frustration >= 0.5 and delight <= 0.2')).toEqual(['e3']);
+      expect(ids('where timestamp >= 2024-01-02 and time <= 2024-01-02T23:59:59Z')).toEqual([
+        'e3',
+      ]);
+    });
+
+    it('should order and limit events', () => {
+      expect(ids('order by frustration desc limit 2')).toEqual(['e3', 'e2']);
+      expect(ids('order by persona')).toEqual(['e1', 'e3', 'e2', 'e4']);
+    });
+  });
+
+  describe('aggregate queries', () => {
+    it('should group and aggregate', () => {
+      const rows = QueryParser.parse(
+        'select count, avg(frustration), p90(delight) group by action order by action',
+        store
+      ).executeAggregate();
+
+      expect(rows.map((row) => row['action'])).toEqual(['configure', 'install', 'use_feature']);
+      expect(rows[0]!['count']).toBe(2);
+      expect(rows[0]!['avg_frustration']).toBeCloseTo(0.8);
+      expect(rows[0]!['p90_delight']).toBeCloseTo(0.28);
+    });
+
+    it('should support aliases, median and percentile()', () => {
+      const rows = QueryParser.parse(
+        'count(*) as events, median(frustration), percentile(delight, 25) as low_delight',
+        store
+      ).executeAggregate();
+
+      expect(Object.keys(rows[0]!)).toEqual(['events', 'median_frustration', 'low_delight']);
+      expect(rows[0]!['events']).toBe(4);
+    });
+
+    it('should treat GROUP BY without aggregations as a count', () => {
+      const builder = QueryParser.parse('group by day', store);
+
+      expect(builder.isAggregate()).toBe(true);
+      expect(builder.executeAggregate()).toEqual([
+        { day: 1, count: 2 },
+        { day: 2, count: 1 },
+        { day: 3, count: 1 },
+      ]);
+    });
+
+    it('should order by an aggregate alias', () => {
+      const rows = QueryParser.parse(
+        'avg(frustration) as pain where persona = persona-1 group by action order by pain desc limit 1',
+        store
+      ).executeAggregate();
+
+      expect(rows).toEqual([{ action: 'configure', pain: 0.9 }]);
+    });
+  });
+
+  describe('errors', () => {
+    const parse = (query: string): (() => void) => () => QueryParser.parse(query, store);
+
+    it('should reject unknown aggregations and metrics', () => {
+      expect(parse('sum(frustration)')).toThrow('Unknown aggregation "sum"');
+      expect(parse('avg(happiness)')).toThrow('Unknown metric "happiness"');
+    });
+
+    it('should reject unsupported comparisons', () => {
+      expect(parse('where frustration > 0.5')).toThrow('Operator > is not supported');
+      expect(parse('where action >= install')).toThrow('action can only be compared with =');
+      expect(parse('where frustration = 0.5')).toThrow('can only be compared with >= or <=');
+      expect(parse('where mood = good')).toThrow('Cannot filter by "mood"');
+    });
+
+    it('should reject invalid values', () => {
+      expect(parse('where delight >= high')).toThrow('Expected a number');
+      expect(parse('where timestamp >= yesterday')).toThrow('Expected a date');
+      expect(parse('limit 2.5')).toThrow('Expected a non-negative integer');
+    });
+
+    it('should reject invalid group fields and trailing input', () => {
+      expect(parse('group by frustration')).toThrow('Cannot group by "frustration"');
+      expect(parse('count group action')).toThrow('Expected BY');
+      expect(parse('count limit 1 extra')).toThrow('Unexpected "extra"');
+    });
+
+    it('should report the position of the error', () => {
+      try {
+        QueryParser.parse('count where mood = good', store);
+        fail('expected a syntax error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(QuerySyntaxError);
+        expect((error as QuerySyntaxError).position).toBe(12);
+      }
+    });
+
+    it('should report an unexpected end of query', () => {
+      expect(parse('avg(frustration')).toThrow('Expected ")", found end of query');
+      expect(parse("where action = 'unterminated")).toThrow('Unexpected character');
+    });
+  });
+});
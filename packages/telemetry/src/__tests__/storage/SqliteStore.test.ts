@@ -0,0 +1,179 @@
+/**
+ * Tests for SqliteStore
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { SqliteStore } from '../../storage/SqliteStore';
+import type { TelemetryEvent } from '../../types';
+
+describe('SqliteStore', () => {
+  let store: SqliteStore;
+
+  beforeEach(() => {
+    store = new SqliteStore();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  const createEvent = (overrides?: Partial<TelemetryEvent>): TelemetryEvent => ({
+    id: `event-${Math.random()}`,
+    personaId: 'persona-1',
+    eventType: 'action',
+    action: 'install',
+    emotionalState: {
+      frustration: 0.2,
+      delight: 0.8,
+      confidence: 0.7,
+      confusion: 0.1,
+    },
+    metadata: {},
+    timestamp: new Date('2024-01-01T10:00:00Z'),
+    ...overrides,
+  });
+
+  describe('store', () => {
+    it('should store single and batched events', () => {
+      store.store(createEvent());
+      store.storeBatch([createEvent(), createEvent()]);
+
+      expect(store.count()).toBe(3);
+    });
+
+    it('should prevent duplicate events by ID', () => {
+      const event = createEvent({ id: 'duplicate-id' });
+      store.store(event);
+      store.storeBatch([event, event]);
+
+      expect(store.count()).toBe(1);
+    });
+
+    it('should round-trip events', () => {
+      const withCohort = createEvent({ cohort: 'early', metadata: { nested: { a: [1, 2] } } });
+      const withoutCohort = createEvent();
+      store.storeBatch([withCohort, withoutCohort]);
+
+      expect(store.getAll()).toEqual([withCohort, withoutCohort]);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should read events written by a previous connection', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-sqlite-'));
+      const filePath = path.join(dir, 'nested', 'events.db');
+      const event = createEvent({ id: 'persisted' });
+
+      try {
+        const writer = new SqliteStore(filePath);
+        writer.store(event);
+        writer.close();
+
+        const reader = new SqliteStore(filePath);
+        expect(reader.getAll()).toEqual([event]);
+        reader.close();
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('query', () => {
+    beforeEach(() => {
+      store.storeBatch([
+        createEvent({
+          id: 'e1',
+          personaId: 'persona-1',
+          eventType: 'action',
+          action: 'install',
+          cohort: 'a',
+          timestamp: new Date('2024-01-01T10:00:00Z'),
+        }),
+        createEvent({
+          id: 'e2',
+          personaId: 'persona-2',
+          eventType: 'emotion',
+          action: 'configure',
+          emotionalState: { frustration: 0.9, delight: 0.1 },
+          timestamp: new Date('2024-01-02T10:00:00Z'),
+        }),
+        createEvent({
+          id: 'e3',
+          personaId: 'persona-1',
+          action: 'configure',
+          emotionalState: { confidence: 0.5 },
+          timestamp: new Date('2024-01-03T10:00:00Z'),
+        }),
+      ]);
+    });
+
+    const ids = (events: TelemetryEvent[]): string[] => events.map((e) => e.id);
+
+    it('should return all events for an empty filter', () => {
+      expect(ids(store.query({}))).toEqual(['e1', 'e2', 'e3']);
+    });
+
+    it('should filter by persona, type, action and cohort', () => {
+      expect(ids(store.query({ personaId: 'persona-1', action: 'configure' }))).toEqual(['e3']);
+      expect(ids(store.query({ eventType: 'emotion' }))).toEqual(['e2']);
+      expect(ids(store.query({ cohort: 'a' }))).toEqual(['e1']);
+    });
+
+    it('should filter by emotional state, treating missing values as 0', () => {
+      expect(ids(store.query({ minFrustration: 0.5 }))).toEqual(['e2']);
+      expect(ids(store.query({ maxFrustration: 0.1 }))).toEqual(['e3']);
+      expect(ids(store.query({ minDelight: 0.5 }))).toEqual(['e1']);
+      expect(ids(store.query({ maxDelight: 0.2 }))).toEqual(['e2', 'e3']);
+    });
+
+    it('should get events by persona ID', () => {
+      expect(ids(store.getByPersonaId('persona-1'))).toEqual(['e1', 'e3']);
+    });
+
+    it('should get events by time range', () => {
+      const results = store.getByTimeRange(
+        new Date('2024-01-01T12:00:00Z'),
+        new Date('2024-01-03T10:00:00Z')
+      );
+      expect(ids(results)).toEqual(['e2', 'e3']);
+    });
+  });
+
+  describe('indexes', () => {
+    it('should index persona, action and timestamp', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suts-sqlite-'));
+      const filePath = path.join(dir, 'events.db');
+
+      try {
+        new SqliteStore(filePath).close();
+        const db = new Database(filePath, { readonly: true });
+        const indexes = db
+          .prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'events'")
+          .all() as Array<{ name: string }>;
+        db.close();
+
+        expect(indexes.map((index) => index.name)).toEqual(
+          expect.arrayContaining([
+            'idx_events_persona',
+            'idx_events_action',
+            'idx_events_timestamp',
+          ])
+        );
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('clear', () => {
+    it('should delete all events', () => {
+      store.store(createEvent());
+      store.clear();
+
+      expect(store.count()).toBe(0);
+    });
+  });
+});
@@ -8,6 +8,12 @@ describe('Storage exports', () => {
     expect(storage.InMemoryStore).toBeDefined();
   });
 
+  it('should export file-backed stores', async () => {
+    const storage = await import('../../storage');
+    expect(storage.NdjsonStore).toBeDefined();
+    expect(storage.SqliteStore).toBeDefined();
+  });
+
   it('should export QueryBuilder', async () => {
     const storage = await import('../../storage');
     expect(storage.QueryBuilder).toBeDefined();
@@ -58,4 +58,9 @@ export interface IEventStore {
    * @returns Array of events in the time range
    */
   getByTimeRange(startTime: Date, endTime: Date): TelemetryEvent[];
+
+  /**
+   * Release resources such as open file handles
+   */
+  close?(): void;
 }
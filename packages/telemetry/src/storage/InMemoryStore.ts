@@ -4,6 +4,7 @@
 
 import type { TelemetryEvent, EventFilter } from '../types';
 import type { IEventStore } from './IEventStore';
+import { matchesFilter } from './matchesFilter';
 
 /**
  * In-memory event store using array-based storage
@@ -54,60 +55,7 @@ export class InMemoryStore implements IEventStore {
    * Query events based on filter criteria
    */
   query(filter: EventFilter): TelemetryEvent[] {
-    return this.events.filter((event) => {
-      if (
-        filter.personaId !== undefined &&
-        event.personaId !== filter.personaId
-      ) {
-        return false;
-      }
-      if (
-        filter.eventType !== undefined &&
-        event.eventType !== filter.eventType
-      ) {
-        return false;
-      }
-      if (filter.action !== undefined && event.action !== filter.action) {
-        return false;
-      }
-      if (filter.cohort !== undefined && event.cohort !== filter.cohort) {
-        return false;
-      }
-      if (
-        filter.startTime !== undefined &&
-        event.timestamp < filter.startTime
-      ) {
-        return false;
-      }
-      if (filter.endTime !== undefined && event.timestamp > filter.endTime) {
-        return false;
-      }
-      if (
-        filter.minFrustration !== undefined &&
-        (event.emotionalState['frustration'] ?? 0) < filter.minFrustration
-      ) {
-        return false;
-      }
-      if (
-        filter.maxFrustration !== undefined &&
-        (event.emotionalState['frustration'] ?? 0) > filter.maxFrustration
-      ) {
-        return false;
-      }
-      if (
-        filter.minDelight !== undefined &&
-        (event.emotionalState['delight'] ?? 0) < filter.minDelight
-      ) {
-        return false;
-      }
-      if (
-        filter.maxDelight !== undefined &&
-        (event.emotionalState['delight'] ?? 0) > filter.maxDelight
-      ) {
-        return false;
-      }
-      return true;
-    });
+    return this.events.filter((event) => matchesFilter(event, filter));
   }
 
   /**
@@ -0,0 +1,181 @@
+/**
+ * Append-only NDJSON file storage for telemetry events
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import type { TelemetryEvent, EventFilter } from '../types';
+import type { IEventStore } from './IEventStore';
+import { matchesFilter } from './matchesFilter';
+
+/**
+ * Size of the chunks read while scanning the file
+ */
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Event store that appends one JSON event per line to a file
+ *
+ * Only event IDs are kept in memory; queries stream the file, so stores can
+ * grow beyond available memory and remain readable after the process exits.
+ * Reopening an existing file continues appending to it.
+ */
+export class NdjsonStore implements IEventStore {
+  private filePath: string;
+  private eventIds: Set<string> = new Set();
+
+  /**
+   * Creates a new NDJSON store
+   * @param filePath - Path of the NDJSON file (created if missing)
+   */
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    if (fs.existsSync(this.filePath)) {
+      for (const event of this.readEvents()) {
+        this.eventIds.add(event.id);
+      }
+    } else {
+      fs.writeFileSync(this.filePath, '', 'utf-8');
+    }
+  }
+
+  /**
+   * Store a single event
+   * Prevents duplicates based on event ID
+   */
+  store(event: TelemetryEvent): void {
+    this.storeBatch([event]);
+  }
+
+  /**
+   * Store multiple events in a single append
+   */
+  storeBatch(events: TelemetryEvent[]): void {
+    const lines: string[] = [];
+    for (const event of events) {
+      if (this.eventIds.has(event.id)) {
+        continue; // Prevent duplicates
+      }
+      this.eventIds.add(event.id);
+      lines.push(`${JSON.stringify(event)}\n`);
+    }
+
+    if (lines.length > 0) {
+      fs.appendFileSync(this.filePath, lines.join(''), 'utf-8');
+    }
+  }
+
+  /**
+   * Query events based on filter criteria
+   */
+  query(filter: EventFilter): TelemetryEvent[] {
+    return this.collect((event) => matchesFilter(event, filter));
+  }
+
+  /**
+   * Get all events
+   */
+  getAll(): TelemetryEvent[] {
+    return this.collect(() => true);
+  }
+
+  /**
+   * Get event count
+   */
+  count(): number {
+    return this.eventIds.size;
+  }
+
+  /**
+   * Clear all events by truncating the file
+   */
+  clear(): void {
+    fs.writeFileSync(this.filePath, '', 'utf-8');
+    this.eventIds.clear();
+  }
+
+  /**
+   * Get events by persona ID
+   */
+  getByPersonaId(personaId: string): TelemetryEvent[] {
+    return this.collect((event) => event.personaId === personaId);
+  }
+
+  /**
+   * Get events in time range
+   */
+  getByTimeRange(startTime: Date, endTime: Date): TelemetryEvent[] {
+    return this.collect((event) => event.timestamp >= startTime && event.timestamp <= endTime);
+  }
+
+  /**
+   * Get the path of the backing file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Collect the events that satisfy a predicate, in insertion order
+   */
+  private collect(predicate: (event: TelemetryEvent) => boolean): TelemetryEvent[] {
+    const events: TelemetryEvent[] = [];
+    for (const event of this.readEvents()) {
+      if (predicate(event)) {
+        events.push(event);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Stream events from the file without loading it whole
+   * @throws Error if a line is not valid JSON
+   */
+  private *readEvents(): Generator<TelemetryEvent> {
+    const fd = fs.openSync(this.filePath, 'r');
+    const buffer = Buffer.alloc(READ_CHUNK_SIZE);
+    const decoder = new StringDecoder('utf-8');
+    let pending = '';
+    let lineNumber = 0;
+
+    try {
+      let bytesRead: number;
+      while ((bytesRead = fs.readSync(fd, buffer, 0, READ_CHUNK_SIZE, null)) > 0) {
+        pending += decoder.write(buffer.subarray(0, bytesRead));
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+          lineNumber++;
+          if (line.trim().length > 0) {
+            yield this.parseLine(line, lineNumber);
+          }
+        }
+      }
+      pending += decoder.end();
+      if (pending.trim().length > 0) {
+        yield this.parseLine(pending, lineNumber + 1);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Parse one NDJSON line, reviving the timestamp
+   */
+  private parseLine(line: string, lineNumber: number): TelemetryEvent {
+    let parsed: TelemetryEvent;
+    try {
+      parsed = JSON.parse(line) as TelemetryEvent;
+    } catch (error) {
+      throw new Error(
+        `Invalid event on line ${lineNumber} of ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return { ...parsed, timestamp: new Date(parsed.timestamp) };
+  }
+}
@@ -2,15 +2,113 @@
  * Fluent query builder for telemetry events
  */
 
-import type { EventFilter, TelemetryEvent } from '../types';
+import type {
+  AggregateMetric,
+  AggregateRow,
+  Aggregation,
+  EventFilter,
+  GroupByField,
+  SortDirection,
+  TelemetryEvent,
+} from '../types';
 import type { IEventStore } from './IEventStore';
 
+/**
+ * Columns events can be ordered by
+ */
+const EVENT_COLUMNS = new Set([
+  'timestamp',
+  'personaId',
+  'eventType',
+  'action',
+  'cohort',
+  'day',
+  'frustration',
+  'delight',
+  'confidence',
+  'confusion',
+]);
+
+/**
+ * Get the value of a group-by field for an event
+ */
+function groupValue(event: TelemetryEvent, field: GroupByField): string | number | null {
+  switch (field) {
+    case 'personaId':
+      return event.personaId;
+    case 'action':
+      return event.action;
+    case 'cohort':
+      return event.cohort ?? null;
+    case 'day': {
+      const day = event.metadata['day'];
+      return typeof day === 'number' ? day : event.timestamp.toISOString().slice(0, 10);
+    }
+  }
+}
+
+/**
+ * Get the value of an orderable column for an event
+ */
+function columnValue(event: TelemetryEvent, column: string): string | number | null {
+  switch (column) {
+    case 'timestamp':
+      return event.timestamp.getTime();
+    case 'eventType':
+      return event.eventType;
+    case 'personaId':
+    case 'action':
+    case 'cohort':
+    case 'day':
+      return groupValue(event, column);
+    default:
+      return event.emotionalState[column] ?? null;
+  }
+}
+
+/**
+ * Compare two values, sorting nulls last regardless of direction
+ */
+function compareValues(
+  a: string | number | null,
+  b: string | number | null,
+  direction: SortDirection
+): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null) {
+    return 1;
+  }
+  if (b === null) {
+    return -1;
+  }
+  const order =
+    typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+  return direction === 'asc' ? order : -order;
+}
+
+/**
+ * Percentile of sorted values using linear interpolation between closest ranks
+ */
+function percentileOf(sorted: number[], percentile: number): number {
+  const rank = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sorted[lower]!;
+  return lowerValue + (sorted[upper]! - lowerValue) * (rank - lower);
+}
+
 /**
  * Fluent query builder for constructing event queries
  */
 export class QueryBuilder {
   private filter: EventFilter = {};
   private store: IEventStore;
+  private groupFields: GroupByField[] = [];
+  private aggregations: Aggregation[] = [];
+  private order: { column: string; direction: SortDirection } | undefined;
+  private maxResults: number | undefined;
 
   /**
    * Creates a new query builder
@@ -72,6 +170,26 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Filter to events at or after a time
+   * @param startTime - Start of time range
+   * @returns This query builder for chaining
+   */
+  since(startTime: Date): this {
+    this.filter.startTime = startTime;
+    return this;
+  }
+
+  /**
+   * Filter to events at or before a time
+   * @param endTime - End of time range
+   * @returns This query builder for chaining
+   */
+  until(endTime: Date): this {
+    this.filter.endTime = endTime;
+    return this;
+  }
+
   /**
    * Filter by minimum frustration level
    * @param minFrustration - Minimum frustration level (0-1)
@@ -112,12 +230,190 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Group aggregate results by one or more fields
+   * @param fields - Fields to group by
+   * @returns This query builder for chaining
+   */
+  groupBy(...fields: GroupByField[]): this {
+    this.groupFields.push(...fields);
+    return this;
+  }
+
+  /**
+   * Count events in each group
+   * @param alias - Output column name (default: "count")
+   * @returns This query builder for chaining
+   */
+  count(alias = 'count'): this {
+    this.aggregations.push({ fn: 'count', alias });
+    return this;
+  }
+
+  /**
+   * Average a metric in each group
+   * @param metric - Emotional metric
+   * @param alias - Output column name (default: "avg_<metric>")
+   * @returns This query builder for chaining
+   */
+  avg(metric: AggregateMetric, alias = `avg_${metric}`): this {
+    this.aggregations.push({ fn: 'avg', metric, alias });
+    return this;
+  }
+
+  /**
+   * Minimum of a metric in each group
+   * @param metric - Emotional metric
+   * @param alias - Output column name (default: "min_<metric>")
+   * @returns This query builder for chaining
+   */
+  min(metric: AggregateMetric, alias = `min_${metric}`): this {
+    this.aggregations.push({ fn: 'min', metric, alias });
+    return this;
+  }
+
+  /**
+   * Maximum of a metric in each group
+   * @param metric - Emotional metric
+   * @param alias - Output column name (default: "max_<metric>")
+   * @returns This query builder for chaining
+   */
+  max(metric: AggregateMetric, alias = `max_${metric}`): this {
+    this.aggregations.push({ fn: 'max', metric, alias });
+    return this;
+  }
+
+  /**
+   * Percentile of a metric in each group
+   * @param metric - Emotional metric
+   * @param percentile - Percentile between 0 and 100
+   * @param alias - Output column name (default: "p<percentile>_<metric>")
+   * @returns This query builder for chaining
+   * @throws Error if the percentile is outside 0-100
+   */
+  percentile(
+    metric: AggregateMetric,
+    percentile: number,
+    alias = `p${percentile}_${metric}`
+  ): this {
+    if (!Number.isFinite(percentile) || percentile < 0 || percentile > 100) {
+      throw new Error(`Percentile must be between 0 and 100, got ${percentile}`);
+    }
+    this.aggregations.push({ fn: 'percentile', metric, percentile, alias });
+    return this;
+  }
+
+  /**
+   * Order results by a column
+   * Events can be ordered by timestamp, personaId, eventType, action, cohort,
+   * day or an emotional metric; aggregate rows by any output column.
+   * @param column - Column to order by
+   * @param direction - Sort direction (default: ascending)
+   * @returns This query builder for chaining
+   */
+  orderBy(column: string, direction: SortDirection = 'asc'): this {
+    this.order = { column, direction };
+    return this;
+  }
+
+  /**
+   * Limit the number of results
+   * @param count - Maximum number of results
+   * @returns This query builder for chaining
+   * @throws Error if the limit is not a non-negative integer
+   */
+  limit(count: number): this {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`Limit must be a non-negative integer, got ${count}`);
+    }
+    this.maxResults = count;
+    return this;
+  }
+
+  /**
+   * Check whether the query groups or aggregates events
+   * @returns True if executeAggregate should be used
+   */
+  isAggregate(): boolean {
+    return this.groupFields.length > 0 || this.aggregations.length > 0;
+  }
+
   /**
    * Execute the query and return matching events
-   * @returns Array of matching events
+   * @returns Array of matching events, ordered and limited
+   * @throws Error if ordered by a column events do not have
    */
   execute(): TelemetryEvent[] {
-    return this.store.query(this.filter);
+    let events = this.store.query(this.filter);
+
+    if (this.order !== undefined) {
+      const { column, direction } = this.order;
+      if (!EVENT_COLUMNS.has(column)) {
+        throw new Error(`Cannot order events by unknown column: ${column}`);
+      }
+      events = [...events].sort((a, b) =>
+        compareValues(columnValue(a, column), columnValue(b, column), direction)
+      );
+    }
+
+    return this.maxResults !== undefined ? events.slice(0, this.maxResults) : events;
+  }
+
+  /**
+   * Execute the query as an aggregation
+   * Without a groupBy, a single row aggregates every matching event. Without
+   * aggregations, each group is counted. Events missing a metric are left
+   * out of that metric's aggregations.
+   * @returns One row per group, ordered and limited
+   * @throws Error if ordered by a column the rows do not have
+   */
+  executeAggregate(): AggregateRow[] {
+    const aggregations: Aggregation[] =
+      this.aggregations.length > 0 ? this.aggregations : [{ fn: 'count', alias: 'count' }];
+
+    const groups = new Map<
+      string,
+      { values: Array<string | number | null>; events: TelemetryEvent[] }
+    >();
+    // Without a groupBy every event falls into one group, even when none match
+    if (this.groupFields.length === 0) {
+      groups.set('[]', { values: [], events: [] });
+    }
+    for (const event of this.store.query(this.filter)) {
+      const values = this.groupFields.map((field) => groupValue(event, field));
+      const key = JSON.stringify(values);
+      let group = groups.get(key);
+      if (group === undefined) {
+        group = { values, events: [] };
+        groups.set(key, group);
+      }
+      group.events.push(event);
+    }
+
+    let rows = Array.from(groups.values()).map(({ values, events }) => {
+      const row: AggregateRow = {};
+      this.groupFields.forEach((field, index) => {
+        row[field] = values[index] ?? null;
+      });
+      for (const aggregation of aggregations) {
+        row[aggregation.alias] = QueryBuilder.aggregate(aggregation, events);
+      }
+      return row;
+    });
+
+    if (this.order !== undefined) {
+      const { column, direction } = this.order;
+      const columns = [
+        ...this.groupFields,
+        ...aggregations.map((aggregation) => aggregation.alias),
+      ];
+      if (!columns.includes(column as GroupByField)) {
+        throw new Error(`Cannot order by ${column}; available columns: ${columns.join(', ')}`);
+      }
+      rows = rows.sort((a, b) => compareValues(a[column] ?? null, b[column] ?? null, direction));
+    }
+
+    return this.maxResults !== undefined ? rows.slice(0, this.maxResults) : rows;
   }
 
   /**
@@ -134,6 +430,41 @@ export class QueryBuilder {
    */
   reset(): this {
     this.filter = {};
+    this.groupFields = [];
+    this.aggregations = [];
+    this.order = undefined;
+    this.maxResults = undefined;
     return this;
   }
+
+  /**
+   * Compute one aggregation over a group of events
+   */
+  private static aggregate(aggregation: Aggregation, events: TelemetryEvent[]): number | null {
+    if (aggregation.fn === 'count') {
+      return events.length;
+    }
+
+    const metric = aggregation.metric ?? 'frustration';
+    const values = events
+      .map((event) => event.emotionalState[metric])
+      .filter((value): value is number => value !== undefined);
+    if (values.length === 0) {
+      return null;
+    }
+
+    switch (aggregation.fn) {
+      case 'avg':
+        return values.reduce((sum, value) => sum + value, 0) / values.length;
+      case 'min':
+        return values.reduce((min, value) => Math.min(min, value));
+      case 'max':
+        return values.reduce((max, value) => Math.max(max, value));
+      case 'percentile':
+        return percentileOf(
+          [...values].sort((a, b) => a - b),
+          aggregation.percentile ?? 50
+        );
+    }
+  }
 }
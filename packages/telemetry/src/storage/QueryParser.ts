@@ -0,0 +1,494 @@
+/**
+ * Text query syntax for telemetry events
+ */
+
+import type { AggregateMetric, GroupByField } from '../types';
+import type { IEventStore } from './IEventStore';
+import { QueryBuilder } from './QueryBuilder';
+
+/**
+ * Lexical token of a query
+ */
+interface Token {
+  type: 'word' | 'string' | 'operator' | 'punctuation';
+  value: string;
+  position: number;
+}
+
+/**
+ * Token pattern: quoted string, comparison operator, punctuation or bare word
+ */
+const TOKEN_PATTERN =
+  /\s*(?:('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")|(>=|<=|!=|=|>|<)|([,()*])|([^\s,()*=<>!'"]+))/y;
+
+/**
+ * Keywords that start a clause
+ */
+const CLAUSE_KEYWORDS = ['where', 'group', 'order', 'limit'];
+
+/**
+ * Field names accepted in WHERE, GROUP BY and ORDER BY, by lower-case alias
+ */
+const FIELD_ALIASES: Record<string, string> = {
+  persona: 'personaId',
+  personaid: 'personaId',
+  action: 'action',
+  type: 'eventType',
+  eventtype: 'eventType',
+  cohort: 'cohort',
+  day: 'day',
+  time: 'timestamp',
+  timestamp: 'timestamp',
+  frustration: 'frustration',
+  delight: 'delight',
+  confidence: 'confidence',
+  confusion: 'confusion',
+};
+
+/**
+ * Fields that can be grouped by
+ */
+const GROUP_FIELDS: GroupByField[] = ['personaId', 'action', 'cohort', 'day'];
+
+/**
+ * Metrics that can be aggregated
+ */
+const METRICS: AggregateMetric[] = ['frustration', 'delight', 'confidence', 'confusion'];
+
+/**
+ * Error raised for malformed queries
+ */
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number
+  ) {
+    super(`${message} (at position ${position})`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+/**
+ * Parses text queries into QueryBuilder calls
+ *
+ * ```
+ * [SELECT] item, ... [WHERE condition AND ...] [GROUP BY field, ...]
+ *   [ORDER BY column [ASC|DESC]] [LIMIT n]
+ * ```
+ *
+ * Select items are `count`, `avg(metric)`, `min(metric)`, `max(metric)`,
+ * `median(metric)`, `p90(metric)` or `percentile(metric, 90)`, each with an
+ * optional `AS alias`. Conditions compare persona, action, type or cohort
+ * with `=`, and frustration, delight or timestamp with `>=` or `<=`.
+ * Keywords are case-insensitive. A query without select items or GROUP BY
+ * returns raw events; an empty query returns every event.
+ *
+ * @example
+ * avg(frustration), p90(frustration) where type = action group by action
+ *   order by avg_frustration desc limit 5
+ */
+export class QueryParser {
+  private tokens: Token[];
+  private index = 0;
+  private builder: QueryBuilder;
+  private length: number;
+
+  private constructor(query: string, store: IEventStore) {
+    this.tokens = QueryParser.tokenize(query);
+    this.length = query.length;
+    this.builder = new QueryBuilder(store);
+  }
+
+  /**
+   * Parse a text query
+   * @param query - Query text
+   * @param store - Event store the query runs against
+   * @returns Query builder configured by the query
+   * @throws {QuerySyntaxError} If the query is malformed
+   */
+  static parse(query: string, store: IEventStore): QueryBuilder {
+    return new QueryParser(query, store).parseQuery();
+  }
+
+  /**
+   * Parse all clauses in order
+   */
+  private parseQuery(): QueryBuilder {
+    this.acceptKeyword('select');
+    if (!this.atEnd() && !this.atClause()) {
+      this.parseSelectList();
+    }
+    if (this.acceptKeyword('where')) {
+      this.parseConditions();
+    }
+    if (this.acceptKeyword('group')) {
+      this.expectKeyword('by');
+      this.parseGroupBy();
+    }
+    if (this.acceptKeyword('order')) {
+      this.expectKeyword('by');
+      this.parseOrderBy();
+    }
+    if (this.acceptKeyword('limit')) {
+      this.builder.limit(this.expectInteger());
+    }
+    if (!this.atEnd()) {
+      throw this.error(`Unexpected "${this.peek()!.value}"`);
+    }
+    return this.builder;
+  }
+
+  /**
+   * Parse comma-separated select items
+   */
+  private parseSelectList(): void {
+    do {
+      this.parseSelectItem();
+    } while (this.acceptPunctuation(','));
+  }
+
+  /**
+   * Parse one aggregation with an optional alias
+   */
+  private parseSelectItem(): void {
+    const nameToken = this.expectWord('an aggregation');
+    const name = nameToken.value.toLowerCase();
+
+    if (name === 'count') {
+      if (this.acceptPunctuation('(')) {
+        this.acceptPunctuation('*');
+        this.expectPunctuation(')');
+      }
+      this.builder.count(this.parseAlias());
+      return;
+    }
+
+    const percentileMatch = /^p(\d{1,3})$/.exec(name);
+    if (!['avg', 'min', 'max', 'median', 'percentile'].includes(name) && percentileMatch === null) {
+      throw this.error(`Unknown aggregation "${nameToken.value}"`, nameToken);
+    }
+
+    this.expectPunctuation('(');
+    const metric = this.expectMetric();
+    let percentile = percentileMatch !== null ? Number(percentileMatch[1]) : 50;
+    if (name === 'percentile') {
+      this.expectPunctuation(',');
+      percentile = this.expectNumber();
+    }
+    this.expectPunctuation(')');
+    const alias = this.parseAlias();
+
+    if (percentile < 0 || percentile > 100) {
+      throw this.error('Percentile must be between 0 and 100', nameToken);
+    }
+    switch (name) {
+      case 'avg':
+        this.builder.avg(metric, alias);
+        break;
+      case 'min':
+        this.builder.min(metric, alias);
+        break;
+      case 'max':
+        this.builder.max(metric, alias);
+        break;
+      case 'median':
+        this.builder.percentile(metric, 50, alias ?? `median_${metric}`);
+        break;
+      default:
+        this.builder.percentile(metric, percentile, alias);
+    }
+  }
+
+  /**
+   * Parse an optional `AS alias`
+   */
+  private parseAlias(): string | undefined {
+    if (!this.acceptKeyword('as')) {
+      return undefined;
+    }
+    return this.expectWord('an alias').value;
+  }
+
+  /**
+   * Parse conditions joined by AND
+   */
+  private parseConditions(): void {
+    do {
+      this.parseCondition();
+    } while (this.acceptKeyword('and'));
+  }
+
+  /**
+   * Parse one `field operator value` condition
+   */
+  private parseCondition(): void {
+    const fieldToken = this.expectWord('a field');
+    const field = FIELD_ALIASES[fieldToken.value.toLowerCase()];
+    const operatorToken = this.peek();
+    if (operatorToken?.type !== 'operator') {
+      throw this.error('Expected a comparison operator');
+    }
+    this.index++;
+    const operator = operatorToken.value;
+    if (operator === '>' || operator === '<' || operator === '!=') {
+      throw this.error(`Operator ${operator} is not supported; use =, >= or <=`, operatorToken);
+    }
+
+    switch (field) {
+      case 'personaId':
+      case 'action':
+      case 'eventType':
+      case 'cohort': {
+        if (operator !== '=') {
+          throw this.error(`${field} can only be compared with =`, operatorToken);
+        }
+        const value = this.expectValue();
+        if (field === 'personaId') {
+          this.builder.forPersona(value);
+        } else if (field === 'action') {
+          this.builder.withAction(value);
+        } else if (field === 'eventType') {
+          this.builder.ofType(value);
+        } else {
+          this.builder.inCohort(value);
+        }
+        return;
+      }
+      case 'frustration':
+      case 'delight': {
+        if (operator === '=') {
+          throw this.error(`${field} can only be compared with >= or <=`, operatorToken);
+        }
+        const value = this.expectNumber();
+        if (field === 'frustration') {
+          if (operator === '>=') {
+            this.builder.withMinFrustration(value);
+          } else {
+            this.builder.withMaxFrustration(value);
+          }
+        } else if (operator === '>=') {
+          this.builder.withMinDelight(value);
+        } else {
+          this.builder.withMaxDelight(value);
+        }
+        return;
+      }
+      case 'timestamp': {
+        if (operator === '=') {
+          throw this.error('timestamp can only be compared with >= or <=', operatorToken);
+        }
+        const valueToken = this.peek();
+        const time = new Date(this.expectValue());
+        if (Number.isNaN(time.getTime())) {
+          throw this.error('Expected a date', valueToken);
+        }
+        if (operator === '>=') {
+          this.builder.since(time);
+        } else {
+          this.builder.until(time);
+        }
+        return;
+      }
+      default:
+        throw this.error(`Cannot filter by "${fieldToken.value}"`, fieldToken);
+    }
+  }
+
+  /**
+   * Parse comma-separated group-by fields
+   */
+  private parseGroupBy(): void {
+    const fields: GroupByField[] = [];
+    do {
+      const token = this.expectWord('a field');
+      const field = FIELD_ALIASES[token.value.toLowerCase()] as GroupByField | undefined;
+      if (field === undefined || !GROUP_FIELDS.includes(field)) {
+        throw this.error(`Cannot group by "${token.value}"; use ${GROUP_FIELDS.join(', ')}`, token);
+      }
+      fields.push(field);
+    } while (this.acceptPunctuation(','));
+    this.builder.groupBy(...fields);
+  }
+
+  /**
+   * Parse an order column and direction
+   */
+  private parseOrderBy(): void {
+    const column = this.expectWord('a column').value;
+    const direction = this.acceptKeyword('desc') ? 'desc' : 'asc';
+    if (direction === 'asc') {
+      this.acceptKeyword('asc');
+    }
+    this.builder.orderBy(FIELD_ALIASES[column.toLowerCase()] ?? column, direction);
+  }
+
+  /**
+   * Consume a metric name
+   */
+  private expectMetric(): AggregateMetric {
+    const token = this.expectWord('a metric');
+    const metric = token.value.toLowerCase() as AggregateMetric;
+    if (!METRICS.includes(metric)) {
+      throw this.error(`Unknown metric "${token.value}"; use ${METRICS.join(', ')}`, token);
+    }
+    return metric;
+  }
+
+  /**
+   * Consume a bare or quoted value
+   */
+  private expectValue(): string {
+    const token = this.peek();
+    if (token?.type === 'string') {
+      this.index++;
+      return token.value.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    return this.expectWord('a value').value;
+  }
+
+  /**
+   * Consume a number
+   */
+  private expectNumber(): number {
+    const token = this.peek();
+    const value = token?.type === 'word' ? Number(token.value) : NaN;
+    if (Number.isNaN(value)) {
+      throw this.error('Expected a number');
+    }
+    this.index++;
+    return value;
+  }
+
+  /**
+   * Consume a non-negative integer
+   */
+  private expectInteger(): number {
+    const token = this.peek();
+    const value = this.expectNumber();
+    if (!Number.isInteger(value) || value < 0) {
+      throw this.error('Expected a non-negative integer', token);
+    }
+    return value;
+  }
+
+  /**
+   * Consume a bare word
+   */
+  private expectWord(description: string): Token {
+    const token = this.peek();
+    if (token?.type !== 'word') {
+      throw this.error(`Expected ${description}`);
+    }
+    this.index++;
+    return token;
+  }
+
+  /**
+   * Consume a keyword if it is next
+   */
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'word' && token.value.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Consume a required keyword
+   */
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw this.error(`Expected ${keyword.toUpperCase()}`);
+    }
+  }
+
+  /**
+   * Consume punctuation if it is next
+   */
+  private acceptPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Consume required punctuation
+   */
+  private expectPunctuation(value: string): void {
+    if (!this.acceptPunctuation(value)) {
+      throw this.error(`Expected "${value}"`);
+    }
+  }
+
+  /**
+   * Check whether the next token starts a clause
+   */
+  private atClause(): boolean {
+    const token = this.peek();
+    return token?.type === 'word' && CLAUSE_KEYWORDS.includes(token.value.toLowerCase());
+  }
+
+  /**
+   * Check whether all tokens are consumed
+   */
+  private atEnd(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  /**
+   * Look at the next token
+   */
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  /**
+   * Create a syntax error at a token, or at the current position
+   */
+  private error(message: string, token: Token | undefined = this.peek()): QuerySyntaxError {
+    return new QuerySyntaxError(
+      token === undefined && this.atEnd() ? `${message}, found end of query` : message,
+      token?.position ?? this.length
+    );
+  }
+
+  /**
+   * Split a query into tokens
+   * @throws {QuerySyntaxError} On characters that cannot start a token
+   */
+  private static tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+
+    while (TOKEN_PATTERN.lastIndex < query.length) {
+      const start = TOKEN_PATTERN.lastIndex;
+      const match = TOKEN_PATTERN.exec(query);
+      if (match === null) {
+        if (query.slice(start).trim().length === 0) {
+          break;
+        }
+        throw new QuerySyntaxError(`Unexpected character "${query[start]}"`, start);
+      }
+
+      const [whole, quoted, operator, punctuation, word] = match;
+      const position =
+        start + whole.length - (quoted ?? operator ?? punctuation ?? word ?? '').length;
+      if (quoted !== undefined) {
+        tokens.push({ type: 'string', value: quoted, position });
+      } else if (operator !== undefined) {
+        tokens.push({ type: 'operator', value: operator, position });
+      } else if (punctuation !== undefined) {
+        tokens.push({ type: 'punctuation', value: punctuation, position });
+      } else if (word !== undefined) {
+        tokens.push({ type: 'word', value: word, position });
+      }
+    }
+
+    return tokens;
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * SQLite storage for telemetry events
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import type { TelemetryEvent, EventFilter } from '../types';
+import type { IEventStore } from './IEventStore';
+
+/**
+ * Path that opens a private in-memory database
+ */
+const IN_MEMORY = ':memory:';
+
+/**
+ * Row shape of the events table
+ */
+interface EventRow {
+  id: string;
+  persona_id: string;
+  event_type: string;
+  action: string;
+  cohort: string | null;
+  timestamp: number;
+  emotional_state: string;
+  metadata: string;
+}
+
+/**
+ * Event store backed by a SQLite database
+ *
+ * Persona, action and timestamp are indexed, and frustration and delight are
+ * stored as columns so filters run in SQL rather than in memory. Results are
+ * returned in insertion order, like InMemoryStore.
+ */
+export class SqliteStore implements IEventStore {
+  private db: Database.Database;
+  private insert: Database.Statement;
+
+  /**
+   * Opens or creates a SQLite store
+   * @param filePath - Database file (default: in-memory database)
+   */
+  constructor(filePath: string = IN_MEMORY) {
+    if (filePath !== IN_MEMORY) {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        id TEXT PRIMARY KEY,
+        persona_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        action TEXT NOT NULL,
+        cohort TEXT,
+        timestamp INTEGER NOT NULL,
+        frustration REAL NOT NULL,
+        delight REAL NOT NULL,
+        emotional_state TEXT NOT NULL,
+        metadata TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_events_persona ON events (persona_id);
+      CREATE INDEX IF NOT EXISTS idx_events_action ON events (action);
+      CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events (timestamp);
+    `);
+
+    // INSERT OR IGNORE prevents duplicates based on event ID
+    this.insert = this.db.prepare(`
+      INSERT OR IGNORE INTO events (
+        id, persona_id, event_type, action, cohort, timestamp,
+        frustration, delight, emotional_state, metadata
+      ) VALUES (
+        @id, @personaId, @eventType, @action, @cohort, @timestamp,
+        @frustration, @delight, @emotionalState, @metadata
+      )
+    `);
+  }
+
+  /**
+   * Store a single event
+   * Prevents duplicates based on event ID
+   */
+  store(event: TelemetryEvent): void {
+    this.insert.run(SqliteStore.toParameters(event));
+  }
+
+  /**
+   * Store multiple events in a single transaction
+   */
+  storeBatch(events: TelemetryEvent[]): void {
+    const insertAll = this.db.transaction((batch: TelemetryEvent[]) => {
+      for (const event of batch) {
+        this.insert.run(SqliteStore.toParameters(event));
+      }
+    });
+    insertAll(events);
+  }
+
+  /**
+   * Query events based on filter criteria
+   */
+  query(filter: EventFilter): TelemetryEvent[] {
+    const conditions: string[] = [];
+    const parameters: Record<string, string | number> = {};
+    const where = (condition: string, name: string, value: string | number): void => {
+      conditions.push(condition);
+      parameters[name] = value;
+    };
+
+    if (filter.personaId !== undefined) {
+      where('persona_id = @personaId', 'personaId', filter.personaId);
+    }
+    if (filter.eventType !== undefined) {
+      where('event_type = @eventType', 'eventType', filter.eventType);
+    }
+    if (filter.action !== undefined) {
+      where('action = @action', 'action', filter.action);
+    }
+    if (filter.cohort !== undefined) {
+      where('cohort = @cohort', 'cohort', filter.cohort);
+    }
+    if (filter.startTime !== undefined) {
+      where('timestamp >= @startTime', 'startTime', filter.startTime.getTime());
+    }
+    if (filter.endTime !== undefined) {
+      where('timestamp <= @endTime', 'endTime', filter.endTime.getTime());
+    }
+    if (filter.minFrustration !== undefined) {
+      where('frustration >= @minFrustration', 'minFrustration', filter.minFrustration);
+    }
+    if (filter.maxFrustration !== undefined) {
+      where('frustration <= @maxFrustration', 'maxFrustration', filter.maxFrustration);
+    }
+    if (filter.minDelight !== undefined) {
+      where('delight >= @minDelight', 'minDelight', filter.minDelight);
+    }
+    if (filter.maxDelight !== undefined) {
+      where('delight <= @maxDelight', 'maxDelight', filter.maxDelight);
+    }
+
+    const clause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this.select(clause, parameters);
+  }
+
+  /**
+   * Get all events
+   */
+  getAll(): TelemetryEvent[] {
+    return this.select('', {});
+  }
+
+  /**
+   * Get event count
+   */
+  count(): number {
+    const row = this.db.prepare('SELECT COUNT(*) AS total FROM events').get() as {
+      total: number;
+    };
+    return row.total;
+  }
+
+  /**
+   * Clear all events
+   */
+  clear(): void {
+    this.db.exec('DELETE FROM events');
+  }
+
+  /**
+   * Get events by persona ID
+   */
+  getByPersonaId(personaId: string): TelemetryEvent[] {
+    return this.query({ personaId });
+  }
+
+  /**
+   * Get events in time range
+   */
+  getByTimeRange(startTime: Date, endTime: Date): TelemetryEvent[] {
+    return this.query({ startTime, endTime });
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Select events in insertion order
+   */
+  private select(clause: string, parameters: Record<string, string | number>): TelemetryEvent[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM events ${clause} ORDER BY rowid`)
+      .all(parameters) as EventRow[];
+    return rows.map((row) => SqliteStore.fromRow(row));
+  }
+
+  /**
+   * Convert an event to insert parameters
+   */
+  private static toParameters(event: TelemetryEvent): Record<string, string | number | null> {
+    return {
+      id: event.id,
+      personaId: event.personaId,
+      eventType: event.eventType,
+      action: event.action,
+      cohort: event.cohort ?? null,
+      timestamp: event.timestamp.getTime(),
+      frustration: event.emotionalState['frustration'] ?? 0,
+      delight: event.emotionalState['delight'] ?? 0,
+      emotionalState: JSON.stringify(event.emotionalState),
+      metadata: JSON.stringify(event.metadata),
+    };
+  }
+
+  /**
+   * Convert a table row back to an event
+   */
+  private static fromRow(row: EventRow): TelemetryEvent {
+    const event: TelemetryEvent = {
+      id: row.id,
+      personaId: row.persona_id,
+      eventType: row.event_type,
+      action: row.action,
+      emotionalState: JSON.parse(row.emotional_state) as Record<string, number>,
+      metadata: JSON.parse(row.metadata) as Record<string, unknown>,
+      timestamp: new Date(row.timestamp),
+    };
+    if (row.cohort !== null) {
+      event.cohort = row.cohort;
+    }
+    return event;
+  }
+}
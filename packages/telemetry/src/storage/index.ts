@@ -4,4 +4,7 @@
 
 export * from './IEventStore';
 export * from './InMemoryStore';
+export * from './NdjsonStore';
+export * from './SqliteStore';
 export * from './QueryBuilder';
+export * from './QueryParser';
@@ -0,0 +1,58 @@
+/**
+ * Event filter matching shared by the event stores
+ */
+
+import type { TelemetryEvent, EventFilter } from '../types';
+
+/**
+ * Check whether an event satisfies every criterion of a filter
+ * Missing emotional values count as 0.
+ * @param event - Event to check
+ * @param filter - Filter criteria
+ * @returns True if the event matches
+ */
+export function matchesFilter(event: TelemetryEvent, filter: EventFilter): boolean {
+  if (filter.personaId !== undefined && event.personaId !== filter.personaId) {
+    return false;
+  }
+  if (filter.eventType !== undefined && event.eventType !== filter.eventType) {
+    return false;
+  }
+  if (filter.action !== undefined && event.action !== filter.action) {
+    return false;
+  }
+  if (filter.cohort !== undefined && event.cohort !== filter.cohort) {
+    return false;
+  }
+  if (filter.startTime !== undefined && event.timestamp < filter.startTime) {
+    return false;
+  }
+  if (filter.endTime !== undefined && event.timestamp > filter.endTime) {
+    return false;
+  }
+  if (
+    filter.minFrustration !== undefined &&
+    (event.emotionalState['frustration'] ?? 0) < filter.minFrustration
+  ) {
+    return false;
+  }
+  if (
+    filter.maxFrustration !== undefined &&
+    (event.emotionalState['frustration'] ?? 0) > filter.maxFrustration
+  ) {
+    return false;
+  }
+  if (
+    filter.minDelight !== undefined &&
+    (event.emotionalState['delight'] ?? 0) < filter.minDelight
+  ) {
+    return false;
+  }
+  if (
+    filter.maxDelight !== undefined &&
+    (event.emotionalState['delight'] ?? 0) > filter.maxDelight
+  ) {
+    return false;
+  }
+  return true;
+}
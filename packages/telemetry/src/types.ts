@@ -42,6 +42,45 @@ export interface EventFilter {
   maxDelight?: number;
 }
 
+/**
+ * Dimension events can be grouped by
+ * `day` is the simulation day from event metadata, or the UTC date of the timestamp.
+ */
+export type GroupByField = 'personaId' | 'action' | 'cohort' | 'day';
+
+/**
+ * Emotional dimension that can be aggregated
+ */
+export type AggregateMetric = 'frustration' | 'delight' | 'confidence' | 'confusion';
+
+/**
+ * Aggregation function
+ */
+export type AggregateFunction = 'count' | 'avg' | 'min' | 'max' | 'percentile';
+
+/**
+ * Aggregation computed for each group
+ */
+export interface Aggregation {
+  fn: AggregateFunction;
+  /** Metric to aggregate (not used by count) */
+  metric?: AggregateMetric;
+  /** Percentile between 0 and 100 (percentile only) */
+  percentile?: number;
+  /** Output column name */
+  alias: string;
+}
+
+/**
+ * Result row of an aggregate query: group values followed by aggregations
+ */
+export type AggregateRow = Record<string, string | number | null>;
+
+/**
+ * Sort direction
+ */
+export type SortDirection = 'asc' | 'desc';
+
 /**
  * Interface for telemetry collectors
  */
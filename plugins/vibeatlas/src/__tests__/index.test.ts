@@ -13,4 +13,14 @@ describe('vibeatlas plugin exports', () => {
     const adapter = new pluginExports.VibeAtlasAdapter();
     expect(adapter).toBeInstanceOf(pluginExports.VibeAtlasAdapter);
   });
+
+  it('should export persona templates, scenarios and outcomes for the plugin registry', () => {
+    expect(pluginExports.getAllPersonaTemplates().length).toBeGreaterThan(0);
+    expect(pluginExports.getAllScenarios().map((scenario) => scenario.id)).toContain(
+      'happy-path-001'
+    );
+    expect(pluginExports.getAllExpectedOutcomes().map((outcome) => outcome.scenario)).toContain(
+      'happy-path-001'
+    );
+  });
 });
@@ -17,3 +17,12 @@ export { PerformanceOptFeature } from './features/PerformanceOpt';
 export { AutoCaptureFeature } from './features/AutoCapture';
 export { SessionReportsFeature } from './features/SessionReports';
 export { MCPServerFeature } from './features/MCPServer';
+
+// Persona templates, scenarios and expected outcomes read by the SUTS plugin registry
+export { getAllPersonaTemplates } from './testdata/PersonaTemplates';
+export { getAllScenarios, type TestScenario } from './testdata/ScenarioLibrary';
+export {
+  getAllExpectedOutcomes,
+  identifyRedFlags,
+  type ExpectedOutcome,
+} from './testdata/ExpectedOutcomes';
@@ -13,8 +13,8 @@ describe('Deduplicator', () => {
   });
 
   describe('deduplicate', () => {
-    it('should handle empty array', () => {
-      const result = deduplicator.deduplicate([]);
+    it('should handle empty array', async () => {
+      const result = await deduplicator.deduplicate([]);
 
       expect(result.unique.length).toBe(0);
       expect(result.duplicates.size).toBe(0);
@@ -24,7 +24,7 @@ describe('Deduplicator', () => {
       expect(result.stats.dedupeRate).toBe(0);
     });
 
-    it('should deduplicate exact matches', () => {
+    it('should deduplicate exact matches', async () => {
       const content = 'This is a duplicate post';
       const signals: WebSignal[] = [
         createWebSignal({
@@ -53,7 +53,7 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.unique.length).toBe(1);
       expect(result.stats.total).toBe(3);
@@ -62,7 +62,7 @@ describe('Deduplicator', () => {
       expect(result.stats.dedupeRate).toBeCloseTo(66.67, 1);
     });
 
-    it('should deduplicate similar content (>85%)', () => {
+    it('should deduplicate similar content (>85%)', async () => {
       const signals: WebSignal[] = [
         createWebSignal({
           id: 'signal-1',
@@ -82,14 +82,14 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       // Should deduplicate as they're identical
       expect(result.unique.length).toBe(1);
       expect(result.stats.duplicates).toBe(1);
     });
 
-    it('should keep dissimilar content', () => {
+    it('should keep dissimilar content', async () => {
       const signals: WebSignal[] = [
         createWebSignal({
           id: 'signal-1',
@@ -117,14 +117,14 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.unique.length).toBe(3);
       expect(result.stats.duplicates).toBe(0);
       expect(result.stats.dedupeRate).toBe(0);
     });
 
-    it('should select highest quality as canonical', () => {
+    it('should select highest quality as canonical', async () => {
       const content = 'This is a test post';
       const signals: WebSignal[] = [
         createWebSignal({
@@ -154,13 +154,13 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.unique.length).toBe(1);
       expect(result.unique[0]!.id).toBe('high-quality');
     });
 
-    it('should track duplicate stats', () => {
+    it('should track duplicate stats', async () => {
       const signals: WebSignal[] = [
         createWebSignal({
           id: '1',
@@ -204,7 +204,7 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.stats.total).toBe(5);
       expect(result.stats.unique).toBe(3);
@@ -212,7 +212,7 @@ describe('Deduplicator', () => {
       expect(result.stats.dedupeRate).toBe(40); // 2/5 * 100
     });
 
-    it('should handle single signal', () => {
+    it('should handle single signal', async () => {
       const signals: WebSignal[] = [
         createWebSignal({
           id: 'only-one',
@@ -224,14 +224,14 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.unique.length).toBe(1);
       expect(result.unique[0]!.id).toBe('only-one');
       expect(result.stats.duplicates).toBe(0);
     });
 
-    it('should store duplicates in map', () => {
+    it('should store duplicates in map', async () => {
       const content = 'Duplicate content';
       const signals: WebSignal[] = [
         createWebSignal({
@@ -260,7 +260,7 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.duplicates.size).toBe(1);
 
@@ -273,7 +273,7 @@ describe('Deduplicator', () => {
       expect(duplicates!.some((d) => d.id === 'duplicate-2')).toBe(true);
     });
 
-    it('should handle custom similarity threshold', () => {
+    it('should handle custom similarity threshold', async () => {
       const strictDeduplicator = new Deduplicator(0.95); // Very strict
 
       const signals: WebSignal[] = [
@@ -295,13 +295,13 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = strictDeduplicator.deduplicate(signals);
+      const result = await strictDeduplicator.deduplicate(signals);
 
       // With 95% threshold, these might not be considered duplicates
       expect(result.unique.length).toBeGreaterThanOrEqual(1);
     });
 
-    it('should normalize content for exact matching', () => {
+    it('should normalize content for exact matching', async () => {
       const signals: WebSignal[] = [
         createWebSignal({
           id: 'signal-1',
@@ -329,14 +329,14 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       // All should be considered exact matches after normalization
       expect(result.unique.length).toBe(1);
       expect(result.stats.duplicates).toBe(2);
     });
 
-    it('should handle multi-pass deduplication correctly', () => {
+    it('should handle multi-pass deduplication correctly', async () => {
       const signals: WebSignal[] = [
         // Exact match group
         createWebSignal({
@@ -359,7 +359,8 @@ describe('Deduplicator', () => {
         createWebSignal({
           id: 'similar-1',
           source: 'github',
-          content: 'Machine learning models require large amounts of training data and compute resources',
+          content:
+            'Machine learning models require large amounts of training data and compute resources',
           timestamp: new Date(),
           url: 'https://github.com/owner/repo/1',
           metadata: {},
@@ -367,7 +368,8 @@ describe('Deduplicator', () => {
         createWebSignal({
           id: 'similar-2',
           source: 'hackernews',
-          content: 'Machine learning models require large amounts of training data and compute resources',
+          content:
+            'Machine learning models require large amounts of training data and compute resources',
           timestamp: new Date(),
           url: 'https://news.ycombinator.com/item?id=1',
           metadata: {},
@@ -383,14 +385,14 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.unique.length).toBe(3); // exact group, similar group, unique
       expect(result.stats.total).toBe(5);
       expect(result.stats.duplicates).toBe(2);
     });
 
-    it('should handle signals with varying similarity thresholds', () => {
+    it('should handle signals with varying similarity thresholds', async () => {
       const signals: WebSignal[] = [
         createWebSignal({
           id: '1',
@@ -418,13 +420,13 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.unique.length).toBe(2); // One duplicate group + one unique
       expect(result.stats.duplicates).toBe(1);
     });
 
-    it('should handle empty groups correctly', () => {
+    it('should handle empty groups correctly', async () => {
       const signals: WebSignal[] = [
         createWebSignal({
           id: '1',
@@ -452,20 +454,21 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.unique.length).toBe(3);
       expect(result.stats.duplicates).toBe(0);
       expect(result.duplicates.size).toBe(0);
     });
 
-    it('should handle multiple similar groups', () => {
+    it('should handle multiple similar groups', async () => {
       const signals: WebSignal[] = [
         // Group 1: JavaScript
         createWebSignal({
           id: 'js-1',
           source: 'reddit',
-          content: 'Learning JavaScript is essential for modern web development and creating interactive user experiences',
+          content:
+            'Learning JavaScript is essential for modern web development and creating interactive user experiences',
           timestamp: new Date(),
           url: 'https://reddit.com/1',
           metadata: { score: 50 },
@@ -473,7 +476,8 @@ describe('Deduplicator', () => {
         createWebSignal({
           id: 'js-2',
           source: 'twitter',
-          content: 'Learning JavaScript is essential for modern web development and creating interactive user experiences',
+          content:
+            'Learning JavaScript is essential for modern web development and creating interactive user experiences',
           timestamp: new Date(),
           url: 'https://twitter.com/user/1',
           metadata: { likeCount: 25 },
@@ -482,7 +486,8 @@ describe('Deduplicator', () => {
         createWebSignal({
           id: 'py-1',
           source: 'github',
-          content: 'Python programming language is widely used for data science machine learning and artificial intelligence',
+          content:
+            'Python programming language is widely used for data science machine learning and artificial intelligence',
           timestamp: new Date(),
           url: 'https://github.com/owner/repo/1',
           metadata: { reactions: { plusOne: 30 } },
@@ -490,7 +495,8 @@ describe('Deduplicator', () => {
         createWebSignal({
           id: 'py-2',
           source: 'hackernews',
-          content: 'Python programming language is widely used for data science machine learning and artificial intelligence',
+          content:
+            'Python programming language is widely used for data science machine learning and artificial intelligence',
           timestamp: new Date(),
           url: 'https://news.ycombinator.com/item?id=1',
           metadata: { points: 40 },
@@ -506,14 +512,14 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.unique.length).toBe(3); // 2 groups + 1 unique
       expect(result.stats.duplicates).toBe(2);
       expect(result.duplicates.size).toBe(2); // 2 groups have duplicates
     });
 
-    it('should handle signals with identical content but different metadata', () => {
+    it('should handle signals with identical content but different metadata', async () => {
       const content = 'Identical content across multiple platforms';
       const signals: WebSignal[] = [
         createWebSignal({
@@ -547,12 +553,150 @@ describe('Deduplicator', () => {
         }),
       ];
 
-      const result = deduplicator.deduplicate(signals);
+      const result = await deduplicator.deduplicate(signals);
 
       expect(result.unique.length).toBe(1);
       expect(result.stats.duplicates).toBe(2);
       // Should select the one with highest quality (most recent + most engagement + most metadata)
       expect(result.unique[0]!.id).toBe('high');
     });
+
+    it('should deduplicate reworded content', async () => {
+      const signals: WebSignal[] = [
+        createWebSignal({
+          id: 'original',
+          source: 'reddit',
+          content: 'The build keeps failing on CI after every dependency update',
+          timestamp: new Date(),
+          url: 'https://reddit.com/1',
+          metadata: {},
+        }),
+        createWebSignal({
+          id: 'reworded',
+          source: 'reddit',
+          content: 'CI builds keep failing after each dependency update!',
+          timestamp: new Date(),
+          url: 'https://reddit.com/2',
+          metadata: {},
+        }),
+        createWebSignal({
+          id: 'other',
+          source: 'reddit',
+          content: 'The build is fast but the docs are missing examples',
+          timestamp: new Date(),
+          url: 'https://reddit.com/3',
+          metadata: {},
+        }),
+      ];
+
+      const result = await deduplicator.deduplicate(signals);
+
+      expect(result.unique.map((s) => s.id).sort()).toEqual(['original', 'other']);
+      expect(result.duplicates.get('original')!.map((s) => s.id)).toEqual(['reworded']);
+      expect(result.crossSource.size).toBe(0);
+    });
+
+    it('should report groups spanning several sources', async () => {
+      const signals: WebSignal[] = [
+        createWebSignal({
+          id: 'reddit-post',
+          source: 'reddit',
+          content: 'Hot reload stopped working after upgrading to version 5',
+          timestamp: new Date(),
+          url: 'https://reddit.com/1',
+          metadata: {},
+        }),
+        createWebSignal({
+          id: 'hn-comment',
+          source: 'hackernews',
+          content: 'After upgrading to version 5, hot reload stopped working',
+          timestamp: new Date(),
+          url: 'https://news.ycombinator.com/item?id=1',
+          metadata: {},
+        }),
+        createWebSignal({
+          id: 'reddit-repost',
+          source: 'reddit',
+          content: 'Hot reload stopped working after upgrading to version 5',
+          timestamp: new Date(),
+          url: 'https://reddit.com/2',
+          metadata: {},
+        }),
+      ];
+
+      const result = await deduplicator.deduplicate(signals);
+
+      expect(result.unique.length).toBe(1);
+      expect(result.crossSource.get(result.unique[0]!.id)).toEqual(['reddit', 'hackernews']);
+      expect(result.stats.crossSource).toBe(1);
+    });
+
+    it('should only match content without terms exactly', async () => {
+      const signals: WebSignal[] = ['!!!', '???', '!!!'].map((content, i) =>
+        createWebSignal({
+          id: `signal-${i}`,
+          source: 'twitter',
+          content,
+          timestamp: new Date(),
+          url: `https://twitter.com/user/${i}`,
+          metadata: {},
+        })
+      );
+
+      const result = await deduplicator.deduplicate(signals);
+
+      expect(result.unique.length).toBe(2);
+      expect(result.stats.duplicates).toBe(1);
+    });
+
+    it('should use a custom embedding provider', async () => {
+      const embed = jest.fn((texts: string[]) =>
+        Promise.resolve(
+          texts.map((text) => (text.toLowerCase().includes('slow') ? [1, 0] : [0, 1]))
+        )
+      );
+      const customDeduplicator = new Deduplicator({ embeddingProvider: { embed }, batchSize: 2 });
+      const signals: WebSignal[] = ['Too slow', 'So slow to start', 'Crashes', 'Slow again'].map(
+        (content, i) =>
+          createWebSignal({
+            id: `signal-${i}`,
+            source: 'github',
+            content,
+            timestamp: new Date(),
+            url: `https://github.com/owner/repo/${i}`,
+            metadata: {},
+          })
+      );
+
+      const result = await customDeduplicator.deduplicate(signals);
+
+      expect(embed).toHaveBeenCalledTimes(2);
+      expect(result.unique.map((s) => s.id)).toEqual(['signal-0', 'signal-2']);
+      expect(result.duplicates.get('signal-0')!.map((s) => s.id)).toEqual(['signal-1', 'signal-3']);
+    });
+
+    it('should reject providers returning the wrong number of vectors', async () => {
+      const customDeduplicator = new Deduplicator({
+        embeddingProvider: { embed: () => Promise.resolve([[1, 0]]) },
+      });
+      const signals: WebSignal[] = ['First', 'Second'].map((content, i) =>
+        createWebSignal({
+          id: `signal-${i}`,
+          source: 'github',
+          content,
+          timestamp: new Date(),
+          url: `https://github.com/owner/repo/${i}`,
+          metadata: {},
+        })
+      );
+
+      await expect(customDeduplicator.deduplicate(signals)).rejects.toThrow(
+        'Embedding provider returned 1 vectors for 2 texts'
+      );
+    });
+
+    it('should reject an invalid batch size', () => {
+      expect(() => new Deduplicator({ batchSize: 0 })).toThrow('Batch size');
+    });
   });
 });
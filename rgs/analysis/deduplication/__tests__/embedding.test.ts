@@ -0,0 +1,89 @@
+/**
+ * Tests for HashingVectorizer
+ */
+
+import { HashingVectorizer } from '../src/embedding';
+
+/**
+ * Dot product of two vectors (their cosine similarity when normalized)
+ */
+function dot(v1: number[], v2: number[]): number {
+  return v1.reduce((sum, value, i) => sum + value * v2[i]!, 0);
+}
+
+describe('HashingVectorizer', () => {
+  let vectorizer: HashingVectorizer;
+
+  beforeEach(() => {
+    vectorizer = new HashingVectorizer();
+  });
+
+  describe('vectorize', () => {
+    it('should return normalized vectors of the configured length', () => {
+      const vector = new HashingVectorizer({ dimensions: 64 }).vectorize('Slow builds on CI');
+
+      expect(vector.length).toBe(64);
+      expect(dot(vector, vector)).toBeCloseTo(1.0, 6);
+    });
+
+    it('should be deterministic', () => {
+      const text = 'The app crashes on startup';
+
+      expect(vectorizer.vectorize(text)).toEqual(new HashingVectorizer().vectorize(text));
+    });
+
+    it('should ignore case, punctuation, stopwords and inflections', () => {
+      const vector1 = vectorizer.vectorize('The build is failing!');
+      const vector2 = vectorizer.vectorize('build FAILS');
+
+      expect(dot(vector1, vector2)).toBeCloseTo(1.0, 6);
+    });
+
+    it('should score reordered phrasing higher than different content', () => {
+      const vector = vectorizer.vectorize('Hot reload stopped working after the upgrade');
+      const reordered = vectorizer.vectorize('After the upgrade hot reload stopped working');
+      const different = vectorizer.vectorize('Pricing is too high for small teams');
+
+      expect(dot(vector, reordered)).toBeGreaterThan(0.85);
+      expect(Math.abs(dot(vector, different))).toBeLessThan(0.3);
+    });
+
+    it('should keep short labels apart', () => {
+      const vector1 = vectorizer.vectorize('Error 404');
+      const vector2 = vectorizer.vectorize('Error 500');
+
+      expect(dot(vector1, vector2)).toBeLessThan(0.85);
+    });
+
+    it('should only count words without bigrams when the bigram weight is 0', () => {
+      const unigrams = new HashingVectorizer({ bigramWeight: 0 });
+
+      expect(
+        dot(unigrams.vectorize('reload hot working'), unigrams.vectorize('hot reload working'))
+      ).toBeCloseTo(1.0, 6);
+    });
+
+    it('should return a zero vector for text without terms', () => {
+      expect(vectorizer.vectorize('the and of').every((value) => value === 0)).toBe(true);
+    });
+  });
+
+  describe('embed', () => {
+    it('should embed a batch of texts', async () => {
+      const vectors = await vectorizer.embed(['Slow builds', 'Missing docs']);
+
+      expect(vectors).toEqual([
+        vectorizer.vectorize('Slow builds'),
+        vectorizer.vectorize('Missing docs'),
+      ]);
+    });
+  });
+
+  describe('constructor', () => {
+    it('should reject invalid options', () => {
+      expect(() => new HashingVectorizer({ dimensions: 0 })).toThrow('Dimensions');
+      expect(() => new HashingVectorizer({ dimensions: 1.5 })).toThrow('Dimensions');
+      expect(() => new HashingVectorizer({ bigramWeight: -1 })).toThrow('Bigram weight');
+    });
+  });
+});
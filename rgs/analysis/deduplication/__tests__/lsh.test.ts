@@ -0,0 +1,73 @@
+/**
+ * Tests for CosineLSH
+ */
+
+import { CosineLSH } from '../src/lsh';
+
+describe('CosineLSH', () => {
+  describe('candidates', () => {
+    it('should pair identical and near-identical vectors', () => {
+      const index = new CosineLSH();
+      index.add([1, 0.1, 0, 0]);
+      index.add([0, 0, 1, 0]);
+      index.add([1, 0.1, 0, 0]);
+      index.add([1, 0.12, 0.01, 0]);
+
+      expect(index.candidates(0)).toEqual(expect.arrayContaining([2, 3]));
+      expect(index.candidates(0)).not.toContain(0);
+      expect(index.size).toBe(4);
+    });
+
+    it('should rarely pair opposite vectors', () => {
+      const index = new CosineLSH();
+      index.add([1, 0, 0, 0]);
+      index.add([-1, 0, 0, 0]);
+
+      expect(index.candidates(0)).toEqual([]);
+    });
+
+    it('should return candidates in ascending order', () => {
+      const index = new CosineLSH({ bands: 4, rows: 1 });
+      for (let i = 0; i < 5; i++) {
+        index.add([1, 1]);
+      }
+
+      expect(index.candidates(2)).toEqual([0, 1, 3, 4]);
+    });
+
+    it('should return no candidates for unknown positions', () => {
+      expect(new CosineLSH().candidates(0)).toEqual([]);
+    });
+
+    it('should produce the same buckets for the same seed', () => {
+      const vectors = Array.from({ length: 50 }, (_, i) => [Math.sin(i), Math.cos(i), i % 3]);
+      const index1 = new CosineLSH({ seed: 7 });
+      const index2 = new CosineLSH({ seed: 7 });
+      vectors.forEach((vector) => {
+        index1.add(vector);
+        index2.add(vector);
+      });
+
+      expect(vectors.map((_, i) => index1.candidates(i))).toEqual(
+        vectors.map((_, i) => index2.candidates(i))
+      );
+    });
+  });
+
+  describe('add', () => {
+    it('should reject vectors of a different length', () => {
+      const index = new CosineLSH();
+      index.add([1, 0]);
+
+      expect(() => index.add([1, 0, 0])).toThrow('Expected a vector of length 2, got 3');
+    });
+  });
+
+  describe('constructor', () => {
+    it('should reject invalid options', () => {
+      expect(() => new CosineLSH({ bands: 0 })).toThrow('Bands');
+      expect(() => new CosineLSH({ rows: 31 })).toThrow('Rows');
+      expect(() => new CosineLSH({ rows: 0 })).toThrow('Rows');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Performance benchmarks for Deduplicator
+ */
+
+import { Deduplicator } from '../src/deduplicator';
+import { WebSignal, createWebSignal } from '@rgs/core/models/signal';
+import { SourceType } from '@rgs/core/models/source';
+
+const SOURCES: SourceType[] = ['reddit', 'hackernews', 'github', 'twitter', 'stackoverflow'];
+const SYLLABLES = ['ka', 'lo', 'mi', 'ru', 'te', 'vo', 'sa', 'ne', 'pi', 'du', 'go', 'fe'];
+
+/**
+ * Create signals where every complaint is reposted, with small edits, on each source
+ *
+ * @param complaints - Number of distinct complaints
+ * @returns Five signals per complaint
+ */
+function createComplaintSignals(complaints: number): WebSignal[] {
+  let state = 7;
+  const random = (max: number): number => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return Math.floor((state / 4294967296) * max);
+  };
+  const word = (): string =>
+    Array.from({ length: 3 }, () => SYLLABLES[random(SYLLABLES.length)]!).join('');
+
+  const signals: WebSignal[] = [];
+  for (let c = 0; c < complaints; c++) {
+    const words = Array.from({ length: 10 + random(6) }, word);
+    const variants = [
+      words,
+      words.map((w) => w.toUpperCase()),
+      words.slice(1),
+      [...words, 'again'],
+      [...words.slice(0, 4), words[5]!, words[4]!, ...words.slice(6)],
+    ];
+
+    variants.forEach((variant, v) => {
+      signals.push(
+        createWebSignal({
+          id: `complaint-${c}-${v}`,
+          source: SOURCES[v]!,
+          content: variant.join(' '),
+          timestamp: new Date(),
+          url: `https://example.com/${c}/${v}`,
+          metadata: {},
+        })
+      );
+    });
+  }
+  return signals;
+}
+
+describe('Performance Benchmarks', () => {
+  describe('deduplicate performance', () => {
+    it('should deduplicate 50K signals in less than 60 seconds', async () => {
+      const deduplicator = new Deduplicator();
+      const signals = createComplaintSignals(10000);
+
+      const startTime = Date.now();
+      const result = await deduplicator.deduplicate(signals);
+      const endTime = Date.now();
+
+      const duration = endTime - startTime;
+      expect(duration).toBeLessThan(60000);
+      expect(result.stats.total).toBe(50000);
+      expect(result.stats.unique).toBeLessThan(10500);
+      expect(result.stats.crossSource).toBeGreaterThan(9500);
+    }, 120000);
+
+    it('should deduplicate 5K signals quickly', async () => {
+      const deduplicator = new Deduplicator();
+      const signals = createComplaintSignals(1000);
+
+      const startTime = Date.now();
+      await deduplicator.deduplicate(signals);
+      const endTime = Date.now();
+
+      const duration = endTime - startTime;
+      expect(duration).toBeLessThan(10000);
+    });
+  });
+});
@@ -1,16 +1,20 @@
 /**
  * RGS Analysis - Deduplicator
  *
- * Multi-pass deduplication for web signals:
+ * Two-pass deduplication for web signals:
  * 1. Exact content match (fast path)
- * 2. High similarity (>90%)
- * 3. Medium similarity (>85%)
+ * 2. Embedding similarity above the threshold, checked only for pairs that
+ *    share an LSH bucket so the pass scales near-linearly
  *
+ * Deduplication ignores the source, so the same complaint posted on Reddit
+ * and Hacker News collapses into one group that is reported as cross-source.
  * Selects canonical signals based on quality scores.
  */
 
 import { WebSignal } from '@rgs/core/models/signal';
-import { SimilarityCalculator } from './similarity';
+import { SourceType } from '@rgs/core/models/source';
+import { EmbeddingProvider, HashingVectorizer } from './embedding';
+import { CosineLSH, LSHOptions } from './lsh';
 import { QualityScorer } from './quality';
 
 /**
@@ -27,6 +31,12 @@ export interface DeduplicationResult {
    */
   duplicates: Map<string, WebSignal[]>;
 
+  /**
+   * Map of canonical signal IDs to the sources of their group, for groups
+   * seen on more than one source
+   */
+  crossSource: Map<string, SourceType[]>;
+
   /**
    * Deduplication statistics
    */
@@ -50,67 +60,112 @@ export interface DeduplicationResult {
      * Deduplication rate (percentage)
      */
     dedupeRate: number;
+
+    /**
+     * Number of groups spanning more than one source
+     */
+    crossSource: number;
   };
 }
 
 /**
- * Multi-pass deduplication for web signals
+ * Options for the deduplicator
+ */
+export interface DeduplicatorOptions {
+  /**
+   * Cosine similarity for considering signals as duplicates (default: 0.85)
+   */
+  similarityThreshold?: number;
+
+  /**
+   * Embedding provider (default: offline hashing vectorizer)
+   */
+  embeddingProvider?: EmbeddingProvider;
+
+  /**
+   * LSH blocking options
+   */
+  lsh?: LSHOptions;
+
+  /**
+   * Texts embedded per provider call (default: 256)
+   */
+  batchSize?: number;
+}
+
+/**
+ * Unit-length vector keeping only its non-zero dimensions, in ascending order
+ */
+interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+/**
+ * Two-pass deduplication for web signals
  */
 export class Deduplicator {
-  private readonly similarityCalculator: SimilarityCalculator;
   private readonly qualityScorer: QualityScorer;
   private readonly similarityThreshold: number;
+  private readonly embeddingProvider: EmbeddingProvider;
+  private readonly lshOptions: LSHOptions;
+  private readonly batchSize: number;
 
   /**
    * Create a new deduplicator
    *
-   * @param similarityThreshold - Threshold for considering signals as duplicates (default: 0.85)
+   * @param options - Similarity threshold (default: 0.85) or deduplicator options
+   * @throws Error if the batch size is not a positive integer
    */
-  constructor(similarityThreshold: number = 0.85) {
-    this.similarityCalculator = new SimilarityCalculator();
+  constructor(options: number | DeduplicatorOptions = {}) {
+    const resolved = typeof options === 'number' ? { similarityThreshold: options } : options;
+
     this.qualityScorer = new QualityScorer();
-    this.similarityThreshold = similarityThreshold;
+    this.similarityThreshold = resolved.similarityThreshold ?? 0.85;
+    this.embeddingProvider = resolved.embeddingProvider ?? new HashingVectorizer();
+    this.lshOptions = resolved.lsh ?? {};
+    this.batchSize = resolved.batchSize ?? 256;
+
+    if (!Number.isInteger(this.batchSize) || this.batchSize <= 0) {
+      throw new Error('Batch size must be a positive integer');
+    }
   }
 
   /**
-   * Deduplicate signals using multi-pass strategy
+   * Deduplicate signals using two-pass strategy
    *
    * @param signals - Signals to deduplicate
    * @returns Deduplication result with unique signals and statistics
+   * @throws Error if the embedding provider returns the wrong number of vectors
    */
-  deduplicate(signals: WebSignal[]): DeduplicationResult {
+  async deduplicate(signals: WebSignal[]): Promise<DeduplicationResult> {
     if (signals.length === 0) {
       return {
         unique: [],
         duplicates: new Map(),
+        crossSource: new Map(),
         stats: {
           total: 0,
           unique: 0,
           duplicates: 0,
           dedupeRate: 0,
+          crossSource: 0,
         },
       };
     }
 
     // Pass 1: Exact match (fast)
-    const exactGroups = this.groupByExactContent(signals);
+    const exactGroups = [...this.groupByExactContent(signals).values()];
 
-    // Pass 2: High similarity (>90%)
-    const remaining = signals.filter((s) => !this.isInGroups(s, exactGroups));
-    const highSimGroups = this.groupBySimilarity(remaining, 0.9);
-
-    // Pass 3: Medium similarity (>threshold)
-    const remaining2 = remaining.filter((s) => !this.isInGroups(s, highSimGroups));
-    const mediumSimGroups = this.groupBySimilarity(remaining2, this.similarityThreshold);
-
-    // Merge all groups
-    const allGroups = this.mergeGroups([exactGroups, highSimGroups, mediumSimGroups]);
+    // Pass 2: Embedding similarity between the exact groups
+    const groups = await this.groupBySimilarity(exactGroups);
 
     // Select canonical from each group
     const uniqueSignals: WebSignal[] = [];
     const duplicateMap = new Map<string, WebSignal[]>();
+    const crossSourceMap = new Map<string, SourceType[]>();
 
-    for (const group of allGroups.values()) {
+    for (const group of groups) {
       const canonical = this.selectCanonical(group);
       uniqueSignals.push(canonical);
 
@@ -119,12 +174,18 @@ export class Deduplicator {
       if (duplicates.length > 0) {
         duplicateMap.set(canonical.id, duplicates);
       }
+
+      const sources = [...new Set(group.map((s) => s.source))];
+      if (sources.length > 1) {
+        crossSourceMap.set(canonical.id, sources);
+      }
     }
 
     return {
       unique: uniqueSignals,
       duplicates: duplicateMap,
-      stats: this.calculateStats(signals.length, uniqueSignals.length),
+      crossSource: crossSourceMap,
+      stats: this.calculateStats(signals.length, uniqueSignals.length, crossSourceMap.size),
     };
   }
 
@@ -152,47 +213,71 @@ export class Deduplicator {
   }
 
   /**
-   * Group signals by similarity threshold
+   * Merge groups whose first signals are similar
    *
-   * @param signals - Signals to group
-   * @param threshold - Similarity threshold (0-1)
-   * @returns Map of representative signal ID to group
+   * Each group not yet merged leads a new group and absorbs the unmerged LSH
+   * candidates whose similarity to it reaches the threshold.
+   *
+   * @param groups - Groups of identical signals
+   * @returns Merged groups, in order of their leaders
+   * @throws Error if the embedding provider returns the wrong number of vectors
    */
-  private groupBySimilarity(signals: WebSignal[], threshold: number): Map<string, WebSignal[]> {
-    const groups = new Map<string, WebSignal[]>();
-    const processed = new Set<string>();
-
-    for (let i = 0; i < signals.length; i++) {
-      const signal1 = signals[i];
-      if (signal1 === undefined || processed.has(signal1.id)) {
-        continue;
+  private async groupBySimilarity(groups: WebSignal[][]): Promise<WebSignal[][]> {
+    const index = new CosineLSH(this.lshOptions);
+    const vectors: SparseVector[] = [];
+    const groupOf: number[] = [];
+
+    for (let start = 0; start < groups.length; start += this.batchSize) {
+      const texts = groups.slice(start, start + this.batchSize).map((group) => group[0]!.content);
+      const embeddings = await this.embeddingProvider.embed(texts);
+      if (embeddings.length !== texts.length) {
+        throw new Error(
+          `Embedding provider returned ${embeddings.length} vectors for ${texts.length} texts`
+        );
       }
 
-      const group: WebSignal[] = [signal1];
-      processed.add(signal1.id);
-
-      // Find similar signals
-      for (let j = i + 1; j < signals.length; j++) {
-        const signal2 = signals[j];
-        if (signal2 === undefined || processed.has(signal2.id)) {
-          continue;
+      embeddings.forEach((embedding, offset) => {
+        // Texts without terms have nothing to compare, so they only match exactly
+        const vector = this.toSparse(embedding);
+        if (vector !== undefined) {
+          index.add(embedding);
+          vectors.push(vector);
+          groupOf.push(start + offset);
         }
+      });
+    }
 
-        const similarity = this.similarityCalculator.similarity(
-          signal1.content,
-          signal2.content
-        );
+    const merged = new Map<number, number[]>();
+    const absorbed = new Set<number>();
+    const assigned = new Uint8Array(vectors.length);
 
-        if (similarity >= threshold) {
-          group.push(signal2);
-          processed.add(signal2.id);
+    for (let id = 0; id < vectors.length; id++) {
+      if (assigned[id] === 1) {
+        continue;
+      }
+      assigned[id] = 1;
+
+      const members: number[] = [];
+      for (const other of index.candidates(id)) {
+        if (
+          assigned[other] === 0 &&
+          this.dot(vectors[id]!, vectors[other]!) >= this.similarityThreshold
+        ) {
+          assigned[other] = 1;
+          members.push(groupOf[other]!);
+          absorbed.add(groupOf[other]!);
         }
       }
-
-      groups.set(signal1.id, group);
+      if (members.length > 0) {
+        merged.set(groupOf[id]!, members);
+      }
     }
 
-    return groups;
+    return groups.flatMap((group, i) =>
+      absorbed.has(i)
+        ? []
+        : [[...group, ...(merged.get(i) ?? []).flatMap((member) => groups[member]!)]]
+    );
   }
 
   /**
@@ -224,40 +309,52 @@ export class Deduplicator {
   }
 
   /**
-   * Check if a signal is already in any of the groups
+   * Convert an embedding to a unit-length sparse vector
    *
-   * @param signal - Signal to check
-   * @param groups - Map of groups
-   * @returns True if signal is in any group
+   * @param embedding - Dense embedding
+   * @returns Sparse vector, or undefined for zero or invalid embeddings
    */
-  private isInGroups(signal: WebSignal, groups: Map<string, WebSignal[]>): boolean {
-    for (const group of groups.values()) {
-      if (group.some((s) => s.id === signal.id)) {
-        return true;
-      }
+  private toSparse(embedding: number[]): SparseVector | undefined {
+    const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0 || !Number.isFinite(norm)) {
+      return undefined;
     }
-    return false;
+
+    const vector: SparseVector = { indices: [], values: [] };
+    embedding.forEach((value, i) => {
+      if (value !== 0) {
+        vector.indices.push(i);
+        vector.values.push(value / norm);
+      }
+    });
+    return vector;
   }
 
   /**
-   * Merge multiple group maps
+   * Compute the dot product of two sparse vectors (their cosine similarity)
    *
-   * @param groupMaps - Array of group maps to merge
-   * @returns Merged group map
+   * @param v1 - First vector
+   * @param v2 - Second vector
+   * @returns Dot product
    */
-  private mergeGroups(groupMaps: Map<string, WebSignal[]>[]): Map<string, WebSignal[]> {
-    const merged = new Map<string, WebSignal[]>();
-    let counter = 0;
-
-    for (const groups of groupMaps) {
-      for (const group of groups.values()) {
-        if (group.length > 0) {
-          merged.set(`group-${counter++}`, group);
-        }
+  private dot(v1: SparseVector, v2: SparseVector): number {
+    let product = 0;
+    let i = 0;
+    let j = 0;
+
+    while (i < v1.indices.length && j < v2.indices.length) {
+      const index1 = v1.indices[i]!;
+      const index2 = v2.indices[j]!;
+      if (index1 === index2) {
+        product += v1.values[i++]! * v2.values[j++]!;
+      } else if (index1 < index2) {
+        i++;
+      } else {
+        j++;
       }
     }
 
-    return merged;
+    return product;
   }
 
   /**
@@ -275,17 +372,14 @@ export class Deduplicator {
    *
    * @param total - Total number of signals
    * @param unique - Number of unique signals
+   * @param crossSource - Number of groups spanning more than one source
    * @returns Statistics object
    */
   private calculateStats(
     total: number,
-    unique: number
-  ): {
-    total: number;
-    unique: number;
-    duplicates: number;
-    dedupeRate: number;
-  } {
+    unique: number,
+    crossSource: number
+  ): DeduplicationResult['stats'] {
     const duplicates = total - unique;
     const dedupeRate = total > 0 ? (duplicates / total) * 100 : 0;
 
@@ -294,6 +388,7 @@ export class Deduplicator {
       unique,
       duplicates,
       dedupeRate,
+      crossSource,
     };
   }
 }
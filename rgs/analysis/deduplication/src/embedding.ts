@@ -0,0 +1,149 @@
+/**
+ * RGS Analysis - Embedding Providers
+ *
+ * Embeddings map signal content to vectors whose cosine similarity measures
+ * how close two signals are in meaning. Providers are pluggable so a local
+ * model can replace the default hashing vectorizer, which needs no model
+ * files or network access.
+ */
+
+import { PorterStemmer, stopwords } from 'natural';
+
+/**
+ * Source of text embeddings
+ */
+export interface EmbeddingProvider {
+  /**
+   * Embed a batch of texts
+   *
+   * @param texts - Texts to embed
+   * @returns One vector per text, all of the same length
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Options for the hashing vectorizer
+ */
+export interface HashingVectorizerOptions {
+  /**
+   * Length of the vectors (default: 512)
+   */
+  dimensions?: number;
+
+  /**
+   * Weight of adjacent word pairs relative to single words (default: 0.5)
+   */
+  bigramWeight?: number;
+}
+
+/**
+ * Words ignored when vectorizing. Single characters other than the articles
+ * are kept so short labels and version numbers still tell signals apart.
+ */
+const STOPWORDS = new Set([...stopwords.filter((word) => word.length > 1), 'a', 'i']);
+
+/**
+ * Offline embedding provider using the hashing trick
+ *
+ * Stemmed words and adjacent word pairs are hashed into a fixed number of
+ * dimensions with a random sign, so inflections and reordered phrasing of the
+ * same complaint land close together without a vocabulary or model.
+ */
+export class HashingVectorizer implements EmbeddingProvider {
+  private readonly dimensions: number;
+  private readonly bigramWeight: number;
+
+  /**
+   * Create a new hashing vectorizer
+   *
+   * @param options - Vectorizer options
+   * @throws Error if the dimensions are not a positive integer or the bigram weight is negative
+   */
+  constructor(options: HashingVectorizerOptions = {}) {
+    this.dimensions = options.dimensions ?? 512;
+    this.bigramWeight = options.bigramWeight ?? 0.5;
+
+    if (!Number.isInteger(this.dimensions) || this.dimensions <= 0) {
+      throw new Error('Dimensions must be a positive integer');
+    }
+    if (this.bigramWeight < 0) {
+      throw new Error('Bigram weight must not be negative');
+    }
+  }
+
+  /**
+   * Embed a batch of texts
+   *
+   * @param texts - Texts to embed
+   * @returns One L2-normalized vector per text (all zeros for texts without terms)
+   */
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.vectorize(text)));
+  }
+
+  /**
+   * Vectorize a single text
+   *
+   * @param text - Text to vectorize
+   * @returns L2-normalized vector
+   */
+  vectorize(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const terms = this.tokenize(text);
+
+    for (let i = 0; i < terms.length; i++) {
+      this.addFeature(vector, terms[i]!, 1);
+      if (i > 0 && this.bigramWeight > 0) {
+        this.addFeature(vector, `${terms[i - 1]!} ${terms[i]!}`, this.bigramWeight);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  /**
+   * Add a hashed feature to a vector
+   *
+   * @param vector - Vector to update
+   * @param feature - Feature to hash
+   * @param weight - Feature weight
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = this.hash(feature);
+    const index = hash % this.dimensions;
+    // The top bit picks the sign so colliding features cancel out on average
+    const sign = hash >= 0x80000000 ? -1 : 1;
+    vector[index] = vector[index]! + sign * weight;
+  }
+
+  /**
+   * Split text into stemmed terms
+   *
+   * @param text - Text to tokenize
+   * @returns Stemmed terms without stopwords, in order
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 0 && !STOPWORDS.has(word))
+      .map((word) => PorterStemmer.stem(word));
+  }
+
+  /**
+   * Hash a string with 32-bit FNV-1a
+   *
+   * @param value - String to hash
+   * @returns Unsigned 32-bit hash
+   */
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
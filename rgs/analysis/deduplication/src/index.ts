@@ -6,7 +6,9 @@
  * @packageDocumentation
  */
 
-export { Deduplicator, DeduplicationResult } from './deduplicator';
+export { Deduplicator, DeduplicationResult, DeduplicatorOptions } from './deduplicator';
+export { EmbeddingProvider, HashingVectorizer, HashingVectorizerOptions } from './embedding';
+export { CosineLSH, LSHOptions } from './lsh';
 export { SimilarityCalculator } from './similarity';
 export { QualityScorer, QualityScore } from './quality';
 export { SignalFilter } from './filters';
@@ -0,0 +1,189 @@
+/**
+ * RGS Analysis - Cosine LSH Index
+ *
+ * Locality-sensitive hashing with random hyperplanes: each vector gets one
+ * sign bit per hyperplane, and the bits are split into bands. Vectors sharing
+ * all bits of any band land in the same bucket and become candidate pairs,
+ * so only candidates need an exact similarity check instead of all pairs.
+ *
+ * Two vectors with cosine similarity s share a bit with probability
+ * 1 - acos(s) / PI, so more rows per band cut unrelated candidates and more
+ * bands recover the similar pairs a single band misses.
+ */
+
+/**
+ * Options for the LSH index
+ */
+export interface LSHOptions {
+  /**
+   * Number of bands (default: 32)
+   */
+  bands?: number;
+
+  /**
+   * Hyperplanes per band, at most 30 (default: 12)
+   */
+  rows?: number;
+
+  /**
+   * Seed of the random hyperplanes (default: 42)
+   */
+  seed?: number;
+}
+
+/**
+ * Random hyperplane LSH index over dense vectors
+ */
+export class CosineLSH {
+  private readonly bands: number;
+  private readonly rows: number;
+  private readonly seed: number;
+  private readonly tables: Map<number, number[]>[];
+  private readonly keys: number[][] = [];
+  private dimensions = 0;
+
+  /**
+   * Hyperplane components, stored dimension-major so sparse vectors only
+   * touch the rows of their non-zero dimensions
+   */
+  private planes: Float64Array = new Float64Array(0);
+
+  /**
+   * Create a new LSH index
+   *
+   * @param options - Index options
+   * @throws Error if bands or rows are out of range
+   */
+  constructor(options: LSHOptions = {}) {
+    this.bands = options.bands ?? 32;
+    this.rows = options.rows ?? 12;
+    this.seed = options.seed ?? 42;
+
+    if (!Number.isInteger(this.bands) || this.bands <= 0) {
+      throw new Error('Bands must be a positive integer');
+    }
+    if (!Number.isInteger(this.rows) || this.rows <= 0 || this.rows > 30) {
+      throw new Error('Rows must be an integer between 1 and 30');
+    }
+    this.tables = Array.from({ length: this.bands }, () => new Map<number, number[]>());
+  }
+
+  /**
+   * Number of indexed vectors
+   */
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Add a vector to the index
+   *
+   * @param vector - Vector to add (all vectors must have the same length)
+   * @returns Position of the vector in the index
+   * @throws Error if the vector length differs from earlier vectors
+   */
+  add(vector: number[]): number {
+    if (this.keys.length === 0) {
+      this.createPlanes(vector.length);
+    } else if (vector.length !== this.dimensions) {
+      throw new Error(`Expected a vector of length ${this.dimensions}, got ${vector.length}`);
+    }
+
+    const id = this.keys.length;
+    const keys = this.bandKeys(vector);
+    this.keys.push(keys);
+
+    keys.forEach((key, band) => {
+      const table = this.tables[band]!;
+      const bucket = table.get(key);
+      if (bucket !== undefined) {
+        bucket.push(id);
+      } else {
+        table.set(key, [id]);
+      }
+    });
+
+    return id;
+  }
+
+  /**
+   * Find vectors sharing a bucket with an indexed vector
+   *
+   * @param id - Position of the vector in the index
+   * @returns Positions of the candidates in ascending order, excluding the vector itself
+   */
+  candidates(id: number): number[] {
+    const keys = this.keys[id];
+    if (keys === undefined) {
+      return [];
+    }
+
+    const found = new Set<number>();
+    keys.forEach((key, band) => {
+      for (const other of this.tables[band]!.get(key) ?? []) {
+        if (other !== id) {
+          found.add(other);
+        }
+      }
+    });
+
+    return [...found].sort((a, b) => a - b);
+  }
+
+  /**
+   * Compute the bucket key of each band
+   *
+   * @param vector - Vector to hash
+   * @returns One key per band
+   */
+  private bandKeys(vector: number[]): number[] {
+    const planeCount = this.bands * this.rows;
+    const projections = new Float64Array(planeCount);
+
+    for (let d = 0; d < vector.length; d++) {
+      const value = vector[d]!;
+      if (value === 0) {
+        continue;
+      }
+      const offset = d * planeCount;
+      for (let p = 0; p < planeCount; p++) {
+        projections[p] = projections[p]! + value * this.planes[offset + p]!;
+      }
+    }
+
+    const keys: number[] = [];
+    for (let band = 0; band < this.bands; band++) {
+      let key = 0;
+      for (let row = 0; row < this.rows; row++) {
+        key = key * 2 + (projections[band * this.rows + row]! >= 0 ? 1 : 0);
+      }
+      keys.push(key);
+    }
+    return keys;
+  }
+
+  /**
+   * Draw Gaussian hyperplanes from a seeded generator
+   *
+   * @param dimensions - Vector length
+   */
+  private createPlanes(dimensions: number): void {
+    this.dimensions = dimensions;
+    this.planes = new Float64Array(dimensions * this.bands * this.rows);
+
+    // Mulberry32 with Box-Muller, so the same seed always yields the same buckets
+    let state = this.seed >>> 0;
+    const random = (): number => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    for (let i = 0; i < this.planes.length; i++) {
+      const u = 1 - random();
+      this.planes[i] = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+    }
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Tests for lexicon sentiment analyzer
+ */
+
+import { LexiconSentimentAnalyzer, toSentimentResult } from '../src/lexicon-analyzer';
+import { SentimentScale } from '../src/scales';
+import { EMOTION_LABELS, EmotionCategory } from '../src/emotions';
+import { EnhancedSentimentSchema } from '../src/types';
+import { VALID_EMOTIONS } from '@rgs/analysis-sentiment/emotions';
+import { ValidationError } from '@rgs/utils/errors';
+
+describe('LexiconSentimentAnalyzer', () => {
+  let analyzer: LexiconSentimentAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new LexiconSentimentAnalyzer();
+  });
+
+  describe('constructor', () => {
+    it('should reject valences outside -1 to 1', () => {
+      expect(() => new LexiconSentimentAnalyzer({ lexicon: { meh: -2 } })).toThrow(
+        'Invalid valence for "meh"'
+      );
+    });
+
+    it('should let custom terms override the built-in lexicon', () => {
+      const custom = new LexiconSentimentAnalyzer({ lexicon: { verbose: 0.5, vibes: 0.6 } });
+
+      expect(custom.score('The logging is verbose').score).toBeGreaterThan(0);
+      expect(custom.score('Great vibes').score).toBeGreaterThan(
+        analyzer.score('Great vibes').score
+      );
+    });
+  });
+
+  describe('score', () => {
+    it('should score positive and negative feedback', () => {
+      expect(analyzer.score('I love this editor, it is amazing').scale).toBe(
+        SentimentScale.VeryPositive
+      );
+      expect(analyzer.score('The extension is buggy and crashes constantly').scale).toBe(
+        SentimentScale.VeryNegative
+      );
+    });
+
+    it('should score text without known terms as neutral with low confidence', () => {
+      const result = analyzer.score('How do I configure the proxy settings');
+
+      expect(result.scale).toBe(SentimentScale.Neutral);
+      expect(result.score).toBe(0);
+      expect(result.magnitude).toBe(0);
+      expect(result.confidence).toBeLessThan(0.5);
+      expect(result.reasoning).toBe('No sentiment terms found');
+    });
+
+    it('should understand developer vocabulary', () => {
+      expect(analyzer.score('Indexing is sluggish and flaky').score).toBeLessThan(-0.5);
+      expect(analyzer.score('Startup is snappy and the API is ergonomic').score).toBeGreaterThan(
+        0.5
+      );
+    });
+
+    it('should flip negated terms', () => {
+      const fast = analyzer.score('The build is fast');
+      const notFast = analyzer.score('The build is not fast');
+      const neverCrashes = analyzer.score("It doesn't ever crash");
+
+      expect(fast.score).toBeGreaterThan(0);
+      expect(notFast.score).toBeLessThan(0);
+      expect(Math.abs(notFast.score)).toBeLessThan(fast.score);
+      expect(neverCrashes.score).toBeGreaterThan(0);
+      expect(notFast.reasoning).toContain('not fast');
+    });
+
+    it('should end negation at clause boundaries', () => {
+      expect(analyzer.score('Not sure why, but it is great').score).toBeGreaterThan(0);
+    });
+
+    it('should strengthen and soften terms with intensifiers', () => {
+      const slow = analyzer.score('It is slow').score;
+
+      expect(analyzer.score('It is really slow').score).toBeLessThan(slow);
+      expect(analyzer.score('It is slightly slow').score).toBeGreaterThan(slow);
+    });
+
+    it('should match multi-word expressions', () => {
+      const result = analyzer.score('Honestly it just works');
+
+      expect(result.score).toBeGreaterThan(0.5);
+      expect(result.reasoning).toContain('just works');
+      expect(analyzer.score('Not a game changer').score).toBeLessThan(0);
+    });
+
+    it('should weight the clause after a contrast word', () => {
+      expect(analyzer.score('The docs are great, but the CLI is buggy').score).toBeLessThan(0);
+      expect(analyzer.score('The CLI is buggy, but the docs are great').score).toBeGreaterThan(0);
+    });
+
+    it('should amplify capitals and exclamation marks', () => {
+      const plain = analyzer.score('This is broken').score;
+
+      expect(analyzer.score('This is BROKEN').score).toBeLessThan(plain);
+      expect(analyzer.score('This is broken!!!').score).toBeLessThan(plain);
+      expect(analyzer.score('THIS IS BROKEN').score).toBe(plain);
+    });
+
+    it('should lower confidence for mixed signals', () => {
+      const clear = analyzer.score('Fast, stable and reliable');
+      const mixed = analyzer.score('Fast, unstable and unreliable');
+
+      expect(clear.confidence).toBeGreaterThan(mixed.confidence);
+      expect(clear.confidence).toBeGreaterThanOrEqual(0.6);
+    });
+
+    it('should detect emotions from cues', () => {
+      const result = analyzer.score('So frustrating, and honestly a bit confusing too');
+      const labels = result.emotions.map((emotion) => emotion.label);
+
+      expect(labels).toEqual(expect.arrayContaining(['frustrated', 'confused']));
+    });
+
+    it('should ignore negated emotion cues', () => {
+      const result = analyzer.score('I am not impressed');
+
+      expect(result.emotions.map((emotion) => emotion.label)).not.toContain('impressed');
+    });
+
+    it('should fall back to an emotion implied by the score', () => {
+      expect(analyzer.score('The build is broken').emotions[0]?.label).toBe('frustrated');
+      expect(analyzer.score('Where is the settings file').emotions[0]?.label).toBe('indifferent');
+      expect(analyzer.score('It is fine').emotions[0]?.category).toBe(
+        EmotionCategory.NeutralPositive
+      );
+    });
+
+    it('should produce results matching the enhanced sentiment schema', () => {
+      const texts = [
+        'I love it! Thank you so much, this is a lifesaver and I am excited and impressed',
+        'Meh',
+        'Crashes, hangs, leaks memory. Unusable.'
+      ];
+
+      for (const text of texts) {
+        const result = analyzer.score(text);
+        expect(EnhancedSentimentSchema.safeParse(result).success).toBe(true);
+        expect(result.emotions.every((emotion) => EMOTION_LABELS.includes(emotion.label))).toBe(
+          true
+        );
+      }
+    });
+
+    it('should be deterministic', () => {
+      const text = 'The new release is faster, but the debugger still hangs';
+
+      expect(analyzer.score(text)).toEqual(new LexiconSentimentAnalyzer().score(text));
+    });
+  });
+
+  describe('analyze', () => {
+    it('should resolve to the score of the content', async () => {
+      const text = 'Really intuitive API';
+
+      await expect(analyzer.analyze(text)).resolves.toEqual(analyzer.score(text));
+    });
+
+    it('should reject empty content', async () => {
+      await expect(analyzer.analyze('   ')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('analyzeBatch', () => {
+    it('should analyze every content in order', async () => {
+      const results = await analyzer.analyzeBatch(['Great tool', 'Terrible docs']);
+
+      expect(results.map((result) => Math.sign(result.score))).toEqual([1, -1]);
+    });
+  });
+
+  describe('prefilter', () => {
+    it('should keep confident results and leave the rest undefined', () => {
+      const results = analyzer.prefilter([
+        'Fast, stable and reliable',
+        'How do I configure the proxy settings'
+      ]);
+
+      expect(results[0]?.scale).toBe(SentimentScale.VeryPositive);
+      expect(results[1]).toBeUndefined();
+    });
+
+    it('should honor the confidence threshold', () => {
+      expect(analyzer.prefilter(['Good'], 0.1)[0]).toBeDefined();
+      expect(analyzer.prefilter(['Good'], 0.99)[0]).toBeUndefined();
+      expect(new LexiconSentimentAnalyzer({ minConfidence: 0 }).prefilter(['Hi'])[0]).toBeDefined();
+    });
+  });
+});
+
+describe('toSentimentResult', () => {
+  it('should map to the basic sentiment shape and emotion taxonomy', () => {
+    const analyzer = new LexiconSentimentAnalyzer();
+    const enhanced = analyzer.score('Annoying and janky, I am skeptical of the hype');
+    const basic = toSentimentResult(enhanced);
+
+    expect(basic).toEqual({
+      score: enhanced.score,
+      magnitude: enhanced.magnitude,
+      emotions: expect.any(Array),
+      confidence: enhanced.confidence,
+      reasoning: enhanced.reasoning
+    });
+    expect(basic.emotions.length).toBeGreaterThan(0);
+    expect(basic.emotions.every((emotion) => VALID_EMOTIONS.includes(emotion))).toBe(true);
+    expect(basic.emotions).toEqual(expect.arrayContaining(['frustrated', 'confused']));
+  });
+
+  it('should not repeat emotions that map to the same basic label', () => {
+    const basic = toSentimentResult({
+      scale: SentimentScale.VeryPositive,
+      score: 1,
+      magnitude: 0.9,
+      emotions: [
+        { label: 'excited', intensity: 0.9 },
+        { label: 'impressed', intensity: 0.8 }
+      ],
+      confidence: 0.9,
+      reasoning: 'test'
+    });
+
+    expect(basic.emotions).toEqual(['excited']);
+  });
+});
@@ -29,6 +29,7 @@ module.exports = {
   moduleNameMapper: {
     '^@rgs/core/(.*)$': '<rootDir>/../../core/src/$1',
     '^@rgs/storage/(.*)$': '<rootDir>/../../storage/src/$1',
-    '^@rgs/utils/(.*)$': '<rootDir>/../../utils/src/$1'
+    '^@rgs/utils/(.*)$': '<rootDir>/../../utils/src/$1',
+    '^@rgs/analysis-sentiment/(.*)$': '<rootDir>/../sentiment/src/$1'
   }
 };
@@ -9,6 +9,11 @@
 export { EnhancedSentimentAnalyzer, AnalyzerConfig } from './analyzer';
 export { SentimentAggregator } from './aggregator';
 export { SentimentCache } from './cache';
+export {
+  LexiconSentimentAnalyzer,
+  LexiconAnalyzerConfig,
+  toSentimentResult
+} from './lexicon-analyzer';
 
 // Types and schemas
 export {
@@ -42,5 +47,16 @@ export {
   getTopEmotions
 } from './emotions';
 
+// Lexicon
+export {
+  GENERAL_LEXICON,
+  DEVELOPER_LEXICON,
+  PHRASE_LEXICON,
+  NEGATIONS,
+  INTENSIFIERS,
+  CONTRAST_WORDS,
+  EMOTION_CUES
+} from './lexicon';
+
 // Prompts
 export { ENHANCED_SENTIMENT_PROMPT, formatPrompt } from './prompts';
@@ -0,0 +1,426 @@
+/**
+ * Lexicon Sentiment Analyzer
+ * Deterministic offline sentiment analysis using word valences and rules
+ */
+
+import type { SentimentResult } from '@rgs/analysis-sentiment/cache';
+import type { Emotion } from '@rgs/analysis-sentiment/emotions';
+import { ValidationError } from '@rgs/utils/errors';
+import { EnhancedSentiment } from './types';
+import { scoreToScale } from './scales';
+import { EmotionLabel, EmotionScore, createEmotionScore, getTopEmotions } from './emotions';
+import {
+  GENERAL_LEXICON,
+  DEVELOPER_LEXICON,
+  PHRASE_LEXICON,
+  NEGATIONS,
+  INTENSIFIERS,
+  CONTRAST_WORDS,
+  EMOTION_CUES
+} from './lexicon';
+
+/**
+ * Configuration for LexiconSentimentAnalyzer
+ */
+export interface LexiconAnalyzerConfig {
+  /** Additional word or phrase valences (-1 to +1), overriding the built-in ones */
+  lexicon?: Readonly<Record<string, number>>;
+
+  /** Minimum confidence for prefilter to accept a result (default: 0.6) */
+  minConfidence?: number;
+}
+
+/**
+ * Sentiment-bearing term found in the text
+ */
+interface MatchedTerm {
+  /** Term as it appeared, including any negation */
+  text: string;
+
+  /** Valence after negation, intensifiers and emphasis */
+  value: number;
+}
+
+/**
+ * Factor applied to the valence of negated terms
+ */
+const NEGATION_FACTOR = -0.74;
+
+/**
+ * Number of words after a negation that it applies to
+ */
+const NEGATION_SCOPE = 3;
+
+/**
+ * Boost for words written in capitals in otherwise mixed-case text
+ */
+const EMPHASIS_BOOST = 0.2;
+
+/**
+ * Boost per exclamation mark, for up to three marks
+ */
+const EXCLAMATION_BOOST = 0.1;
+
+/**
+ * Normalization constant: larger values need more evidence to approach ±1
+ */
+const NORMALIZATION_ALPHA = 1;
+
+/**
+ * Longest phrase in the phrase lexicon, in words
+ */
+const MAX_PHRASE_WORDS = 4;
+
+/**
+ * Closest label in the basic 12-emotion taxonomy for each enhanced label
+ */
+const BASIC_EMOTIONS: Record<EmotionLabel, Emotion> = {
+  frustrated: 'frustrated',
+  angry: 'angry',
+  disappointed: 'disappointed',
+  annoyed: 'frustrated',
+  confused: 'confused',
+  overwhelmed: 'overwhelmed',
+  anxious: 'anxious',
+  skeptical: 'confused',
+  indifferent: 'interested',
+  curious: 'curious',
+  uncertain: 'confused',
+  hopeful: 'hopeful',
+  interested: 'interested',
+  satisfied: 'interested',
+  excited: 'excited',
+  delighted: 'delighted',
+  grateful: 'grateful',
+  impressed: 'excited'
+};
+
+/**
+ * Offline sentiment analyzer for developer feedback
+ *
+ * Scores text from a general and a developer-specific lexicon, with rules for
+ * negation ("not fast"), intensifiers ("really slow"), contrast ("nice, but
+ * buggy"), capitals and exclamation marks. Results use the same shape as
+ * EnhancedSentimentAnalyzer, so it can replace it when no API key is
+ * available, or screen texts before sending the uncertain ones to Claude.
+ */
+export class LexiconSentimentAnalyzer {
+  private readonly lexicon: ReadonlyMap<string, number>;
+  private readonly minConfidence: number;
+
+  /**
+   * Creates a new LexiconSentimentAnalyzer
+   *
+   * @param config - Analyzer configuration
+   */
+  constructor(config: LexiconAnalyzerConfig = {}) {
+    const lexicon = {
+      ...GENERAL_LEXICON,
+      ...DEVELOPER_LEXICON,
+      ...PHRASE_LEXICON,
+      ...config.lexicon
+    };
+    for (const [term, value] of Object.entries(lexicon)) {
+      if (value < -1 || value > 1) {
+        throw new Error(`Invalid valence for "${term}": ${value}. Must be between -1 and 1.`);
+      }
+    }
+
+    this.lexicon = new Map(
+      Object.entries(lexicon).map(([term, value]) => [term.toLowerCase(), value])
+    );
+    this.minConfidence = config.minConfidence ?? 0.6;
+  }
+
+  /**
+   * Analyzes sentiment of given content
+   *
+   * @param content - Text content to analyze
+   * @returns Enhanced sentiment analysis
+   */
+  analyze(content: string): Promise<EnhancedSentiment> {
+    if (content === undefined || content.trim().length === 0) {
+      return Promise.reject(new ValidationError('Content cannot be empty', 'sentiment-analyzer'));
+    }
+
+    return Promise.resolve(this.score(content));
+  }
+
+  /**
+   * Analyzes sentiment for multiple content items
+   *
+   * @param contents - Array of content to analyze
+   * @returns Array of sentiment analyses, in the order of `contents`
+   */
+  analyzeBatch(contents: string[]): Promise<EnhancedSentiment[]> {
+    return Promise.resolve(contents.map((content) => this.score(content)));
+  }
+
+  /**
+   * Scores content synchronously
+   *
+   * Text without any known terms scores as neutral with low confidence.
+   *
+   * @param content - Text content to analyze
+   * @returns Enhanced sentiment analysis
+   */
+  score(content: string): EnhancedSentiment {
+    const { terms, emotions } = this.match(content);
+
+    const exclamations = Math.min((content.match(/!/g) ?? []).length, 3);
+    const sum =
+      terms.reduce((acc, term) => acc + term.value, 0) * (1 + exclamations * EXCLAMATION_BOOST);
+    const sumAbs = terms.reduce((acc, term) => acc + Math.abs(term.value), 0);
+
+    const score = round(normalize(sum));
+    const magnitude = round(normalize(sumAbs));
+    const confidence = round(
+      this.calculateConfidence(terms.length, sumAbs > 0 ? Math.abs(sum) / sumAbs : 1)
+    );
+
+    return {
+      scale: scoreToScale(score),
+      score,
+      magnitude,
+      emotions: this.scoreEmotions(emotions, score, magnitude),
+      confidence,
+      reasoning: this.describe(terms)
+    };
+  }
+
+  /**
+   * Scores contents and keeps only the confident results
+   *
+   * Use this to avoid LLM calls for clear-cut texts: analyze only the
+   * contents whose entry is undefined with a more capable analyzer.
+   *
+   * @param contents - Array of content to analyze
+   * @param minConfidence - Minimum confidence to accept (default: configured minConfidence)
+   * @returns Sentiment for each confident content, undefined for the rest
+   */
+  prefilter(
+    contents: string[],
+    minConfidence: number = this.minConfidence
+  ): Array<EnhancedSentiment | undefined> {
+    return contents.map((content) => {
+      const sentiment = this.score(content);
+      return sentiment.confidence >= minConfidence ? sentiment : undefined;
+    });
+  }
+
+  /**
+   * Finds sentiment terms and emotion cues, sentence by sentence
+   */
+  private match(content: string): { terms: MatchedTerm[]; emotions: Map<EmotionLabel, number> } {
+    const terms: MatchedTerm[] = [];
+    const emotions = new Map<EmotionLabel, number>();
+    const shouting = content === content.toUpperCase();
+
+    for (const sentence of content.split(/[.!?\n]+/)) {
+      const words = sentence.replace(/’/g, "'").match(/[A-Za-z0-9][A-Za-z0-9'-]*|[,;:]/g) ?? [];
+      const lower = words.map((word) => word.toLowerCase());
+
+      // Words after the last contrast word count more than those before it
+      const contrastAt = lower.reduce((last, word, i) => (CONTRAST_WORDS.has(word) ? i : last), -1);
+
+      let negation: string | undefined;
+      let negationLeft = 0;
+      let boost = 0;
+
+      for (let i = 0; i < lower.length; i++) {
+        const word = lower[i] ?? '';
+
+        if (/^[,;:]$/.test(word)) {
+          negationLeft = 0;
+          boost = 0;
+          continue;
+        }
+
+        const phrase = this.matchPhrase(lower, i);
+        if (phrase === undefined && NEGATIONS.has(word)) {
+          negation = word;
+          negationLeft = NEGATION_SCOPE;
+          continue;
+        }
+
+        if (phrase === undefined && INTENSIFIERS[word] !== undefined) {
+          boost += INTENSIFIERS[word] ?? 0;
+          continue;
+        }
+
+        const negated = negationLeft > 0;
+        negationLeft = Math.max(0, negationLeft - (phrase?.length ?? 1));
+
+        const cue = findEmotionCue(word);
+        if (cue !== undefined && !negated) {
+          emotions.set(cue, (emotions.get(cue) ?? 0) + 1 + Math.max(boost, 0));
+        }
+
+        const term = phrase?.text ?? word;
+        const valence = phrase?.value ?? this.lexicon.get(word);
+        if (valence === undefined) {
+          boost = 0;
+          continue;
+        }
+
+        const original = words.slice(i, i + (phrase?.length ?? 1)).join(' ');
+        const emphasized =
+          !shouting &&
+          original.length > 1 &&
+          original === original.toUpperCase() &&
+          /[A-Z]/.test(original);
+
+        let value = valence * (1 + boost);
+        if (emphasized) {
+          value *= 1 + EMPHASIS_BOOST;
+        }
+        if (negated) {
+          value *= NEGATION_FACTOR;
+        }
+        if (contrastAt >= 0) {
+          value *= i > contrastAt ? 1.5 : 0.5;
+        }
+
+        terms.push({
+          text: negated && negation !== undefined ? `${negation} ${term}` : term,
+          value
+        });
+        boost = 0;
+        i += (phrase?.length ?? 1) - 1;
+      }
+    }
+
+    return { terms, emotions };
+  }
+
+  /**
+   * Finds the longest lexicon phrase starting at a word
+   */
+  private matchPhrase(
+    words: string[],
+    start: number
+  ): { text: string; value: number; length: number } | undefined {
+    for (let length = MAX_PHRASE_WORDS; length >= 2; length--) {
+      if (start + length > words.length) {
+        continue;
+      }
+      const text = words.slice(start, start + length).join(' ');
+      const value = this.lexicon.get(text);
+      if (value !== undefined) {
+        return { text, value, length };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Calculates confidence from the number of terms and how much they agree
+   *
+   * @param hits - Number of sentiment terms found
+   * @param agreement - Net valence over total valence (1 = all terms agree)
+   */
+  private calculateConfidence(hits: number, agreement: number): number {
+    if (hits === 0) {
+      return 0.2;
+    }
+
+    const coverage = Math.min(0.35 + 0.15 * Math.min(hits, 4), 0.95);
+    return coverage * (0.5 + 0.5 * agreement);
+  }
+
+  /**
+   * Builds up to three emotions from cues, falling back to one implied by the score
+   */
+  private scoreEmotions(
+    cues: Map<EmotionLabel, number>,
+    score: number,
+    magnitude: number
+  ): EmotionScore[] {
+    const emotions = Array.from(cues, ([label, weight]) =>
+      createEmotionScore(label, round(Math.min(0.3 + 0.2 * weight + 0.3 * magnitude, 1)))
+    );
+
+    if (emotions.length === 0) {
+      emotions.push(createEmotionScore(defaultEmotion(score), round(Math.max(magnitude, 0.3))));
+    }
+
+    return getTopEmotions(emotions, 3);
+  }
+
+  /**
+   * Describes the strongest terms behind a score
+   */
+  private describe(terms: MatchedTerm[]): string {
+    if (terms.length === 0) {
+      return 'No sentiment terms found';
+    }
+
+    const strongest = [...terms]
+      .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+      .slice(0, 5)
+      .map((term) => `${term.text} (${term.value >= 0 ? '+' : ''}${term.value.toFixed(2)})`);
+
+    return `Lexicon terms: ${strongest.join(', ')}`;
+  }
+}
+
+/**
+ * Converts an enhanced sentiment to the basic SentimentResult shape
+ *
+ * Emotions are mapped to the closest label of the basic taxonomy.
+ *
+ * @param sentiment - Enhanced sentiment analysis
+ * @returns Basic sentiment result
+ */
+export function toSentimentResult(sentiment: EnhancedSentiment): SentimentResult {
+  return {
+    score: sentiment.score,
+    magnitude: sentiment.magnitude,
+    emotions: [...new Set(sentiment.emotions.map((emotion) => BASIC_EMOTIONS[emotion.label]))],
+    confidence: sentiment.confidence,
+    reasoning: sentiment.reasoning
+  };
+}
+
+/**
+ * Finds the emotion a word is a cue for
+ */
+function findEmotionCue(word: string): EmotionLabel | undefined {
+  for (const [cue, label] of EMOTION_CUES) {
+    if (word === cue || (cue.length >= 5 && word.startsWith(cue))) {
+      return label;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Emotion implied by a score when the text has no emotion cues
+ */
+function defaultEmotion(score: number): EmotionLabel {
+  if (score <= -0.5) {
+    return 'frustrated';
+  } else if (score < -0.1) {
+    return 'annoyed';
+  } else if (score <= 0.1) {
+    return 'indifferent';
+  } else if (score < 0.5) {
+    return 'satisfied';
+  } else {
+    return 'delighted';
+  }
+}
+
+/**
+ * Squashes an unbounded sum into (-1, 1)
+ */
+function normalize(sum: number): number {
+  return sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+}
+
+/**
+ * Rounds to three decimals so results are stable across platforms
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
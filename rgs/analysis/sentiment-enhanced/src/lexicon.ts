@@ -0,0 +1,351 @@
+/**
+ * Sentiment Lexicon
+ * Word valences, modifiers and emotion cues for offline sentiment analysis
+ */
+
+import { EmotionLabel } from './emotions';
+
+/**
+ * General-purpose word valences (-1 to +1)
+ */
+export const GENERAL_LEXICON: Readonly<Record<string, number>> = {
+  // Positive
+  good: 0.5,
+  great: 0.7,
+  excellent: 0.8,
+  amazing: 0.8,
+  awesome: 0.8,
+  fantastic: 0.8,
+  wonderful: 0.8,
+  brilliant: 0.8,
+  perfect: 0.8,
+  love: 0.8,
+  loved: 0.8,
+  loving: 0.7,
+  like: 0.3,
+  likes: 0.3,
+  liked: 0.3,
+  enjoy: 0.6,
+  enjoying: 0.6,
+  nice: 0.5,
+  happy: 0.6,
+  glad: 0.5,
+  best: 0.7,
+  better: 0.4,
+  cool: 0.4,
+  helpful: 0.5,
+  useful: 0.5,
+  easy: 0.5,
+  easier: 0.4,
+  simple: 0.3,
+  clean: 0.4,
+  solid: 0.4,
+  impressive: 0.7,
+  impressed: 0.7,
+  recommend: 0.5,
+  thanks: 0.4,
+  thank: 0.4,
+  grateful: 0.6,
+  appreciate: 0.5,
+  excited: 0.6,
+  exciting: 0.6,
+  delighted: 0.8,
+  hope: 0.2,
+  hopeful: 0.3,
+  interesting: 0.3,
+  fine: 0.2,
+  works: 0.2,
+  worth: 0.3,
+  win: 0.5,
+
+  // Negative
+  bad: -0.5,
+  terrible: -0.8,
+  awful: -0.8,
+  horrible: -0.8,
+  worst: -0.8,
+  worse: -0.5,
+  hate: -0.8,
+  hated: -0.8,
+  dislike: -0.5,
+  annoying: -0.6,
+  annoyed: -0.6,
+  frustrating: -0.7,
+  frustrated: -0.7,
+  frustration: -0.6,
+  angry: -0.7,
+  furious: -0.9,
+  disappointed: -0.6,
+  disappointing: -0.6,
+  confusing: -0.5,
+  confused: -0.4,
+  unclear: -0.3,
+  hard: -0.3,
+  difficult: -0.4,
+  painful: -0.6,
+  pain: -0.5,
+  problem: -0.3,
+  problems: -0.3,
+  issue: -0.2,
+  issues: -0.2,
+  fail: -0.5,
+  fails: -0.5,
+  failed: -0.5,
+  failing: -0.5,
+  failure: -0.5,
+  error: -0.3,
+  errors: -0.3,
+  wrong: -0.4,
+  useless: -0.7,
+  waste: -0.6,
+  ugly: -0.5,
+  mess: -0.5,
+  messy: -0.5,
+  sucks: -0.7,
+  worried: -0.4,
+  anxious: -0.4,
+  overwhelmed: -0.5,
+  overwhelming: -0.5,
+  sad: -0.5,
+  missing: -0.3,
+  lacks: -0.3,
+  lacking: -0.3
+};
+
+/**
+ * Developer-specific word valences (-1 to +1)
+ *
+ * Words that are neutral in everyday English but carry sentiment in developer
+ * feedback, plus general words whose valence differs in this context
+ */
+export const DEVELOPER_LEXICON: Readonly<Record<string, number>> = {
+  // Positive
+  fast: 0.5,
+  faster: 0.5,
+  snappy: 0.6,
+  blazing: 0.7,
+  lightweight: 0.4,
+  responsive: 0.4,
+  stable: 0.4,
+  reliable: 0.5,
+  robust: 0.5,
+  intuitive: 0.6,
+  ergonomic: 0.5,
+  seamless: 0.6,
+  seamlessly: 0.6,
+  smooth: 0.5,
+  polished: 0.5,
+  painless: 0.5,
+  elegant: 0.6,
+  productive: 0.5,
+  documented: 0.3,
+  lifesaver: 0.8,
+  underrated: 0.4,
+
+  // Negative
+  slow: -0.5,
+  slower: -0.5,
+  sluggish: -0.6,
+  laggy: -0.6,
+  lag: -0.5,
+  bloated: -0.6,
+  clunky: -0.5,
+  janky: -0.6,
+  buggy: -0.7,
+  bug: -0.4,
+  bugs: -0.4,
+  flaky: -0.6,
+  broken: -0.7,
+  breaks: -0.5,
+  crash: -0.7,
+  crashes: -0.7,
+  crashed: -0.7,
+  crashing: -0.7,
+  segfault: -0.7,
+  freeze: -0.6,
+  freezes: -0.6,
+  frozen: -0.5,
+  hang: -0.5,
+  hangs: -0.5,
+  leak: -0.5,
+  leaks: -0.5,
+  regression: -0.6,
+  unusable: -0.9,
+  unstable: -0.6,
+  unreliable: -0.6,
+  deprecated: -0.3,
+  outdated: -0.4,
+  undocumented: -0.5,
+  verbose: -0.3,
+  boilerplate: -0.3,
+  workaround: -0.2,
+  hacky: -0.4,
+  footgun: -0.6,
+  dealbreaker: -0.8,
+  bottleneck: -0.5,
+  overkill: -0.3,
+  timeout: -0.3,
+  timeouts: -0.3
+};
+
+/**
+ * Multi-word expressions, matched before single words (-1 to +1)
+ */
+export const PHRASE_LEXICON: Readonly<Record<string, number>> = {
+  'just works': 0.7,
+  'works great': 0.8,
+  'works well': 0.6,
+  'game changer': 0.8,
+  'out of the box': 0.4,
+  'deal breaker': -0.8,
+  'pain in the': -0.7,
+  'waste of time': -0.8,
+  'memory leak': -0.6,
+  'steep learning curve': -0.5,
+  'learning curve': -0.3,
+  'does not work': -0.7,
+  "doesn't work": -0.7,
+  'not working': -0.7,
+  'too slow': -0.7,
+  'no longer': -0.2
+};
+
+/**
+ * Words that flip the valence of the following words
+ */
+export const NEGATIONS: ReadonlySet<string> = new Set([
+  'not',
+  'no',
+  'never',
+  'none',
+  'nothing',
+  'nobody',
+  'neither',
+  'nor',
+  'without',
+  'cannot',
+  "can't",
+  'cant',
+  "don't",
+  'dont',
+  "doesn't",
+  'doesnt',
+  "didn't",
+  'didnt',
+  "isn't",
+  'isnt',
+  "wasn't",
+  'wasnt',
+  "aren't",
+  'arent',
+  "won't",
+  'wont',
+  "wouldn't",
+  "shouldn't",
+  "couldn't",
+  'hardly',
+  'barely'
+]);
+
+/**
+ * Words that strengthen (positive) or soften (negative) the following word
+ */
+export const INTENSIFIERS: Readonly<Record<string, number>> = {
+  very: 0.3,
+  really: 0.3,
+  so: 0.3,
+  super: 0.4,
+  extremely: 0.5,
+  incredibly: 0.5,
+  insanely: 0.5,
+  absolutely: 0.5,
+  totally: 0.4,
+  completely: 0.4,
+  utterly: 0.5,
+  truly: 0.3,
+  seriously: 0.3,
+  constantly: 0.3,
+  always: 0.2,
+  too: 0.2,
+  slightly: -0.4,
+  somewhat: -0.3,
+  mildly: -0.4,
+  fairly: -0.2,
+  kinda: -0.3,
+  sorta: -0.3,
+  bit: -0.3,
+  little: -0.3
+};
+
+/**
+ * Words that contrast with what came before; the clause after them carries more weight
+ */
+export const CONTRAST_WORDS: ReadonlySet<string> = new Set([
+  'but',
+  'however',
+  'although',
+  'though'
+]);
+
+/**
+ * Words that indicate an emotion; cues of five or more letters also match as
+ * prefixes ("frustrat" matches "frustrating")
+ */
+export const EMOTION_CUES: ReadonlyArray<readonly [string, EmotionLabel]> = [
+  // Negative
+  ['frustrat', 'frustrated'],
+  ['infuriat', 'angry'],
+  ['angry', 'angry'],
+  ['furious', 'angry'],
+  ['rage', 'angry'],
+  ['hate', 'angry'],
+  ['hated', 'angry'],
+  ['disappoint', 'disappointed'],
+  ['letdown', 'disappointed'],
+  ['annoy', 'annoyed'],
+  ['irritat', 'annoyed'],
+  ['sucks', 'annoyed'],
+
+  // Neutral-negative
+  ['confus', 'confused'],
+  ['unclear', 'confused'],
+  ['overwhelm', 'overwhelmed'],
+  ['anxious', 'anxious'],
+  ['worry', 'anxious'],
+  ['worrie', 'anxious'],
+  ['nervous', 'anxious'],
+  ['skeptic', 'skeptical'],
+  ['doubt', 'skeptical'],
+
+  // Neutral
+  ['meh', 'indifferent'],
+  ['whatever', 'indifferent'],
+  ['curious', 'curious'],
+  ['wondering', 'curious'],
+  ['unsure', 'uncertain'],
+  ['uncertain', 'uncertain'],
+
+  // Neutral-positive
+  ['hope', 'hopeful'],
+  ['hopes', 'hopeful'],
+  ['hopeful', 'hopeful'],
+  ['hoping', 'hopeful'],
+  ['optimis', 'hopeful'],
+  ['interest', 'interested'],
+  ['satisf', 'satisfied'],
+  ['decent', 'satisfied'],
+
+  // Positive
+  ['excit', 'excited'],
+  ['amazing', 'excited'],
+  ['awesome', 'excited'],
+  ['delight', 'delighted'],
+  ['love', 'delighted'],
+  ['loved', 'delighted'],
+  ['loving', 'delighted'],
+  ['thank', 'grateful'],
+  ['grateful', 'grateful'],
+  ['appreciat', 'grateful'],
+  ['lifesaver', 'grateful'],
+  ['impress', 'impressed']
+];
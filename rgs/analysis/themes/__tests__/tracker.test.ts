@@ -0,0 +1,220 @@
+/**
+ * Tests for theme tracker
+ */
+
+import {
+  ThemeTracker,
+  TrackableTheme,
+  createThemeTracker,
+  keywordSimilarity,
+  DEFAULT_TRACKER_CONFIG,
+} from '../src/tracker';
+import { isThemeHistory } from '../src/types';
+
+describe('ThemeTracker', () => {
+  const theme = (
+    name: string,
+    keywords: string[],
+    frequency: number,
+    sentiment: number = -0.5
+  ): TrackableTheme => ({ name, keywords, frequency, sentiment });
+
+  const day = (n: number): Date => new Date(Date.UTC(2024, 0, n));
+
+  describe('record', () => {
+    it('should give new themes readable identifiers', () => {
+      const tracker = new ThemeTracker();
+      const ids = tracker.record([theme('Slow indexing', ['slow', 'indexing'], 5)], day(1));
+
+      expect(ids).toEqual(['slow-indexing']);
+      expect(tracker.get('slow-indexing')?.observations).toHaveLength(1);
+    });
+
+    it('should keep identity when a theme is renamed with overlapping keywords', () => {
+      const tracker = new ThemeTracker();
+      const [first] = tracker.record(
+        [theme('Slow indexing', ['slow', 'indexing', 'large repos'], 5)],
+        day(1)
+      );
+      const [second] = tracker.record(
+        [theme('Indexing is slow on big repos', ['slow', 'indexes', 'repos'], 8)],
+        day(8)
+      );
+
+      expect(second).toBe(first);
+      const tracked = tracker.get(first!);
+      expect(tracked?.name).toBe('Indexing is slow on big repos');
+      expect(tracked?.observations.map((o) => o.frequency)).toEqual([5, 8]);
+    });
+
+    it('should start a new theme when nothing is similar enough', () => {
+      const tracker = new ThemeTracker();
+      tracker.record([theme('Slow indexing', ['slow', 'indexing'], 5)], day(1));
+      const [id] = tracker.record([theme('Pricing confusion', ['pricing', 'billing'], 3)], day(2));
+
+      expect(id).toBe('pricing-confusion');
+      expect(tracker.toHistory().themes).toHaveLength(2);
+    });
+
+    it('should match each tracked theme at most once per run', () => {
+      const tracker = new ThemeTracker();
+      tracker.record([theme('Slow indexing', ['slow', 'indexing'], 5)], day(1));
+      const ids = tracker.record(
+        [
+          theme('Slow indexing', ['slow', 'indexing'], 4),
+          theme('Slow indexing', ['slow', 'indexing'], 2),
+        ],
+        day(2)
+      );
+
+      expect(ids).toEqual(['slow-indexing', 'slow-indexing-2']);
+    });
+
+    it('should reject runs out of chronological order', () => {
+      const tracker = new ThemeTracker();
+      tracker.record([], day(5));
+
+      expect(() => tracker.record([], day(5))).toThrow('is not later than');
+      expect(() => tracker.record([], day(4))).toThrow('is not later than');
+    });
+
+    it('should use a custom similarity function', () => {
+      const tracker = new ThemeTracker(undefined, DEFAULT_TRACKER_CONFIG, () => 1);
+      tracker.record([theme('Slow indexing', ['slow'], 5)], day(1));
+      const [id] = tracker.record([theme('Pricing', ['pricing'], 3)], day(2));
+
+      expect(id).toBe('slow-indexing');
+    });
+  });
+
+  describe('trends', () => {
+    it('should return no trends before a second run', () => {
+      const tracker = new ThemeTracker();
+      tracker.record([theme('Slow indexing', ['slow', 'indexing'], 5)], day(1));
+
+      expect(tracker.trends()).toEqual([]);
+    });
+
+    it('should detect emerging, fading and stable themes', () => {
+      const tracker = new ThemeTracker();
+      tracker.record(
+        [
+          theme('Slow indexing', ['slow', 'indexing'], 10),
+          theme('Pricing confusion', ['pricing', 'billing'], 6),
+        ],
+        day(1)
+      );
+      tracker.record(
+        [
+          theme('Slow indexing', ['slow', 'indexing'], 2),
+          theme('Pricing confusion', ['pricing', 'billing'], 6),
+          theme('Flaky tests', ['flaky', 'tests'], 9),
+        ],
+        day(2)
+      );
+
+      const trends = tracker.trends();
+      expect(trends.map((t) => [t.name, t.status])).toEqual([
+        ['Flaky tests', 'emerging'],
+        ['Slow indexing', 'fading'],
+        ['Pricing confusion', 'stable'],
+      ]);
+      expect(trends[0]?.frequencies).toEqual([0, 9]);
+      expect(trends[0]?.frequencyChange).toBe(9);
+      expect(trends[1]?.frequencyChange).toBe(-8);
+    });
+
+    it('should treat disappearing themes as fading', () => {
+      const tracker = new ThemeTracker();
+      tracker.record([theme('Slow indexing', ['slow', 'indexing'], 4)], day(1));
+      tracker.record([], day(2));
+
+      const [trend] = tracker.trends();
+      expect(trend?.status).toBe('fading');
+      expect(trend?.sentiments).toEqual([-0.5, null]);
+      expect(trend?.sentimentChange).toBeNull();
+    });
+
+    it('should not flag low-frequency noise', () => {
+      const tracker = new ThemeTracker();
+      tracker.record([], day(1));
+      tracker.record([theme('Dark mode', ['dark', 'mode'], 1)], day(2));
+
+      expect(tracker.trends()[0]?.status).toBe('stable');
+    });
+
+    it('should only consider the most recent runs', () => {
+      const tracker = createThemeTracker(undefined, { windowSize: 2 });
+      tracker.record([theme('Slow indexing', ['slow', 'indexing'], 3)], day(1));
+      tracker.record([], day(2));
+      tracker.record([], day(3));
+
+      expect(tracker.trends()).toEqual([]);
+    });
+
+    it('should track sentiment change weighted by frequency', () => {
+      const tracker = new ThemeTracker();
+      tracker.record([theme('Slow indexing', ['slow', 'indexing'], 3, -0.2)], day(1));
+      tracker.record([theme('Slow indexing', ['slow', 'indexing'], 1, 0.2)], day(2));
+      tracker.record([theme('Slow indexing', ['slow', 'indexing'], 2, -0.6)], day(3));
+
+      const [trend] = tracker.trends();
+      expect(trend?.sentiments).toEqual([-0.2, 0.2, -0.6]);
+      expect(trend?.sentimentChange).toBeCloseTo(-0.6 - (-0.6 + 0.2) / 4);
+    });
+  });
+
+  describe('history', () => {
+    it('should resume from a saved history', () => {
+      const tracker = new ThemeTracker();
+      tracker.record([theme('Slow indexing', ['slow', 'indexing'], 2)], day(1));
+
+      const saved: unknown = JSON.parse(JSON.stringify(tracker.toHistory()));
+      expect(isThemeHistory(saved)).toBe(true);
+      if (!isThemeHistory(saved)) {
+        return;
+      }
+
+      const resumed = new ThemeTracker(saved);
+      const [id] = resumed.record([theme('Slow indexing', ['slow', 'indexing'], 6)], day(2));
+
+      expect(id).toBe('slow-indexing');
+      expect(resumed.trends()[0]?.status).toBe('emerging');
+    });
+
+    it('should reject malformed histories', () => {
+      expect(isThemeHistory(null)).toBe(false);
+      expect(isThemeHistory({ runs: [1], themes: [] })).toBe(false);
+      expect(
+        isThemeHistory({
+          runs: [],
+          themes: [{ id: 'a', name: 'A', keywords: [], observations: [{ runAt: 'x' }] }],
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe('keywordSimilarity', () => {
+    it('should ignore case, stopwords and common suffixes', () => {
+      const score = keywordSimilarity(theme('Crashes on startup', ['crashing'], 1), {
+        id: 'crash-on-startup',
+        name: 'Crash on startup',
+        keywords: ['crashed', 'the startup'],
+        observations: [],
+      });
+
+      expect(score).toBe(1);
+    });
+
+    it('should return 0 for themes without usable terms', () => {
+      const score = keywordSimilarity(theme('UI', [], 1), {
+        id: 'ux',
+        name: 'UX',
+        keywords: [],
+        observations: [],
+      });
+
+      expect(score).toBe(0);
+    });
+  });
+});
@@ -11,6 +11,11 @@ export {
   type RawThemeExtraction,
   type KeywordCluster,
   type DetectedPattern,
+  type ThemeObservation,
+  type TrackedTheme,
+  type ThemeHistory,
+  type ThemeTrendStatus,
+  type ThemeTrend,
   type ThemeExtractionConfig,
   DEFAULT_EXTRACTION_CONFIG,
   isThemeCategory,
@@ -18,6 +23,7 @@ export {
   isValidConfidence,
   isRawThemeExtraction,
   isExtractedTheme,
+  isThemeHistory,
 } from './types';
 
 // Clusterer
@@ -33,3 +39,14 @@ export {
 
 // Theme Extractor
 export { ThemeExtractor, createThemeExtractor } from './extractor';
+
+// Theme Tracker
+export {
+  type TrackableTheme,
+  type ThemeSimilarity,
+  type ThemeTrackerConfig,
+  DEFAULT_TRACKER_CONFIG,
+  ThemeTracker,
+  createThemeTracker,
+  keywordSimilarity,
+} from './tracker';
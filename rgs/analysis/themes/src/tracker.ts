@@ -0,0 +1,360 @@
+/**
+ * RGS Analysis - Theme Trend Tracking
+ *
+ * Links themes extracted in separate runs under stable identifiers and
+ * derives frequency and sentiment trends from their history.
+ */
+
+import {
+  ExtractedTheme,
+  ThemeHistory,
+  ThemeObservation,
+  ThemeTrend,
+  ThemeTrendStatus,
+  TrackedTheme,
+} from './types';
+
+/**
+ * Theme fields needed for tracking, shared by extracted and report themes
+ */
+export type TrackableTheme = Pick<ExtractedTheme, 'name' | 'keywords' | 'frequency' | 'sentiment'>;
+
+/**
+ * Similarity (0-1) between a theme from a new run and a tracked theme
+ */
+export type ThemeSimilarity = (theme: TrackableTheme, tracked: TrackedTheme) => number;
+
+/**
+ * Configuration for theme tracking
+ */
+export interface ThemeTrackerConfig {
+  /**
+   * Minimum similarity for a new theme to continue a tracked one (0-1)
+   */
+  readonly matchThreshold: number;
+
+  /**
+   * Number of most recent runs, including the latest, that trends are computed over
+   */
+  readonly windowSize: number;
+
+  /**
+   * Minimum mentions for a theme to be reported as emerging or fading
+   */
+  readonly minFrequency: number;
+
+  /**
+   * Relative growth over the earlier runs' average that marks a theme as emerging
+   */
+  readonly growthThreshold: number;
+
+  /**
+   * Relative decline from the earlier runs' average that marks a theme as fading
+   */
+  readonly fadeThreshold: number;
+}
+
+/**
+ * Default tracking configuration
+ */
+export const DEFAULT_TRACKER_CONFIG: ThemeTrackerConfig = {
+  matchThreshold: 0.4,
+  windowSize: 4,
+  minFrequency: 2,
+  growthThreshold: 0.5,
+  fadeThreshold: 0.5,
+};
+
+/**
+ * Words ignored when comparing themes
+ */
+const STOPWORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'from',
+  'into',
+  'not',
+  'too',
+  'are',
+  'was',
+  'issue',
+  'issues',
+  'problem',
+  'problems',
+]);
+
+/**
+ * Order in which trend statuses are listed
+ */
+const STATUS_ORDER: Record<ThemeTrendStatus, number> = { emerging: 0, fading: 1, stable: 2 };
+
+/**
+ * Jaccard similarity of the stemmed name and keyword terms of two themes
+ */
+export const keywordSimilarity: ThemeSimilarity = (theme, tracked) => {
+  const a = themeTerms(theme.name, theme.keywords);
+  const b = themeTerms(tracked.name, tracked.keywords);
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) {
+      shared++;
+    }
+  }
+
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Tracks themes across analysis runs
+ *
+ * Each recorded run is matched against the known themes: a new theme
+ * continues the most similar tracked theme above the match threshold, and
+ * starts a new tracked theme otherwise. Matching is one-to-one per run.
+ */
+export class ThemeTracker {
+  private readonly runs: string[];
+  private readonly themes: Map<string, TrackedTheme>;
+
+  constructor(
+    history: ThemeHistory = { runs: [], themes: [] },
+    private readonly config: ThemeTrackerConfig = DEFAULT_TRACKER_CONFIG,
+    private readonly similarity: ThemeSimilarity = keywordSimilarity
+  ) {
+    this.runs = [...history.runs];
+    this.themes = new Map(history.themes.map((theme) => [theme.id, theme]));
+  }
+
+  /**
+   * Record the themes of one run
+   *
+   * @param themes - Themes extracted in the run
+   * @param runAt - When the run happened; must be later than every recorded run
+   * @returns Stable theme identifiers, in the order of `themes`
+   * @throws Error if `runAt` is not later than the latest recorded run
+   */
+  record(themes: readonly TrackableTheme[], runAt: Date = new Date()): string[] {
+    const timestamp = runAt.toISOString();
+    const latest = this.runs[this.runs.length - 1];
+    if (latest !== undefined && timestamp <= latest) {
+      throw new Error(`Run at ${timestamp} is not later than the latest run at ${latest}`);
+    }
+
+    const matched = this.match(themes);
+    const ids = themes.map((theme, i) => {
+      const observation: ThemeObservation = {
+        runAt: timestamp,
+        name: theme.name,
+        frequency: theme.frequency,
+        sentiment: theme.sentiment,
+      };
+
+      const id = matched[i] ?? this.generateId(theme.name);
+      const tracked = this.themes.get(id);
+      this.themes.set(id, {
+        id,
+        name: theme.name,
+        keywords: [...theme.keywords],
+        observations: [...(tracked?.observations ?? []), observation],
+      });
+      return id;
+    });
+
+    this.runs.push(timestamp);
+    return ids;
+  }
+
+  /**
+   * Get a tracked theme by its stable identifier
+   */
+  get(id: string): TrackedTheme | undefined {
+    return this.themes.get(id);
+  }
+
+  /**
+   * Compute trends over the most recent runs
+   *
+   * Themes absent from every run in the window are left out. Fewer than two
+   * recorded runs give no trends, since there is nothing to compare against.
+   *
+   * @returns Emerging themes first, then fading, then stable; by latest frequency within each
+   */
+  trends(): ThemeTrend[] {
+    if (this.runs.length < 2) {
+      return [];
+    }
+
+    const window = this.runs.slice(-Math.max(this.config.windowSize, 2));
+    const trends: ThemeTrend[] = [];
+
+    for (const theme of this.themes.values()) {
+      const byRun = new Map(theme.observations.map((o) => [o.runAt, o]));
+      const frequencies = window.map((run) => byRun.get(run)?.frequency ?? 0);
+      const sentiments = window.map((run) => byRun.get(run)?.sentiment ?? null);
+      if (frequencies.every((frequency) => frequency === 0)) {
+        continue;
+      }
+
+      const latest = frequencies[frequencies.length - 1] ?? 0;
+      const earlier = frequencies.slice(0, -1);
+      const baseline = earlier.reduce((sum, f) => sum + f, 0) / earlier.length;
+
+      trends.push({
+        id: theme.id,
+        name: theme.name,
+        status: this.classify(latest, baseline),
+        runs: window,
+        frequencies,
+        sentiments,
+        frequencyChange: latest - baseline,
+        sentimentChange: sentimentChange(sentiments, frequencies),
+      });
+    }
+
+    const latest = (trend: ThemeTrend): number =>
+      trend.frequencies[trend.frequencies.length - 1] ?? 0;
+    return trends.sort((a, b) => {
+      if (a.status !== b.status) {
+        return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+      }
+      return latest(b) - latest(a);
+    });
+  }
+
+  /**
+   * Get the serializable history of every recorded run
+   */
+  toHistory(): ThemeHistory {
+    return { runs: [...this.runs], themes: Array.from(this.themes.values()) };
+  }
+
+  /**
+   * Match new themes to tracked themes, most similar pairs first
+   */
+  private match(themes: readonly TrackableTheme[]): Array<string | undefined> {
+    const pairs: Array<{ index: number; id: string; score: number }> = [];
+    themes.forEach((theme, index) => {
+      for (const tracked of this.themes.values()) {
+        const score = this.similarity(theme, tracked);
+        if (score >= this.config.matchThreshold) {
+          pairs.push({ index, id: tracked.id, score });
+        }
+      }
+    });
+    pairs.sort((a, b) => b.score - a.score);
+
+    const ids: Array<string | undefined> = themes.map(() => undefined);
+    const taken = new Set<string>();
+    for (const { index, id } of pairs) {
+      if (ids[index] === undefined && !taken.has(id)) {
+        ids[index] = id;
+        taken.add(id);
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * Classify a theme by its latest frequency against the earlier average
+   */
+  private classify(latest: number, baseline: number): ThemeTrendStatus {
+    const { minFrequency, growthThreshold, fadeThreshold } = this.config;
+
+    if (latest >= minFrequency && latest > baseline * (1 + growthThreshold)) {
+      return 'emerging';
+    }
+    if (baseline >= minFrequency && latest <= baseline * (1 - fadeThreshold)) {
+      return 'fading';
+    }
+    return 'stable';
+  }
+
+  /**
+   * Generate a readable identifier that no tracked theme uses yet
+   */
+  private generateId(name: string): string {
+    const slug = name
+      .toLowerCase()
+      .replace(/\s+/g, '-')
+      .replace(/[^a-z0-9-]/g, '');
+    const base = slug.length > 0 ? slug : 'theme';
+
+    let id = base;
+    for (let n = 2; this.themes.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+}
+
+/**
+ * Create a theme tracker, optionally resuming from a saved history
+ */
+export function createThemeTracker(
+  history?: ThemeHistory,
+  config?: Partial<ThemeTrackerConfig>
+): ThemeTracker {
+  const fullConfig = {
+    ...DEFAULT_TRACKER_CONFIG,
+    ...config,
+  };
+  return new ThemeTracker(history, fullConfig);
+}
+
+/**
+ * Latest sentiment minus the frequency-weighted sentiment of the earlier runs
+ */
+function sentimentChange(
+  sentiments: readonly (number | null)[],
+  frequencies: readonly number[]
+): number | null {
+  const latest = sentiments[sentiments.length - 1];
+  if (latest === undefined || latest === null) {
+    return null;
+  }
+
+  let weighted = 0;
+  let total = 0;
+  for (let i = 0; i < sentiments.length - 1; i++) {
+    const sentiment = sentiments[i];
+    const frequency = frequencies[i] ?? 0;
+    if (sentiment !== undefined && sentiment !== null && frequency > 0) {
+      weighted += sentiment * frequency;
+      total += frequency;
+    }
+  }
+
+  return total > 0 ? latest - weighted / total : null;
+}
+
+/**
+ * Lowercased, lightly stemmed terms of a theme's name and keywords
+ */
+function themeTerms(name: string, keywords: readonly string[]): Set<string> {
+  const words =
+    [name, ...keywords]
+      .join(' ')
+      .toLowerCase()
+      .match(/[a-z0-9+#]+/g) ?? [];
+  return new Set(
+    words.filter((word) => word.length > 2 && !STOPWORDS.has(word)).map((word) => stem(word))
+  );
+}
+
+/**
+ * Strip common English suffixes so "indexing" and "indexes" compare equal
+ */
+function stem(word: string): string {
+  for (const suffix of ['ing', 'es', 'ed', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 4) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
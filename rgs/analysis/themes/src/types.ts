@@ -96,6 +96,122 @@ export interface DetectedPattern {
   readonly examples: readonly string[];
 }
 
+/**
+ * A theme as seen in a single analysis run
+ */
+export interface ThemeObservation {
+  /**
+   * When the run happened (ISO 8601)
+   */
+  readonly runAt: string;
+
+  /**
+   * Theme name in that run
+   */
+  readonly name: string;
+
+  /**
+   * Number of mentions in that run
+   */
+  readonly frequency: number;
+
+  /**
+   * Sentiment score in that run (-1 to 1)
+   */
+  readonly sentiment: number;
+}
+
+/**
+ * A theme followed across analysis runs under a stable identifier
+ */
+export interface TrackedTheme {
+  /**
+   * Stable identifier, derived from the name the theme was first seen with
+   */
+  readonly id: string;
+
+  /**
+   * Most recent name of the theme
+   */
+  readonly name: string;
+
+  /**
+   * Most recent keywords of the theme
+   */
+  readonly keywords: readonly string[];
+
+  /**
+   * Observations in chronological order, one per run the theme appeared in
+   */
+  readonly observations: readonly ThemeObservation[];
+}
+
+/**
+ * Serializable history of tracked themes
+ */
+export interface ThemeHistory {
+  /**
+   * Timestamps of every recorded run in chronological order (ISO 8601)
+   */
+  readonly runs: readonly string[];
+
+  /**
+   * Themes seen in any run
+   */
+  readonly themes: readonly TrackedTheme[];
+}
+
+/**
+ * Direction a theme is moving in
+ */
+export type ThemeTrendStatus = 'emerging' | 'stable' | 'fading';
+
+/**
+ * Frequency and sentiment trend of a tracked theme over recent runs
+ */
+export interface ThemeTrend {
+  /**
+   * Stable theme identifier
+   */
+  readonly id: string;
+
+  /**
+   * Most recent theme name
+   */
+  readonly name: string;
+
+  /**
+   * Whether the theme is emerging, stable or fading
+   */
+  readonly status: ThemeTrendStatus;
+
+  /**
+   * Timestamps of the runs in the trend window (ISO 8601)
+   */
+  readonly runs: readonly string[];
+
+  /**
+   * Mentions per run in the window (0 where the theme was absent)
+   */
+  readonly frequencies: readonly number[];
+
+  /**
+   * Sentiment per run in the window (null where the theme was absent)
+   */
+  readonly sentiments: readonly (number | null)[];
+
+  /**
+   * Mentions in the latest run minus the average of the earlier runs in the window
+   */
+  readonly frequencyChange: number;
+
+  /**
+   * Sentiment in the latest run minus the average of the earlier runs, or null
+   * when either is missing
+   */
+  readonly sentimentChange: number | null;
+}
+
 /**
  * Theme extraction configuration
  */
@@ -232,3 +348,57 @@ export function isExtractedTheme(obj: unknown): obj is ExtractedTheme {
 
   return true;
 }
+
+/**
+ * Type guard for ThemeObservation
+ */
+function isThemeObservation(obj: unknown): obj is ThemeObservation {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const observation = obj as Record<string, unknown>;
+
+  return (
+    typeof observation['runAt'] === 'string' &&
+    typeof observation['name'] === 'string' &&
+    typeof observation['frequency'] === 'number' &&
+    typeof observation['sentiment'] === 'number'
+  );
+}
+
+/**
+ * Type guard for ThemeHistory
+ */
+export function isThemeHistory(obj: unknown): obj is ThemeHistory {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const history = obj as Record<string, unknown>;
+
+  if (!Array.isArray(history['runs']) || !history['runs'].every((r) => typeof r === 'string')) {
+    return false;
+  }
+
+  if (!Array.isArray(history['themes'])) {
+    return false;
+  }
+
+  return history['themes'].every((item: unknown) => {
+    if (typeof item !== 'object' || item === null) {
+      return false;
+    }
+
+    const theme = item as Record<string, unknown>;
+
+    return (
+      typeof theme['id'] === 'string' &&
+      typeof theme['name'] === 'string' &&
+      Array.isArray(theme['keywords']) &&
+      theme['keywords'].every((k) => typeof k === 'string') &&
+      Array.isArray(theme['observations']) &&
+      theme['observations'].every(isThemeObservation)
+    );
+  });
+}
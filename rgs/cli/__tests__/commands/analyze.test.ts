@@ -6,8 +6,44 @@ import { promises as fs } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { createWebSignal } from '@rgs/core';
+import { FileSystemStorage } from '@rgs/storage';
+import type { ExtractedTheme } from '@rgs/analysis-themes/types';
 import { analyzeCommand } from '../../src/commands/analyze';
 import { writeSignals, readInsight } from '../../src/utils/fileio';
+import { loadThemeHistory } from '../../src/utils/storage';
+
+// Claude-backed analyzers are replaced with canned results
+jest.mock('@rgs/analysis-sentiment/analyzer', () => ({
+  SentimentAnalyzer: jest.fn().mockImplementation(() => ({
+    analyzeBatch: (contents: string[]): Promise<unknown[]> =>
+      Promise.resolve(
+        contents.map((_, i) => ({
+          score: i % 2 === 0 ? 0.6 : -0.6,
+          magnitude: 0.5,
+          emotions: [i % 2 === 0 ? 'joy' : 'frustration'],
+          confidence: 0.9,
+        }))
+      ),
+  })),
+}));
+
+jest.mock('@rgs/analysis-themes/extractor', () => ({
+  ThemeExtractor: jest.fn().mockImplementation(() => ({
+    extract: (): Promise<ExtractedTheme[]> =>
+      Promise.resolve([
+        {
+          id: 'theme-1',
+          name: 'Slow startup',
+          category: 'pain',
+          sentiment: -0.6,
+          examples: [],
+          confidence: 0.8,
+          frequency: 3,
+          keywords: ['startup'],
+        },
+      ]),
+  })),
+}));
 
 describe('analyzeCommand', () => {
   let testDir: string;
@@ -15,9 +51,11 @@ describe('analyzeCommand', () => {
   beforeEach(async () => {
     testDir = join(tmpdir(), `rgs-test-${Date.now()}`);
     await fs.mkdir(testDir, { recursive: true });
+    process.env['ANTHROPIC_API_KEY'] = 'test-key';
   });
 
   afterEach(async () => {
+    delete process.env['ANTHROPIC_API_KEY'];
     try {
       await fs.rm(testDir, { recursive: true, force: true });
     } catch {
@@ -25,12 +63,13 @@ describe('analyzeCommand', () => {
     }
   });
 
+  const topics = ['startup time', 'extension marketplace', 'git integration', 'remote ssh'];
   const createTestSignals = (count: number): ReturnType<typeof createWebSignal>[] => {
     return Array.from({ length: count }, (_, i) =>
       createWebSignal({
         id: `signal-${i}`,
         source: 'reddit',
-        content: `Test content ${i}`,
+        content: `Post ${i} about ${topics[i % topics.length]}: ${'detail '.repeat(i + 1)}`,
         timestamp: new Date(),
         url: `https://reddit.com/${i}`,
         metadata: {},
@@ -59,6 +98,93 @@ describe('analyzeCommand', () => {
     expect(insight).toHaveProperty('desires');
     expect(insight).toHaveProperty('language');
     expect(insight).toHaveProperty('confidence');
+    expect(insight.themes.map((theme) => theme.name)).toEqual(['Slow startup']);
+    expect(insight.painPoints).toEqual(['Slow startup']);
+    expect(insight.sentiment.distribution).toEqual({ positive: 0.5, neutral: 0, negative: 0.5 });
+  });
+
+  it('should throw error without an Anthropic API key', async () => {
+    delete process.env['ANTHROPIC_API_KEY'];
+    const inputPath = join(testDir, 'signals.json');
+    await writeSignals(inputPath, createTestSignals(2));
+
+    await expect(
+      analyzeCommand({
+        input: inputPath,
+        output: join(testDir, 'insight.json'),
+      })
+    ).rejects.toThrow('ANTHROPIC_API_KEY environment variable is required');
+  });
+
+  it('should save insights to storage when a data directory is given', async () => {
+    const inputPath = join(testDir, 'signals.json');
+    const dataDir = join(testDir, 'data');
+    await writeSignals(inputPath, createTestSignals(4));
+
+    await analyzeCommand({
+      input: inputPath,
+      output: join(testDir, 'insight.json'),
+      dataDir,
+    });
+
+    const insights = await new FileSystemStorage(dataDir).loadInsights();
+    expect(insights.map((insight) => insight.category).sort()).toEqual([
+      'pain-point',
+      'user-feedback',
+    ]);
+  });
+
+  it('should generate JSON and Markdown reports when a report directory is given', async () => {
+    const inputPath = join(testDir, 'signals.json');
+    const reportDir = join(testDir, 'report');
+    await writeSignals(inputPath, createTestSignals(4));
+
+    await analyzeCommand({
+      input: inputPath,
+      output: join(testDir, 'insight.json'),
+      reportDir,
+    });
+
+    const files = await fs.readdir(reportDir);
+    expect(files.some((file) => file.endsWith('.json'))).toBe(true);
+    expect(files.some((file) => file.endsWith('.md'))).toBe(true);
+  });
+
+  it('should report theme trends against earlier runs in the data directory', async () => {
+    const inputPath = join(testDir, 'signals.json');
+    const dataDir = join(testDir, 'data');
+    const reportDir = join(testDir, 'report');
+    await writeSignals(inputPath, createTestSignals(4));
+    const options = { input: inputPath, output: join(testDir, 'insight.json'), dataDir, reportDir };
+
+    await analyzeCommand(options);
+    expect(await fs.readFile(join(reportDir, 'INSIGHTS.md'), 'utf-8')).not.toContain(
+      '## Theme Trends'
+    );
+
+    await analyzeCommand(options);
+    const report = await fs.readFile(join(reportDir, 'INSIGHTS.md'), 'utf-8');
+    expect(report).toContain('## Theme Trends');
+    expect(report).toContain('**Stable:** Slow startup');
+
+    const history = await loadThemeHistory(dataDir);
+    expect(history?.runs).toHaveLength(2);
+    expect(history?.themes).toHaveLength(1);
+  });
+
+  it('should skip the report when no themes are identified', async () => {
+    const inputPath = join(testDir, 'signals.json');
+    const reportDir = join(testDir, 'report');
+    await writeSignals(inputPath, createTestSignals(4));
+
+    await analyzeCommand({
+      input: inputPath,
+      output: join(testDir, 'insight.json'),
+      skipThemes: true,
+      reportDir,
+    });
+
+    await expect(fs.access(reportDir)).rejects.toThrow();
   });
 
   it('should throw error if input file does not exist', async () => {
@@ -137,6 +263,24 @@ describe('analyzeCommand', () => {
 
     const insight = await readInsight(outputPath);
     expect(insight).toBeDefined();
+    expect(insight.themes).toEqual([]);
+    expect(insight.sentiment.overall).toBe(0);
+  });
+
+  it('should analyze without an API key when both analyses are skipped', async () => {
+    delete process.env['ANTHROPIC_API_KEY'];
+    const inputPath = join(testDir, 'signals.json');
+    const outputPath = join(testDir, 'insight.json');
+    await writeSignals(inputPath, createTestSignals(3));
+
+    await analyzeCommand({
+      input: inputPath,
+      output: outputPath,
+      skipSentiment: true,
+      skipThemes: true,
+    });
+
+    expect(await readInsight(outputPath)).toBeDefined();
   });
 
   it('should throw error for invalid options', async () => {
@@ -0,0 +1,98 @@
+/**
+ * Tests for migrate command
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createWebSignal, createScrapeCursor } from '@rgs/core';
+import { FileSystemStorage, SqliteStorage } from '@rgs/storage';
+import { migrateCommand } from '../../src/commands/migrate';
+
+describe('migrateCommand', () => {
+  let testDir: string;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `rgs-test-${Date.now()}`);
+    dataDir = join(testDir, 'data');
+
+    const storage = new FileSystemStorage(dataDir);
+    await storage.initialize();
+    await storage.saveSignals([
+      createWebSignal({
+        id: 'reddit-1',
+        source: 'reddit',
+        type: 'post',
+        content: 'Startup is slow on large projects',
+        timestamp: new Date('2024-01-01T00:00:00Z'),
+        url: 'https://reddit.com/post/1',
+        metadata: {},
+      }),
+    ]);
+    await storage.saveInsights([
+      {
+        id: 'insight-1',
+        title: 'Slow startup',
+        summary: 'Mentioned in 1 signals (keywords: startup)',
+        category: 'pain-point',
+        confidence: 0.8,
+        sources: ['reddit-1'],
+        timestamp: '2024-01-02T00:00:00.000Z',
+      },
+    ]);
+    await storage.saveCursors([
+      createScrapeCursor({
+        source: 'reddit',
+        scope: 'r/programming',
+        lastSeenId: 'reddit-1',
+        lastSeenAt: new Date('2024-01-01T00:00:00Z'),
+      }),
+    ]);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should import the data directory into a database inside it by default', async () => {
+    await migrateCommand({ dataDir });
+
+    const storage = new SqliteStorage(join(dataDir, 'rgs.db'));
+    try {
+      expect(await storage.searchSignals('slow startup')).toHaveLength(1);
+      expect(await storage.loadInsights('startup')).toHaveLength(1);
+      expect(await storage.loadCursors('reddit')).toHaveLength(1);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it('should import into the given database and allow repeated runs', async () => {
+    const database = join(testDir, 'db', 'signals.db');
+
+    await migrateCommand({ dataDir, database });
+    await migrateCommand({ dataDir, database });
+
+    const storage = new SqliteStorage(database);
+    try {
+      expect(await storage.loadSignals()).toHaveLength(1);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it('should fail when the data directory does not exist', async () => {
+    await expect(migrateCommand({ dataDir: join(testDir, 'missing') })).rejects.toThrow(
+      'Data directory not found'
+    );
+  });
+
+  it('should fail for invalid options', async () => {
+    await expect(migrateCommand({ dataDir: '' })).rejects.toThrow('Invalid options');
+  });
+});
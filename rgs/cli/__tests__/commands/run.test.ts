@@ -5,18 +5,81 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
+import { IScraper, ScrapeConfig, createWebSignal } from '@rgs/core';
+import { FileSystemStorage } from '@rgs/storage';
+import type { ExtractedTheme } from '@rgs/analysis-themes/types';
 import { runCommand } from '../../src/commands/run';
+import { createScraper } from '../../src/factories/scraper';
 import { readSignals, readInsight, fileExists } from '../../src/utils/fileio';
 
+jest.mock('../../src/factories/scraper');
+const mockedCreateScraper = jest.mocked(createScraper);
+
+// Claude-backed analyzers are replaced with canned results
+jest.mock('@rgs/analysis-sentiment/analyzer', () => ({
+  SentimentAnalyzer: jest.fn().mockImplementation(() => ({
+    analyzeBatch: (contents: string[]): Promise<unknown[]> =>
+      Promise.resolve(
+        contents.map(() => ({ score: 0.5, magnitude: 0.5, emotions: ['joy'], confidence: 0.9 }))
+      ),
+  })),
+}));
+
+jest.mock('@rgs/analysis-themes/extractor', () => ({
+  ThemeExtractor: jest.fn().mockImplementation(() => ({
+    extract: (): Promise<ExtractedTheme[]> =>
+      Promise.resolve([
+        {
+          id: 'theme-1',
+          name: 'Remote development',
+          category: 'feature',
+          sentiment: 0.5,
+          examples: [],
+          confidence: 0.7,
+          frequency: 2,
+          keywords: ['remote'],
+        },
+      ]),
+  })),
+}));
+
+/**
+ * Scraper that returns maxItems distinct signals without network access
+ */
+function fakeScraper(): IScraper {
+  const topics = ['remote ssh', 'extension marketplace', 'git integration', 'startup time'];
+  return {
+    scrape: (config: ScrapeConfig) =>
+      Promise.resolve(
+        Array.from({ length: config.maxItems ?? 10 }, (_, i) =>
+          createWebSignal({
+            id: `${config.type}-${i}`,
+            source: config.type,
+            content: `${config.type} post ${i} about ${topics[i % topics.length]}: ${'word '.repeat(i + 1)}`,
+            timestamp: new Date('2024-01-01T00:00:00Z'),
+            url: `https://${config.type}.com/post/${i}`,
+            metadata: {},
+          })
+        )
+      ),
+    validate: () => true,
+    testConnection: () => Promise.resolve(true),
+  };
+}
+
 describe('runCommand', () => {
   let testDir: string;
 
   beforeEach(async () => {
     testDir = join(tmpdir(), `rgs-test-${Date.now()}`);
     await fs.mkdir(testDir, { recursive: true });
+    mockedCreateScraper.mockImplementation(() => fakeScraper());
+    process.env['ANTHROPIC_API_KEY'] = 'test-key';
   });
 
   afterEach(async () => {
+    jest.clearAllMocks();
+    delete process.env['ANTHROPIC_API_KEY'];
     try {
       await fs.rm(testDir, { recursive: true, force: true });
     } catch {
@@ -43,11 +106,9 @@ describe('runCommand', () => {
     // Check that all output files were created
     const signalsPath = join(outputDir, 'signals.json');
     const insightPath = join(outputDir, 'insight.json');
-    const reportPath = join(outputDir, 'report.txt');
 
     expect(await fileExists(signalsPath)).toBe(true);
     expect(await fileExists(insightPath)).toBe(true);
-    expect(await fileExists(reportPath)).toBe(true);
 
     // Verify signals
     const signals = await readSignals(signalsPath);
@@ -60,9 +121,17 @@ describe('runCommand', () => {
     expect(insight).toHaveProperty('sentiment');
 
     // Verify report
-    const report = await fs.readFile(reportPath, 'utf-8');
-    expect(report).toContain('RGS Pipeline Report');
+    const files = await fs.readdir(outputDir);
+    const markdown = files.find((file) => file.endsWith('.md'));
+    expect(markdown).toBeDefined();
+    const report = await fs.readFile(join(outputDir, markdown ?? ''), 'utf-8');
+    expect(report).toContain('Remote development');
     expect(report).toContain('reddit');
+
+    // Verify storage
+    const storage = new FileSystemStorage(join(outputDir, 'data'));
+    expect(await storage.loadSignals()).toHaveLength(5);
+    expect((await storage.loadInsights()).length).toBeGreaterThan(0);
   });
 
   it('should handle config with multiple sources', async () => {
@@ -103,10 +172,11 @@ describe('runCommand', () => {
       output: outputDir,
     });
 
-    const reportPath = join(outputDir, 'report.txt');
-    const report = await fs.readFile(reportPath, 'utf-8');
-    expect(report).toContain('vscode');
-    expect(report).toContain('gaming');
+    expect(mockedCreateScraper).toHaveBeenCalledWith(
+      'reddit',
+      { subreddits: ['vscode', 'gaming'], limit: 5 },
+      expect.anything()
+    );
   });
 
   it('should handle config with analysis options', async () => {
@@ -5,18 +5,95 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
+import {
+  IScraper,
+  ScrapeConfig,
+  ScrapeCursor,
+  WebSignal,
+  createWebSignal,
+  createScrapeCursor,
+  findCursor,
+  isAfterCursor,
+  advanceCursor,
+} from '@rgs/core';
+import { FileSystemStorage, SqliteStorage } from '@rgs/storage';
 import { scrapeCommand } from '../../src/commands/scrape';
+import { createScraper } from '../../src/factories/scraper';
 import { readSignals } from '../../src/utils/fileio';
 
+jest.mock('../../src/factories/scraper');
+const mockedCreateScraper = jest.mocked(createScraper);
+
+/**
+ * Scraper that returns maxItems generated signals without network access
+ */
+function fakeScraper(connected = true): IScraper {
+  return {
+    scrape: (config: ScrapeConfig) =>
+      Promise.resolve(
+        Array.from({ length: config.maxItems ?? 10 }, (_, i) =>
+          createWebSignal({
+            id: `${config.type}-${i}`,
+            source: config.type,
+            type: 'post',
+            content: `Signal ${i} from ${config.type}`,
+            timestamp: new Date('2024-01-01T00:00:00Z'),
+            url: `https://${config.type}.com/post/${i}`,
+            metadata: {},
+            author: `user_${i}`,
+          })
+        )
+      ),
+    validate: () => true,
+    testConnection: () => Promise.resolve(connected),
+  };
+}
+
+/**
+ * Scraper that returns the given signals newer than its cursor and reports
+ * the cursor it reached
+ */
+function incrementalScraper(timestamps: string[]): IScraper & { received: ScrapeConfig[] } {
+  const received: ScrapeConfig[] = [];
+  let reached: ScrapeCursor | undefined;
+
+  return {
+    received,
+    scrape: (config: ScrapeConfig): Promise<WebSignal[]> => {
+      received.push(config);
+      const cursor = findCursor(config.cursors, config.type, 'vscode');
+      const signals = timestamps
+        .map((timestamp, i) =>
+          createWebSignal({
+            id: `${config.type}-${i}`,
+            source: config.type,
+            content: `Signal ${i} from ${config.type}`,
+            timestamp: new Date(timestamp),
+            url: `https://${config.type}.com/post/${i}`,
+            metadata: {},
+          })
+        )
+        .filter((signal) => isAfterCursor(signal, cursor));
+      reached = advanceCursor(cursor, config.type, 'vscode', signals);
+      return Promise.resolve(signals);
+    },
+    getCursors: () => (reached === undefined ? [] : [reached]),
+    validate: () => true,
+    testConnection: () => Promise.resolve(true),
+  };
+}
+
 describe('scrapeCommand', () => {
   let testDir: string;
 
   beforeEach(async () => {
     testDir = join(tmpdir(), `rgs-test-${Date.now()}`);
     await fs.mkdir(testDir, { recursive: true });
+    mockedCreateScraper.mockImplementation(() => fakeScraper());
   });
 
   afterEach(async () => {
+    jest.clearAllMocks();
     try {
       await fs.rm(testDir, { recursive: true, force: true });
     } catch {
@@ -72,7 +149,7 @@ describe('scrapeCommand', () => {
     ).rejects.toThrow();
   });
 
-  it('should throw error when no signals are scraped', async () => {
+  it('should reject a limit of zero', async () => {
     const outputPath = join(testDir, 'signals.json');
 
     // limit:0 triggers validation error before it can reach "no signals" check
@@ -95,7 +172,250 @@ describe('scrapeCommand', () => {
       output: outputPath,
     });
 
+    expect(mockedCreateScraper).toHaveBeenCalledWith(
+      'reddit',
+      { subreddits: ['vscode', 'gaming'], limit: 5 },
+      expect.anything()
+    );
+  });
+
+  it('should pass queries, repositories and tags to scrapers', async () => {
+    await scrapeCommand({
+      sources: ['github', 'stackoverflow'],
+      queries: ['slow startup'],
+      repos: ['microsoft/vscode'],
+      tags: ['visual-studio-code'],
+      limit: 2,
+      output: join(testDir, 'signals.json'),
+    });
+
+    expect(mockedCreateScraper).toHaveBeenCalledWith(
+      'github',
+      {
+        queries: ['slow startup'],
+        repos: ['microsoft/vscode'],
+        tags: ['visual-studio-code'],
+        limit: 2,
+      },
+      expect.anything()
+    );
+    expect(mockedCreateScraper).toHaveBeenCalledTimes(2);
+  });
+
+  it('should continue with other sources when one fails', async () => {
+    const outputPath = join(testDir, 'signals.json');
+    mockedCreateScraper.mockImplementation((source) => {
+      if (source === 'twitter') {
+        throw new Error('Missing required environment variable: TWITTER_BEARER_TOKEN');
+      }
+      return fakeScraper();
+    });
+
+    await scrapeCommand({
+      sources: ['twitter', 'hackernews'],
+      limit: 3,
+      output: outputPath,
+    });
+
     const signals = await readSignals(outputPath);
-    expect(signals).toHaveLength(5);
+    expect(signals.map((signal) => signal.source)).toEqual([
+      'hackernews',
+      'hackernews',
+      'hackernews',
+    ]);
+  });
+
+  it('should throw error when no signals are scraped', async () => {
+    mockedCreateScraper.mockImplementation(() => fakeScraper(false));
+
+    await expect(
+      scrapeCommand({
+        sources: ['reddit'],
+        output: join(testDir, 'signals.json'),
+      })
+    ).rejects.toThrow('No signals were scraped');
+  });
+
+  it('should save signals to storage when a data directory is given', async () => {
+    const dataDir = join(testDir, 'data');
+
+    await scrapeCommand({
+      sources: ['reddit'],
+      limit: 2,
+      output: join(testDir, 'signals.json'),
+      dataDir,
+    });
+
+    const stored = await new FileSystemStorage(dataDir).loadSignals();
+    expect(stored.map((signal) => signal.id)).toEqual(['reddit-0', 'reddit-1']);
+    expect(stored[0]).toMatchObject({ type: 'post', author: 'user_0' });
+  });
+
+  describe('with sqlite storage configured', () => {
+    const savedEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...savedEnv };
+    });
+
+    it('should save signals and cursors to the configured database', async () => {
+      const database = join(testDir, 'signals.db');
+      process.env['RGS_STORAGE_TYPE'] = 'sqlite';
+      process.env['RGS_STORAGE_PATH'] = database;
+      mockedCreateScraper.mockImplementation(() =>
+        incrementalScraper(['2024-01-01T00:00:00Z', '2024-01-02T00:00:00Z'])
+      );
+
+      await scrapeCommand({
+        sources: ['reddit'],
+        output: join(testDir, 'signals.json'),
+        dataDir: join(testDir, 'data'),
+        incremental: true,
+      });
+
+      const storage = new SqliteStorage(database);
+      try {
+        const stored = await storage.loadSignals();
+        expect(stored.map((signal) => signal.id).sort()).toEqual(['reddit-0', 'reddit-1']);
+        expect(await storage.searchSignals('Signal 1')).toHaveLength(1);
+        expect(await storage.loadCursors()).toEqual([
+          expect.objectContaining({ source: 'reddit', scope: 'vscode', lastSeenId: 'reddit-1' }),
+        ]);
+      } finally {
+        storage.close();
+      }
+      expect(await new FileSystemStorage(join(testDir, 'data')).loadSignals()).toEqual([]);
+    });
+
+    it('should resume from cursors saved in the database', async () => {
+      const dataDir = join(testDir, 'data');
+      process.env['RGS_STORAGE_TYPE'] = 'sqlite';
+      delete process.env['RGS_STORAGE_PATH'];
+      const storage = new SqliteStorage(join(dataDir, 'rgs.db'));
+      try {
+        await storage.saveCursors([
+          createScrapeCursor({
+            source: 'reddit',
+            scope: 'vscode',
+            lastSeenId: 'reddit-0',
+            lastSeenAt: new Date('2024-01-01T00:00:00Z'),
+          }),
+        ]);
+      } finally {
+        storage.close();
+      }
+      mockedCreateScraper.mockImplementation(() =>
+        incrementalScraper(['2024-01-01T00:00:00Z', '2024-01-02T00:00:00Z'])
+      );
+      const outputPath = join(testDir, 'signals.json');
+
+      await scrapeCommand({ sources: ['reddit'], output: outputPath, dataDir, incremental: true });
+
+      const signals = await readSignals(outputPath);
+      expect(signals.map((signal) => signal.id)).toEqual(['reddit-1']);
+    });
+  });
+
+  describe('incremental', () => {
+    const timestamps = ['2024-01-01T00:00:00Z', '2024-01-02T00:00:00Z'];
+
+    it('should save the cursors reached by each scraper', async () => {
+      const dataDir = join(testDir, 'data');
+      mockedCreateScraper.mockImplementation(() => incrementalScraper(timestamps));
+
+      await scrapeCommand({
+        sources: ['reddit'],
+        output: join(testDir, 'signals.json'),
+        dataDir,
+        incremental: true,
+      });
+
+      const cursors = await new FileSystemStorage(dataDir).loadCursors();
+      expect(cursors).toEqual([
+        expect.objectContaining({ source: 'reddit', scope: 'vscode', lastSeenId: 'reddit-1' }),
+      ]);
+    });
+
+    it('should pass saved cursors to scrapers and keep only new signals', async () => {
+      const dataDir = join(testDir, 'data');
+      await new FileSystemStorage(dataDir).saveCursors([
+        createScrapeCursor({
+          source: 'reddit',
+          scope: 'vscode',
+          lastSeenId: 'reddit-0',
+          lastSeenAt: new Date(timestamps[0]!),
+        }),
+      ]);
+      const scraper = incrementalScraper(timestamps);
+      mockedCreateScraper.mockImplementation(() => scraper);
+      const outputPath = join(testDir, 'signals.json');
+
+      await scrapeCommand({
+        sources: ['reddit'],
+        output: outputPath,
+        dataDir,
+        incremental: true,
+      });
+
+      expect(scraper.received[0]?.cursors).toEqual([
+        expect.objectContaining({ lastSeenId: 'reddit-0' }),
+      ]);
+      const signals = await readSignals(outputPath);
+      expect(signals.map((signal) => signal.id)).toEqual(['reddit-1']);
+    });
+
+    it('should succeed when there is nothing new', async () => {
+      const dataDir = join(testDir, 'data');
+      await new FileSystemStorage(dataDir).saveCursors([
+        createScrapeCursor({
+          source: 'reddit',
+          scope: 'vscode',
+          lastSeenId: 'reddit-1',
+          lastSeenAt: new Date(timestamps[1]!),
+        }),
+      ]);
+      mockedCreateScraper.mockImplementation(() => incrementalScraper(timestamps));
+
+      await expect(
+        scrapeCommand({
+          sources: ['reddit'],
+          output: join(testDir, 'signals.json'),
+          dataDir,
+          incremental: true,
+        })
+      ).resolves.toBeUndefined();
+    });
+
+    it('should not pass cursors without the incremental option', async () => {
+      const dataDir = join(testDir, 'data');
+      await new FileSystemStorage(dataDir).saveCursors([
+        createScrapeCursor({
+          source: 'reddit',
+          scope: 'vscode',
+          lastSeenId: 'reddit-1',
+          lastSeenAt: new Date(timestamps[1]!),
+        }),
+      ]);
+      const scraper = incrementalScraper(timestamps);
+      mockedCreateScraper.mockImplementation(() => scraper);
+
+      await scrapeCommand({
+        sources: ['reddit'],
+        output: join(testDir, 'signals.json'),
+        dataDir,
+      });
+
+      expect(scraper.received[0]?.cursors).toBeUndefined();
+    });
+
+    it('should require a data directory', async () => {
+      await expect(
+        scrapeCommand({
+          sources: ['reddit'],
+          output: join(testDir, 'signals.json'),
+          incremental: true,
+        })
+      ).rejects.toThrow('Incremental scraping requires a data directory');
+    });
   });
 });
@@ -0,0 +1,299 @@
+/**
+ * Tests for analyzer factory
+ */
+
+import { WebSignal, createWebSignal } from '@rgs/core';
+import { Deduplicator } from '@rgs/analysis-deduplication/deduplicator';
+import { SentimentAnalyzer } from '@rgs/analysis-sentiment/analyzer';
+import { EnhancedSentimentAnalyzer } from '@rgs/analysis-sentiment-enhanced/analyzer';
+import type { ExtractedTheme } from '@rgs/analysis-themes/types';
+import {
+  SignalAnalyzer,
+  SentimentScorer,
+  ThemeSource,
+  createAnalyzer,
+} from '../../src/factories/analyzer';
+
+jest.mock('@rgs/analysis-sentiment/analyzer');
+jest.mock('@rgs/analysis-sentiment-enhanced/analyzer');
+
+const MockedSentimentAnalyzer = jest.mocked(SentimentAnalyzer);
+const MockedEnhancedSentimentAnalyzer = jest.mocked(EnhancedSentimentAnalyzer);
+
+const createSignal = (id: string, content: string): WebSignal =>
+  createWebSignal({
+    id,
+    source: 'reddit',
+    content,
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    url: `https://reddit.com/${id}`,
+    metadata: { score: 1 },
+  });
+
+const theme = (overrides: Partial<ExtractedTheme>): ExtractedTheme => ({
+  id: 'theme',
+  name: 'Theme',
+  category: 'pain',
+  sentiment: -0.5,
+  examples: [],
+  confidence: 0.8,
+  frequency: 2,
+  keywords: [],
+  ...overrides,
+});
+
+describe('SignalAnalyzer', () => {
+  const signals = [
+    createSignal('s1', 'The extension host startup is painfully slow on large workspaces'),
+    createSignal('s2', 'The extension host startup is painfully slow on large workspaces'),
+    createSignal('s3', 'I love the new remote development features, remote ssh works great'),
+    createSignal('s4', 'Please add better debugging support for remote development containers'),
+  ];
+
+  const scorer: SentimentScorer = {
+    scoreBatch: (contents) =>
+      Promise.resolve(
+        contents.map((content) =>
+          content.includes('slow')
+            ? { score: -0.8, emotions: ['frustration'] }
+            : content.includes('love')
+              ? { score: 0.9, emotions: ['joy', 'excitement'] }
+              : { score: 0.1, emotions: ['frustration'] }
+        )
+      ),
+  };
+
+  const themes: ThemeSource = {
+    extract: () =>
+      Promise.resolve([
+        theme({ id: 't1', name: 'Slow startup', keywords: ['startup', 'slow'] }),
+        theme({
+          id: 't2',
+          name: 'Remote development',
+          category: 'feature',
+          sentiment: 0.6,
+          confidence: 0.6,
+          keywords: ['remote'],
+        }),
+        theme({ id: 't3', name: 'Editor comparison', category: 'comparison', keywords: ['vim'] }),
+      ]),
+  };
+
+  it('should deduplicate signals before analysis', async () => {
+    const analyzer = new SignalAnalyzer(new Deduplicator());
+
+    const result = await analyzer.analyze(signals);
+
+    expect(result.signals).toHaveLength(3);
+    expect(result.duplicatesRemoved).toBe(1);
+  });
+
+  it('should annotate signals with sentiment and emotions', async () => {
+    const analyzer = new SignalAnalyzer(new Deduplicator(), scorer);
+
+    const result = await analyzer.analyze(signals);
+    const loved = result.signals.find((signal) => signal.id === 's3');
+
+    expect(loved?.sentiment).toBe(0.9);
+    expect(loved?.metadata).toEqual({ score: 1, emotions: ['joy', 'excitement'] });
+    expect(signals[2]?.metadata).toEqual({ score: 1 });
+  });
+
+  it('should summarize sentiment', async () => {
+    const analyzer = new SignalAnalyzer(new Deduplicator(), scorer);
+
+    const { insight } = await analyzer.analyze(signals);
+
+    expect(insight.sentiment.overall).toBeCloseTo(0.2 / 3);
+    expect(insight.sentiment.distribution.positive).toBeCloseTo(1 / 3);
+    expect(insight.sentiment.distribution.neutral).toBeCloseTo(1 / 3);
+    expect(insight.sentiment.distribution.negative).toBeCloseTo(1 / 3);
+    expect(insight.sentiment.positiveSignals).toEqual(['s3']);
+    expect(insight.sentiment.negativeSignals).toHaveLength(1);
+    expect(insight.language.emotionalIndicators[0]).toBe('frustration');
+  });
+
+  it('should categorize themes into pain points and desires', async () => {
+    const analyzer = new SignalAnalyzer(new Deduplicator(), scorer, themes);
+
+    const result = await analyzer.analyze(signals);
+
+    expect(result.themes.map((t) => [t.name, t.category])).toEqual([
+      ['Slow startup', 'pain'],
+      ['Remote development', 'desire'],
+      ['Editor comparison', 'neutral'],
+    ]);
+    expect(result.insight.painPoints).toEqual(['Slow startup']);
+    expect(result.insight.desires).toEqual(['Remote development']);
+    expect(result.insight.themes[0]).toEqual({
+      name: 'Slow startup',
+      confidence: 0.8,
+      frequency: 2,
+      keywords: ['startup', 'slow'],
+    });
+  });
+
+  it('should tag signals with the themes they mention', async () => {
+    const analyzer = new SignalAnalyzer(new Deduplicator(), scorer, themes);
+
+    const result = await analyzer.analyze(signals);
+
+    expect(result.signals.find((s) => s.id === 's3')?.themes).toEqual(['Remote development']);
+    expect(result.signals.find((s) => s.id === 's4')?.themes).toEqual(['Remote development']);
+  });
+
+  it('should scale confidence by sample size and theme confidence', async () => {
+    const analyzer = new SignalAnalyzer(new Deduplicator(), scorer, themes);
+
+    const { insight } = await analyzer.analyze(signals);
+
+    expect(insight.confidence).toBeCloseTo((3 / 100) * ((0.8 + 0.6 + 0.8) / 3));
+  });
+
+  it('should build a neutral insight when sentiment and themes are skipped', async () => {
+    const analyzer = new SignalAnalyzer(new Deduplicator());
+
+    const { insight } = await analyzer.analyze(signals);
+
+    expect(insight.sentiment).toEqual({
+      overall: 0,
+      distribution: { positive: 0, neutral: 1, negative: 0 },
+      positiveSignals: [],
+      negativeSignals: [],
+    });
+    expect(insight.themes).toEqual([]);
+    expect(insight.language.tone).toBe('neutral');
+    expect(insight.language.frequentTerms['extension']).toBe(1);
+  });
+
+  it('should find phrases repeated across signals', async () => {
+    const analyzer = new SignalAnalyzer(new Deduplicator());
+
+    const { insight } = await analyzer.analyze(signals);
+
+    expect(insight.language.commonPhrases).toContain('remote development');
+    expect(insight.language.commonPhrases).not.toContain('remote ssh');
+  });
+});
+
+describe('createAnalyzer', () => {
+  const originalKey = process.env['ANTHROPIC_API_KEY'];
+
+  beforeEach(() => {
+    delete process.env['ANTHROPIC_API_KEY'];
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    if (originalKey !== undefined) {
+      process.env['ANTHROPIC_API_KEY'] = originalKey;
+    }
+  });
+
+  it('should require an API key for sentiment or theme analysis', () => {
+    expect(() => createAnalyzer()).toThrow('ANTHROPIC_API_KEY environment variable is required');
+    expect(() => createAnalyzer({ skipThemes: true })).toThrow('ANTHROPIC_API_KEY');
+  });
+
+  it('should not require an API key when both analyses are skipped', () => {
+    expect(createAnalyzer({ skipSentiment: true, skipThemes: true })).toBeInstanceOf(
+      SignalAnalyzer
+    );
+  });
+
+  it('should read the API key from the environment', () => {
+    process.env['ANTHROPIC_API_KEY'] = 'env-key';
+
+    createAnalyzer({ skipThemes: true });
+
+    expect(MockedSentimentAnalyzer).toHaveBeenCalledWith({ apiKey: 'env-key' });
+  });
+
+  it('should use the enhanced sentiment analyzer when requested', async () => {
+    MockedEnhancedSentimentAnalyzer.prototype.analyzeBatch.mockResolvedValue([
+      {
+        scale: 5,
+        score: 1,
+        magnitude: 0.9,
+        emotions: [{ label: 'delighted', intensity: 0.9 }],
+        confidence: 0.9,
+        reasoning: 'Very positive',
+      },
+    ]);
+
+    const analyzer = createAnalyzer({
+      apiKey: 'key',
+      enhancedSentiment: true,
+      skipThemes: true,
+    });
+    const result = await analyzer.analyze([createSignal('s1', 'Absolutely love it')]);
+
+    expect(MockedSentimentAnalyzer).not.toHaveBeenCalled();
+    expect(result.signals[0]?.sentiment).toBe(1);
+    expect(result.signals[0]?.metadata['emotions']).toEqual(['delighted']);
+  });
+
+  it('should score sentiment offline with the lexicon provider', async () => {
+    const analyzer = createAnalyzer({ sentimentProvider: 'lexicon', skipThemes: true });
+    const result = await analyzer.analyze([
+      createSignal('s1', 'Remote ssh just works, I love it'),
+      createSignal('s2', 'The debugger is buggy and crashes constantly'),
+    ]);
+
+    expect(MockedSentimentAnalyzer).not.toHaveBeenCalled();
+    expect(MockedEnhancedSentimentAnalyzer).not.toHaveBeenCalled();
+    expect(result.signals[0]?.sentiment).toBeGreaterThan(0.5);
+    expect(result.signals[1]?.sentiment).toBeLessThan(-0.5);
+    expect(result.signals[0]?.metadata['emotions']).toContain('delighted');
+  });
+
+  it('should still require an API key for themes with the lexicon provider', () => {
+    expect(() => createAnalyzer({ sentimentProvider: 'lexicon' })).toThrow(
+      'ANTHROPIC_API_KEY environment variable is required for theme extraction; skip themes to analyze offline'
+    );
+  });
+
+  it('should reject enhanced sentiment with the lexicon provider', () => {
+    expect(() =>
+      createAnalyzer({
+        apiKey: 'key',
+        sentimentProvider: 'lexicon',
+        enhancedSentiment: true,
+        skipThemes: true,
+      })
+    ).toThrow('cannot be combined with the lexicon sentiment provider');
+  });
+
+  it('should only send uncertain signals to Claude with the hybrid provider', async () => {
+    const analyzeBatch = MockedSentimentAnalyzer.prototype.analyzeBatch.mockResolvedValue([
+      { score: 0.3, magnitude: 0.3, emotions: ['curious'], confidence: 0.8, reasoning: 'Curious' },
+    ]);
+
+    const analyzer = createAnalyzer({
+      apiKey: 'key',
+      sentimentProvider: 'hybrid',
+      skipThemes: true,
+    });
+    const result = await analyzer.analyze([
+      createSignal('s1', 'Fast, stable and reliable'),
+      createSignal('s2', 'How do I configure the proxy settings'),
+    ]);
+
+    expect(analyzeBatch).toHaveBeenCalledWith(['How do I configure the proxy settings']);
+    expect(result.signals[0]?.sentiment).toBeGreaterThan(0.5);
+    expect(result.signals[1]?.sentiment).toBe(0.3);
+    expect(result.signals[1]?.metadata['emotions']).toEqual(['curious']);
+  });
+
+  it('should not call Claude when the lexicon is confident about every signal', async () => {
+    const analyzeBatch = MockedSentimentAnalyzer.prototype.analyzeBatch.mockResolvedValue([]);
+    const analyzer = createAnalyzer({
+      apiKey: 'key',
+      sentimentProvider: 'hybrid',
+      skipThemes: true,
+    });
+    await analyzer.analyze([createSignal('s1', 'Fast, stable and reliable')]);
+
+    expect(analyzeBatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for scraper factory
+ */
+
+import { IScraper } from '@rgs/core';
+import { RedditScraper } from '@rgs/scraper-reddit/scraper';
+import { TwitterScraper } from '@rgs/scrapers-twitter/scraper';
+import { GitHubScraper } from '@rgs/scraper-github/scraper';
+import { HackerNewsScraper } from '@rgs/scrapers-hackernews/scraper';
+import { StackOverflowScraper } from '@rgs/scrapers-stackoverflow/scraper';
+import { createScraper, SUPPORTED_SOURCES } from '../../src/factories/scraper';
+
+/**
+ * Reads the resolved configuration a scraper was built with
+ */
+function configOf(scraper: IScraper): Record<string, unknown> {
+  return (scraper as unknown as { config: Record<string, unknown> }).config;
+}
+
+describe('createScraper', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      REDDIT_CLIENT_ID: 'reddit-id',
+      REDDIT_CLIENT_SECRET: 'reddit-secret',
+      TWITTER_BEARER_TOKEN: 'twitter-token',
+      GITHUB_TOKEN: 'ghp_test',
+    };
+    delete process.env['STACKEXCHANGE_KEY'];
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should list every supported source', () => {
+    expect(SUPPORTED_SOURCES).toEqual([
+      'reddit',
+      'twitter',
+      'github',
+      'hackernews',
+      'stackoverflow',
+    ]);
+  });
+
+  it('should throw error for unknown sources', () => {
+    expect(() => createScraper('mastodon')).toThrow('Unknown source: mastodon');
+  });
+
+  describe('reddit', () => {
+    it('should create a Reddit scraper with subreddits and limit', () => {
+      const scraper = createScraper('reddit', { subreddits: ['vscode'], limit: 5 });
+
+      expect(scraper).toBeInstanceOf(RedditScraper);
+      expect(configOf(scraper)).toMatchObject({ subreddits: ['vscode'], postsPerSubreddit: 5 });
+    });
+
+    it('should throw error without credentials', () => {
+      delete process.env['REDDIT_CLIENT_ID'];
+
+      expect(() => createScraper('reddit')).toThrow('Failed to initialize Reddit scraper');
+    });
+  });
+
+  describe('twitter', () => {
+    it('should create a Twitter scraper with search queries', () => {
+      const scraper = createScraper('twitter', { queries: ['vscode slow'] });
+
+      expect(scraper).toBeInstanceOf(TwitterScraper);
+      expect(configOf(scraper)['queries']).toEqual(['vscode slow -is:retweet']);
+    });
+
+    it('should throw error without a bearer token', () => {
+      delete process.env['TWITTER_BEARER_TOKEN'];
+
+      expect(() => createScraper('twitter')).toThrow('TWITTER_BEARER_TOKEN');
+    });
+  });
+
+  describe('github', () => {
+    it('should create a GitHub scraper for repositories and queries', () => {
+      const scraper = createScraper('github', {
+        repos: ['microsoft/vscode'],
+        queries: ['performance'],
+        limit: 500,
+      });
+
+      expect(scraper).toBeInstanceOf(GitHubScraper);
+      expect(configOf(scraper)).toMatchObject({
+        token: 'ghp_test',
+        repos: ['microsoft/vscode'],
+        queries: ['performance'],
+        maxIssuesPerQuery: 100,
+      });
+    });
+
+    it('should require repositories and queries', () => {
+      expect(() => createScraper('github', { queries: ['performance'] })).toThrow(
+        'GitHub source requires at least one repository'
+      );
+      expect(() => createScraper('github', { repos: ['microsoft/vscode'] })).toThrow(
+        'GitHub source requires at least one query'
+      );
+    });
+
+    it('should throw error without a token', () => {
+      delete process.env['GITHUB_TOKEN'];
+
+      expect(() =>
+        createScraper('github', { repos: ['microsoft/vscode'], queries: ['performance'] })
+      ).toThrow('GITHUB_TOKEN environment variable is required');
+    });
+  });
+
+  describe('hackernews', () => {
+    it('should create a Hacker News scraper with queries and limit', () => {
+      const scraper = createScraper('hackernews', { queries: ['cursor'], limit: 20 });
+
+      expect(scraper).toBeInstanceOf(HackerNewsScraper);
+      expect(configOf(scraper)).toMatchObject({ queries: ['cursor'], maxResultsPerQuery: 20 });
+    });
+
+    it('should use default queries', () => {
+      const scraper = createScraper('hackernews');
+
+      expect(configOf(scraper)['queries']).toEqual(['vscode', 'cursor ai', 'github copilot']);
+    });
+  });
+
+  describe('stackoverflow', () => {
+    it('should create a Stack Overflow scraper with tags, queries and limit', () => {
+      const scraper = createScraper('stackoverflow', {
+        tags: ['vscode-extensions'],
+        queries: ['slow startup'],
+        limit: 30,
+      });
+
+      expect(scraper).toBeInstanceOf(StackOverflowScraper);
+      expect(configOf(scraper)).toMatchObject({
+        tags: ['vscode-extensions'],
+        queries: ['slow startup'],
+        maxQuestionsPerQuery: 30,
+      });
+    });
+
+    it('should use the app key from the environment', () => {
+      process.env['STACKEXCHANGE_KEY'] = 'app-key';
+
+      const scraper = createScraper('stackoverflow');
+
+      expect(configOf(scraper)['key']).toBe('app-key');
+    });
+
+    it('should reject invalid tags', () => {
+      expect(() => createScraper('stackoverflow', { tags: ['Not A Tag'] })).toThrow('Invalid tag');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for storage factory
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FileSystemStorage, SqliteStorage } from '@rgs/storage';
+import { createStorage } from '../../src/factories/storage';
+import { fileExists } from '../../src/utils/fileio';
+
+describe('createStorage', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `rgs-test-${Date.now()}`);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should use the data directory for filesystem storage', () => {
+    expect(createStorage(testDir, { type: 'filesystem', path: 'data/rgs' })).toBeInstanceOf(
+      FileSystemStorage
+    );
+  });
+
+  it('should use the configured database file for sqlite storage', async () => {
+    const database = join(testDir, 'custom.db');
+    const storage = createStorage(join(testDir, 'data'), { type: 'sqlite', path: database });
+
+    expect(storage).toBeInstanceOf(SqliteStorage);
+    await storage.initialize();
+    storage.close?.();
+    expect(await fileExists(database)).toBe(true);
+  });
+
+  it('should default the sqlite database to rgs.db under the data directory', async () => {
+    const storage = createStorage(testDir, { type: 'sqlite' });
+
+    await storage.initialize();
+    storage.close?.();
+    expect(await fileExists(join(testDir, 'rgs.db'))).toBe(true);
+  });
+
+  it('should reject memory storage', () => {
+    expect(() => createStorage(testDir, { type: 'memory' })).toThrow(
+      'Memory storage cannot keep signals or cursors between CLI runs'
+    );
+  });
+});
@@ -45,8 +45,13 @@ describe('CLI entry point', () => {
 
         expect(options).toContain('--sources');
         expect(options).toContain('--subreddits');
+        expect(options).toContain('--queries');
+        expect(options).toContain('--repos');
+        expect(options).toContain('--tags');
         expect(options).toContain('--limit');
         expect(options).toContain('--output');
+        expect(options).toContain('--data-dir');
+        expect(options).toContain('--incremental');
       }
     });
 
@@ -62,6 +67,10 @@ describe('CLI entry point', () => {
         expect(options).toContain('--output');
         expect(options).toContain('--skip-sentiment');
         expect(options).toContain('--skip-themes');
+        expect(options).toContain('--enhanced-sentiment');
+        expect(options).toContain('--sentiment-provider');
+        expect(options).toContain('--data-dir');
+        expect(options).toContain('--report-dir');
       }
     });
 
@@ -77,5 +86,18 @@ describe('CLI entry point', () => {
         expect(options).toContain('--output');
       }
     });
+
+    it('should have correct migrate options', () => {
+      const program = createProgram();
+      const migrateCommand = program.commands.find((c) => c.name() === 'migrate');
+
+      expect(migrateCommand).toBeDefined();
+      if (migrateCommand !== undefined) {
+        const options = migrateCommand.options.map((o) => o.long);
+
+        expect(options).toContain('--data-dir');
+        expect(options).toContain('--database');
+      }
+    });
   });
 });
@@ -0,0 +1,173 @@
+/**
+ * Tests for storage utilities
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { WebSignal, createWebSignal, createSentimentAnalysis } from '@rgs/core';
+import { FileSystemStorage } from '@rgs/storage';
+import type { CategorizedTheme } from '@rgs/reporter/types';
+import {
+  toStoredInsights,
+  persistSignals,
+  persistInsights,
+  loadThemeHistory,
+  persistThemeHistory,
+} from '../../src/utils/storage';
+
+describe('storage utilities', () => {
+  const signal = (overrides: Partial<WebSignal> = {}): WebSignal => ({
+    ...createWebSignal({
+      id: 'reddit-1',
+      source: 'reddit',
+      content: 'Startup is slow',
+      timestamp: new Date('2024-01-01T12:00:00Z'),
+      url: 'https://reddit.com/r/vscode/1',
+      metadata: { score: 10 },
+    }),
+    ...overrides,
+  });
+
+  describe('toStoredInsights', () => {
+    const sentiment = createSentimentAnalysis({
+      overall: -0.2,
+      distribution: { positive: 0.25, neutral: 0.25, negative: 0.5 },
+      positiveSignals: ['reddit-2'],
+      negativeSignals: ['reddit-1'],
+    });
+    const themes: CategorizedTheme[] = [
+      {
+        name: 'Slow startup',
+        confidence: 0.8,
+        frequency: 2,
+        keywords: ['startup', 'slow'],
+        category: 'pain',
+        sentiment: -0.6,
+      },
+      {
+        name: 'Remote development',
+        confidence: 0.6,
+        frequency: 1,
+        keywords: ['remote'],
+        category: 'desire',
+        sentiment: 0.4,
+      },
+    ];
+    const generatedAt = new Date('2024-01-02T00:00:00Z');
+
+    it('should create a sentiment summary and one insight per theme', () => {
+      const insights = toStoredInsights(
+        [signal({ themes: ['Slow startup'] }), signal({ id: 'reddit-2' })],
+        themes,
+        sentiment,
+        generatedAt
+      );
+
+      expect(insights.map((insight) => insight.category)).toEqual([
+        'user-feedback',
+        'pain-point',
+        'feature-request',
+      ]);
+      expect(insights[0]).toMatchObject({
+        title: 'Overall sentiment',
+        summary:
+          'Overall sentiment -0.20 across 2 signals (25.0% positive, 25.0% neutral, 50.0% negative)',
+        sources: ['reddit-2', 'reddit-1'],
+        timestamp: '2024-01-02T00:00:00.000Z',
+      });
+      expect(insights[1]).toMatchObject({
+        title: 'Slow startup',
+        confidence: 0.8,
+        sources: ['reddit-1'],
+      });
+    });
+
+    it('should give every insight a unique ID', () => {
+      const insights = toStoredInsights([signal()], themes, sentiment, generatedAt);
+
+      expect(new Set(insights.map((insight) => insight.id)).size).toBe(insights.length);
+    });
+  });
+
+  describe('persistence', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `rgs-test-${Date.now()}`);
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      try {
+        await fs.rm(testDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
+      }
+    });
+
+    it('should save signals through file system storage', async () => {
+      const signals = [
+        signal({ type: 'post', author: 'dev', sentiment: -0.6, themes: ['Slow startup'] }),
+        signal({ id: 'reddit-2' }),
+      ];
+
+      await persistSignals(testDir, signals);
+
+      const stored = await new FileSystemStorage(testDir).loadSignals();
+      expect(stored).toEqual(signals);
+    });
+
+    it('should save insights through file system storage', async () => {
+      const sentiment = createSentimentAnalysis({
+        overall: 0,
+        distribution: { positive: 0, neutral: 1, negative: 0 },
+        positiveSignals: [],
+        negativeSignals: [],
+      });
+
+      await persistInsights(testDir, toStoredInsights([signal()], [], sentiment));
+
+      const stored = await new FileSystemStorage(testDir).loadInsights();
+      expect(stored).toHaveLength(1);
+      expect(stored[0]?.title).toBe('Overall sentiment');
+    });
+
+    it('should round-trip the theme history', async () => {
+      const history = {
+        runs: ['2024-01-01T00:00:00.000Z'],
+        themes: [
+          {
+            id: 'slow-startup',
+            name: 'Slow startup',
+            keywords: ['startup', 'slow'],
+            observations: [
+              {
+                runAt: '2024-01-01T00:00:00.000Z',
+                name: 'Slow startup',
+                frequency: 2,
+                sentiment: -0.6,
+              },
+            ],
+          },
+        ],
+      };
+
+      expect(await loadThemeHistory(testDir)).toBeUndefined();
+      await persistThemeHistory(testDir, history);
+      expect(await loadThemeHistory(testDir)).toEqual(history);
+    });
+
+    it('should reject a malformed theme history', async () => {
+      await fs.writeFile(join(testDir, 'theme-history.json'), '{"runs": "yesterday"}');
+
+      await expect(loadThemeHistory(testDir)).rejects.toThrow('Invalid theme history');
+    });
+
+    it('should reject signals the storage schema does not accept', async () => {
+      await expect(persistSignals(testDir, [signal({ url: 'not a url' })])).rejects.toThrow(
+        'Invalid signal data'
+      );
+    });
+  });
+});
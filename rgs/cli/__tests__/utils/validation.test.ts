@@ -80,6 +80,19 @@ describe('validation utilities', () => {
       expect(result).toEqual(options);
     });
 
+    it('should validate sentiment providers', () => {
+      const options = {
+        input: '/path/to/input.json',
+        output: '/path/to/output.json',
+        sentimentProvider: 'hybrid',
+      };
+
+      expect(validateOptions(analyzeOptionsSchema, options)).toEqual(options);
+      expect(() =>
+        validateOptions(analyzeOptionsSchema, { ...options, sentimentProvider: 'vader' })
+      ).toThrow('Invalid options');
+    });
+
     it('should reject options without input', () => {
       const options = {
         input: '',
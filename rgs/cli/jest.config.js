@@ -1,6 +1,9 @@
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.test.json' }],
+  },
   roots: ['<rootDir>/__tests__'],
   testMatch: ['**/*.test.ts'],
   collectCoverageFrom: [
@@ -25,5 +28,15 @@ module.exports = {
     '^@rgs/storage$': '<rootDir>/../storage/src/index.ts',
     '^@rgs/utils/(.*)$': '<rootDir>/../utils/src/$1',
     '^@rgs/utils$': '<rootDir>/../utils/src/index.ts',
+    '^@rgs/scraper-reddit/(.*)$': '<rootDir>/../scrapers/reddit/src/$1',
+    '^@rgs/scrapers-twitter/(.*)$': '<rootDir>/../scrapers/twitter/src/$1',
+    '^@rgs/scraper-github/(.*)$': '<rootDir>/../scrapers/github/src/$1',
+    '^@rgs/scrapers-hackernews/(.*)$': '<rootDir>/../scrapers/hackernews/src/$1',
+    '^@rgs/scrapers-stackoverflow/(.*)$': '<rootDir>/../scrapers/stackoverflow/src/$1',
+    '^@rgs/analysis-sentiment/(.*)$': '<rootDir>/../analysis/sentiment/src/$1',
+    '^@rgs/analysis-sentiment-enhanced/(.*)$': '<rootDir>/../analysis/sentiment-enhanced/src/$1',
+    '^@rgs/analysis-deduplication/(.*)$': '<rootDir>/../analysis/deduplication/src/$1',
+    '^@rgs/analysis-themes/(.*)$': '<rootDir>/../analysis/themes/src/$1',
+    '^@rgs/reporter/(.*)$': '<rootDir>/../reporter/src/$1',
   },
 };
@@ -4,12 +4,35 @@
  * Command to analyze web signals and generate insights.
  */
 
-import { WebSignal, Insight } from '@rgs/core';
-import { createAnalyzer } from '../placeholders/analyzer';
+import { promises as fs } from 'fs';
+import { WebSignal } from '@rgs/core';
+import { ThemeTracker } from '@rgs/analysis-themes/tracker';
+import type { ThemeTrend } from '@rgs/analysis-themes/types';
+import { ReportGenerator } from '@rgs/reporter/generator';
+import { createAnalyzer, AnalysisResult } from '../factories/analyzer';
 import { readSignals, writeInsight, fileExists } from '../utils/fileio';
-import { createSpinner, printSuccess, printError, printSummary, printInfo } from '../utils/output';
+import {
+  persistInsights,
+  toStoredInsights,
+  loadThemeHistory,
+  persistThemeHistory,
+} from '../utils/storage';
+import {
+  createSpinner,
+  createLogger,
+  printSuccess,
+  printError,
+  printWarning,
+  printSummary,
+  printInfo,
+} from '../utils/output';
 import { validateOptions, analyzeOptionsSchema } from '../utils/validation';
 
+/**
+ * Version recorded in generated reports
+ */
+const REPORT_VERSION = '0.1.0';
+
 /**
  * Execute the analyze command
  */
@@ -40,31 +63,39 @@ export async function analyzeCommand(options: unknown): Promise<void> {
     }
 
     // Create analyzer
-    const analyzer = createAnalyzer();
+    const analyzer = createAnalyzer({
+      skipSentiment: validatedOptions.skipSentiment === true,
+      skipThemes: validatedOptions.skipThemes === true,
+      enhancedSentiment: validatedOptions.enhancedSentiment === true,
+      ...(validatedOptions.sentimentProvider !== undefined && {
+        sentimentProvider: validatedOptions.sentimentProvider,
+      }),
+      logger: createLogger(),
+    });
 
     // Run analysis
     const analysisSpinner = createSpinner('Analyzing signals...').start();
 
-    let insight: Insight;
+    let result: AnalysisResult;
     try {
       if (validatedOptions.skipSentiment === true && validatedOptions.skipThemes === true) {
         printInfo('Both sentiment and theme analysis are skipped. Generating minimal insight...');
-        insight = await analyzer.generateInsight(signals);
-      } else {
-        // Generate full insight
-        analysisSpinner.text = 'Generating insight...';
-        insight = await analyzer.generateInsight(signals);
-
-        // Print analysis details
-        if (validatedOptions.skipSentiment !== true) {
-          printInfo(
-            `Sentiment: ${insight.sentiment.overall.toFixed(2)} (${(insight.sentiment.distribution.positive * 100).toFixed(1)}% positive, ${(insight.sentiment.distribution.negative * 100).toFixed(1)}% negative)`
-          );
-        }
+      }
+      result = await analyzer.analyze(signals);
 
-        if (validatedOptions.skipThemes !== true) {
-          printInfo(`Themes: ${insight.themes.length} themes identified`);
-        }
+      // Print analysis details
+      if (result.duplicatesRemoved > 0) {
+        printInfo(`Deduplication: removed ${result.duplicatesRemoved} near-duplicate signals`);
+      }
+
+      if (validatedOptions.skipSentiment !== true) {
+        printInfo(
+          `Sentiment: ${result.insight.sentiment.overall.toFixed(2)} (${(result.insight.sentiment.distribution.positive * 100).toFixed(1)}% positive, ${(result.insight.sentiment.distribution.negative * 100).toFixed(1)}% negative)`
+        );
+      }
+
+      if (validatedOptions.skipThemes !== true) {
+        printInfo(`Themes: ${result.themes.length} themes identified`);
       }
 
       analysisSpinner.succeed('Analysis completed');
@@ -73,6 +104,9 @@ export async function analyzeCommand(options: unknown): Promise<void> {
       throw error;
     }
 
+    const { insight } = result;
+    const generatedAt = new Date();
+
     // Write insight to file
     const writeSpinner = createSpinner('Writing insight to file...').start();
     try {
@@ -83,15 +117,88 @@ export async function analyzeCommand(options: unknown): Promise<void> {
       throw error;
     }
 
+    // Save insights to storage
+    if (validatedOptions.dataDir !== undefined) {
+      const storeSpinner = createSpinner('Saving insights to storage...').start();
+      try {
+        await persistInsights(
+          validatedOptions.dataDir,
+          toStoredInsights(result.signals, result.themes, insight.sentiment, generatedAt)
+        );
+        storeSpinner.succeed(`Saved insights to ${validatedOptions.dataDir}`);
+      } catch (error) {
+        storeSpinner.fail('Failed to save insights to storage');
+        throw error;
+      }
+    }
+
+    // Track themes against earlier runs
+    let trends: ThemeTrend[] | undefined;
+    if (validatedOptions.dataDir !== undefined && result.themes.length > 0) {
+      const trendSpinner = createSpinner('Tracking theme trends...').start();
+      try {
+        const tracker = new ThemeTracker(await loadThemeHistory(validatedOptions.dataDir));
+        tracker.record(result.themes, generatedAt);
+        await persistThemeHistory(validatedOptions.dataDir, tracker.toHistory());
+        trends = tracker.trends();
+
+        const emerging = trends.filter((trend) => trend.status === 'emerging').length;
+        const fading = trends.filter((trend) => trend.status === 'fading').length;
+        trendSpinner.succeed(
+          trends.length > 0
+            ? `Theme trends: ${emerging} emerging, ${fading} fading`
+            : 'Recorded first run of theme history'
+        );
+      } catch (error) {
+        trendSpinner.fail('Failed to track theme trends');
+        throw error;
+      }
+    }
+
+    // Generate report
+    const reportPaths: string[] = [];
+    if (validatedOptions.reportDir !== undefined) {
+      if (result.themes.length === 0) {
+        printWarning('No themes identified, skipping report generation');
+      } else {
+        const reportSpinner = createSpinner('Generating report...').start();
+        try {
+          const report = await new ReportGenerator().generate(
+            {
+              signals: result.signals,
+              sentiment: insight.sentiment,
+              themes: result.themes,
+              ...(trends !== undefined && { trends }),
+              metadata: {
+                scrapedAt: new Date((await fs.stat(validatedOptions.input)).mtimeMs),
+                sources: [...new Set(result.signals.map((signal) => signal.source))],
+                totalSignals: result.signals.length,
+                generatedAt,
+                version: REPORT_VERSION,
+              },
+            },
+            { format: 'both', outputDir: validatedOptions.reportDir }
+          );
+          reportPaths.push(...report.filePaths);
+          reportSpinner.succeed(`Report written to ${report.filePaths.join(', ')}`);
+        } catch (error) {
+          reportSpinner.fail('Failed to generate report');
+          throw error;
+        }
+      }
+    }
+
     // Print summary
     printSummary('Analysis Summary', [
       ['Input Signals', signals.length],
+      ['Unique Signals', result.signals.length],
       ['Themes Identified', insight.themes.length],
       ['Sentiment Score', insight.sentiment.overall.toFixed(2)],
       ['Pain Points', insight.painPoints.length],
       ['Desires', insight.desires.length],
       ['Confidence', `${(insight.confidence * 100).toFixed(1)}%`],
       ['Output', validatedOptions.output],
+      ...(reportPaths.length > 0 ? [['Report', reportPaths.join(', ')] as [string, string]] : []),
     ]);
 
     printSuccess('Analysis completed successfully!');
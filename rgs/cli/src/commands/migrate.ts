@@ -0,0 +1,61 @@
+/**
+ * RGS CLI - Migrate Command
+ *
+ * Command to import a file system storage directory into a SQLite database.
+ */
+
+import { join } from 'path';
+import { FileSystemStorage, SqliteStorage, StorageImportResult } from '@rgs/storage';
+import { DEFAULT_DATABASE_FILE } from '../factories/storage';
+import { fileExists } from '../utils/fileio';
+import { createSpinner, printSuccess, printError, printSummary } from '../utils/output';
+import { validateOptions, migrateOptionsSchema } from '../utils/validation';
+
+/**
+ * Execute the migrate command
+ *
+ * Signals, insights and scrape cursors are copied; the directory is left as
+ * is. Records already in the database are replaced, so the command can be
+ * run again after further scrapes.
+ */
+export async function migrateCommand(options: unknown): Promise<void> {
+  try {
+    // Validate options
+    const validatedOptions = validateOptions(migrateOptionsSchema, options);
+    const database =
+      validatedOptions.database ?? join(validatedOptions.dataDir, DEFAULT_DATABASE_FILE);
+
+    const dataDirExists = await fileExists(validatedOptions.dataDir);
+    if (!dataDirExists) {
+      throw new Error(`Data directory not found: ${validatedOptions.dataDir}`);
+    }
+
+    const spinner = createSpinner(
+      `Importing ${validatedOptions.dataDir} into ${database}...`
+    ).start();
+    const storage = new SqliteStorage(database);
+    let result: StorageImportResult;
+    try {
+      result = await storage.importFrom(new FileSystemStorage(validatedOptions.dataDir));
+      spinner.succeed(`Imported ${validatedOptions.dataDir} into ${database}`);
+    } catch (error) {
+      spinner.fail('Failed to import data directory');
+      throw error;
+    } finally {
+      storage.close();
+    }
+
+    printSummary('Migration Summary', [
+      ['Data Directory', validatedOptions.dataDir],
+      ['Database', database],
+      ['Signals', result.signalsImported],
+      ['Insights', result.insightsImported],
+      ['Cursors', result.cursorsImported],
+    ]);
+
+    printSuccess('Migration completed successfully!');
+  } catch (error) {
+    printError(`Migrate command failed: ${(error as Error).message}`);
+    throw error;
+  }
+}
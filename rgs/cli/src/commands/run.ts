@@ -19,11 +19,16 @@ import { validateOptions, runOptionsSchema } from '../utils/validation';
 const configSchema = z.object({
   sources: z.array(z.string()).min(1, 'At least one source must be specified'),
   subreddits: z.array(z.string()).optional(),
+  queries: z.array(z.string()).optional(),
+  repos: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
   limit: z.number().int().positive().optional().default(10),
   analysis: z
     .object({
       skipSentiment: z.boolean().optional(),
       skipThemes: z.boolean().optional(),
+      enhancedSentiment: z.boolean().optional(),
+      sentimentProvider: z.enum(['claude', 'lexicon', 'hybrid']).optional(),
     })
     .optional(),
 });
@@ -71,6 +76,7 @@ export async function runCommand(options: unknown): Promise<void> {
 
     const signalsPath = join(validatedOptions.output, 'signals.json');
     const insightPath = join(validatedOptions.output, 'insight.json');
+    const dataDir = join(validatedOptions.output, 'data');
 
     // Step 1: Scrape
     printHeader('Step 1: Scraping');
@@ -81,15 +87,19 @@ export async function runCommand(options: unknown): Promise<void> {
       await scrapeCommand({
         sources: config.sources,
         subreddits: config.subreddits,
+        queries: config.queries,
+        repos: config.repos,
+        tags: config.tags,
         limit: config.limit,
         output: signalsPath,
+        dataDir,
       });
     } catch (error) {
       throw new Error(`Scraping failed: ${(error as Error).message}`);
     }
 
-    // Step 2: Analyze
-    printHeader('Step 2: Analysis');
+    // Step 2: Analyze and report
+    printHeader('Step 2: Analysis and Report');
     printInfo(`Input: ${signalsPath}`);
     printInfo(`Output: ${insightPath}`);
 
@@ -99,46 +109,15 @@ export async function runCommand(options: unknown): Promise<void> {
         output: insightPath,
         skipSentiment: config.analysis?.skipSentiment,
         skipThemes: config.analysis?.skipThemes,
+        enhancedSentiment: config.analysis?.enhancedSentiment,
+        sentimentProvider: config.analysis?.sentimentProvider,
+        dataDir,
+        reportDir: validatedOptions.output,
       });
     } catch (error) {
       throw new Error(`Analysis failed: ${(error as Error).message}`);
     }
 
-    // Step 3: Report
-    printHeader('Step 3: Report');
-    printInfo(`Signals: ${signalsPath}`);
-    printInfo(`Insight: ${insightPath}`);
-
-    // Generate a simple report
-    const reportPath = join(validatedOptions.output, 'report.txt');
-    const reportSpinner = createSpinner('Generating report...').start();
-
-    try {
-      const report = `
-RGS Pipeline Report
-===================
-
-Configuration:
-  - Sources: ${config.sources.join(', ')}
-  - Limit: ${config.limit} signals per source
-  ${config.subreddits !== undefined ? `- Subreddits: ${config.subreddits.join(', ')}` : ''}
-
-Output Files:
-  - Signals: ${signalsPath}
-  - Insight: ${insightPath}
-  - Report: ${reportPath}
-
-Status: Completed Successfully
-Generated: ${new Date().toISOString()}
-`;
-
-      await fs.writeFile(reportPath, report.trim(), 'utf-8');
-      reportSpinner.succeed(`Report written to ${reportPath}`);
-    } catch (error) {
-      reportSpinner.fail('Failed to generate report');
-      throw error;
-    }
-
     printHeader('Pipeline Complete');
     printSuccess('Full pipeline executed successfully!');
     printInfo(`All outputs saved to: ${validatedOptions.output}`);
@@ -4,10 +4,17 @@
  * Command to scrape web signals from various sources.
  */
 
-import { WebSignal } from '@rgs/core';
-import { createScraper } from '../placeholders/scraper';
+import { WebSignal, SourceType, ScrapeCursor } from '@rgs/core';
+import { createScraper } from '../factories/scraper';
 import { writeSignals } from '../utils/fileio';
-import { createSpinner, printSuccess, printError, printSummary } from '../utils/output';
+import { persistSignals, loadCursors, persistCursors } from '../utils/storage';
+import {
+  createSpinner,
+  createLogger,
+  printSuccess,
+  printError,
+  printSummary,
+} from '../utils/output';
 import { validateOptions, scrapeOptionsSchema } from '../utils/validation';
 
 /**
@@ -17,18 +24,42 @@ export async function scrapeCommand(options: unknown): Promise<void> {
   try {
     // Validate options
     const validatedOptions = validateOptions(scrapeOptionsSchema, options);
+    const incremental = validatedOptions.incremental === true;
+    if (incremental && validatedOptions.dataDir === undefined) {
+      throw new Error('Incremental scraping requires a data directory');
+    }
+
+    // Incremental scrapes resume from the cursors of the previous run
+    const cursors =
+      incremental && validatedOptions.dataDir !== undefined
+        ? await loadCursors(validatedOptions.dataDir)
+        : [];
 
     // Start scraping
     const spinner = createSpinner('Initializing scrapers...').start();
 
     const allSignals: WebSignal[] = [];
+    const reachedCursors: ScrapeCursor[] = [];
     const errors: Error[] = [];
+    const logger = createLogger();
 
     for (const source of validatedOptions.sources) {
       spinner.text = `Scraping ${source}...`;
 
       try {
-        const scraper = createScraper(source);
+        const scraper = createScraper(
+          source,
+          {
+            ...(validatedOptions.subreddits !== undefined && {
+              subreddits: validatedOptions.subreddits,
+            }),
+            ...(validatedOptions.queries !== undefined && { queries: validatedOptions.queries }),
+            ...(validatedOptions.repos !== undefined && { repos: validatedOptions.repos }),
+            ...(validatedOptions.tags !== undefined && { tags: validatedOptions.tags }),
+            ...(validatedOptions.limit !== undefined && { limit: validatedOptions.limit }),
+          },
+          logger
+        );
 
         // Test connection first
         const isConnected = await scraper.testConnection();
@@ -43,12 +74,14 @@ export async function scrapeCommand(options: unknown): Promise<void> {
         }
 
         const signals = await scraper.scrape({
-          type: source as 'reddit' | 'twitter',
+          type: source as SourceType,
           params,
           maxItems: validatedOptions.limit ?? 10,
+          ...(incremental && { cursors }),
         });
 
         allSignals.push(...signals);
+        reachedCursors.push(...(scraper.getCursors?.() ?? []));
         spinner.succeed(`Scraped ${signals.length} signals from ${source}`);
       } catch (error) {
         spinner.fail(`Failed to scrape ${source}`);
@@ -72,6 +105,22 @@ export async function scrapeCommand(options: unknown): Promise<void> {
         writeSpinner.fail('Failed to write signals to file');
         throw error;
       }
+
+      if (validatedOptions.dataDir !== undefined) {
+        const storeSpinner = createSpinner('Saving signals to storage...').start();
+        try {
+          await persistSignals(validatedOptions.dataDir, allSignals);
+          storeSpinner.succeed(`Saved ${allSignals.length} signals to ${validatedOptions.dataDir}`);
+        } catch (error) {
+          storeSpinner.fail('Failed to save signals to storage');
+          throw error;
+        }
+      }
+    }
+
+    // Advance cursors only once the new signals are saved
+    if (incremental && validatedOptions.dataDir !== undefined && reachedCursors.length > 0) {
+      await persistCursors(validatedOptions.dataDir, reachedCursors);
     }
 
     // Print summary
@@ -80,9 +129,11 @@ export async function scrapeCommand(options: unknown): Promise<void> {
       ['Total Signals', allSignals.length],
       ['Errors', errors.length],
       ['Output', validatedOptions.output],
+      ['Incremental', incremental ? 'yes' : 'no'],
     ]);
 
-    if (allSignals.length === 0) {
+    // An incremental scrape that finds nothing new has still succeeded
+    if (allSignals.length === 0 && (!incremental || errors.length > 0)) {
       throw new Error('No signals were scraped');
     }
 
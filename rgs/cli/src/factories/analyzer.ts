@@ -0,0 +1,480 @@
+/**
+ * RGS CLI - Analyzer Factory
+ *
+ * Combines deduplication, sentiment analysis (Claude-backed, offline lexicon
+ * or both) and theme extraction into a single analysis pass over scraped signals.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  WebSignal,
+  Insight,
+  SentimentAnalysis,
+  LanguagePatterns,
+  createTheme,
+  createSentimentAnalysis,
+  createInsight,
+} from '@rgs/core';
+import { Logger } from '@rgs/utils';
+import { Deduplicator } from '@rgs/analysis-deduplication/deduplicator';
+import { SentimentAnalyzer } from '@rgs/analysis-sentiment/analyzer';
+import { EnhancedSentimentAnalyzer } from '@rgs/analysis-sentiment-enhanced/analyzer';
+import { LexiconSentimentAnalyzer } from '@rgs/analysis-sentiment-enhanced/lexicon-analyzer';
+import { ThemeExtractor } from '@rgs/analysis-themes/extractor';
+import { KeywordClusterer } from '@rgs/analysis-themes/clusterer';
+import type { EnhancedSentiment } from '@rgs/analysis-sentiment-enhanced/types';
+import type { ExtractedTheme } from '@rgs/analysis-themes/types';
+import type { CategorizedTheme } from '@rgs/reporter/types';
+
+/**
+ * Sentiment score above which a signal counts as positive (and below the
+ * negative of which it counts as negative)
+ */
+const SENTIMENT_THRESHOLD = 0.2;
+
+/**
+ * Number of signals at which insight confidence is no longer limited by sample size
+ */
+const FULL_CONFIDENCE_SAMPLE = 100;
+
+/**
+ * Where sentiment scores come from
+ *
+ * - `claude`: every signal is scored by Claude
+ * - `lexicon`: every signal is scored offline by the lexicon analyzer
+ * - `hybrid`: the lexicon analyzer scores signals it is confident about and
+ *   only the rest are sent to Claude
+ */
+export type SentimentProvider = 'claude' | 'lexicon' | 'hybrid';
+
+/**
+ * Sentiment of a single signal, common to all sentiment analyzers
+ */
+export interface SignalSentiment {
+  readonly score: number;
+  readonly emotions: string[];
+}
+
+/**
+ * Scores the sentiment of many texts at once
+ */
+export interface SentimentScorer {
+  scoreBatch(contents: string[]): Promise<SignalSentiment[]>;
+}
+
+/**
+ * Extracts themes from signals
+ */
+export interface ThemeSource {
+  extract(signals: readonly WebSignal[]): Promise<ExtractedTheme[]>;
+}
+
+/**
+ * Result of analyzing a set of signals
+ */
+export interface AnalysisResult {
+  /**
+   * Deduplicated signals, annotated with sentiment and themes
+   */
+  readonly signals: WebSignal[];
+
+  /**
+   * Number of signals dropped as near-duplicates
+   */
+  readonly duplicatesRemoved: number;
+
+  /**
+   * Extracted themes, categorized for reporting
+   */
+  readonly themes: CategorizedTheme[];
+
+  /**
+   * Aggregated insight
+   */
+  readonly insight: Insight;
+}
+
+/**
+ * Options for creating an analyzer
+ */
+export interface AnalyzerOptions {
+  /**
+   * Anthropic API key (default: ANTHROPIC_API_KEY environment variable)
+   */
+  readonly apiKey?: string;
+
+  /**
+   * Use EnhancedSentimentAnalyzer instead of SentimentAnalyzer
+   * Only Claude-backed providers have an enhanced analyzer.
+   */
+  readonly enhancedSentiment?: boolean;
+
+  /**
+   * Sentiment provider (default: claude)
+   * Theme extraction always uses Claude, so `lexicon` only runs offline with
+   * skipThemes.
+   */
+  readonly sentimentProvider?: SentimentProvider;
+
+  /**
+   * Skip sentiment analysis
+   */
+  readonly skipSentiment?: boolean;
+
+  /**
+   * Skip theme extraction
+   */
+  readonly skipThemes?: boolean;
+
+  /**
+   * Similarity above which signals are treated as duplicates (default: 0.85)
+   */
+  readonly similarityThreshold?: number;
+
+  /**
+   * Logger passed to the analysis packages
+   */
+  readonly logger?: Logger;
+}
+
+/**
+ * Analyzes signals with the real analysis packages
+ *
+ * Signals are deduplicated first so repeated posts do not skew sentiment or
+ * theme frequencies. Sentiment and theme extraction are optional.
+ */
+export class SignalAnalyzer {
+  constructor(
+    private readonly deduplicator: Deduplicator,
+    private readonly sentiment?: SentimentScorer,
+    private readonly themes?: ThemeSource
+  ) {}
+
+  /**
+   * Analyze signals and build an insight
+   */
+  async analyze(signals: WebSignal[]): Promise<AnalysisResult> {
+    const { unique, stats } = await this.deduplicator.deduplicate(signals);
+
+    let analyzed = unique;
+    if (this.sentiment !== undefined && unique.length > 0) {
+      const scores = await this.sentiment.scoreBatch(unique.map((signal) => signal.content));
+      analyzed = unique.map((signal, i) => ({
+        ...signal,
+        sentiment: scores[i]?.score ?? 0,
+        metadata: { ...signal.metadata, emotions: scores[i]?.emotions ?? [] },
+      }));
+    }
+
+    const extracted = this.themes !== undefined ? await this.themes.extract(analyzed) : [];
+    const themes = extracted.map(categorizeTheme);
+    analyzed = analyzed.map((signal) => {
+      const matched = extracted.filter((theme) => mentionsTheme(signal, theme));
+      return matched.length > 0
+        ? { ...signal, themes: matched.map((theme) => theme.name) }
+        : signal;
+    });
+
+    return {
+      signals: analyzed,
+      duplicatesRemoved: stats.duplicates,
+      themes,
+      insight: buildInsight(analyzed, themes, this.sentiment !== undefined),
+    };
+  }
+}
+
+/**
+ * Factory function to create an analyzer
+ *
+ * @throws Error if enhanced sentiment is combined with the lexicon provider
+ * @throws Error if Claude is needed for sentiment or themes and no Anthropic API key is set
+ */
+export function createAnalyzer(options: AnalyzerOptions = {}): SignalAnalyzer {
+  const deduplicator = new Deduplicator(options.similarityThreshold);
+  const provider = options.sentimentProvider ?? 'claude';
+  if (
+    provider === 'lexicon' &&
+    options.enhancedSentiment === true &&
+    options.skipSentiment !== true
+  ) {
+    throw new Error(
+      'Enhanced sentiment analysis uses Claude and cannot be combined with the lexicon sentiment provider'
+    );
+  }
+
+  const needsClaude =
+    (options.skipSentiment !== true && provider !== 'lexicon') || options.skipThemes !== true;
+  if (!needsClaude) {
+    return new SignalAnalyzer(
+      deduplicator,
+      options.skipSentiment === true
+        ? undefined
+        : createLexiconScorer(new LexiconSentimentAnalyzer())
+    );
+  }
+
+  const apiKey = options.apiKey ?? process.env['ANTHROPIC_API_KEY'];
+  if (apiKey === undefined || apiKey.trim().length === 0) {
+    throw new Error(
+      provider === 'lexicon' || options.skipSentiment === true
+        ? 'ANTHROPIC_API_KEY environment variable is required for theme extraction; skip themes to analyze offline'
+        : 'ANTHROPIC_API_KEY environment variable is required for sentiment and theme analysis'
+    );
+  }
+
+  const sentiment =
+    options.skipSentiment === true
+      ? undefined
+      : createSentimentScorer(provider, apiKey, options.enhancedSentiment === true, options.logger);
+  const themes =
+    options.skipThemes === true
+      ? undefined
+      : new ThemeExtractor(
+          new Anthropic({ apiKey }),
+          new KeywordClusterer(),
+          undefined,
+          options.logger
+        );
+
+  return new SignalAnalyzer(deduplicator, sentiment, themes);
+}
+
+/**
+ * Create the scorer for a sentiment provider
+ */
+function createSentimentScorer(
+  provider: SentimentProvider,
+  apiKey: string,
+  enhanced: boolean,
+  logger?: Logger
+): SentimentScorer {
+  if (provider === 'lexicon') {
+    return createLexiconScorer(new LexiconSentimentAnalyzer());
+  }
+
+  const claude = createClaudeScorer(apiKey, enhanced, logger);
+  return provider === 'hybrid'
+    ? createHybridScorer(new LexiconSentimentAnalyzer(), claude)
+    : claude;
+}
+
+/**
+ * Adapt the lexicon analyzer to the common scorer interface
+ */
+function createLexiconScorer(analyzer: LexiconSentimentAnalyzer): SentimentScorer {
+  return {
+    scoreBatch: (contents) =>
+      Promise.resolve(contents.map((content) => toSignalSentiment(analyzer.score(content)))),
+  };
+}
+
+/**
+ * Score with the lexicon analyzer where it is confident and with Claude elsewhere
+ */
+function createHybridScorer(
+  lexicon: LexiconSentimentAnalyzer,
+  claude: SentimentScorer
+): SentimentScorer {
+  return {
+    scoreBatch: async (contents) => {
+      const prefiltered = lexicon.prefilter(contents);
+      const uncertain = contents.filter((_, i) => prefiltered[i] === undefined);
+      const scores = uncertain.length > 0 ? await claude.scoreBatch(uncertain) : [];
+
+      let next = 0;
+      return prefiltered.map((result) => {
+        if (result !== undefined) {
+          return toSignalSentiment(result);
+        }
+        return scores[next++] ?? { score: 0, emotions: [] };
+      });
+    },
+  };
+}
+
+/**
+ * Adapt either Claude-backed sentiment analyzer to the common scorer interface
+ */
+function createClaudeScorer(apiKey: string, enhanced: boolean, logger?: Logger): SentimentScorer {
+  if (enhanced) {
+    const analyzer = new EnhancedSentimentAnalyzer({ apiKey });
+    return {
+      scoreBatch: async (contents) =>
+        (await analyzer.analyzeBatch(contents)).map(toSignalSentiment),
+    };
+  }
+
+  const analyzer = new SentimentAnalyzer({ apiKey, ...(logger !== undefined && { logger }) });
+  return {
+    scoreBatch: async (contents) =>
+      (await analyzer.analyzeBatch(contents)).map((result) => ({
+        score: result.score,
+        emotions: [...result.emotions],
+      })),
+  };
+}
+
+/**
+ * Reduce an enhanced sentiment result to a signal sentiment
+ */
+function toSignalSentiment(result: EnhancedSentiment): SignalSentiment {
+  return {
+    score: result.score,
+    emotions: result.emotions.map((emotion) => emotion.label),
+  };
+}
+
+/**
+ * Map an extracted theme to the report categories
+ */
+function categorizeTheme(theme: ExtractedTheme): CategorizedTheme {
+  let category: CategorizedTheme['category'];
+  switch (theme.category) {
+    case 'pain':
+      category = 'pain';
+      break;
+    case 'desire':
+    case 'feature':
+      category = 'desire';
+      break;
+    case 'workflow':
+    case 'comparison':
+      category = 'neutral';
+      break;
+  }
+
+  return {
+    ...createTheme({
+      name: theme.name,
+      confidence: theme.confidence,
+      frequency: theme.frequency,
+      keywords: theme.keywords,
+    }),
+    category,
+    sentiment: theme.sentiment,
+  };
+}
+
+/**
+ * Check whether a signal mentions any of a theme's keywords
+ */
+function mentionsTheme(signal: WebSignal, theme: ExtractedTheme): boolean {
+  const content = signal.content.toLowerCase();
+  return theme.keywords.some((keyword) => content.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Build the insight for analyzed signals
+ */
+function buildInsight(
+  signals: WebSignal[],
+  themes: CategorizedTheme[],
+  hasSentiment: boolean
+): Insight {
+  const sentiment = summarizeSentiment(hasSentiment ? signals : []);
+  const sampleConfidence = Math.min(signals.length / FULL_CONFIDENCE_SAMPLE, 1);
+  const themeConfidence =
+    themes.length > 0 ? themes.reduce((sum, t) => sum + t.confidence, 0) / themes.length : 1;
+
+  return createInsight({
+    themes: themes.map(({ name, confidence, frequency, keywords }) =>
+      createTheme({ name, confidence, frequency, keywords })
+    ),
+    sentiment,
+    painPoints: themes.filter((t) => t.category === 'pain').map((t) => t.name),
+    desires: themes.filter((t) => t.category === 'desire').map((t) => t.name),
+    language: extractLanguagePatterns(signals, sentiment.overall),
+    confidence: sampleConfidence * themeConfidence,
+  });
+}
+
+/**
+ * Aggregate per-signal sentiment scores
+ */
+function summarizeSentiment(signals: WebSignal[]): SentimentAnalysis {
+  const scored = signals.filter((s) => s.sentiment !== undefined);
+  if (scored.length === 0) {
+    return createSentimentAnalysis({
+      overall: 0,
+      distribution: { positive: 0, neutral: 1, negative: 0 },
+      positiveSignals: [],
+      negativeSignals: [],
+    });
+  }
+
+  const score = (signal: WebSignal): number => signal.sentiment ?? 0;
+  const positive = scored.filter((s) => score(s) > SENTIMENT_THRESHOLD);
+  const negative = scored.filter((s) => score(s) < -SENTIMENT_THRESHOLD);
+  const positiveShare = positive.length / scored.length;
+  const negativeShare = negative.length / scored.length;
+
+  return createSentimentAnalysis({
+    overall: scored.reduce((sum, s) => sum + score(s), 0) / scored.length,
+    distribution: {
+      positive: positiveShare,
+      neutral: 1 - positiveShare - negativeShare,
+      negative: negativeShare,
+    },
+    positiveSignals: positive
+      .sort((a, b) => score(b) - score(a))
+      .slice(0, 3)
+      .map((s) => s.id),
+    negativeSignals: negative
+      .sort((a, b) => score(a) - score(b))
+      .slice(0, 3)
+      .map((s) => s.id),
+  });
+}
+
+/**
+ * Extract frequent terms, common phrases, tone and emotions
+ */
+function extractLanguagePatterns(signals: WebSignal[], overall: number): LanguagePatterns {
+  const termCounts = new Map<string, number>();
+  const phraseCounts = new Map<string, number>();
+  const emotionCounts = new Map<string, number>();
+
+  for (const signal of signals) {
+    const words = signal.content.toLowerCase().match(/[a-z0-9'+#-]+/g) ?? [];
+    words.forEach((word, i) => {
+      if (word.length > 3) {
+        termCounts.set(word, (termCounts.get(word) ?? 0) + 1);
+      }
+      const next = words[i + 1];
+      if (next !== undefined && word.length > 3 && next.length > 3) {
+        const phrase = `${word} ${next}`;
+        phraseCounts.set(phrase, (phraseCounts.get(phrase) ?? 0) + 1);
+      }
+    });
+
+    const emotions = signal.metadata['emotions'];
+    if (Array.isArray(emotions)) {
+      for (const emotion of emotions) {
+        if (typeof emotion === 'string') {
+          emotionCounts.set(emotion, (emotionCounts.get(emotion) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  const top = (counts: Map<string, number>, n: number, minCount = 1): Array<[string, number]> =>
+    [...counts.entries()]
+      .filter(([, count]) => count >= minCount)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, n);
+
+  let tone = 'neutral';
+  if (overall > SENTIMENT_THRESHOLD) {
+    tone = 'positive';
+  } else if (overall < -SENTIMENT_THRESHOLD) {
+    tone = 'negative';
+  }
+
+  return {
+    commonPhrases: top(phraseCounts, 10, 2).map(([phrase]) => phrase),
+    tone,
+    frequentTerms: Object.fromEntries(top(termCounts, 10)),
+    emotionalIndicators: top(emotionCounts, 5).map(([emotion]) => emotion),
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * RGS CLI - Scraper Factory
+ *
+ * Builds the real source scrapers from CLI options and environment credentials.
+ */
+
+import { IScraper, SourceType, isSourceType } from '@rgs/core';
+import { Logger, RateLimiter } from '@rgs/utils';
+import { RedditScraper } from '@rgs/scraper-reddit/scraper';
+import { TwitterScraper } from '@rgs/scrapers-twitter/scraper';
+import { createTwitterConfigFromEnv, buildSearchQueries } from '@rgs/scrapers-twitter/config';
+import { GitHubScraper } from '@rgs/scraper-github/scraper';
+import { createGitHubConfig, loadGitHubConfigFromEnv } from '@rgs/scraper-github/config';
+import { HackerNewsScraper } from '@rgs/scrapers-hackernews/scraper';
+import { HackerNewsClient } from '@rgs/scrapers-hackernews/client';
+import { DEFAULT_HN_CONFIG } from '@rgs/scrapers-hackernews/config';
+import { StackOverflowScraper } from '@rgs/scrapers-stackoverflow/scraper';
+import { StackOverflowClient } from '@rgs/scrapers-stackoverflow/client';
+import { createSOConfig, loadSOConfigFromEnv } from '@rgs/scrapers-stackoverflow/config';
+
+/**
+ * Sources the CLI can scrape
+ */
+export const SUPPORTED_SOURCES: readonly SourceType[] = [
+  'reddit',
+  'twitter',
+  'github',
+  'hackernews',
+  'stackoverflow',
+];
+
+/**
+ * Source-specific options collected from the command line
+ */
+export interface ScraperOptions {
+  /**
+   * Subreddits to scrape (reddit)
+   */
+  readonly subreddits?: string[];
+
+  /**
+   * Search queries (twitter, github, hackernews, stackoverflow)
+   */
+  readonly queries?: string[];
+
+  /**
+   * Repositories in owner/repo format (github)
+   */
+  readonly repos?: string[];
+
+  /**
+   * Question tags (stackoverflow)
+   */
+  readonly tags?: string[];
+
+  /**
+   * Maximum items per subreddit, query or repository
+   */
+  readonly limit?: number;
+}
+
+/**
+ * Factory function to create a scraper for a given source
+ *
+ * Credentials are read from the environment (REDDIT_CLIENT_ID/REDDIT_CLIENT_SECRET,
+ * TWITTER_BEARER_TOKEN, GITHUB_TOKEN, and optionally STACKEXCHANGE_KEY).
+ *
+ * @throws Error if the source is unknown, or its credentials or options are missing
+ */
+export function createScraper(
+  source: string,
+  options: ScraperOptions = {},
+  logger?: Logger
+): IScraper {
+  if (!isSourceType(source)) {
+    throw new Error(`Unknown source: ${source} (supported: ${SUPPORTED_SOURCES.join(', ')})`);
+  }
+
+  switch (source) {
+    case 'reddit':
+      return new RedditScraper(
+        {
+          ...(options.subreddits !== undefined && { subreddits: options.subreddits }),
+          ...(options.limit !== undefined && { postsPerSubreddit: options.limit }),
+        },
+        logger
+      );
+
+    case 'twitter': {
+      const config = createTwitterConfigFromEnv();
+      return new TwitterScraper(
+        {
+          ...config,
+          ...(options.queries !== undefined && {
+            queries: buildSearchQueries(options.queries, config.excludeRetweets),
+          }),
+        },
+        logger
+      );
+    }
+
+    case 'github': {
+      const { token } = loadGitHubConfigFromEnv();
+      if (options.repos === undefined || options.repos.length === 0) {
+        throw new Error('GitHub source requires at least one repository (--repos owner/repo)');
+      }
+      if (options.queries === undefined || options.queries.length === 0) {
+        throw new Error('GitHub source requires at least one query (--queries)');
+      }
+      return new GitHubScraper(
+        createGitHubConfig({
+          token: token ?? '',
+          repos: options.repos,
+          queries: options.queries,
+          ...(options.limit !== undefined && { maxIssuesPerQuery: Math.min(options.limit, 100) }),
+        }),
+        logger
+      );
+    }
+
+    case 'hackernews': {
+      const config = {
+        ...DEFAULT_HN_CONFIG,
+        ...(options.queries !== undefined && { queries: options.queries }),
+        ...(options.limit !== undefined && { maxResultsPerQuery: options.limit }),
+      };
+      const rateLimiter = new RateLimiter({
+        requestsPerMinute: config.rateLimit.requestsPerHour / 60,
+        ...(logger !== undefined && { logger }),
+      });
+      return new HackerNewsScraper(new HackerNewsClient(rateLimiter), config, logger);
+    }
+
+    case 'stackoverflow': {
+      const config = createSOConfig({
+        ...loadSOConfigFromEnv(),
+        ...(options.tags !== undefined && { tags: options.tags }),
+        ...(options.queries !== undefined && { queries: options.queries }),
+        ...(options.limit !== undefined && { maxQuestionsPerQuery: options.limit }),
+      });
+      const rateLimiter = new RateLimiter({
+        requestsPerMinute: config.rateLimit.requestsPerHour / 60,
+        ...(logger !== undefined && { logger }),
+      });
+      const client = new StackOverflowClient(rateLimiter, {
+        site: config.site,
+        ...(config.key !== undefined && { key: config.key }),
+      });
+      return new StackOverflowScraper(client, config, logger);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * RGS CLI - Storage Factory
+ *
+ * Opens the storage backend named by the RGS configuration (rgs.config.json
+ * and RGS_STORAGE_* environment variables) for a data directory.
+ */
+
+import { join } from 'path';
+import { FileSystemStorage, SqliteStorage, IStorage, ICursorStore, loadConfig } from '@rgs/storage';
+import type { RGSConfig } from '@rgs/storage';
+
+/**
+ * Database file under the data directory when SQLite storage names no path,
+ * the same file `rgs migrate` writes by default
+ */
+export const DEFAULT_DATABASE_FILE = 'rgs.db';
+
+/**
+ * Storage opened by the CLI
+ */
+export interface CliStorage extends IStorage, ICursorStore {
+  /**
+   * Create the directories or tables the storage needs
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Release the database, for storage that holds one open
+   */
+  close?(): void;
+}
+
+/**
+ * Create the storage the configuration selects for a data directory
+ *
+ * File system storage uses the data directory itself; SQLite storage uses
+ * the configured database file, or rgs.db under the data directory.
+ *
+ * @throws Error for memory storage, which cannot keep data between runs
+ */
+export function createStorage(dataDir: string, config: RGSConfig['storage']): CliStorage {
+  switch (config.type) {
+    case 'filesystem':
+      return new FileSystemStorage(dataDir);
+    case 'sqlite':
+      return new SqliteStorage(config.path ?? join(dataDir, DEFAULT_DATABASE_FILE));
+    case 'memory':
+      throw new Error('Memory storage cannot keep signals or cursors between CLI runs');
+  }
+}
+
+/**
+ * Load the storage configuration and create the storage it selects
+ *
+ * @param configPath - Path to rgs.config.json (default: ./rgs.config.json)
+ */
+export async function openStorage(dataDir: string, configPath?: string): Promise<CliStorage> {
+  const config = await loadConfig(configPath);
+  return createStorage(dataDir, config.storage);
+}
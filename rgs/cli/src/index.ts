@@ -8,6 +8,13 @@ import { Command } from 'commander';
 import { scrapeCommand } from './commands/scrape';
 import { analyzeCommand } from './commands/analyze';
 import { runCommand } from './commands/run';
+import { migrateCommand } from './commands/migrate';
+import { SUPPORTED_SOURCES } from './factories/scraper';
+
+/**
+ * Default file system storage directory
+ */
+const DEFAULT_DATA_DIR = 'data/rgs';
 
 /**
  * Main CLI program
@@ -24,10 +31,19 @@ export function createProgram(): Command {
   program
     .command('scrape')
     .description('Scrape web signals from various sources')
-    .option('-s, --sources <sources...>', 'Sources to scrape (e.g., reddit twitter)', ['reddit'])
+    .option(
+      '-s, --sources <sources...>',
+      `Sources to scrape (${SUPPORTED_SOURCES.join(', ')})`,
+      ['reddit']
+    )
     .option('-r, --subreddits <subreddits...>', 'Subreddits to scrape (for reddit source)')
+    .option('-q, --queries <queries...>', 'Search queries (for twitter, github, hackernews, stackoverflow)')
+    .option('--repos <repos...>', 'Repositories in owner/repo format (for github source)')
+    .option('-t, --tags <tags...>', 'Question tags (for stackoverflow source)')
     .option('-l, --limit <number>', 'Maximum number of signals per source', (val) => parseInt(val, 10), 10)
     .requiredOption('-o, --output <path>', 'Output file path for signals')
+    .option('--data-dir <path>', 'Storage directory for scraped signals (holds rgs.db for sqlite storage)', DEFAULT_DATA_DIR)
+    .option('--incremental', 'Only fetch content newer than the cursors saved in the data directory')
     .action(async (options) => {
       try {
         await scrapeCommand(options);
@@ -45,7 +61,23 @@ export function createProgram(): Command {
     .requiredOption('-i, --input <path>', 'Input file path for signals')
     .requiredOption('-o, --output <path>', 'Output file path for insights')
     .option('--skip-sentiment', 'Skip sentiment analysis', false)
-    .option('--skip-themes', 'Skip theme extraction', false)
+    .option('--skip-themes', 'Skip theme extraction (Claude-backed)', false)
+    .option(
+      '--enhanced-sentiment',
+      'Use enhanced sentiment analysis (5-point scale, emotion taxonomy); not with lexicon',
+      false
+    )
+    .option(
+      '--sentiment-provider <provider>',
+      'Sentiment provider: claude, lexicon (offline, with --skip-themes) or hybrid (lexicon, then Claude if unsure)',
+      'claude'
+    )
+    .option(
+      '--data-dir <path>',
+      'Storage directory for insights and theme history',
+      DEFAULT_DATA_DIR
+    )
+    .option('--report-dir <path>', 'Directory for JSON and Markdown reports')
     .action(async (options) => {
       try {
         await analyzeCommand(options);
@@ -72,6 +104,22 @@ export function createProgram(): Command {
       }
     });
 
+  // Migrate command
+  program
+    .command('migrate')
+    .description('Import a file system storage directory into a SQLite database')
+    .option('--data-dir <path>', 'Storage directory to import', DEFAULT_DATA_DIR)
+    .option('--database <path>', 'SQLite database file (default: <data-dir>/rgs.db)')
+    .action(async (options) => {
+      try {
+        await migrateCommand(options);
+        process.exit(0);
+      } catch (error) {
+        console.error((error as Error).message);
+        process.exit(1);
+      }
+    });
+
   return program;
 }
 
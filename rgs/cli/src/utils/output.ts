@@ -6,6 +6,7 @@
 
 import chalk from 'chalk';
 import ora, { Ora } from 'ora';
+import { Logger, LogLevel } from '@rgs/utils';
 
 /**
  * Create a spinner for long-running operations
@@ -66,3 +67,11 @@ export function printSummary(title: string, items: Array<[string, string | numbe
 
   console.log(chalk.gray('─'.repeat(50)));
 }
+
+/**
+ * Create a logger for scrapers and analyzers that only reports warnings and
+ * errors, so structured log lines do not interleave with spinner output
+ */
+export function createLogger(): Logger {
+  return new Logger({ minLevel: LogLevel.WARN, json: false });
+}
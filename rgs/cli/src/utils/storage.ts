@@ -0,0 +1,162 @@
+/**
+ * RGS CLI - Storage Utilities
+ *
+ * Converts analysis results to storage insights and persists signals,
+ * insights and scrape cursors through the storage the RGS configuration
+ * selects, plus the theme history used for trend tracking.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { WebSignal, SentimentAnalysis, ScrapeCursor } from '@rgs/core';
+import type { Insight as StoredInsight } from '@rgs/storage';
+import { isThemeHistory } from '@rgs/analysis-themes/types';
+import type { ThemeHistory } from '@rgs/analysis-themes/types';
+import type { CategorizedTheme } from '@rgs/reporter/types';
+import { openStorage } from '../factories/storage';
+import type { CliStorage } from '../factories/storage';
+import { fileExists } from './fileio';
+
+/**
+ * File under the data directory that holds the theme history
+ */
+const THEME_HISTORY_FILE = 'theme-history.json';
+
+/**
+ * Convert analysis results to storage insights: one per theme, plus an
+ * overall sentiment summary
+ */
+export function toStoredInsights(
+  signals: WebSignal[],
+  themes: CategorizedTheme[],
+  sentiment: SentimentAnalysis,
+  generatedAt: Date = new Date()
+): StoredInsight[] {
+  const timestamp = generatedAt.toISOString();
+  const idPrefix = `insight-${generatedAt.getTime()}`;
+
+  const themeInsights = themes.map((theme, i): StoredInsight => {
+    const sources = signals
+      .filter((signal) => signal.themes?.includes(theme.name) === true)
+      .map((signal) => signal.id);
+
+    return {
+      id: `${idPrefix}-${i + 1}`,
+      title: theme.name,
+      summary: `Mentioned in ${theme.frequency} signals (keywords: ${theme.keywords.join(', ')})`,
+      category: insightCategory(theme.category),
+      confidence: theme.confidence,
+      sources,
+      timestamp,
+      metadata: { keywords: theme.keywords, sentiment: theme.sentiment },
+    };
+  });
+
+  const { positive, neutral, negative } = sentiment.distribution;
+  const summaryInsight: StoredInsight = {
+    id: `${idPrefix}-0`,
+    title: 'Overall sentiment',
+    summary:
+      `Overall sentiment ${sentiment.overall.toFixed(2)} across ${signals.length} signals ` +
+      `(${percent(positive)} positive, ${percent(neutral)} neutral, ${percent(negative)} negative)`,
+    category: 'user-feedback',
+    confidence: Math.min(signals.length / 100, 1),
+    sources: [...sentiment.positiveSignals, ...sentiment.negativeSignals],
+    timestamp,
+    metadata: { sentiment },
+  };
+
+  return [summaryInsight, ...themeInsights];
+}
+
+/**
+ * Save signals to the configured storage for the given directory
+ */
+export async function persistSignals(dataDir: string, signals: WebSignal[]): Promise<void> {
+  await withStorage(dataDir, (storage) => storage.saveSignals(signals));
+}
+
+/**
+ * Save insights to the configured storage for the given directory
+ */
+export async function persistInsights(dataDir: string, insights: StoredInsight[]): Promise<void> {
+  await withStorage(dataDir, (storage) => storage.saveInsights(insights));
+}
+
+/**
+ * Load the scrape cursors saved in the configured storage for the given directory
+ */
+export async function loadCursors(dataDir: string): Promise<ScrapeCursor[]> {
+  return withStorage(dataDir, (storage) => storage.loadCursors());
+}
+
+/**
+ * Save scrape cursors to the configured storage for the given directory
+ */
+export async function persistCursors(dataDir: string, cursors: ScrapeCursor[]): Promise<void> {
+  await withStorage(dataDir, (storage) => storage.saveCursors(cursors));
+}
+
+/**
+ * Load the theme history saved under the given directory, if any
+ *
+ * @throws Error if the history file is not a valid theme history
+ */
+export async function loadThemeHistory(dataDir: string): Promise<ThemeHistory | undefined> {
+  const filePath = join(dataDir, THEME_HISTORY_FILE);
+  if (!(await fileExists(filePath))) {
+    return undefined;
+  }
+
+  const parsed: unknown = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  if (!isThemeHistory(parsed)) {
+    throw new Error(`Invalid theme history: ${filePath}`);
+  }
+  return parsed;
+}
+
+/**
+ * Save the theme history under the given directory
+ */
+export async function persistThemeHistory(dataDir: string, history: ThemeHistory): Promise<void> {
+  await fs.mkdir(dataDir, { recursive: true });
+  await fs.writeFile(join(dataDir, THEME_HISTORY_FILE), JSON.stringify(history, null, 2), 'utf-8');
+}
+
+/**
+ * Open and initialize the configured storage for the given directory, run
+ * an operation on it and close it again
+ */
+async function withStorage<T>(
+  dataDir: string,
+  operation: (storage: CliStorage) => Promise<T>
+): Promise<T> {
+  const storage = await openStorage(dataDir);
+  try {
+    await storage.initialize();
+    return await operation(storage);
+  } finally {
+    storage.close?.();
+  }
+}
+
+/**
+ * Map a report theme category to a storage insight category
+ */
+function insightCategory(category: CategorizedTheme['category']): StoredInsight['category'] {
+  switch (category) {
+    case 'pain':
+      return 'pain-point';
+    case 'desire':
+      return 'feature-request';
+    case 'neutral':
+      return 'trend';
+  }
+}
+
+/**
+ * Format a share as a percentage
+ */
+function percent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
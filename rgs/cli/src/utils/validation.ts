@@ -12,8 +12,13 @@ import { z } from 'zod';
 export const scrapeOptionsSchema = z.object({
   sources: z.array(z.string()).min(1, 'At least one source must be specified'),
   subreddits: z.array(z.string()).optional(),
+  queries: z.array(z.string()).optional(),
+  repos: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
   limit: z.number().int().positive().optional(),
   output: z.string().min(1, 'Output path is required'),
+  dataDir: z.string().min(1).optional(),
+  incremental: z.boolean().optional(),
 });
 
 export type ScrapeOptions = z.infer<typeof scrapeOptionsSchema>;
@@ -26,6 +31,10 @@ export const analyzeOptionsSchema = z.object({
   output: z.string().min(1, 'Output path is required'),
   skipSentiment: z.boolean().optional(),
   skipThemes: z.boolean().optional(),
+  enhancedSentiment: z.boolean().optional(),
+  sentimentProvider: z.enum(['claude', 'lexicon', 'hybrid']).optional(),
+  dataDir: z.string().min(1).optional(),
+  reportDir: z.string().min(1).optional(),
 });
 
 export type AnalyzeOptions = z.infer<typeof analyzeOptionsSchema>;
@@ -40,6 +49,16 @@ export const runOptionsSchema = z.object({
 
 export type RunOptions = z.infer<typeof runOptionsSchema>;
 
+/**
+ * Schema for migrate command options
+ */
+export const migrateOptionsSchema = z.object({
+  dataDir: z.string().min(1, 'Data directory is required'),
+  database: z.string().min(1).optional(),
+});
+
+export type MigrateOptions = z.infer<typeof migrateOptionsSchema>;
+
 /**
  * Validate options with a Zod schema
  */
@@ -0,0 +1,128 @@
+/**
+ * Tests for ScrapeCursor model
+ */
+
+import { type WebSignal, createWebSignal } from '../src/models/signal';
+import {
+  createScrapeCursor,
+  cursorKey,
+  findCursor,
+  isAfterCursor,
+  advanceCursor,
+} from '../src/models/cursor';
+
+describe('ScrapeCursor', () => {
+  const signal = (id: string, timestamp: string): WebSignal =>
+    createWebSignal({
+      id,
+      source: 'reddit',
+      content: `Content ${id}`,
+      timestamp: new Date(timestamp),
+      url: `https://reddit.com/${id}`,
+      metadata: {},
+    });
+
+  const cursor = createScrapeCursor({
+    source: 'reddit',
+    scope: 'vscode',
+    lastSeenId: 'reddit-2',
+    lastSeenAt: new Date('2024-01-02T00:00:00Z'),
+    updatedAt: new Date('2024-01-03T00:00:00Z'),
+  });
+
+  describe('createScrapeCursor', () => {
+    it('should create a cursor', () => {
+      expect(cursor).toEqual({
+        source: 'reddit',
+        scope: 'vscode',
+        lastSeenId: 'reddit-2',
+        lastSeenAt: new Date('2024-01-02T00:00:00Z'),
+        updatedAt: new Date('2024-01-03T00:00:00Z'),
+      });
+    });
+
+    it('should default updatedAt to now', () => {
+      const before = Date.now();
+      const created = createScrapeCursor({
+        source: 'github',
+        scope: 'performance',
+        lastSeenId: 'github-issue-1',
+        lastSeenAt: new Date('2024-01-01T00:00:00Z'),
+      });
+
+      expect(created.updatedAt.getTime()).toBeGreaterThanOrEqual(before);
+    });
+  });
+
+  describe('cursorKey', () => {
+    it('should combine source and scope', () => {
+      expect(cursorKey('reddit', 'vscode')).toBe('reddit:vscode');
+    });
+  });
+
+  describe('findCursor', () => {
+    it('should find the cursor for a source and scope', () => {
+      expect(findCursor([cursor], 'reddit', 'vscode')).toBe(cursor);
+    });
+
+    it('should return undefined when no cursor matches', () => {
+      expect(findCursor([cursor], 'reddit', 'cursor')).toBeUndefined();
+      expect(findCursor([cursor], 'hackernews', 'vscode')).toBeUndefined();
+      expect(findCursor(undefined, 'reddit', 'vscode')).toBeUndefined();
+    });
+  });
+
+  describe('isAfterCursor', () => {
+    it('should accept every signal without a cursor', () => {
+      expect(isAfterCursor(signal('reddit-1', '2020-01-01T00:00:00Z'), undefined)).toBe(true);
+    });
+
+    it('should accept only signals newer than the cursor', () => {
+      expect(isAfterCursor(signal('reddit-3', '2024-01-02T00:00:01Z'), cursor)).toBe(true);
+      expect(isAfterCursor(signal('reddit-1', '2024-01-01T00:00:00Z'), cursor)).toBe(false);
+    });
+
+    it('should order signals sharing the cursor timestamp by ID', () => {
+      expect(isAfterCursor(signal('reddit-10', '2024-01-02T00:00:00Z'), cursor)).toBe(true);
+      expect(isAfterCursor(signal('reddit-2', '2024-01-02T00:00:00Z'), cursor)).toBe(false);
+      expect(isAfterCursor(signal('reddit-1', '2024-01-02T00:00:00Z'), cursor)).toBe(false);
+    });
+  });
+
+  describe('advanceCursor', () => {
+    it('should move the cursor to the newest signal', () => {
+      const advanced = advanceCursor(cursor, 'reddit', 'vscode', [
+        signal('reddit-3', '2024-01-03T00:00:00Z'),
+        signal('reddit-5', '2024-01-05T00:00:00Z'),
+        signal('reddit-4', '2024-01-04T00:00:00Z'),
+      ]);
+
+      expect(advanced).toMatchObject({
+        source: 'reddit',
+        scope: 'vscode',
+        lastSeenId: 'reddit-5',
+        lastSeenAt: new Date('2024-01-05T00:00:00Z'),
+      });
+    });
+
+    it('should break timestamp ties by ID', () => {
+      const advanced = advanceCursor(cursor, 'reddit', 'vscode', [
+        signal('reddit-12', '2024-01-03T00:00:00Z'),
+        signal('reddit-9', '2024-01-03T00:00:00Z'),
+      ]);
+
+      expect(advanced?.lastSeenId).toBe('reddit-12');
+    });
+
+    it('should keep the cursor when no signal is newer', () => {
+      expect(
+        advanceCursor(cursor, 'reddit', 'vscode', [signal('reddit-1', '2024-01-01T00:00:00Z')])
+      ).toBe(cursor);
+      expect(advanceCursor(cursor, 'reddit', 'vscode', [])).toBe(cursor);
+    });
+
+    it('should return undefined without a cursor or signals', () => {
+      expect(advanceCursor(undefined, 'reddit', 'vscode', [])).toBeUndefined();
+    });
+  });
+});
@@ -20,6 +20,7 @@ describe('Zod Schemas', () => {
       expect(SourceTypeSchema.safeParse('twitter').success).toBe(true);
       expect(SourceTypeSchema.safeParse('github').success).toBe(true);
       expect(SourceTypeSchema.safeParse('hackernews').success).toBe(true);
+      expect(SourceTypeSchema.safeParse('stackoverflow').success).toBe(true);
     });
 
     it('should reject invalid source types', () => {
@@ -90,6 +91,7 @@ describe('Zod Schemas', () => {
       const signal = {
         id: 'test-1',
         source: 'reddit',
+        type: 'post',
         content: 'Test content',
         author: 'testuser',
         timestamp: new Date(),
@@ -137,6 +139,19 @@ describe('Zod Schemas', () => {
       };
       expect(WebSignalSchema.safeParse(signal).success).toBe(false);
     });
+
+    it('should reject signal with unknown type', () => {
+      const signal = {
+        id: 'test-1',
+        source: 'reddit',
+        type: 'story',
+        content: 'Content',
+        timestamp: new Date(),
+        url: 'https://example.com',
+        metadata: {},
+      };
+      expect(WebSignalSchema.safeParse(signal).success).toBe(false);
+    });
   });
 
   describe('ThemeSchema', () => {
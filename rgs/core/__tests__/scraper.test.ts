@@ -2,7 +2,13 @@
  * Tests for IScraper interface and BaseScraper
  */
 
-import { type ScrapeConfig, type WebSignal, ScraperError, BaseScraper } from '../src';
+import {
+  type ScrapeConfig,
+  type WebSignal,
+  ScraperError,
+  BaseScraper,
+  createScrapeCursor,
+} from '../src';
 
 // Mock implementation for testing
 class MockScraper extends BaseScraper {
@@ -176,6 +182,74 @@ describe('Scraper Interface', () => {
       });
     });
 
+    describe('takeNewSignals', () => {
+      const signal = (id: string, timestamp: string): WebSignal => ({
+        id,
+        source: 'reddit',
+        content: 'Content',
+        timestamp: new Date(timestamp),
+        url: 'https://example.com',
+        metadata: {},
+      });
+      const cursors = [
+        createScrapeCursor({
+          source: 'reddit',
+          scope: 'vscode',
+          lastSeenId: 'test-2',
+          lastSeenAt: new Date('2024-01-02T00:00:00Z'),
+        }),
+      ];
+
+      it('should drop signals covered by the scope cursor', () => {
+        const fresh = scraper['takeNewSignals'](
+          'reddit',
+          'vscode',
+          [signal('test-1', '2024-01-01T00:00:00Z'), signal('test-3', '2024-01-03T00:00:00Z')],
+          cursors
+        );
+
+        expect(fresh.map((s) => s.id)).toEqual(['test-3']);
+        expect(scraper.getCursors()).toEqual([
+          expect.objectContaining({ scope: 'vscode', lastSeenId: 'test-3' }),
+        ]);
+      });
+
+      it('should keep every signal without cursors and still track them', () => {
+        const fresh = scraper['takeNewSignals'](
+          'reddit',
+          'cursor',
+          [signal('test-1', '2024-01-01T00:00:00Z')],
+          undefined
+        );
+
+        expect(fresh).toHaveLength(1);
+        expect(scraper.getCursors()[0]).toMatchObject({ scope: 'cursor', lastSeenId: 'test-1' });
+      });
+
+      it('should report the previous cursor when nothing is new', () => {
+        scraper['takeNewSignals']('reddit', 'vscode', [], cursors);
+
+        expect(scraper.getCursors()).toEqual(cursors);
+      });
+
+      it('should not move a reached cursor backwards', () => {
+        scraper['takeNewSignals'](
+          'reddit',
+          'vscode',
+          [signal('test-3', '2024-01-03T00:00:00Z')],
+          []
+        );
+        scraper['takeNewSignals'](
+          'reddit',
+          'vscode',
+          [signal('test-1', '2024-01-01T00:00:00Z')],
+          []
+        );
+
+        expect(scraper.getCursors()[0]?.lastSeenId).toBe('test-3');
+      });
+    });
+
     describe('createResult', () => {
       it('should create a scrape result', () => {
         const signals: WebSignal[] = [
@@ -5,6 +5,7 @@
 import {
   type WebSignal,
   createWebSignal,
+  isSignalType,
   isValidSentiment,
   isWebSignal,
 } from '../src/models/signal';
@@ -37,17 +38,30 @@ describe('WebSignal', () => {
         timestamp: new Date(),
         url: 'https://twitter.com/user/status/123',
         metadata: {},
+        type: 'tweet',
         author: 'testuser',
         sentiment: 0.5,
         themes: ['tech', 'ai'],
       });
 
+      expect(signal.type).toBe('tweet');
       expect(signal.author).toBe('testuser');
       expect(signal.sentiment).toBe(0.5);
       expect(signal.themes).toEqual(['tech', 'ai']);
     });
   });
 
+  describe('isSignalType', () => {
+    it('should return true for valid signal types', () => {
+      expect(isSignalType('post')).toBe(true);
+      expect(isSignalType('answer')).toBe(true);
+    });
+
+    it('should return false for unknown signal types', () => {
+      expect(isSignalType('story')).toBe(false);
+    });
+  });
+
   describe('isValidSentiment', () => {
     it('should return true for valid sentiment scores', () => {
       expect(isValidSentiment(-1)).toBe(true);
@@ -112,6 +126,7 @@ describe('WebSignal', () => {
     });
 
     it('should return false for invalid optional fields', () => {
+      expect(isWebSignal({ ...validSignal, type: 'story' })).toBe(false);
       expect(isWebSignal({ ...validSignal, author: 123 })).toBe(false);
       expect(isWebSignal({ ...validSignal, sentiment: 2 })).toBe(false);
       expect(isWebSignal({ ...validSignal, sentiment: -2 })).toBe(false);
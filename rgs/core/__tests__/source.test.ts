@@ -16,6 +16,7 @@ describe('Source Types', () => {
       expect(isSourceType('twitter')).toBe(true);
       expect(isSourceType('github')).toBe(true);
       expect(isSourceType('hackernews')).toBe(true);
+      expect(isSourceType('stackoverflow')).toBe(true);
     });
 
     it('should return false for invalid source types', () => {
@@ -13,7 +13,23 @@ export {
   validateSourceConfig,
 } from './models/source';
 
-export { type WebSignal, createWebSignal, isValidSentiment, isWebSignal } from './models/signal';
+export {
+  type WebSignal,
+  type SignalType,
+  createWebSignal,
+  isSignalType,
+  isValidSentiment,
+  isWebSignal,
+} from './models/signal';
+
+export {
+  type ScrapeCursor,
+  createScrapeCursor,
+  cursorKey,
+  findCursor,
+  isAfterCursor,
+  advanceCursor,
+} from './models/cursor';
 
 export {
   type Theme,
@@ -5,7 +5,14 @@
  */
 
 import { WebSignal } from '../models/signal';
-import { SourceConfig } from '../models/source';
+import { SourceConfig, SourceType } from '../models/source';
+import {
+  ScrapeCursor,
+  advanceCursor,
+  cursorKey,
+  findCursor,
+  isAfterCursor,
+} from '../models/cursor';
 
 /**
  * Configuration for a scraping operation
@@ -30,6 +37,12 @@ export interface ScrapeConfig extends SourceConfig {
    * Whether to include metadata in signals
    */
   readonly includeMetadata?: boolean;
+
+  /**
+   * Cursors from previous runs; when set, only content newer than the cursor
+   * for each scope is returned
+   */
+  readonly cursors?: readonly ScrapeCursor[];
 }
 
 /**
@@ -108,12 +121,24 @@ export interface IScraper {
    * @returns Promise resolving to true if connection is successful
    */
   testConnection(): Promise<boolean>;
+
+  /**
+   * Gets the cursors reached by this scraper's scrapes, for incremental scraping
+   *
+   * @returns Cursors for every scope that has returned signals
+   */
+  getCursors?(): ScrapeCursor[];
 }
 
 /**
  * Base class for scraper implementations with common functionality
  */
 export abstract class BaseScraper implements IScraper {
+  /**
+   * Cursors reached so far, by cursor key
+   */
+  private readonly reachedCursors = new Map<string, ScrapeCursor>();
+
   /**
    * Scrapes web signals - must be implemented by subclasses
    */
@@ -158,6 +183,41 @@ export abstract class BaseScraper implements IScraper {
     return Promise.resolve(true);
   }
 
+  /**
+   * Gets the cursors reached by this scraper's scrapes
+   */
+  getCursors(): ScrapeCursor[] {
+    return Array.from(this.reachedCursors.values());
+  }
+
+  /**
+   * Helper to drop signals already covered by a scope's cursor and record the
+   * cursor reached by the remaining ones
+   *
+   * @param source - Source being scraped
+   * @param scope - Scope within the source (subreddit, query, etc.)
+   * @param signals - Signals fetched for the scope
+   * @param cursors - Cursors from previous runs
+   * @returns Signals newer than the scope's cursor
+   */
+  protected takeNewSignals(
+    source: SourceType,
+    scope: string,
+    signals: WebSignal[],
+    cursors: readonly ScrapeCursor[] | undefined
+  ): WebSignal[] {
+    const key = cursorKey(source, scope);
+    const previous = findCursor(cursors, source, scope);
+    const fresh = signals.filter((signal) => isAfterCursor(signal, previous));
+
+    const reached = advanceCursor(this.reachedCursors.get(key) ?? previous, source, scope, fresh);
+    if (reached !== undefined) {
+      this.reachedCursors.set(key, reached);
+    }
+
+    return fresh;
+  }
+
   /**
    * Helper to create a scrape result
    */
@@ -0,0 +1,142 @@
+/**
+ * RGS Core - ScrapeCursor Data Model
+ *
+ * Tracks how far a source has been scraped so later runs only fetch new content.
+ */
+
+import { SourceType } from './source';
+import { WebSignal } from './signal';
+
+/**
+ * ScrapeCursor marks the newest signal seen within one scope of a source
+ */
+export interface ScrapeCursor {
+  /**
+   * Source the cursor belongs to
+   */
+  readonly source: SourceType;
+
+  /**
+   * Scope within the source (subreddit, search query, etc.)
+   */
+  readonly scope: string;
+
+  /**
+   * ID of the newest signal seen
+   */
+  readonly lastSeenId: string;
+
+  /**
+   * Timestamp of the newest signal seen
+   */
+  readonly lastSeenAt: Date;
+
+  /**
+   * When the cursor was last advanced
+   */
+  readonly updatedAt: Date;
+}
+
+/**
+ * Helper to create a ScrapeCursor
+ */
+export function createScrapeCursor(params: {
+  source: SourceType;
+  scope: string;
+  lastSeenId: string;
+  lastSeenAt: Date;
+  updatedAt?: Date;
+}): ScrapeCursor {
+  return {
+    source: params.source,
+    scope: params.scope,
+    lastSeenId: params.lastSeenId,
+    lastSeenAt: params.lastSeenAt,
+    updatedAt: params.updatedAt ?? new Date(),
+  };
+}
+
+/**
+ * Builds the key identifying a cursor's source and scope
+ */
+export function cursorKey(source: SourceType, scope: string): string {
+  return `${source}:${scope}`;
+}
+
+/**
+ * Finds the cursor for a source and scope
+ */
+export function findCursor(
+  cursors: readonly ScrapeCursor[] | undefined,
+  source: SourceType,
+  scope: string
+): ScrapeCursor | undefined {
+  return cursors?.find((cursor) => cursor.source === source && cursor.scope === scope);
+}
+
+/**
+ * Orders signals by (timestamp, id), so signals sharing a timestamp still
+ * have a well-defined position relative to a cursor
+ *
+ * @returns Negative if `a` comes before `b`, positive if after, 0 if equal
+ */
+function compareSignalPosition(
+  a: { timestamp: Date; id: string },
+  b: { timestamp: Date; id: string }
+): number {
+  const byTime = a.timestamp.getTime() - b.timestamp.getTime();
+  if (byTime !== 0) {
+    return byTime;
+  }
+  return a.id.localeCompare(b.id, 'en', { numeric: true });
+}
+
+/**
+ * Checks whether a signal is newer than a cursor (always true without a cursor)
+ *
+ * Signals with the cursor's timestamp count as newer when their ID sorts after
+ * the cursor's, so a scrape that stopped partway through signals created in
+ * the same second resumes with the rest of them.
+ */
+export function isAfterCursor(signal: WebSignal, cursor: ScrapeCursor | undefined): boolean {
+  if (cursor === undefined) {
+    return true;
+  }
+
+  return compareSignalPosition(signal, { timestamp: cursor.lastSeenAt, id: cursor.lastSeenId }) > 0;
+}
+
+/**
+ * Moves a cursor to the newest of the given signals
+ *
+ * The signals must cover everything between the cursor and the newest of
+ * them; a fetch capped at its newest end (ascending creation order) does, a
+ * capped newest-first fetch does not.
+ *
+ * @returns The advanced cursor, the previous cursor if no signal is newer, or
+ *   undefined if there is neither
+ */
+export function advanceCursor(
+  cursor: ScrapeCursor | undefined,
+  source: SourceType,
+  scope: string,
+  signals: readonly WebSignal[]
+): ScrapeCursor | undefined {
+  let newest: WebSignal | undefined;
+  for (const signal of signals) {
+    if (newest === undefined || compareSignalPosition(signal, newest) > 0) {
+      newest = signal;
+    }
+  }
+
+  if (newest === undefined || !isAfterCursor(newest, cursor)) {
+    return cursor;
+  }
+
+  return createScrapeCursor({
+    source,
+    scope,
+    lastSeenId: newest.id,
+    lastSeenAt: newest.timestamp,
+  });
+}
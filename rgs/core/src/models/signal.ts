@@ -6,6 +6,18 @@
 
 import { SourceType, isSourceType } from './source';
 
+/**
+ * Kind of content a signal represents within its source
+ */
+export type SignalType = 'post' | 'comment' | 'issue' | 'discussion' | 'tweet' | 'answer';
+
+/**
+ * Type guard to check if a string is a valid SignalType
+ */
+export function isSignalType(value: string): value is SignalType {
+  return ['post', 'comment', 'issue', 'discussion', 'tweet', 'answer'].includes(value);
+}
+
 /**
  * WebSignal represents a single data point scraped from a web source
  */
@@ -20,6 +32,12 @@ export interface WebSignal {
    */
   readonly source: SourceType;
 
+  /**
+   * Kind of content within the source (post, comment, issue, etc.)
+   * Optional, set by the scraper mappers
+   */
+  readonly type?: SignalType;
+
   /**
    * Main content of the signal (text, post body, comment, etc.)
    */
@@ -68,6 +86,7 @@ export function createWebSignal(params: {
   timestamp: Date;
   url: string;
   metadata: Record<string, unknown>;
+  type?: SignalType;
   author?: string;
   sentiment?: number;
   themes?: string[];
@@ -82,6 +101,9 @@ export function createWebSignal(params: {
   };
 
   // Add optional properties only if defined
+  if (params.type !== undefined) {
+    (signal as { type?: SignalType }).type = params.type;
+  }
   if (params.author !== undefined) {
     (signal as { author?: string }).author = params.author;
   }
@@ -138,6 +160,13 @@ export function isWebSignal(obj: unknown): obj is WebSignal {
   }
 
   // Check optional fields
+  if (
+    signal['type'] !== undefined &&
+    (typeof signal['type'] !== 'string' || !isSignalType(signal['type']))
+  ) {
+    return false;
+  }
+
   if (signal['author'] !== undefined && typeof signal['author'] !== 'string') {
     return false;
   }
@@ -7,7 +7,7 @@
 /**
  * Available source types for web signal scraping
  */
-export type SourceType = 'reddit' | 'twitter' | 'github' | 'hackernews';
+export type SourceType = 'reddit' | 'twitter' | 'github' | 'hackernews' | 'stackoverflow';
 
 /**
  * Configuration for source-specific scraping
@@ -53,7 +53,7 @@ export interface SourceMetadata {
  * Type guard to check if a string is a valid SourceType
  */
 export function isSourceType(value: string): value is SourceType {
-  return ['reddit', 'twitter', 'github', 'hackernews'].includes(value);
+  return ['reddit', 'twitter', 'github', 'hackernews', 'stackoverflow'].includes(value);
 }
 
 /**
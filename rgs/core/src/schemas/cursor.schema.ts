@@ -0,0 +1,24 @@
+/**
+ * RGS Core - Cursor Zod Schemas
+ *
+ * Zod validation schemas for scrape cursors.
+ */
+
+import { z } from 'zod';
+import { SourceTypeSchema } from './source.schema';
+
+/**
+ * Schema for ScrapeCursor
+ */
+export const ScrapeCursorSchema = z.object({
+  source: SourceTypeSchema,
+  scope: z.string(),
+  lastSeenId: z.string().min(1),
+  lastSeenAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * Type inference from schema
+ */
+export type ScrapeCursorSchemaType = z.infer<typeof ScrapeCursorSchema>;
@@ -15,7 +15,12 @@ export {
 } from './source.schema';
 
 // Signal schemas
-export { SentimentSchema, WebSignalSchema, type WebSignalSchemaType } from './signal.schema';
+export {
+  SentimentSchema,
+  SignalTypeSchema,
+  WebSignalSchema,
+  type WebSignalSchemaType,
+} from './signal.schema';
 
 // Insight schemas
 export {
@@ -30,6 +35,9 @@ export {
   type InsightSchemaType,
 } from './insight.schema';
 
+// Cursor schemas
+export { ScrapeCursorSchema, type ScrapeCursorSchemaType } from './cursor.schema';
+
 // Scraper schemas
 export {
   ScrapeConfigSchema,
@@ -7,6 +7,7 @@
 import { z } from 'zod';
 import { SourceConfigSchema } from './source.schema';
 import { WebSignalSchema } from './signal.schema';
+import { ScrapeCursorSchema } from './cursor.schema';
 
 /**
  * Schema for ScrapeConfig
@@ -16,6 +17,7 @@ export const ScrapeConfigSchema = SourceConfigSchema.extend({
   maxRetries: z.number().nonnegative().optional(),
   timeout: z.number().positive().optional(),
   includeMetadata: z.boolean().optional(),
+  cursors: z.array(ScrapeCursorSchema).optional(),
 });
 
 /**
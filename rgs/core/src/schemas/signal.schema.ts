@@ -12,12 +12,25 @@ import { SourceTypeSchema } from './source.schema';
  */
 export const SentimentSchema = z.number().min(-1).max(1);
 
+/**
+ * Schema for SignalType
+ */
+export const SignalTypeSchema = z.enum([
+  'post',
+  'comment',
+  'issue',
+  'discussion',
+  'tweet',
+  'answer',
+]);
+
 /**
  * Schema for WebSignal
  */
 export const WebSignalSchema = z.object({
   id: z.string().min(1),
   source: SourceTypeSchema,
+  type: SignalTypeSchema.optional(),
   content: z.string().min(1),
   author: z.string().optional(),
   timestamp: z.date(),
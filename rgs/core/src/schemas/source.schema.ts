@@ -9,7 +9,7 @@ import { z } from 'zod';
 /**
  * Schema for SourceType
  */
-export const SourceTypeSchema = z.enum(['reddit', 'twitter', 'github', 'hackernews']);
+export const SourceTypeSchema = z.enum(['reddit', 'twitter', 'github', 'hackernews', 'stackoverflow']);
 
 /**
  * Schema for SourceConfig
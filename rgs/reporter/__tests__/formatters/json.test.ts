@@ -147,6 +147,24 @@ describe('JSONFormatter', () => {
         expect(themes[i - 1].frequency).toBeGreaterThanOrEqual(themes[i].frequency);
       }
     });
+
+    it('should include theme trends when provided', () => {
+      const trends = [
+        {
+          name: 'Flaky tests',
+          status: 'emerging' as const,
+          frequencies: [0, 8],
+          sentiments: [null, -0.5],
+          frequencyChange: 8,
+          sentimentChange: null,
+        },
+      ];
+
+      expect(JSON.parse(formatter.format(mockData, mockOptions)).trends).toBeUndefined();
+      expect(JSON.parse(formatter.format({ ...mockData, trends }, mockOptions)).trends).toEqual(
+        trends
+      );
+    });
   });
 
   describe('getExtension', () => {
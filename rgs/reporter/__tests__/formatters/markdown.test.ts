@@ -3,7 +3,7 @@
  */
 
 import { MarkdownFormatter } from '../../src/formatters/markdown';
-import { ReportData, ReportOptions } from '../../src/types';
+import { ReportData, ReportOptions, ThemeTrendSummary } from '../../src/types';
 import { generatePlaceholderReportData } from '../../src/templates';
 
 describe('MarkdownFormatter', () => {
@@ -170,6 +170,76 @@ describe('MarkdownFormatter', () => {
     });
   });
 
+  describe('trends', () => {
+    const trends: ThemeTrendSummary[] = [
+      {
+        name: 'Flaky tests',
+        status: 'emerging',
+        frequencies: [0, 2, 8],
+        sentiments: [null, -0.2, -0.5],
+        frequencyChange: 7,
+        sentimentChange: -0.3,
+      },
+      {
+        name: 'Slow indexing',
+        status: 'fading',
+        frequencies: [8, 6, 1],
+        sentiments: [-0.6, -0.6, -0.4],
+        frequencyChange: -6,
+        sentimentChange: 0.2,
+      },
+      {
+        name: 'Pricing confusion',
+        status: 'stable',
+        frequencies: [3, 3, 3],
+        sentiments: [-0.3, -0.3, -0.3],
+        frequencyChange: 0,
+        sentimentChange: 0,
+      },
+    ];
+
+    it('should omit the trends section without trends', () => {
+      const result = formatter.format(mockData, mockOptions);
+
+      expect(result).not.toContain('## Theme Trends');
+    });
+
+    it('should list emerging and fading themes after top themes', () => {
+      const result = formatter.format({ ...mockData, trends }, mockOptions);
+
+      expect(result.indexOf('## Theme Trends')).toBeGreaterThan(result.indexOf('## Top Themes'));
+      expect(result).toContain('**Emerging:**');
+      expect(result).toContain(
+        '- **Flaky tests** ▁▃█ (8 mentions, +7 vs. earlier runs, -0.50 sentiment (-0.30))'
+      );
+      expect(result).toContain('**Fading:**');
+      expect(result).toContain('- **Slow indexing** █▆▂ (1 mentions, -6 vs. earlier runs');
+      expect(result).toContain('**Stable:** Pricing confusion');
+    });
+
+    it('should leave out sentiment for themes absent from the latest run', () => {
+      const result = formatter.format(
+        {
+          ...mockData,
+          trends: [
+            {
+              name: 'Dark mode',
+              status: 'fading',
+              frequencies: [4, 0],
+              sentiments: [0.4, null],
+              frequencyChange: -4,
+              sentimentChange: null,
+            },
+          ],
+        },
+        mockOptions
+      );
+
+      expect(result).toContain('- **Dark mode** █▁ (0 mentions, -4 vs. earlier runs)');
+      expect(result).not.toContain('**Emerging:**');
+    });
+  });
+
   describe('getExtension', () => {
     it('should return md extension', () => {
       expect(formatter.getExtension()).toBe('md');
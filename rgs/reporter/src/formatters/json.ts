@@ -10,6 +10,7 @@ import {
   ReportFormatter,
   InsightSummary,
   CategorizedTheme,
+  ThemeTrendSummary,
 } from '../types';
 
 /**
@@ -20,6 +21,7 @@ interface JSONReport {
   readonly generatedAt: string;
   readonly summary: InsightSummary;
   readonly themes: CategorizedTheme[];
+  readonly trends?: ThemeTrendSummary[];
   readonly sentiment: {
     readonly overall: number;
     readonly distribution: {
@@ -161,6 +163,7 @@ export class JSONFormatter implements ReportFormatter {
       generatedAt: data.metadata.generatedAt.toISOString(),
       summary,
       themes: this.filterThemes(data.themes, options),
+      ...(data.trends !== undefined && { trends: data.trends }),
       sentiment: {
         overall: data.sentiment.overall,
         distribution: data.sentiment.distribution,
@@ -10,8 +10,14 @@ import {
   ReportFormatter,
   InsightSummary,
   CategorizedTheme,
+  ThemeTrendSummary,
 } from '../types';
 
+/**
+ * Characters used to draw frequency sparklines, lowest to highest
+ */
+const SPARK_LEVELS = '▁▂▃▄▅▆▇█';
+
 /**
  * Formats report data as Markdown
  */
@@ -32,6 +38,11 @@ export class MarkdownFormatter implements ReportFormatter {
     // Top Themes section
     sections.push(this.formatTopThemes(summary.topThemes));
 
+    // Theme Trends section
+    if (data.trends !== undefined && data.trends.length > 0) {
+      sections.push(this.formatTrends(data.trends));
+    }
+
     // Pain Points section
     if (summary.painPoints.length > 0) {
       sections.push(this.formatPainPoints(summary.painPoints));
@@ -220,6 +231,69 @@ export class MarkdownFormatter implements ReportFormatter {
     return lines.join('\n').trimEnd();
   }
 
+  /**
+   * Format theme trends section
+   */
+  private formatTrends(trends: ThemeTrendSummary[]): string {
+    const lines = ['## Theme Trends', ''];
+    const emerging = trends.filter((trend) => trend.status === 'emerging');
+    const fading = trends.filter((trend) => trend.status === 'fading');
+    const stable = trends.filter((trend) => trend.status === 'stable');
+
+    for (const [label, group] of [
+      ['Emerging', emerging],
+      ['Fading', fading],
+    ] as const) {
+      if (group.length === 0) {
+        continue;
+      }
+      lines.push(`**${label}:**`);
+      for (const trend of group) {
+        lines.push(`- ${this.formatTrend(trend)}`);
+      }
+      lines.push('');
+    }
+
+    if (stable.length > 0) {
+      lines.push(`**Stable:** ${stable.map((trend) => trend.name).join(', ')}`);
+    }
+
+    return lines.join('\n').trimEnd();
+  }
+
+  /**
+   * Format a single theme trend with its frequency sparkline
+   */
+  private formatTrend(trend: ThemeTrendSummary): string {
+    const latest = trend.frequencies[trend.frequencies.length - 1] ?? 0;
+    const change = Math.round(trend.frequencyChange * 10) / 10;
+    const parts = [`${latest} mentions, ${change >= 0 ? '+' : ''}${change} vs. earlier runs`];
+
+    const sentiment = trend.sentiments[trend.sentiments.length - 1];
+    if (sentiment !== undefined && sentiment !== null) {
+      const shift =
+        trend.sentimentChange !== null
+          ? ` (${this.formatSentimentScore(trend.sentimentChange)})`
+          : '';
+      parts.push(`${this.formatSentimentScore(sentiment)} sentiment${shift}`);
+    }
+
+    return `**${trend.name}** ${this.formatSparkline(trend.frequencies)} (${parts.join(', ')})`;
+  }
+
+  /**
+   * Draw frequencies as a sparkline scaled to the largest value
+   */
+  private formatSparkline(frequencies: readonly number[]): string {
+    const max = Math.max(...frequencies, 1);
+    return frequencies
+      .map((frequency) => {
+        const level = Math.round((frequency / max) * (SPARK_LEVELS.length - 1));
+        return SPARK_LEVELS[level] ?? '';
+      })
+      .join('');
+  }
+
   /**
    * Get sentiment icon
    */
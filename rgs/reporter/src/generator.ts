@@ -40,6 +40,18 @@ const ReportDataSchema = z.object({
       sentiment: z.number().min(-1).max(1),
     })
   ),
+  trends: z
+    .array(
+      z.object({
+        name: z.string(),
+        status: z.enum(['emerging', 'stable', 'fading']),
+        frequencies: z.array(z.number().min(0)),
+        sentiments: z.array(z.number().min(-1).max(1).nullable()),
+        frequencyChange: z.number(),
+        sentimentChange: z.number().nullable(),
+      })
+    )
+    .optional(),
   metadata: z.object({
     scrapedAt: z.date(),
     sources: z.array(z.string()),
@@ -20,4 +20,5 @@ export type {
   ReportMetadata,
   InsightSummary,
   CategorizedTheme,
+  ThemeTrendSummary,
 } from './types';
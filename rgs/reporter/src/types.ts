@@ -90,6 +90,41 @@ export interface CategorizedTheme extends Theme {
   readonly sentiment: number;
 }
 
+/**
+ * Frequency and sentiment trend of a theme across analysis runs
+ */
+export interface ThemeTrendSummary {
+  /**
+   * Most recent theme name
+   */
+  readonly name: string;
+
+  /**
+   * Whether the theme is emerging, stable or fading
+   */
+  readonly status: 'emerging' | 'stable' | 'fading';
+
+  /**
+   * Mentions per run, oldest first
+   */
+  readonly frequencies: readonly number[];
+
+  /**
+   * Sentiment per run, oldest first (null where the theme was absent)
+   */
+  readonly sentiments: readonly (number | null)[];
+
+  /**
+   * Mentions in the latest run minus the average of the earlier runs
+   */
+  readonly frequencyChange: number;
+
+  /**
+   * Change in sentiment against the earlier runs, if known
+   */
+  readonly sentimentChange: number | null;
+}
+
 /**
  * Data structure for report generation
  */
@@ -109,6 +144,11 @@ export interface ReportData {
    */
   readonly themes: CategorizedTheme[];
 
+  /**
+   * Theme trends across previous runs, if a theme history is available
+   */
+  readonly trends?: ThemeTrendSummary[];
+
   /**
    * Report metadata
    */
@@ -50,6 +50,7 @@ describe('Mapper', () => {
 
       expect(signal.id).toBe('github-issue-12345');
       expect(signal.source).toBe('github');
+      expect(signal.type).toBe('issue');
       expect(signal.content).toBe('Performance issue\n\nThe app is running slowly');
       expect(signal.author).toBe('testuser');
       expect(signal.timestamp).toEqual(new Date('2024-01-01T10:00:00Z'));
@@ -218,6 +219,7 @@ describe('Mapper', () => {
 
       expect(signal.id).toBe('github-comment-67890');
       expect(signal.source).toBe('github');
+      expect(signal.type).toBe('comment');
       expect(signal.content).toBe('This is a helpful comment');
       expect(signal.author).toBe('commenter');
       expect(signal.timestamp).toEqual(new Date('2024-01-03T10:00:00Z'));
@@ -338,5 +340,16 @@ describe('Mapper', () => {
 
       expect(query).toContain('bug: "memory leak"');
     });
+
+    it('should restrict to issues created at or after a given time', () => {
+      const query = buildSearchQuery(
+        ['owner/repo'],
+        'test',
+        'open',
+        new Date('2024-01-01T10:00:00.123Z')
+      );
+
+      expect(query).toBe('test repo:owner/repo is:issue state:open created:>=2024-01-01T10:00:00Z');
+    });
   });
 });
@@ -8,6 +8,7 @@ import { GitHubScraper } from '../src/scraper';
 import { GitHubClient } from '../src/client';
 import { createGitHubConfig } from '../src/config';
 import type { GitHubIssue, GitHubComment } from '../src/mapper';
+import { createScrapeCursor } from '@rgs/core';
 
 // Mock the GitHubClient
 jest.mock('../src/client');
@@ -339,6 +340,96 @@ describe('GitHubScraper', () => {
       expect(signals).toHaveLength(0);
     });
 
+    const issue = (id: number, createdAt: string): GitHubIssue => ({
+      id,
+      number: id,
+      title: `Issue ${id}`,
+      body: 'Issue body',
+      state: 'open',
+      user: { login: 'user1', id: 1 },
+      labels: [],
+      created_at: createdAt,
+      updated_at: createdAt,
+      html_url: `https://github.com/owner/repo/issues/${id}`,
+      comments: 1,
+    });
+
+    it('should only fetch issues created after the query cursor', async () => {
+      mockClient.searchIssues.mockResolvedValue([
+        issue(1, '2024-01-01T10:00:00Z'),
+        issue(2, '2024-01-03T10:00:00Z'),
+      ]);
+      mockClient.getIssueComments.mockResolvedValue([]);
+
+      const signals = await scraper.scrape({
+        type: 'github',
+        params: {},
+        cursors: [
+          createScrapeCursor({
+            source: 'github',
+            scope: 'performance repo:owner/repo is:issue state:all',
+            lastSeenId: 'github-issue-1',
+            lastSeenAt: new Date('2024-01-01T10:00:00Z'),
+          }),
+        ],
+      });
+
+      expect(mockClient.searchIssues).toHaveBeenCalledWith(
+        'performance repo:owner/repo is:issue state:all created:>=2024-01-01T10:00:00Z',
+        expect.objectContaining({ sort: 'created', order: 'asc' })
+      );
+      expect(signals.map((s) => s.id)).toEqual(['github-issue-2']);
+      expect(mockClient.getIssueComments).toHaveBeenCalledTimes(1);
+      expect(mockClient.getIssueComments).toHaveBeenCalledWith('owner', 'repo', 2);
+      expect(scraper.getCursors()).toEqual([
+        expect.objectContaining({
+          scope: 'performance repo:owner/repo is:issue state:all',
+          lastSeenId: 'github-issue-2',
+          lastSeenAt: new Date('2024-01-03T10:00:00Z'),
+        }),
+      ]);
+    });
+
+    it('should resume a capped scrape after the last issue it reached', async () => {
+      const cursor = createScrapeCursor({
+        source: 'github',
+        scope: 'performance repo:owner/repo is:issue state:all',
+        lastSeenId: 'github-issue-1',
+        lastSeenAt: new Date('2024-01-01T10:00:00Z'),
+      });
+      // Issues 2 to 11, one per day, fill the cap of 10
+      mockClient.searchIssues.mockResolvedValueOnce(
+        Array.from({ length: 10 }, (_, index) =>
+          issue(index + 2, `2024-01-${String(index + 2).padStart(2, '0')}T12:00:00Z`)
+        )
+      );
+      mockClient.getIssueComments.mockResolvedValue([]);
+
+      await scraper.scrape({ type: 'github', params: {}, cursors: [cursor] });
+      const [reached] = scraper.getCursors();
+
+      // The cap cut the fetch between issues 11 and 12, created in the same second
+      mockClient.searchIssues.mockResolvedValueOnce([
+        issue(11, '2024-01-11T12:00:00Z'),
+        issue(12, '2024-01-11T12:00:00Z'),
+      ]);
+      const signals = await scraper.scrape({
+        type: 'github',
+        params: {},
+        cursors: reached !== undefined ? [reached] : [],
+      });
+
+      expect(reached).toMatchObject({
+        lastSeenId: 'github-issue-11',
+        lastSeenAt: new Date('2024-01-11T12:00:00Z'),
+      });
+      expect(mockClient.searchIssues).toHaveBeenLastCalledWith(
+        'performance repo:owner/repo is:issue state:all created:>=2024-01-11T12:00:00Z',
+        expect.objectContaining({ sort: 'created', order: 'asc' })
+      );
+      expect(signals.map((s) => s.id)).toEqual(['github-issue-12']);
+    });
+
     it('should propagate search errors', async () => {
       mockClient.searchIssues.mockRejectedValue(new Error('API error'));
 
@@ -126,6 +126,7 @@ export function mapIssueToSignal(issue: GitHubIssue, repo: string): WebSignal {
   return createWebSignal({
     id: `github-issue-${issue.id}`,
     source: 'github',
+    type: 'issue',
     content,
     timestamp: new Date(issue.created_at),
     url: issue.html_url,
@@ -181,6 +182,7 @@ export function mapCommentToSignal(
   return createWebSignal({
     id: `github-comment-${comment.id}`,
     source: 'github',
+    type: 'comment',
     content,
     timestamp: new Date(comment.created_at),
     url: comment.html_url,
@@ -195,13 +197,23 @@ export function mapCommentToSignal(
  * @param repos - List of repositories (owner/repo)
  * @param keyword - Search keyword
  * @param state - Issue state filter
+ * @param createdSince - Only match issues created at or after this time
  * @returns GitHub search query string
  */
 export function buildSearchQuery(
   repos: readonly string[],
   keyword: string,
-  state: string
+  state: string,
+  createdSince?: Date
 ): string {
   const repoFilter = repos.map((r) => `repo:${r}`).join(' ');
-  return `${keyword} ${repoFilter} is:issue state:${state}`;
+  const query = `${keyword} ${repoFilter} is:issue state:${state}`;
+  if (createdSince === undefined) {
+    return query;
+  }
+
+  // Search qualifiers accept ISO 8601 timestamps without milliseconds; issues
+  // created in the same second as the cursor may not have been seen yet
+  const since = createdSince.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `${query} created:>=${since}`;
 }
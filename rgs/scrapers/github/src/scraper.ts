@@ -4,7 +4,7 @@
  * Implements IScraper for scraping GitHub issues and comments.
  */
 
-import { BaseScraper, WebSignal } from '@rgs/core';
+import { BaseScraper, ScrapeConfig, WebSignal, findCursor } from '@rgs/core';
 import { RateLimiter, Logger, defaultLogger } from '@rgs/utils';
 import { GitHubClient } from './client';
 import { GitHubConfig } from './config';
@@ -49,9 +49,14 @@ export class GitHubScraper extends BaseScraper {
   /**
    * Scrapes GitHub issues and comments based on configuration
    *
+   * With cursors in the scrape configuration, only issues created since each
+   * query's cursor (and their comments) are fetched, oldest first, so a run
+   * capped by maxIssuesPerQuery leaves the cursor where the next run resumes.
+   *
+   * @param scrapeConfig - Optional scrape configuration carrying cursors
    * @returns Array of web signals
    */
-  async scrape(): Promise<WebSignal[]> {
+  async scrape(scrapeConfig?: ScrapeConfig): Promise<WebSignal[]> {
     this.logger.info('Starting GitHub scrape', {
       repos: this.config.repos,
       queries: this.config.queries,
@@ -66,22 +71,35 @@ export class GitHubScraper extends BaseScraper {
       for (const query of this.config.queries) {
         this.logger.debug('Processing query', { query });
 
-        // Build search query for all repos
-        const searchQuery = buildSearchQuery(
+        // Build search query for all repos; the cursor scope is the query
+        // without the incremental date qualifier
+        const scope = buildSearchQuery(
           this.config.repos,
           query,
           this.config.state
         );
+        const cursor = findCursor(scrapeConfig?.cursors, 'github', scope);
+        const searchQuery = buildSearchQuery(
+          this.config.repos,
+          query,
+          this.config.state,
+          cursor?.lastSeenAt
+        );
 
         // Search for issues
-        const issues = await this.searchIssues(searchQuery);
+        const issues = await this.searchIssues(searchQuery, cursor !== undefined);
 
         this.logger.debug('Found issues', {
           query,
           count: issues.length,
         });
 
-        // Process each issue
+        // Map issues to signals
+        const mapped: Array<{
+          issue: GitHubIssue;
+          repo: string;
+          signal: WebSignal;
+        }> = [];
         for (const issue of issues) {
           // Extract repo from issue URL or repository_url
           const repo = this.extractRepoFromIssue(issue);
@@ -92,8 +110,24 @@ export class GitHubScraper extends BaseScraper {
             continue;
           }
 
-          // Map issue to signal
-          const issueSignal = mapIssueToSignal(issue, repo);
+          mapped.push({ issue, repo, signal: mapIssueToSignal(issue, repo) });
+        }
+
+        // Drop issues seen in previous runs
+        const newIds = new Set(
+          this.takeNewSignals(
+            'github',
+            scope,
+            mapped.map(({ signal }) => signal),
+            scrapeConfig?.cursors
+          ).map((signal) => signal.id)
+        );
+
+        // Process each new issue
+        for (const { issue, repo, signal: issueSignal } of mapped) {
+          if (!newIds.has(issueSignal.id)) {
+            continue;
+          }
 
           // Deduplicate by ID
           if (!seenIds.has(issueSignal.id)) {
@@ -174,9 +208,11 @@ export class GitHubScraper extends BaseScraper {
    * Searches for issues using the GitHub API
    *
    * @param query - Search query string
+   * @param incremental - Whether to walk forward from a cursor in creation
+   *   order instead of using the configured sort
    * @returns Array of GitHub issues
    */
-  private async searchIssues(query: string): Promise<GitHubIssue[]> {
+  private async searchIssues(query: string, incremental: boolean): Promise<GitHubIssue[]> {
     const allIssues: GitHubIssue[] = [];
     const perPage = Math.min(this.config.maxIssuesPerQuery, 100);
     let page = 1;
@@ -188,8 +224,9 @@ export class GitHubScraper extends BaseScraper {
       const issues = await this.client.searchIssues(query, {
         perPage,
         page,
-        sort: this.config.sort,
-        order: 'desc',
+        ...(incremental
+          ? { sort: 'created', order: 'asc' }
+          : { sort: this.config.sort, order: 'desc' }),
       });
 
       allIssues.push(...issues);
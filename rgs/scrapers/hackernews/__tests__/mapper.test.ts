@@ -28,6 +28,7 @@ describe('HackerNews Mapper', () => {
 
       expect(signal.id).toBe('hn-12345');
       expect(signal.source).toBe('hackernews');
+      expect(signal.type).toBe('post');
       expect(signal.content).toBe('Test Story');
       expect(signal.author).toBe('testuser');
       expect(signal.timestamp).toEqual(new Date('2024-01-01T00:00:00.000Z'));
@@ -105,6 +106,7 @@ describe('HackerNews Mapper', () => {
 
       expect(signal.id).toBe('hn-comment-67890');
       expect(signal.source).toBe('hackernews');
+      expect(signal.type).toBe('comment');
       expect(signal.content).toBe('This is a comment');
       expect(signal.author).toBe('commenter');
       expect(signal.timestamp).toEqual(new Date('2024-01-02T00:00:00.000Z'));
@@ -5,7 +5,7 @@
 import { HackerNewsScraper } from '../src/scraper';
 import { HackerNewsClient, HNSearchResult } from '../src/client';
 import { HNConfig, DEFAULT_HN_CONFIG } from '../src/config';
-import { ScrapeConfig } from '@rgs/core';
+import { ScrapeConfig, createScrapeCursor } from '@rgs/core';
 import { WebSignal } from '@rgs/core';
 
 // Mock the client
@@ -439,6 +439,94 @@ describe('HackerNewsScraper', () => {
       });
     });
 
+    it('should only search for stories created after the query cursor', async () => {
+      const mockResult: HNSearchResult = {
+        hits: [
+          {
+            objectID: '2',
+            created_at: '2024-01-03T00:00:00.000Z',
+            author: 'testuser',
+            title: 'New Story',
+            points: 100,
+            num_comments: 0,
+          },
+          {
+            objectID: '1',
+            created_at: '2024-01-01T00:00:00.000Z',
+            author: 'testuser',
+            title: 'Seen Story',
+            points: 100,
+            num_comments: 0,
+          },
+        ],
+        nbHits: 2,
+        page: 0,
+        nbPages: 1,
+        hitsPerPage: 10,
+        processingTimeMS: 5,
+        query: 'test',
+        params: '',
+      };
+
+      mockClient.searchStories.mockResolvedValue(mockResult);
+
+      const signals = await scraper.scrape({
+        ...scrapeConfig,
+        cursors: [
+          createScrapeCursor({
+            source: 'hackernews',
+            scope: 'test',
+            lastSeenId: 'hn-1',
+            lastSeenAt: new Date('2024-01-01T00:00:00.000Z'),
+          }),
+        ],
+      });
+
+      expect(mockClient.searchStories.mock.calls).toEqual([
+        [
+          'test',
+          { tags: 'story', numericFilters: 'points>10,created_at_i>1704067200', hitsPerPage: 10 },
+        ],
+      ]);
+      expect(signals.map((s) => s.id)).toEqual(['hn-2']);
+      expect(scraper.getCursors()).toEqual([
+        expect.objectContaining({ source: 'hackernews', scope: 'test', lastSeenId: 'hn-2' }),
+      ]);
+    });
+
+    it('should only search for comments created after the query cursor', async () => {
+      config = { ...config, tags: ['comment'] };
+      scraper = new HackerNewsScraper(mockClient, config);
+
+      mockClient.searchStories.mockResolvedValue({
+        hits: [],
+        nbHits: 0,
+        page: 0,
+        nbPages: 0,
+        hitsPerPage: 10,
+        processingTimeMS: 5,
+        query: 'test',
+        params: '',
+      });
+
+      await scraper.scrape({
+        ...scrapeConfig,
+        cursors: [
+          createScrapeCursor({
+            source: 'hackernews',
+            scope: 'test',
+            lastSeenId: 'hn-1',
+            lastSeenAt: new Date('2024-01-01T00:00:00.000Z'),
+          }),
+        ],
+      });
+
+      expect(mockClient.searchStories.mock.calls).toEqual([
+        ['test', { tags: 'comment', hitsPerPage: 10, numericFilters: 'created_at_i>1704067200' }],
+      ]);
+      expect(scraper.getCursors()).toEqual([expect.objectContaining({ lastSeenId: 'hn-1' })]);
+    });
+
     it('should not include numeric filter when minPoints is undefined', async () => {
       const { minPoints, ...configWithoutMinPoints } = config;
       config = {
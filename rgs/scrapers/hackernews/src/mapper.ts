@@ -24,6 +24,7 @@ export function mapStoryToSignal(story: HNStory): WebSignal {
   return createWebSignal({
     id: `hn-${story.objectID}`,
     source: 'hackernews',
+    type: 'post',
     content,
     author: story.author,
     timestamp: new Date(story.created_at),
@@ -52,6 +53,7 @@ export function mapCommentToSignal(comment: HNComment, storyTitle: string): WebS
   return createWebSignal({
     id: `hn-comment-${comment.objectID}`,
     source: 'hackernews',
+    type: 'comment',
     content: comment.comment_text ?? '',
     author: comment.author,
     timestamp: new Date(comment.created_at),
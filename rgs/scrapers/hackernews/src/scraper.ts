@@ -4,7 +4,7 @@
  * Scrapes stories and comments from HackerNews using the Algolia Search API.
  */
 
-import { IScraper, ScrapeConfig, BaseScraper } from '@rgs/core';
+import { IScraper, ScrapeConfig, ScrapeCursor, BaseScraper, findCursor } from '@rgs/core';
 import { WebSignal } from '@rgs/core';
 import { Logger } from '@rgs/utils';
 import { HackerNewsClient, HNStory } from './client';
@@ -36,10 +36,13 @@ export class HackerNewsScraper extends BaseScraper implements IScraper {
   /**
    * Scrapes HackerNews for stories and comments matching configured queries
    *
-   * @param _config - Scrape configuration
+   * With cursors in the scrape configuration, only items created after each
+   * query's cursor are searched for.
+   *
+   * @param config - Scrape configuration
    * @returns Promise resolving to array of web signals
    */
-  async scrape(_config: ScrapeConfig): Promise<WebSignal[]> {
+  async scrape(config: ScrapeConfig): Promise<WebSignal[]> {
     this.logger?.info('Starting HackerNews scrape', {
       queries: this.config.queries,
       maxResults: this.config.maxResultsPerQuery,
@@ -53,7 +56,7 @@ export class HackerNewsScraper extends BaseScraper implements IScraper {
       this.logger?.debug('Scraping query', { query });
 
       try {
-        const signals = await this.scrapeQuery(query);
+        const signals = await this.scrapeQuery(query, config.cursors);
 
         // Deduplicate by ID
         for (const signal of signals) {
@@ -93,20 +96,24 @@ export class HackerNewsScraper extends BaseScraper implements IScraper {
    * Scrapes a single query
    *
    * @param query - Search query
+   * @param cursors - Cursors from previous runs
    * @returns Promise resolving to array of web signals
    */
-  private async scrapeQuery(query: string): Promise<WebSignal[]> {
+  private async scrapeQuery(
+    query: string,
+    cursors: readonly ScrapeCursor[] | undefined
+  ): Promise<WebSignal[]> {
     const signals: WebSignal[] = [];
 
     // Scrape stories if configured
     if (this.config.tags.includes('story')) {
-      const storySignals = await this.scrapeStories(query);
+      const storySignals = await this.scrapeStories(query, cursors);
       signals.push(...storySignals);
     }
 
     // Scrape comments if configured
     if (this.config.tags.includes('comment')) {
-      const commentSignals = await this.scrapeComments(query);
+      const commentSignals = await this.scrapeComments(query, cursors);
       signals.push(...commentSignals);
     }
 
@@ -117,16 +124,25 @@ export class HackerNewsScraper extends BaseScraper implements IScraper {
    * Scrapes stories matching a query
    *
    * @param query - Search query
+   * @param cursors - Cursors from previous runs
    * @returns Promise resolving to array of web signals
    */
-  private async scrapeStories(query: string): Promise<WebSignal[]> {
+  private async scrapeStories(
+    query: string,
+    cursors: readonly ScrapeCursor[] | undefined
+  ): Promise<WebSignal[]> {
     const signals: WebSignal[] = [];
 
-    // Build numeric filter for minimum points
-    const numericFilters =
-      this.config.minPoints !== undefined && this.config.minPoints > 0
-        ? `points>${this.config.minPoints}`
-        : undefined;
+    // Build numeric filters for minimum points and items since the cursor
+    const filters: string[] = [];
+    if (this.config.minPoints !== undefined && this.config.minPoints > 0) {
+      filters.push(`points>${this.config.minPoints}`);
+    }
+    const createdFilter = createdAfterFilter(findCursor(cursors, 'hackernews', query));
+    if (createdFilter !== undefined) {
+      filters.push(createdFilter);
+    }
+    const numericFilters = filters.length > 0 ? filters.join(',') : undefined;
 
     // Search for stories
     const result = await this.client.searchStories(
@@ -149,15 +165,23 @@ export class HackerNewsScraper extends BaseScraper implements IScraper {
       total: result.nbHits,
     });
 
-    // Process each story
-    for (const item of result.hits) {
-      if (!isValidStory(item)) {
+    // Drop stories seen in previous runs
+    const stories = result.hits.filter(isValidStory);
+    const newIds = new Set(
+      this.takeNewSignals('hackernews', query, stories.map(mapStoryToSignal), cursors).map(
+        (signal) => signal.id
+      )
+    );
+
+    // Process each new story
+    for (const item of stories) {
+      const storySignal = mapStoryToSignal(item);
+      if (!newIds.has(storySignal.id)) {
         continue;
       }
 
-      // isValidStory is a type guard, so item is now HNStory
       // Add story signal
-      signals.push(mapStoryToSignal(item));
+      signals.push(storySignal);
 
       // Optionally fetch comments for this story
       if (this.config.includeComments && item.num_comments > 0) {
@@ -181,15 +205,21 @@ export class HackerNewsScraper extends BaseScraper implements IScraper {
    * Scrapes comments matching a query
    *
    * @param query - Search query
+   * @param cursors - Cursors from previous runs
    * @returns Promise resolving to array of web signals
    */
-  private async scrapeComments(query: string): Promise<WebSignal[]> {
+  private async scrapeComments(
+    query: string,
+    cursors: readonly ScrapeCursor[] | undefined
+  ): Promise<WebSignal[]> {
     const signals: WebSignal[] = [];
 
-    // Search for comments
+    // Search for comments, only those since the cursor when there is one
+    const numericFilters = createdAfterFilter(findCursor(cursors, 'hackernews', query));
     const result = await this.client.searchStories(query, {
       tags: 'comment',
       hitsPerPage: this.config.maxResultsPerQuery,
+      ...(numericFilters !== undefined && { numericFilters }),
     });
 
     this.logger?.debug('Comments fetched', {
@@ -209,7 +239,8 @@ export class HackerNewsScraper extends BaseScraper implements IScraper {
       signals.push(mapCommentToSignal(item, storyTitle));
     }
 
-    return signals;
+    // Drop comments seen in previous runs
+    return this.takeNewSignals('hackernews', query, signals, cursors);
   }
 
   /**
@@ -301,3 +332,17 @@ export class HackerNewsScraper extends BaseScraper implements IScraper {
     return true;
   }
 }
+
+/**
+ * Builds an Algolia numeric filter for items created after a cursor
+ *
+ * @param cursor - Cursor from a previous run
+ * @returns Numeric filter, or undefined without a cursor
+ */
+function createdAfterFilter(cursor: ScrapeCursor | undefined): string | undefined {
+  if (cursor === undefined) {
+    return undefined;
+  }
+
+  return `created_at_i>${Math.floor(cursor.lastSeenAt.getTime() / 1000)}`;
+}
@@ -225,6 +225,19 @@ describe('RedditClient', () => {
       expect(mockSubreddit.getNew).toHaveBeenCalledWith({ limit: 10 });
     });
 
+    it('should fetch only posts newer than the given fullname', async () => {
+      const mockSubreddit = {
+        getNew: jest.fn().mockResolvedValue(mockPosts),
+      };
+
+      mockSnoowrapInstance.getSubreddit.mockReturnValue(mockSubreddit as never);
+
+      const client = new RedditClient(mockConfig, mockRateLimiter);
+      await client.getPosts('vscode', { limit: 10, sort: 'new', before: 't3_post2' });
+
+      expect(mockSubreddit.getNew).toHaveBeenCalledWith({ limit: 10, before: 't3_post2' });
+    });
+
     it('should fetch top posts successfully', async () => {
       const mockSubreddit = {
         getTop: jest.fn().mockResolvedValue(mockPosts),
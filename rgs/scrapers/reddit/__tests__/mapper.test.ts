@@ -34,6 +34,7 @@ describe('RedditMapper', () => {
 
       expect(signal.id).toBe('reddit-test123');
       expect(signal.source).toBe('reddit');
+      expect(signal.type).toBe('post');
       expect(signal.content).toBe('Test Post Title\n\nThis is the post body text.');
       expect(signal.url).toBe('https://reddit.com/r/vscode/comments/test123/test_post/');
       expect(signal.timestamp).toEqual(new Date(1699999999 * 1000));
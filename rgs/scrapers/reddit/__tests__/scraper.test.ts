@@ -7,6 +7,7 @@ import { RedditClient } from '../src/client';
 import { ScraperError } from '@rgs/utils/errors';
 import { Logger } from '@rgs/utils/logger';
 import { ScrapeConfig } from '@rgs/core/interfaces/scraper';
+import { createScrapeCursor } from '@rgs/core/models/cursor';
 
 // Mock dependencies
 jest.mock('../src/client');
@@ -233,6 +234,137 @@ describe('RedditScraper', () => {
       });
     });
 
+    it('should only return posts newer than the subreddit cursor', async () => {
+      const mockClient = {
+        getPosts: jest.fn().mockResolvedValue(mockPosts),
+      };
+
+      (RedditClient as jest.MockedClass<typeof RedditClient>).mockImplementation(
+        () => mockClient as unknown as RedditClient
+      );
+
+      const scraper = new RedditScraper({
+        subreddits: ['vscode'],
+        sort: 'new',
+      });
+
+      const signals = await scraper.scrape({
+        type: 'reddit',
+        params: {},
+        cursors: [
+          createScrapeCursor({
+            source: 'reddit',
+            scope: 'vscode',
+            lastSeenId: 'reddit-post2',
+            lastSeenAt: new Date(1699999998 * 1000),
+          }),
+        ],
+      });
+
+      expect(mockClient.getPosts).toHaveBeenCalledWith('vscode', {
+        limit: 100,
+        sort: 'new',
+        before: 't3_post2',
+      });
+      expect(signals.map((s) => s.id)).toEqual(['reddit-post1']);
+      expect(scraper.getCursors()).toEqual([
+        expect.objectContaining({
+          source: 'reddit',
+          scope: 'vscode',
+          lastSeenId: 'reddit-post1',
+        }),
+      ]);
+    });
+
+    it('should retry without the anchor when the cursor post is no longer listed', async () => {
+      const mockClient = {
+        getPosts: jest.fn().mockResolvedValueOnce([]).mockResolvedValueOnce(mockPosts),
+      };
+
+      (RedditClient as jest.MockedClass<typeof RedditClient>).mockImplementation(
+        () => mockClient as unknown as RedditClient
+      );
+
+      const scraper = new RedditScraper({
+        subreddits: ['vscode'],
+        sort: 'new',
+      });
+
+      const signals = await scraper.scrape({
+        type: 'reddit',
+        params: {},
+        cursors: [
+          createScrapeCursor({
+            source: 'reddit',
+            scope: 'vscode',
+            lastSeenId: 'reddit-deleted',
+            lastSeenAt: new Date(1699999998500),
+          }),
+        ],
+      });
+
+      expect(mockClient.getPosts.mock.calls).toEqual([
+        ['vscode', { limit: 100, sort: 'new', before: 't3_deleted' }],
+        ['vscode', { limit: 100, sort: 'new' }],
+      ]);
+      expect(signals.map((s) => s.id)).toEqual(['reddit-post1']);
+      expect(scraper.getCursors()).toEqual([
+        expect.objectContaining({ scope: 'vscode', lastSeenId: 'reddit-post1' }),
+      ]);
+    });
+
+    it('should not anchor listings other than new', async () => {
+      const mockClient = {
+        getPosts: jest.fn().mockResolvedValue([]),
+      };
+
+      (RedditClient as jest.MockedClass<typeof RedditClient>).mockImplementation(
+        () => mockClient as unknown as RedditClient
+      );
+
+      const scraper = new RedditScraper({
+        subreddits: ['vscode'],
+        sort: 'hot',
+      });
+
+      await scraper.scrape({
+        type: 'reddit',
+        params: {},
+        cursors: [
+          createScrapeCursor({
+            source: 'reddit',
+            scope: 'vscode',
+            lastSeenId: 'reddit-post2',
+            lastSeenAt: new Date(1699999998 * 1000),
+          }),
+        ],
+      });
+
+      expect(mockClient.getPosts.mock.calls).toEqual([['vscode', { limit: 100, sort: 'hot' }]]);
+    });
+
+    it('should track cursors for each scraped subreddit', async () => {
+      const mockClient = {
+        getPosts: jest.fn().mockResolvedValue(mockPosts),
+      };
+
+      (RedditClient as jest.MockedClass<typeof RedditClient>).mockImplementation(
+        () => mockClient as unknown as RedditClient
+      );
+
+      const scraper = new RedditScraper({
+        subreddits: ['vscode', 'programming'],
+      });
+
+      const signals = await scraper.scrape();
+
+      expect(signals).toHaveLength(4);
+      expect(scraper.getCursors().map((cursor) => [cursor.scope, cursor.lastSeenId])).toEqual([
+        ['vscode', 'reddit-post1'],
+        ['programming', 'reddit-post1'],
+      ]);
+    });
+
     it('should handle retryable errors and continue scraping', async () => {
       const mockClient = {
         getPosts: jest
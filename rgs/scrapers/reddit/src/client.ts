@@ -19,6 +19,9 @@ export interface GetPostsOptions {
 
   /** Sort order: 'hot', 'new', or 'top' */
   readonly sort: 'hot' | 'new' | 'top';
+
+  /** Fullname (t3_...) of a post; with 'new' sort, only newer posts are fetched */
+  readonly before?: string;
 }
 
 /**
@@ -153,7 +156,10 @@ export class RedditClient {
             listing = await sub.getHot({ limit: options.limit });
             break;
           case 'new':
-            listing = await sub.getNew({ limit: options.limit });
+            listing = await sub.getNew({
+              limit: options.limit,
+              ...(options.before !== undefined && { before: options.before }),
+            });
             break;
           case 'top':
             listing = await sub.getTop({ time: 'week', limit: options.limit });
@@ -110,6 +110,7 @@ export function mapRedditPostToSignal(post: RedditPost): WebSignal {
   const signalParams: Parameters<typeof createWebSignal>[0] = {
     id: `reddit-${post.id}`,
     source: 'reddit',
+    type: 'post',
     content: content.trim(),
     timestamp,
     url,
@@ -5,6 +5,7 @@
  */
 
 import { BaseScraper, ScrapeConfig } from '@rgs/core/interfaces/scraper';
+import { findCursor } from '@rgs/core/models/cursor';
 import { WebSignal } from '@rgs/core/models/signal';
 import { RateLimiter } from '@rgs/utils/rate-limiter';
 import { ScraperError } from '@rgs/utils/errors';
@@ -65,6 +66,10 @@ export class RedditScraper extends BaseScraper {
   /**
    * Scrapes Reddit posts based on configuration
    *
+   * With cursors in the scrape configuration, only posts newer than each
+   * subreddit's cursor are returned. With 'new' sort the listing starts at
+   * the cursor's post, unless that post can no longer be listed.
+   *
    * @param scrapeConfig - Scrape configuration (optional, uses constructor config by default)
    * @returns Array of web signals
    * @throws ScraperError if scraping fails
@@ -93,12 +98,24 @@ export class RedditScraper extends BaseScraper {
       try {
         this.logger.debug(`Scraping subreddit: ${subreddit}`);
 
-        // Get posts from the subreddit
-        const posts = await this.client.getPosts(subreddit, {
-          limit: postsPerSubreddit,
-          sort: this.config.sort,
+        // Get posts from the subreddit, starting after the last seen post when possible
+        const cursor = findCursor(scrapeConfig?.cursors, 'reddit', subreddit);
+        const options = { limit: postsPerSubreddit, sort: this.config.sort };
+        const anchored = cursor !== undefined && this.config.sort === 'new';
+        let posts = await this.client.getPosts(subreddit, {
+          ...options,
+          ...(anchored && { before: toFullname(cursor.lastSeenId) }),
         });
 
+        // Reddit lists nothing before a deleted or removed post, so an empty
+        // anchored listing is retried without the anchor and filtered by time
+        if (anchored && posts.length === 0) {
+          this.logger.debug(
+            `No posts before ${cursor.lastSeenId} in r/${subreddit}, retrying unanchored`
+          );
+          posts = await this.client.getPosts(subreddit, options);
+        }
+
         this.logger.debug(`Fetched ${posts.length} posts from r/${subreddit}`);
 
         // Map posts to WebSignals
@@ -116,13 +133,22 @@ export class RedditScraper extends BaseScraper {
           return isValid;
         });
 
-        signals.push(...validSignals);
+        // Drop posts seen in previous runs
+        const newSignals = this.takeNewSignals(
+          'reddit',
+          subreddit,
+          validSignals,
+          scrapeConfig?.cursors
+        );
+
+        signals.push(...newSignals);
 
-        this.logger.info(`Scraped ${validSignals.length} valid signals from r/${subreddit}`, {
+        this.logger.info(`Scraped ${newSignals.length} valid signals from r/${subreddit}`, {
           subreddit,
           total: posts.length,
           valid: validSignals.length,
           filtered: posts.length - validSignals.length,
+          alreadySeen: validSignals.length - newSignals.length,
         });
       } catch (error) {
         const scraperError =
@@ -207,3 +233,10 @@ export class RedditScraper extends BaseScraper {
     return this.config;
   }
 }
+
+/**
+ * Converts a signal ID (reddit-<id>) to the post's Reddit fullname (t3_<id>)
+ */
+function toFullname(signalId: string): string {
+  return `t3_${signalId.replace(/^reddit-/, '')}`;
+}
@@ -0,0 +1,349 @@
+/**
+ * Tests for Stack Exchange API client
+ */
+
+import axios from 'axios';
+import { StackOverflowClient, SEResponse, SEQuestion } from '../src/client';
+import { RateLimiter } from '@rgs/utils';
+import { ScraperError, RateLimitError, NetworkError, AuthenticationError } from '@rgs/utils';
+import searchFixture from './fixtures/search-advanced.json';
+import answersFixture from './fixtures/answers.json';
+import commentsFixture from './fixtures/comments.json';
+import throttleFixture from './fixtures/error-throttle.json';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = jest.mocked(axios);
+
+/**
+ * Builds an axios-style error for a failed request
+ */
+function axiosError(status: number | undefined, data?: unknown, code?: string): Error {
+  return Object.assign(new Error('Request failed'), {
+    isAxiosError: true,
+    code,
+    response: status !== undefined ? { status, data, headers: {} } : undefined,
+  });
+}
+
+describe('StackOverflowClient', () => {
+  let client: StackOverflowClient;
+  let rateLimiter: RateLimiter;
+  let mockGet: jest.Mock;
+
+  beforeEach(() => {
+    mockGet = jest.fn();
+    mockedAxios.create.mockReturnValue({ get: mockGet } as unknown as ReturnType<
+      typeof axios.create
+    >);
+    mockedAxios.isAxiosError.mockImplementation(
+      (error: unknown) => (error as { isAxiosError?: boolean }).isAxiosError === true
+    );
+
+    // Create rate limiter (high limit for tests)
+    rateLimiter = new RateLimiter({ requestsPerMinute: 10000 });
+    client = new StackOverflowClient(rateLimiter);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('searchQuestions', () => {
+    it('should search questions by query and tags', async () => {
+      mockGet.mockResolvedValue({ data: searchFixture });
+
+      const result = await client.searchQuestions({
+        query: 'slow startup',
+        tagged: ['visual-studio-code', 'performance'],
+        sort: 'votes',
+        order: 'asc',
+        pageSize: 50,
+        page: 2,
+        fromDate: new Date('2024-01-01T00:00:00Z'),
+      });
+
+      expect(result.items).toHaveLength(3);
+      expect(mockGet).toHaveBeenCalledWith('/search/advanced', {
+        params: {
+          q: 'slow startup',
+          tagged: 'visual-studio-code;performance',
+          sort: 'votes',
+          order: 'asc',
+          pagesize: 50,
+          page: 2,
+          fromdate: 1704067200,
+          site: 'stackoverflow',
+          filter: 'withbody',
+        },
+      });
+    });
+
+    it('should search by tags alone', async () => {
+      mockGet.mockResolvedValue({ data: searchFixture });
+
+      await client.searchQuestions({ tagged: ['visual-studio-code'] });
+
+      expect(mockGet).toHaveBeenCalledWith('/search/advanced', {
+        params: {
+          tagged: 'visual-studio-code',
+          sort: 'activity',
+          order: 'desc',
+          pagesize: 100,
+          page: 1,
+          site: 'stackoverflow',
+          filter: 'withbody',
+        },
+      });
+    });
+
+    it('should cap page size at 100', async () => {
+      mockGet.mockResolvedValue({ data: searchFixture });
+
+      await client.searchQuestions({ query: 'test', pageSize: 500 });
+
+      expect(mockGet).toHaveBeenCalledWith(
+        '/search/advanced',
+        expect.objectContaining({
+          params: expect.objectContaining({ pagesize: 100 }) as unknown,
+        })
+      );
+    });
+
+    it('should pass site and app key', async () => {
+      client = new StackOverflowClient(rateLimiter, { site: 'superuser', key: 'app-key' });
+      mockGet.mockResolvedValue({ data: searchFixture });
+
+      await client.searchQuestions({ query: 'test' });
+
+      expect(mockGet).toHaveBeenCalledWith(
+        '/search/advanced',
+        expect.objectContaining({
+          params: expect.objectContaining({ site: 'superuser', key: 'app-key' }) as unknown,
+        })
+      );
+    });
+
+    it('should throw error without query or tags', async () => {
+      await expect(client.searchQuestions({ query: '  ', tagged: [] })).rejects.toThrow(
+        'Query or tags are required'
+      );
+      expect(mockGet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAnswers', () => {
+    it('should fetch answers for question IDs', async () => {
+      mockGet.mockResolvedValue({ data: answersFixture });
+
+      const answers = await client.getAnswers([77411876, 77793501]);
+
+      expect(answers).toHaveLength(2);
+      expect(answers[0]?.answer_id).toBe(77412093);
+      expect(mockGet).toHaveBeenCalledWith('/questions/77411876;77793501/answers', {
+        params: {
+          sort: 'creation',
+          order: 'asc',
+          pagesize: 100,
+          page: 1,
+          site: 'stackoverflow',
+          filter: 'withbody',
+        },
+      });
+    });
+
+    it('should follow has_more across pages', async () => {
+      mockGet
+        .mockResolvedValueOnce({ data: { ...answersFixture, has_more: true } })
+        .mockResolvedValueOnce({ data: answersFixture });
+
+      const answers = await client.getAnswers([77411876]);
+
+      expect(answers).toHaveLength(4);
+      expect(mockGet).toHaveBeenCalledTimes(2);
+      expect(mockGet).toHaveBeenLastCalledWith(
+        '/questions/77411876/answers',
+        expect.objectContaining({ params: expect.objectContaining({ page: 2 }) as unknown })
+      );
+    });
+
+    it('should batch more than 100 IDs', async () => {
+      mockGet.mockResolvedValue({ data: { ...answersFixture, items: [] } });
+      const ids = Array.from({ length: 150 }, (_, i) => i + 1);
+
+      await client.getAnswers(ids);
+
+      expect(mockGet).toHaveBeenCalledTimes(2);
+      const paths = mockGet.mock.calls.map(([path]) => String(path));
+      expect(paths[0]).toBe(`/questions/${ids.slice(0, 100).join(';')}/answers`);
+      expect(paths[1]).toBe(`/questions/${ids.slice(100).join(';')}/answers`);
+    });
+
+    it('should reject invalid IDs', async () => {
+      await expect(client.getAnswers([0])).rejects.toThrow('Invalid post ID');
+      await expect(client.getAnswers([1.5])).rejects.toThrow(ScraperError);
+    });
+  });
+
+  describe('getComments', () => {
+    it('should fetch comments for post IDs', async () => {
+      jest.spyOn(rateLimiter, 'backoff').mockImplementation(() => undefined);
+      mockGet.mockResolvedValue({ data: commentsFixture });
+
+      const comments = await client.getComments([77411876, 77412093]);
+
+      expect(comments).toHaveLength(2);
+      expect(comments[1]?.post_id).toBe(77412093);
+      expect(mockGet).toHaveBeenCalledWith('/posts/77411876;77412093/comments', expect.anything());
+    });
+  });
+
+  describe('quota and backoff', () => {
+    it('should record the quota of the last response', async () => {
+      expect(client.getQuota()).toBeUndefined();
+      mockGet.mockResolvedValue({ data: searchFixture });
+
+      await client.searchQuestions({ query: 'test' });
+
+      expect(client.getQuota()).toEqual({ remaining: 9987, max: 10000 });
+    });
+
+    it('should pass backoff on to the rate limiter', async () => {
+      const backoff = jest.spyOn(rateLimiter, 'backoff').mockImplementation(() => undefined);
+      mockGet.mockResolvedValue({ data: commentsFixture });
+
+      await client.getComments([77411876]);
+
+      expect(backoff).toHaveBeenCalledWith(10000);
+    });
+
+    it('should not back off when the response has no backoff', async () => {
+      const backoff = jest.spyOn(rateLimiter, 'backoff');
+      mockGet.mockResolvedValue({ data: searchFixture });
+
+      await client.searchQuestions({ query: 'test' });
+
+      expect(backoff).not.toHaveBeenCalled();
+    });
+
+    it('should stop calling the API once the quota is exhausted', async () => {
+      const exhausted: SEResponse<SEQuestion> = { ...searchFixture, quota_remaining: 0 };
+      mockGet.mockResolvedValue({ data: exhausted });
+
+      await client.searchQuestions({ query: 'test' });
+      await expect(client.searchQuestions({ query: 'test' })).rejects.toThrow(
+        'Stack Exchange daily quota of 10000 requests exhausted'
+      );
+      expect(mockGet).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('error handling', () => {
+    it('should convert throttle violations to RateLimitError', async () => {
+      mockGet.mockRejectedValue(axiosError(400, throttleFixture));
+
+      const error = (await client
+        .searchQuestions({ query: 'test' })
+        .catch((e: unknown) => e)) as RateLimitError;
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfterMs).toBe(82452000);
+      expect(error.source).toBe('stackoverflow');
+    });
+
+    it('should convert 429 responses to RateLimitError', async () => {
+      const error = axiosError(429);
+      (error as unknown as { response: { headers: Record<string, string> } }).response.headers[
+        'retry-after'
+      ] = '30';
+      mockGet.mockRejectedValue(error);
+
+      await expect(client.searchQuestions({ query: 'test' })).rejects.toMatchObject({
+        name: 'RateLimitError',
+        retryAfterMs: 30000,
+      });
+    });
+
+    it('should convert key errors to AuthenticationError', async () => {
+      mockGet.mockRejectedValue(
+        axiosError(400, { error_id: 405, error_name: 'key_required', error_message: 'key' })
+      );
+
+      await expect(client.searchQuestions({ query: 'test' })).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should convert bad parameters to non-retryable ScraperError', async () => {
+      mockGet.mockRejectedValue(
+        axiosError(400, {
+          error_id: 400,
+          error_name: 'bad_parameter',
+          error_message: 'tagged is invalid',
+        })
+      );
+
+      await expect(client.searchQuestions({ query: 'test' })).rejects.toMatchObject({
+        name: 'ScraperError',
+        retryable: false,
+        message: 'Invalid Stack Exchange API request: tagged is invalid',
+      });
+    });
+
+    it('should convert 400 responses without an error body to ScraperError', async () => {
+      mockGet.mockRejectedValue(axiosError(400));
+
+      await expect(client.searchQuestions({ query: 'test' })).rejects.toMatchObject({
+        name: 'ScraperError',
+        retryable: false,
+      });
+    });
+
+    it('should convert server errors to retryable NetworkError', async () => {
+      mockGet.mockRejectedValue(axiosError(503));
+
+      await expect(client.searchQuestions({ query: 'test' })).rejects.toMatchObject({
+        name: 'NetworkError',
+        statusCode: 503,
+        retryable: true,
+      });
+    });
+
+    it('should convert connection errors to NetworkError', async () => {
+      mockGet.mockRejectedValue(axiosError(undefined, undefined, 'ECONNREFUSED'));
+
+      await expect(client.searchQuestions({ query: 'test' })).rejects.toThrow(
+        'Stack Exchange API unavailable'
+      );
+    });
+
+    it('should convert other axios errors to NetworkError', async () => {
+      mockGet.mockRejectedValue(axiosError(undefined, undefined, 'ECONNRESET'));
+
+      await expect(client.searchQuestions({ query: 'test' })).rejects.toThrow(NetworkError);
+    });
+
+    it('should wrap unknown errors', async () => {
+      mockGet.mockRejectedValue(new Error('boom'));
+
+      await expect(client.searchQuestions({ query: 'test' })).rejects.toThrow(
+        'Unknown Stack Exchange API error'
+      );
+    });
+  });
+
+  describe('testConnection', () => {
+    it('should return true when the API responds', async () => {
+      mockGet.mockResolvedValue({
+        data: { items: [], has_more: false, quota_max: 300, quota_remaining: 299 },
+      });
+
+      await expect(client.testConnection()).resolves.toBe(true);
+      expect(mockGet).toHaveBeenCalledWith('/info', expect.anything());
+    });
+
+    it('should return false on errors', async () => {
+      mockGet.mockRejectedValue(axiosError(503));
+
+      await expect(client.testConnection()).resolves.toBe(false);
+    });
+  });
+});
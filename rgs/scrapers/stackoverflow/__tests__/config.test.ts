@@ -0,0 +1,107 @@
+/**
+ * Tests for Stack Overflow configuration
+ */
+
+import {
+  validateSOConfig,
+  createSOConfig,
+  loadSOConfigFromEnv,
+  DEFAULT_SO_CONFIG,
+} from '../src/config';
+
+describe('Stack Overflow Configuration', () => {
+  describe('validateSOConfig', () => {
+    it('should validate default configuration', () => {
+      expect(validateSOConfig(DEFAULT_SO_CONFIG)).toEqual(DEFAULT_SO_CONFIG);
+    });
+
+    it('should apply defaults', () => {
+      const config = validateSOConfig({ tags: ['vscode'] });
+
+      expect(config).toEqual({
+        site: 'stackoverflow',
+        tags: ['vscode'],
+        queries: [],
+        includeAnswers: true,
+        includeComments: true,
+        minScore: 0,
+        maxQuestionsPerQuery: 100,
+        sort: 'activity',
+        rateLimit: { requestsPerHour: 1000 },
+      });
+      expect('key' in config).toBe(false);
+    });
+
+    it('should keep the app key', () => {
+      expect(validateSOConfig({ queries: ['test'], key: 'abc' }).key).toBe('abc');
+    });
+
+    it('should accept queries without tags', () => {
+      expect(validateSOConfig({ queries: ['cursor ai'] }).queries).toEqual(['cursor ai']);
+    });
+
+    it('should require a tag or a query', () => {
+      expect(() => validateSOConfig({})).toThrow('At least one tag or query is required');
+    });
+
+    it('should reject invalid tags', () => {
+      expect(() => validateSOConfig({ tags: ['Visual Studio Code'] })).toThrow('Invalid tag');
+    });
+
+    it('should accept tags with symbols', () => {
+      expect(validateSOConfig({ tags: ['c#', 'c++', 'node.js'] }).tags).toHaveLength(3);
+    });
+
+    it('should reject empty queries', () => {
+      expect(() => validateSOConfig({ queries: ['  '] })).toThrow('Query cannot be empty');
+    });
+
+    it('should reject invalid sort', () => {
+      expect(() => validateSOConfig({ tags: ['vscode'], sort: 'hot' })).toThrow();
+    });
+
+    it('should reject out-of-range maxQuestionsPerQuery', () => {
+      expect(() => validateSOConfig({ tags: ['vscode'], maxQuestionsPerQuery: 0 })).toThrow();
+      expect(() => validateSOConfig({ tags: ['vscode'], maxQuestionsPerQuery: 5000 })).toThrow();
+    });
+
+    it('should reject invalid rate limit', () => {
+      expect(() =>
+        validateSOConfig({ tags: ['vscode'], rateLimit: { requestsPerHour: 0 } })
+      ).toThrow();
+    });
+  });
+
+  describe('createSOConfig', () => {
+    it('should merge with defaults', () => {
+      const config = createSOConfig({ tags: ['cursor'], includeComments: false });
+
+      expect(config.tags).toEqual(['cursor']);
+      expect(config.includeComments).toBe(false);
+      expect(config.includeAnswers).toBe(true);
+      expect(config.site).toBe('stackoverflow');
+    });
+  });
+
+  describe('loadSOConfigFromEnv', () => {
+    const originalKey = process.env['STACKEXCHANGE_KEY'];
+
+    afterEach(() => {
+      if (originalKey === undefined) {
+        delete process.env['STACKEXCHANGE_KEY'];
+      } else {
+        process.env['STACKEXCHANGE_KEY'] = originalKey;
+      }
+    });
+
+    it('should load the app key', () => {
+      process.env['STACKEXCHANGE_KEY'] = ' abc123 ';
+      expect(loadSOConfigFromEnv()).toEqual({ key: 'abc123' });
+    });
+
+    it('should return empty config without a key', () => {
+      delete process.env['STACKEXCHANGE_KEY'];
+      expect(loadSOConfigFromEnv()).toEqual({});
+    });
+  });
+});
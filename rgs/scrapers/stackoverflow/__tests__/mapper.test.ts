@@ -0,0 +1,162 @@
+/**
+ * Tests for Stack Overflow to WebSignal mapper
+ */
+
+import {
+  mapQuestionToSignal,
+  mapAnswerToSignal,
+  mapCommentToSignal,
+  isValidQuestion,
+  isValidAnswer,
+  isValidComment,
+  htmlToText,
+  decodeEntities,
+} from '../src/mapper';
+import { SEQuestion, SEAnswer, SEComment } from '../src/client';
+import searchFixture from './fixtures/search-advanced.json';
+import answersFixture from './fixtures/answers.json';
+import commentsFixture from './fixtures/comments.json';
+
+const questions: SEQuestion[] = searchFixture.items;
+const answers: SEAnswer[] = answersFixture.items;
+const comments: SEComment[] = commentsFixture.items;
+const question = questions[0]!;
+
+describe('Stack Overflow Mapper', () => {
+  describe('decodeEntities', () => {
+    it('should decode named and numeric entities', () => {
+      expect(decodeEntities('a &amp; b &lt;c&gt; &quot;d&quot; &#39;e&#39; &#x41;')).toBe(
+        `a & b <c> "d" 'e' A`
+      );
+      expect(decodeEntities('J&#246;rg')).toBe('Jörg');
+    });
+
+    it('should leave unknown entities untouched', () => {
+      expect(decodeEntities('&unknown;')).toBe('&unknown;');
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('should strip tags and keep paragraph breaks', () => {
+      expect(htmlToText('<p>First <code>line</code></p>\n\n<p>Second &amp; last</p>\n')).toBe(
+        'First line\n\nSecond & last'
+      );
+    });
+
+    it('should convert line breaks', () => {
+      expect(htmlToText('one<br>two<br />three')).toBe('one\ntwo\nthree');
+    });
+
+    it('should return empty string for empty markup', () => {
+      expect(htmlToText('<p> </p>')).toBe('');
+    });
+  });
+
+  describe('mapQuestionToSignal', () => {
+    it('should map a question to a signal', () => {
+      const signal = mapQuestionToSignal(question);
+
+      expect(signal.id).toBe('so-q-77411876');
+      expect(signal.type).toBe('post');
+      expect(signal.source).toBe('stackoverflow');
+      expect(signal.content).toBe(
+        'VS Code extension host is slow to start "Activating extensions..."\n\n' +
+          'Every time I open a workspace the status bar shows Activating extensions... for 30 seconds.\n\n' +
+          'I have tried disabling all extensions & reinstalling.'
+      );
+      expect(signal.author).toBe('Jörg Müller');
+      expect(signal.timestamp).toEqual(new Date(1698829200 * 1000));
+      expect(signal.url).toBe(question.link);
+      expect(signal.metadata).toEqual({
+        questionId: 77411876,
+        title: 'VS Code extension host is slow to start "Activating extensions..."',
+        tags: ['visual-studio-code', 'vscode-extensions', 'performance'],
+        score: 14,
+        answerCount: 2,
+        viewCount: 5834,
+        isAnswered: true,
+        acceptedAnswerId: 77412093,
+        type: 'question',
+      });
+    });
+
+    it('should use the title when the body is missing', () => {
+      const { body: _body, ...withoutBody } = question;
+      expect(mapQuestionToSignal(withoutBody).content).toBe(
+        'VS Code extension host is slow to start "Activating extensions..."'
+      );
+    });
+
+    it('should omit author when the owner is missing', () => {
+      const { owner: _owner, ...withoutOwner } = question;
+      expect(mapQuestionToSignal(withoutOwner).author).toBeUndefined();
+    });
+  });
+
+  describe('mapAnswerToSignal', () => {
+    it('should map an answer to a signal', () => {
+      const signal = mapAnswerToSignal(answers[0]!, question);
+
+      expect(signal.id).toBe('so-a-77412093');
+      expect(signal.type).toBe('answer');
+      expect(signal.content).toBe(
+        'Run Developer: Show Running Extensions to see activation times.\n\ncode --disable-extensions'
+      );
+      expect(signal.author).toBe('starball');
+      expect(signal.url).toBe('https://stackoverflow.com/a/77412093');
+      expect(signal.metadata).toMatchObject({
+        answerId: 77412093,
+        questionId: 77411876,
+        score: 21,
+        isAccepted: true,
+        type: 'answer',
+      });
+    });
+
+    it('should build answer URLs on the question site', () => {
+      const superuser = { ...question, link: 'https://superuser.com/questions/1/slow' };
+      expect(mapAnswerToSignal(answers[0]!, superuser).url).toBe(
+        'https://superuser.com/a/77412093'
+      );
+    });
+  });
+
+  describe('mapCommentToSignal', () => {
+    it('should map a comment to a signal', () => {
+      const signal = mapCommentToSignal(comments[0]!, question);
+
+      expect(signal.id).toBe('so-c-136470011');
+      expect(signal.type).toBe('comment');
+      expect(signal.content).toBe(
+        'Which version are you on? There was a regression in 1.84 & 1.85.'
+      );
+      expect(signal.url).toBe(`${question.link}#comment136470011_77411876`);
+      expect(signal.metadata).toMatchObject({
+        commentId: 136470011,
+        postId: 77411876,
+        questionId: 77411876,
+        type: 'comment',
+      });
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept recorded questions', () => {
+      expect(questions.every(isValidQuestion)).toBe(true);
+    });
+
+    it('should reject questions without a title', () => {
+      expect(isValidQuestion({ ...question, title: ' ' })).toBe(false);
+    });
+
+    it('should reject answers and comments without a body', () => {
+      const { body: _answerBody, ...answer } = answers[0]!;
+      const { body: _commentBody, ...comment } = comments[0]!;
+
+      expect(isValidAnswer(answers[0]!)).toBe(true);
+      expect(isValidAnswer(answer)).toBe(false);
+      expect(isValidComment(comments[0]!)).toBe(true);
+      expect(isValidComment({ ...comment, body: '<p></p>' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Tests for Stack Overflow scraper
+ *
+ * Runs the scraper and client against recorded Stack Exchange API responses.
+ */
+
+import axios from 'axios';
+import { StackOverflowScraper } from '../src/scraper';
+import { StackOverflowClient } from '../src/client';
+import { StackOverflowConfig, DEFAULT_SO_CONFIG } from '../src/config';
+import { RateLimiter } from '@rgs/utils';
+import { ScrapeConfig, WebSignal, createScrapeCursor } from '@rgs/core';
+import searchFixture from './fixtures/search-advanced.json';
+import answersFixture from './fixtures/answers.json';
+import commentsFixture from './fixtures/comments.json';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = jest.mocked(axios);
+
+/**
+ * Serves recorded fixtures by API path
+ */
+function serveFixtures(path: string): Promise<{ data: unknown }> {
+  if (path === '/search/advanced') {
+    return Promise.resolve({ data: searchFixture });
+  }
+  if (path.endsWith('/answers')) {
+    return Promise.resolve({ data: answersFixture });
+  }
+  if (path.endsWith('/comments')) {
+    return Promise.resolve({ data: commentsFixture });
+  }
+  return Promise.reject(new Error(`No fixture for ${path}`));
+}
+
+describe('StackOverflowScraper', () => {
+  let scraper: StackOverflowScraper;
+  let client: StackOverflowClient;
+  let rateLimiter: RateLimiter;
+  let mockGet: jest.Mock;
+  let config: StackOverflowConfig;
+  let scrapeConfig: ScrapeConfig;
+
+  beforeEach(() => {
+    mockGet = jest.fn(serveFixtures);
+    mockedAxios.create.mockReturnValue({ get: mockGet } as unknown as ReturnType<
+      typeof axios.create
+    >);
+
+    rateLimiter = new RateLimiter({ requestsPerMinute: 10000 });
+    // The recorded comments response asks for a 10s backoff
+    jest.spyOn(rateLimiter, 'backoff').mockImplementation(() => undefined);
+    client = new StackOverflowClient(rateLimiter);
+
+    config = {
+      ...DEFAULT_SO_CONFIG,
+      tags: ['visual-studio-code'],
+      queries: [],
+    };
+    scrapeConfig = {
+      type: 'stackoverflow',
+      params: {},
+    };
+
+    scraper = new StackOverflowScraper(client, config);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const ids = (signals: WebSignal[]): string[] => signals.map((signal) => signal.id);
+
+  describe('scrape', () => {
+    it('should scrape questions, answers and comments', async () => {
+      const signals = await scraper.scrape(scrapeConfig);
+
+      expect(ids(signals)).toEqual([
+        'so-q-77411876',
+        'so-q-77793501',
+        'so-a-77412093',
+        'so-c-136470011',
+        'so-c-136471234',
+      ]);
+      expect(signals.every((signal) => signal.source === 'stackoverflow')).toBe(true);
+    });
+
+    it('should filter questions and answers below the minimum score', async () => {
+      scraper = new StackOverflowScraper(client, { ...config, minScore: -5 });
+
+      const signals = await scraper.scrape(scrapeConfig);
+
+      expect(ids(signals)).toContain('so-q-77820034');
+      expect(ids(signals)).toContain('so-a-77420555');
+    });
+
+    it('should only fetch answers for answered questions', async () => {
+      await scraper.scrape(scrapeConfig);
+
+      expect(mockGet).toHaveBeenCalledWith('/questions/77411876/answers', expect.anything());
+    });
+
+    it('should fetch comments on questions and answers', async () => {
+      await scraper.scrape(scrapeConfig);
+
+      expect(mockGet).toHaveBeenCalledWith(
+        '/posts/77411876;77793501;77412093/comments',
+        expect.anything()
+      );
+    });
+
+    it('should resolve answer comments to their question', async () => {
+      const signals = await scraper.scrape(scrapeConfig);
+      const comment = signals.find((signal) => signal.id === 'so-c-136471234');
+
+      expect(comment?.metadata['questionId']).toBe(77411876);
+      expect(comment?.url).toBe(
+        'https://stackoverflow.com/questions/77411876/vs-code-extension-host-is-slow-to-start#comment136471234_77412093'
+      );
+    });
+
+    it('should skip answers and comments when disabled', async () => {
+      scraper = new StackOverflowScraper(client, {
+        ...config,
+        includeAnswers: false,
+        includeComments: false,
+      });
+
+      const signals = await scraper.scrape(scrapeConfig);
+
+      expect(ids(signals)).toEqual(['so-q-77411876', 'so-q-77793501']);
+      expect(mockGet).toHaveBeenCalledTimes(1);
+    });
+
+    it('should search each query with the tags and deduplicate', async () => {
+      scraper = new StackOverflowScraper(client, {
+        ...config,
+        queries: ['slow', 'extensions'],
+        includeAnswers: false,
+        includeComments: false,
+      });
+
+      const signals = await scraper.scrape(scrapeConfig);
+
+      expect(signals).toHaveLength(2);
+      const searches = (mockGet.mock.calls as Array<[string, unknown]>).filter(
+        ([path]) => path === '/search/advanced'
+      );
+      expect(searches).toHaveLength(2);
+      expect(searches[0]?.[1]).toMatchObject({
+        params: { q: 'slow', tagged: 'visual-studio-code' },
+      });
+    });
+
+    it('should page until the maximum number of questions', async () => {
+      mockGet.mockImplementation((path: string) =>
+        path === '/search/advanced'
+          ? Promise.resolve({ data: { ...searchFixture, has_more: true } })
+          : serveFixtures(path)
+      );
+      scraper = new StackOverflowScraper(client, {
+        ...config,
+        maxQuestionsPerQuery: 5,
+        includeAnswers: false,
+        includeComments: false,
+      });
+
+      await scraper.scrape(scrapeConfig);
+
+      const searches = (mockGet.mock.calls as Array<[string, unknown]>).filter(
+        ([path]) => path === '/search/advanced'
+      );
+      expect(searches).toHaveLength(2);
+      expect(searches[1]?.[1]).toMatchObject({ params: { page: 2, pagesize: 2 } });
+    });
+
+    it('should limit question age by timeRangeHours', async () => {
+      const dayAgo = Math.floor((Date.now() - 24 * 60 * 60 * 1000) / 1000);
+
+      await scraper.scrape({ ...scrapeConfig, timeRangeHours: 24 });
+
+      const [, options] = mockGet.mock.calls[0] as [string, { params: { fromdate: number } }];
+      expect(options.params.fromdate - dayAgo).toBeGreaterThanOrEqual(0);
+      expect(options.params.fromdate - dayAgo).toBeLessThanOrEqual(5);
+    });
+
+    it('should only fetch questions created since the cursor', async () => {
+      const signals = await scraper.scrape({
+        ...scrapeConfig,
+        timeRangeHours: 24 * 365 * 100,
+        cursors: [
+          createScrapeCursor({
+            source: 'stackoverflow',
+            scope: 'tags:visual-studio-code',
+            lastSeenId: 'so-q-77411876',
+            lastSeenAt: new Date(1698829200 * 1000),
+          }),
+        ],
+      });
+
+      const [, options] = mockGet.mock.calls[0] as [
+        string,
+        { params: { fromdate: number; sort: string; order: string } },
+      ];
+      expect(options.params).toMatchObject({
+        fromdate: 1698829200,
+        sort: 'creation',
+        order: 'asc',
+      });
+      expect(ids(signals)).toEqual(['so-q-77793501']);
+      expect(mockGet).not.toHaveBeenCalledWith('/questions/77411876/answers', expect.anything());
+      expect(mockGet).toHaveBeenCalledWith('/posts/77793501/comments', expect.anything());
+      expect(scraper.getCursors()).toEqual([
+        expect.objectContaining({
+          scope: 'tags:visual-studio-code',
+          lastSeenId: 'so-q-77793501',
+          lastSeenAt: new Date(1704880800 * 1000),
+        }),
+      ]);
+    });
+
+    it('should keep questions when answers fail', async () => {
+      mockGet.mockImplementation((path: string) =>
+        path.endsWith('/answers') ? Promise.reject(new Error('boom')) : serveFixtures(path)
+      );
+
+      const signals = await scraper.scrape(scrapeConfig);
+
+      expect(ids(signals)).toEqual(['so-q-77411876', 'so-q-77793501', 'so-c-136470011']);
+    });
+
+    it('should keep questions and answers when comments fail', async () => {
+      mockGet.mockImplementation((path: string) =>
+        path.endsWith('/comments') ? Promise.reject(new Error('boom')) : serveFixtures(path)
+      );
+
+      const signals = await scraper.scrape(scrapeConfig);
+
+      expect(ids(signals)).toEqual(['so-q-77411876', 'so-q-77793501', 'so-a-77412093']);
+    });
+
+    it('should continue with other queries when one fails', async () => {
+      mockGet.mockImplementation((path: string, options: { params: { q?: string } }) =>
+        options.params.q === 'broken' ? Promise.reject(new Error('boom')) : serveFixtures(path)
+      );
+      scraper = new StackOverflowScraper(client, { ...config, queries: ['broken', 'slow'] });
+
+      const signals = await scraper.scrape(scrapeConfig);
+
+      expect(signals).toHaveLength(5);
+    });
+
+    it('should return no signals when nothing matches', async () => {
+      mockGet.mockResolvedValue({ data: { ...searchFixture, items: [] } });
+
+      await expect(scraper.scrape(scrapeConfig)).resolves.toEqual([]);
+      expect(mockGet).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('testConnection', () => {
+    it('should return the client result', async () => {
+      mockGet.mockResolvedValue({ data: { ...searchFixture, items: [] } });
+
+      await expect(scraper.testConnection()).resolves.toBe(true);
+    });
+
+    it('should return false when the client throws', async () => {
+      jest.spyOn(client, 'testConnection').mockRejectedValue(new Error('boom'));
+
+      await expect(scraper.testConnection()).resolves.toBe(false);
+    });
+  });
+
+  describe('validate', () => {
+    const signal: WebSignal = {
+      id: 'so-q-1',
+      source: 'stackoverflow',
+      content: 'How do I?',
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+      url: 'https://stackoverflow.com/questions/1',
+      metadata: { type: 'question', questionId: 1 },
+    };
+
+    it('should accept Stack Overflow signals', () => {
+      expect(scraper.validate(signal)).toBe(true);
+    });
+
+    it('should reject signals from other sources', () => {
+      expect(scraper.validate({ ...signal, source: 'reddit' })).toBe(false);
+    });
+
+    it('should reject invalid IDs, URLs and metadata', () => {
+      expect(scraper.validate({ ...signal, id: 'q-1' })).toBe(false);
+      expect(scraper.validate({ ...signal, url: 'stackoverflow.com/questions/1' })).toBe(false);
+      expect(scraper.validate({ ...signal, metadata: { type: 'post', questionId: 1 } })).toBe(
+        false
+      );
+      expect(scraper.validate({ ...signal, metadata: { type: 'question' } })).toBe(false);
+    });
+
+    it('should apply base validation', () => {
+      expect(scraper.validate({ ...signal, content: ' ' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,23 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/__tests__', '<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts', '**/?(*.)+(spec|test).ts'],
+  collectCoverageFrom: [
+    'src/**/*.ts',
+    '!src/**/*.d.ts',
+    '!src/**/index.ts',
+  ],
+  coverageThreshold: {
+    global: {
+      branches: 85,
+      functions: 95,
+      lines: 95,
+      statements: 95,
+    },
+  },
+  moduleNameMapper: {
+    '^@rgs/core$': '<rootDir>/../../core/src',
+    '^@rgs/utils$': '<rootDir>/../../utils/src',
+  },
+};
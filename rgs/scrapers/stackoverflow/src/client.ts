@@ -0,0 +1,465 @@
+/**
+ * Stack Exchange API Client
+ *
+ * Wrapper around the Stack Exchange API with rate limiting, quota tracking
+ * and server-requested backoff.
+ * API Documentation: https://api.stackexchange.com/docs
+ */
+
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import { RateLimiter } from '@rgs/utils';
+import { ScraperError, RateLimitError, NetworkError, AuthenticationError } from '@rgs/utils';
+import type { QuestionSort } from './config';
+
+/**
+ * Stack Exchange API base URL
+ */
+const API_BASE_URL = 'https://api.stackexchange.com/2.3';
+
+/**
+ * Built-in filter that adds the `body` field to the default fields
+ */
+const BODY_FILTER = 'withbody';
+
+/**
+ * Maximum page size and number of IDs per vectorized request
+ */
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Owner of a post or comment
+ */
+export interface SEOwner {
+  readonly user_id?: number;
+  readonly display_name?: string;
+  readonly reputation?: number;
+  readonly link?: string;
+}
+
+/**
+ * Stack Exchange question
+ */
+export interface SEQuestion {
+  readonly question_id: number;
+  readonly title: string;
+  readonly body?: string;
+  readonly tags: string[];
+  readonly owner?: SEOwner;
+  readonly score: number;
+  readonly answer_count: number;
+  readonly view_count: number;
+  readonly is_answered: boolean;
+  readonly accepted_answer_id?: number;
+  readonly creation_date: number;
+  readonly last_activity_date: number;
+  readonly link: string;
+}
+
+/**
+ * Stack Exchange answer
+ */
+export interface SEAnswer {
+  readonly answer_id: number;
+  readonly question_id: number;
+  readonly body?: string;
+  readonly owner?: SEOwner;
+  readonly score: number;
+  readonly is_accepted: boolean;
+  readonly creation_date: number;
+  readonly last_activity_date: number;
+}
+
+/**
+ * Stack Exchange comment on a question or answer
+ */
+export interface SEComment {
+  readonly comment_id: number;
+  readonly post_id: number;
+  readonly body?: string;
+  readonly owner?: SEOwner;
+  readonly score: number;
+  readonly creation_date: number;
+}
+
+/**
+ * Common wrapper around every Stack Exchange API response
+ */
+export interface SEResponse<T> {
+  readonly items: T[];
+  readonly has_more: boolean;
+  readonly quota_max: number;
+  readonly quota_remaining: number;
+  /**
+   * Seconds to wait before calling the same method again
+   */
+  readonly backoff?: number;
+}
+
+/**
+ * Error body returned by the Stack Exchange API
+ */
+interface SEErrorBody {
+  readonly error_id?: number;
+  readonly error_name?: string;
+  readonly error_message?: string;
+}
+
+/**
+ * Options for searching questions
+ */
+export interface SEQuestionSearchOptions {
+  /**
+   * Free-text query matched against titles and bodies
+   */
+  readonly query?: string;
+
+  /**
+   * Tags questions must carry
+   */
+  readonly tagged?: readonly string[];
+
+  /**
+   * Sort field
+   */
+  readonly sort?: QuestionSort;
+
+  /**
+   * Sort order (default: 'desc')
+   */
+  readonly order?: 'asc' | 'desc';
+
+  /**
+   * Only include questions created at or after this date
+   */
+  readonly fromDate?: Date;
+
+  /**
+   * Results per page (max 100)
+   */
+  readonly pageSize?: number;
+
+  /**
+   * Page number (1-indexed)
+   */
+  readonly page?: number;
+}
+
+/**
+ * Stack Exchange client options
+ */
+export interface StackOverflowClientOptions {
+  /**
+   * Site to query (default: 'stackoverflow')
+   */
+  readonly site?: string;
+
+  /**
+   * App key that raises the daily quota
+   */
+  readonly key?: string;
+}
+
+/**
+ * Daily request quota reported by the API
+ */
+export interface QuotaInfo {
+  readonly remaining: number;
+  readonly max: number;
+}
+
+/**
+ * Stack Exchange API client with rate limiting
+ *
+ * Every response reports the remaining daily quota and may ask clients to
+ * back off. Backoff is passed on to the rate limiter, and once the quota is
+ * exhausted requests fail without calling the API.
+ */
+export class StackOverflowClient {
+  private readonly axios: AxiosInstance;
+  private readonly rateLimiter: RateLimiter;
+  private readonly site: string;
+  private readonly key: string | undefined;
+  private quota: QuotaInfo | undefined;
+
+  /**
+   * Creates a new StackOverflowClient
+   *
+   * @param rateLimiter - Rate limiter instance
+   * @param options - Site and app key
+   */
+  constructor(rateLimiter: RateLimiter, options: StackOverflowClientOptions = {}) {
+    this.rateLimiter = rateLimiter;
+    this.site = options.site ?? 'stackoverflow';
+    this.key = options.key;
+    this.axios = axios.create({
+      baseURL: API_BASE_URL,
+      timeout: 30000, // 30 second timeout
+      headers: {
+        Accept: 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Searches for questions by keyword and/or tags
+   *
+   * @param options - Query, tags, sort and pagination
+   * @returns Promise resolving to one page of questions
+   * @throws ScraperError on API errors or when neither query nor tags are given
+   */
+  async searchQuestions(options: SEQuestionSearchOptions): Promise<SEResponse<SEQuestion>> {
+    const query = options.query?.trim() ?? '';
+    const tagged = options.tagged ?? [];
+    if (query.length === 0 && tagged.length === 0) {
+      throw new ScraperError('Query or tags are required', 'stackoverflow', false);
+    }
+
+    const params: Record<string, string | number> = {
+      sort: options.sort ?? 'activity',
+      order: options.order ?? 'desc',
+      pagesize: Math.min(options.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE),
+      page: options.page ?? 1,
+    };
+
+    if (query.length > 0) {
+      params['q'] = query;
+    }
+    if (tagged.length > 0) {
+      params['tagged'] = tagged.join(';');
+    }
+    if (options.fromDate !== undefined) {
+      params['fromdate'] = Math.floor(options.fromDate.getTime() / 1000);
+    }
+
+    return this.request<SEQuestion>('/search/advanced', params);
+  }
+
+  /**
+   * Gets all answers to the given questions
+   *
+   * @param questionIds - Question IDs
+   * @returns Promise resolving to the answers, in API order
+   * @throws ScraperError on API errors
+   */
+  async getAnswers(questionIds: readonly number[]): Promise<SEAnswer[]> {
+    return this.fetchForIds<SEAnswer>(questionIds, (ids) => `/questions/${ids}/answers`);
+  }
+
+  /**
+   * Gets all comments on the given questions or answers
+   *
+   * @param postIds - Question or answer IDs
+   * @returns Promise resolving to the comments, in API order
+   * @throws ScraperError on API errors
+   */
+  async getComments(postIds: readonly number[]): Promise<SEComment[]> {
+    return this.fetchForIds<SEComment>(postIds, (ids) => `/posts/${ids}/comments`);
+  }
+
+  /**
+   * Gets the quota reported by the most recent response
+   *
+   * @returns Remaining and maximum daily requests, or undefined before the first request
+   */
+  getQuota(): QuotaInfo | undefined {
+    return this.quota;
+  }
+
+  /**
+   * Tests connection to the Stack Exchange API
+   *
+   * @returns Promise resolving to true if connection successful
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.request('/info', {});
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Fetches every page of a vectorized method, batching IDs per request
+   */
+  private async fetchForIds<T>(
+    ids: readonly number[],
+    path: (ids: string) => string
+  ): Promise<T[]> {
+    if (ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+      throw new ScraperError('Invalid post ID', 'stackoverflow', false);
+    }
+
+    const items: T[] = [];
+    for (let start = 0; start < ids.length; start += MAX_PAGE_SIZE) {
+      const batch = ids.slice(start, start + MAX_PAGE_SIZE).join(';');
+      let page = 1;
+      let hasMore = true;
+      while (hasMore) {
+        const response = await this.request<T>(path(batch), {
+          sort: 'creation',
+          order: 'asc',
+          pagesize: MAX_PAGE_SIZE,
+          page,
+        });
+        items.push(...response.items);
+        hasMore = response.has_more;
+        page++;
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Performs a rate-limited GET request and records quota and backoff
+   */
+  private async request<T>(
+    path: string,
+    params: Record<string, string | number>
+  ): Promise<SEResponse<T>> {
+    if (this.quota !== undefined && this.quota.remaining <= 0) {
+      throw new RateLimitError(
+        `Stack Exchange daily quota of ${this.quota.max} requests exhausted`,
+        'stackoverflow'
+      );
+    }
+
+    const query: Record<string, string | number> = {
+      ...params,
+      site: this.site,
+      filter: BODY_FILTER,
+    };
+    if (this.key !== undefined) {
+      query['key'] = this.key;
+    }
+
+    try {
+      const data = await this.rateLimiter.execute(async () => {
+        const response = await this.axios.get<SEResponse<T>>(path, { params: query });
+        return response.data;
+      });
+
+      this.quota = { remaining: data.quota_remaining, max: data.quota_max };
+      if (data.backoff !== undefined) {
+        this.rateLimiter.backoff(data.backoff * 1000);
+      }
+      return data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handles errors from Axios and converts to ScraperError
+   */
+  private handleError(error: unknown): ScraperError {
+    // Quota and circuit breaker errors are already typed
+    if (error instanceof ScraperError) {
+      return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+      const axiosError = error as AxiosError<SEErrorBody>;
+      const body = axiosError.response?.data;
+      const detail = body?.error_message !== undefined ? `: ${body.error_message}` : '';
+
+      switch (body?.error_name) {
+        case 'throttle_violation': {
+          // e.g. "too many requests from this IP, more requests available in 82452 seconds"
+          const seconds = /available in (\d+) seconds/.exec(body.error_message ?? '')?.[1];
+          return new RateLimitError(
+            `Stack Exchange API throttle violation${detail}`,
+            'stackoverflow',
+            seconds !== undefined ? parseInt(seconds, 10) * 1000 : undefined,
+            axiosError
+          );
+        }
+        case 'access_token_required':
+        case 'invalid_access_token':
+        case 'access_denied':
+        case 'key_required':
+        case 'access_token_compromised':
+          return new AuthenticationError(
+            `Stack Exchange API authentication failed${detail}`,
+            'stackoverflow',
+            axiosError
+          );
+        case 'bad_parameter':
+        case 'no_method':
+          return new ScraperError(
+            `Invalid Stack Exchange API request${detail}`,
+            'stackoverflow',
+            false,
+            axiosError
+          );
+        default:
+          break;
+      }
+
+      // Rate limit error without an API error body
+      if (axiosError.response?.status === 429) {
+        const retryAfter = axiosError.response.headers['retry-after'] as string | undefined;
+        const retryAfterMs = retryAfter !== undefined ? parseInt(retryAfter, 10) * 1000 : undefined;
+        return new RateLimitError(
+          'Stack Exchange API rate limit exceeded',
+          'stackoverflow',
+          retryAfterMs,
+          axiosError
+        );
+      }
+
+      // Bad request (invalid query)
+      if (axiosError.response?.status === 400) {
+        return new ScraperError(
+          `Invalid Stack Exchange API request${detail}`,
+          'stackoverflow',
+          false,
+          axiosError
+        );
+      }
+
+      // Server error (retryable)
+      if (axiosError.response?.status !== undefined && axiosError.response.status >= 500) {
+        return new NetworkError(
+          'Stack Exchange API server error',
+          'stackoverflow',
+          axiosError.response.status,
+          true,
+          axiosError
+        );
+      }
+
+      // Network errors (retryable)
+      if (
+        axiosError.code === 'ECONNREFUSED' ||
+        axiosError.code === 'ETIMEDOUT' ||
+        axiosError.code === 'ENOTFOUND'
+      ) {
+        return new NetworkError(
+          'Stack Exchange API unavailable',
+          'stackoverflow',
+          undefined,
+          true,
+          axiosError
+        );
+      }
+
+      // Generic network error
+      return new NetworkError(
+        'Stack Exchange API network error',
+        'stackoverflow',
+        axiosError.response?.status,
+        true,
+        axiosError
+      );
+    }
+
+    // Unknown error
+    return new ScraperError(
+      'Unknown Stack Exchange API error',
+      'stackoverflow',
+      false,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
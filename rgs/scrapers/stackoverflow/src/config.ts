@@ -0,0 +1,166 @@
+/**
+ * Stack Overflow Scraper Configuration
+ *
+ * Configuration options specific to the Stack Exchange API scraper.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Stack Exchange question sort options
+ */
+export type QuestionSort = 'activity' | 'creation' | 'votes' | 'relevance';
+
+/**
+ * Stack Overflow-specific configuration
+ */
+export interface StackOverflowConfig {
+  /**
+   * Stack Exchange site to query (e.g., "stackoverflow", "superuser")
+   * Default: 'stackoverflow'
+   */
+  readonly site: string;
+
+  /**
+   * Stack Exchange app key
+   * Optional, raises the daily quota from 300 to 10000 requests
+   */
+  readonly key?: string;
+
+  /**
+   * Tags questions must carry (e.g., ["vscode", "visual-studio-code"])
+   */
+  readonly tags: readonly string[];
+
+  /**
+   * Keyword queries to search for (e.g., ["slow startup", "extension crash"])
+   * Each query is combined with the tags; with no queries, tags alone are searched
+   */
+  readonly queries: readonly string[];
+
+  /**
+   * Whether to fetch and include answers to matching questions
+   * Default: true
+   */
+  readonly includeAnswers: boolean;
+
+  /**
+   * Whether to fetch and include comments on questions and answers
+   * Default: true
+   */
+  readonly includeComments: boolean;
+
+  /**
+   * Minimum score for questions and answers (filters low-quality content)
+   * Default: 0
+   */
+  readonly minScore: number;
+
+  /**
+   * Maximum questions to fetch per query
+   * Default: 100
+   */
+  readonly maxQuestionsPerQuery: number;
+
+  /**
+   * How to sort search results
+   * Default: 'activity'
+   */
+  readonly sort: QuestionSort;
+
+  /**
+   * Rate limiting configuration
+   */
+  readonly rateLimit: {
+    /**
+     * Maximum requests per hour
+     * Default: 1000 (Stack Exchange allows 10000 per day with an app key)
+     */
+    readonly requestsPerHour: number;
+  };
+}
+
+/**
+ * Default Stack Overflow configuration values
+ */
+export const DEFAULT_SO_CONFIG: StackOverflowConfig = {
+  site: 'stackoverflow',
+  tags: ['visual-studio-code'],
+  queries: [],
+  includeAnswers: true,
+  includeComments: true,
+  minScore: 0,
+  maxQuestionsPerQuery: 100,
+  sort: 'activity',
+  rateLimit: {
+    requestsPerHour: 1000,
+  },
+};
+
+/**
+ * Zod schema for validating Stack Overflow configuration
+ */
+export const StackOverflowConfigSchema = z
+  .object({
+    site: z
+      .string()
+      .regex(/^[a-z0-9.-]+$/, 'Invalid Stack Exchange site')
+      .default('stackoverflow'),
+    key: z.string().min(1, 'App key cannot be empty').optional(),
+    tags: z.array(z.string().regex(/^[a-z0-9+#.-]+$/, 'Invalid tag')).default([]),
+    queries: z.array(z.string().trim().min(1, 'Query cannot be empty')).default([]),
+    includeAnswers: z.boolean().default(true),
+    includeComments: z.boolean().default(true),
+    minScore: z.number().int().default(0),
+    maxQuestionsPerQuery: z.number().int().min(1).max(1000).default(100),
+    sort: z.enum(['activity', 'creation', 'votes', 'relevance']).default('activity'),
+    rateLimit: z
+      .object({
+        requestsPerHour: z.number().int().min(1).max(10000).default(1000),
+      })
+      .default({ requestsPerHour: 1000 }),
+  })
+  .refine((config) => config.tags.length > 0 || config.queries.length > 0, {
+    message: 'At least one tag or query is required',
+  });
+
+/**
+ * Validates Stack Overflow configuration
+ *
+ * @param config - Configuration to validate
+ * @returns Validated configuration with defaults applied
+ * @throws ZodError if configuration is invalid
+ */
+export function validateSOConfig(config: unknown): StackOverflowConfig {
+  const { key, ...parsed } = StackOverflowConfigSchema.parse(config);
+  return key !== undefined ? { ...parsed, key } : parsed;
+}
+
+/**
+ * Creates a Stack Overflow configuration with defaults
+ *
+ * @param config - Partial configuration
+ * @returns Complete configuration with defaults applied
+ */
+export function createSOConfig(config: Partial<StackOverflowConfig>): StackOverflowConfig {
+  return validateSOConfig({
+    ...DEFAULT_SO_CONFIG,
+    ...config,
+  });
+}
+
+/**
+ * Loads Stack Overflow configuration from environment variables
+ *
+ * @returns Partial configuration with the app key, if STACKEXCHANGE_KEY is set
+ */
+export function loadSOConfigFromEnv(): Partial<StackOverflowConfig> {
+  const key = process.env['STACKEXCHANGE_KEY'];
+  if (key === undefined || key.trim().length === 0) {
+    return {};
+  }
+
+  return {
+    key: key.trim(),
+  };
+}
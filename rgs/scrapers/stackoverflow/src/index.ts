@@ -0,0 +1,39 @@
+/**
+ * Stack Overflow Scraper
+ *
+ * Main exports for the Stack Overflow scraper module.
+ */
+
+export { StackOverflowClient } from './client';
+export type {
+  SEOwner,
+  SEQuestion,
+  SEAnswer,
+  SEComment,
+  SEResponse,
+  SEQuestionSearchOptions,
+  StackOverflowClientOptions,
+  QuotaInfo,
+} from './client';
+
+export { StackOverflowScraper } from './scraper';
+
+export type { StackOverflowConfig, QuestionSort } from './config';
+export {
+  DEFAULT_SO_CONFIG,
+  StackOverflowConfigSchema,
+  validateSOConfig,
+  createSOConfig,
+  loadSOConfigFromEnv,
+} from './config';
+
+export {
+  mapQuestionToSignal,
+  mapAnswerToSignal,
+  mapCommentToSignal,
+  isValidQuestion,
+  isValidAnswer,
+  isValidComment,
+  htmlToText,
+  decodeEntities,
+} from './mapper';
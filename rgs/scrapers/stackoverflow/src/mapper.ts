@@ -0,0 +1,194 @@
+/**
+ * Stack Overflow to WebSignal Mapper
+ *
+ * Converts Stack Exchange questions, answers and comments to WebSignal format.
+ */
+
+import { WebSignal, createWebSignal } from '@rgs/core';
+import { SEQuestion, SEAnswer, SEComment, SEOwner } from './client';
+
+/**
+ * Named HTML entities used by the Stack Exchange API
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decodes HTML entities in API text (titles and display names are HTML-encoded)
+ *
+ * @param text - Encoded text
+ * @returns Decoded text
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity: string, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Converts a post or comment body from HTML to plain text
+ *
+ * Block elements become line breaks, other tags are dropped and entities decoded.
+ *
+ * @param html - HTML body
+ * @returns Plain text
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|pre|blockquote|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Gets the decoded display name of a post owner
+ */
+function ownerName(owner: SEOwner | undefined): string | undefined {
+  return owner?.display_name !== undefined ? decodeEntities(owner.display_name) : undefined;
+}
+
+/**
+ * Maps a Stack Exchange question to a WebSignal
+ *
+ * @param question - Question from the Stack Exchange API
+ * @returns WebSignal representing the question
+ */
+export function mapQuestionToSignal(question: SEQuestion): WebSignal {
+  const title = decodeEntities(question.title);
+  const body = question.body !== undefined ? htmlToText(question.body) : '';
+  const author = ownerName(question.owner);
+
+  return createWebSignal({
+    id: `so-q-${question.question_id}`,
+    source: 'stackoverflow',
+    type: 'post',
+    content: body.length > 0 ? `${title}\n\n${body}` : title,
+    ...(author !== undefined ? { author } : {}),
+    timestamp: new Date(question.creation_date * 1000),
+    url: question.link,
+    metadata: {
+      questionId: question.question_id,
+      title,
+      tags: question.tags,
+      score: question.score,
+      answerCount: question.answer_count,
+      viewCount: question.view_count,
+      isAnswered: question.is_answered,
+      acceptedAnswerId: question.accepted_answer_id,
+      type: 'question',
+    },
+  });
+}
+
+/**
+ * Maps a Stack Exchange answer to a WebSignal
+ *
+ * @param answer - Answer from the Stack Exchange API
+ * @param question - Question the answer belongs to
+ * @returns WebSignal representing the answer
+ */
+export function mapAnswerToSignal(answer: SEAnswer, question: SEQuestion): WebSignal {
+  const author = ownerName(answer.owner);
+
+  return createWebSignal({
+    id: `so-a-${answer.answer_id}`,
+    source: 'stackoverflow',
+    type: 'answer',
+    content: htmlToText(answer.body ?? ''),
+    ...(author !== undefined ? { author } : {}),
+    timestamp: new Date(answer.creation_date * 1000),
+    url: `${new URL(question.link).origin}/a/${answer.answer_id}`,
+    metadata: {
+      answerId: answer.answer_id,
+      questionId: answer.question_id,
+      questionTitle: decodeEntities(question.title),
+      tags: question.tags,
+      score: answer.score,
+      isAccepted: answer.is_accepted,
+      type: 'answer',
+    },
+  });
+}
+
+/**
+ * Maps a Stack Exchange comment to a WebSignal
+ *
+ * @param comment - Comment from the Stack Exchange API
+ * @param question - Question the comment belongs to, directly or through an answer
+ * @returns WebSignal representing the comment
+ */
+export function mapCommentToSignal(comment: SEComment, question: SEQuestion): WebSignal {
+  const author = ownerName(comment.owner);
+
+  return createWebSignal({
+    id: `so-c-${comment.comment_id}`,
+    source: 'stackoverflow',
+    type: 'comment',
+    content: htmlToText(comment.body ?? ''),
+    ...(author !== undefined ? { author } : {}),
+    timestamp: new Date(comment.creation_date * 1000),
+    url: `${question.link}#comment${comment.comment_id}_${comment.post_id}`,
+    metadata: {
+      commentId: comment.comment_id,
+      postId: comment.post_id,
+      questionId: question.question_id,
+      questionTitle: decodeEntities(question.title),
+      score: comment.score,
+      type: 'comment',
+    },
+  });
+}
+
+/**
+ * Checks if a question has the fields required for mapping
+ *
+ * @param question - Question to check
+ * @returns true if the question is valid
+ */
+export function isValidQuestion(question: SEQuestion): boolean {
+  return (
+    question.question_id > 0 &&
+    question.title.trim().length > 0 &&
+    question.link.startsWith('http') &&
+    typeof question.creation_date === 'number'
+  );
+}
+
+/**
+ * Checks if an answer has a non-empty body
+ *
+ * @param answer - Answer to check
+ * @returns true if the answer is valid
+ */
+export function isValidAnswer(answer: SEAnswer): boolean {
+  return answer.answer_id > 0 && htmlToText(answer.body ?? '').length > 0;
+}
+
+/**
+ * Checks if a comment has a non-empty body
+ *
+ * @param comment - Comment to check
+ * @returns true if the comment is valid
+ */
+export function isValidComment(comment: SEComment): boolean {
+  return comment.comment_id > 0 && htmlToText(comment.body ?? '').length > 0;
+}
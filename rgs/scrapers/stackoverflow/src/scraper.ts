@@ -0,0 +1,369 @@
+/**
+ * Stack Overflow Scraper Implementation
+ *
+ * Scrapes questions, answers and comments from Stack Overflow (or any other
+ * Stack Exchange site) using the Stack Exchange API.
+ */
+
+import { IScraper, ScrapeConfig, ScrapeCursor, BaseScraper, findCursor } from '@rgs/core';
+import { WebSignal } from '@rgs/core';
+import { Logger } from '@rgs/utils';
+import { StackOverflowClient, SEQuestion, SEAnswer } from './client';
+import { StackOverflowConfig } from './config';
+import {
+  mapQuestionToSignal,
+  mapAnswerToSignal,
+  mapCommentToSignal,
+  isValidQuestion,
+  isValidAnswer,
+  isValidComment,
+} from './mapper';
+
+/**
+ * Stack Overflow scraper implementation
+ */
+export class StackOverflowScraper extends BaseScraper implements IScraper {
+  private readonly client: StackOverflowClient;
+  private readonly config: StackOverflowConfig;
+  private readonly logger: Logger | undefined;
+
+  /**
+   * Creates a new StackOverflowScraper
+   *
+   * @param client - Stack Exchange API client
+   * @param config - Stack Overflow-specific configuration
+   * @param logger - Optional logger instance
+   */
+  constructor(client: StackOverflowClient, config: StackOverflowConfig, logger?: Logger) {
+    super();
+    this.client = client;
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * Scrapes questions matching the configured tags and queries, with their
+   * answers and comments
+   *
+   * With cursors in the scrape configuration, only questions created since
+   * each query's cursor (and their answers and comments) are fetched, oldest
+   * first, so a run capped by maxQuestionsPerQuery leaves the cursor where the
+   * next run resumes.
+   *
+   * @param config - Scrape configuration (timeRangeHours limits question age)
+   * @returns Promise resolving to array of web signals
+   */
+  async scrape(config: ScrapeConfig): Promise<WebSignal[]> {
+    this.logger?.info('Starting Stack Overflow scrape', {
+      site: this.config.site,
+      tags: this.config.tags,
+      queries: this.config.queries,
+      maxQuestions: this.config.maxQuestionsPerQuery,
+    });
+
+    const fromDate =
+      config.timeRangeHours !== undefined
+        ? new Date(Date.now() - config.timeRangeHours * 60 * 60 * 1000)
+        : undefined;
+
+    // Without queries, a single search by tags alone
+    const queries = this.config.queries.length > 0 ? this.config.queries : [''];
+
+    const allSignals: WebSignal[] = [];
+    const seenIds = new Set<string>();
+
+    for (const query of queries) {
+      this.logger?.debug('Scraping query', { query, tags: this.config.tags });
+
+      try {
+        const signals = await this.scrapeQuery(query, fromDate, config.cursors);
+
+        // Deduplicate by ID
+        for (const signal of signals) {
+          if (!seenIds.has(signal.id)) {
+            seenIds.add(signal.id);
+            allSignals.push(signal);
+          }
+        }
+
+        this.logger?.debug('Query complete', {
+          query,
+          signalsFound: signals.length,
+          totalSignals: allSignals.length,
+        });
+      } catch (error) {
+        this.logger?.error('Query failed', {
+          query,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        // Continue with other queries even if one fails
+      }
+    }
+
+    // Validate all signals
+    const validSignals = allSignals.filter((signal) => this.validate(signal));
+
+    this.logger?.info('Stack Overflow scrape complete', {
+      totalSignals: allSignals.length,
+      validSignals: validSignals.length,
+      invalidSignals: allSignals.length - validSignals.length,
+      quotaRemaining: this.client.getQuota()?.remaining,
+    });
+
+    return validSignals;
+  }
+
+  /**
+   * Scrapes a single query
+   *
+   * @param query - Keyword query (empty to search by tags only)
+   * @param fromDate - Optional earliest question creation date
+   * @param cursors - Cursors from previous runs
+   * @returns Promise resolving to array of web signals
+   */
+  private async scrapeQuery(
+    query: string,
+    fromDate: Date | undefined,
+    cursors: readonly ScrapeCursor[] | undefined
+  ): Promise<WebSignal[]> {
+    // Start from the cursor when it is later than the time range
+    const scope = this.cursorScope(query);
+    const cursor = findCursor(cursors, 'stackoverflow', scope);
+    const since =
+      cursor !== undefined && (fromDate === undefined || cursor.lastSeenAt > fromDate)
+        ? cursor.lastSeenAt
+        : fromDate;
+
+    // Drop questions seen in previous runs
+    const fetched = await this.fetchQuestions(query, since, cursor !== undefined);
+    const candidates = fetched.map((question) => ({
+      question,
+      signal: mapQuestionToSignal(question),
+    }));
+    const fresh = new Set(
+      this.takeNewSignals(
+        'stackoverflow',
+        scope,
+        candidates.map(({ signal }) => signal),
+        cursors
+      )
+    );
+    const newQuestions = candidates.filter(({ signal }) => fresh.has(signal));
+    const questions = newQuestions.map(({ question }) => question);
+    const signals = newQuestions.map(({ signal }) => signal);
+
+    if (questions.length === 0) {
+      return signals;
+    }
+
+    const questionsById = new Map(questions.map((question) => [question.question_id, question]));
+
+    let answers: SEAnswer[] = [];
+    if (this.config.includeAnswers) {
+      try {
+        answers = await this.fetchAnswers(questions);
+        for (const answer of answers) {
+          const question = questionsById.get(answer.question_id);
+          if (question !== undefined) {
+            signals.push(mapAnswerToSignal(answer, question));
+          }
+        }
+      } catch (error) {
+        this.logger?.warn('Failed to fetch answers', {
+          query,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        // Continue even if answer fetching fails
+      }
+    }
+
+    if (this.config.includeComments) {
+      try {
+        signals.push(...(await this.scrapeComments(questionsById, answers)));
+      } catch (error) {
+        this.logger?.warn('Failed to fetch comments', {
+          query,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        // Continue even if comment fetching fails
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Builds the cursor scope for a query
+   *
+   * @param query - Keyword query (empty to search by tags only)
+   * @returns The query, or the tags when searching by tags alone
+   */
+  private cursorScope(query: string): string {
+    return query !== '' ? query : `tags:${this.config.tags.join(';')}`;
+  }
+
+  /**
+   * Fetches pages of matching questions up to the configured maximum
+   *
+   * @param query - Keyword query (empty to search by tags only)
+   * @param fromDate - Optional earliest question creation date
+   * @param incremental - Whether to walk forward from a cursor in creation
+   *   order instead of using the configured sort
+   * @returns Promise resolving to valid questions at or above the minimum score
+   */
+  private async fetchQuestions(
+    query: string,
+    fromDate: Date | undefined,
+    incremental: boolean
+  ): Promise<SEQuestion[]> {
+    const questions: SEQuestion[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore && questions.length < this.config.maxQuestionsPerQuery) {
+      const result = await this.client.searchQuestions({
+        query,
+        tagged: this.config.tags,
+        ...(incremental ? { sort: 'creation', order: 'asc' } : { sort: this.config.sort }),
+        pageSize: this.config.maxQuestionsPerQuery - questions.length,
+        page,
+        ...(fromDate !== undefined ? { fromDate } : {}),
+      });
+
+      this.logger?.debug('Questions fetched', {
+        query,
+        page,
+        count: result.items.length,
+        quotaRemaining: result.quota_remaining,
+      });
+
+      questions.push(...result.items);
+      hasMore = result.has_more && result.items.length > 0;
+      page++;
+    }
+
+    return questions
+      .slice(0, this.config.maxQuestionsPerQuery)
+      .filter((question) => isValidQuestion(question) && question.score >= this.config.minScore);
+  }
+
+  /**
+   * Fetches valid answers at or above the minimum score
+   *
+   * @param questions - Questions to fetch answers for
+   * @returns Promise resolving to answers
+   */
+  private async fetchAnswers(questions: SEQuestion[]): Promise<SEAnswer[]> {
+    const answered = questions
+      .filter((question) => question.answer_count > 0)
+      .map((question) => question.question_id);
+    if (answered.length === 0) {
+      return [];
+    }
+
+    const answers = await this.client.getAnswers(answered);
+
+    this.logger?.debug('Answers fetched', {
+      questions: answered.length,
+      count: answers.length,
+    });
+
+    return answers.filter(
+      (answer) => isValidAnswer(answer) && answer.score >= this.config.minScore
+    );
+  }
+
+  /**
+   * Scrapes comments on questions and answers
+   *
+   * @param questionsById - Questions by ID
+   * @param answers - Answers whose comments to include
+   * @returns Promise resolving to array of web signals
+   */
+  private async scrapeComments(
+    questionsById: Map<number, SEQuestion>,
+    answers: SEAnswer[]
+  ): Promise<WebSignal[]> {
+    // Comments reference their post; resolve each post to its question
+    const postQuestions = new Map<number, SEQuestion>(questionsById);
+    for (const answer of answers) {
+      const question = questionsById.get(answer.question_id);
+      if (question !== undefined) {
+        postQuestions.set(answer.answer_id, question);
+      }
+    }
+
+    const comments = await this.client.getComments(Array.from(postQuestions.keys()));
+
+    this.logger?.debug('Comments fetched', {
+      posts: postQuestions.size,
+      count: comments.length,
+    });
+
+    const signals: WebSignal[] = [];
+    for (const comment of comments) {
+      const question = postQuestions.get(comment.post_id);
+      if (question !== undefined && isValidComment(comment)) {
+        signals.push(mapCommentToSignal(comment, question));
+      }
+    }
+    return signals;
+  }
+
+  /**
+   * Tests connection to the Stack Exchange API
+   *
+   * @returns Promise resolving to true if connection successful
+   */
+  override async testConnection(): Promise<boolean> {
+    try {
+      return await this.client.testConnection();
+    } catch (error) {
+      this.logger?.error('Connection test failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Validates a web signal from Stack Overflow
+   *
+   * @param signal - Signal to validate
+   * @returns true if signal is valid
+   */
+  override validate(signal: WebSignal): boolean {
+    // Use base validation
+    if (!super.validate(signal)) {
+      return false;
+    }
+
+    // Check Stack Overflow-specific requirements
+    if (signal.source !== 'stackoverflow') {
+      return false;
+    }
+
+    // Check ID format
+    if (!signal.id.startsWith('so-')) {
+      return false;
+    }
+
+    // Check URL format
+    if (!signal.url.startsWith('http')) {
+      return false;
+    }
+
+    // Check type in metadata
+    const type = signal.metadata['type'];
+    if (type !== 'question' && type !== 'answer' && type !== 'comment') {
+      return false;
+    }
+
+    // Check question ID in metadata
+    if (typeof signal.metadata['questionId'] !== 'number') {
+      return false;
+    }
+
+    return true;
+  }
+}
@@ -262,6 +262,29 @@ describe('TwitterClient', () => {
 
       expect(response.nextToken).toBe('next-page-token');
     });
+
+    it('should pass since ID to the search', async () => {
+      const mockSearch = jest.fn().mockResolvedValue({
+        data: {
+          data: [],
+          meta: { result_count: 0 },
+        },
+      });
+
+      jest
+        .mocked(TwitterApi)
+        .mockImplementation(
+          () => ({ readOnly: { v2: { search: mockSearch } } }) as unknown as TwitterApi
+        );
+
+      const client = new TwitterClient('test-token', rateLimiter, logger);
+      await client.searchTweets('test', { maxResults: 10, sinceId: '12345' });
+
+      expect(mockSearch).toHaveBeenCalledWith(
+        'test',
+        expect.objectContaining({ since_id: '12345' })
+      );
+    });
   });
 
   describe('getTweetThread', () => {
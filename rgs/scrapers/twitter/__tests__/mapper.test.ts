@@ -38,6 +38,7 @@ describe('TwitterMapper', () => {
 
       expect(signal.id).toBe('twitter-123456789');
       expect(signal.source).toBe('twitter');
+      expect(signal.type).toBe('tweet');
       expect(signal.content).toBe('Test tweet content');
       expect(signal.author).toBe('user123');
       expect(signal.timestamp).toEqual(new Date('2025-01-01T12:00:00.000Z'));
@@ -2,10 +2,12 @@
  * Tests for Twitter Scraper
  */
 
+import type { TweetV2 } from 'twitter-api-v2';
 import { TwitterScraper } from '../src/scraper';
 import { TwitterConfig } from '../src/config';
-import { TwitterClient } from '../src/client';
+import { TwitterClient, SearchTweetsResponse } from '../src/client';
 import { ScrapeConfig } from '@rgs/core/interfaces/scraper';
+import { createScrapeCursor } from '@rgs/core/models/cursor';
 import { Logger } from '@rgs/utils/logger';
 // Error types are tested in client.test.ts
 
@@ -307,6 +309,56 @@ describe('TwitterScraper', () => {
         })
       );
     });
+
+    it('should only fetch tweets newer than the query cursor', async () => {
+      const tweet = (id: string, createdAt: string): TweetV2 => ({
+        id,
+        text: `Test tweet ${id}`,
+        created_at: createdAt,
+        author_id: 'user1',
+        lang: 'en',
+        edit_history_tweet_ids: [id],
+      });
+      const mockSearchTweets = jest
+        .fn<Promise<SearchTweetsResponse>, Parameters<TwitterClient['searchTweets']>>()
+        .mockResolvedValue({
+          tweets: [tweet('2', '2025-01-02T12:00:00.000Z'), tweet('1', '2025-01-01T12:00:00.000Z')],
+          resultCount: 2,
+        });
+
+      jest.mocked(TwitterClient).mockImplementation(
+        () =>
+          ({
+            searchTweets: mockSearchTweets,
+            testConnection: jest.fn().mockResolvedValue(true),
+          }) as unknown as TwitterClient
+      );
+
+      const scraper = new TwitterScraper({ ...mockConfig, queries: ['vscode extension'] }, logger);
+      const scrapeConfig: ScrapeConfig = {
+        type: 'twitter',
+        params: {},
+        cursors: [
+          createScrapeCursor({
+            source: 'twitter',
+            scope: 'vscode extension',
+            lastSeenId: 'twitter-1',
+            lastSeenAt: new Date('2025-01-01T12:00:00.000Z'),
+          }),
+        ],
+      };
+
+      const signals = await scraper.scrape(scrapeConfig);
+
+      expect(mockSearchTweets).toHaveBeenCalledWith(
+        'vscode extension',
+        expect.objectContaining({ sinceId: '1' })
+      );
+      expect(signals.map((signal) => signal.id)).toEqual(['twitter-2']);
+      expect(scraper.getCursors()).toEqual([
+        expect.objectContaining({ scope: 'vscode extension', lastSeenId: 'twitter-2' }),
+      ]);
+    });
   });
 
   describe('validate', () => {
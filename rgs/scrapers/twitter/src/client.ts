@@ -42,6 +42,11 @@ export interface SearchTweetsOptions {
    * Next token for pagination
    */
   readonly nextToken?: string;
+
+  /**
+   * Only return tweets newer than this tweet ID
+   */
+  readonly sinceId?: string;
 }
 
 /**
@@ -136,6 +141,10 @@ export class TwitterClient {
           searchParams['next_token'] = options.nextToken;
         }
 
+        if (options.sinceId !== undefined) {
+          searchParams['since_id'] = options.sinceId;
+        }
+
         // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
         return await this.client.v2.search(query, searchParams);
       });
@@ -59,6 +59,7 @@ export function mapTweetToSignal(tweet: TweetV2): WebSignal {
   const signalParams: {
     id: string;
     source: 'twitter';
+    type: 'tweet';
     content: string;
     timestamp: Date;
     url: string;
@@ -67,6 +68,7 @@ export function mapTweetToSignal(tweet: TweetV2): WebSignal {
   } = {
     id: `twitter-${tweet.id}`,
     source: 'twitter',
+    type: 'tweet',
     content: tweet.text,
     timestamp: new Date(tweet.created_at ?? Date.now()),
     url: `https://twitter.com/i/web/status/${tweet.id}`,
@@ -5,6 +5,7 @@
  */
 
 import { BaseScraper, ScrapeConfig } from '@rgs/core/interfaces/scraper';
+import { findCursor } from '@rgs/core/models/cursor';
 import { WebSignal } from '@rgs/core/models/signal';
 import { RateLimiter } from '@rgs/utils/rate-limiter';
 import { Logger } from '@rgs/utils/logger';
@@ -66,6 +67,9 @@ export class TwitterScraper extends BaseScraper {
   /**
    * Scrapes tweets based on the provided configuration
    *
+   * With cursors in the scrape configuration, only tweets newer than each
+   * query's cursor are fetched.
+   *
    * @param config - Scrape configuration
    * @returns Promise resolving to array of WebSignals
    * @throws ScraperError if scraping fails
@@ -90,12 +94,31 @@ export class TwitterScraper extends BaseScraper {
         try {
           this.logger.debug('Executing search query', { query });
 
-          const response = await this.client.searchTweets(query, searchOptions);
-          allTweets.push(...response.tweets);
+          // Continue after the last seen tweet when possible
+          const cursor = findCursor(config.cursors, 'twitter', query);
+          const response = await this.client.searchTweets(
+            query,
+            cursor !== undefined
+              ? { ...searchOptions, sinceId: cursor.lastSeenId.replace(/^twitter-/, '') }
+              : searchOptions
+          );
+
+          // Drop tweets seen in previous runs
+          const newIds = new Set(
+            this.takeNewSignals(
+              'twitter',
+              query,
+              response.tweets.map((tweet) => mapTweetToSignal(tweet)),
+              config.cursors
+            ).map((signal) => signal.id)
+          );
+          const newTweets = response.tweets.filter((tweet) => newIds.has(`twitter-${tweet.id}`));
+          allTweets.push(...newTweets);
 
           this.logger.debug('Query completed', {
             query,
             resultCount: response.resultCount,
+            newCount: newTweets.length,
           });
         } catch (error) {
           this.logger.error('Query failed', { query, error });
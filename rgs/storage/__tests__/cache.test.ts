@@ -45,7 +45,8 @@ describe('InMemoryCache', () => {
         content: 'Test post',
         author: 'user1',
         url: 'https://reddit.com/1',
-        timestamp: '2025-01-15T10:00:00.000Z',
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
       },
       {
         id: 'signal-2',
@@ -54,7 +55,8 @@ describe('InMemoryCache', () => {
         content: 'Test tweet',
         author: 'user2',
         url: 'https://twitter.com/1',
-        timestamp: '2025-01-15T11:00:00.000Z',
+        timestamp: new Date('2025-01-15T11:00:00.000Z'),
+        metadata: {},
       },
     ];
 
@@ -83,7 +85,8 @@ describe('InMemoryCache', () => {
           content: `Content ${i}`,
           author: `user${i}`,
           url: `https://example.com/${i}`,
-          timestamp: new Date(Date.now() + i * 1000).toISOString(),
+          timestamp: new Date(Date.now() + i * 1000),
+          metadata: {},
         });
       }
 
@@ -111,9 +114,10 @@ describe('InMemoryCache', () => {
         content: 'Test post',
         author: 'user1',
         url: 'https://reddit.com/1',
-        timestamp: '2025-01-15T10:00:00.000Z',
-        sentiment: 'positive',
-        tags: ['feature'],
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
+        sentiment: 0.6,
+        themes: ['feature'],
       },
       {
         id: 'signal-2',
@@ -122,9 +126,10 @@ describe('InMemoryCache', () => {
         content: 'Test tweet',
         author: 'user2',
         url: 'https://twitter.com/1',
-        timestamp: '2025-01-16T10:00:00.000Z',
-        sentiment: 'negative',
-        tags: ['bug'],
+        timestamp: new Date('2025-01-16T10:00:00.000Z'),
+        metadata: {},
+        sentiment: -0.6,
+        themes: ['bug'],
       },
     ];
 
@@ -152,7 +157,7 @@ describe('InMemoryCache', () => {
     it('should filter by sentiment', async () => {
       const signals = await cache.loadSignals({ sentiment: 'positive' });
       expect(signals).toHaveLength(1);
-      expect(signals[0]?.sentiment).toBe('positive');
+      expect(signals[0]?.sentiment).toBe(0.6);
     });
 
     it('should filter by date range', async () => {
@@ -164,10 +169,10 @@ describe('InMemoryCache', () => {
       expect(signals[0]?.id).toBe('signal-1');
     });
 
-    it('should filter by tags', async () => {
-      const signals = await cache.loadSignals({ tags: ['feature'] });
+    it('should filter by themes', async () => {
+      const signals = await cache.loadSignals({ themes: ['feature'] });
       expect(signals).toHaveLength(1);
-      expect(signals[0]?.tags).toContain('feature');
+      expect(signals[0]?.themes).toContain('feature');
     });
 
     it('should return empty array when no matches', async () => {
@@ -186,7 +191,8 @@ describe('InMemoryCache', () => {
         content: 'Test issue',
         author: 'user3',
         url: 'https://github.com/1',
-        timestamp: '2025-01-17T10:00:00.000Z',
+        timestamp: new Date('2025-01-17T10:00:00.000Z'),
+        metadata: {},
       };
 
       await cache.saveSignals([signal3]);
@@ -358,7 +364,8 @@ describe('InMemoryCache', () => {
         content: 'Test',
         author: 'user1',
         url: 'https://reddit.com/1',
-        timestamp: '2025-01-15T10:00:00.000Z',
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
       };
 
       const insight: Insight = {
@@ -392,7 +399,8 @@ describe('InMemoryCache', () => {
           content: 'Test',
           author: 'user1',
           url: 'https://reddit.com/1',
-          timestamp: '2025-01-15T10:00:00.000Z',
+          timestamp: new Date('2025-01-15T10:00:00.000Z'),
+          metadata: {},
         },
         {
           id: 'signal-2',
@@ -401,7 +409,8 @@ describe('InMemoryCache', () => {
           content: 'Test',
           author: 'user2',
           url: 'https://twitter.com/1',
-          timestamp: '2025-01-15T11:00:00.000Z',
+          timestamp: new Date('2025-01-15T11:00:00.000Z'),
+          metadata: {},
         },
       ];
 
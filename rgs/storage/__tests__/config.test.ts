@@ -139,6 +139,26 @@ describe('ConfigLoader', () => {
       expect(config.scraping.retries).toBe(5);
     });
 
+    it('should accept sqlite storage from environment variables', async () => {
+      process.env['RGS_STORAGE_TYPE'] = 'sqlite';
+      process.env['RGS_STORAGE_PATH'] = 'data/rgs/rgs.db';
+
+      const loader = new ConfigLoader(testConfigPath);
+      const config = await loader.load();
+
+      expect(config.storage).toEqual({ type: 'sqlite', path: 'data/rgs/rgs.db' });
+    });
+
+    it('should not keep the filesystem directory as the sqlite database path', async () => {
+      process.env['RGS_STORAGE_TYPE'] = 'sqlite';
+      delete process.env['RGS_STORAGE_PATH'];
+
+      const loader = new ConfigLoader(testConfigPath);
+      const config = await loader.load();
+
+      expect(config.storage).toEqual({ type: 'sqlite' });
+    });
+
     it('should ignore invalid environment variables', async () => {
       const uniquePath = `.test-config-invalid-${Date.now()}.json`;
 
@@ -1,6 +1,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { FileSystemStorage } from '../src/filesystem';
+import { ScrapeCursor, createScrapeCursor } from '@rgs/core';
 import { WebSignal, Insight, StorageError } from '../src/interfaces/storage';
 
 describe('FileSystemStorage', () => {
@@ -47,9 +48,10 @@ describe('FileSystemStorage', () => {
         content: 'Test post content',
         author: 'testuser',
         url: 'https://reddit.com/r/test/1',
-        timestamp: '2025-01-15T10:00:00.000Z',
-        sentiment: 'positive',
-        tags: ['test', 'feature'],
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
+        sentiment: 0.6,
+        themes: ['test', 'feature'],
       },
       {
         id: 'signal-2',
@@ -58,8 +60,9 @@ describe('FileSystemStorage', () => {
         content: 'Test comment content',
         author: 'testuser2',
         url: 'https://reddit.com/r/test/2',
-        timestamp: '2025-01-15T11:00:00.000Z',
-        sentiment: 'neutral',
+        timestamp: new Date('2025-01-15T11:00:00.000Z'),
+        metadata: {},
+        sentiment: 0,
       },
     ];
 
@@ -94,7 +97,8 @@ describe('FileSystemStorage', () => {
         content: 'Test tweet',
         author: 'testuser3',
         url: 'https://twitter.com/test/1',
-        timestamp: '2025-01-16T10:00:00.000Z',
+        timestamp: new Date('2025-01-16T10:00:00.000Z'),
+        metadata: {},
       };
 
       await storage.saveSignals([...mockSignals, twitterSignal]);
@@ -139,9 +143,10 @@ describe('FileSystemStorage', () => {
         content: 'Test post',
         author: 'user1',
         url: 'https://reddit.com/1',
-        timestamp: '2025-01-15T10:00:00.000Z',
-        sentiment: 'positive',
-        tags: ['feature'],
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
+        sentiment: 0.6,
+        themes: ['feature'],
       },
       {
         id: 'signal-2',
@@ -150,9 +155,10 @@ describe('FileSystemStorage', () => {
         content: 'Test tweet',
         author: 'user2',
         url: 'https://twitter.com/1',
-        timestamp: '2025-01-16T10:00:00.000Z',
-        sentiment: 'negative',
-        tags: ['bug'],
+        timestamp: new Date('2025-01-16T10:00:00.000Z'),
+        metadata: {},
+        sentiment: -0.6,
+        themes: ['bug'],
       },
     ];
 
@@ -180,7 +186,7 @@ describe('FileSystemStorage', () => {
     it('should filter by sentiment', async () => {
       const signals = await storage.loadSignals({ sentiment: 'positive' });
       expect(signals).toHaveLength(1);
-      expect(signals[0]?.sentiment).toBe('positive');
+      expect(signals[0]?.sentiment).toBe(0.6);
     });
 
     it('should filter by date range', async () => {
@@ -192,10 +198,10 @@ describe('FileSystemStorage', () => {
       expect(signals[0]?.id).toBe('signal-1');
     });
 
-    it('should filter by tags', async () => {
-      const signals = await storage.loadSignals({ tags: ['feature'] });
+    it('should filter by themes', async () => {
+      const signals = await storage.loadSignals({ themes: ['feature'] });
       expect(signals).toHaveLength(1);
-      expect(signals[0]?.tags).toContain('feature');
+      expect(signals[0]?.themes).toContain('feature');
     });
 
     it('should return empty array when no matches', async () => {
@@ -358,7 +364,8 @@ describe('FileSystemStorage', () => {
         content: 'Test',
         author: 'user',
         url: 'not-a-valid-url', // Invalid URL
-        timestamp: '2025-01-15T10:00:00.000Z',
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
       } as unknown as WebSignal;
 
       await expect(storage.saveSignals([invalidSignal])).rejects.toThrow(StorageError);
@@ -485,7 +492,8 @@ describe('FileSystemStorage', () => {
         content: 'Test',
         author: 'user',
         url: 'https://reddit.com/test',
-        timestamp: '2025-01-15T10:00:00.000Z',
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
       };
 
       await expect(writeErrorStorage.saveSignals([validSignal])).rejects.toThrow(StorageError);
@@ -504,9 +512,10 @@ describe('FileSystemStorage', () => {
         content: 'Test post',
         author: 'user1',
         url: 'https://reddit.com/1',
-        timestamp: '2025-01-15T10:00:00.000Z',
-        sentiment: 'positive',
-        tags: ['feature', 'ui'],
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
+        sentiment: 0.6,
+        themes: ['feature', 'ui'],
       },
       {
         id: 'signal-2',
@@ -515,9 +524,10 @@ describe('FileSystemStorage', () => {
         content: 'Test tweet',
         author: 'user2',
         url: 'https://twitter.com/1',
-        timestamp: '2025-01-16T10:00:00.000Z',
-        sentiment: 'negative',
-        tags: ['bug'],
+        timestamp: new Date('2025-01-16T10:00:00.000Z'),
+        metadata: {},
+        sentiment: -0.6,
+        themes: ['bug'],
       },
       {
         id: 'signal-3',
@@ -526,8 +536,9 @@ describe('FileSystemStorage', () => {
         content: 'Test issue',
         author: 'user3',
         url: 'https://github.com/test/1',
-        timestamp: '2025-01-17T10:00:00.000Z',
-        sentiment: 'neutral',
+        timestamp: new Date('2025-01-17T10:00:00.000Z'),
+        metadata: {},
+        sentiment: 0,
         // No tags
       },
     ];
@@ -537,7 +548,7 @@ describe('FileSystemStorage', () => {
     });
 
     it('should handle filter with tags when signal has no tags', async () => {
-      const signals = await storage.loadSignals({ tags: ['feature'] });
+      const signals = await storage.loadSignals({ themes: ['feature'] });
 
       // Line 276: signal.tags !== undefined check means signals without tags pass through
       // This covers the branch at line 276-277
@@ -547,7 +558,7 @@ describe('FileSystemStorage', () => {
     });
 
     it('should handle filter with empty tags array', async () => {
-      const signals = await storage.loadSignals({ tags: [] });
+      const signals = await storage.loadSignals({ themes: [] });
 
       // Empty tags array (length === 0) bypasses the filter entirely (line 275)
       expect(signals).toHaveLength(3);
@@ -555,7 +566,7 @@ describe('FileSystemStorage', () => {
 
     it('should handle filter with tags matching multiple criteria', async () => {
       const signals = await storage.loadSignals({
-        tags: ['feature', 'bug'],
+        themes: ['feature', 'bug'],
         source: 'reddit',
       });
 
@@ -565,7 +576,7 @@ describe('FileSystemStorage', () => {
     });
 
     it('should handle filter with tags that match no signals with tags', async () => {
-      const signals = await storage.loadSignals({ tags: ['nonexistent-tag'] });
+      const signals = await storage.loadSignals({ themes: ['nonexistent-tag'] });
 
       // Line 277: !filter.tags.some(...) returns true when no tags match
       // This means signals with non-matching tags are filtered out, but signals without tags pass through
@@ -606,7 +617,8 @@ describe('FileSystemStorage', () => {
         content: 'Test',
         author: 'user',
         url: 'https://reddit.com/test',
-        timestamp: '2025-01-15T10:00:00.000Z',
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
       };
 
       await storage.saveSignals([validSignal]);
@@ -657,7 +669,8 @@ describe('FileSystemStorage', () => {
         content: 'Test',
         author: 'user',
         url: 'https://reddit.com/test',
-        timestamp: '2025-01-15T10:00:00.000Z',
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
       };
 
       await errorStorage.saveSignals([validSignal]);
@@ -673,7 +686,8 @@ describe('FileSystemStorage', () => {
         content: 'Test 2',
         author: 'user2',
         url: 'https://reddit.com/test2',
-        timestamp: '2025-01-15T11:00:00.000Z',
+        timestamp: new Date('2025-01-15T11:00:00.000Z'),
+        metadata: {},
       };
 
       // Line 233: Should throw non-ENOENT error (EISDIR in this case)
@@ -701,7 +715,8 @@ describe('FileSystemStorage', () => {
         content: 'Test',
         author: 'user',
         url: 'https://reddit.com/test',
-        timestamp: '2025-01-15T10:00:00.000Z',
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: {},
       };
 
       // Line 87: Should hit catch block with non-ZodError
@@ -764,4 +779,232 @@ describe('FileSystemStorage', () => {
       await fs.rm(newPath, { recursive: true, force: true });
     });
   });
+
+  describe('Signal Record Versioning', () => {
+    const signalsDir = path.join(testBasePath, 'signals');
+    const legacyRecords = [
+      {
+        id: 'legacy-1',
+        source: 'reddit',
+        type: 'post',
+        content: 'Legacy post',
+        author: 'olduser',
+        url: 'https://reddit.com/r/test/legacy-1',
+        timestamp: '2024-06-01T10:00:00.000Z',
+        sentiment: 'positive',
+        tags: ['feature'],
+      },
+      {
+        id: 'legacy-2',
+        source: 'reddit',
+        type: 'comment',
+        content: 'Legacy comment',
+        author: 'olduser',
+        url: 'https://reddit.com/r/test/legacy-2',
+        timestamp: '2024-06-01T11:00:00.000Z',
+        sentiment: 'mixed',
+      },
+    ];
+
+    it('should write versioned records with ISO timestamps', async () => {
+      await storage.saveSignals([
+        {
+          id: 'signal-1',
+          source: 'reddit',
+          type: 'post',
+          content: 'Test post',
+          url: 'https://reddit.com/1',
+          timestamp: new Date('2025-01-15T10:00:00.000Z'),
+          metadata: { score: 3 },
+          sentiment: 0.4,
+        },
+      ]);
+
+      const content = await fs.readFile(path.join(signalsDir, 'reddit-2025-01-15.json'), 'utf-8');
+      expect(JSON.parse(content)).toEqual([
+        {
+          schemaVersion: 2,
+          id: 'signal-1',
+          source: 'reddit',
+          type: 'post',
+          content: 'Test post',
+          url: 'https://reddit.com/1',
+          timestamp: '2025-01-15T10:00:00.000Z',
+          metadata: { score: 3 },
+          sentiment: 0.4,
+        },
+      ]);
+    });
+
+    it('should round-trip signals as WebSignals', async () => {
+      const signal: WebSignal = {
+        id: 'signal-1',
+        source: 'github',
+        type: 'issue',
+        content: 'Crash on startup',
+        author: 'dev',
+        url: 'https://github.com/o/r/issues/1',
+        timestamp: new Date('2025-01-15T10:00:00.000Z'),
+        metadata: { labels: ['bug'] },
+        sentiment: -0.7,
+        themes: ['stability'],
+      };
+
+      await storage.saveSignals([signal]);
+
+      expect(await storage.loadSignals()).toEqual([signal]);
+    });
+
+    it('should load version 1 records as WebSignals', async () => {
+      await fs.writeFile(
+        path.join(signalsDir, 'reddit-2024-06-01.json'),
+        JSON.stringify(legacyRecords),
+        'utf-8'
+      );
+
+      const signals = await storage.loadSignals();
+
+      expect(signals).toHaveLength(2);
+      expect(signals[0]).toEqual({
+        id: 'legacy-1',
+        source: 'reddit',
+        type: 'post',
+        content: 'Legacy post',
+        author: 'olduser',
+        url: 'https://reddit.com/r/test/legacy-1',
+        timestamp: new Date('2024-06-01T10:00:00.000Z'),
+        metadata: { legacySentiment: 'positive' },
+        sentiment: 0.5,
+        themes: ['feature'],
+      });
+      expect(signals[1]?.metadata).toEqual({ legacySentiment: 'mixed' });
+    });
+
+    it('should filter version 1 records by sentiment label and themes', async () => {
+      await fs.writeFile(
+        path.join(signalsDir, 'reddit-2024-06-01.json'),
+        JSON.stringify(legacyRecords),
+        'utf-8'
+      );
+
+      expect(await storage.loadSignals({ sentiment: 'positive' })).toHaveLength(1);
+      expect(await storage.loadSignals({ themes: ['feature'] })).toHaveLength(2);
+    });
+
+    it('should rewrite files containing version 1 records', async () => {
+      await fs.writeFile(
+        path.join(signalsDir, 'reddit-2024-06-01.json'),
+        JSON.stringify(legacyRecords),
+        'utf-8'
+      );
+      await storage.saveSignals([
+        {
+          id: 'signal-1',
+          source: 'twitter',
+          content: 'Current tweet',
+          url: 'https://twitter.com/1',
+          timestamp: new Date('2025-01-15T10:00:00.000Z'),
+          metadata: {},
+        },
+      ]);
+
+      const result = await storage.migrateSignals();
+
+      expect(result).toEqual({ filesMigrated: 1, signalsMigrated: 2 });
+
+      const content = await fs.readFile(path.join(signalsDir, 'reddit-2024-06-01.json'), 'utf-8');
+      const records = JSON.parse(content) as Array<Record<string, unknown>>;
+      expect(records.map((record) => record['schemaVersion'])).toEqual([2, 2]);
+      expect(records[0]?.['themes']).toEqual(['feature']);
+      expect(records[0]).not.toHaveProperty('tags');
+    });
+
+    it('should leave current files untouched when migrating', async () => {
+      await storage.saveSignals([
+        {
+          id: 'signal-1',
+          source: 'reddit',
+          content: 'Current post',
+          url: 'https://reddit.com/1',
+          timestamp: new Date('2025-01-15T10:00:00.000Z'),
+          metadata: {},
+        },
+      ]);
+
+      expect(await storage.migrateSignals()).toEqual({ filesMigrated: 0, signalsMigrated: 0 });
+      expect(await storage.migrateSignals()).toEqual({ filesMigrated: 0, signalsMigrated: 0 });
+    });
+
+    it('should throw StorageError for unmigratable records', async () => {
+      await fs.writeFile(
+        path.join(signalsDir, 'reddit-2024-06-02.json'),
+        JSON.stringify([{ id: 'broken', source: 'reddit' }]),
+        'utf-8'
+      );
+
+      await expect(storage.migrateSignals()).rejects.toThrow('Invalid version 1 signal record');
+      await expect(storage.loadSignals()).rejects.toThrow('Failed to load signals');
+    });
+  });
+
+  describe('Cursors', () => {
+    const cursor = (scope: string, lastSeenId: string, lastSeenAt: string): ScrapeCursor =>
+      createScrapeCursor({
+        source: 'reddit',
+        scope,
+        lastSeenId,
+        lastSeenAt: new Date(lastSeenAt),
+        updatedAt: new Date('2025-01-16T00:00:00.000Z'),
+      });
+
+    it('should return no cursors before any are saved', async () => {
+      expect(await storage.loadCursors()).toEqual([]);
+    });
+
+    it('should round-trip cursors', async () => {
+      const cursors = [
+        cursor('vscode', 'reddit-1', '2025-01-15T10:00:00.000Z'),
+        {
+          ...cursor('cursor ai', 'hn-2', '2025-01-15T11:00:00.000Z'),
+          source: 'hackernews' as const,
+        },
+      ];
+
+      await storage.saveCursors(cursors);
+
+      expect(await storage.loadCursors()).toEqual(cursors);
+      expect(await storage.loadCursors('hackernews')).toEqual([cursors[1]]);
+    });
+
+    it('should replace cursors with the same source and scope', async () => {
+      await storage.saveCursors([
+        cursor('vscode', 'reddit-1', '2025-01-15T10:00:00.000Z'),
+        cursor('typescript', 'reddit-2', '2025-01-15T10:00:00.000Z'),
+      ]);
+      await storage.saveCursors([cursor('vscode', 'reddit-3', '2025-01-16T10:00:00.000Z')]);
+
+      const cursors = await storage.loadCursors();
+      expect(cursors.map((c) => [c.scope, c.lastSeenId])).toEqual([
+        ['vscode', 'reddit-3'],
+        ['typescript', 'reddit-2'],
+      ]);
+    });
+
+    it('should throw StorageError for invalid cursors', async () => {
+      await expect(
+        storage.saveCursors([cursor('vscode', '', '2025-01-15T10:00:00.000Z')])
+      ).rejects.toThrow('Invalid cursor data');
+    });
+
+    it('should throw StorageError for a malformed cursor file', async () => {
+      await fs.writeFile(
+        path.join(testBasePath, 'cursors.json'),
+        JSON.stringify([{ source: 'reddit' }]),
+        'utf-8'
+      );
+
+      await expect(storage.loadCursors()).rejects.toThrow(StorageError);
+      await expect(storage.loadCursors()).rejects.toThrow('Invalid cursor file');
+    });
+  });
 });
@@ -0,0 +1,174 @@
+import { createWebSignal } from '@rgs/core';
+import {
+  SIGNAL_SCHEMA_VERSION,
+  toSignalRecord,
+  fromSignalRecord,
+  migrateSignalRecord,
+  migrateLegacySignalRecord,
+  isCurrentSignalRecord,
+  toSentimentLabel,
+} from '../src/migrations';
+import { StorageError } from '../src/interfaces/storage';
+
+describe('Signal record migrations', () => {
+  const signal = createWebSignal({
+    id: 'so-a-1',
+    source: 'stackoverflow',
+    type: 'answer',
+    content: 'Disable the extension host',
+    author: 'helper',
+    timestamp: new Date('2025-02-01T08:30:00.000Z'),
+    url: 'https://stackoverflow.com/a/1',
+    metadata: { score: 12 },
+    sentiment: 0.3,
+    themes: ['performance'],
+  });
+
+  describe('toSignalRecord', () => {
+    it('should serialize a signal with the current schema version', () => {
+      expect(toSignalRecord(signal)).toEqual({
+        schemaVersion: SIGNAL_SCHEMA_VERSION,
+        id: 'so-a-1',
+        source: 'stackoverflow',
+        type: 'answer',
+        content: 'Disable the extension host',
+        author: 'helper',
+        timestamp: '2025-02-01T08:30:00.000Z',
+        url: 'https://stackoverflow.com/a/1',
+        metadata: { score: 12 },
+        sentiment: 0.3,
+        themes: ['performance'],
+      });
+    });
+
+    it('should omit unset optional fields', () => {
+      const record = toSignalRecord(
+        createWebSignal({
+          id: 'hn-1',
+          source: 'hackernews',
+          content: 'Show HN',
+          timestamp: new Date('2025-02-01T08:30:00.000Z'),
+          url: 'https://news.ycombinator.com/item?id=1',
+          metadata: {},
+        })
+      );
+
+      expect(Object.keys(record)).not.toContain('type');
+      expect(Object.keys(record)).not.toContain('author');
+      expect(Object.keys(record)).not.toContain('sentiment');
+      expect(Object.keys(record)).not.toContain('themes');
+    });
+
+    it('should reject invalid signals', () => {
+      expect(() => toSignalRecord({ ...signal, sentiment: 3 })).toThrow();
+    });
+  });
+
+  describe('fromSignalRecord', () => {
+    it('should restore the original signal', () => {
+      expect(fromSignalRecord(toSignalRecord(signal))).toEqual(signal);
+    });
+  });
+
+  describe('migrateLegacySignalRecord', () => {
+    it('should convert labels, tags and keep the original label', () => {
+      const record = migrateLegacySignalRecord({
+        id: 'signal-1',
+        source: 'twitter',
+        type: 'tweet',
+        content: 'So slow',
+        author: 'user',
+        url: 'https://twitter.com/1',
+        timestamp: '2024-06-01T10:00:00.000Z',
+        metadata: { likes: 3 },
+        sentiment: 'negative',
+        tags: ['performance'],
+      });
+
+      expect(record).toEqual({
+        schemaVersion: SIGNAL_SCHEMA_VERSION,
+        id: 'signal-1',
+        source: 'twitter',
+        type: 'tweet',
+        content: 'So slow',
+        author: 'user',
+        url: 'https://twitter.com/1',
+        timestamp: '2024-06-01T10:00:00.000Z',
+        metadata: { likes: 3, legacySentiment: 'negative' },
+        sentiment: -0.5,
+        themes: ['performance'],
+      });
+    });
+
+    it('should default missing metadata', () => {
+      const record = migrateLegacySignalRecord({
+        id: 'signal-1',
+        source: 'github',
+        type: 'issue',
+        content: 'Bug',
+        author: 'user',
+        url: 'https://github.com/o/r/issues/1',
+        timestamp: '2024-06-01T10:00:00.000Z',
+      });
+
+      expect(record.metadata).toEqual({});
+      expect(record).not.toHaveProperty('sentiment');
+      expect(record).not.toHaveProperty('themes');
+    });
+  });
+
+  describe('migrateSignalRecord', () => {
+    it('should pass current records through', () => {
+      const record = toSignalRecord(signal);
+
+      expect(migrateSignalRecord(record)).toEqual(record);
+    });
+
+    it('should treat records without a version as version 1', () => {
+      const record = migrateSignalRecord({
+        id: 'signal-1',
+        source: 'reddit',
+        type: 'discussion',
+        content: 'Thread',
+        author: 'user',
+        url: 'https://reddit.com/1',
+        timestamp: '2024-06-01T10:00:00.000Z',
+        sentiment: 'neutral',
+      });
+
+      expect(record.schemaVersion).toBe(SIGNAL_SCHEMA_VERSION);
+      expect(record.sentiment).toBe(0);
+    });
+
+    it('should reject invalid records', () => {
+      expect(() => migrateSignalRecord({ schemaVersion: 2, id: 'x' })).toThrow(
+        'Invalid signal record'
+      );
+      expect(() => migrateSignalRecord('not a record')).toThrow('Invalid version 1 signal record');
+    });
+
+    it('should reject unknown versions', () => {
+      expect(() => migrateSignalRecord({ schemaVersion: 99 })).toThrow(StorageError);
+      expect(() => migrateSignalRecord({ schemaVersion: 99 })).toThrow(
+        'Unsupported signal schema version: 99'
+      );
+    });
+  });
+
+  describe('isCurrentSignalRecord', () => {
+    it('should detect the current schema version', () => {
+      expect(isCurrentSignalRecord(toSignalRecord(signal))).toBe(true);
+      expect(isCurrentSignalRecord({ id: 'legacy' })).toBe(false);
+      expect(isCurrentSignalRecord(null)).toBe(false);
+    });
+  });
+
+  describe('toSentimentLabel', () => {
+    it('should label scores by threshold', () => {
+      expect(toSentimentLabel(0.5)).toBe('positive');
+      expect(toSentimentLabel(0.2)).toBe('neutral');
+      expect(toSentimentLabel(-0.2)).toBe('neutral');
+      expect(toSentimentLabel(-0.5)).toBe('negative');
+    });
+  });
+});
@@ -0,0 +1,351 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createScrapeCursor } from '@rgs/core';
+import { SqliteStorage } from '../src/sqlite';
+import { FileSystemStorage } from '../src/filesystem';
+import { WebSignal, Insight, StorageError } from '../src/interfaces/storage';
+
+describe('SqliteStorage', () => {
+  const testBasePath = '.test-data/sqlite';
+  let storage: SqliteStorage;
+
+  const mockSignals: WebSignal[] = [
+    {
+      id: 'signal-1',
+      source: 'reddit',
+      type: 'post',
+      content: 'Hot reload keeps breaking after every upgrade',
+      author: 'user1',
+      url: 'https://reddit.com/r/test/1',
+      timestamp: new Date('2025-01-15T10:00:00.000Z'),
+      metadata: { score: 10 },
+      sentiment: -0.6,
+      themes: ['hot reload', 'upgrades'],
+    },
+    {
+      id: 'signal-2',
+      source: 'github',
+      type: 'issue',
+      content: 'Upgrade guide is missing steps for plugins',
+      url: 'https://github.com/owner/repo/issues/2',
+      timestamp: new Date('2025-01-16T10:00:00.000Z'),
+      metadata: {},
+      sentiment: 0,
+      themes: ['documentation'],
+    },
+    {
+      id: 'signal-3',
+      source: 'reddit',
+      type: 'comment',
+      content: 'Love the new debugger, reloading is instant now',
+      url: 'https://reddit.com/r/test/3',
+      timestamp: new Date('2025-01-17T10:00:00.000Z'),
+      metadata: {},
+      sentiment: 0.8,
+    },
+  ];
+
+  const mockInsights: Insight[] = [
+    {
+      id: 'insight-1',
+      title: 'Hot reload failures',
+      summary: 'Developers report reloads breaking after upgrades',
+      category: 'bug-report',
+      confidence: 0.8,
+      sources: ['signal-1'],
+      timestamp: '2025-01-15T12:00:00.000Z',
+      metadata: { keywords: ['reload'] },
+    },
+    {
+      id: 'insight-2',
+      title: 'Debugger praise',
+      summary: 'The new debugger is well received',
+      category: 'user-feedback',
+      confidence: 0.6,
+      sources: ['signal-3'],
+      timestamp: '2025-01-17T12:00:00.000Z',
+    },
+  ];
+
+  beforeEach(() => {
+    storage = new SqliteStorage(':memory:');
+  });
+
+  afterEach(async () => {
+    storage.close();
+    await fs.rm(testBasePath, { recursive: true, force: true });
+  });
+
+  describe('signals', () => {
+    beforeEach(async () => {
+      await storage.saveSignals(mockSignals);
+    });
+
+    it('should round-trip signals in insertion order', async () => {
+      await expect(storage.loadSignals()).resolves.toEqual(mockSignals);
+    });
+
+    it('should replace signals with the same ID', async () => {
+      await storage.saveSignals([{ ...mockSignals[0]!, content: 'Fixed in 2.1', themes: [] }]);
+
+      const signals = await storage.loadSignals();
+
+      expect(signals).toHaveLength(3);
+      expect(signals[0]?.content).toBe('Fixed in 2.1');
+      await expect(storage.loadSignals({ themes: ['hot reload'] })).resolves.toHaveLength(1);
+      await expect(storage.searchSignals('hot reload')).resolves.toEqual([]);
+    });
+
+    it('should filter by source, type and sentiment', async () => {
+      const ids = async (filter: Parameters<SqliteStorage['loadSignals']>[0]): Promise<string[]> =>
+        (await storage.loadSignals(filter)).map((signal) => signal.id);
+
+      await expect(ids({ source: 'reddit' })).resolves.toEqual(['signal-1', 'signal-3']);
+      await expect(ids({ type: 'issue' })).resolves.toEqual(['signal-2']);
+      await expect(ids({ sentiment: 'negative' })).resolves.toEqual(['signal-1']);
+      await expect(ids({ sentiment: 'neutral' })).resolves.toEqual(['signal-2']);
+    });
+
+    it('should filter by inclusive date range', async () => {
+      const signals = await storage.loadSignals({
+        startDate: new Date('2025-01-16T10:00:00.000Z'),
+        endDate: new Date('2025-01-17T10:00:00.000Z'),
+      });
+
+      expect(signals.map((signal) => signal.id)).toEqual(['signal-2', 'signal-3']);
+    });
+
+    it('should filter by themes, keeping signals without themes', async () => {
+      const signals = await storage.loadSignals({ themes: ['upgrades', 'documentation'] });
+      const unthemed = await storage.loadSignals({ themes: ['pricing'] });
+
+      expect(signals.map((signal) => signal.id)).toEqual(['signal-1', 'signal-2', 'signal-3']);
+      expect(unthemed.map((signal) => signal.id)).toEqual(['signal-3']);
+      await expect(storage.loadSignals({ themes: [] })).resolves.toHaveLength(3);
+    });
+
+    it('should match the filters of FileSystemStorage', async () => {
+      const fileStorage = new FileSystemStorage(testBasePath);
+      await fileStorage.initialize();
+      await fileStorage.saveSignals(mockSignals);
+      const filters = [
+        { source: 'github' as const },
+        { sentiment: 'positive' as const },
+        { themes: ['hot reload'] },
+        { startDate: new Date('2025-01-16T00:00:00.000Z'), type: 'comment' as const },
+      ];
+
+      for (const filter of filters) {
+        const expected = (await fileStorage.loadSignals(filter)).map((signal) => signal.id).sort();
+        const actual = (await storage.loadSignals(filter)).map((signal) => signal.id).sort();
+        expect(actual).toEqual(expected);
+      }
+    });
+
+    it('should throw StorageError for invalid data', async () => {
+      const invalid = { ...mockSignals[0]!, url: 'not-a-url' };
+
+      await expect(storage.saveSignals([invalid])).rejects.toThrow('Invalid signal data');
+      await expect(storage.loadSignals()).resolves.toHaveLength(3);
+    });
+
+    it('should handle empty array', async () => {
+      await expect(storage.saveSignals([])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('searchSignals', () => {
+    beforeEach(async () => {
+      await storage.saveSignals(mockSignals);
+    });
+
+    it('should search content by word prefixes', async () => {
+      const signals = await storage.searchSignals('upgrad');
+
+      expect(signals.map((signal) => signal.id).sort()).toEqual(['signal-1', 'signal-2']);
+    });
+
+    it('should require every word and ignore case and punctuation', async () => {
+      const signals = await storage.searchSignals('HOT "reload"');
+
+      expect(signals.map((signal) => signal.id)).toEqual(['signal-1']);
+    });
+
+    it('should combine search with filters', async () => {
+      const signals = await storage.searchSignals('reload', { sentiment: 'positive' });
+
+      expect(signals.map((signal) => signal.id)).toEqual(['signal-3']);
+    });
+
+    it('should return no signals for queries without words', async () => {
+      await expect(storage.searchSignals('  ?! ')).resolves.toEqual([]);
+    });
+  });
+
+  describe('insights', () => {
+    beforeEach(async () => {
+      await storage.saveInsights(mockInsights);
+    });
+
+    it('should round-trip insights in insertion order', async () => {
+      await expect(storage.loadInsights()).resolves.toEqual(mockInsights);
+      await expect(storage.loadInsights('  ')).resolves.toEqual(mockInsights);
+    });
+
+    it('should search title, summary and category', async () => {
+      const byTitle = await storage.loadInsights('debugger');
+      const bySummary = await storage.loadInsights('developers');
+      const byCategory = await storage.loadInsights('bug-report');
+
+      expect(byTitle.map((insight) => insight.id)).toEqual(['insight-2']);
+      expect(bySummary.map((insight) => insight.id)).toEqual(['insight-1']);
+      expect(byCategory.map((insight) => insight.id)).toEqual(['insight-1']);
+    });
+
+    it('should rank better matches first', async () => {
+      await storage.saveInsights([
+        {
+          ...mockInsights[1]!,
+          id: 'insight-3',
+          title: 'Reload reload reload',
+          summary: 'Reloads everywhere',
+        },
+      ]);
+
+      const insights = await storage.loadInsights('reload');
+
+      expect(insights.map((insight) => insight.id)).toEqual(['insight-3', 'insight-1']);
+    });
+
+    it('should replace insights with the same ID', async () => {
+      await storage.saveInsights([{ ...mockInsights[0]!, title: 'Reload regressions' }]);
+
+      await expect(storage.loadInsights()).resolves.toHaveLength(2);
+      await expect(storage.loadInsights('failures')).resolves.toEqual([]);
+      await expect(storage.loadInsights('regressions')).resolves.toHaveLength(1);
+    });
+
+    it('should return no insights for queries without words', async () => {
+      await expect(storage.loadInsights('--')).resolves.toEqual([]);
+    });
+
+    it('should throw StorageError for invalid data', async () => {
+      const invalid = { ...mockInsights[0]!, confidence: 2 };
+
+      await expect(storage.saveInsights([invalid])).rejects.toThrow('Invalid insight data');
+    });
+
+    it('should handle empty array', async () => {
+      await expect(storage.saveInsights([])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('cursors', () => {
+    const cursor = createScrapeCursor({
+      source: 'reddit',
+      scope: 'r/programming',
+      lastSeenId: 't3_abc',
+      lastSeenAt: new Date('2025-01-15T10:00:00.000Z'),
+      updatedAt: new Date('2025-01-15T11:00:00.000Z'),
+    });
+
+    it('should return no cursors before any are saved', async () => {
+      await expect(storage.loadCursors()).resolves.toEqual([]);
+    });
+
+    it('should replace cursors with the same source and scope', async () => {
+      const other = { ...cursor, source: 'github' as const, scope: 'owner/repo' };
+      await storage.saveCursors([cursor, other]);
+      await storage.saveCursors([{ ...cursor, lastSeenId: 't3_def' }]);
+
+      const cursors = await storage.loadCursors();
+
+      expect(cursors).toHaveLength(2);
+      expect(cursors.find((c) => c.source === 'reddit')?.lastSeenId).toBe('t3_def');
+      await expect(storage.loadCursors('github')).resolves.toEqual([other]);
+    });
+
+    it('should throw StorageError for invalid cursors', async () => {
+      await expect(storage.saveCursors([{ ...cursor, lastSeenId: '' }])).rejects.toThrow(
+        'Invalid cursor data'
+      );
+    });
+
+    it('should handle empty array', async () => {
+      await expect(storage.saveCursors([])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('database file', () => {
+    it('should persist data across instances', async () => {
+      const filePath = path.join(testBasePath, 'nested', 'rgs.db');
+      const first = new SqliteStorage(filePath);
+      await first.initialize();
+      await first.saveSignals(mockSignals);
+      first.close();
+
+      const second = new SqliteStorage(filePath);
+      const signals = await second.searchSignals('debugger');
+      second.close();
+
+      expect(signals.map((signal) => signal.id)).toEqual(['signal-3']);
+    });
+
+    it('should throw StorageError when the database cannot be opened', async () => {
+      await fs.mkdir(path.join(testBasePath, 'directory.db'), { recursive: true });
+      const broken = new SqliteStorage(path.join(testBasePath, 'directory.db'));
+
+      await expect(broken.initialize()).rejects.toThrow(StorageError);
+      await expect(broken.loadSignals()).rejects.toThrow('Failed to load signals');
+    });
+  });
+
+  describe('importFrom', () => {
+    it('should import a FileSystemStorage directory, including version 1 records', async () => {
+      const fileStorage = new FileSystemStorage(testBasePath);
+      await fileStorage.initialize();
+      await fileStorage.saveSignals(mockSignals.slice(0, 2));
+      await fileStorage.saveInsights(mockInsights);
+      await fileStorage.saveCursors([
+        createScrapeCursor({
+          source: 'hackernews',
+          scope: 'search:rust',
+          lastSeenId: '123',
+          lastSeenAt: new Date('2025-01-15T10:00:00.000Z'),
+        }),
+      ]);
+      await fs.writeFile(
+        path.join(testBasePath, 'signals', 'twitter-2024-12-01.json'),
+        JSON.stringify([
+          {
+            id: 'legacy-1',
+            source: 'twitter',
+            type: 'tweet',
+            content: 'Legacy tweet about reloads',
+            author: 'old',
+            url: 'https://twitter.com/old/1',
+            timestamp: '2024-12-01T10:00:00.000Z',
+            sentiment: 'mixed',
+            tags: ['hot reload'],
+          },
+        ])
+      );
+
+      const result = await storage.importFrom(fileStorage);
+
+      expect(result).toEqual({ signalsImported: 3, insightsImported: 2, cursorsImported: 1 });
+      const legacy = await storage.loadSignals({ source: 'twitter' });
+      expect(legacy[0]).toMatchObject({
+        id: 'legacy-1',
+        sentiment: 0,
+        themes: ['hot reload'],
+        metadata: { legacySentiment: 'mixed' },
+      });
+      await expect(storage.loadInsights('debugger')).resolves.toHaveLength(1);
+      await expect(storage.loadCursors('hackernews')).resolves.toHaveLength(1);
+
+      await storage.importFrom(fileStorage);
+      await expect(storage.loadSignals()).resolves.toHaveLength(3);
+    });
+  });
+});
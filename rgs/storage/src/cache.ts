@@ -1,4 +1,5 @@
 import { IStorage, WebSignal, Insight, SignalFilter, StorageError } from './interfaces/storage';
+import { toSentimentLabel } from './migrations';
 
 /**
  * Cache entry with timestamp for LRU eviction
@@ -197,25 +198,26 @@ export class InMemoryCache implements IStorage {
         return false;
       }
 
-      if (filter.sentiment !== undefined && signal.sentiment !== filter.sentiment) {
+      if (
+        filter.sentiment !== undefined &&
+        (signal.sentiment === undefined || toSentimentLabel(signal.sentiment) !== filter.sentiment)
+      ) {
         return false;
       }
 
-      const signalDate = new Date(signal.timestamp);
-
-      if (filter.startDate !== undefined && signalDate < filter.startDate) {
+      if (filter.startDate !== undefined && signal.timestamp < filter.startDate) {
         return false;
       }
 
-      if (filter.endDate !== undefined && signalDate > filter.endDate) {
+      if (filter.endDate !== undefined && signal.timestamp > filter.endDate) {
         return false;
       }
 
       if (
-        filter.tags !== undefined &&
-        filter.tags.length > 0 &&
-        signal.tags !== undefined &&
-        !filter.tags.some((tag) => signal.tags?.includes(tag))
+        filter.themes !== undefined &&
+        filter.themes.length > 0 &&
+        signal.themes !== undefined &&
+        !filter.themes.some((theme) => signal.themes?.includes(theme))
       ) {
         return false;
       }
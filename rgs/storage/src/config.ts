@@ -18,8 +18,8 @@ export type SourceConfig = z.infer<typeof SourceConfigSchema>;
  */
 export const RGSConfigSchema = z.object({
   storage: z.object({
-    type: z.enum(['filesystem', 'memory']),
-    path: z.string().optional(),
+    type: z.enum(['filesystem', 'memory', 'sqlite']),
+    path: z.string().optional(), // directory for filesystem, database file for sqlite
   }),
   scraping: z.object({
     rateLimit: z.number().min(1).max(1000), // requests per minute
@@ -129,8 +129,8 @@ export class ConfigLoader {
     // Storage type
     const storageType = process.env['RGS_STORAGE_TYPE'];
     if (storageType !== undefined && storageType.length > 0) {
-      if (storageType === 'filesystem' || storageType === 'memory') {
-        this.config.storage.type = storageType;
+      if (storageType === 'filesystem' || storageType === 'memory' || storageType === 'sqlite') {
+        this.config.storage = this.switchStorage(this.config.storage, { type: storageType });
       }
     }
 
@@ -168,15 +168,26 @@ export class ConfigLoader {
     }
   }
 
+  /**
+   * Apply a storage override; a path is only kept for the storage type it was
+   * given for, as filesystem storage takes a directory and SQLite a database file
+   */
+  private switchStorage(
+    base: RGSConfig['storage'],
+    override: Partial<RGSConfig['storage']>
+  ): RGSConfig['storage'] {
+    if (override.type !== undefined && override.type !== base.type) {
+      return { ...override, type: override.type };
+    }
+    return { ...base, ...override };
+  }
+
   /**
    * Merge two configuration objects
    */
   private mergeConfigs(base: RGSConfig, override: Partial<RGSConfig>): RGSConfig {
     return {
-      storage: {
-        ...base.storage,
-        ...override.storage,
-      },
+      storage: this.switchStorage(base.storage, override.storage ?? {}),
       scraping: {
         ...base.scraping,
         ...override.scraping,
@@ -1,22 +1,43 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { z } from 'zod';
+import {
+  ScrapeCursor,
+  ScrapeCursorSchema,
+  SourceType,
+  createScrapeCursor,
+  cursorKey,
+} from '@rgs/core';
 import {
   IStorage,
+  ICursorStore,
   WebSignal,
-  WebSignalSchema,
   Insight,
   InsightSchema,
+  CursorRecord,
+  CursorRecordSchema,
   SignalFilter,
+  SignalMigrationResult,
   StorageError,
 } from './interfaces/storage';
+import {
+  SignalRecord,
+  toSignalRecord,
+  fromSignalRecord,
+  migrateSignalRecord,
+  isCurrentSignalRecord,
+  toSentimentLabel,
+} from './migrations';
 
 /**
  * File-based storage implementation for RGS data
- * Stores signals and insights in JSON files organized by date and source
+ * Stores signals and insights in JSON files organized by date and source,
+ * and scrape cursors in a single cursors.json file
  */
-export class FileSystemStorage implements IStorage {
+export class FileSystemStorage implements IStorage, ICursorStore {
   private readonly signalsPath: string;
   private readonly insightsPath: string;
+  private readonly cursorsPath: string;
 
   /**
    * Creates a new FileSystemStorage instance
@@ -25,6 +46,7 @@ export class FileSystemStorage implements IStorage {
   constructor(basePath: string = 'data/rgs') {
     this.signalsPath = path.join(basePath, 'signals');
     this.insightsPath = path.join(basePath, 'insights');
+    this.cursorsPath = path.join(basePath, 'cursors.json');
   }
 
   /**
@@ -43,6 +65,7 @@ export class FileSystemStorage implements IStorage {
   /**
    * Save web signals to storage
    * Organizes signals by source and date: signals/{source}-YYYY-MM-DD.json
+   * Signals are written as versioned records (see SIGNAL_SCHEMA_VERSION)
    */
   async saveSignals(signals: WebSignal[]): Promise<void> {
     if (signals.length === 0) {
@@ -50,11 +73,11 @@ export class FileSystemStorage implements IStorage {
     }
 
     try {
-      // Validate signals
-      signals.forEach((signal) => WebSignalSchema.parse(signal));
+      // Validate and serialize signals
+      const records = signals.map(toSignalRecord);
 
       // Group signals by source and date
-      const grouped = this.groupSignalsBySourceAndDate(signals);
+      const grouped = this.groupSignalsBySourceAndDate(records);
 
       // Save each group to its respective file
       await Promise.all(
@@ -73,6 +96,8 @@ export class FileSystemStorage implements IStorage {
 
   /**
    * Load web signals from storage with optional filtering
+   * Records written by older versions are migrated in memory; use migrateSignals()
+   * to rewrite them on disk
    */
   async loadSignals(filter?: SignalFilter): Promise<WebSignal[]> {
     try {
@@ -82,26 +107,61 @@ export class FileSystemStorage implements IStorage {
       const allSignals: WebSignal[] = [];
 
       // Read all signal files
+      for (const file of files) {
+        if (!file.endsWith('.json')) {
+          continue;
+        }
+
+        const records = await this.readSignalRecords(path.join(this.signalsPath, file));
+        allSignals.push(...records.map((record) => fromSignalRecord(migrateSignalRecord(record))));
+      }
+
+      // Apply filters
+      return this.applySignalFilter(allSignals, filter);
+    } catch (error) {
+      throw new StorageError('Failed to load signals', error);
+    }
+  }
+
+  /**
+   * Rewrite signal files containing records from older schema versions
+   * @returns Number of files rewritten and records upgraded
+   * @throws {StorageError} If a record cannot be migrated or a file cannot be written
+   */
+  async migrateSignals(): Promise<SignalMigrationResult> {
+    const result: SignalMigrationResult = { filesMigrated: 0, signalsMigrated: 0 };
+
+    try {
+      await this.ensureDirectoryExists(this.signalsPath);
+
+      const files = await fs.readdir(this.signalsPath);
+
       for (const file of files) {
         if (!file.endsWith('.json')) {
           continue;
         }
 
         const filePath = path.join(this.signalsPath, file);
-        const content = await fs.readFile(filePath, 'utf-8');
+        const records = await this.readSignalRecords(filePath);
+        const outdated = records.filter((record) => !isCurrentSignalRecord(record)).length;
 
-        if (content.trim() === '') {
+        if (outdated === 0) {
           continue;
         }
 
-        const signals = JSON.parse(content) as WebSignal[];
-        allSignals.push(...signals);
+        const migrated = records.map(migrateSignalRecord);
+        await fs.writeFile(filePath, JSON.stringify(migrated, null, 2), 'utf-8');
+
+        result.filesMigrated++;
+        result.signalsMigrated += outdated;
       }
 
-      // Apply filters
-      return this.applySignalFilter(allSignals, filter);
+      return result;
     } catch (error) {
-      throw new StorageError('Failed to load signals', error);
+      if (error instanceof StorageError) {
+        throw error;
+      }
+      throw new StorageError('Failed to migrate signals', error);
     }
   }
 
@@ -170,11 +230,82 @@ export class FileSystemStorage implements IStorage {
     }
   }
 
+  /**
+   * Save scrape cursors to cursors.json
+   * Cursors replace stored cursors with the same source and scope
+   */
+  async saveCursors(cursors: readonly ScrapeCursor[]): Promise<void> {
+    if (cursors.length === 0) {
+      return;
+    }
+
+    try {
+      const records = new Map(
+        (await this.readCursorRecords()).map((record) => [
+          cursorKey(record.source, record.scope),
+          record,
+        ])
+      );
+
+      for (const cursor of cursors) {
+        const valid = ScrapeCursorSchema.parse(cursor);
+        records.set(cursorKey(valid.source, valid.scope), {
+          source: valid.source,
+          scope: valid.scope,
+          lastSeenId: valid.lastSeenId,
+          lastSeenAt: valid.lastSeenAt.toISOString(),
+          updatedAt: valid.updatedAt.toISOString(),
+        });
+      }
+
+      await fs.mkdir(path.dirname(this.cursorsPath), { recursive: true });
+      await fs.writeFile(
+        this.cursorsPath,
+        JSON.stringify(Array.from(records.values()), null, 2),
+        'utf-8'
+      );
+    } catch (error) {
+      if (error instanceof StorageError) {
+        throw error;
+      }
+      if (error instanceof Error && error.name === 'ZodError') {
+        throw new StorageError('Invalid cursor data', error);
+      }
+      throw new StorageError('Failed to save cursors', error);
+    }
+  }
+
+  /**
+   * Load scrape cursors, optionally for one source
+   */
+  async loadCursors(source?: SourceType): Promise<ScrapeCursor[]> {
+    try {
+      const records = await this.readCursorRecords();
+
+      return records
+        .filter((record) => source === undefined || record.source === source)
+        .map((record) =>
+          createScrapeCursor({
+            source: record.source,
+            scope: record.scope,
+            lastSeenId: record.lastSeenId,
+            lastSeenAt: new Date(record.lastSeenAt),
+            updatedAt: new Date(record.updatedAt),
+          })
+        );
+    } catch (error) {
+      if (error instanceof StorageError) {
+        throw error;
+      }
+      throw new StorageError('Failed to load cursors', error);
+    }
+  }
+
   /**
    * Group signals by source and date
    */
-  private groupSignalsBySourceAndDate(signals: WebSignal[]): Map<string, WebSignal[]> {
-    const grouped = new Map<string, WebSignal[]>();
+  private groupSignalsBySourceAndDate(signals: SignalRecord[]): Map<string, SignalRecord[]> {
+    const grouped = new Map<string, SignalRecord[]>();
 
     for (const signal of signals) {
       const date = new Date(signal.timestamp);
@@ -217,6 +348,45 @@ export class FileSystemStorage implements IStorage {
     return `${year}-${month}-${day}`;
   }
 
+  /**
+   * Read the raw records of a signal file
+   */
+  private async readSignalRecords(filePath: string): Promise<unknown[]> {
+    const content = await fs.readFile(filePath, 'utf-8');
+
+    if (content.trim() === '') {
+      return [];
+    }
+
+    return JSON.parse(content) as unknown[];
+  }
+
+  /**
+   * Read the stored cursor records (none if there is no cursor file yet)
+   * @throws {StorageError} If the cursor file is malformed
+   */
+  private async readCursorRecords(): Promise<CursorRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.cursorsPath, 'utf-8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    if (content.trim() === '') {
+      return [];
+    }
+
+    const result = z.array(CursorRecordSchema).safeParse(JSON.parse(content));
+    if (!result.success) {
+      throw new StorageError('Invalid cursor file', result.error);
+    }
+    return result.data;
+  }
+
   /**
    * Append data to file or create new file
    */
@@ -256,25 +426,26 @@ export class FileSystemStorage implements IStorage {
         return false;
       }
 
-      if (filter.sentiment !== undefined && signal.sentiment !== filter.sentiment) {
+      if (
+        filter.sentiment !== undefined &&
+        (signal.sentiment === undefined || toSentimentLabel(signal.sentiment) !== filter.sentiment)
+      ) {
         return false;
       }
 
-      const signalDate = new Date(signal.timestamp);
-
-      if (filter.startDate !== undefined && signalDate < filter.startDate) {
+      if (filter.startDate !== undefined && signal.timestamp < filter.startDate) {
         return false;
       }
 
-      if (filter.endDate !== undefined && signalDate > filter.endDate) {
+      if (filter.endDate !== undefined && signal.timestamp > filter.endDate) {
         return false;
       }
 
       if (
-        filter.tags !== undefined &&
-        filter.tags.length > 0 &&
-        signal.tags !== undefined &&
-        !filter.tags.some((tag) => signal.tags?.includes(tag))
+        filter.themes !== undefined &&
+        filter.themes.length > 0 &&
+        signal.themes !== undefined &&
+        !filter.themes.some((theme) => signal.themes?.includes(theme))
       ) {
         return false;
       }
@@ -1,21 +1,42 @@
 /**
  * RGS Storage Module
- * Provides file-based storage and in-memory caching for web signals and insights
+ * Provides file-based and SQLite storage and in-memory caching for web signals and insights
  */
 
 // Interfaces and types
 export {
   IStorage,
+  ICursorStore,
   WebSignal,
-  WebSignalSchema,
+  SentimentLabel,
   Insight,
   InsightSchema,
+  CursorRecord,
+  CursorRecordSchema,
   SignalFilter,
+  SignalMigrationResult,
+  StorageImportResult,
   StorageError,
 } from './interfaces/storage';
 
+// Signal record versioning
+export {
+  SIGNAL_SCHEMA_VERSION,
+  SignalRecord,
+  SignalRecordSchema,
+  LegacySignalRecord,
+  LegacySignalRecordSchema,
+  toSignalRecord,
+  fromSignalRecord,
+  migrateSignalRecord,
+  migrateLegacySignalRecord,
+  isCurrentSignalRecord,
+  toSentimentLabel,
+} from './migrations';
+
 // Storage implementations
 export { FileSystemStorage } from './filesystem';
+export { SqliteStorage } from './sqlite';
 export { InMemoryCache } from './cache';
 
 // Configuration
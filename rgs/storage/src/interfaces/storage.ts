@@ -1,22 +1,16 @@
 import { z } from 'zod';
+import { SourceTypeSchema } from '@rgs/core';
+import type { WebSignal, SourceType, SignalType, ScrapeCursor } from '@rgs/core';
 
 /**
- * Web signal data structure from various sources (Reddit, Twitter, etc.)
+ * Web signals are stored in the canonical `@rgs/core` model
  */
-export const WebSignalSchema = z.object({
-  id: z.string(),
-  source: z.enum(['reddit', 'twitter', 'github', 'stackoverflow', 'hackernews']),
-  type: z.enum(['post', 'comment', 'issue', 'discussion', 'tweet']),
-  content: z.string(),
-  author: z.string(),
-  url: z.string().url(),
-  timestamp: z.string().datetime(),
-  metadata: z.record(z.unknown()).optional(),
-  sentiment: z.enum(['positive', 'negative', 'neutral', 'mixed']).optional(),
-  tags: z.array(z.string()).optional(),
-});
+export type { WebSignal };
 
-export type WebSignal = z.infer<typeof WebSignalSchema>;
+/**
+ * Sentiment label derived from a signal's sentiment score
+ */
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
 
 /**
  * Insight generated from web signals
@@ -34,16 +28,46 @@ export const InsightSchema = z.object({
 
 export type Insight = z.infer<typeof InsightSchema>;
 
+/**
+ * Persisted scrape cursor, with ISO timestamps
+ */
+export const CursorRecordSchema = z.object({
+  source: SourceTypeSchema,
+  scope: z.string(),
+  lastSeenId: z.string().min(1),
+  lastSeenAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type CursorRecord = z.infer<typeof CursorRecordSchema>;
+
 /**
  * Filter for querying web signals
  */
 export interface SignalFilter {
-  source?: WebSignal['source'];
-  type?: WebSignal['type'];
+  source?: SourceType;
+  type?: SignalType;
   startDate?: Date;
   endDate?: Date;
-  tags?: string[];
-  sentiment?: WebSignal['sentiment'];
+  themes?: string[];
+  sentiment?: SentimentLabel;
+}
+
+/**
+ * Result of migrating persisted signals to the current record format
+ */
+export interface SignalMigrationResult {
+  filesMigrated: number;
+  signalsMigrated: number;
+}
+
+/**
+ * Result of importing the contents of another storage
+ */
+export interface StorageImportResult {
+  signalsImported: number;
+  insightsImported: number;
+  cursorsImported: number;
 }
 
 /**
@@ -81,6 +105,26 @@ export interface IStorage {
   loadInsights(query?: string): Promise<Insight[]>;
 }
 
+/**
+ * Storage for scrape cursors, so incremental scrapes resume where the last run stopped
+ */
+export interface ICursorStore {
+  /**
+   * Save scrape cursors, replacing any stored cursor with the same source and scope
+   * @param cursors - Cursors to save
+   * @throws {StorageError} If save operation fails
+   */
+  saveCursors(cursors: readonly ScrapeCursor[]): Promise<void>;
+
+  /**
+   * Load scrape cursors
+   * @param source - Optional source to restrict cursors to
+   * @returns Stored cursors
+   * @throws {StorageError} If load operation fails
+   */
+  loadCursors(source?: SourceType): Promise<ScrapeCursor[]>;
+}
+
 /**
  * Custom error for storage operations
  */
@@ -0,0 +1,207 @@
+import { z } from 'zod';
+import {
+  WebSignal,
+  WebSignalSchema,
+  SourceTypeSchema,
+  SignalTypeSchema,
+  createWebSignal,
+} from '@rgs/core';
+import { SentimentLabel, StorageError } from './interfaces/storage';
+
+/**
+ * Current version of the persisted signal record format
+ *
+ * Version history:
+ * - 1: storage-specific model (sentiment label, `tags`, required `type` and `author`),
+ *      written without a `schemaVersion` field
+ * - 2: the canonical `@rgs/core` WebSignal with an ISO timestamp
+ */
+export const SIGNAL_SCHEMA_VERSION = 2;
+
+/**
+ * Score above which a signal is labelled positive (and below the negative of which
+ * it is labelled negative)
+ */
+const SENTIMENT_LABEL_THRESHOLD = 0.2;
+
+/**
+ * Version 1 signal record, as written by FileSystemStorage before the models were unified
+ */
+export const LegacySignalRecordSchema = z.object({
+  id: z.string(),
+  source: SourceTypeSchema,
+  type: z.enum(['post', 'comment', 'issue', 'discussion', 'tweet']),
+  content: z.string(),
+  author: z.string(),
+  url: z.string().url(),
+  timestamp: z.string().datetime(),
+  metadata: z.record(z.unknown()).optional(),
+  sentiment: z.enum(['positive', 'negative', 'neutral', 'mixed']).optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+export type LegacySignalRecord = z.infer<typeof LegacySignalRecordSchema>;
+
+/**
+ * Scores assigned to version 1 sentiment labels during migration
+ */
+const LEGACY_SENTIMENT_SCORES: Record<NonNullable<LegacySignalRecord['sentiment']>, number> = {
+  positive: 0.5,
+  negative: -0.5,
+  neutral: 0,
+  mixed: 0,
+};
+
+/**
+ * Current signal record: a serialized WebSignal tagged with its schema version
+ */
+export const SignalRecordSchema = z.object({
+  schemaVersion: z.literal(SIGNAL_SCHEMA_VERSION),
+  id: z.string().min(1),
+  source: SourceTypeSchema,
+  type: SignalTypeSchema.optional(),
+  content: z.string(),
+  author: z.string().optional(),
+  timestamp: z.string().datetime(),
+  url: z.string().url(),
+  sentiment: z.number().min(-1).max(1).optional(),
+  themes: z.array(z.string()).optional(),
+  metadata: z.record(z.unknown()),
+});
+
+export type SignalRecord = z.infer<typeof SignalRecordSchema>;
+
+/**
+ * Serialize a signal to the current record format
+ * @throws {ZodError} If the signal is not a valid WebSignal
+ */
+export function toSignalRecord(signal: WebSignal): SignalRecord {
+  const valid = WebSignalSchema.parse(signal);
+
+  const record: SignalRecord = {
+    schemaVersion: SIGNAL_SCHEMA_VERSION,
+    id: valid.id,
+    source: valid.source,
+    content: valid.content,
+    timestamp: valid.timestamp.toISOString(),
+    url: valid.url,
+    metadata: valid.metadata,
+  };
+
+  if (valid.type !== undefined) {
+    record.type = valid.type;
+  }
+  if (valid.author !== undefined) {
+    record.author = valid.author;
+  }
+  if (valid.sentiment !== undefined) {
+    record.sentiment = valid.sentiment;
+  }
+  if (valid.themes !== undefined) {
+    record.themes = valid.themes;
+  }
+
+  return record;
+}
+
+/**
+ * Restore a signal from a current record
+ */
+export function fromSignalRecord(record: SignalRecord): WebSignal {
+  return createWebSignal({
+    id: record.id,
+    source: record.source,
+    content: record.content,
+    timestamp: new Date(record.timestamp),
+    url: record.url,
+    metadata: record.metadata,
+    ...(record.type !== undefined && { type: record.type }),
+    ...(record.author !== undefined && { author: record.author }),
+    ...(record.sentiment !== undefined && { sentiment: record.sentiment }),
+    ...(record.themes !== undefined && { themes: record.themes }),
+  });
+}
+
+/**
+ * Upgrade a version 1 record to the current format
+ *
+ * Sentiment labels become representative scores; the original label is kept in
+ * `metadata.legacySentiment` since `mixed` has no score equivalent.
+ */
+export function migrateLegacySignalRecord(legacy: LegacySignalRecord): SignalRecord {
+  const metadata: Record<string, unknown> = { ...legacy.metadata };
+  const record: SignalRecord = {
+    schemaVersion: SIGNAL_SCHEMA_VERSION,
+    id: legacy.id,
+    source: legacy.source,
+    type: legacy.type,
+    content: legacy.content,
+    author: legacy.author,
+    timestamp: legacy.timestamp,
+    url: legacy.url,
+    metadata,
+  };
+
+  if (legacy.sentiment !== undefined) {
+    record.sentiment = LEGACY_SENTIMENT_SCORES[legacy.sentiment];
+    metadata['legacySentiment'] = legacy.sentiment;
+  }
+  if (legacy.tags !== undefined) {
+    record.themes = legacy.tags;
+  }
+
+  return record;
+}
+
+/**
+ * Parse a persisted record of any known version into the current format
+ * @throws {StorageError} If the record matches no known version
+ */
+export function migrateSignalRecord(raw: unknown): SignalRecord {
+  const version =
+    typeof raw === 'object' && raw !== null && 'schemaVersion' in raw
+      ? (raw as { schemaVersion: unknown }).schemaVersion
+      : 1;
+
+  if (version === SIGNAL_SCHEMA_VERSION) {
+    const result = SignalRecordSchema.safeParse(raw);
+    if (result.success) {
+      return result.data;
+    }
+    throw new StorageError('Invalid signal record', result.error);
+  }
+
+  if (version === 1) {
+    const result = LegacySignalRecordSchema.safeParse(raw);
+    if (result.success) {
+      return migrateLegacySignalRecord(result.data);
+    }
+    throw new StorageError('Invalid version 1 signal record', result.error);
+  }
+
+  throw new StorageError(`Unsupported signal schema version: ${String(version)}`);
+}
+
+/**
+ * Check whether a persisted record is already in the current format
+ */
+export function isCurrentSignalRecord(raw: unknown): boolean {
+  return (
+    typeof raw === 'object' &&
+    raw !== null &&
+    (raw as { schemaVersion?: unknown }).schemaVersion === SIGNAL_SCHEMA_VERSION
+  );
+}
+
+/**
+ * Label a sentiment score
+ */
+export function toSentimentLabel(score: number): SentimentLabel {
+  if (score > SENTIMENT_LABEL_THRESHOLD) {
+    return 'positive';
+  }
+  if (score < -SENTIMENT_LABEL_THRESHOLD) {
+    return 'negative';
+  }
+  return 'neutral';
+}
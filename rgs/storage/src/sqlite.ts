@@ -0,0 +1,589 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { ScrapeCursor, ScrapeCursorSchema, SourceType, createScrapeCursor } from '@rgs/core';
+import {
+  IStorage,
+  ICursorStore,
+  WebSignal,
+  Insight,
+  InsightSchema,
+  SignalFilter,
+  StorageError,
+  StorageImportResult,
+} from './interfaces/storage';
+import {
+  SIGNAL_SCHEMA_VERSION,
+  SignalRecord,
+  toSignalRecord,
+  fromSignalRecord,
+  toSentimentLabel,
+} from './migrations';
+
+/**
+ * Path that opens a private in-memory database
+ */
+const IN_MEMORY = ':memory:';
+
+/**
+ * Tables, indexes and full-text indexes of the database
+ *
+ * The FTS5 tables index the content of the signals and insights tables and
+ * are kept in sync by triggers. Themes get their own table so the themes
+ * filter uses an index; `signals.themes` keeps the original list and tells
+ * signals without themes apart from signals with an empty list.
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS signals (
+    id TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    type TEXT,
+    content TEXT NOT NULL,
+    author TEXT,
+    timestamp INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    sentiment REAL,
+    sentiment_label TEXT,
+    themes TEXT,
+    metadata TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_signals_source ON signals (source);
+  CREATE INDEX IF NOT EXISTS idx_signals_type ON signals (type);
+  CREATE INDEX IF NOT EXISTS idx_signals_timestamp ON signals (timestamp);
+  CREATE INDEX IF NOT EXISTS idx_signals_sentiment ON signals (sentiment_label);
+
+  CREATE TABLE IF NOT EXISTS signal_themes (
+    theme TEXT NOT NULL,
+    signal_id TEXT NOT NULL,
+    PRIMARY KEY (theme, signal_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_signal_themes_signal ON signal_themes (signal_id);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS signals_fts USING fts5 (
+    content, content='signals', content_rowid='rowid'
+  );
+  CREATE TRIGGER IF NOT EXISTS signals_fts_insert AFTER INSERT ON signals BEGIN
+    INSERT INTO signals_fts (rowid, content) VALUES (new.rowid, new.content);
+  END;
+  CREATE TRIGGER IF NOT EXISTS signals_fts_update AFTER UPDATE ON signals BEGIN
+    INSERT INTO signals_fts (signals_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+    INSERT INTO signals_fts (rowid, content) VALUES (new.rowid, new.content);
+  END;
+
+  CREATE TABLE IF NOT EXISTS insights (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    category TEXT NOT NULL,
+    confidence REAL NOT NULL,
+    sources TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    metadata TEXT
+  );
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS insights_fts USING fts5 (
+    title, summary, category, content='insights', content_rowid='rowid'
+  );
+  CREATE TRIGGER IF NOT EXISTS insights_fts_insert AFTER INSERT ON insights BEGIN
+    INSERT INTO insights_fts (rowid, title, summary, category)
+    VALUES (new.rowid, new.title, new.summary, new.category);
+  END;
+  CREATE TRIGGER IF NOT EXISTS insights_fts_update AFTER UPDATE ON insights BEGIN
+    INSERT INTO insights_fts (insights_fts, rowid, title, summary, category)
+    VALUES ('delete', old.rowid, old.title, old.summary, old.category);
+    INSERT INTO insights_fts (rowid, title, summary, category)
+    VALUES (new.rowid, new.title, new.summary, new.category);
+  END;
+
+  CREATE TABLE IF NOT EXISTS cursors (
+    source TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    last_seen_id TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (source, scope)
+  );
+`;
+
+/**
+ * Row shape of the signals table
+ */
+interface SignalRow {
+  id: string;
+  source: SignalRecord['source'];
+  type: NonNullable<SignalRecord['type']> | null;
+  content: string;
+  author: string | null;
+  timestamp: number;
+  url: string;
+  sentiment: number | null;
+  themes: string | null;
+  metadata: string;
+}
+
+/**
+ * Row shape of the insights table
+ */
+interface InsightRow {
+  id: string;
+  title: string;
+  summary: string;
+  category: Insight['category'];
+  confidence: number;
+  sources: string;
+  timestamp: string;
+  metadata: string | null;
+}
+
+/**
+ * Row shape of the cursors table
+ */
+interface CursorRow {
+  source: SourceType;
+  scope: string;
+  last_seen_id: string;
+  last_seen_at: string;
+  updated_at: string;
+}
+
+/**
+ * Named parameters of a query
+ */
+type Parameters = Record<string, string | number>;
+
+/**
+ * SQLite storage implementation for RGS data
+ * Stores signals, insights and scrape cursors in a single database file.
+ * Every SignalFilter field is an indexed column, and signal content and
+ * insight titles, summaries and categories are indexed for FTS5 search.
+ * Saving a signal or insight with a stored ID replaces the stored one.
+ */
+export class SqliteStorage implements IStorage, ICursorStore {
+  private readonly filePath: string;
+  private db: Database.Database | undefined;
+
+  /**
+   * Creates a new SqliteStorage instance
+   * @param filePath - Database file (default: data/rgs/rgs.db, `:memory:` for an in-memory database)
+   */
+  constructor(filePath: string = 'data/rgs/rgs.db') {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Open the database and create its tables
+   * Other methods open the database on first use, so calling this is optional
+   * @throws {StorageError} If the database cannot be opened
+   */
+  initialize(): Promise<void> {
+    return this.run('Failed to initialize database', () => {
+      this.database();
+    });
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  /**
+   * Save web signals to storage in a single transaction
+   */
+  saveSignals(signals: WebSignal[]): Promise<void> {
+    if (signals.length === 0) {
+      return Promise.resolve();
+    }
+
+    return this.run('Failed to save signals', () => {
+      let records: SignalRecord[];
+      try {
+        records = signals.map(toSignalRecord);
+      } catch (error) {
+        throw new StorageError('Invalid signal data', error);
+      }
+
+      const db = this.database();
+      const upsert = db.prepare(`
+        INSERT INTO signals (
+          id, source, type, content, author, timestamp, url,
+          sentiment, sentiment_label, themes, metadata
+        ) VALUES (
+          @id, @source, @type, @content, @author, @timestamp, @url,
+          @sentiment, @sentimentLabel, @themes, @metadata
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          source = excluded.source, type = excluded.type, content = excluded.content,
+          author = excluded.author, timestamp = excluded.timestamp, url = excluded.url,
+          sentiment = excluded.sentiment, sentiment_label = excluded.sentiment_label,
+          themes = excluded.themes, metadata = excluded.metadata
+      `);
+      const clearThemes = db.prepare('DELETE FROM signal_themes WHERE signal_id = ?');
+      const insertTheme = db.prepare(
+        'INSERT OR IGNORE INTO signal_themes (theme, signal_id) VALUES (?, ?)'
+      );
+
+      db.transaction(() => {
+        for (const record of records) {
+          upsert.run({
+            id: record.id,
+            source: record.source,
+            type: record.type ?? null,
+            content: record.content,
+            author: record.author ?? null,
+            timestamp: Date.parse(record.timestamp),
+            url: record.url,
+            sentiment: record.sentiment ?? null,
+            sentimentLabel:
+              record.sentiment !== undefined ? toSentimentLabel(record.sentiment) : null,
+            themes: record.themes !== undefined ? JSON.stringify(record.themes) : null,
+            metadata: JSON.stringify(record.metadata),
+          });
+          clearThemes.run(record.id);
+          for (const theme of record.themes ?? []) {
+            insertTheme.run(theme, record.id);
+          }
+        }
+      })();
+    });
+  }
+
+  /**
+   * Load web signals from storage with optional filtering, in insertion order
+   */
+  loadSignals(filter?: SignalFilter): Promise<WebSignal[]> {
+    return this.run('Failed to load signals', () => {
+      const { clause, parameters } = this.signalConditions(filter);
+      const rows = this.database()
+        .prepare(`SELECT * FROM signals ${clause} ORDER BY rowid`)
+        .all(parameters) as SignalRow[];
+      return rows.map((row) => this.fromSignalRow(row));
+    });
+  }
+
+  /**
+   * Search signal content with full-text search, best matches first
+   * Every word of the query must appear in the content, as a word or word prefix
+   * @param query - Search query
+   * @param filter - Optional filter criteria
+   */
+  searchSignals(query: string, filter?: SignalFilter): Promise<WebSignal[]> {
+    return this.run('Failed to search signals', () => {
+      const match = this.toMatchQuery(query);
+      if (match === undefined) {
+        return [];
+      }
+
+      const { clause, parameters } = this.signalConditions(filter, ['signals_fts MATCH @query']);
+      const rows = this.database()
+        .prepare(
+          `SELECT signals.* FROM signals_fts
+           JOIN signals ON signals.rowid = signals_fts.rowid
+           ${clause} ORDER BY bm25(signals_fts), signals.rowid`
+        )
+        .all({ ...parameters, query: match }) as SignalRow[];
+      return rows.map((row) => this.fromSignalRow(row));
+    });
+  }
+
+  /**
+   * Save insights to storage in a single transaction
+   */
+  saveInsights(insights: Insight[]): Promise<void> {
+    if (insights.length === 0) {
+      return Promise.resolve();
+    }
+
+    return this.run('Failed to save insights', () => {
+      let valid: Insight[];
+      try {
+        valid = insights.map((insight) => InsightSchema.parse(insight));
+      } catch (error) {
+        throw new StorageError('Invalid insight data', error);
+      }
+
+      const db = this.database();
+      const upsert = db.prepare(`
+        INSERT INTO insights (id, title, summary, category, confidence, sources, timestamp, metadata)
+        VALUES (@id, @title, @summary, @category, @confidence, @sources, @timestamp, @metadata)
+        ON CONFLICT (id) DO UPDATE SET
+          title = excluded.title, summary = excluded.summary, category = excluded.category,
+          confidence = excluded.confidence, sources = excluded.sources,
+          timestamp = excluded.timestamp, metadata = excluded.metadata
+      `);
+
+      db.transaction(() => {
+        for (const insight of valid) {
+          upsert.run({
+            id: insight.id,
+            title: insight.title,
+            summary: insight.summary,
+            category: insight.category,
+            confidence: insight.confidence,
+            sources: JSON.stringify(insight.sources),
+            timestamp: insight.timestamp,
+            metadata: insight.metadata !== undefined ? JSON.stringify(insight.metadata) : null,
+          });
+        }
+      })();
+    });
+  }
+
+  /**
+   * Load insights from storage
+   * Without a query insights come in insertion order; with a query they are
+   * searched by title, summary and category, best matches first
+   */
+  loadInsights(query?: string): Promise<Insight[]> {
+    return this.run('Failed to load insights', () => {
+      const db = this.database();
+      if (query === undefined || query.trim().length === 0) {
+        const rows = db.prepare('SELECT * FROM insights ORDER BY rowid').all() as InsightRow[];
+        return rows.map((row) => this.fromInsightRow(row));
+      }
+
+      const match = this.toMatchQuery(query);
+      if (match === undefined) {
+        return [];
+      }
+      const rows = db
+        .prepare(
+          `SELECT insights.* FROM insights_fts
+           JOIN insights ON insights.rowid = insights_fts.rowid
+           WHERE insights_fts MATCH @query ORDER BY bm25(insights_fts), insights.rowid`
+        )
+        .all({ query: match }) as InsightRow[];
+      return rows.map((row) => this.fromInsightRow(row));
+    });
+  }
+
+  /**
+   * Save scrape cursors
+   * Cursors replace stored cursors with the same source and scope
+   */
+  saveCursors(cursors: readonly ScrapeCursor[]): Promise<void> {
+    if (cursors.length === 0) {
+      return Promise.resolve();
+    }
+
+    return this.run('Failed to save cursors', () => {
+      let valid: ScrapeCursor[];
+      try {
+        valid = cursors.map((cursor) => ScrapeCursorSchema.parse(cursor));
+      } catch (error) {
+        throw new StorageError('Invalid cursor data', error);
+      }
+
+      const db = this.database();
+      const upsert = db.prepare(`
+        INSERT OR REPLACE INTO cursors (source, scope, last_seen_id, last_seen_at, updated_at)
+        VALUES (@source, @scope, @lastSeenId, @lastSeenAt, @updatedAt)
+      `);
+
+      db.transaction(() => {
+        for (const cursor of valid) {
+          upsert.run({
+            source: cursor.source,
+            scope: cursor.scope,
+            lastSeenId: cursor.lastSeenId,
+            lastSeenAt: cursor.lastSeenAt.toISOString(),
+            updatedAt: cursor.updatedAt.toISOString(),
+          });
+        }
+      })();
+    });
+  }
+
+  /**
+   * Load scrape cursors, optionally for one source
+   */
+  loadCursors(source?: SourceType): Promise<ScrapeCursor[]> {
+    return this.run('Failed to load cursors', () => {
+      const rows = (
+        source === undefined
+          ? this.database().prepare('SELECT * FROM cursors ORDER BY rowid').all()
+          : this.database()
+              .prepare('SELECT * FROM cursors WHERE source = ? ORDER BY rowid')
+              .all(source)
+      ) as CursorRow[];
+
+      return rows.map((row) =>
+        createScrapeCursor({
+          source: row.source,
+          scope: row.scope,
+          lastSeenId: row.last_seen_id,
+          lastSeenAt: new Date(row.last_seen_at),
+          updatedAt: new Date(row.updated_at),
+        })
+      );
+    });
+  }
+
+  /**
+   * Copy the signals, insights and cursors of another storage into this one
+   * Used to move existing FileSystemStorage directories into a database; records
+   * already in the database are replaced, so an import can be repeated
+   * @param source - Storage to import from
+   * @returns Number of signals, insights and cursors read from the source
+   * @throws {StorageError} If the source cannot be read or the data cannot be saved
+   */
+  async importFrom(source: IStorage & ICursorStore): Promise<StorageImportResult> {
+    const signals = await source.loadSignals();
+    const insights = await source.loadInsights();
+    const cursors = await source.loadCursors();
+
+    await this.saveSignals(signals);
+    await this.saveInsights(insights);
+    await this.saveCursors(cursors);
+
+    return {
+      signalsImported: signals.length,
+      insightsImported: insights.length,
+      cursorsImported: cursors.length,
+    };
+  }
+
+  /**
+   * Open the database on first use
+   */
+  private database(): Database.Database {
+    if (this.db === undefined) {
+      if (this.filePath !== IN_MEMORY) {
+        fs.mkdirSync(path.dirname(path.resolve(this.filePath)), { recursive: true });
+      }
+
+      const db = new Database(this.filePath);
+      try {
+        db.pragma('journal_mode = WAL');
+        db.exec(SCHEMA);
+      } catch (error) {
+        db.close();
+        throw error;
+      }
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a database operation, wrapping unexpected errors in a StorageError
+   */
+  private run<T>(message: string, operation: () => T): Promise<T> {
+    try {
+      return Promise.resolve(operation());
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return Promise.reject(error);
+      }
+      return Promise.reject(new StorageError(message, error));
+    }
+  }
+
+  /**
+   * Build the WHERE clause of a signal filter
+   * @param filter - Filter criteria
+   * @param conditions - Conditions to combine with the filter
+   */
+  private signalConditions(
+    filter: SignalFilter = {},
+    conditions: string[] = []
+  ): { clause: string; parameters: Parameters } {
+    const parameters: Parameters = {};
+    const where = (condition: string, name: string, value: string | number): void => {
+      conditions.push(condition);
+      parameters[name] = value;
+    };
+
+    if (filter.source !== undefined) {
+      where('signals.source = @source', 'source', filter.source);
+    }
+    if (filter.type !== undefined) {
+      where('signals.type = @type', 'type', filter.type);
+    }
+    if (filter.sentiment !== undefined) {
+      where('signals.sentiment_label = @sentiment', 'sentiment', filter.sentiment);
+    }
+    if (filter.startDate !== undefined) {
+      where('signals.timestamp >= @startDate', 'startDate', filter.startDate.getTime());
+    }
+    if (filter.endDate !== undefined) {
+      where('signals.timestamp <= @endDate', 'endDate', filter.endDate.getTime());
+    }
+    if (filter.themes !== undefined && filter.themes.length > 0) {
+      // Signals without themes pass, as they do in FileSystemStorage
+      const names = filter.themes.map((theme, i) => {
+        parameters[`theme${i}`] = theme;
+        return `@theme${i}`;
+      });
+      conditions.push(
+        `(signals.themes IS NULL OR signals.id IN (SELECT signal_id FROM signal_themes WHERE theme IN (${names.join(', ')})))`
+      );
+    }
+
+    return {
+      clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      parameters,
+    };
+  }
+
+  /**
+   * Turn a free-text query into an FTS5 query matching every word as a prefix
+   * @returns FTS5 query, or undefined if the query has no words
+   */
+  private toMatchQuery(query: string): string | undefined {
+    const words = query.split(/[^\p{L}\p{N}]+/u).filter((word) => word.length > 0);
+    if (words.length === 0) {
+      return undefined;
+    }
+    return words.map((word) => `"${word}"*`).join(' ');
+  }
+
+  /**
+   * Convert a signals row back to a signal
+   */
+  private fromSignalRow(row: SignalRow): WebSignal {
+    const record: SignalRecord = {
+      schemaVersion: SIGNAL_SCHEMA_VERSION,
+      id: row.id,
+      source: row.source,
+      content: row.content,
+      timestamp: new Date(row.timestamp).toISOString(),
+      url: row.url,
+      metadata: JSON.parse(row.metadata) as Record<string, unknown>,
+    };
+    if (row.type !== null) {
+      record.type = row.type;
+    }
+    if (row.author !== null) {
+      record.author = row.author;
+    }
+    if (row.sentiment !== null) {
+      record.sentiment = row.sentiment;
+    }
+    if (row.themes !== null) {
+      record.themes = JSON.parse(row.themes) as string[];
+    }
+    return fromSignalRecord(record);
+  }
+
+  /**
+   * Convert an insights row back to an insight
+   */
+  private fromInsightRow(row: InsightRow): Insight {
+    const insight: Insight = {
+      id: row.id,
+      title: row.title,
+      summary: row.summary,
+      category: row.category,
+      confidence: row.confidence,
+      sources: JSON.parse(row.sources) as string[],
+      timestamp: row.timestamp,
+    };
+    if (row.metadata !== null) {
+      insight.metadata = JSON.parse(row.metadata) as Record<string, unknown>;
+    }
+    return insight;
+  }
+}
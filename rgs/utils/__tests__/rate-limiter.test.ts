@@ -223,6 +223,44 @@ describe('RateLimiter', () => {
     });
   });
 
+  describe('backoff', () => {
+    it('should delay requests until the backoff has passed', async () => {
+      const limiter = new RateLimiter({ requestsPerMinute: 60, burstSize: 5 });
+      const results: number[] = [];
+
+      limiter.backoff(10000);
+      const promise = limiter.execute(() => {
+        results.push(1);
+        return Promise.resolve(1);
+      });
+
+      await jest.advanceTimersByTimeAsync(9000);
+      expect(results).toHaveLength(0);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await promise;
+      expect(results).toEqual([1]);
+    });
+
+    it('should not shorten an existing backoff', () => {
+      const limiter = new RateLimiter({ requestsPerMinute: 60 });
+
+      limiter.backoff(10000);
+      limiter.backoff(2000);
+
+      expect(limiter.getStats().backoffRemainingMs).toBe(10000);
+    });
+
+    it('should ignore non-positive backoffs', () => {
+      const limiter = new RateLimiter({ requestsPerMinute: 60 });
+
+      limiter.backoff(0);
+      limiter.backoff(-5);
+
+      expect(limiter.getStats().backoffRemainingMs).toBe(0);
+    });
+  });
+
   describe('stats', () => {
     it('should return accurate stats', () => {
       const limiter = new RateLimiter({
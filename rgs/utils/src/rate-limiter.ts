@@ -5,6 +5,7 @@
  * - Configurable requests per minute
  * - Burst capacity support
  * - Automatic backoff when rate limited
+ * - Server-requested backoff (e.g., Stack Exchange `backoff` field)
  * - Circuit breaker pattern (opens after consecutive failures)
  */
 
@@ -59,6 +60,7 @@ export class RateLimiter {
   private consecutiveFailures: number = 0;
   private circuitOpenTime: number | undefined;
   private pendingRequests: number = 0;
+  private backoffUntil: number = 0;
 
   /**
    * Creates a new RateLimiter instance
@@ -146,6 +148,16 @@ export class RateLimiter {
    * @returns Promise that resolves when a token is available
    */
   private async waitForToken(): Promise<void> {
+    // Honor server-requested backoff before taking a token
+    const backoffMs = this.backoffUntil - Date.now();
+    if (backoffMs > 0) {
+      this.logger?.debug('Backing off before next request', {
+        waitMs: backoffMs,
+        pendingRequests: this.pendingRequests,
+      });
+      await new Promise<void>((resolve) => setTimeout(resolve, backoffMs));
+    }
+
     this.refillTokens();
 
     if (this.tokens >= 1) {
@@ -214,6 +226,23 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Delays all further requests until the given time has passed
+   *
+   * Used when an API asks clients to back off. A shorter backoff never
+   * cuts an existing one short.
+   *
+   * @param ms - Milliseconds to wait before the next request
+   */
+  backoff(ms: number): void {
+    if (ms <= 0) {
+      return;
+    }
+
+    this.backoffUntil = Math.max(this.backoffUntil, Date.now() + ms);
+    this.logger?.info('Backoff requested', { backoffMs: ms });
+  }
+
   /**
    * Gets current rate limiter statistics
    */
@@ -224,6 +253,7 @@ export class RateLimiter {
     circuitState: string;
     consecutiveFailures: number;
     pendingRequests: number;
+    backoffRemainingMs: number;
   } {
     this.refillTokens();
     return {
@@ -233,6 +263,7 @@ export class RateLimiter {
       circuitState: this.circuitState,
       consecutiveFailures: this.consecutiveFailures,
       pendingRequests: this.pendingRequests,
+      backoffRemainingMs: Math.max(0, this.backoffUntil - Date.now()),
     };
   }
 